@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Starts the scheduled job runner (src/instrumentation.ts)
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
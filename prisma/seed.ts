@@ -17,13 +17,24 @@ async function main() {
   // Using exact model names from schema.prisma
 
   // RV Inventory (new)
+  await prisma.pdiInspection.deleteMany()
+  await prisma.serviceLaborEntry.deleteMany()
+  await prisma.serviceRecordPart.deleteMany()
+  await prisma.serviceRecordLine.deleteMany()
   await prisma.serviceRecord.deleteMany()
   await prisma.vehicleOrderStatusHistory.deleteMany()
+  await prisma.vehicleInvoicePayment.deleteMany()
   await prisma.vehicleInvoice.deleteMany()
+  await prisma.vehicleOrderIncentive.deleteMany()
+  await prisma.dealJacketDocument.deleteMany()
   await prisma.vehicleOrder.deleteMany()
+  await prisma.tradeInValuation.deleteMany()
   await prisma.tradeIn.deleteMany()
   await prisma.rVModelIncentive.deleteMany()
   await prisma.rVUnit.deleteMany()
+  await prisma.extendedWarrantyContract.deleteMany()
+  await prisma.rVModelOption.deleteMany()
+  await prisma.rVModelOptionGroup.deleteMany()
   await prisma.rVModel.deleteMany()
 
   // Forum
@@ -86,8 +97,11 @@ async function main() {
   await prisma.warrantyClaimStatusHistory.deleteMany()
   await prisma.warrantyClaimNote.deleteMany()
   await prisma.warrantyClaimAttachment.deleteMany()
+  await prisma.warrantyPartReturn.deleteMany()
   await prisma.warrantyClaimItem.deleteMany()
+  await prisma.warrantyClaimLaborLine.deleteMany()
   await prisma.warrantyClaim.deleteMany()
+  await prisma.warrantySettlementBatch.deleteMany()
 
   // Announcements & Notifications
   await prisma.announcementReadReceipt.deleteMany()
@@ -980,6 +994,170 @@ Thank you for your continued partnership!`,
 
   console.log('🚐 Created RV models')
 
+  // Factory option catalogs for build orders
+  const seedOptionCatalog = async (
+    rvModelId: string,
+    groups: {
+      code: string
+      name: string
+      selection?: string
+      isRequired?: boolean
+      options: {
+        code: string
+        name: string
+        dealerCost: number
+        msrp: number
+        requires?: string[]
+        excludes?: string[]
+        includes?: string[]
+        exteriorColors?: string[]
+      }[]
+    }[]
+  ) => {
+    for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+      const group = groups[groupIndex]
+      const created = await prisma.rVModelOptionGroup.create({
+        data: {
+          rvModelId,
+          code: group.code,
+          name: group.name,
+          selection: group.selection ?? 'multiple',
+          isRequired: group.isRequired ?? false,
+          sortOrder: groupIndex,
+        },
+      })
+      for (let optionIndex = 0; optionIndex < group.options.length; optionIndex++) {
+        const option = group.options[optionIndex]
+        await prisma.rVModelOption.create({
+          data: {
+            rvModelId,
+            groupId: created.id,
+            code: option.code,
+            name: option.name,
+            dealerCost: option.dealerCost,
+            msrp: option.msrp,
+            requires: JSON.stringify(option.requires ?? []),
+            excludes: JSON.stringify(option.excludes ?? []),
+            includes: JSON.stringify(option.includes ?? []),
+            exteriorColors: option.exteriorColors ? JSON.stringify(option.exteriorColors) : null,
+            sortOrder: optionIndex,
+          },
+        })
+      }
+    }
+  }
+
+  await seedOptionCatalog(rvModels[0].id, [
+    {
+      code: 'PAINT',
+      name: 'Paint',
+      selection: 'single',
+      isRequired: true,
+      options: [
+        { code: 'PNT-PARTIAL', name: 'Partial paint', dealerCost: 0, msrp: 0 },
+        {
+          code: 'PNT-FULL',
+          name: 'Full-body paint with clear coat',
+          dealerCost: 9800,
+          msrp: 12500,
+          exteriorColors: ['Slate Gray', 'Midnight Blue'],
+        },
+      ],
+    },
+    {
+      code: 'POWER',
+      name: 'Power',
+      options: [
+        { code: 'PWR-LITHIUM', name: 'Lithium battery bank', dealerCost: 6200, msrp: 8400 },
+        { code: 'PWR-SOLAR-800', name: '800W solar package', dealerCost: 3100, msrp: 4200, requires: ['PWR-LITHIUM'] },
+        {
+          code: 'PWR-OFFGRID',
+          name: 'Off-grid package',
+          dealerCost: 8600,
+          msrp: 11500,
+          includes: ['PWR-LITHIUM', 'PWR-SOLAR-800'],
+        },
+      ],
+    },
+    {
+      code: 'ENTERTAINMENT',
+      name: 'Entertainment',
+      options: [
+        { code: 'ENT-EXT-TV', name: 'Exterior TV', dealerCost: 1400, msrp: 1995 },
+        { code: 'ENT-THEATER', name: 'Theater seating', dealerCost: 2600, msrp: 3495, excludes: ['ENT-DINETTE'] },
+        { code: 'ENT-DINETTE', name: 'Booth dinette', dealerCost: 0, msrp: 0, excludes: ['ENT-THEATER'] },
+      ],
+    },
+  ])
+
+  await seedOptionCatalog(rvModels[1].id, [
+    {
+      code: 'AWNING',
+      name: 'Awning',
+      selection: 'single',
+      options: [
+        { code: 'AWN-POWER-18', name: '18ft power awning', dealerCost: 1100, msrp: 1495 },
+        { code: 'AWN-POWER-21', name: '21ft power awning with LED', dealerCost: 1500, msrp: 1995 },
+      ],
+    },
+    {
+      code: 'COMFORT',
+      name: 'Comfort',
+      options: [
+        { code: 'CMF-HEATED-FLOOR', name: 'Heated tile floors', dealerCost: 1800, msrp: 2495 },
+        { code: 'CMF-DUAL-AC', name: 'Dual 15K BTU A/C', dealerCost: 1300, msrp: 1795 },
+        { code: 'CMF-GENERATOR', name: '5.5kW Onan generator', dealerCost: 4100, msrp: 5495, requires: ['CMF-DUAL-AC'] },
+      ],
+    },
+  ])
+
+  console.log('🧩 Created RV model option catalogs')
+
+  // Model incentives applied on vehicle orders
+  const retailBonusProgram = await prisma.incentiveProgram.create({
+    data: {
+      name: '2025 Motorhome Retail Bonus',
+      code: 'RETAIL-MH-2025',
+      description: 'Per-unit retail bonus on select 2025 motorhomes',
+      type: 'rebate',
+      subtype: 'flat_rate',
+      startDate: new Date('2025-01-01'),
+      endDate: new Date('2026-12-31'),
+      status: 'active',
+      rules: JSON.stringify({}),
+      requiresApproval: true,
+    },
+  })
+  await prisma.dealerProgramEnrollment.create({
+    data: {
+      dealerId: dealers[0].id,
+      programId: retailBonusProgram.id,
+      status: 'active',
+      approvedAt: new Date(),
+    },
+  })
+  await prisma.rVModelIncentive.createMany({
+    data: [
+      {
+        programId: retailBonusProgram.id,
+        rvModelId: rvModels[0].id,
+        incentiveType: 'per_unit',
+        amount: 5000,
+        conditions: JSON.stringify({ customerTypes: ['retail'] }),
+        validFrom: new Date('2025-01-01'),
+      },
+      {
+        programId: retailBonusProgram.id,
+        rvModelId: rvModels[1].id,
+        incentiveType: 'percentage',
+        amount: 2,
+        validFrom: new Date('2025-01-01'),
+      },
+    ],
+  })
+
+  console.log('🎁 Created RV model incentives')
+
   // Create RV Units (inventory)
   const now = new Date()
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
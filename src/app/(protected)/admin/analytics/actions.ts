@@ -287,7 +287,7 @@ export async function getOrderStatusDistribution(): Promise<OrderStatusDistribut
 
   const total = orderCounts.reduce((sum: number, o: { status: string; _count: number }) => sum + o._count, 0)
 
-  const statusOrder = ['submitted', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled']
+  const statusOrder = ['pending_approval', 'submitted', 'credit_hold', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled']
 
   return statusOrder.map((status) => {
     const found = orderCounts.find((o: { status: string; _count: number }) => o.status === status)
@@ -26,9 +26,12 @@ const tierColors: Record<string, string> = {
 }
 
 const statusColors: Record<string, string> = {
+  pending_approval: 'bg-yellow-300',
   submitted: 'bg-olive',
+  credit_hold: 'bg-orange-500',
   confirmed: 'bg-olive',
   processing: 'bg-yellow-500',
+  partially_shipped: 'bg-purple-300',
   shipped: 'bg-purple-500',
   delivered: 'bg-green-500',
   cancelled: 'bg-red-500',
@@ -392,7 +395,7 @@ export default function AdminAnalyticsPage() {
                       style={{ width: `${status.percentage}%` }}
                     >
                       <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block bg-charcoal text-white text-xs rounded px-2 py-1 whitespace-nowrap z-10 capitalize">
-                        {status.status}: {status.count} ({status.percentage}%)
+                        {status.status.replace('_', ' ')}: {status.count} ({status.percentage}%)
                       </div>
                     </div>
                   ))}
@@ -401,7 +404,7 @@ export default function AdminAnalyticsPage() {
                   {orderStatus.filter((s) => s.count > 0).map((status) => (
                     <div key={status.status} className="flex items-center gap-2">
                       <div className={`w-3 h-3 rounded ${statusColors[status.status] || 'bg-gray-500'}`} />
-                      <span className="text-sm text-medium-gray capitalize">{status.status}</span>
+                      <span className="text-sm text-medium-gray capitalize">{status.status.replace('_', ' ')}</span>
                       <span className="text-sm font-medium text-charcoal">{status.count}</span>
                     </div>
                   ))}
@@ -119,6 +119,7 @@ export function AuditLogTable({ data, users, entityTypes, actionTypes }: Props)
       login_failed: 'bg-orange-100 text-orange-800',
       password_change: 'bg-yellow-100 text-yellow-800',
       password_reset: 'bg-pink-100 text-pink-800',
+      override: 'bg-red-100 text-red-800',
     }
     return colors[action] || 'bg-gray-100 text-gray-800'
   }
@@ -47,6 +47,7 @@ export function DealerForm({ dealer, parentDealers, mode }: Props) {
     licenseNumber: dealer?.licenseNumber || '',
     insurancePolicy: dealer?.insurancePolicy || '',
     parentDealerId: dealer?.parentDealerId || '',
+    billPerShipment: dealer?.billPerShipment ?? false,
   })
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -82,6 +83,7 @@ export function DealerForm({ dealer, parentDealers, mode }: Props) {
           licenseNumber: formData.licenseNumber || null,
           insurancePolicy: formData.insurancePolicy || null,
           parentDealerId: formData.parentDealerId || null,
+          billPerShipment: formData.billPerShipment,
         })
       } else {
         result = await updateDealer({
@@ -94,6 +96,7 @@ export function DealerForm({ dealer, parentDealers, mode }: Props) {
           licenseNumber: formData.licenseNumber !== (dealer?.licenseNumber || '') ? (formData.licenseNumber || null) : undefined,
           insurancePolicy: formData.insurancePolicy !== (dealer?.insurancePolicy || '') ? (formData.insurancePolicy || null) : undefined,
           parentDealerId: formData.parentDealerId !== (dealer?.parentDealerId || '') ? (formData.parentDealerId || null) : undefined,
+          billPerShipment: formData.billPerShipment !== dealer?.billPerShipment ? formData.billPerShipment : undefined,
         })
       }
 
@@ -311,6 +314,22 @@ export function DealerForm({ dealer, parentDealers, mode }: Props) {
               <p className="mt-1 text-sm text-red-600">{errors.parentDealerId[0]}</p>
             )}
           </div>
+
+          {/* Billing */}
+          <div className="sm:col-span-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.billPerShipment}
+                onChange={(e) => setFormData((prev) => ({ ...prev, billPerShipment: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Invoice each shipment</span>
+            </label>
+            <p className="mt-1 text-sm text-gray-500">
+              Bill partial shipments as they ship instead of invoicing the whole order at confirmation.
+            </p>
+          </div>
         </div>
       </div>
 
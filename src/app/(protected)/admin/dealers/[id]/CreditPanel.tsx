@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { updateDealerCredit, type DealerCreditSummary } from '../actions'
+import {
+  agingBucketLabels,
+  agingBucketColors,
+  creditHoldActionLabels,
+} from '@/lib/credit-constants'
+import type { AgingBucket, CreditHoldAction } from '@/lib/credit'
+
+type Props = {
+  dealerId: string
+  credit: DealerCreditSummary
+}
+
+export function CreditPanel({ dealerId, credit }: Props) {
+  const [isPending, startTransition] = useTransition()
+  const [form, setForm] = useState({
+    creditLimit: credit.creditLimit === null ? '' : String(credit.creditLimit),
+    paymentTermsDays: String(credit.paymentTermsDays),
+    creditHoldAction: credit.creditHoldAction,
+  })
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const formatCurrency = (amount: number) =>
+    amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await updateDealerCredit({
+        dealerId,
+        creditLimit: form.creditLimit.trim() === '' ? null : parseFloat(form.creditLimit),
+        paymentTermsDays: parseInt(form.paymentTermsDays) || 0,
+        creditHoldAction: form.creditHoldAction,
+      })
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Credit &amp; Receivables</h3>
+          <p className="text-sm text-gray-500">
+            Orders on credit terms are checked against the limit below, counting open invoices and
+            orders not yet invoiced. Accounts with invoices 60 or more days past due are held.
+          </p>
+        </div>
+
+        {message && (
+          <div
+            className={`p-3 rounded text-sm ${
+              message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <dl className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Credit Limit</dt>
+            <dd className="mt-1 text-lg font-semibold text-gray-900">
+              {credit.creditLimit === null ? 'No limit' : formatCurrency(credit.creditLimit)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Exposure</dt>
+            <dd className="mt-1 text-lg font-semibold text-gray-900">{formatCurrency(credit.exposure)}</dd>
+            <dd className="text-xs text-gray-500">
+              {formatCurrency(credit.openOrderExposure)} on orders not yet invoiced
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Available Credit</dt>
+            <dd className="mt-1 text-lg font-semibold text-gray-900">
+              {credit.availableCredit === null ? 'Unlimited' : formatCurrency(credit.availableCredit)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Terms</dt>
+            <dd className="mt-1 text-lg font-semibold text-gray-900">{credit.paymentTerms}</dd>
+          </div>
+        </dl>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Receivables Aging</h4>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {(Object.keys(agingBucketLabels) as AgingBucket[]).map((bucket) => (
+                  <th key={bucket} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    {agingBucketLabels[bucket]}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              <tr>
+                {(Object.keys(agingBucketLabels) as AgingBucket[]).map((bucket) => (
+                  <td key={bucket} className={`px-4 py-3 text-sm text-right ${agingBucketColors[bucket]}`}>
+                    {formatCurrency(credit.aging[bucket])}
+                  </td>
+                ))}
+                <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                  {formatCurrency(credit.aging.totalOutstanding)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          {credit.aging.oldestDaysPastDue > 0 && (
+            <p className="mt-2 text-sm text-gray-500">
+              Oldest invoice is {credit.aging.oldestDaysPastDue} days past due.
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleSave} className="grid gap-4 md:grid-cols-3 items-end border-t pt-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Credit Limit</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              value={form.creditLimit}
+              onChange={(e) => setForm({ ...form, creditLimit: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Payment Terms (days)</label>
+            <input
+              type="number"
+              min="0"
+              max="180"
+              required
+              value={form.paymentTermsDays}
+              onChange={(e) => setForm({ ...form, paymentTermsDays: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">When credit check fails</label>
+            <select
+              value={form.creditHoldAction}
+              onChange={(e) => setForm({ ...form, creditHoldAction: e.target.value as CreditHoldAction })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            >
+              {Object.entries(creditHoldActionLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-3 flex justify-end">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Credit Settings
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
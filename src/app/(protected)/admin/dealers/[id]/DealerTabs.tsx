@@ -8,8 +8,12 @@ import type {
   DealerOrder,
   DealerContact,
   DealerAddress,
+  TaxCertificate,
+  DealerCreditSummary,
 } from '../actions'
 import { DealerForm } from '../DealerForm'
+import { TaxCertificatesPanel } from './TaxCertificatesPanel'
+import { CreditPanel } from './CreditPanel'
 
 type Props = {
   dealer: DealerDetail
@@ -17,6 +21,8 @@ type Props = {
   orders: DealerOrder[]
   contacts: DealerContact[]
   addresses: DealerAddress[]
+  taxCertificates: TaxCertificate[]
+  credit: DealerCreditSummary | null
   parentDealers: { id: string; name: string; code: string }[]
 }
 
@@ -25,10 +31,21 @@ const tabs = [
   { id: 'users', label: 'Users' },
   { id: 'orders', label: 'Orders' },
   { id: 'contacts', label: 'Contacts' },
+  { id: 'tax', label: 'Tax' },
+  { id: 'credit', label: 'Credit' },
   { id: 'settings', label: 'Settings' },
 ]
 
-export function DealerTabs({ dealer, users, orders, contacts, addresses, parentDealers }: Props) {
+export function DealerTabs({
+  dealer,
+  users,
+  orders,
+  contacts,
+  addresses,
+  taxCertificates,
+  credit,
+  parentDealers,
+}: Props) {
   const searchParams = useSearchParams()
   const currentTab = searchParams.get('tab') || 'overview'
 
@@ -39,7 +56,9 @@ export function DealerTabs({ dealer, users, orders, contacts, addresses, parentD
       pending: 'bg-yellow-100 text-yellow-800',
       suspended: 'bg-red-100 text-red-800',
       draft: 'bg-gray-100 text-gray-800',
+      pending_approval: 'bg-yellow-100 text-yellow-800',
       submitted: 'bg-blue-100 text-blue-800',
+      credit_hold: 'bg-orange-100 text-orange-800',
       confirmed: 'bg-indigo-100 text-indigo-800',
       processing: 'bg-purple-100 text-purple-800',
       shipped: 'bg-cyan-100 text-cyan-800',
@@ -359,6 +378,12 @@ export function DealerTabs({ dealer, users, orders, contacts, addresses, parentD
         </div>
       )}
 
+      {currentTab === 'tax' && (
+        <TaxCertificatesPanel dealerId={dealer.id} certificates={taxCertificates} />
+      )}
+
+      {currentTab === 'credit' && credit && <CreditPanel dealerId={dealer.id} credit={credit} />}
+
       {currentTab === 'settings' && (
         <div className="bg-white rounded-lg shadow">
           <div className="px-4 py-5 sm:p-6">
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import {
+  addDealerTaxCertificate,
+  revokeDealerTaxCertificate,
+  type TaxCertificate,
+} from '../actions'
+
+type Props = {
+  dealerId: string
+  certificates: TaxCertificate[]
+}
+
+const emptyForm = {
+  certificateNumber: '',
+  type: 'resale' as 'resale' | 'exempt',
+  state: '',
+  expiresAt: '',
+  notes: '',
+}
+
+export function TaxCertificatesPanel({ dealerId, certificates }: Props) {
+  const [isPending, startTransition] = useTransition()
+  const [form, setForm] = useState(emptyForm)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const formatDate = (date: Date | null) =>
+    date ? new Date(date).toLocaleDateString('en-US') : 'No expiry'
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await addDealerTaxCertificate({
+        dealerId,
+        certificateNumber: form.certificateNumber,
+        type: form.type,
+        state: form.state || null,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt) : null,
+        notes: form.notes || undefined,
+      })
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+      if (result.success) setForm(emptyForm)
+    })
+  }
+
+  function handleRevoke(certificateId: string) {
+    if (!confirm('Revoke this certificate? Future orders will be taxed.')) return
+    startTransition(async () => {
+      const result = await revokeDealerTaxCertificate(dealerId, certificateId)
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Tax Exemption Certificates</h3>
+          <p className="text-sm text-gray-500">
+            Active resale or exemption certificates zero out sales tax on orders shipped to the
+            covered state. Leave state blank for a multi-state certificate.
+          </p>
+        </div>
+
+        {message && (
+          <div
+            className={`p-3 rounded text-sm ${
+              message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {certificates.length === 0 ? (
+          <p className="text-gray-500 text-sm">No certificates on file.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Certificate</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">State</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Expires</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {certificates.map((cert) => (
+                <tr key={cert.id}>
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">{cert.certificateNumber}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500 capitalize">{cert.type}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{cert.state || 'All states'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatDate(cert.expiresAt)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        cert.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {cert.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {cert.status === 'active' && (
+                      <button
+                        onClick={() => handleRevoke(cert.id)}
+                        disabled={isPending}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <form onSubmit={handleAdd} className="grid gap-4 md:grid-cols-5 items-end border-t pt-6">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Certificate Number</label>
+            <input
+              type="text"
+              required
+              value={form.certificateNumber}
+              onChange={(e) => setForm({ ...form, certificateNumber: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Type</label>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as 'resale' | 'exempt' })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            >
+              <option value="resale">Resale</option>
+              <option value="exempt">Exempt</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">State</label>
+            <input
+              type="text"
+              maxLength={2}
+              placeholder="All"
+              value={form.state}
+              onChange={(e) => setForm({ ...form, state: e.target.value.toUpperCase() })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Expires</label>
+            <input
+              type="date"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div className="md:col-span-5 flex justify-end">
+            <button
+              type="submit"
+              disabled={isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add Certificate
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
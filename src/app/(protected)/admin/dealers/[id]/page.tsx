@@ -8,6 +8,8 @@ import {
   getDealerOrders,
   getDealerContacts,
   getDealerAddresses,
+  getDealerTaxCertificates,
+  getDealerCredit,
 } from '../actions'
 import { DealerTabs } from './DealerTabs'
 
@@ -24,13 +26,15 @@ export default async function DealerDetailPage({ params }: Props) {
   const { id } = await params
 
   // Fetch all dealer data in parallel
-  const [dealer, parentDealers, users, orders, contacts, addresses] = await Promise.all([
+  const [dealer, parentDealers, users, orders, contacts, addresses, taxCertificates, credit] = await Promise.all([
     getDealer(id),
     getParentDealers(),
     getDealerUsers(id),
     getDealerOrders(id),
     getDealerContacts(id),
     getDealerAddresses(id),
+    getDealerTaxCertificates(id),
+    getDealerCredit(id),
   ])
 
   if (!dealer) {
@@ -107,6 +111,8 @@ export default async function DealerDetailPage({ params }: Props) {
           orders={orders}
           contacts={contacts}
           addresses={addresses}
+          taxCertificates={taxCertificates}
+          credit={credit}
           parentDealers={parentDealers}
         />
       </Suspense>
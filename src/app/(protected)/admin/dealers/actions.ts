@@ -4,16 +4,31 @@ import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
 import { isAdmin } from '@/lib/roles'
 import { revalidatePath } from 'next/cache'
+import { createAuditLog } from '@/lib/audit'
 import {
   dealerFilterSchema,
   bulkDealerActionSchema,
   createDealerSchema,
   updateDealerSchema,
+  dealerCreditSettingsSchema,
   type DealerFilterInput,
   type BulkDealerActionInput,
   type CreateDealerInput,
   type UpdateDealerInput,
+  type DealerCreditSettingsInput,
 } from '@/lib/validations/dealer'
+import {
+  getDealerTaxCertificates as fetchDealerTaxCertificates,
+  createTaxCertificate,
+  revokeTaxCertificate,
+  type TaxCertificate,
+  type CreateTaxCertificateInput,
+} from '@/lib/services/tax'
+import {
+  getDealerCreditSummary,
+  updateDealerCreditSettings,
+  type DealerCreditSummary,
+} from '@/lib/services/credit'
 
 export type DealerListItem = {
   id: string
@@ -231,6 +246,7 @@ export type DealerDetail = {
   licenseNumber: string | null
   insurancePolicy: string | null
   parentDealerId: string | null
+  billPerShipment: boolean
   createdAt: Date
   updatedAt: Date
   parentDealer: {
@@ -264,6 +280,7 @@ export async function getDealer(id: string): Promise<DealerDetail | null> {
       licenseNumber: true,
       insurancePolicy: true,
       parentDealerId: true,
+      billPerShipment: true,
       createdAt: true,
       updatedAt: true,
       parentDealer: {
@@ -338,6 +355,7 @@ export async function createDealer(input: CreateDealerInput): Promise<CreateDeal
         licenseNumber: validatedData.licenseNumber || null,
         insurancePolicy: validatedData.insurancePolicy || null,
         parentDealerId: validatedData.parentDealerId || null,
+        billPerShipment: validatedData.billPerShipment,
       },
     })
 
@@ -431,6 +449,7 @@ export async function updateDealer(input: UpdateDealerInput): Promise<UpdateDeal
     if (updateData.licenseNumber !== undefined) cleanUpdateData.licenseNumber = updateData.licenseNumber
     if (updateData.insurancePolicy !== undefined) cleanUpdateData.insurancePolicy = updateData.insurancePolicy
     if (updateData.parentDealerId !== undefined) cleanUpdateData.parentDealerId = updateData.parentDealerId
+    if (updateData.billPerShipment !== undefined) cleanUpdateData.billPerShipment = updateData.billPerShipment
 
     await prisma.dealer.update({
       where: { id },
@@ -585,6 +604,115 @@ export async function getDealerAddresses(dealerId: string): Promise<DealerAddres
   })
 }
 
+// Tax exemption certificates
+
+export type { TaxCertificate }
+
+export type TaxCertificateState = {
+  success: boolean
+  message: string
+}
+
+export async function getDealerTaxCertificates(dealerId: string): Promise<TaxCertificate[]> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return []
+  }
+
+  return fetchDealerTaxCertificates(dealerId)
+}
+
+export async function addDealerTaxCertificate(
+  input: CreateTaxCertificateInput
+): Promise<TaxCertificateState> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return { success: false, message: 'Unauthorized' }
+  }
+
+  const result = await createTaxCertificate(input)
+  if (!result.success) {
+    return { success: false, message: result.error || 'Failed to add certificate' }
+  }
+
+  revalidatePath(`/admin/dealers/${input.dealerId}`)
+  return { success: true, message: 'Certificate added' }
+}
+
+export async function revokeDealerTaxCertificate(
+  dealerId: string,
+  certificateId: string
+): Promise<TaxCertificateState> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return { success: false, message: 'Unauthorized' }
+  }
+
+  const result = await revokeTaxCertificate(dealerId, certificateId)
+  if (!result.success) {
+    return { success: false, message: result.error || 'Failed to revoke certificate' }
+  }
+
+  revalidatePath(`/admin/dealers/${dealerId}`)
+  return { success: true, message: 'Certificate revoked' }
+}
+
+// Credit types and functions
+
+export type { DealerCreditSummary }
+
+export type DealerCreditState = {
+  success: boolean
+  message: string
+}
+
+export async function getDealerCredit(dealerId: string): Promise<DealerCreditSummary | null> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return null
+  }
+
+  return getDealerCreditSummary(dealerId)
+}
+
+export async function updateDealerCredit(input: DealerCreditSettingsInput): Promise<DealerCreditState> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return { success: false, message: 'Unauthorized' }
+  }
+
+  const validated = dealerCreditSettingsSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, message: validated.error.issues[0]?.message || 'Invalid credit settings' }
+  }
+
+  const result = await updateDealerCreditSettings(validated.data)
+  if (!result.success) {
+    return { success: false, message: result.error || 'Failed to update credit settings' }
+  }
+
+  await createAuditLog({
+    action: 'update',
+    entityType: 'Dealer',
+    entityId: validated.data.dealerId,
+    oldValues: result.previous,
+    newValues: {
+      creditLimit: validated.data.creditLimit,
+      paymentTermsDays: validated.data.paymentTermsDays,
+      creditHoldAction: validated.data.creditHoldAction,
+    },
+    userId: session.user.id,
+  })
+
+  revalidatePath(`/admin/dealers/${validated.data.dealerId}`)
+  return { success: true, message: 'Credit settings saved' }
+}
+
 // Hierarchy types and functions
 
 export type DealerHierarchyNode = {
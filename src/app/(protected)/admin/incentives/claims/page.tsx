@@ -124,6 +124,7 @@ export default function AdminClaimsPage() {
       promotional: 'Promotional',
       digital_marketing: 'Digital Marketing',
       signage: 'Signage',
+      model_incentive: 'Model Incentive',
       other: 'Other',
     }
     return labels[type] || type
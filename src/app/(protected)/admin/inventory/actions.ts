@@ -1,6 +1,7 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
+import { reconstructStockLevel, type MovementType } from '@/lib/inventory-utils'
 
 // ============================================================================
 // INVENTORY DASHBOARD ACTIONS
@@ -353,13 +354,112 @@ export type RecentMovement = {
   newQuantity: number
   timestamp: Date
   type: 'in' | 'out' | 'adjustment'
+  movementType: MovementType
+  reason: string | null
+  notes: string | null
 }
 
-// Note: This would require an InventoryMovement model to track historical changes
-// For now, we'll simulate with a placeholder that returns empty
-export async function getRecentMovements(limit = 10): Promise<RecentMovement[]> {
-  // TODO: Implement when InventoryMovement model is added
-  return []
+export async function getRecentMovements(
+  limit = 10,
+  filters: { productId?: string; locationId?: string } = {}
+): Promise<RecentMovement[]> {
+  const movements = await prisma.inventoryMovement.findMany({
+    where: {
+      ...(filters.productId && { productId: filters.productId }),
+      ...(filters.locationId && { locationId: filters.locationId }),
+    },
+    include: {
+      product: { select: { sku: true, name: true } },
+      location: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+
+  return movements.map((movement) => ({
+    id: movement.id,
+    productId: movement.productId,
+    productSku: movement.product.sku,
+    productName: movement.product.name,
+    locationName: movement.location.name,
+    change: movement.quantityChange,
+    newQuantity: movement.quantityAfter,
+    timestamp: movement.createdAt,
+    type: movement.type === 'adjustment' ? 'adjustment' : movement.quantityChange > 0 ? 'in' : 'out',
+    movementType: movement.type as MovementType,
+    reason: movement.reason,
+    notes: movement.notes,
+  }))
+}
+
+// ============================================================================
+// STOCK AS OF DATE
+// ============================================================================
+
+export type StockSnapshotItem = {
+  productId: string
+  productSku: string
+  productName: string
+  locationId: string
+  locationName: string
+  quantity: number
+  reserved: number
+  currentQuantity: number
+  currentReserved: number
+}
+
+// Reconstruct stock levels at a past point in time from the movement ledger
+export async function getStockAsOf(
+  asOf: Date,
+  filters: { productId?: string; locationId?: string } = {}
+): Promise<StockSnapshotItem[]> {
+  const where = {
+    ...(filters.productId && { productId: filters.productId }),
+    ...(filters.locationId && { locationId: filters.locationId }),
+  }
+
+  const [inventory, movements] = await Promise.all([
+    prisma.inventory.findMany({
+      where,
+      include: {
+        product: { select: { sku: true, name: true } },
+        location: { select: { name: true } },
+      },
+    }),
+    prisma.inventoryMovement.findMany({
+      where: { ...where, createdAt: { gt: asOf } },
+      select: { productId: true, locationId: true, quantityChange: true, reservedChange: true },
+    }),
+  ])
+
+  const movementsByKey = new Map<string, typeof movements>()
+  for (const movement of movements) {
+    const key = `${movement.productId}:${movement.locationId}`
+    const list = movementsByKey.get(key) ?? []
+    list.push(movement)
+    movementsByKey.set(key, list)
+  }
+
+  return inventory
+    .map((inv) => {
+      const level = reconstructStockLevel(
+        inv,
+        movementsByKey.get(`${inv.productId}:${inv.locationId}`) ?? []
+      )
+      return {
+        productId: inv.productId,
+        productSku: inv.product.sku,
+        productName: inv.product.name,
+        locationId: inv.locationId,
+        locationName: inv.location.name,
+        quantity: level.quantity,
+        reserved: level.reserved,
+        currentQuantity: inv.quantity,
+        currentReserved: inv.reserved,
+      }
+    })
+    .filter((item) => item.quantity !== 0 || item.reserved !== 0 || item.currentQuantity !== 0)
+    .sort((a, b) => a.productSku.localeCompare(b.productSku) || a.locationName.localeCompare(b.locationName))
 }
 
 // ============================================================================
@@ -3,7 +3,13 @@
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
-import { adjustmentReasons, type AdjustmentReason } from '@/lib/inventory-utils'
+import { auth } from '@/lib/auth'
+import { applyInventoryChange } from '@/lib/inventory-ledger'
+import {
+  adjustmentReasons,
+  getMovementTypeForReason,
+  type AdjustmentReason,
+} from '@/lib/inventory-utils'
 
 // Re-export type for client use
 export type { AdjustmentReason } from '@/lib/inventory-utils'
@@ -52,9 +58,6 @@ type AdjustmentState = {
   errors?: Record<string, string[]>
 }
 
-// Note: For a full implementation, we'd add an InventoryAdjustment model to the schema
-// For now, we'll store adjustments in the audit log and update inventory directly
-
 // ============================================================================
 // ADJUST INVENTORY
 // ============================================================================
@@ -72,18 +75,17 @@ export async function adjustInventory(input: AdjustmentInput): Promise<Adjustmen
 
     const { productId, locationId, type, quantity, reason, notes } = validated.data
 
-    // Get or create inventory record
-    let inventory = await prisma.inventory.findUnique({
+    const session = await auth()
+    const userId = session?.user?.id ?? null
+
+    const current = await prisma.inventory.findUnique({
       where: {
         productId_locationId: { productId, locationId },
       },
-      include: {
-        product: { select: { sku: true, name: true } },
-        location: { select: { name: true } },
-      },
+      select: { quantity: true },
     })
 
-    const previousQuantity = inventory?.quantity ?? 0
+    const previousQuantity = current?.quantity ?? 0
     let newQuantity: number
 
     switch (type) {
@@ -98,47 +100,27 @@ export async function adjustInventory(input: AdjustmentInput): Promise<Adjustmen
         break
     }
 
-    if (inventory) {
-      // Update existing inventory
-      inventory = await prisma.inventory.update({
-        where: { id: inventory.id },
-        data: { quantity: newQuantity },
-        include: {
-          product: { select: { sku: true, name: true } },
-          location: { select: { name: true } },
-        },
-      })
-    } else {
-      // Create new inventory record
-      inventory = await prisma.inventory.create({
-        data: {
-          productId,
-          locationId,
-          quantity: newQuantity,
-          reserved: 0,
-          lowStockThreshold: 10,
-        },
-        include: {
-          product: { select: { sku: true, name: true } },
-          location: { select: { name: true } },
-        },
+    // Update stock and record the movement together
+    const { movement } = await prisma.$transaction((tx) =>
+      applyInventoryChange(tx, {
+        productId,
+        locationId,
+        type: getMovementTypeForReason(reason),
+        quantityChange: newQuantity - previousQuantity,
+        reason,
+        notes: notes ?? null,
+        referenceType: 'adjustment',
+        userId,
       })
-    }
+    )
 
-    // Create audit log entry
-    await prisma.auditLog.create({
-      data: {
-        action: 'update',
-        entityType: 'Inventory',
-        entityId: inventory.id,
-        oldValues: JSON.stringify({ quantity: previousQuantity }),
-        newValues: JSON.stringify({
-          quantity: newQuantity,
-          adjustmentType: type,
-          adjustmentQuantity: quantity,
-          reason,
-          notes,
-        }),
+    const inventory = await prisma.inventory.findUniqueOrThrow({
+      where: {
+        productId_locationId: { productId, locationId },
+      },
+      include: {
+        product: { select: { sku: true, name: true } },
+        location: { select: { name: true } },
       },
     })
 
@@ -150,7 +132,7 @@ export async function adjustInventory(input: AdjustmentInput): Promise<Adjustmen
       success: true,
       message: `Inventory ${type === 'add' ? 'increased' : type === 'remove' ? 'decreased' : 'set'} successfully`,
       adjustment: {
-        id: inventory.id + '-' + Date.now(),
+        id: movement.id,
         inventoryId: inventory.id,
         productId,
         productSku: inventory.product.sku,
@@ -159,12 +141,12 @@ export async function adjustInventory(input: AdjustmentInput): Promise<Adjustmen
         locationName: inventory.location.name,
         type,
         quantity,
-        previousQuantity,
-        newQuantity,
+        previousQuantity: movement.quantityBefore,
+        newQuantity: movement.quantityAfter,
         reason,
         notes: notes ?? null,
-        adjustedBy: null, // Would come from session
-        adjustedAt: new Date(),
+        adjustedBy: userId,
+        adjustedAt: movement.createdAt,
       },
     }
   } catch (error) {
@@ -243,7 +225,6 @@ export type AdjustmentHistoryFilters = {
 
 export type AdjustmentHistoryItem = {
   id: string
-  inventoryId: string
   productSku: string
   productName: string
   locationName: string
@@ -253,72 +234,58 @@ export type AdjustmentHistoryItem = {
   newQuantity: number
   reason: string
   notes: string | null
+  adjustedBy: string | null
   adjustedAt: Date
 }
 
 export async function getAdjustmentHistory(
   filters: AdjustmentHistoryFilters = {}
 ): Promise<{ items: AdjustmentHistoryItem[]; total: number }> {
-  const { productId, locationId, startDate, endDate, page = 1, pageSize = 20 } = filters
-
-  // Get audit logs for inventory adjustments
-  const logs = await prisma.auditLog.findMany({
-    where: {
-      entityType: 'Inventory',
-      action: 'update',
-      ...(startDate && { createdAt: { gte: startDate } }),
-      ...(endDate && { createdAt: { lte: endDate } }),
-    },
-    orderBy: { createdAt: 'desc' },
-    skip: (page - 1) * pageSize,
-    take: pageSize,
-  })
-
-  const total = await prisma.auditLog.count({
-    where: {
-      entityType: 'Inventory',
-      action: 'update',
-      ...(startDate && { createdAt: { gte: startDate } }),
-      ...(endDate && { createdAt: { lte: endDate } }),
-    },
-  })
-
-  // Fetch inventory details for each log
-  const items: AdjustmentHistoryItem[] = []
-
-  for (const log of logs) {
-    const inventory = await prisma.inventory.findUnique({
-      where: { id: log.entityId ?? '' },
-      include: {
-        product: { select: { id: true, sku: true, name: true } },
-        location: { select: { id: true, name: true } },
+  const { productId, locationId, reason, startDate, endDate, page = 1, pageSize = 20 } = filters
+
+  // Manual adjustments are the ledger entries raised from this screen
+  const where = {
+    referenceType: 'adjustment',
+    ...(productId && { productId }),
+    ...(locationId && { locationId }),
+    ...(reason && { reason }),
+    ...((startDate || endDate) && {
+      createdAt: {
+        ...(startDate && { gte: startDate }),
+        ...(endDate && { lte: endDate }),
       },
-    })
-
-    if (!inventory) continue
-
-    // Filter by product/location if specified
-    if (productId && inventory.product.id !== productId) continue
-    if (locationId && inventory.location.id !== locationId) continue
-
-    const oldValues = log.oldValues ? JSON.parse(log.oldValues) : {}
-    const newValues = log.newValues ? JSON.parse(log.newValues) : {}
-
-    items.push({
-      id: log.id,
-      inventoryId: log.entityId ?? '',
-      productSku: inventory.product.sku,
-      productName: inventory.product.name,
-      locationName: inventory.location.name,
-      type: newValues.adjustmentType ?? 'update',
-      quantity: newValues.adjustmentQuantity ?? 0,
-      previousQuantity: oldValues.quantity ?? 0,
-      newQuantity: newValues.quantity ?? 0,
-      reason: newValues.reason ?? 'unknown',
-      notes: newValues.notes ?? null,
-      adjustedAt: log.createdAt,
-    })
+    }),
   }
 
+  const [movements, total] = await Promise.all([
+    prisma.inventoryMovement.findMany({
+      where,
+      include: {
+        product: { select: { sku: true, name: true } },
+        location: { select: { name: true } },
+        user: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.inventoryMovement.count({ where }),
+  ])
+
+  const items: AdjustmentHistoryItem[] = movements.map((movement) => ({
+    id: movement.id,
+    productSku: movement.product.sku,
+    productName: movement.product.name,
+    locationName: movement.location.name,
+    type: movement.quantityChange >= 0 ? 'add' : 'remove',
+    quantity: Math.abs(movement.quantityChange),
+    previousQuantity: movement.quantityBefore,
+    newQuantity: movement.quantityAfter,
+    reason: movement.reason ?? 'unknown',
+    notes: movement.notes,
+    adjustedBy: movement.user ? `${movement.user.firstName} ${movement.user.lastName}` : null,
+    adjustedAt: movement.createdAt,
+  }))
+
   return { items, total }
 }
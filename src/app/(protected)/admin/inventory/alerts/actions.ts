@@ -3,6 +3,7 @@
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
+import { getInTransitQuantities } from '../transfers/actions'
 
 // ============================================================================
 // SCHEMAS
@@ -45,6 +46,7 @@ export type StockAlert = {
   currentStock: number
   reserved: number
   available: number
+  incomingTransfer: number
   threshold: number
   severity: AlertSeverity
   percentOfThreshold: number
@@ -157,6 +159,9 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
     },
   })
 
+  // Stock already in transit to a location counts against its alert
+  const incoming = await getIncomingTransferMap()
+
   // Build a map of acknowledged inventory IDs
   const acknowledgedMap = new Map<string, { at: Date | null }>()
   for (const notification of notifications) {
@@ -172,6 +177,8 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
 
   type AlertInventoryItem = {
     id: string
+    productId: string
+    locationId: string
     quantity: number
     reserved: number
     lowStockThreshold: number
@@ -200,6 +207,7 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
       }
 
       const ackInfo = acknowledgedMap.get(item.id)
+      const incomingTransfer = incoming.get(`${item.productId}:${item.locationId}`) ?? 0
 
       return {
         id: item.id,
@@ -209,6 +217,7 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
         currentStock: item.quantity,
         reserved: item.reserved,
         available,
+        incomingTransfer,
         threshold: item.lowStockThreshold,
         severity: itemSeverity,
         percentOfThreshold,
@@ -218,7 +227,10 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
         acknowledgedAt: ackInfo?.at ?? null,
       }
     })
-    .filter((item: { available: number; threshold: number }) => item.available <= item.threshold) // Only show items below threshold
+    // Only show items below threshold once incoming transfers are counted
+    .filter((item: { available: number; incomingTransfer: number; threshold: number }) =>
+      item.available + item.incomingTransfer <= item.threshold
+    )
 
   // Filter by severity
   if (severity) {
@@ -261,6 +273,11 @@ export async function getStockAlerts(filters: AlertFilters = {}): Promise<{
   }
 }
 
+async function getIncomingTransferMap(): Promise<Map<string, number>> {
+  const inTransit = await getInTransitQuantities('incoming')
+  return new Map(inTransit.map((entry) => [`${entry.productId}:${entry.locationId}`, entry.quantity]))
+}
+
 // ============================================================================
 // GET ALERT SUMMARY
 // ============================================================================
@@ -269,11 +286,14 @@ export async function getAlertSummary(): Promise<AlertSummary> {
   const inventory = await prisma.inventory.findMany({
     select: {
       id: true,
+      productId: true,
+      locationId: true,
       quantity: true,
       reserved: true,
       lowStockThreshold: true,
     },
   })
+  const incoming = await getIncomingTransferMap()
 
   let critical = 0
   let warning = 0
@@ -299,8 +319,9 @@ export async function getAlertSummary(): Promise<AlertSummary> {
 
   for (const item of inventory) {
     const available = item.quantity - item.reserved
+    const incomingTransfer = incoming.get(`${item.productId}:${item.locationId}`) ?? 0
 
-    if (available > item.lowStockThreshold) {
+    if (available + incomingTransfer > item.lowStockThreshold) {
       continue // Not an alert
     }
 
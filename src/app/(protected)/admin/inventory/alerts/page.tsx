@@ -463,6 +463,11 @@ export default function AlertsPage() {
                       <span className="text-medium-gray text-sm ml-1">
                         ({alert.currentStock} total, {alert.reserved} reserved)
                       </span>
+                      {alert.incomingTransfer > 0 && (
+                        <div className="text-xs text-olive">
+                          +{alert.incomingTransfer} in transit
+                        </div>
+                      )}
                     </td>
                     <td className="text-right">
                       {editingThreshold === alert.id ? (
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  getStockAsOf,
+  getInventoryLocations,
+  type StockSnapshotItem,
+  type InventoryLocationListItem,
+} from '../actions'
+
+function formatNumber(value: number): string {
+  return new Intl.NumberFormat('en-US').format(value)
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export default function StockHistoryPage() {
+  const [locations, setLocations] = useState<InventoryLocationListItem[]>([])
+  const [items, setItems] = useState<StockSnapshotItem[]>([])
+  const [asOfDate, setAsOfDate] = useState(toDateInput(new Date()))
+  const [locationId, setLocationId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    getInventoryLocations().then(setLocations).catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    const loadSnapshot = async () => {
+      setIsLoading(true)
+      try {
+        // Snapshot at the end of the selected day
+        const asOf = new Date(`${asOfDate}T23:59:59.999`)
+        setItems(await getStockAsOf(asOf, { locationId: locationId || undefined }))
+      } catch (error) {
+        console.error('Failed to load stock history:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadSnapshot()
+  }, [asOfDate, locationId])
+
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0)
+  const totalReserved = items.reduce((sum, item) => sum + item.reserved, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <nav className="flex mb-2" aria-label="Breadcrumb">
+          <ol className="flex items-center space-x-2 text-sm text-gray-500">
+            <li>
+              <Link href="/admin/inventory" className="hover:text-gray-700">
+                Inventory
+              </Link>
+            </li>
+            <li>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </li>
+            <li className="font-medium text-gray-900">Stock History</li>
+          </ol>
+        </nav>
+        <h1 className="text-2xl font-bold text-gray-900">Stock History</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Reconstruct stock levels at any past date from the inventory movement ledger
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">As of</label>
+          <input
+            type="date"
+            value={asOfDate}
+            max={toDateInput(new Date())}
+            onChange={(e) => setAsOfDate(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Location</label>
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm sm:text-sm"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="ml-auto text-sm text-gray-600">
+          {formatNumber(totalQuantity)} on hand • {formatNumber(totalReserved)} reserved
+        </div>
+      </div>
+
+      {/* Snapshot */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 animate-pulse space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-8 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No stock on record for this date</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reserved</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current On Hand</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item) => (
+                <tr key={`${item.productId}-${item.locationId}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                    <div className="text-sm text-gray-500">{item.productSku}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.locationName}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                    {formatNumber(item.quantity)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                    {formatNumber(item.reserved)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                    {formatNumber(item.currentQuantity)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
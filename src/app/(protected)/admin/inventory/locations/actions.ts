@@ -3,6 +3,7 @@
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
+import { getInTransitQuantities } from '../transfers/actions'
 
 // ============================================================================
 // SCHEMAS
@@ -46,6 +47,8 @@ export type LocationListItem = {
   inventoryCount: number
   totalStock: number
   totalValue: number
+  incomingTransfer: number
+  outgoingTransfer: number
 }
 
 type CreateLocationState = {
@@ -147,6 +150,20 @@ export async function getLocations(): Promise<LocationListItem[]> {
     orderBy: { name: 'asc' },
   })
 
+  const [incoming, outgoing] = await Promise.all([
+    getInTransitQuantities('incoming'),
+    getInTransitQuantities('outgoing'),
+  ])
+  const sumByLocation = (entries: typeof incoming) => {
+    const totals = new Map<string, number>()
+    for (const entry of entries) {
+      totals.set(entry.locationId, (totals.get(entry.locationId) ?? 0) + entry.quantity)
+    }
+    return totals
+  }
+  const incomingByLocation = sumByLocation(incoming)
+  const outgoingByLocation = sumByLocation(outgoing)
+
   type LocationQueryItem = {
     id: string
     name: string
@@ -180,6 +197,8 @@ export async function getLocations(): Promise<LocationListItem[]> {
       inventoryCount: location.inventory.length,
       totalStock,
       totalValue,
+      incomingTransfer: incomingByLocation.get(location.id) ?? 0,
+      outgoingTransfer: outgoingByLocation.get(location.id) ?? 0,
     }
   })
 }
@@ -303,7 +322,7 @@ export async function deleteLocation(id: string): Promise<DeleteLocationState> {
       where: { id },
       include: {
         _count: {
-          select: { inventory: true },
+          select: { inventory: true, outgoingTransfers: true, incomingTransfers: true },
         },
       },
     })
@@ -315,6 +334,13 @@ export async function deleteLocation(id: string): Promise<DeleteLocationState> {
       }
     }
 
+    if (location._count.outgoingTransfers + location._count.incomingTransfers > 0) {
+      return {
+        success: false,
+        message: 'Cannot delete a location with transfer history. Deactivate it instead.',
+      }
+    }
+
     // Check if location has inventory
     if (location._count.inventory > 0) {
       return {
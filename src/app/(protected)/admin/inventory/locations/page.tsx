@@ -214,15 +214,23 @@ export default function LocationsPage() {
             Manage warehouses, stores, and distribution centers
           </p>
         </div>
-        <button
-          onClick={handleCreate}
-          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Add Location
-        </button>
+        <div className="flex items-center gap-3">
+          <Link
+            href="/admin/inventory/transfers"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Transfers
+          </Link>
+          <button
+            onClick={handleCreate}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Location
+          </button>
+        </div>
       </div>
 
       {/* Message */}
@@ -276,6 +284,9 @@ export default function LocationsPage() {
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Total Stock
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  In Transit
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Value
                 </th>
@@ -308,6 +319,23 @@ export default function LocationsPage() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                     {formatNumber(location.totalStock)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                    {location.incomingTransfer === 0 && location.outgoingTransfer === 0 ? (
+                      <span className="text-gray-400">—</span>
+                    ) : (
+                      <Link
+                        href={`/admin/inventory/transfers?locationId=${location.id}`}
+                        className="hover:underline"
+                      >
+                        {location.incomingTransfer > 0 && (
+                          <div className="text-green-700">+{formatNumber(location.incomingTransfer)} in</div>
+                        )}
+                        {location.outgoingTransfer > 0 && (
+                          <div className="text-orange-700">-{formatNumber(location.outgoingTransfer)} out</div>
+                        )}
+                      </Link>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                     {formatCurrency(location.totalValue)}
                   </td>
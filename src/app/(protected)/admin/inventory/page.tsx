@@ -8,11 +8,14 @@ import {
   getLowStockItems,
   getOutOfStockItems,
   getInventoryByCategory,
+  getRecentMovements,
   type InventorySummary,
   type LocationSummary,
   type LowStockItem,
   type InventoryByCategory,
+  type RecentMovement,
 } from './actions'
+import { MOVEMENT_TYPE_LABELS } from '@/lib/inventory-utils'
 
 function formatCurrency(value: number): string {
   return new Intl.NumberFormat('en-US', {
@@ -37,6 +40,7 @@ export default function InventoryDashboardPage() {
   const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([])
   const [outOfStockItems, setOutOfStockItems] = useState<LowStockItem[]>([])
   const [categoryData, setCategoryData] = useState<InventoryByCategory[]>([])
+  const [recentMovements, setRecentMovements] = useState<RecentMovement[]>([])
 
   useEffect(() => {
     loadDashboardData()
@@ -45,18 +49,20 @@ export default function InventoryDashboardPage() {
   const loadDashboardData = async () => {
     setIsLoading(true)
     try {
-      const [summaryData, locationData, lowStock, outOfStock, categories] = await Promise.all([
+      const [summaryData, locationData, lowStock, outOfStock, categories, movements] = await Promise.all([
         getInventorySummary(),
         getLocationSummaries(),
         getLowStockItems(10),
         getOutOfStockItems(10),
         getInventoryByCategory(),
+        getRecentMovements(10),
       ])
       setSummary(summaryData)
       setLocations(locationData)
       setLowStockItems(lowStock)
       setOutOfStockItems(outOfStock)
       setCategoryData(categories)
+      setRecentMovements(movements)
     } catch (error) {
       console.error('Failed to load dashboard data:', error)
     } finally {
@@ -234,6 +240,7 @@ export default function InventoryDashboardPage() {
               locations={locations}
               lowStockItems={lowStockItems}
               outOfStockItems={outOfStockItems}
+              recentMovements={recentMovements}
             />
           )}
           {activeTab === 'locations' && (
@@ -258,10 +265,12 @@ function OverviewTab({
   locations,
   lowStockItems,
   outOfStockItems,
+  recentMovements,
 }: {
   locations: LocationSummary[]
   lowStockItems: LowStockItem[]
   outOfStockItems: LowStockItem[]
+  recentMovements: RecentMovement[]
 }) {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -339,6 +348,44 @@ function OverviewTab({
           )}
         </div>
       </div>
+
+      {/* Recent Movements */}
+      <div className="card lg:col-span-2">
+        <div className="px-6 py-4 border-b border-light-gray flex items-center justify-between">
+          <h3 className="text-lg font-medium text-charcoal">Recent Movements</h3>
+          <Link href="/admin/inventory/history" className="text-sm text-olive hover:underline">
+            Stock history
+          </Link>
+        </div>
+        <div className="card-body">
+          {recentMovements.length === 0 ? (
+            <p className="text-medium-gray text-center py-4">No inventory movements recorded</p>
+          ) : (
+            <div className="space-y-3">
+              {recentMovements.map((movement) => (
+                <div key={movement.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-charcoal">{movement.productName}</p>
+                    <p className="text-sm text-medium-gray">
+                      {movement.productSku} at {movement.locationName} • {MOVEMENT_TYPE_LABELS[movement.movementType]}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium ${
+                      movement.change > 0 ? 'text-green-600' : movement.change < 0 ? 'text-red-600' : 'text-charcoal'
+                    }`}>
+                      {movement.change > 0 ? '+' : ''}{formatNumber(movement.change)}
+                    </p>
+                    <p className="text-sm text-medium-gray">
+                      {new Date(movement.timestamp).toLocaleString('en-US')}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,17 @@
+import { TRANSFER_STATUS_LABELS, type TransferStatus } from '@/lib/inventory-utils'
+
+const statusColors: Record<TransferStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export function TransferStatusBadge({ status }: { status: TransferStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusColors[status]}`}>
+      {TRANSFER_STATUS_LABELS[status]}
+    </span>
+  )
+}
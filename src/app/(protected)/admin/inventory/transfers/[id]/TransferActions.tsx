@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  shipTransfer,
+  receiveTransfer,
+  cancelTransfer,
+  type TransferDetail,
+  type ReceiveTransferLine,
+} from '../actions'
+import { getTransferDiscrepancyReasons, type TransferDiscrepancyReason } from '@/lib/inventory-utils'
+
+type Props = {
+  transfer: TransferDetail
+}
+
+type ReceiptDraft = {
+  quantityReceived: number
+  discrepancyReason: TransferDiscrepancyReason | ''
+  discrepancyNotes: string
+}
+
+export function TransferActions({ transfer }: Props) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [receipt, setReceipt] = useState<Record<string, ReceiptDraft>>(() =>
+    Object.fromEntries(
+      transfer.items.map((item) => [
+        item.id,
+        { quantityReceived: item.outstanding, discrepancyReason: '', discrepancyNotes: '' },
+      ])
+    )
+  )
+
+  const reasons = getTransferDiscrepancyReasons()
+  const canReceive = transfer.status === 'in_transit' || transfer.status === 'partially_received'
+
+  const updateReceipt = (itemId: string, update: Partial<ReceiptDraft>) => {
+    setReceipt({ ...receipt, [itemId]: { ...receipt[itemId], ...update } })
+  }
+
+  const run = (action: () => Promise<{ success: boolean; message: string }>) => {
+    startTransition(async () => {
+      const result = await action()
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+      if (result.success) router.refresh()
+    })
+  }
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault()
+    const lines: ReceiveTransferLine[] = transfer.items
+      .filter((item) => item.outstanding > 0)
+      .map((item) => {
+        const draft = receipt[item.id]
+        return {
+          itemId: item.id,
+          quantityReceived: draft.quantityReceived,
+          ...(draft.discrepancyReason && {
+            discrepancyReason: draft.discrepancyReason,
+            discrepancyNotes: draft.discrepancyNotes || undefined,
+          }),
+        }
+      })
+    run(() => receiveTransfer(transfer.id, lines))
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handleReceive} className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Shipped</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+              {canReceive && (
+                <>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Receive Now</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discrepancy</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {transfer.items.map((item) => (
+              <tr key={item.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                  <div className="text-sm text-gray-500">{item.productSku}</div>
+                  {item.discrepancyReason && (
+                    <div className="text-xs text-orange-700">
+                      {reasons.find((r) => r.value === item.discrepancyReason)?.label ?? item.discrepancyReason}
+                      {item.discrepancyNotes && `: ${item.discrepancyNotes}`}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{item.quantity}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{item.quantityReceived}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">{item.outstanding}</td>
+                {canReceive && (
+                  <>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {item.outstanding > 0 && (
+                        <input
+                          type="number"
+                          min={0}
+                          max={item.outstanding}
+                          value={receipt[item.id].quantityReceived}
+                          onChange={(e) =>
+                            updateReceipt(item.id, { quantityReceived: parseInt(e.target.value, 10) || 0 })
+                          }
+                          className="w-20 rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+                        />
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {item.outstanding > 0 && (
+                        <div className="flex gap-2">
+                          <select
+                            value={receipt[item.id].discrepancyReason}
+                            onChange={(e) =>
+                              updateReceipt(item.id, {
+                                discrepancyReason: e.target.value as TransferDiscrepancyReason | '',
+                              })
+                            }
+                            className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                          >
+                            <option value="">None</option>
+                            {reasons.map((r) => (
+                              <option key={r.value} value={r.value}>
+                                {r.label}
+                              </option>
+                            ))}
+                          </select>
+                          {receipt[item.id].discrepancyReason && (
+                            <input
+                              type="text"
+                              placeholder="Notes"
+                              value={receipt[item.id].discrepancyNotes}
+                              onChange={(e) => updateReceipt(item.id, { discrepancyNotes: e.target.value })}
+                              className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="bg-gray-50 px-6 py-3 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            {canReceive
+              ? 'Leave the remainder outstanding for a later receipt, or record a discrepancy to close the line.'
+              : transfer.status === 'draft'
+                ? 'Shipping removes the quantities from the source location.'
+                : null}
+          </p>
+          <div className="flex gap-2">
+            {transfer.status === 'draft' && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm('Cancel this transfer?')) run(() => cancelTransfer(transfer.id))
+                  }}
+                  disabled={isPending}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Cancel Transfer
+                </button>
+                <button
+                  type="button"
+                  onClick={() => run(() => shipTransfer(transfer.id))}
+                  disabled={isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isPending ? 'Shipping...' : 'Ship Transfer'}
+                </button>
+              </>
+            )}
+            {canReceive && (
+              <button
+                type="submit"
+                disabled={isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {isPending ? 'Receiving...' : 'Record Receipt'}
+              </button>
+            )}
+          </div>
+        </div>
+      </form>
+    </div>
+  )
+}
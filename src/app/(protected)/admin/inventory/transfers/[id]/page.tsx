@@ -0,0 +1,73 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { getTransfer } from '../actions'
+import { TransferStatusBadge } from '../TransferStatusBadge'
+import { TransferActions } from './TransferActions'
+
+export const metadata = {
+  title: 'Transfer Details - THOR Dealer Portal Admin',
+  description: 'Ship and receive an inventory transfer',
+}
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+function formatDate(date: Date | null): string {
+  if (!date) return '—'
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date))
+}
+
+export default async function TransferDetailPage({ params }: Props) {
+  const { id } = await params
+  const transfer = await getTransfer(id)
+
+  if (!transfer) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/admin/inventory/transfers"
+          className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+          </svg>
+          Back to transfers
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900 font-mono">{transfer.transferNumber}</h1>
+          <TransferStatusBadge status={transfer.status} />
+        </div>
+        <p className="mt-1 text-sm text-gray-600">
+          {transfer.sourceLocation.name} ({transfer.sourceLocation.code}) →{' '}
+          {transfer.destinationLocation.name} ({transfer.destinationLocation.code})
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">Created</p>
+          <p className="font-medium text-gray-900">{formatDate(transfer.createdAt)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">Shipped</p>
+          <p className="font-medium text-gray-900">{formatDate(transfer.shippedAt)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">Received</p>
+          <p className="font-medium text-gray-900">{formatDate(transfer.receivedAt)}</p>
+        </div>
+      </div>
+
+      {transfer.notes && (
+        <div className="bg-white rounded-lg shadow p-4 text-sm text-gray-700">{transfer.notes}</div>
+      )}
+
+      <TransferActions transfer={transfer} />
+    </div>
+  )
+}
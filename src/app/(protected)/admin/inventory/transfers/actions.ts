@@ -0,0 +1,511 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { nanoid } from 'nanoid'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { applyInventoryChange } from '@/lib/inventory-ledger'
+import {
+  transferDiscrepancyReasons,
+  getOutstandingTransferQuantity,
+  getTransferReceiptStatus,
+  type TransferStatus,
+} from '@/lib/inventory-utils'
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const createTransferSchema = z
+  .object({
+    sourceLocationId: z.string().min(1, 'Source location is required'),
+    destinationLocationId: z.string().min(1, 'Destination location is required'),
+    items: z
+      .array(
+        z.object({
+          productId: z.string().min(1),
+          quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+        })
+      )
+      .min(1, 'Add at least one product'),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((data) => data.sourceLocationId !== data.destinationLocationId, {
+    message: 'Source and destination must be different locations',
+    path: ['destinationLocationId'],
+  })
+
+const receiveLineSchema = z.object({
+  itemId: z.string().min(1),
+  quantityReceived: z.number().int().min(0),
+  discrepancyReason: z.enum(transferDiscrepancyReasons).optional(),
+  discrepancyNotes: z.string().max(500).optional(),
+})
+
+type CreateTransferInput = z.infer<typeof createTransferSchema>
+export type ReceiveTransferLine = z.infer<typeof receiveLineSchema>
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TransferListItem = {
+  id: string
+  transferNumber: string
+  status: TransferStatus
+  sourceLocation: { id: string; name: string; code: string }
+  destinationLocation: { id: string; name: string; code: string }
+  itemCount: number
+  totalQuantity: number
+  totalReceived: number
+  shippedAt: Date | null
+  receivedAt: Date | null
+  createdAt: Date
+}
+
+export type TransferDetail = TransferListItem & {
+  notes: string | null
+  items: Array<{
+    id: string
+    productId: string
+    productSku: string
+    productName: string
+    quantity: number
+    quantityReceived: number
+    outstanding: number
+    discrepancyReason: string | null
+    discrepancyNotes: string | null
+  }>
+}
+
+export type InTransitQuantity = {
+  productId: string
+  locationId: string
+  quantity: number
+}
+
+type TransferState = {
+  success: boolean
+  message: string
+  transferId?: string
+  errors?: Record<string, string[]>
+}
+
+function generateTransferNumber(): string {
+  const year = new Date().getFullYear()
+  return `TRF-${year}-${nanoid(8).toUpperCase()}`
+}
+
+const transferInclude = {
+  sourceLocation: { select: { id: true, name: true, code: true } },
+  destinationLocation: { select: { id: true, name: true, code: true } },
+  items: {
+    include: { product: { select: { sku: true, name: true } } },
+  },
+} as const
+
+function revalidateTransferPaths(id?: string) {
+  revalidatePath('/admin/inventory')
+  revalidatePath('/admin/inventory/transfers')
+  revalidatePath('/admin/inventory/locations')
+  revalidatePath('/admin/inventory/alerts')
+  if (id) revalidatePath(`/admin/inventory/transfers/${id}`)
+}
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+export async function createTransfer(input: CreateTransferInput): Promise<TransferState> {
+  try {
+    const validated = createTransferSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const { sourceLocationId, destinationLocationId, items, notes } = validated.data
+    const session = await auth()
+
+    // Merge duplicate product lines
+    const quantities = new Map<string, number>()
+    for (const item of items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity)
+    }
+
+    const transfer = await prisma.inventoryTransfer.create({
+      data: {
+        transferNumber: generateTransferNumber(),
+        sourceLocationId,
+        destinationLocationId,
+        notes: notes || null,
+        createdBy: session?.user?.id ?? null,
+        items: {
+          create: Array.from(quantities.entries()).map(([productId, quantity]) => ({
+            productId,
+            quantity,
+          })),
+        },
+      },
+    })
+
+    revalidateTransferPaths()
+
+    return {
+      success: true,
+      message: `Transfer ${transfer.transferNumber} created`,
+      transferId: transfer.id,
+    }
+  } catch (error) {
+    console.error('Failed to create transfer:', error)
+    return {
+      success: false,
+      message: 'Failed to create transfer',
+    }
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+type TransferQueryResult = {
+  id: string
+  transferNumber: string
+  status: string
+  notes: string | null
+  sourceLocation: { id: string; name: string; code: string }
+  destinationLocation: { id: string; name: string; code: string }
+  shippedAt: Date | null
+  receivedAt: Date | null
+  createdAt: Date
+  items: Array<{
+    id: string
+    productId: string
+    quantity: number
+    quantityReceived: number
+    discrepancyReason: string | null
+    discrepancyNotes: string | null
+    product: { sku: string; name: string }
+  }>
+}
+
+function toListItem(transfer: TransferQueryResult): TransferListItem {
+  return {
+    id: transfer.id,
+    transferNumber: transfer.transferNumber,
+    status: transfer.status as TransferStatus,
+    sourceLocation: transfer.sourceLocation,
+    destinationLocation: transfer.destinationLocation,
+    itemCount: transfer.items.length,
+    totalQuantity: transfer.items.reduce((sum, item) => sum + item.quantity, 0),
+    totalReceived: transfer.items.reduce((sum, item) => sum + item.quantityReceived, 0),
+    shippedAt: transfer.shippedAt,
+    receivedAt: transfer.receivedAt,
+    createdAt: transfer.createdAt,
+  }
+}
+
+export async function getTransfers(
+  filters: { status?: TransferStatus; locationId?: string } = {}
+): Promise<TransferListItem[]> {
+  const transfers = await prisma.inventoryTransfer.findMany({
+    where: {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.locationId && {
+        OR: [
+          { sourceLocationId: filters.locationId },
+          { destinationLocationId: filters.locationId },
+        ],
+      }),
+    },
+    include: transferInclude,
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return transfers.map(toListItem)
+}
+
+export async function getTransfer(id: string): Promise<TransferDetail | null> {
+  const transfer = await prisma.inventoryTransfer.findUnique({
+    where: { id },
+    include: transferInclude,
+  })
+
+  if (!transfer) return null
+
+  return {
+    ...toListItem(transfer),
+    notes: transfer.notes,
+    items: transfer.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productSku: item.product.sku,
+      productName: item.product.name,
+      quantity: item.quantity,
+      quantityReceived: item.quantityReceived,
+      outstanding: getOutstandingTransferQuantity(item),
+      discrepancyReason: item.discrepancyReason,
+      discrepancyNotes: item.discrepancyNotes,
+    })),
+  }
+}
+
+// Quantities shipped but not yet received, keyed by destination or source location
+export async function getInTransitQuantities(
+  direction: 'incoming' | 'outgoing' = 'incoming'
+): Promise<InTransitQuantity[]> {
+  const transfers = await prisma.inventoryTransfer.findMany({
+    where: { status: { in: ['in_transit', 'partially_received'] } },
+    include: { items: true },
+  })
+
+  const totals = new Map<string, InTransitQuantity>()
+  for (const transfer of transfers) {
+    const locationId = direction === 'incoming' ? transfer.destinationLocationId : transfer.sourceLocationId
+    for (const item of transfer.items) {
+      const outstanding = getOutstandingTransferQuantity(item)
+      if (outstanding === 0) continue
+
+      const key = `${item.productId}:${locationId}`
+      const entry = totals.get(key) ?? { productId: item.productId, locationId, quantity: 0 }
+      entry.quantity += outstanding
+      totals.set(key, entry)
+    }
+  }
+
+  return Array.from(totals.values())
+}
+
+export type TransferableProduct = {
+  productId: string
+  sku: string
+  name: string
+  available: number
+}
+
+// Products with unreserved stock at a location, for building a transfer
+export async function getTransferableProducts(locationId: string): Promise<TransferableProduct[]> {
+  const inventory = await prisma.inventory.findMany({
+    where: { locationId, quantity: { gt: 0 } },
+    include: { product: { select: { sku: true, name: true } } },
+    orderBy: { product: { sku: 'asc' } },
+  })
+
+  return inventory.map((inv) => ({
+    productId: inv.productId,
+    sku: inv.product.sku,
+    name: inv.product.name,
+    available: inv.quantity,
+  }))
+}
+
+// ============================================================================
+// SHIP
+// ============================================================================
+
+export async function shipTransfer(id: string): Promise<TransferState> {
+  try {
+    const transfer = await prisma.inventoryTransfer.findUnique({
+      where: { id },
+      include: { items: true },
+    })
+
+    if (!transfer) {
+      return { success: false, message: 'Transfer not found' }
+    }
+
+    if (transfer.status !== 'draft') {
+      return { success: false, message: 'Only draft transfers can be shipped' }
+    }
+
+    const session = await auth()
+    const userId = session?.user?.id ?? null
+
+    await prisma.$transaction(async (tx) => {
+      for (const item of transfer.items) {
+        const inventory = await tx.inventory.findUnique({
+          where: {
+            productId_locationId: { productId: item.productId, locationId: transfer.sourceLocationId },
+          },
+        })
+
+        // Reserved stock has already left quantity, so this is what can be transferred
+        const available = inventory?.quantity ?? 0
+        if (available < item.quantity) {
+          throw new Error(`Insufficient available stock for product ${item.productId}`)
+        }
+
+        await applyInventoryChange(tx, {
+          productId: item.productId,
+          locationId: transfer.sourceLocationId,
+          type: 'transfer_out',
+          quantityChange: -item.quantity,
+          notes: `Shipped on transfer ${transfer.transferNumber}`,
+          referenceType: 'transfer',
+          referenceId: transfer.id,
+          userId,
+        })
+      }
+
+      await tx.inventoryTransfer.update({
+        where: { id },
+        data: { status: 'in_transit', shippedAt: new Date(), shippedBy: userId },
+      })
+    })
+
+    revalidateTransferPaths(id)
+
+    return { success: true, message: `Transfer ${transfer.transferNumber} shipped` }
+  } catch (error) {
+    console.error('Failed to ship transfer:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to ship transfer',
+    }
+  }
+}
+
+// ============================================================================
+// RECEIVE
+// ============================================================================
+
+export async function receiveTransfer(id: string, lines: ReceiveTransferLine[]): Promise<TransferState> {
+  try {
+    const validated = z.array(receiveLineSchema).safeParse(lines)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.issues[0]?.message ?? 'Validation failed',
+      }
+    }
+
+    const transfer = await prisma.inventoryTransfer.findUnique({
+      where: { id },
+      include: { items: true },
+    })
+
+    if (!transfer) {
+      return { success: false, message: 'Transfer not found' }
+    }
+
+    if (transfer.status !== 'in_transit' && transfer.status !== 'partially_received') {
+      return { success: false, message: 'Only in-transit transfers can be received' }
+    }
+
+    const itemsById = new Map(transfer.items.map((item) => [item.id, item]))
+    for (const line of validated.data) {
+      const item = itemsById.get(line.itemId)
+      if (!item) {
+        return { success: false, message: 'Receipt line does not belong to this transfer' }
+      }
+      if (line.quantityReceived > getOutstandingTransferQuantity(item)) {
+        return { success: false, message: 'Cannot receive more than the outstanding quantity' }
+      }
+    }
+
+    const session = await auth()
+    const userId = session?.user?.id ?? null
+
+    const status = await prisma.$transaction(async (tx) => {
+      const updatedItems = []
+
+      for (const item of transfer.items) {
+        const line = validated.data.find((l) => l.itemId === item.id)
+        if (!line) {
+          updatedItems.push(item)
+          continue
+        }
+
+        if (line.quantityReceived > 0) {
+          await applyInventoryChange(tx, {
+            productId: item.productId,
+            locationId: transfer.destinationLocationId,
+            type: 'transfer_in',
+            quantityChange: line.quantityReceived,
+            notes: `Received on transfer ${transfer.transferNumber}`,
+            referenceType: 'transfer',
+            referenceId: transfer.id,
+            userId,
+          })
+        }
+
+        const updated = await tx.inventoryTransferItem.update({
+          where: { id: item.id },
+          data: {
+            quantityReceived: item.quantityReceived + line.quantityReceived,
+            // A discrepancy reason writes off whatever is still outstanding
+            ...(line.discrepancyReason && {
+              discrepancyReason: line.discrepancyReason,
+              discrepancyNotes: line.discrepancyNotes || null,
+            }),
+          },
+        })
+        updatedItems.push(updated)
+      }
+
+      const nextStatus = getTransferReceiptStatus(updatedItems)
+      await tx.inventoryTransfer.update({
+        where: { id },
+        data: {
+          status: nextStatus,
+          receivedBy: userId,
+          ...(nextStatus === 'received' && { receivedAt: new Date() }),
+        },
+      })
+
+      return nextStatus
+    })
+
+    revalidateTransferPaths(id)
+
+    return {
+      success: true,
+      message: status === 'received' ? 'Transfer fully received' : 'Partial receipt recorded',
+    }
+  } catch (error) {
+    console.error('Failed to receive transfer:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to receive transfer',
+    }
+  }
+}
+
+// ============================================================================
+// CANCEL
+// ============================================================================
+
+export async function cancelTransfer(id: string): Promise<TransferState> {
+  try {
+    const transfer = await prisma.inventoryTransfer.findUnique({ where: { id } })
+
+    if (!transfer) {
+      return { success: false, message: 'Transfer not found' }
+    }
+
+    // Once shipped, stock is in transit and must be received (or written off) instead
+    if (transfer.status !== 'draft') {
+      return { success: false, message: 'Only draft transfers can be cancelled' }
+    }
+
+    await prisma.inventoryTransfer.update({
+      where: { id },
+      data: { status: 'cancelled' },
+    })
+
+    revalidateTransferPaths(id)
+
+    return { success: true, message: `Transfer ${transfer.transferNumber} cancelled` }
+  } catch (error) {
+    console.error('Failed to cancel transfer:', error)
+    return {
+      success: false,
+      message: 'Failed to cancel transfer',
+    }
+  }
+}
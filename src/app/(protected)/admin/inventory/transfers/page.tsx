@@ -0,0 +1,406 @@
+'use client'
+
+import { Suspense, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import {
+  getTransfers,
+  createTransfer,
+  getTransferableProducts,
+  type TransferListItem,
+  type TransferableProduct,
+} from './actions'
+import { getInventoryLocations, type InventoryLocationListItem } from '../actions'
+import { TRANSFER_STATUS_LABELS, transferStatuses, type TransferStatus } from '@/lib/inventory-utils'
+import { TransferStatusBadge } from './TransferStatusBadge'
+
+function formatDate(date: Date | null): string {
+  if (!date) return '—'
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' }).format(new Date(date))
+}
+
+type DraftLine = { productId: string; quantity: number }
+
+export default function TransfersPage() {
+  return (
+    <Suspense fallback={<div className="animate-pulse bg-gray-200 h-96 rounded-lg" />}>
+      <TransfersContent />
+    </Suspense>
+  )
+}
+
+function TransfersContent() {
+  const searchParams = useSearchParams()
+  const [transfers, setTransfers] = useState<TransferListItem[]>([])
+  const [locations, setLocations] = useState<InventoryLocationListItem[]>([])
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | ''>('')
+  const [locationFilter, setLocationFilter] = useState(searchParams.get('locationId') ?? '')
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Create form state
+  const [showForm, setShowForm] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [sourceLocationId, setSourceLocationId] = useState('')
+  const [destinationLocationId, setDestinationLocationId] = useState('')
+  const [products, setProducts] = useState<TransferableProduct[]>([])
+  const [lines, setLines] = useState<DraftLine[]>([{ productId: '', quantity: 1 }])
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    getInventoryLocations().then(setLocations).catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    const loadTransfers = async () => {
+      setIsLoading(true)
+      try {
+        setTransfers(
+          await getTransfers({
+            status: statusFilter || undefined,
+            locationId: locationFilter || undefined,
+          })
+        )
+      } catch (error) {
+        console.error('Failed to load transfers:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadTransfers()
+  }, [statusFilter, locationFilter])
+
+  useEffect(() => {
+    if (!sourceLocationId) {
+      setProducts([])
+      return
+    }
+    getTransferableProducts(sourceLocationId).then(setProducts).catch(console.error)
+    setLines([{ productId: '', quantity: 1 }])
+  }, [sourceLocationId])
+
+  const resetForm = () => {
+    setSourceLocationId('')
+    setDestinationLocationId('')
+    setLines([{ productId: '', quantity: 1 }])
+    setNotes('')
+  }
+
+  const updateLine = (index: number, update: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...update } : line)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setMessage(null)
+
+    try {
+      const result = await createTransfer({
+        sourceLocationId,
+        destinationLocationId,
+        items: lines.filter((line) => line.productId),
+        notes: notes || undefined,
+      })
+
+      if (result.success) {
+        setMessage({ type: 'success', text: result.message })
+        setShowForm(false)
+        resetForm()
+        setTransfers(
+          await getTransfers({
+            status: statusFilter || undefined,
+            locationId: locationFilter || undefined,
+          })
+        )
+      } else {
+        const firstError = result.errors ? Object.values(result.errors)[0]?.[0] : undefined
+        setMessage({ type: 'error', text: firstError ?? result.message })
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'An unexpected error occurred' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <nav className="flex mb-2" aria-label="Breadcrumb">
+            <ol className="flex items-center space-x-2 text-sm text-gray-500">
+              <li>
+                <Link href="/admin/inventory" className="hover:text-gray-700">
+                  Inventory
+                </Link>
+              </li>
+              <li>
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path
+                    fillRule="evenodd"
+                    d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              </li>
+              <li className="font-medium text-gray-900">Transfers</li>
+            </ol>
+          </nav>
+          <h1 className="text-2xl font-bold text-gray-900">Stock Transfers</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Move stock between warehouses, stores and distribution centers
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Transfer
+        </button>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap gap-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as TransferStatus | '')}
+          className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+        >
+          <option value="">All statuses</option>
+          {transferStatuses.map((status) => (
+            <option key={status} value={status}>
+              {TRANSFER_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={locationFilter}
+          onChange={(e) => setLocationFilter(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+        >
+          <option value="">All locations</option>
+          {locations.map((loc) => (
+            <option key={loc.id} value={loc.id}>
+              {loc.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Transfer List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-6">
+            <div className="animate-pulse space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded" />
+              ))}
+            </div>
+          </div>
+        ) : transfers.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No transfers found</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transfer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shipped</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {transfers.map((transfer) => (
+                <tr key={transfer.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link
+                      href={`/admin/inventory/transfers/${transfer.id}`}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800 font-mono"
+                    >
+                      {transfer.transferNumber}
+                    </Link>
+                    <div className="text-xs text-gray-500">{formatDate(transfer.createdAt)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.sourceLocation.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.destinationLocation.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {transfer.status === 'partially_received'
+                      ? `${transfer.totalReceived} / ${transfer.totalQuantity}`
+                      : transfer.totalQuantity}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <TransferStatusBadge status={transfer.status} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(transfer.shippedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:p-0">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setShowForm(false)} />
+
+            <div className="relative bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:max-w-2xl sm:w-full">
+              <form onSubmit={handleSubmit}>
+                <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">New Transfer</h3>
+
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="sourceLocationId" className="block text-sm font-medium text-gray-700">
+                          From <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                          id="sourceLocationId"
+                          value={sourceLocationId}
+                          onChange={(e) => setSourceLocationId(e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        >
+                          <option value="">Select location...</option>
+                          {locations.filter((loc) => loc.isActive).map((loc) => (
+                            <option key={loc.id} value={loc.id}>
+                              {loc.name} ({loc.code})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="destinationLocationId" className="block text-sm font-medium text-gray-700">
+                          To <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                          id="destinationLocationId"
+                          value={destinationLocationId}
+                          onChange={(e) => setDestinationLocationId(e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        >
+                          <option value="">Select location...</option>
+                          {locations
+                            .filter((loc) => loc.isActive && loc.id !== sourceLocationId)
+                            .map((loc) => (
+                              <option key={loc.id} value={loc.id}>
+                                {loc.name} ({loc.code})
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {/* Lines */}
+                    <div className="space-y-2">
+                      <label className="block text-sm font-medium text-gray-700">Products</label>
+                      {lines.map((line, index) => {
+                        const product = products.find((p) => p.productId === line.productId)
+                        return (
+                          <div key={index} className="flex gap-2 items-center">
+                            <select
+                              value={line.productId}
+                              onChange={(e) => updateLine(index, { productId: e.target.value })}
+                              disabled={!sourceLocationId}
+                              className="flex-1 rounded-md border-gray-300 shadow-sm sm:text-sm"
+                            >
+                              <option value="">Select product...</option>
+                              {products.map((p) => (
+                                <option key={p.productId} value={p.productId}>
+                                  {p.sku} - {p.name} ({p.available} available)
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min={1}
+                              max={product?.available}
+                              value={line.quantity}
+                              onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value, 10) || 1 })}
+                              className="w-24 rounded-md border-gray-300 shadow-sm sm:text-sm"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                              disabled={lines.length === 1}
+                              className="text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        )
+                      })}
+                      <button
+                        type="button"
+                        onClick={() => setLines([...lines, { productId: '', quantity: 1 }])}
+                        disabled={!sourceLocationId}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        + Add product
+                      </button>
+                    </div>
+
+                    <div>
+                      <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                        Notes
+                      </label>
+                      <textarea
+                        id="notes"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={2}
+                        placeholder="Optional notes..."
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-2">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 sm:w-auto sm:text-sm disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Creating...' : 'Create Draft'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowForm(false)
+                      resetForm()
+                    }}
+                    className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { isAdmin } from '@/lib/roles'
+import { isJobLocked } from '@/lib/jobs'
+import { getJobRuns, getScheduledJobs, runJob, setJobEnabled } from '@/lib/services/job-runner'
+
+export type ScheduledJobItem = {
+  id: string
+  key: string
+  name: string
+  description: string | null
+  cronExpression: string
+  isEnabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastStatus: string | null
+  lastDurationMs: number | null
+  lastError: string | null
+  attempts: number
+  maxAttempts: number
+  isLocked: boolean
+}
+
+export type JobRunItem = {
+  id: string
+  trigger: string
+  attempt: number
+  status: string
+  summary: string | null
+  error: string | null
+  startedAt: string
+  durationMs: number | null
+}
+
+async function getAdminUser() {
+  const session = await auth()
+  if (!session?.user || !isAdmin(session.user.role)) return null
+  return session.user
+}
+
+export async function getScheduledJobsAction(): Promise<ScheduledJobItem[]> {
+  if (!(await getAdminUser())) return []
+
+  const now = new Date()
+  const jobs = await getScheduledJobs()
+  return jobs.map((job) => ({
+    id: job.id,
+    key: job.key,
+    name: job.name,
+    description: job.description,
+    cronExpression: job.cronExpression,
+    isEnabled: job.isEnabled,
+    nextRunAt: job.nextRunAt?.toISOString() ?? null,
+    lastRunAt: job.lastRunAt?.toISOString() ?? null,
+    lastStatus: job.lastStatus,
+    lastDurationMs: job.lastDurationMs,
+    lastError: job.lastError,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    isLocked: isJobLocked(job.lockedUntil, now),
+  }))
+}
+
+export async function getJobRunsAction(jobId: string): Promise<JobRunItem[]> {
+  if (!(await getAdminUser())) return []
+
+  const runs = await getJobRuns(jobId)
+  return runs.map((run) => ({
+    id: run.id,
+    trigger: run.trigger,
+    attempt: run.attempt,
+    status: run.status,
+    summary: run.summary,
+    error: run.error,
+    startedAt: run.startedAt.toISOString(),
+    durationMs: run.durationMs,
+  }))
+}
+
+export async function runJobNowAction(
+  key: string
+): Promise<{ success: boolean; error?: string; summary?: string }> {
+  const user = await getAdminUser()
+  if (!user) return { success: false, error: 'Unauthorized' }
+
+  const result = await runJob(key, { trigger: 'manual', triggeredById: user.id })
+  revalidatePath('/admin/jobs')
+  return result
+}
+
+export async function setJobEnabledAction(
+  key: string,
+  isEnabled: boolean
+): Promise<{ success: boolean; error?: string }> {
+  if (!(await getAdminUser())) return { success: false, error: 'Unauthorized' }
+
+  try {
+    await setJobEnabled(key, isEnabled)
+    revalidatePath('/admin/jobs')
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update job' }
+  }
+}
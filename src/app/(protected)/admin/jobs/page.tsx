@@ -0,0 +1,225 @@
+'use client'
+
+import { Fragment, useState, useEffect, useTransition } from 'react'
+import Link from 'next/link'
+import {
+  getScheduledJobsAction,
+  getJobRunsAction,
+  runJobNowAction,
+  setJobEnabledAction,
+  type ScheduledJobItem,
+  type JobRunItem,
+} from './actions'
+import { formatJobDuration } from '@/lib/jobs'
+import {
+  jobStatusColors,
+  jobStatusLabels,
+  jobTriggerLabels,
+  type JobStatusKey,
+  type JobTriggerKey,
+} from '@/lib/job-constants'
+
+function formatDateTime(dateString: string | null) {
+  if (!dateString) return '—'
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (!status) return <span className="text-sm text-medium-gray">Never run</span>
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${jobStatusColors[status as JobStatusKey] ?? ''}`}>
+      {jobStatusLabels[status as JobStatusKey] ?? status}
+    </span>
+  )
+}
+
+export default function ScheduledJobsPage() {
+  const [jobs, setJobs] = useState<ScheduledJobItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [runs, setRuns] = useState<JobRunItem[]>([])
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    loadJobs()
+  }, [])
+
+  useEffect(() => {
+    if (expandedId) {
+      getJobRunsAction(expandedId).then(setRuns)
+    } else {
+      setRuns([])
+    }
+  }, [expandedId])
+
+  async function loadJobs() {
+    setJobs(await getScheduledJobsAction())
+    setLoading(false)
+  }
+
+  function handleRunNow(job: ScheduledJobItem) {
+    if (!confirm(`Run "${job.name}" now?`)) return
+    startTransition(async () => {
+      const result = await runJobNowAction(job.key)
+      if (result.success) {
+        setMessage({ type: 'success', text: `${job.name}: ${result.summary ?? 'done'}` })
+      } else {
+        setMessage({ type: 'error', text: `${job.name}: ${result.error || 'Run failed'}` })
+      }
+      await loadJobs()
+      if (expandedId === job.id) {
+        setRuns(await getJobRunsAction(job.id))
+      } else {
+        setExpandedId(job.id)
+      }
+    })
+  }
+
+  function handleToggle(job: ScheduledJobItem) {
+    startTransition(async () => {
+      const result = await setJobEnabledAction(job.key, !job.isEnabled)
+      if (result.success) {
+        setMessage({ type: 'success', text: `${job.name} ${job.isEnabled ? 'paused' : 'resumed'}` })
+        loadJobs()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to update job' })
+      }
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>Scheduled Jobs</span>
+        </nav>
+        <h1 className="page-title">Scheduled Jobs</h1>
+        <p className="page-subtitle">Batch jobs that run in the background. Schedules are in UTC.</p>
+      </div>
+
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="card">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-light-beige">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Job</th>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Schedule</th>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Last Run</th>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Next Run</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-light-gray">
+              {jobs.map((job) => (
+                <Fragment key={job.id}>
+                  <tr className={job.isEnabled ? 'hover:bg-light-beige/50' : 'opacity-60'}>
+                    <td className="px-4 py-3">
+                      <button
+                        onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                        className="font-medium text-charcoal hover:text-olive text-left"
+                      >
+                        {job.name}
+                      </button>
+                      <p className="text-xs text-medium-gray">{job.description}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono">{job.cronExpression}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatDateTime(job.lastRunAt)}
+                      <p className="text-xs text-medium-gray">{formatJobDuration(job.lastDurationMs)}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <StatusBadge status={job.isLocked ? 'running' : job.lastStatus} />
+                      {job.lastStatus === 'failed' && job.lastError && (
+                        <p className="text-xs text-error mt-1 max-w-xs truncate" title={job.lastError}>
+                          {job.lastError}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {job.isEnabled ? formatDateTime(job.nextRunAt) : 'Paused'}
+                      {job.attempts > 0 && (
+                        <p className="text-xs text-orange-600">
+                          Retry {job.attempts + 1} of {job.maxAttempts}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleRunNow(job)}
+                        disabled={isPending || job.isLocked}
+                        className="btn-primary btn-sm"
+                      >
+                        Run Now
+                      </button>
+                      <button onClick={() => handleToggle(job)} disabled={isPending} className="btn-ghost btn-sm ml-2">
+                        {job.isEnabled ? 'Pause' : 'Resume'}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === job.id && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-3 bg-light-beige/30">
+                        <h3 className="text-sm font-semibold text-charcoal mb-2">Run History</h3>
+                        {runs.length === 0 ? (
+                          <p className="text-sm text-medium-gray">No runs yet</p>
+                        ) : (
+                          <ul className="divide-y divide-light-gray">
+                            {runs.map((run) => (
+                              <li key={run.id} className="flex items-start justify-between gap-4 py-2 text-sm">
+                                <div>
+                                  <StatusBadge status={run.status} />
+                                  <span className="ml-2 text-medium-gray">
+                                    {jobTriggerLabels[run.trigger as JobTriggerKey] ?? run.trigger}
+                                    {run.attempt > 1 && ` · attempt ${run.attempt}`}
+                                  </span>
+                                  <p className={`mt-1 ${run.error ? 'text-error' : 'text-charcoal'}`}>
+                                    {run.error ?? run.summary}
+                                  </p>
+                                </div>
+                                <div className="text-right text-medium-gray whitespace-nowrap">
+                                  <p>{formatDateTime(run.startedAt)}</p>
+                                  <p className="text-xs">{formatJobDuration(run.durationMs)}</p>
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { createShipment } from '@/lib/services/order'
+import { createInvoiceFromShipment } from '@/lib/services/invoice'
+
+type Props = {
+  orderId: string
+  canShip: boolean
+  canInvoice: boolean
+  items: Array<{
+    id: string
+    productName: string
+    productSku: string
+    quantity: number
+    shippedQuantity: number
+    backorderedQuantity: number
+  }>
+  shipments: Array<{
+    id: string
+    shipmentNumber: string
+    carrier: string | null
+    trackingNumber: string | null
+    notes: string | null
+    shippedAt: string
+    items: Array<{ orderItemId: string; quantity: number }>
+    invoice: { id: string; invoiceNumber: string } | null
+  }>
+  onChange: (message: { type: 'success' | 'error'; text: string }) => void
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function ShipmentsPanel({ orderId, canShip, canInvoice, items, shipments, onChange }: Props) {
+  const [isPending, startTransition] = useTransition()
+  const [showForm, setShowForm] = useState(false)
+  const [carrier, setCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [notes, setNotes] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+
+  const outstandingItems = items.filter((item) => item.quantity > item.shippedQuantity)
+
+  function openForm() {
+    // Default each line to everything that is in stock to ship
+    setQuantities(
+      Object.fromEntries(
+        outstandingItems.map((item) => [
+          item.id,
+          item.quantity - item.shippedQuantity - item.backorderedQuantity,
+        ])
+      )
+    )
+    setShowForm(true)
+  }
+
+  function handleCreateShipment() {
+    startTransition(async () => {
+      const result = await createShipment(orderId, {
+        carrier: carrier.trim() || undefined,
+        trackingNumber: trackingNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+        lines: Object.entries(quantities).map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+      })
+      if (result.success) {
+        setShowForm(false)
+        setCarrier('')
+        setTrackingNumber('')
+        setNotes('')
+        onChange({ type: 'success', text: `Shipment ${result.shipmentNumber} created` })
+      } else {
+        onChange({ type: 'error', text: result.error || 'Failed to create shipment' })
+      }
+    })
+  }
+
+  function handleInvoiceShipment(shipmentId: string) {
+    startTransition(async () => {
+      const result = await createInvoiceFromShipment(shipmentId)
+      if (result.success) {
+        onChange({ type: 'success', text: 'Shipment invoiced' })
+      } else {
+        onChange({ type: 'error', text: result.error || 'Failed to invoice shipment' })
+      }
+    })
+  }
+
+  const itemById = new Map(items.map((item) => [item.id, item]))
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <h2 className="text-lg font-heading font-semibold">Shipments</h2>
+        {canShip && outstandingItems.length > 0 && !showForm && (
+          <button onClick={openForm} className="btn-outline btn-sm">
+            Create Shipment
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="card-body border-b border-light-gray space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="label">Carrier</label>
+              <input
+                type="text"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                placeholder="e.g. UPS"
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="label">Tracking Number</label>
+              <input
+                type="text"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                className="input w-full"
+              />
+            </div>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-medium-gray uppercase">
+                <th className="py-2">Item</th>
+                <th className="py-2 text-right">Remaining</th>
+                <th className="py-2 text-right">Backordered</th>
+                <th className="py-2 text-right">Ship Now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-light-gray">
+              {outstandingItems.map((item) => {
+                const remaining = item.quantity - item.shippedQuantity
+                return (
+                  <tr key={item.id}>
+                    <td className="py-2">
+                      <p className="font-medium">{item.productName}</p>
+                      <p className="text-xs text-medium-gray">{item.productSku}</p>
+                    </td>
+                    <td className="py-2 text-right">{remaining}</td>
+                    <td className="py-2 text-right">
+                      {item.backorderedQuantity > 0 ? (
+                        <span className="text-burnt-orange">{item.backorderedQuantity}</span>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={remaining}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setQuantities({
+                            ...quantities,
+                            [item.id]: Math.min(remaining, Math.max(0, parseInt(e.target.value) || 0)),
+                          })
+                        }
+                        className="input w-20 text-right"
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <div>
+            <label className="label">Notes</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="input w-full"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setShowForm(false)} className="btn-ghost btn-sm">
+              Cancel
+            </button>
+            <button onClick={handleCreateShipment} disabled={isPending} className="btn-primary btn-sm">
+              {isPending ? 'Shipping...' : 'Ship Items'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {shipments.length === 0 ? (
+        <div className="card-body">
+          <p className="text-center text-medium-gray py-4">Nothing has shipped yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-light-gray">
+          {shipments.map((shipment) => (
+            <div key={shipment.id} className="p-4 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium text-charcoal">{shipment.shipmentNumber}</p>
+                  <p className="text-sm text-medium-gray">
+                    {formatDate(shipment.shippedAt)}
+                    {shipment.carrier && ` · ${shipment.carrier}`}
+                    {shipment.trackingNumber && ` · ${shipment.trackingNumber}`}
+                  </p>
+                </div>
+                {shipment.invoice ? (
+                  <Link
+                    href={`/invoices/${shipment.invoice.invoiceNumber}`}
+                    className="text-sm text-olive hover:underline"
+                  >
+                    {shipment.invoice.invoiceNumber}
+                  </Link>
+                ) : (
+                  canInvoice && (
+                    <button
+                      onClick={() => handleInvoiceShipment(shipment.id)}
+                      disabled={isPending}
+                      className="btn-ghost btn-sm"
+                    >
+                      Invoice Shipment
+                    </button>
+                  )
+                )}
+              </div>
+              <ul className="text-sm text-charcoal">
+                {shipment.items.map((line) => {
+                  const item = itemById.get(line.orderItemId)
+                  return (
+                    <li key={line.orderItemId} className="flex justify-between">
+                      <span>
+                        {item?.productName ?? 'Removed item'}
+                        {item && <span className="text-medium-gray"> ({item.productSku})</span>}
+                      </span>
+                      <span>× {line.quantity}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+              {shipment.notes && <p className="text-sm text-medium-gray">{shipment.notes}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
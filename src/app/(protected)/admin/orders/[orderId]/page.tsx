@@ -10,10 +10,12 @@ import {
   addOrderNote,
   deleteOrderNote,
   bulkUpdateOrderStatus,
+  releaseOrderCreditHold,
   ADMIN_ORDER_STATUSES,
   type AdminOrderStatus,
 } from '../actions'
 import { createInvoiceFromOrder } from '@/lib/services/invoice'
+import { ShipmentsPanel } from './ShipmentsPanel'
 
 type OrderDetail = {
   id: string
@@ -29,7 +31,8 @@ type OrderDetail = {
   shippingAddress: Record<string, string> | null
   billingAddress: Record<string, string> | null
   orderNotes: string | null
-  dealer: { id: string; name: string; code: string; tier: string }
+  dealer: { id: string; name: string; code: string; tier: string; billPerShipment: boolean }
+  invoicedInFull: boolean
   items: Array<{
     id: string
     productId: string
@@ -37,10 +40,22 @@ type OrderDetail = {
     productSku: string
     currentPrice: number
     quantity: number
+    shippedQuantity: number
+    backorderedQuantity: number
     unitPrice: number
     totalPrice: number
     image: string | null
   }>
+  shipments: Array<{
+    id: string
+    shipmentNumber: string
+    carrier: string | null
+    trackingNumber: string | null
+    notes: string | null
+    shippedAt: string
+    items: Array<{ orderItemId: string; quantity: number }>
+    invoice: { id: string; invoiceNumber: string } | null
+  }>
   statusHistory: Array<{
     status: string
     statusLabel: string
@@ -65,6 +80,7 @@ const statusColors: Record<string, string> = {
   blue: 'bg-blue-100 text-blue-800',
   olive: 'bg-olive/10 text-olive',
   yellow: 'bg-yellow-100 text-yellow-800',
+  orange: 'bg-orange-100 text-orange-800',
   purple: 'bg-purple-100 text-purple-800',
   green: 'bg-green-100 text-green-800',
   red: 'bg-red-100 text-red-800',
@@ -118,6 +134,22 @@ export default function AdminOrderDetailPage({
     })
   }
 
+  async function handleReleaseCreditHold() {
+    if (!order) return
+    const reason = prompt('Reason for releasing this order from credit hold:')
+    if (!reason?.trim()) return
+
+    startTransition(async () => {
+      const result = await releaseOrderCreditHold(order.id, reason)
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Credit hold released' })
+        loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to release credit hold' })
+      }
+    })
+  }
+
   async function handleCreateInvoice() {
     if (!order) return
 
@@ -254,6 +286,11 @@ export default function AdminOrderDetailPage({
           </p>
         </div>
         <div className="flex gap-3">
+          {order.availableActions.includes('release_hold') && (
+            <button onClick={handleReleaseCreditHold} disabled={isPending} className="btn-primary">
+              Release Credit Hold
+            </button>
+          )}
           {order.availableActions.includes('confirm') && (
             <button
               onClick={() => handleStatusChange('confirmed')}
@@ -278,7 +315,7 @@ export default function AdminOrderDetailPage({
               disabled={isPending}
               className="btn-primary"
             >
-              Mark Shipped
+              {order.status === 'partially_shipped' ? 'Ship Remaining' : 'Mark Shipped'}
             </button>
           )}
           {order.availableActions.includes('deliver') && (
@@ -462,6 +499,14 @@ export default function AdminOrderDetailPage({
                             Current price: {formatCurrency(item.currentPrice)}
                           </p>
                         )}
+                        {(item.shippedQuantity > 0 || item.backorderedQuantity > 0) && (
+                          <p className="text-xs text-medium-gray mt-1">
+                            Shipped {item.shippedQuantity} of {item.quantity}
+                            {item.backorderedQuantity > 0 && (
+                              <span className="text-burnt-orange"> · {item.backorderedQuantity} backordered</span>
+                            )}
+                          </p>
+                        )}
                       </div>
                       {canEdit && order.items.length > 1 && (
                         <button
@@ -483,6 +528,19 @@ export default function AdminOrderDetailPage({
             </div>
           </div>
 
+          {/* Shipments */}
+          <ShipmentsPanel
+            orderId={order.id}
+            canShip={order.availableActions.includes('ship')}
+            canInvoice={!order.invoicedInFull}
+            items={order.items}
+            shipments={order.shipments}
+            onChange={(result) => {
+              setMessage(result)
+              if (result.type === 'success') loadOrder()
+            }}
+          />
+
           {/* Order Notes */}
           <div className="card">
             <div className="card-header">
@@ -2,8 +2,18 @@
 
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
-import { updateOrderStatus, releaseInventory } from '@/lib/services/order'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/roles'
+import { createAuditLog } from '@/lib/audit'
+import { updateOrderStatus, releaseCreditHold } from '@/lib/services/order'
+import { getDealerCreditSummary } from '@/lib/services/credit'
+import {
+  releaseOrderItemAllocations,
+  reserveAvailableStock,
+  syncBackorderedQuantity,
+} from '@/lib/order-allocation'
 import { createInvoiceFromOrder } from '@/lib/services/invoice'
+import { quoteOrderTotals } from '@/lib/services/tax'
 import { ADMIN_ORDER_STATUSES, type AdminOrderStatus } from '@/lib/admin-order-statuses'
 
 // Note: Client components should import ADMIN_ORDER_STATUSES from '@/lib/admin-order-statuses'
@@ -152,8 +162,8 @@ export async function getAdminOrderStats() {
     monthlyRevenue,
   ] = await Promise.all([
     prisma.order.count(),
-    prisma.order.count({ where: { status: { in: ['submitted', 'confirmed'] } } }),
-    prisma.order.count({ where: { status: 'processing' } }),
+    prisma.order.count({ where: { status: { in: ['pending_approval', 'submitted', 'credit_hold', 'confirmed'] } } }),
+    prisma.order.count({ where: { status: { in: ['processing', 'partially_shipped'] } } }),
     prisma.order.count({ where: { status: 'delivered' } }),
     prisma.order.count({ where: { status: 'cancelled' } }),
     prisma.order.count({ where: { createdAt: { gte: startOfMonth } } }),
@@ -197,9 +207,15 @@ export async function bulkUpdateOrderStatus(
     if (result.success) {
       updated++
 
-      // Create invoice when confirming order
+      // Create invoice when confirming order, unless the dealer is billed per shipment
       if (newStatus === 'confirmed') {
-        await createInvoiceFromOrder(orderId)
+        const order = await prisma.order.findUnique({
+          where: { id: orderId },
+          select: { dealer: { select: { billPerShipment: true } } },
+        })
+        if (!order?.dealer.billPerShipment) {
+          await createInvoiceFromOrder(orderId)
+        }
       }
     } else {
       errors.push(`Order ${orderId}: ${result.error}`)
@@ -209,6 +225,57 @@ export async function bulkUpdateOrderStatus(
   return { success: errors.length === 0, updated, errors }
 }
 
+// Admin override: release an order from credit hold, recorded in the audit log
+export async function releaseOrderCreditHold(
+  orderId: string,
+  note: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+
+  if (!session?.user || !isAdmin(session.user.role)) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  if (!note.trim()) {
+    return { success: false, error: 'A reason is required to release a credit hold' }
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { orderNumber: true, dealerId: true, totalAmount: true },
+  })
+  if (!order) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  const credit = await getDealerCreditSummary(order.dealerId)
+  const result = await releaseCreditHold(orderId, note.trim(), session.user.id)
+  if (!result.success) {
+    return result
+  }
+
+  await createAuditLog({
+    action: 'override',
+    entityType: 'Order',
+    entityId: orderId,
+    oldValues: {
+      status: 'credit_hold',
+      creditLimit: credit?.creditLimit ?? null,
+      availableCredit: credit?.availableCredit ?? null,
+      oldestDaysPastDue: credit?.aging.oldestDaysPastDue ?? 0,
+    },
+    newValues: {
+      status: 'submitted',
+      orderNumber: order.orderNumber,
+      orderTotal: order.totalAmount,
+      reason: note.trim(),
+    },
+    userId: session.user.id,
+  })
+
+  return { success: true }
+}
+
 // Get order for admin editing
 export async function getAdminOrderDetail(orderId: string) {
   const order = await prisma.order.findUnique({
@@ -222,11 +289,24 @@ export async function getAdminOrderDetail(orderId: string) {
         },
       },
       dealer: {
-        select: { id: true, name: true, code: true, tier: true },
+        select: { id: true, name: true, code: true, tier: true, billPerShipment: true },
       },
       statusHistory: {
         orderBy: { createdAt: 'desc' },
       },
+      shipments: {
+        include: {
+          items: true,
+          invoices: {
+            select: { id: true, invoiceNumber: true },
+          },
+        },
+        orderBy: { shippedAt: 'asc' },
+      },
+      invoices: {
+        where: { shipmentId: null, status: { not: 'cancelled' } },
+        select: { id: true },
+      },
     },
   })
 
@@ -272,17 +352,30 @@ export async function getAdminOrderDetail(orderId: string) {
     billingAddress,
     orderNotes: order.notes,
     dealer: order.dealer,
-    items: order.items.map((item: { id: string; productId: string; quantity: number; unitPrice: number; totalPrice: number; product: { name: string; sku: string; price: number; images?: string[] } }) => ({
+    invoicedInFull: order.invoices.length > 0,
+    items: order.items.map((item: { id: string; productId: string; quantity: number; shippedQuantity: number; backorderedQuantity: number; unitPrice: number; totalPrice: number; product: { name: string; sku: string; price: number; images?: string[] } }) => ({
       id: item.id,
       productId: item.productId,
       productName: item.product.name,
       productSku: item.product.sku,
       currentPrice: item.product.price,
       quantity: item.quantity,
+      shippedQuantity: item.shippedQuantity,
+      backorderedQuantity: item.backorderedQuantity,
       unitPrice: item.unitPrice,
       totalPrice: item.totalPrice,
       image: item.product.images?.[0] || null,
     })),
+    shipments: order.shipments.map((shipment) => ({
+      id: shipment.id,
+      shipmentNumber: shipment.shipmentNumber,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      notes: shipment.notes,
+      shippedAt: shipment.shippedAt.toISOString(),
+      items: shipment.items.map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+      invoice: shipment.invoices[0] ?? null,
+    })),
     statusHistory: order.statusHistory.map((h: { status: string; note: string | null; changedBy: string | null; createdAt: Date }) => ({
       status: h.status,
       statusLabel: ADMIN_ORDER_STATUSES[h.status as AdminOrderStatus]?.label || h.status,
@@ -331,38 +424,54 @@ export async function updateOrderItem(
       return { success: false, error: 'Item not found' }
     }
 
+    if (quantity < 1) {
+      return { success: false, error: 'Quantity must be at least 1' }
+    }
+
     const newUnitPrice = unitPrice ?? item.unitPrice
     const newTotalPrice = quantity * newUnitPrice
+    const context = { orderId, orderNumber: order.orderNumber, userId: changedBy }
+
+    await prisma.$transaction(async (tx) => {
+      // Reserve or return the quantity difference at the item's allocated locations.
+      // Extra units without stock are backordered; a reduction comes off the backorder first.
+      if (quantity > item.quantity) {
+        await reserveAvailableStock(tx, item, quantity - item.quantity, context)
+      } else if (quantity < item.quantity) {
+        const allocated = await tx.orderItemAllocation.aggregate({
+          where: { orderItemId: itemId },
+          _sum: { quantity: true },
+        })
+        const toRelease = Math.min(
+          Math.max(0, item.quantity - quantity - item.backorderedQuantity),
+          allocated._sum.quantity ?? 0
+        )
+        if (toRelease > 0) {
+          await releaseOrderItemAllocations(tx, itemId, context, toRelease)
+        }
+      }
 
-    await prisma.$transaction([
       // Update the item
-      prisma.orderItem.update({
+      await tx.orderItem.update({
         where: { id: itemId },
         data: {
           quantity,
           unitPrice: newUnitPrice,
           totalPrice: newTotalPrice,
         },
-      }),
-      // Recalculate order totals
-      prisma.order.update({
-        where: { id: orderId },
-        data: {
-          subtotal: {
-            increment: newTotalPrice - item.totalPrice,
-          },
-        },
-      }),
+      })
+      const backordered = await syncBackorderedQuantity(tx, itemId)
+
       // Add status history note
-      prisma.orderStatusHistory.create({
+      await tx.orderStatusHistory.create({
         data: {
           orderId,
           status: order.status,
-          note: `Item updated: ${item.quantity} → ${quantity}`,
+          note: `Item updated: ${item.quantity} → ${quantity}${backordered > 0 ? ` (${backordered} backordered)` : ''}`,
           changedBy,
         },
-      }),
-    ])
+      })
+    })
 
     // Recalculate totals
     await recalculateOrderTotals(orderId)
@@ -405,17 +514,23 @@ export async function removeOrderItem(
       return { success: false, error: 'Item not found' }
     }
 
-    await prisma.$transaction([
-      prisma.orderItem.delete({ where: { id: itemId } }),
-      prisma.orderStatusHistory.create({
+    await prisma.$transaction(async (tx) => {
+      // Return the item's reserved stock before its allocations are deleted with it
+      await releaseOrderItemAllocations(tx, itemId, {
+        orderId,
+        orderNumber: order.orderNumber,
+        userId: changedBy,
+      })
+      await tx.orderItem.delete({ where: { id: itemId } })
+      await tx.orderStatusHistory.create({
         data: {
           orderId,
           status: order.status,
           note: `Item removed from order`,
           changedBy,
         },
-      }),
-    ])
+      })
+    })
 
     await recalculateOrderTotals(orderId)
 
@@ -437,18 +552,23 @@ async function recalculateOrderTotals(orderId: string) {
 
   if (!order) return
 
-  const subtotal = order.items.reduce((sum: number, item: { totalPrice: number }) => sum + item.totalPrice, 0)
-  const taxAmount = subtotal * 0.08
-  const shippingAmount = subtotal > 500 ? 0 : 25
-  const totalAmount = subtotal + taxAmount + shippingAmount
+  const totals = await quoteOrderTotals({
+    dealerId: order.dealerId,
+    items: order.items.map((item: { quantity: number; unitPrice: number }) => ({
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+    })),
+    shippingAddress: order.shippingAddress,
+  })
 
   await prisma.order.update({
     where: { id: orderId },
     data: {
-      subtotal: Math.round(subtotal * 100) / 100,
-      taxAmount: Math.round(taxAmount * 100) / 100,
-      shippingAmount: Math.round(shippingAmount * 100) / 100,
-      totalAmount: Math.round(totalAmount * 100) / 100,
+      subtotal: totals.subtotal,
+      taxAmount: totals.taxAmount,
+      shippingAmount: totals.shippingAmount,
+      totalAmount: totals.totalAmount,
+      taxBreakdown: JSON.stringify(totals.tax),
     },
   })
 }
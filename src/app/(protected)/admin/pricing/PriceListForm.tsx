@@ -0,0 +1,209 @@
+'use client'
+
+import { useState } from 'react'
+import { DEALER_TIER_LABELS, dealerTiers, type DealerTier } from '@/lib/pricing'
+import { createPriceList, updatePriceList, type PriceListSummary } from './actions'
+
+type Props = {
+  dealers: Array<{ id: string; name: string; code: string }>
+  priceList?: PriceListSummary
+  onSaved: (priceListId: string) => void
+  onCancel?: () => void
+}
+
+function toDateInput(date: Date | null | undefined): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : ''
+}
+
+export function PriceListForm({ dealers, priceList, onSaved, onCancel }: Props) {
+  const [name, setName] = useState(priceList?.name ?? '')
+  const [description, setDescription] = useState(priceList?.description ?? '')
+  const [assignment, setAssignment] = useState<'tier' | 'dealer'>(priceList?.dealer ? 'dealer' : 'tier')
+  const [dealerTier, setDealerTier] = useState<DealerTier>((priceList?.dealerTier as DealerTier) ?? 'platinum')
+  const [dealerId, setDealerId] = useState(priceList?.dealer?.id ?? '')
+  const [effectiveFrom, setEffectiveFrom] = useState(
+    toDateInput(priceList?.effectiveFrom ?? new Date())
+  )
+  const [effectiveTo, setEffectiveTo] = useState(toDateInput(priceList?.effectiveTo))
+  const [isActive, setIsActive] = useState(priceList?.isActive ?? true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const input = {
+      name,
+      description: description || null,
+      dealerTier: assignment === 'tier' ? dealerTier : null,
+      dealerId: assignment === 'dealer' ? dealerId : null,
+      effectiveFrom: new Date(effectiveFrom),
+      effectiveTo: effectiveTo ? new Date(effectiveTo) : null,
+      isActive,
+    }
+
+    try {
+      const result = priceList ? await updatePriceList(priceList.id, input) : await createPriceList(input)
+      if (result.success && result.priceListId) {
+        onSaved(result.priceListId)
+      } else {
+        const firstError = result.errors ? Object.values(result.errors)[0]?.[0] : undefined
+        setError(firstError ?? result.message)
+      }
+    } catch {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && <div className="p-3 rounded-lg bg-red-50 text-sm text-red-800">{error}</div>}
+
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+          Name <span className="text-red-500">*</span>
+        </label>
+        <input
+          id="name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+          Description
+        </label>
+        <textarea
+          id="description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="assignment" className="block text-sm font-medium text-gray-700">
+            Applies to
+          </label>
+          <select
+            id="assignment"
+            value={assignment}
+            onChange={(e) => setAssignment(e.target.value as 'tier' | 'dealer')}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="tier">Dealer tier</option>
+            <option value="dealer">Single dealer (contract)</option>
+          </select>
+        </div>
+        <div>
+          {assignment === 'tier' ? (
+            <>
+              <label htmlFor="dealerTier" className="block text-sm font-medium text-gray-700">
+                Tier
+              </label>
+              <select
+                id="dealerTier"
+                value={dealerTier}
+                onChange={(e) => setDealerTier(e.target.value as DealerTier)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {dealerTiers.map((tier) => (
+                  <option key={tier} value={tier}>
+                    {DEALER_TIER_LABELS[tier]}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : (
+            <>
+              <label htmlFor="dealerId" className="block text-sm font-medium text-gray-700">
+                Dealer
+              </label>
+              <select
+                id="dealerId"
+                value={dealerId}
+                onChange={(e) => setDealerId(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                required
+              >
+                <option value="">Select dealer...</option>
+                {dealers.map((dealer) => (
+                  <option key={dealer.id} value={dealer.id}>
+                    {dealer.name} ({dealer.code})
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="effectiveFrom" className="block text-sm font-medium text-gray-700">
+            Effective from <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="effectiveFrom"
+            type="date"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="effectiveTo" className="block text-sm font-medium text-gray-700">
+            Effective to
+          </label>
+          <input
+            id="effectiveTo"
+            type="date"
+            value={effectiveTo}
+            onChange={(e) => setEffectiveTo(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isActive}
+          onChange={(e) => setIsActive(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        Active
+      </label>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : priceList ? 'Save Changes' : 'Create Price List'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,16 @@
+import { PRICE_LIST_STATUS_LABELS, type PriceListStatus } from '@/lib/pricing'
+
+const statusColors: Record<PriceListStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-800',
+  inactive: 'bg-red-100 text-red-800',
+}
+
+export function PriceListStatusBadge({ status }: { status: PriceListStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusColors[status]}`}>
+      {PRICE_LIST_STATUS_LABELS[status]}
+    </span>
+  )
+}
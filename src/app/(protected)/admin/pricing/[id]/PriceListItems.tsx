@@ -0,0 +1,244 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { setPriceListItem, removePriceListItem, type PriceListDetail } from '../actions'
+import { PriceListForm } from '../PriceListForm'
+
+type Props = {
+  priceList: PriceListDetail
+  dealers: Array<{ id: string; name: string; code: string }>
+  products: Array<{ id: string; sku: string; name: string; price: number }>
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function formatDiscount(price: number, basePrice: number): string {
+  if (basePrice <= 0) return '—'
+  const discount = (1 - price / basePrice) * 100
+  return `${discount.toFixed(1)}%`
+}
+
+export function PriceListSettings({ priceList, dealers }: Omit<Props, 'products'>) {
+  const router = useRouter()
+  const [isEditing, setIsEditing] = useState(false)
+
+  if (!isEditing) {
+    return (
+      <button
+        onClick={() => setIsEditing(true)}
+        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        Edit Settings
+      </button>
+    )
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <PriceListForm
+        dealers={dealers}
+        priceList={priceList}
+        onSaved={() => {
+          setIsEditing(false)
+          router.refresh()
+        }}
+        onCancel={() => setIsEditing(false)}
+      />
+    </div>
+  )
+}
+
+export function PriceListItems({ priceList, products }: Omit<Props, 'dealers'>) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [productId, setProductId] = useState('')
+  const [minQuantity, setMinQuantity] = useState(1)
+  const [price, setPrice] = useState('')
+  const [edits, setEdits] = useState<Record<string, string>>({})
+
+  const run = (action: () => Promise<{ success: boolean; message: string; errors?: Record<string, string[]> }>) => {
+    startTransition(async () => {
+      const result = await action()
+      const firstError = result.errors ? Object.values(result.errors)[0]?.[0] : undefined
+      setMessage({ type: result.success ? 'success' : 'error', text: firstError ?? result.message })
+      if (result.success) {
+        setEdits({})
+        router.refresh()
+      }
+    })
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const result = await setPriceListItem(priceList.id, {
+        productId,
+        minQuantity,
+        price: parseFloat(price),
+      })
+      if (result.success) {
+        setProductId('')
+        setMinQuantity(1)
+        setPrice('')
+      }
+      return result
+    })
+  }
+
+  const selectedProduct = products.find((p) => p.id === productId)
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-white shadow rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[16rem]">
+          <label htmlFor="productId" className="block text-sm font-medium text-gray-700">
+            Product
+          </label>
+          <select
+            id="productId"
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+            required
+          >
+            <option value="">Select product...</option>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.sku} - {p.name} ({formatCurrency(p.price)})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="minQuantity" className="block text-sm font-medium text-gray-700">
+            Min Qty
+          </label>
+          <input
+            id="minQuantity"
+            type="number"
+            min={1}
+            value={minQuantity}
+            onChange={(e) => setMinQuantity(parseInt(e.target.value, 10) || 1)}
+            className="mt-1 w-24 rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+          />
+        </div>
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-gray-700">
+            Price
+          </label>
+          <input
+            id="price"
+            type="number"
+            min={0}
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder={selectedProduct ? selectedProduct.price.toFixed(2) : '0.00'}
+            className="mt-1 w-32 rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isPending}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add / Update Price
+        </button>
+      </form>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {priceList.items.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No prices on this list yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Min Qty</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">List Price</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {priceList.items.map((item) => {
+                const draft = edits[item.id]
+                return (
+                  <tr key={item.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                      <div className="text-sm text-gray-500">{item.productSku}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {item.minQuantity > 1 ? `${item.minQuantity}+` : 'Any'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatCurrency(item.basePrice)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={draft ?? item.price.toFixed(2)}
+                        onChange={(e) => setEdits({ ...edits, [item.id]: e.target.value })}
+                        className="w-28 rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatDiscount(draft ? parseFloat(draft) || 0 : item.price, item.basePrice)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                      {draft !== undefined && (
+                        <button
+                          onClick={() =>
+                            run(() =>
+                              setPriceListItem(priceList.id, {
+                                productId: item.productId,
+                                minQuantity: item.minQuantity,
+                                price: parseFloat(draft),
+                              })
+                            )
+                          }
+                          disabled={isPending}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (confirm('Remove this price from the list?')) run(() => removePriceListItem(item.id))
+                        }}
+                        disabled={isPending}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { getPriceList, getPriceListHistory, getPricingOptions, type PriceChange } from '../actions'
+import { DEALER_TIER_LABELS, type DealerTier } from '@/lib/pricing'
+import { PriceListStatusBadge } from '../PriceListStatusBadge'
+import { PriceListItems, PriceListSettings } from './PriceListItems'
+
+export const metadata = {
+  title: 'Price List - THOR Dealer Portal Admin',
+  description: 'Manage prices and quantity breaks on a price list',
+}
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+function formatDate(date: Date | null): string {
+  if (!date) return '—'
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' }).format(new Date(date))
+}
+
+function formatDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date))
+}
+
+function describeChange(change: PriceChange): string {
+  const values = change.newValues ?? change.oldValues ?? {}
+
+  // Item-level changes carry the product and break they apply to
+  if ('sku' in values) {
+    const line = `${values.sku}${Number(values.minQuantity) > 1 ? ` (${values.minQuantity}+)` : ''}`
+    if (change.action === 'create') return `Added ${line} at $${Number(values.price).toFixed(2)}`
+    if (change.action === 'delete') return `Removed ${line} ($${Number(values.price).toFixed(2)})`
+    return `${line}: $${Number(change.oldValues?.price).toFixed(2)} → $${Number(values.price).toFixed(2)}`
+  }
+
+  if (change.action === 'create') return 'Price list created'
+  return `Updated ${Object.keys(values).join(', ')}`
+}
+
+export default async function PriceListDetailPage({ params }: Props) {
+  const { id } = await params
+  const [priceList, history, options] = await Promise.all([
+    getPriceList(id),
+    getPriceListHistory(id),
+    getPricingOptions(),
+  ])
+
+  if (!priceList) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/admin/pricing"
+          className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+          </svg>
+          Back to price lists
+        </Link>
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">{priceList.name}</h1>
+              <PriceListStatusBadge status={priceList.status} />
+            </div>
+            <p className="mt-1 text-sm text-gray-600">
+              {priceList.dealer
+                ? `Contract pricing for ${priceList.dealer.name} (${priceList.dealer.code})`
+                : `${DEALER_TIER_LABELS[priceList.dealerTier as DealerTier] ?? priceList.dealerTier} tier pricing`}
+              {' · '}
+              {formatDate(priceList.effectiveFrom)} – {priceList.effectiveTo ? formatDate(priceList.effectiveTo) : 'open'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <PriceListSettings priceList={priceList} dealers={options.dealers} />
+
+      <PriceListItems priceList={priceList} products={options.products} />
+
+      {/* Price History */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Price History</h2>
+        </div>
+        {history.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No changes recorded</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {history.map((change) => (
+              <li key={change.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span className="text-gray-900">{describeChange(change)}</span>
+                <span className="text-gray-500">
+                  {change.userName ?? 'System'} · {formatDateTime(change.createdAt)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,424 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/roles'
+import { createAuditLog } from '@/lib/audit'
+import { dealerTiers, getPriceListStatus, type PriceListStatus } from '@/lib/pricing'
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const priceListSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+    description: z.string().max(500).optional().nullable(),
+    dealerTier: z.enum(dealerTiers).optional().nullable(),
+    dealerId: z.string().optional().nullable(),
+    effectiveFrom: z.coerce.date(),
+    effectiveTo: z.coerce.date().optional().nullable(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => !!data.dealerTier !== !!data.dealerId, {
+    message: 'Assign the price list to either a dealer tier or a single dealer',
+    path: ['dealerTier'],
+  })
+  .refine((data) => !data.effectiveTo || data.effectiveTo > data.effectiveFrom, {
+    message: 'End date must be after the start date',
+    path: ['effectiveTo'],
+  })
+
+const priceListItemSchema = z.object({
+  productId: z.string().min(1, 'Product is required'),
+  minQuantity: z.number().int().min(1, 'Minimum quantity must be at least 1'),
+  price: z.number().min(0, 'Price cannot be negative'),
+})
+
+export type PriceListInput = z.input<typeof priceListSchema>
+export type PriceListItemInput = z.infer<typeof priceListItemSchema>
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PriceListSummary = {
+  id: string
+  name: string
+  description: string | null
+  dealerTier: string | null
+  dealer: { id: string; name: string; code: string } | null
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  isActive: boolean
+  status: PriceListStatus
+  itemCount: number
+  updatedAt: Date
+}
+
+export type PriceListDetail = PriceListSummary & {
+  items: Array<{
+    id: string
+    productId: string
+    productSku: string
+    productName: string
+    basePrice: number
+    minQuantity: number
+    price: number
+    updatedAt: Date
+  }>
+}
+
+export type PriceChange = {
+  id: string
+  action: string
+  userName: string | null
+  oldValues: Record<string, unknown> | null
+  newValues: Record<string, unknown> | null
+  createdAt: Date
+}
+
+type PricingState = {
+  success: boolean
+  message: string
+  priceListId?: string
+  errors?: Record<string, string[]>
+}
+
+async function requireAdmin() {
+  const session = await auth()
+  return session?.user && isAdmin(session.user.role) ? session.user : null
+}
+
+// Price changes are recorded against the list so its history survives item deletion
+async function logPriceChange(
+  priceListId: string,
+  userId: string,
+  action: 'create' | 'update' | 'delete',
+  oldValues?: Record<string, unknown>,
+  newValues?: Record<string, unknown>
+) {
+  await createAuditLog({
+    action,
+    entityType: 'PriceList',
+    entityId: priceListId,
+    oldValues,
+    newValues,
+    userId,
+  })
+}
+
+function revalidatePricingPaths(id?: string) {
+  revalidatePath('/admin/pricing')
+  revalidatePath('/products')
+  if (id) revalidatePath(`/admin/pricing/${id}`)
+}
+
+function toSummary(list: {
+  id: string
+  name: string
+  description: string | null
+  dealerTier: string | null
+  dealer: { id: string; name: string; code: string } | null
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  isActive: boolean
+  updatedAt: Date
+  _count: { items: number }
+}): PriceListSummary {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    dealerTier: list.dealerTier,
+    dealer: list.dealer,
+    effectiveFrom: list.effectiveFrom,
+    effectiveTo: list.effectiveTo,
+    isActive: list.isActive,
+    status: getPriceListStatus(list),
+    itemCount: list._count.items,
+    updatedAt: list.updatedAt,
+  }
+}
+
+const dealerSelect = { select: { id: true, name: true, code: true } } as const
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getPriceLists(): Promise<PriceListSummary[]> {
+  const lists = await prisma.priceList.findMany({
+    include: {
+      dealer: dealerSelect,
+      _count: { select: { items: true } },
+    },
+    orderBy: [{ isActive: 'desc' }, { effectiveFrom: 'desc' }],
+  })
+
+  return lists.map(toSummary)
+}
+
+export async function getPriceList(id: string): Promise<PriceListDetail | null> {
+  const list = await prisma.priceList.findUnique({
+    where: { id },
+    include: {
+      dealer: dealerSelect,
+      _count: { select: { items: true } },
+      items: {
+        include: { product: { select: { sku: true, name: true, price: true } } },
+        orderBy: [{ product: { name: 'asc' } }, { minQuantity: 'asc' }],
+      },
+    },
+  })
+
+  if (!list) return null
+
+  return {
+    ...toSummary(list),
+    items: list.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productSku: item.product.sku,
+      productName: item.product.name,
+      basePrice: item.product.price,
+      minQuantity: item.minQuantity,
+      price: item.price,
+      updatedAt: item.updatedAt,
+    })),
+  }
+}
+
+export async function getPriceListHistory(id: string, limit = 50): Promise<PriceChange[]> {
+  const entries = await prisma.auditLog.findMany({
+    where: { entityType: 'PriceList', entityId: id },
+    include: { user: { select: { firstName: true, lastName: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+
+  return entries.map((entry) => ({
+    id: entry.id,
+    action: entry.action,
+    userName: entry.user ? `${entry.user.firstName} ${entry.user.lastName}` : null,
+    oldValues: entry.oldValues ? JSON.parse(entry.oldValues) : null,
+    newValues: entry.newValues ? JSON.parse(entry.newValues) : null,
+    createdAt: entry.createdAt,
+  }))
+}
+
+export async function getPricingOptions(): Promise<{
+  dealers: Array<{ id: string; name: string; code: string; tier: string }>
+  products: Array<{ id: string; sku: string; name: string; price: number }>
+}> {
+  const [dealers, products] = await Promise.all([
+    prisma.dealer.findMany({
+      where: { status: 'active' },
+      select: { id: true, name: true, code: true, tier: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.product.findMany({
+      where: { status: 'active' },
+      select: { id: true, sku: true, name: true, price: true },
+      orderBy: { name: 'asc' },
+    }),
+  ])
+
+  return { dealers, products }
+}
+
+// ============================================================================
+// PRICE LISTS
+// ============================================================================
+
+export async function createPriceList(input: PriceListInput): Promise<PricingState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = priceListSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const data = {
+      ...validated.data,
+      description: validated.data.description || null,
+      dealerTier: validated.data.dealerTier || null,
+      dealerId: validated.data.dealerId || null,
+      effectiveTo: validated.data.effectiveTo || null,
+    }
+
+    const list = await prisma.priceList.create({ data })
+    await logPriceChange(list.id, user.id, 'create', undefined, data)
+
+    revalidatePricingPaths()
+
+    return { success: true, message: 'Price list created', priceListId: list.id }
+  } catch (error) {
+    console.error('Failed to create price list:', error)
+    return { success: false, message: 'Failed to create price list' }
+  }
+}
+
+export async function updatePriceList(id: string, input: PriceListInput): Promise<PricingState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = priceListSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const existing = await prisma.priceList.findUnique({ where: { id } })
+    if (!existing) {
+      return { success: false, message: 'Price list not found' }
+    }
+
+    const data = {
+      ...validated.data,
+      description: validated.data.description || null,
+      dealerTier: validated.data.dealerTier || null,
+      dealerId: validated.data.dealerId || null,
+      effectiveTo: validated.data.effectiveTo || null,
+    }
+
+    await prisma.priceList.update({ where: { id }, data })
+
+    // Record only the fields that changed
+    const before: Record<string, unknown> = {}
+    const after: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(data)) {
+      const previous = existing[key as keyof typeof existing]
+      if (JSON.stringify(previous) !== JSON.stringify(value)) {
+        before[key] = previous
+        after[key] = value
+      }
+    }
+    if (Object.keys(after).length > 0) {
+      await logPriceChange(id, user.id, 'update', before, after)
+    }
+
+    revalidatePricingPaths(id)
+
+    return { success: true, message: 'Price list updated', priceListId: id }
+  } catch (error) {
+    console.error('Failed to update price list:', error)
+    return { success: false, message: 'Failed to update price list' }
+  }
+}
+
+// ============================================================================
+// PRICE LIST ITEMS
+// ============================================================================
+
+// Add a product price or quantity break, or change the price of an existing one
+export async function setPriceListItem(
+  priceListId: string,
+  input: PriceListItemInput
+): Promise<PricingState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = priceListItemSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const { productId, minQuantity, price } = validated.data
+    const key = { priceListId_productId_minQuantity: { priceListId, productId, minQuantity } }
+
+    const [list, product, existing] = await Promise.all([
+      prisma.priceList.findUnique({ where: { id: priceListId } }),
+      prisma.product.findUnique({ where: { id: productId }, select: { sku: true } }),
+      prisma.priceListItem.findUnique({ where: key }),
+    ])
+
+    if (!list) {
+      return { success: false, message: 'Price list not found' }
+    }
+    if (!product) {
+      return { success: false, message: 'Product not found' }
+    }
+    if (existing && existing.price === price) {
+      return { success: true, message: 'Price unchanged', priceListId }
+    }
+
+    await prisma.priceListItem.upsert({
+      where: key,
+      create: { priceListId, productId, minQuantity, price },
+      update: { price },
+    })
+
+    const line = { productId, sku: product.sku, minQuantity }
+    await logPriceChange(
+      priceListId,
+      user.id,
+      existing ? 'update' : 'create',
+      existing ? { ...line, price: existing.price } : undefined,
+      { ...line, price }
+    )
+
+    revalidatePricingPaths(priceListId)
+
+    return { success: true, message: existing ? 'Price updated' : 'Price added', priceListId }
+  } catch (error) {
+    console.error('Failed to set price:', error)
+    return { success: false, message: 'Failed to set price' }
+  }
+}
+
+export async function removePriceListItem(itemId: string): Promise<PricingState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const item = await prisma.priceListItem.findUnique({
+      where: { id: itemId },
+      include: { product: { select: { sku: true } } },
+    })
+
+    if (!item) {
+      return { success: false, message: 'Price not found' }
+    }
+
+    await prisma.priceListItem.delete({ where: { id: itemId } })
+    await logPriceChange(item.priceListId, user.id, 'delete', {
+      productId: item.productId,
+      sku: item.product.sku,
+      minQuantity: item.minQuantity,
+      price: item.price,
+    })
+
+    revalidatePricingPaths(item.priceListId)
+
+    return { success: true, message: 'Price removed', priceListId: item.priceListId }
+  } catch (error) {
+    console.error('Failed to remove price:', error)
+    return { success: false, message: 'Failed to remove price' }
+  }
+}
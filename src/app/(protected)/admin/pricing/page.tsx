@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { getPriceLists, getPricingOptions, type PriceListSummary } from './actions'
+import { DEALER_TIER_LABELS, type DealerTier } from '@/lib/pricing'
+import { PriceListStatusBadge } from './PriceListStatusBadge'
+import { PriceListForm } from './PriceListForm'
+
+function formatDate(date: Date | null): string {
+  if (!date) return '—'
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' }).format(new Date(date))
+}
+
+export default function PriceListsPage() {
+  const router = useRouter()
+  const [priceLists, setPriceLists] = useState<PriceListSummary[]>([])
+  const [dealers, setDealers] = useState<Array<{ id: string; name: string; code: string }>>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [lists, options] = await Promise.all([getPriceLists(), getPricingOptions()])
+        setPriceLists(lists)
+        setDealers(options.dealers)
+      } catch (error) {
+        console.error('Failed to load price lists:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Price Lists</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Tier pricing, dealer contract pricing and quantity breaks. Contract prices take precedence over tier prices.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Price List
+        </button>
+      </div>
+
+      {/* Price List Table */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-6">
+            <div className="animate-pulse space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded" />
+              ))}
+            </div>
+          </div>
+        ) : priceLists.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No price lists yet. Every dealer pays list price.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Prices</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {priceLists.map((list) => (
+                <tr key={list.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link
+                      href={`/admin/pricing/${list.id}`}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {list.name}
+                    </Link>
+                    {list.description && <div className="text-xs text-gray-500">{list.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {list.dealer
+                      ? `${list.dealer.name} (${list.dealer.code})`
+                      : `${DEALER_TIER_LABELS[list.dealerTier as DealerTier] ?? list.dealerTier} tier`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(list.effectiveFrom)} – {list.effectiveTo ? formatDate(list.effectiveTo) : 'open'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{list.itemCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <PriceListStatusBadge status={list.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:p-0">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setShowForm(false)} />
+
+            <div className="relative bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:max-w-lg sm:w-full p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">New Price List</h3>
+              <PriceListForm
+                dealers={dealers}
+                onSaved={(id) => router.push(`/admin/pricing/${id}`)}
+                onCancel={() => setShowForm(false)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/roles'
+import { warrantyCoveragePlanSchema, type WarrantyCoveragePlanInput } from '@/lib/validations/warranty'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CoverageTermRow = {
+  component: string
+  months: number | null
+  mileageCap: number | null
+  oemProvider: string | null
+}
+
+export type ModelCoverageRow = {
+  rvModelId: string
+  code: string
+  name: string
+  series: string
+  classType: string
+  plan: {
+    id: string
+    name: string
+    notes: string | null
+    terms: CoverageTermRow[]
+    updatedAt: Date
+  } | null
+}
+
+type CoveragePlanState = {
+  success: boolean
+  message: string
+  errors?: Record<string, string[]>
+}
+
+async function requireAdmin() {
+  const session = await auth()
+  return session?.user && isAdmin(session.user.role) ? session.user : null
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getModelCoveragePlans(): Promise<ModelCoverageRow[]> {
+  const models = await prisma.rVModel.findMany({
+    where: { status: { not: 'discontinued' } },
+    include: { coveragePlan: { include: { terms: true } } },
+    orderBy: [{ classType: 'asc' }, { name: 'asc' }],
+  })
+
+  return models.map((model) => ({
+    rvModelId: model.id,
+    code: model.code,
+    name: model.name,
+    series: model.series,
+    classType: model.classType,
+    plan: model.coveragePlan
+      ? {
+          id: model.coveragePlan.id,
+          name: model.coveragePlan.name,
+          notes: model.coveragePlan.notes,
+          terms: model.coveragePlan.terms.map((term) => ({
+            component: term.component,
+            months: term.months,
+            mileageCap: term.mileageCap,
+            oemProvider: term.oemProvider,
+          })),
+          updatedAt: model.coveragePlan.updatedAt,
+        }
+      : null,
+  }))
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+// Save the model's plan, replacing its terms
+export async function saveCoveragePlan(input: WarrantyCoveragePlanInput): Promise<CoveragePlanState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = warrantyCoveragePlanSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.errors[0]?.message ?? 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const { rvModelId, name, notes, terms } = validated.data
+    const termData = terms.map((term) => ({
+      component: term.component,
+      months: term.months ?? null,
+      mileageCap: term.mileageCap ?? null,
+      oemProvider: term.oemProvider || null,
+    }))
+
+    await prisma.$transaction(async (tx) => {
+      const plan = await tx.warrantyCoveragePlan.upsert({
+        where: { rvModelId },
+        create: { rvModelId, name, notes: notes || null },
+        update: { name, notes: notes || null },
+      })
+      await tx.warrantyCoverageTerm.deleteMany({ where: { planId: plan.id } })
+      await tx.warrantyCoverageTerm.createMany({
+        data: termData.map((term) => ({ ...term, planId: plan.id })),
+      })
+    })
+
+    revalidatePath('/admin/warranty-coverage')
+    return { success: true, message: 'Coverage plan saved' }
+  } catch (error) {
+    console.error('Failed to save coverage plan:', error)
+    return { success: false, message: 'Failed to save coverage plan' }
+  }
+}
+
+export async function deleteCoveragePlan(rvModelId: string): Promise<CoveragePlanState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    await prisma.warrantyCoveragePlan.deleteMany({ where: { rvModelId } })
+
+    revalidatePath('/admin/warranty-coverage')
+    return { success: true, message: 'Coverage plan removed' }
+  } catch (error) {
+    console.error('Failed to delete coverage plan:', error)
+    return { success: false, message: 'Failed to remove coverage plan' }
+  }
+}
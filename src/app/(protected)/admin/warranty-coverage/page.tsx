@@ -0,0 +1,337 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import { WARRANTY_COMPONENTS, WARRANTY_COMPONENT_LABELS, type WarrantyComponent } from '@/lib/warranty-coverage'
+import {
+  getModelCoveragePlans,
+  saveCoveragePlan,
+  deleteCoveragePlan,
+  type CoverageTermRow,
+  type ModelCoverageRow,
+} from './actions'
+
+type TermForm = {
+  component: WarrantyComponent
+  months: string
+  mileageCap: string
+  oemProvider: string
+}
+
+type PlanForm = {
+  name: string
+  notes: string
+  terms: TermForm[]
+}
+
+const defaultTerms: TermForm[] = [
+  { component: 'general', months: '12', mileageCap: '', oemProvider: '' },
+  { component: 'structural', months: '36', mileageCap: '', oemProvider: '' },
+  { component: 'appliances', months: '12', mileageCap: '', oemProvider: '' },
+]
+
+function toTermForm(term: CoverageTermRow): TermForm {
+  return {
+    component: term.component as WarrantyComponent,
+    months: term.months?.toString() ?? '',
+    mileageCap: term.mileageCap?.toString() ?? '',
+    oemProvider: term.oemProvider ?? '',
+  }
+}
+
+function describeTerm(term: CoverageTermRow): string {
+  if (term.oemProvider) return `OEM (${term.oemProvider})`
+  const months = term.months !== null ? `${term.months} mo` : ''
+  return term.mileageCap !== null ? `${months} / ${term.mileageCap.toLocaleString()} mi` : months
+}
+
+export default function WarrantyCoveragePlansPage() {
+  const [models, setModels] = useState<ModelCoverageRow[]>([])
+  const [editingModelId, setEditingModelId] = useState<string | null>(null)
+  const [form, setForm] = useState<PlanForm>({ name: '', notes: '', terms: defaultTerms })
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPending, startTransition] = useTransition()
+
+  async function load() {
+    try {
+      setModels(await getModelCoveragePlans())
+    } catch (error) {
+      console.error('Failed to load coverage plans:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  function run(action: () => Promise<{ success: boolean; message: string }>, onSuccess?: () => void) {
+    startTransition(async () => {
+      const result = await action()
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+      if (result.success) {
+        onSuccess?.()
+        await load()
+      }
+    })
+  }
+
+  function editPlan(model: ModelCoverageRow) {
+    setEditingModelId(model.rvModelId)
+    setForm(
+      model.plan
+        ? { name: model.plan.name, notes: model.plan.notes ?? '', terms: model.plan.terms.map(toTermForm) }
+        : { name: `${model.name} Limited Warranty`, notes: '', terms: defaultTerms }
+    )
+  }
+
+  function updateTerm(index: number, updates: Partial<TermForm>) {
+    setForm({ ...form, terms: form.terms.map((term, i) => (i === index ? { ...term, ...updates } : term)) })
+  }
+
+  function addTerm() {
+    const unused = WARRANTY_COMPONENTS.find((component) => !form.terms.some((term) => term.component === component))
+    if (!unused) return
+    setForm({ ...form, terms: [...form.terms, { component: unused, months: '', mileageCap: '', oemProvider: '' }] })
+  }
+
+  function removeTerm(index: number) {
+    setForm({ ...form, terms: form.terms.filter((_, i) => i !== index) })
+  }
+
+  function handleSave() {
+    if (!editingModelId) return
+    run(
+      () =>
+        saveCoveragePlan({
+          rvModelId: editingModelId,
+          name: form.name,
+          notes: form.notes || undefined,
+          terms: form.terms.map((term) => ({
+            component: term.component,
+            months: term.months ? parseInt(term.months) : null,
+            mileageCap: term.mileageCap ? parseInt(term.mileageCap) : null,
+            oemProvider: term.oemProvider || null,
+          })),
+        }),
+      () => setEditingModelId(null)
+    )
+  }
+
+  function handleDelete(model: ModelCoverageRow) {
+    if (!confirm(`Remove the coverage plan for ${model.name}? Units fall back to their warranty end date.`)) return
+    run(() => deleteCoveragePlan(model.rvModelId))
+  }
+
+  const editingModel = models.find((model) => model.rvModelId === editingModelId)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Warranty Coverage Plans</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Component coverage terms per model, counted from each unit&apos;s warranty start date. Claimed parts are
+          checked against these terms on the failure date; components without their own term use the basic term.
+          Models without a plan are covered until the unit&apos;s warranty end date.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-4 text-sm flex items-center justify-between ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)} className="font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Plan Editor */}
+      {editingModel && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">
+              {editingModel.plan ? 'Edit' : 'New'} Plan: {editingModel.name} ({editingModel.code})
+            </h2>
+          </div>
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="Plan name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+              <input
+                type="text"
+                placeholder="Notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Component</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Months</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mileage Cap</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">OEM Provider</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {form.terms.map((term, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      <select
+                        value={term.component}
+                        onChange={(e) => updateTerm(index, { component: e.target.value as WarrantyComponent })}
+                        className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+                      >
+                        {WARRANTY_COMPONENTS.map((component) => (
+                          <option key={component} value={component}>
+                            {WARRANTY_COMPONENT_LABELS[component]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        value={term.months}
+                        onChange={(e) => updateTerm(index, { months: e.target.value })}
+                        disabled={!!term.oemProvider}
+                        className="block w-24 rounded-md border-gray-300 shadow-sm text-sm disabled:bg-gray-100"
+                        min="1"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        value={term.mileageCap}
+                        onChange={(e) => updateTerm(index, { mileageCap: e.target.value })}
+                        disabled={!!term.oemProvider}
+                        placeholder="None"
+                        className="block w-32 rounded-md border-gray-300 shadow-sm text-sm disabled:bg-gray-100"
+                        min="1"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={term.oemProvider}
+                        onChange={(e) => updateTerm(index, { oemProvider: e.target.value })}
+                        placeholder="Covered by us"
+                        className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button onClick={() => removeTerm(index)} className="text-sm text-red-600 hover:text-red-800">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex justify-between">
+              <button
+                onClick={addTerm}
+                disabled={form.terms.length >= WARRANTY_COMPONENTS.length}
+                className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+              >
+                Add Term
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setEditingModelId(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isPending}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save Plan
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Models */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Models</h2>
+        </div>
+        {isLoading ? (
+          <div className="p-6">
+            <div className="animate-pulse space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded" />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terms</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {models.map((model) => (
+                <tr key={model.rvModelId} className="hover:bg-gray-50 align-top">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {model.series} {model.name} <span className="text-gray-500">({model.code})</span>
+                    <p className="text-xs text-gray-500">{model.classType}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {model.plan ? model.plan.name : <span className="text-gray-400">Unit warranty dates only</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {model.plan?.terms.map((term) => (
+                      <p key={term.component}>
+                        {WARRANTY_COMPONENT_LABELS[term.component as WarrantyComponent] ?? term.component}:{' '}
+                        {describeTerm(term)}
+                      </p>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                    <button onClick={() => editPlan(model)} className="text-blue-600 hover:text-blue-800">
+                      {model.plan ? 'Edit' : 'Add Plan'}
+                    </button>
+                    {model.plan && (
+                      <button
+                        onClick={() => handleDelete(model)}
+                        disabled={isPending}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/roles'
+import { normalizeOpCode } from '@/lib/warranty-labor'
+import {
+  dealerWarrantyLaborRateSchema,
+  warrantyLaborOperationSchema,
+  type DealerWarrantyLaborRateInput,
+  type WarrantyLaborOperationInput,
+} from '@/lib/validations/warranty'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LaborOperationRow = {
+  id: string
+  opCode: string
+  description: string
+  standardHours: number
+  rvModel: { id: string; code: string; name: string } | null
+  classType: string | null
+  isActive: boolean
+  updatedAt: Date
+}
+
+export type DealerLaborRateRow = {
+  dealerId: string
+  dealerName: string
+  dealerCode: string
+  approvedRate: number | null
+  notes: string | null
+  updatedAt: Date | null
+}
+
+type LaborGuideState = {
+  success: boolean
+  message: string
+  errors?: Record<string, string[]>
+}
+
+async function requireAdmin() {
+  const session = await auth()
+  return session?.user && isAdmin(session.user.role) ? session.user : null
+}
+
+function revalidateLaborGuidePaths() {
+  revalidatePath('/admin/warranty-labor')
+  revalidatePath('/warranty/new')
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getLaborOperations(): Promise<LaborOperationRow[]> {
+  const operations = await prisma.warrantyLaborOperation.findMany({
+    include: { rvModel: { select: { id: true, code: true, name: true } } },
+    orderBy: [{ opCode: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  return operations.map((operation) => ({
+    id: operation.id,
+    opCode: operation.opCode,
+    description: operation.description,
+    standardHours: operation.standardHours,
+    rvModel: operation.rvModel,
+    classType: operation.classType,
+    isActive: operation.isActive,
+    updatedAt: operation.updatedAt,
+  }))
+}
+
+export async function getDealerLaborRates(): Promise<DealerLaborRateRow[]> {
+  const dealers = await prisma.dealer.findMany({
+    where: { status: 'active' },
+    select: { id: true, name: true, code: true, warrantyLaborRate: true },
+    orderBy: { name: 'asc' },
+  })
+
+  return dealers.map((dealer) => ({
+    dealerId: dealer.id,
+    dealerName: dealer.name,
+    dealerCode: dealer.code,
+    approvedRate: dealer.warrantyLaborRate?.approvedRate ?? null,
+    notes: dealer.warrantyLaborRate?.notes ?? null,
+    updatedAt: dealer.warrantyLaborRate?.updatedAt ?? null,
+  }))
+}
+
+export async function getLaborGuideOptions(): Promise<{
+  models: Array<{ id: string; code: string; name: string; classType: string }>
+  classTypes: string[]
+}> {
+  const models = await prisma.rVModel.findMany({
+    where: { status: { not: 'discontinued' } },
+    select: { id: true, code: true, name: true, classType: true },
+    orderBy: [{ classType: 'asc' }, { name: 'asc' }],
+  })
+
+  const classTypes = models
+    .map((model) => model.classType)
+    .filter((classType, index, all) => all.indexOf(classType) === index)
+
+  return { models, classTypes }
+}
+
+// ============================================================================
+// LABOR OPERATIONS
+// ============================================================================
+
+export async function saveLaborOperation(
+  input: WarrantyLaborOperationInput,
+  id?: string
+): Promise<LaborGuideState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = warrantyLaborOperationSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.errors[0]?.message ?? 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const data = {
+      opCode: normalizeOpCode(validated.data.opCode),
+      description: validated.data.description,
+      standardHours: validated.data.standardHours,
+      rvModelId: validated.data.rvModelId || null,
+      classType: validated.data.classType || null,
+      isActive: validated.data.isActive,
+    }
+
+    // One entry per op code and scope, so lookups are unambiguous
+    const duplicate = await prisma.warrantyLaborOperation.findFirst({
+      where: {
+        opCode: data.opCode,
+        rvModelId: data.rvModelId,
+        classType: data.classType,
+        ...(id && { id: { not: id } }),
+      },
+    })
+    if (duplicate) {
+      return { success: false, message: `${data.opCode} already has an entry for this scope` }
+    }
+
+    if (id) {
+      await prisma.warrantyLaborOperation.update({ where: { id }, data })
+    } else {
+      await prisma.warrantyLaborOperation.create({ data })
+    }
+
+    revalidateLaborGuidePaths()
+    return { success: true, message: id ? 'Labor operation updated' : 'Labor operation added' }
+  } catch (error) {
+    console.error('Failed to save labor operation:', error)
+    return { success: false, message: 'Failed to save labor operation' }
+  }
+}
+
+export async function deleteLaborOperation(id: string): Promise<LaborGuideState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    await prisma.warrantyLaborOperation.delete({ where: { id } })
+
+    revalidateLaborGuidePaths()
+    return { success: true, message: 'Labor operation deleted' }
+  } catch (error) {
+    console.error('Failed to delete labor operation:', error)
+    return { success: false, message: 'Failed to delete labor operation' }
+  }
+}
+
+// ============================================================================
+// DEALER RATES
+// ============================================================================
+
+export async function saveDealerLaborRate(input: DealerWarrantyLaborRateInput): Promise<LaborGuideState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = dealerWarrantyLaborRateSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.errors[0]?.message ?? 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const { dealerId, approvedRate, notes } = validated.data
+    await prisma.dealerWarrantyLaborRate.upsert({
+      where: { dealerId },
+      create: { dealerId, approvedRate, notes: notes || null, updatedById: user.id },
+      update: { approvedRate, notes: notes || null, updatedById: user.id },
+    })
+
+    revalidateLaborGuidePaths()
+    return { success: true, message: 'Approved rate saved' }
+  } catch (error) {
+    console.error('Failed to save dealer labor rate:', error)
+    return { success: false, message: 'Failed to save approved rate' }
+  }
+}
+
+export async function clearDealerLaborRate(dealerId: string): Promise<LaborGuideState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    await prisma.dealerWarrantyLaborRate.deleteMany({ where: { dealerId } })
+
+    revalidateLaborGuidePaths()
+    return { success: true, message: 'Approved rate cleared' }
+  } catch (error) {
+    console.error('Failed to clear dealer labor rate:', error)
+    return { success: false, message: 'Failed to clear approved rate' }
+  }
+}
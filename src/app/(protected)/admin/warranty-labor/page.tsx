@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import {
+  getLaborOperations,
+  getDealerLaborRates,
+  getLaborGuideOptions,
+  saveLaborOperation,
+  deleteLaborOperation,
+  saveDealerLaborRate,
+  clearDealerLaborRate,
+  type LaborOperationRow,
+  type DealerLaborRateRow,
+} from './actions'
+
+type Options = Awaited<ReturnType<typeof getLaborGuideOptions>>
+
+type OperationForm = {
+  opCode: string
+  description: string
+  standardHours: string
+  scope: string // '', 'model:<id>' or 'class:<classType>'
+}
+
+const emptyForm: OperationForm = { opCode: '', description: '', standardHours: '', scope: '' }
+
+function describeScope(operation: LaborOperationRow): string {
+  if (operation.rvModel) return `${operation.rvModel.name} (${operation.rvModel.code})`
+  if (operation.classType) return `All ${operation.classType}`
+  return 'All units'
+}
+
+export default function WarrantyLaborGuidePage() {
+  const [operations, setOperations] = useState<LaborOperationRow[]>([])
+  const [rates, setRates] = useState<DealerLaborRateRow[]>([])
+  const [options, setOptions] = useState<Options>({ models: [], classTypes: [] })
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({})
+  const [form, setForm] = useState<OperationForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPending, startTransition] = useTransition()
+
+  async function load() {
+    try {
+      const [ops, dealerRates, guideOptions] = await Promise.all([
+        getLaborOperations(),
+        getDealerLaborRates(),
+        getLaborGuideOptions(),
+      ])
+      setOperations(ops)
+      setRates(dealerRates)
+      setOptions(guideOptions)
+      setRateInputs(
+        Object.fromEntries(dealerRates.map((rate) => [rate.dealerId, rate.approvedRate?.toString() ?? '']))
+      )
+    } catch (error) {
+      console.error('Failed to load labor guide:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  function run(action: () => Promise<{ success: boolean; message: string }>, onSuccess?: () => void) {
+    startTransition(async () => {
+      const result = await action()
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+      if (result.success) {
+        onSuccess?.()
+        await load()
+      }
+    })
+  }
+
+  function editOperation(operation: LaborOperationRow) {
+    setEditingId(operation.id)
+    setForm({
+      opCode: operation.opCode,
+      description: operation.description,
+      standardHours: String(operation.standardHours),
+      scope: operation.rvModel ? `model:${operation.rvModel.id}` : operation.classType ? `class:${operation.classType}` : '',
+    })
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  function handleSaveOperation() {
+    const existing = operations.find((operation) => operation.id === editingId)
+    run(
+      () =>
+        saveLaborOperation(
+          {
+            opCode: form.opCode,
+            description: form.description,
+            standardHours: parseFloat(form.standardHours) || 0,
+            rvModelId: form.scope.startsWith('model:') ? form.scope.slice(6) : null,
+            classType: form.scope.startsWith('class:') ? form.scope.slice(6) : null,
+            isActive: existing?.isActive ?? true,
+          },
+          editingId ?? undefined
+        ),
+      resetForm
+    )
+  }
+
+  function toggleActive(operation: LaborOperationRow) {
+    run(() =>
+      saveLaborOperation(
+        {
+          opCode: operation.opCode,
+          description: operation.description,
+          standardHours: operation.standardHours,
+          rvModelId: operation.rvModel?.id ?? null,
+          classType: operation.classType,
+          isActive: !operation.isActive,
+        },
+        operation.id
+      )
+    )
+  }
+
+  function handleDeleteOperation(operation: LaborOperationRow) {
+    if (!confirm(`Delete ${operation.opCode} (${describeScope(operation)})?`)) return
+    run(() => deleteLaborOperation(operation.id))
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Warranty Labor Guide</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Flat-rate operations and approved dealer labor rates. Claim labor over standard hours or above a
+          dealer&apos;s approved rate is flagged on submission. Model entries take precedence over class entries,
+          which take precedence over entries for all units.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-4 text-sm flex items-center justify-between ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)} className="font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Labor Operations */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Labor Operations</h2>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+            <input
+              type="text"
+              placeholder="Op code"
+              value={form.opCode}
+              onChange={(e) => setForm({ ...form, opCode: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm text-sm uppercase"
+            />
+            <input
+              type="text"
+              placeholder="Description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm text-sm sm:col-span-2"
+            />
+            <input
+              type="number"
+              placeholder="Standard hours"
+              value={form.standardHours}
+              onChange={(e) => setForm({ ...form, standardHours: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              min="0"
+              step="0.1"
+            />
+            <select
+              value={form.scope}
+              onChange={(e) => setForm({ ...form, scope: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+            >
+              <option value="">All units</option>
+              <optgroup label="Class">
+                {options.classTypes.map((classType) => (
+                  <option key={classType} value={`class:${classType}`}>
+                    All {classType}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Model">
+                {options.models.map((model) => (
+                  <option key={model.id} value={`model:${model.id}`}>
+                    {model.name} ({model.code})
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSaveOperation}
+              disabled={isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {editingId ? 'Update Operation' : 'Add Operation'}
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6">
+            <div className="animate-pulse space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded" />
+              ))}
+            </div>
+          </div>
+        ) : operations.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No labor operations yet. Every claimed op code will be flagged as not in the guide.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Op Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Std Hours</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {operations.map((operation) => (
+                <tr key={operation.id} className={operation.isActive ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono font-medium">{operation.opCode}</td>
+                  <td className="px-6 py-4 text-sm">{operation.description}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{describeScope(operation)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{operation.standardHours}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                    <button onClick={() => editOperation(operation)} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleActive(operation)}
+                      disabled={isPending}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {operation.isActive ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteOperation(operation)}
+                      disabled={isPending}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Dealer Rates */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Approved Dealer Labor Rates</h2>
+          <p className="mt-1 text-sm text-gray-500">Dealers without an approved rate are not rate-checked.</p>
+        </div>
+        {!isLoading && (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dealer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approved Rate ($/hr)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rates.map((rate) => (
+                <tr key={rate.dealerId}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rate.dealerName} <span className="text-gray-500">({rate.dealerCode})</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="number"
+                      value={rateInputs[rate.dealerId] ?? ''}
+                      onChange={(e) => setRateInputs({ ...rateInputs, [rate.dealerId]: e.target.value })}
+                      placeholder="Not set"
+                      className="block w-32 rounded-md border-gray-300 shadow-sm text-sm"
+                      min="0"
+                      step="0.01"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                    <button
+                      onClick={() =>
+                        run(() =>
+                          saveDealerLaborRate({
+                            dealerId: rate.dealerId,
+                            approvedRate: parseFloat(rateInputs[rate.dealerId]) || 0,
+                            notes: rate.notes ?? undefined,
+                          })
+                        )
+                      }
+                      disabled={isPending || rateInputs[rate.dealerId] === (rate.approvedRate?.toString() ?? '')}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                    >
+                      Save
+                    </button>
+                    {rate.approvedRate !== null && (
+                      <button
+                        onClick={() => run(() => clearDealerLaborRate(rate.dealerId))}
+                        disabled={isPending}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
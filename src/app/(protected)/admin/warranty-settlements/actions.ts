@@ -0,0 +1,137 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/roles'
+import {
+  emailSettlementStatement,
+  generateSettlementStatementHtml,
+  listWarrantySettlementBatches,
+  previewWarrantySettlement,
+  recordSettlementPayout,
+  runWarrantySettlement,
+} from '@/lib/services/warranty-settlement'
+import {
+  recordSettlementPayoutSchema,
+  warrantySettlementSchema,
+  type RecordSettlementPayoutInput,
+  type WarrantySettlementInput,
+} from '@/lib/validations/warranty'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SettlementPreview = Awaited<ReturnType<typeof previewWarrantySettlement>>
+
+export type SettlementBatchRow = Awaited<ReturnType<typeof listWarrantySettlementBatches>>[number]
+
+type SettlementState = {
+  success: boolean
+  message: string
+  errors?: Record<string, string[]>
+}
+
+async function requireAdmin() {
+  const session = await auth()
+  return session?.user && isAdmin(session.user.role) ? session.user : null
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getSettlementPreview(periodEnd: string): Promise<SettlementPreview> {
+  const user = await requireAdmin()
+  if (!user) return { dealers: [], held: [] }
+  return previewWarrantySettlement(new Date(periodEnd))
+}
+
+export async function getSettlementBatches(): Promise<SettlementBatchRow[]> {
+  const user = await requireAdmin()
+  if (!user) return []
+  return listWarrantySettlementBatches()
+}
+
+export async function getStatementHtml(statementId: string): Promise<string | null> {
+  const user = await requireAdmin()
+  if (!user) return null
+  return generateSettlementStatementHtml(statementId).catch(() => null)
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export async function runSettlement(input: WarrantySettlementInput): Promise<SettlementState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = warrantySettlementSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.errors[0]?.message ?? 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    const batch = await runWarrantySettlement(validated.data, user.id)
+
+    revalidatePath('/admin/warranty-settlements')
+    revalidatePath('/warranty')
+    return {
+      success: true,
+      message: `Settlement ${batch.batchNumber} paid ${batch.claimCount} claims to ${batch.statements.length} dealers`,
+    }
+  } catch (error) {
+    console.error('Failed to run warranty settlement:', error)
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to run settlement' }
+  }
+}
+
+export async function recordPayout(input: RecordSettlementPayoutInput): Promise<SettlementState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const validated = recordSettlementPayoutSchema.safeParse(input)
+    if (!validated.success) {
+      return {
+        success: false,
+        message: validated.error.errors[0]?.message ?? 'Validation failed',
+        errors: validated.error.flatten().fieldErrors,
+      }
+    }
+
+    await recordSettlementPayout(validated.data)
+
+    revalidatePath('/admin/warranty-settlements')
+    return { success: true, message: 'Payout recorded' }
+  } catch (error) {
+    console.error('Failed to record settlement payout:', error)
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to record payout' }
+  }
+}
+
+export async function resendStatement(statementId: string): Promise<SettlementState> {
+  try {
+    const user = await requireAdmin()
+    if (!user) {
+      return { success: false, message: 'Unauthorized' }
+    }
+
+    const to = await emailSettlementStatement(statementId)
+
+    revalidatePath('/admin/warranty-settlements')
+    return { success: true, message: `Statement sent to ${to}` }
+  } catch (error) {
+    console.error('Failed to send settlement statement:', error)
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to send statement' }
+  }
+}
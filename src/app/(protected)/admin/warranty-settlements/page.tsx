@@ -0,0 +1,320 @@
+'use client'
+
+import { useState, useEffect, useCallback, useTransition } from 'react'
+import { SETTLEMENT_METHODS, SETTLEMENT_METHOD_LABELS, type SettlementMethod } from '@/lib/warranty-settlement'
+import {
+  getSettlementPreview,
+  getSettlementBatches,
+  getStatementHtml,
+  runSettlement,
+  recordPayout,
+  resendStatement,
+  type SettlementBatchRow,
+  type SettlementPreview,
+} from './actions'
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function formatDate(date: Date | string | null) {
+  return date ? new Date(date).toLocaleDateString() : '-'
+}
+
+// Default to the previous calendar month
+function lastMonth(): { start: string; end: string } {
+  const now = new Date()
+  const start = new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1))
+  const end = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0))
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) }
+}
+
+export default function WarrantySettlementsPage() {
+  const [form, setForm] = useState<{ periodStart: string; periodEnd: string; method: SettlementMethod }>(() => {
+    const period = lastMonth()
+    return { periodStart: period.start, periodEnd: period.end, method: 'credit_memo' }
+  })
+  const [preview, setPreview] = useState<SettlementPreview>({ dealers: [], held: [] })
+  const [batches, setBatches] = useState<SettlementBatchRow[]>([])
+  const [payoutRefs, setPayoutRefs] = useState<Record<string, string>>({})
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPending, startTransition] = useTransition()
+
+  const load = useCallback(async (periodEnd: string) => {
+    try {
+      const [previewResult, batchResult] = await Promise.all([
+        getSettlementPreview(periodEnd),
+        getSettlementBatches(),
+      ])
+      setPreview(previewResult)
+      setBatches(batchResult)
+    } catch (error) {
+      console.error('Failed to load warranty settlements:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // The preview covers claims resolved by the period end
+  useEffect(() => {
+    if (form.periodEnd) load(form.periodEnd)
+  }, [form.periodEnd, load])
+
+  function run(action: () => Promise<{ success: boolean; message: string }>, onSuccess?: () => void) {
+    startTransition(async () => {
+      const result = await action()
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message })
+      if (result.success) {
+        onSuccess?.()
+        await load(form.periodEnd)
+      }
+    })
+  }
+
+  function handleRun() {
+    const total = preview.dealers.reduce((sum, dealer) => sum + dealer.netAmount, 0)
+    if (!confirm(`Pay ${formatCurrency(total)} to ${preview.dealers.length} dealers by ${SETTLEMENT_METHOD_LABELS[form.method]}?`)) return
+    run(() =>
+      runSettlement({
+        periodStart: new Date(form.periodStart),
+        periodEnd: new Date(form.periodEnd),
+        method: form.method,
+      })
+    )
+  }
+
+  function handleRecordPayout(statementId: string) {
+    run(
+      () => recordPayout({ statementId, reference: payoutRefs[statementId] ?? '' }),
+      () => setPayoutRefs({ ...payoutRefs, [statementId]: '' })
+    )
+  }
+
+  async function handlePrint(statementId: string) {
+    const html = await getStatementHtml(statementId)
+    if (!html) {
+      setMessage({ type: 'error', text: 'Statement not found' })
+      return
+    }
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const previewTotal = preview.dealers.reduce((sum, dealer) => sum + dealer.netAmount, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Warranty Settlements</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Pay approved warranty claims resolved by the end of the period, less any part return chargebacks. Each dealer
+          gets one statement, credited against its open invoices or paid by check or ACH. Claims with part returns
+          still open wait for the next run.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-4 text-sm flex items-center justify-between ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)} className="font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* New Settlement */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">New Settlement</h2>
+        </div>
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <label className="block text-sm text-gray-700">
+              Period start
+              <input
+                type="date"
+                value={form.periodStart}
+                onChange={(e) => setForm({ ...form, periodStart: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Period end
+              <input
+                type="date"
+                value={form.periodEnd}
+                onChange={(e) => setForm({ ...form, periodEnd: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Pay by
+              <select
+                value={form.method}
+                onChange={(e) => setForm({ ...form, method: e.target.value as SettlementMethod })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              >
+                {SETTLEMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {SETTLEMENT_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleRun}
+              disabled={isPending || preview.dealers.length === 0}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Run Settlement
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse space-y-4">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded" />
+              ))}
+            </div>
+          ) : preview.dealers.length === 0 ? (
+            <p className="text-sm text-gray-500">No approved claims are ready to settle for this period.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dealer</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Claims</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Approved</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Chargebacks</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {preview.dealers.map((dealer) => (
+                  <tr key={dealer.dealerId}>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {dealer.dealerName} <span className="text-gray-500">({dealer.dealerCode})</span>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{dealer.claimIds.length}</td>
+                    <td className="px-3 py-2 text-sm text-right">{formatCurrency(dealer.approvedAmount)}</td>
+                    <td className="px-3 py-2 text-sm text-right text-red-600">
+                      {dealer.chargebackAmount > 0 ? `(${formatCurrency(dealer.chargebackAmount)})` : '-'}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right font-medium">{formatCurrency(dealer.netAmount)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50">
+                  <td colSpan={4} className="px-3 py-2 text-sm text-right font-medium">Total</td>
+                  <td className="px-3 py-2 text-sm text-right font-bold">{formatCurrency(previewTotal)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {preview.held.length > 0 && (
+            <div className="rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+              <p className="font-medium">Held until their part returns close:</p>
+              <ul className="mt-1 list-disc list-inside">
+                {preview.held.map((hold) => (
+                  <li key={hold.claimId}>
+                    {hold.claimNumber} ({hold.dealerName}): {hold.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Past Settlements */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Settlements</h2>
+        </div>
+        {batches.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No settlements have been run yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {batches.map((batch) => (
+              <div key={batch.id} className="px-6 py-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{batch.batchNumber}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(batch.periodStart)} &ndash; {formatDate(batch.periodEnd)} &middot;{' '}
+                      {SETTLEMENT_METHOD_LABELS[batch.method as SettlementMethod] ?? batch.method} &middot;{' '}
+                      {batch.claimCount} claims
+                    </p>
+                  </div>
+                  <p className="text-sm font-bold text-gray-900">{formatCurrency(batch.totalAmount)}</p>
+                </div>
+                <table className="mt-3 min-w-full divide-y divide-gray-200">
+                  <tbody className="divide-y divide-gray-100">
+                    {batch.statements.map((statement) => (
+                      <tr key={statement.id}>
+                        <td className="px-3 py-2 text-sm text-gray-900">
+                          {statement.dealer.name} <span className="text-gray-500">({statement.dealer.code})</span>
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right">{statement.claimCount} claims</td>
+                        <td className="px-3 py-2 text-sm text-right font-medium">{formatCurrency(statement.netAmount)}</td>
+                        <td className="px-3 py-2 text-sm">
+                          {statement.payoutStatus === 'pending' ? (
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                placeholder="Check / trace #"
+                                value={payoutRefs[statement.id] ?? ''}
+                                onChange={(e) => setPayoutRefs({ ...payoutRefs, [statement.id]: e.target.value })}
+                                className="block w-36 rounded-md border-gray-300 shadow-sm text-sm"
+                              />
+                              <button
+                                onClick={() => handleRecordPayout(statement.id)}
+                                disabled={isPending}
+                                className="text-blue-600 hover:text-blue-800"
+                              >
+                                Mark Paid
+                              </button>
+                            </div>
+                          ) : statement.payoutStatus === 'paid' ? (
+                            <span className="text-green-700">
+                              Paid {formatDate(statement.payoutPaidAt)} ({statement.payoutReference})
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-500">
+                          {statement.emailedAt ? `Emailed ${formatDate(statement.emailedAt)}` : 'Not emailed'}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right whitespace-nowrap space-x-3">
+                          <button onClick={() => handlePrint(statement.id)} className="text-blue-600 hover:text-blue-800">
+                            Print
+                          </button>
+                          <button
+                            onClick={() => run(() => resendStatement(statement.id))}
+                            disabled={isPending}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {statement.emailedAt ? 'Resend' : 'Send'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
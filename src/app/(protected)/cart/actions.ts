@@ -3,6 +3,9 @@
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { getDealerPrices } from '@/lib/services/pricing'
+import { hasPriceChanged, type PriceSource, type ResolvedPrice } from '@/lib/pricing'
 
 // ============================================================================
 // SCHEMAS
@@ -33,7 +36,8 @@ export type CartItemData = {
   productId: string
   sku: string
   name: string
-  price: number
+  price: number // Dealer price at the current quantity
+  listPrice: number
   quantity: number
   maxQuantity: number
   imageUrl: string | null
@@ -57,12 +61,24 @@ export type SavedCartSummary = {
   updatedAt: Date
 }
 
+export type CartLinePrice = {
+  price: number
+  listPrice: number
+  source: PriceSource
+}
+
 type ActionResult<T = void> = {
   success: boolean
   message: string
   data?: T
 }
 
+// Snapshot the dealer price so validation can tell when it moves later
+async function resolveUnitPrice(dealerId: string, productId: string, quantity: number): Promise<number | null> {
+  const prices = await getDealerPrices(dealerId, [{ productId, quantity }])
+  return prices[productId]?.unitPrice ?? null
+}
+
 // ============================================================================
 // GET ACTIVE CART
 // ============================================================================
@@ -113,6 +129,8 @@ export async function getActiveCart(dealerId: string): Promise<CartData | null>
     }
   }
 
+  const prices = await getDealerPrices(cart.dealerId, cart.items)
+
   const items: CartItemData[] = cart.items.map((item: CartItemQueryResult) => {
     const totalStock = item.product.inventory.reduce(
       (sum: number, inv: { quantity: number; reserved: number }) => sum + inv.quantity - inv.reserved,
@@ -123,7 +141,8 @@ export async function getActiveCart(dealerId: string): Promise<CartData | null>
       productId: item.productId,
       sku: item.product.sku,
       name: item.product.name,
-      price: item.product.price,
+      price: prices[item.productId]?.unitPrice ?? item.product.price,
+      listPrice: item.product.price,
       quantity: item.quantity,
       maxQuantity: totalStock,
       imageUrl: item.product.images[0]?.url ?? null,
@@ -221,6 +240,8 @@ export async function getOrCreateCart(dealerId: string, userId?: string): Promis
     }
   }
 
+  const prices = await getDealerPrices(cart.dealerId, cart.items)
+
   const items: CartItemData[] = cart.items.map((item: CartItemQueryResult2) => {
     const totalStock = item.product.inventory.reduce(
       (sum: number, inv: { quantity: number; reserved: number }) => sum + inv.quantity - inv.reserved,
@@ -231,7 +252,8 @@ export async function getOrCreateCart(dealerId: string, userId?: string): Promis
       productId: item.productId,
       sku: item.product.sku,
       name: item.product.name,
-      price: item.product.price,
+      price: prices[item.productId]?.unitPrice ?? item.product.price,
+      listPrice: item.product.price,
       quantity: item.quantity,
       maxQuantity: totalStock,
       imageUrl: item.product.images[0]?.url ?? null,
@@ -330,7 +352,10 @@ export async function addToCart(
 
       await prisma.cartItem.update({
         where: { id: existingItem.id },
-        data: { quantity: newQuantity },
+        data: {
+          quantity: newQuantity,
+          unitPrice: await resolveUnitPrice(dealerId, productId, newQuantity),
+        },
       })
     } else {
       await prisma.cartItem.create({
@@ -338,6 +363,7 @@ export async function addToCart(
           cartId: cart.id,
           productId,
           quantity,
+          unitPrice: await resolveUnitPrice(dealerId, productId, quantity),
         },
       })
     }
@@ -421,12 +447,15 @@ export async function updateCartItemQuantity(
         }
       }
 
+      // A new quantity can cross a price break, so take a fresh snapshot
+      const unitPrice = await resolveUnitPrice(cart.dealerId, productId, quantity)
+
       await prisma.cartItem.upsert({
         where: {
           cartId_productId: { cartId, productId },
         },
-        update: { quantity },
-        create: { cartId, productId, quantity },
+        update: { quantity, unitPrice },
+        create: { cartId, productId, quantity, unitPrice },
       })
     }
 
@@ -552,6 +581,7 @@ export async function syncCart(
           cartId: cart.id,
           productId: item.productId,
           quantity,
+          unitPrice: await resolveUnitPrice(dealerId, item.productId, quantity),
         },
       })
     }
@@ -614,9 +644,10 @@ export async function saveCurrentCart(
         name,
         isSaved: true,
         items: {
-          create: cart.items.map((item: { productId: string; quantity: number }) => ({
+          create: cart.items.map((item: { productId: string; quantity: number; unitPrice: number | null }) => ({
             productId: item.productId,
             quantity: item.quantity,
+            unitPrice: item.unitPrice,
           })),
         },
       },
@@ -630,7 +661,8 @@ export async function saveCurrentCart(
     })
 
     const subtotal = savedCart.items.reduce(
-      (sum: number, item: { product: { price: number }; quantity: number }) => sum + item.product.price * item.quantity,
+      (sum: number, item: { product: { price: number }; quantity: number; unitPrice: number | null }) =>
+        sum + (item.unitPrice ?? item.product.price) * item.quantity,
       0
     )
 
@@ -677,14 +709,15 @@ export async function getSavedCarts(dealerId: string): Promise<SavedCartSummary[
   type SavedCartQueryResult = {
     id: string
     name: string | null
-    items: Array<{ product: { price: number }; quantity: number }>
+    items: Array<{ product: { price: number }; quantity: number; unitPrice: number | null }>
     createdAt: Date
     updatedAt: Date
   }
 
   return carts.map((cart: SavedCartQueryResult) => {
     const subtotal = cart.items.reduce(
-      (sum: number, item: { product: { price: number }; quantity: number }) => sum + item.product.price * item.quantity,
+      (sum: number, item: { product: { price: number }; quantity: number; unitPrice: number | null }) =>
+        sum + (item.unitPrice ?? item.product.price) * item.quantity,
       0
     )
     const itemCount = cart.items.reduce((sum: number, item: { quantity: number }) => sum + item.quantity, 0)
@@ -769,6 +802,7 @@ export async function restoreSavedCart(
           cartId: activeCart.id,
           productId: item.productId,
           quantity,
+          unitPrice: await resolveUnitPrice(dealerId, item.productId, quantity),
         },
       })
     }
@@ -844,22 +878,9 @@ export type CartValidationResult = {
 export async function validateCart(cartId: string): Promise<CartValidationResult> {
   const cart = await prisma.cart.findUnique({
     where: { id: cartId },
-    include: {
-      items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              price: true,
-              status: true,
-              inventory: {
-                select: { quantity: true, reserved: true },
-              },
-            },
-          },
-        },
-      },
+    select: {
+      dealerId: true,
+      items: { select: { productId: true, quantity: true, unitPrice: true } },
     },
   })
 
@@ -867,18 +888,62 @@ export async function validateCart(cartId: string): Promise<CartValidationResult
     return { isValid: false, issues: [] }
   }
 
+  const issues = await findCartIssues(cart.dealerId, cart.items)
+
+  return {
+    isValid: issues.length === 0,
+    issues,
+  }
+}
+
+// Validate the client-side cart, comparing each line's price with the current dealer price
+export async function validateCartItems(
+  dealerId: string | undefined,
+  items: Array<{ productId: string; quantity: number; price: number }>
+): Promise<CartValidationResult> {
+  const session = await auth()
+  const resolvedDealerId = dealerId || session?.user?.dealerId
+  const lines = items.map((item) => ({ productId: item.productId, quantity: item.quantity, unitPrice: item.price }))
+  const issues = await findCartIssues(resolvedDealerId ?? null, lines)
+
+  return {
+    isValid: issues.length === 0,
+    issues,
+  }
+}
+
+async function findCartIssues(
+  dealerId: string | null,
+  lines: Array<{ productId: string; quantity: number; unitPrice: number | null }>
+): Promise<CartValidationResult['issues']> {
+  const [products, prices] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: lines.map((line) => line.productId) } },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        inventory: {
+          select: { quantity: true, reserved: true },
+        },
+      },
+    }),
+    dealerId ? getDealerPrices(dealerId, lines) : ({} as Record<string, ResolvedPrice>),
+  ])
+
+  const productMap = new Map(products.map((p) => [p.id, p]))
   const issues: CartValidationResult['issues'] = []
 
-  for (const item of cart.items) {
-    const product = item.product
+  for (const line of lines) {
+    const product = productMap.get(line.productId)
 
     // Check if product is still active
-    if (product.status !== 'active') {
+    if (!product || product.status !== 'active') {
       issues.push({
-        productId: product.id,
-        productName: product.name,
+        productId: line.productId,
+        productName: product?.name ?? 'Unknown product',
         type: 'unavailable',
-        message: `${product.name} is no longer available`,
+        message: `${product?.name ?? 'A product in your cart'} is no longer available`,
       })
       continue
     }
@@ -895,23 +960,53 @@ export async function validateCart(cartId: string): Promise<CartValidationResult
         productName: product.name,
         type: 'out_of_stock',
         message: `${product.name} is out of stock`,
-        requestedValue: item.quantity,
+        requestedValue: line.quantity,
         currentValue: 0,
       })
-    } else if (available < item.quantity) {
+    } else if (available < line.quantity) {
       issues.push({
         productId: product.id,
         productName: product.name,
         type: 'insufficient_stock',
         message: `Only ${available} units of ${product.name} available`,
-        requestedValue: item.quantity,
+        requestedValue: line.quantity,
         currentValue: available,
       })
     }
-  }
 
-  return {
-    isValid: issues.length === 0,
-    issues,
+    // Flag lines whose contract or tier price moved since they were added
+    const current = prices[product.id]?.unitPrice
+    if (line.unitPrice !== null && current !== undefined && hasPriceChanged(line.unitPrice, current)) {
+      issues.push({
+        productId: product.id,
+        productName: product.name,
+        type: 'price_changed',
+        message: `Price of ${product.name} changed from $${line.unitPrice.toFixed(2)} to $${current.toFixed(2)}`,
+        requestedValue: line.unitPrice,
+        currentValue: current,
+      })
+    }
   }
+
+  return issues
+}
+
+// ============================================================================
+// CART PRICING
+// ============================================================================
+
+// Current dealer prices for cart lines; falls back to the signed-in user's dealer
+export async function getCartPricing(
+  dealerId: string | undefined,
+  items: Array<{ productId: string; quantity: number }>
+): Promise<Record<string, CartLinePrice>> {
+  const session = await auth()
+  const resolvedDealerId = dealerId || session?.user?.dealerId
+  if (!resolvedDealerId) return {}
+
+  const prices = await getDealerPrices(resolvedDealerId, items)
+
+  return Object.fromEntries(
+    Object.values(prices).map((p) => [p.productId, { price: p.unitPrice, listPrice: p.listPrice, source: p.source }])
+  )
 }
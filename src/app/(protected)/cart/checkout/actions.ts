@@ -1,6 +1,7 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
 import {
   createOrder,
   validateOrderItems,
@@ -8,6 +9,10 @@ import {
   type OrderItemInput,
 } from '@/lib/services/order'
 import { sendOrderConfirmationEmail } from '@/lib/services/email'
+import { quoteOrderTotals } from '@/lib/services/tax'
+import { checkDealerCredit, getDealerCreditSummary } from '@/lib/services/credit'
+import type { OrderTotals } from '@/lib/tax'
+import { evaluateCreditCheck, type CreditCheck } from '@/lib/credit'
 
 export type SubmitOrderInput = {
   dealerId: string
@@ -49,6 +54,8 @@ export type SubmitOrderResult = {
   success: boolean
   orderNumber?: string
   orderId?: string
+  creditHold?: boolean
+  pendingApproval?: boolean
   error?: string
   validationIssues?: Array<{
     productId: string
@@ -66,8 +73,8 @@ export async function submitOrder(input: SubmitOrderInput): Promise<SubmitOrderR
       unitPrice: item.price,
     }))
 
-    // Validate items before creating order
-    const validation = await validateOrderItems(orderItems)
+    // Validate items (stock and dealer pricing) before creating order
+    const validation = await validateOrderItems(orderItems, input.dealerId)
     if (!validation.isValid) {
       return {
         success: false,
@@ -80,7 +87,8 @@ export async function submitOrder(input: SubmitOrderInput): Promise<SubmitOrderR
       }
     }
 
-    // Create the order
+    // Create the order; the submitter's role decides whether dealer approval rules apply
+    const session = await auth()
     const result = await createOrder({
       dealerId: input.dealerId,
       items: orderItems,
@@ -91,6 +99,7 @@ export async function submitOrder(input: SubmitOrderInput): Promise<SubmitOrderR
       poNumber: input.poNumber,
       notes: input.notes,
       paymentMethod: input.paymentMethod.type,
+      submittedBy: session?.user ? { id: session.user.id, role: session.user.role } : undefined,
     })
 
     if (!result.success) {
@@ -120,6 +129,8 @@ export async function submitOrder(input: SubmitOrderInput): Promise<SubmitOrderR
       success: true,
       orderNumber: result.orderNumber,
       orderId: result.orderId,
+      creditHold: result.creditHold,
+      pendingApproval: result.pendingApproval,
     }
   } catch (error) {
     console.error('Submit order error:', error)
@@ -193,7 +204,9 @@ export async function getOrderDetails(orderNumber: string) {
 }
 
 export async function validateCheckout(
-  items: Array<{ productId: string; quantity: number; price: number }>
+  items: Array<{ productId: string; quantity: number; price: number }>,
+  dealerId?: string,
+  paymentMethod?: SubmitOrderInput['paymentMethod']['type']
 ) {
   const orderItems: OrderItemInput[] = items.map((item) => ({
     productId: item.productId,
@@ -201,10 +214,18 @@ export async function validateCheckout(
     unitPrice: item.price,
   }))
 
-  const validation = await validateOrderItems(orderItems)
+  const validation = await validateOrderItems(orderItems, dealerId)
+
+  // Orders on terms are checked against the dealer's credit limit and aging
+  let credit: CreditCheck | null = null
+  if (dealerId && paymentMethod) {
+    const totals = await quoteOrderTotals({ dealerId, items: orderItems, shippingAddress: null })
+    credit = await checkDealerCredit(dealerId, totals.totalAmount, paymentMethod)
+  }
 
   return {
-    isValid: validation.isValid,
+    isValid: validation.isValid && credit?.decision !== 'blocked',
+    credit,
     issues: validation.issues.map((issue) => ({
       productId: issue.productId,
       productName: issue.productName,
@@ -213,3 +234,51 @@ export async function validateCheckout(
     })),
   }
 }
+
+// Quote totals with destination tax for the review step (before submit)
+export async function getCheckoutTotals(input: {
+  dealerId: string
+  items: Array<{ productId: string; quantity: number; price: number }>
+  shippingAddress: { state: string; zipCode: string } | null
+}): Promise<OrderTotals> {
+  return quoteOrderTotals({
+    dealerId: input.dealerId,
+    items: input.items.map((item) => ({
+      quantity: item.quantity,
+      unitPrice: item.price,
+    })),
+    shippingAddress: input.shippingAddress,
+  })
+}
+
+export type CheckoutCreditStatus = {
+  paymentTerms: string
+  paymentTermsDays: number
+  creditLimit: number | null
+  availableCredit: number | null
+  check: CreditCheck
+}
+
+// Dealer terms and what a terms order of this size would run into
+export async function getCheckoutCredit(
+  dealerId: string,
+  orderTotal: number
+): Promise<CheckoutCreditStatus | null> {
+  const summary = await getDealerCreditSummary(dealerId)
+  if (!summary) return null
+
+  return {
+    paymentTerms: summary.paymentTerms,
+    paymentTermsDays: summary.paymentTermsDays,
+    creditLimit: summary.creditLimit,
+    availableCredit: summary.availableCredit,
+    check: evaluateCreditCheck({
+      paymentMethod: 'credit_terms',
+      orderTotal,
+      creditLimit: summary.creditLimit,
+      creditHoldAction: summary.creditHoldAction,
+      aging: summary.aging,
+      openOrderExposure: summary.openOrderExposure,
+    }),
+  }
+}
@@ -80,6 +80,20 @@ export default function ConfirmationPage() {
           processing it shortly.
         </p>
 
+        {order?.status === 'pending_approval' && (
+          <div className="alert-warning text-left mb-6">
+            This order needs approval within your dealership before it is submitted. Your
+            approvers have been notified.
+          </div>
+        )}
+
+        {order?.status === 'credit_hold' && (
+          <div className="alert-warning text-left mb-6">
+            This order is on credit hold while our credit team reviews your account. It will
+            be confirmed once the hold is released.
+          </div>
+        )}
+
         {/* Order Number */}
         <div className="bg-light-beige rounded-lg p-6 mb-8 inline-block">
           <p className="text-sm text-medium-gray mb-1">Order Number</p>
@@ -4,11 +4,14 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useCartStore } from '@/lib/stores/cart'
+import { useCartPricing } from '@/hooks/useCartPricing'
 import { CartReviewStep } from './steps/CartReviewStep'
 import { ShippingAddressStep } from './steps/ShippingAddressStep'
 import { PaymentStep } from './steps/PaymentStep'
 import { ReviewConfirmStep } from './steps/ReviewConfirmStep'
-import { submitOrder } from './actions'
+import { TaxBreakdownRows } from '@/components/cart/TaxBreakdownRows'
+import { calculateShipping, type OrderTotals } from '@/lib/tax'
+import { submitOrder, getCheckoutTotals, getCheckoutCredit, type CheckoutCreditStatus } from './actions'
 
 export type CheckoutStep = 'cart' | 'shipping' | 'payment' | 'review'
 
@@ -62,6 +65,9 @@ export default function CheckoutPage() {
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [totals, setTotals] = useState<OrderTotals | null>(null)
+  const [credit, setCredit] = useState<CheckoutCreditStatus | null>(null)
+  const { changes: priceChanges, acceptPriceChanges } = useCartPricing()
 
   useEffect(() => {
     setMounted(true)
@@ -69,6 +75,57 @@ export default function CheckoutPage() {
 
   const itemCount = mounted ? getItemCount() : 0
   const subtotal = mounted ? getSubtotal() : 0
+  const shippingAddress = checkoutData.shippingAddress
+
+  // Re-quote destination tax whenever the ship-to address or cart changes
+  useEffect(() => {
+    if (!mounted || !shippingAddress) {
+      setTotals(null)
+      return
+    }
+
+    let cancelled = false
+    getCheckoutTotals({
+      dealerId: cart.dealerId || 'demo-dealer',
+      items: cart.items.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: item.price,
+      })),
+      shippingAddress: { state: shippingAddress.state, zipCode: shippingAddress.zipCode },
+    })
+      .then((result) => {
+        if (!cancelled) setTotals(result)
+      })
+      .catch(() => {
+        if (!cancelled) setTotals(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [mounted, shippingAddress, cart.dealerId, cart.items])
+
+  const shippingAmount = totals?.shippingAmount ?? calculateShipping(subtotal)
+  const orderTotal = totals?.totalAmount ?? subtotal + shippingAmount
+
+  // Check the dealer's terms and available credit against this order
+  useEffect(() => {
+    if (!mounted) return
+
+    let cancelled = false
+    getCheckoutCredit(cart.dealerId || 'demo-dealer', orderTotal)
+      .then((result) => {
+        if (!cancelled) setCredit(result)
+      })
+      .catch(() => {
+        if (!cancelled) setCredit(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [mounted, cart.dealerId, orderTotal])
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -257,6 +314,23 @@ export default function CheckoutPage() {
         </div>
       )}
 
+      {/* Price Changes */}
+      {priceChanges.length > 0 && (
+        <div className="alert-warning">
+          <p className="font-medium mb-2">Your pricing changed since these items were added:</p>
+          <ul className="list-disc list-inside space-y-1">
+            {priceChanges.map((change) => (
+              <li key={change.productId}>
+                {change.name}: ${change.previousPrice.toFixed(2)} → ${change.currentPrice.toFixed(2)}
+              </li>
+            ))}
+          </ul>
+          <button onClick={acceptPriceChanges} className="mt-2 underline">
+            Update to current prices
+          </button>
+        </div>
+      )}
+
       {/* Step Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
@@ -279,6 +353,7 @@ export default function CheckoutPage() {
           {currentStep === 'payment' && (
             <PaymentStep
               selectedMethod={checkoutData.paymentMethod}
+              credit={credit}
               poNumber={checkoutData.poNumber}
               notes={checkoutData.notes}
               onSelect={(method) => updateCheckoutData({ paymentMethod: method })}
@@ -294,6 +369,7 @@ export default function CheckoutPage() {
               items={cart.items}
               checkoutData={checkoutData}
               subtotal={subtotal}
+              totals={totals}
               isSubmitting={isSubmitting}
               onSubmit={handleSubmitOrder}
               onBack={prevStep}
@@ -328,14 +404,18 @@ export default function CheckoutPage() {
                   <span className="text-medium-gray">Subtotal ({itemCount} items)</span>
                   <span className="text-charcoal">${subtotal.toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-medium-gray">Estimated Tax</span>
-                  <span className="text-charcoal">${(subtotal * 0.08).toFixed(2)}</span>
-                </div>
+                {totals ? (
+                  <TaxBreakdownRows tax={totals.tax} taxAmount={totals.taxAmount} />
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-medium-gray">Estimated Tax</span>
+                    <span className="text-charcoal">Calculated at shipping</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-medium-gray">Shipping</span>
                   <span className="text-charcoal">
-                    {subtotal > 500 ? 'FREE' : '$25.00'}
+                    {shippingAmount === 0 ? 'FREE' : `$${shippingAmount.toFixed(2)}`}
                   </span>
                 </div>
               </div>
@@ -344,7 +424,7 @@ export default function CheckoutPage() {
                 <div className="flex justify-between">
                   <span className="text-lg font-medium">Estimated Total</span>
                   <span className="text-xl font-heading font-bold text-charcoal">
-                    ${(subtotal + subtotal * 0.08 + (subtotal > 500 ? 0 : 25)).toFixed(2)}
+                    ${(totals?.totalAmount ?? subtotal + shippingAmount).toFixed(2)}
                   </span>
                 </div>
               </div>
@@ -52,6 +52,9 @@ export function CartReviewStep({ items, onNext }: Props) {
               <p className="text-sm text-medium-gray">{item.sku}</p>
               <p className="text-sm text-medium-gray mt-1">
                 ${item.price.toFixed(2)} x {item.quantity}
+                {item.listPrice !== undefined && item.listPrice > item.price && (
+                  <span className="ml-2 line-through">${item.listPrice.toFixed(2)}</span>
+                )}
               </p>
             </div>
 
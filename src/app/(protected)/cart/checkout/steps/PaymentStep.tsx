@@ -1,9 +1,11 @@
 'use client'
 
 import { type PaymentMethod } from '../page'
+import type { CheckoutCreditStatus } from '../actions'
 
 type Props = {
   selectedMethod: PaymentMethod | null
+  credit: CheckoutCreditStatus | null
   poNumber: string
   notes: string
   onSelect: (method: PaymentMethod) => void
@@ -13,13 +15,8 @@ type Props = {
   onBack: () => void
 }
 
-// Available payment methods for B2B dealers
-const paymentMethods: PaymentMethod[] = [
-  {
-    type: 'credit_terms',
-    label: 'Net 30 Credit Terms',
-    details: 'Pay within 30 days of invoice date',
-  },
+// Payment methods that don't draw on the dealer's credit line
+const prepaidMethods: PaymentMethod[] = [
   {
     type: 'credit_card',
     label: 'Credit Card',
@@ -32,8 +29,23 @@ const paymentMethods: PaymentMethod[] = [
   },
 ]
 
+// Available payment methods for B2B dealers; credit terms follow the dealer's account
+function getPaymentMethods(credit: CheckoutCreditStatus | null): PaymentMethod[] {
+  const termsDays = credit?.paymentTermsDays ?? 30
+  return [
+    {
+      type: 'credit_terms',
+      label: `${credit?.paymentTerms ?? 'Net 30'} Credit Terms`,
+      details:
+        termsDays > 0 ? `Pay within ${termsDays} days of invoice date` : 'Payment due on receipt of invoice',
+    },
+    ...prepaidMethods,
+  ]
+}
+
 export function PaymentStep({
   selectedMethod,
+  credit,
   poNumber,
   notes,
   onSelect,
@@ -42,12 +54,19 @@ export function PaymentStep({
   onNext,
   onBack,
 }: Props) {
+  const paymentMethods = getPaymentMethods(credit)
+  const termsBlocked = credit?.check.decision === 'blocked'
+
   function handleContinue() {
-    if (selectedMethod) {
+    if (selectedMethod && !(selectedMethod.type === 'credit_terms' && termsBlocked)) {
       onNext()
     }
   }
 
+  function formatCurrency(amount: number) {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+  }
+
   return (
     <div className="card">
       <div className="card-header">
@@ -63,16 +82,19 @@ export function PaymentStep({
           {paymentMethods.map((method) => (
             <label
               key={method.type}
-              className={`relative flex cursor-pointer rounded-lg border p-4 transition-colors ${
-                selectedMethod?.type === method.type
-                  ? 'border-olive bg-success-light'
-                  : 'border-light-gray hover:border-olive'
+              className={`relative flex rounded-lg border p-4 transition-colors ${
+                method.type === 'credit_terms' && termsBlocked
+                  ? 'cursor-not-allowed border-light-gray opacity-60'
+                  : selectedMethod?.type === method.type
+                    ? 'cursor-pointer border-olive bg-success-light'
+                    : 'cursor-pointer border-light-gray hover:border-olive'
               }`}
             >
               <input
                 type="radio"
                 name="payment-method"
                 checked={selectedMethod?.type === method.type}
+                disabled={method.type === 'credit_terms' && termsBlocked}
                 onChange={() => onSelect(method)}
                 className="sr-only"
               />
@@ -96,6 +118,11 @@ export function PaymentStep({
                   <div>
                     <span className="font-medium text-charcoal">{method.label}</span>
                     <p className="text-sm text-medium-gray">{method.details}</p>
+                    {method.type === 'credit_terms' && credit?.availableCredit != null && (
+                      <p className="text-sm text-medium-gray">
+                        Available credit: {formatCurrency(credit.availableCredit)}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -114,6 +141,22 @@ export function PaymentStep({
           ))}
         </div>
 
+        {/* Credit check - terms orders over the limit or with past-due invoices */}
+        {credit && credit.check.decision !== 'approved' && (
+          <div className={termsBlocked ? 'alert-error' : 'alert-warning'}>
+            <p className="font-medium">
+              {termsBlocked
+                ? 'Credit terms are unavailable for this order. Please choose another payment method.'
+                : 'Orders placed on credit terms will be held for credit review before they are confirmed.'}
+            </p>
+            <ul className="mt-1 list-disc pl-5 text-sm">
+              {credit.check.reasons.map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Credit Card Form - shown when credit card is selected */}
         {selectedMethod?.type === 'credit_card' && (
           <div className="bg-light-beige rounded-lg p-4">
@@ -162,7 +205,7 @@ export function PaymentStep({
         </button>
         <button
           onClick={handleContinue}
-          disabled={!selectedMethod}
+          disabled={!selectedMethod || (selectedMethod.type === 'credit_terms' && termsBlocked)}
           className="btn-primary px-8 disabled:opacity-50"
         >
           Review Order
@@ -1,12 +1,15 @@
 'use client'
 
 import { type CartItem } from '@/lib/stores/cart'
+import { type OrderTotals } from '@/lib/tax'
+import { TaxBreakdownRows } from '@/components/cart/TaxBreakdownRows'
 import { type CheckoutData, type CheckoutStep } from '../page'
 
 type Props = {
   items: CartItem[]
   checkoutData: CheckoutData
   subtotal: number
+  totals: OrderTotals | null
   isSubmitting: boolean
   onSubmit: () => void
   onBack: () => void
@@ -17,6 +20,7 @@ export function ReviewConfirmStep({
   items,
   checkoutData,
   subtotal,
+  totals,
   isSubmitting,
   onSubmit,
   onBack,
@@ -24,10 +28,8 @@ export function ReviewConfirmStep({
 }: Props) {
   const { shippingAddress, paymentMethod, poNumber, notes } = checkoutData
 
-  const taxRate = 0.08
-  const tax = subtotal * taxRate
-  const shipping = subtotal > 500 ? 0 : 25
-  const total = subtotal + tax + shipping
+  const shipping = totals?.shippingAmount ?? 0
+  const total = totals?.totalAmount ?? subtotal
 
   return (
     <div className="space-y-6">
@@ -177,10 +179,14 @@ export function ReviewConfirmStep({
             <span className="text-medium-gray">Subtotal</span>
             <span className="text-charcoal">${subtotal.toFixed(2)}</span>
           </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-medium-gray">Tax (8%)</span>
-            <span className="text-charcoal">${tax.toFixed(2)}</span>
-          </div>
+          {totals ? (
+            <TaxBreakdownRows tax={totals.tax} taxAmount={totals.taxAmount} />
+          ) : (
+            <div className="flex justify-between text-sm">
+              <span className="text-medium-gray">Tax</span>
+              <span className="text-medium-gray">Calculating...</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span className="text-medium-gray">
               Shipping
@@ -223,7 +229,7 @@ export function ReviewConfirmStep({
         </button>
         <button
           onClick={onSubmit}
-          disabled={isSubmitting || !shippingAddress || !paymentMethod}
+          disabled={isSubmitting || !shippingAddress || !paymentMethod || !totals}
           className="btn-primary px-8 py-3 disabled:opacity-50"
         >
           {isSubmitting ? (
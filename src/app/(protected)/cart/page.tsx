@@ -3,8 +3,17 @@
 import { useState, useEffect, useTransition } from 'react'
 import Link from 'next/link'
 import { useCartStore } from '@/lib/stores/cart'
+import { useCartPricing } from '@/hooks/useCartPricing'
 import { CartItemRow } from '@/components/cart/CartItemRow'
-import { validateCart, saveCurrentCart, getSavedCarts, restoreSavedCart, type SavedCartSummary } from './actions'
+import { calculateShipping } from '@/lib/tax'
+import {
+  validateCart,
+  validateCartItems,
+  saveCurrentCart,
+  getSavedCarts,
+  restoreSavedCart,
+  type SavedCartSummary,
+} from './actions'
 
 export default function CartPage() {
   const { cart, clearCart, getItemCount, getSubtotal } = useCartStore()
@@ -15,6 +24,7 @@ export default function CartPage() {
   const [showSaveModal, setShowSaveModal] = useState(false)
   const [savedCarts, setSavedCarts] = useState<SavedCartSummary[]>([])
   const [saveName, setSaveName] = useState('')
+  const { changes: priceChanges, acceptPriceChanges } = useCartPricing()
 
   useEffect(() => {
     setMounted(true)
@@ -23,17 +33,18 @@ export default function CartPage() {
   const itemCount = mounted ? getItemCount() : 0
   const subtotal = mounted ? getSubtotal() : 0
 
-  // Estimated values (would be calculated based on dealer settings)
-  const taxRate = 0.08 // 8%
-  const estimatedTax = subtotal * taxRate
-  const shippingEstimate = subtotal > 500 ? 0 : 25 // Free shipping over $500
-  const estimatedTotal = subtotal + estimatedTax + shippingEstimate
+  // Tax depends on the ship-to address, so it is quoted at checkout
+  const shippingEstimate = calculateShipping(subtotal)
+  const estimatedTotal = subtotal + shippingEstimate
 
   async function handleValidate() {
-    if (!cart.id) return
-
     startTransition(async () => {
-      const result = await validateCart(cart.id!)
+      const result = cart.id
+        ? await validateCart(cart.id)
+        : await validateCartItems(
+            cart.dealerId,
+            cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity, price: item.price }))
+          )
       if (!result.isValid) {
         setValidationIssues(result.issues.map((i) => i.message))
       } else {
@@ -152,6 +163,23 @@ export default function CartPage() {
         </div>
       )}
 
+      {/* Price Changes */}
+      {priceChanges.length > 0 && (
+        <div className="alert-warning">
+          <p className="font-medium mb-2">Your pricing changed since these items were added:</p>
+          <ul className="list-disc list-inside space-y-1">
+            {priceChanges.map((change) => (
+              <li key={change.productId}>
+                {change.name}: ${change.previousPrice.toFixed(2)} → ${change.currentPrice.toFixed(2)}
+              </li>
+            ))}
+          </ul>
+          <button onClick={acceptPriceChanges} className="mt-2 underline">
+            Update to current prices
+          </button>
+        </div>
+      )}
+
       {itemCount === 0 ? (
         /* Empty Cart */
         <div className="card">
@@ -200,13 +228,18 @@ export default function CartPage() {
                           {saved.itemCount} items - ${saved.subtotal.toFixed(2)}
                         </p>
                       </div>
-                      <button
-                        onClick={() => handleRestoreCart(saved.id)}
-                        disabled={isPending}
-                        className="btn-primary btn-sm"
-                      >
-                        Restore
-                      </button>
+                      <div className="flex gap-2">
+                        <Link href={`/orders/schedules?cart=${saved.id}`} className="btn-outline btn-sm">
+                          Schedule
+                        </Link>
+                        <button
+                          onClick={() => handleRestoreCart(saved.id)}
+                          disabled={isPending}
+                          className="btn-primary btn-sm"
+                        >
+                          Restore
+                        </button>
+                      </div>
                     </li>
                   ))}
                 </ul>
@@ -279,8 +312,8 @@ export default function CartPage() {
                   <span className="text-charcoal">${subtotal.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-medium-gray">Estimated Tax (8%)</span>
-                  <span className="text-charcoal">${estimatedTax.toFixed(2)}</span>
+                  <span className="text-medium-gray">Tax</span>
+                  <span className="text-medium-gray">Calculated at checkout</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-medium-gray">
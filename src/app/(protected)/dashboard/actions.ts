@@ -49,9 +49,12 @@ export type LowStockAlert = {
 
 const ORDER_STATUSES = {
   draft: { label: 'Draft', color: 'gray' },
+  pending_approval: { label: 'Pending Approval', color: 'yellow' },
   submitted: { label: 'Submitted', color: 'blue' },
+  credit_hold: { label: 'Credit Hold', color: 'orange' },
   confirmed: { label: 'Confirmed', color: 'olive' },
   processing: { label: 'Processing', color: 'yellow' },
+  partially_shipped: { label: 'Partially Shipped', color: 'purple' },
   shipped: { label: 'Shipped', color: 'purple' },
   delivered: { label: 'Delivered', color: 'green' },
   cancelled: { label: 'Cancelled', color: 'red' },
@@ -85,7 +88,7 @@ export async function getDashboardStats(dealerId: string): Promise<DashboardStat
     prisma.order.count({
       where: {
         dealerId,
-        status: { in: ['submitted', 'confirmed', 'processing'] },
+        status: { in: ['pending_approval', 'submitted', 'credit_hold', 'confirmed', 'processing', 'partially_shipped'] },
       },
     }),
     // This month's orders
@@ -22,6 +22,7 @@ const statusColors: Record<string, string> = {
   blue: 'bg-blue-100 text-blue-800',
   olive: 'bg-olive/10 text-olive',
   yellow: 'bg-yellow-100 text-yellow-800',
+  orange: 'bg-orange-100 text-orange-800',
   purple: 'bg-purple-100 text-purple-800',
   green: 'bg-green-100 text-green-800',
   red: 'bg-red-100 text-red-800',
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useTransition, use } from 'react'
 import Link from 'next/link'
+import { TaxBreakdownRows } from '@/components/cart/TaxBreakdownRows'
 import {
   getInvoice,
   getInvoiceHtml,
@@ -145,7 +146,10 @@ export default function InvoiceDetailPage({
             <span>{invoice.invoiceNumber}</span>
           </nav>
           <h1 className="page-title">Invoice {invoice.invoiceNumber}</h1>
-          <p className="page-subtitle">Order: {invoice.orderNumber}</p>
+          <p className="page-subtitle">
+            Order: {invoice.orderNumber}
+            {invoice.shipmentNumber && <> · Shipment: {invoice.shipmentNumber}</>}
+          </p>
         </div>
         <div className="flex gap-3">
           <button onClick={handlePrint} disabled={isPending} className="btn-outline">
@@ -327,7 +331,14 @@ export default function InvoiceDetailPage({
                       <td className="px-4 py-4 font-medium text-charcoal">{item.description}</td>
                       <td className="px-4 py-4 text-sm text-medium-gray">{item.sku}</td>
                       <td className="px-4 py-4 text-center">{item.quantity}</td>
-                      <td className="px-4 py-4 text-right">${item.unitPrice.toFixed(2)}</td>
+                      <td className="px-4 py-4 text-right">
+                        ${item.unitPrice.toFixed(2)}
+                        {item.listPrice && item.listPrice > item.unitPrice && (
+                          <span className="block text-xs text-medium-gray line-through">
+                            ${item.listPrice.toFixed(2)}
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-4 text-right font-medium">${item.totalPrice.toFixed(2)}</td>
                     </tr>
                   ))}
@@ -349,19 +360,28 @@ export default function InvoiceDetailPage({
                 <span className="text-medium-gray">Subtotal</span>
                 <span>${invoice.subtotal.toFixed(2)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-medium-gray">Tax</span>
-                <span>${invoice.taxAmount.toFixed(2)}</span>
-              </div>
+              <TaxBreakdownRows tax={invoice.taxBreakdown} taxAmount={invoice.taxAmount} />
               <div className="flex justify-between text-sm">
                 <span className="text-medium-gray">Shipping</span>
                 <span>
                   {invoice.shippingAmount === 0 ? 'FREE' : '$' + invoice.shippingAmount.toFixed(2)}
                 </span>
               </div>
+              {invoice.creditedAmount > 0 && (
+                <>
+                  <div className="flex justify-between text-sm border-t border-light-gray pt-4">
+                    <span className="text-medium-gray">Total</span>
+                    <span>${invoice.totalAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-medium-gray">Credits Applied</span>
+                    <span className="text-olive">-${invoice.creditedAmount.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between font-bold text-lg border-t border-light-gray pt-4">
                 <span>Total Due</span>
-                <span className="text-olive">${invoice.totalAmount.toFixed(2)}</span>
+                <span className="text-olive">${invoice.balanceDue.toFixed(2)}</span>
               </div>
             </div>
           </div>
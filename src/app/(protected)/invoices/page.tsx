@@ -9,6 +9,8 @@ import {
   type InvoiceData,
 } from './actions'
 import { INVOICE_STATUSES } from '@/lib/invoice-statuses'
+import { agingBucketLabels, agingBucketColors } from '@/lib/credit-constants'
+import type { ArAging, AgingBucket } from '@/lib/credit'
 
 type InvoiceWithLabels = InvoiceData & {
   statusLabel: string
@@ -20,6 +22,7 @@ type InvoiceStats = {
   pendingInvoices: number
   overdueInvoices: number
   totalAmount: number
+  aging: ArAging
 }
 
 const statusColors: Record<string, string> = {
@@ -145,6 +148,28 @@ export default function InvoicesPage() {
         </div>
       )}
 
+      {/* Receivables Aging */}
+      {stats && stats.aging.totalOutstanding > 0 && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h2 className="text-lg font-heading font-semibold">Account Aging</h2>
+            <p className="text-sm text-medium-gray">
+              Outstanding: ${stats.aging.totalOutstanding.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </p>
+          </div>
+          <div className="card-body grid grid-cols-2 md:grid-cols-5 gap-4">
+            {(Object.keys(agingBucketLabels) as AgingBucket[]).map((bucket) => (
+              <div key={bucket}>
+                <p className="text-sm text-medium-gray">{agingBucketLabels[bucket]}</p>
+                <p className={`text-lg font-heading font-bold ${agingBucketColors[bucket]}`}>
+                  ${stats.aging[bucket].toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="card">
         <div className="card-body">
@@ -86,6 +86,8 @@ function NotificationIcon({ type, color }: { type: string; color: string }) {
     truck:
       'M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0',
     'check-circle': 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z',
+    refresh:
+      'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
     'alert-triangle':
       'M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z',
     'alert-circle': 'M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
@@ -306,6 +308,9 @@ export default function NotificationsPage() {
             <option value="order_update">Order Updates</option>
             <option value="order_shipped">Order Shipped</option>
             <option value="order_delivered">Order Delivered</option>
+            <option value="order_approval">Order Approvals</option>
+            <option value="recurring_order">Recurring Orders</option>
+            <option value="return_update">Returns</option>
             <option value="low_stock">Low Stock</option>
             <option value="invoice_created">Invoices</option>
             <option value="announcement">Announcements</option>
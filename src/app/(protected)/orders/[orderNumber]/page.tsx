@@ -4,7 +4,15 @@ import { useState, useEffect, useTransition, use } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
-import { getOrder, getOrderStatusHistory, cancelDealerOrder, reorderItems, ORDER_STATUSES, type OrderStatus } from '../actions'
+import {
+  getOrder,
+  getOrderStatusHistory,
+  cancelDealerOrder,
+  submitDealerDraftOrder,
+  reorderItems,
+  ORDER_STATUSES,
+  type OrderStatus,
+} from '../actions'
 import { useCartStore } from '@/lib/stores/cart'
 
 type OrderDetail = {
@@ -29,9 +37,24 @@ type OrderDetail = {
       images: string[] | null
     }
     quantity: number
+    shippedQuantity: number
+    backorderedQuantity: number
     unitPrice: number
     totalPrice: number
   }>
+  shipments: Array<{
+    id: string
+    shipmentNumber: string
+    carrier: string | null
+    trackingNumber: string | null
+    shippedAt: string
+    items: Array<{
+      id: string
+      quantity: number
+      orderItem: { product: { name: string; sku: string } }
+    }>
+    invoices: Array<{ invoiceNumber: string }>
+  }>
   dealer: {
     id: string
     name: string
@@ -60,9 +83,12 @@ type StatusHistoryEntry = {
 
 const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-yellow-100 text-yellow-800',
   submitted: 'bg-blue-100 text-blue-800',
+  credit_hold: 'bg-orange-100 text-orange-800',
   confirmed: 'bg-olive/10 text-olive',
   processing: 'bg-yellow-100 text-yellow-800',
+  partially_shipped: 'bg-purple-100 text-purple-800',
   shipped: 'bg-purple-100 text-purple-800',
   delivered: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
@@ -118,6 +144,27 @@ export default function OrderDetailPage({ params }: { params: Promise<{ orderNum
     })
   }
 
+  async function handleSubmitDraft() {
+    if (!order) return
+
+    startTransition(async () => {
+      const result = await submitDealerDraftOrder(order.id)
+      if (result.success) {
+        setMessage({
+          type: 'success',
+          text: result.pendingApproval
+            ? 'Order submitted and waiting for approval'
+            : result.creditHold
+              ? 'Order submitted and placed on credit hold for review'
+              : 'Order submitted',
+        })
+        loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to submit order' })
+      }
+    })
+  }
+
   async function handleReorder() {
     if (!order) return
 
@@ -174,6 +221,10 @@ export default function OrderDetailPage({ params }: { params: Promise<{ orderNum
 
   function getCurrentStepIndex(status: string) {
     if (status === 'cancelled') return -1
+    // Still processing until the last shipment leaves
+    if (status === 'partially_shipped') return statusSteps.indexOf('processing')
+    // Held and unapproved orders haven't been confirmed yet
+    if (status === 'credit_hold' || status === 'pending_approval') return statusSteps.indexOf('submitted')
     return statusSteps.indexOf(status)
   }
 
@@ -201,7 +252,7 @@ export default function OrderDetailPage({ params }: { params: Promise<{ orderNum
 
   const shippingAddress = parseAddress(order.shippingAddress)
   const currentStepIndex = getCurrentStepIndex(order.status)
-  const canCancel = ['draft', 'submitted', 'confirmed'].includes(order.status)
+  const canCancel = ['draft', 'pending_approval', 'submitted', 'credit_hold', 'confirmed'].includes(order.status)
 
   return (
     <div className="space-y-6">
@@ -219,9 +270,19 @@ export default function OrderDetailPage({ params }: { params: Promise<{ orderNum
           {order.poNumber && <p className="page-subtitle">PO: {order.poNumber}</p>}
         </div>
         <div className="flex gap-3">
+          {order.status === 'draft' && (
+            <button onClick={handleSubmitDraft} disabled={isPending} className="btn-primary">
+              Submit Order
+            </button>
+          )}
           <button onClick={handleReorder} disabled={isPending} className="btn-outline">
             Reorder
           </button>
+          {order.status === 'delivered' && (
+            <Link href={`/returns/new?order=${order.orderNumber}`} className="btn-outline">
+              Request Return
+            </Link>
+          )}
           {canCancel && (
             <button
               onClick={() => setShowCancelModal(true)}
@@ -369,12 +430,66 @@ export default function OrderDetailPage({ params }: { params: Promise<{ orderNum
                         ${item.totalPrice.toFixed(2)}
                       </span>
                     </div>
+                    {(item.shippedQuantity > 0 || item.backorderedQuantity > 0) && (
+                      <p className="mt-1 text-xs text-medium-gray">
+                        Shipped {item.shippedQuantity} of {item.quantity}
+                        {item.backorderedQuantity > 0 && (
+                          <span className="text-burnt-orange"> · {item.backorderedQuantity} on backorder</span>
+                        )}
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
           </div>
 
+          {/* Shipments */}
+          {order.shipments.length > 0 && (
+            <div className="card mt-6">
+              <div className="card-header">
+                <h2 className="text-lg font-heading font-semibold">Shipments</h2>
+              </div>
+              <div className="divide-y divide-light-gray">
+                {order.shipments.map((shipment) => (
+                  <div key={shipment.id} className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-charcoal">Packing slip {shipment.shipmentNumber}</p>
+                        <p className="text-sm text-medium-gray">
+                          Shipped {formatDate(shipment.shippedAt)}
+                          {shipment.carrier && ` via ${shipment.carrier}`}
+                        </p>
+                        {shipment.trackingNumber && (
+                          <p className="text-sm text-medium-gray">Tracking: {shipment.trackingNumber}</p>
+                        )}
+                      </div>
+                      {shipment.invoices[0] && (
+                        <Link
+                          href={`/invoices/${shipment.invoices[0].invoiceNumber}`}
+                          className="text-sm text-olive hover:underline"
+                        >
+                          Invoice {shipment.invoices[0].invoiceNumber}
+                        </Link>
+                      )}
+                    </div>
+                    <ul className="text-sm text-charcoal">
+                      {shipment.items.map((line) => (
+                        <li key={line.id} className="flex justify-between">
+                          <span>
+                            {line.orderItem.product.name}{' '}
+                            <span className="text-medium-gray">({line.orderItem.product.sku})</span>
+                          </span>
+                          <span>× {line.quantity}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Status History */}
           <div className="card mt-6">
             <div className="card-header">
@@ -2,7 +2,10 @@
 
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
 import {
+  submitDraftOrder,
   getOrderById,
   getOrderByNumber,
   updateOrderStatus,
@@ -74,6 +77,33 @@ export async function cancelDealerOrder(
   return result
 }
 
+// Submit a draft order (e.g. one created by a recurring schedule) for the signed-in dealer
+export async function submitDealerDraftOrder(
+  orderId: string
+): Promise<{ success: boolean; pendingApproval?: boolean; creditHold?: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId || session.user.role === 'readonly') {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: orderId }, select: { dealerId: true } })
+  if (!order || order.dealerId !== session.user.dealerId) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  const result = await submitDraftOrder(orderId, { id: session.user.id, role: session.user.role })
+  if (result.success) {
+    revalidatePath('/orders')
+  }
+
+  return {
+    success: result.success,
+    pendingApproval: result.pendingApproval,
+    creditHold: result.creditHold,
+    error: result.error,
+  }
+}
+
 // Get orders for dealer
 export async function getOrdersForDealer(
   dealerId: string,
@@ -245,9 +275,12 @@ async function sendOrderStatusUpdateEmail(
 
   const statusMessages: Record<OrderStatus, string> = {
     draft: 'Your order has been saved as a draft.',
+    pending_approval: 'Your order is waiting for approval within your dealership.',
     submitted: 'Your order has been submitted and is being reviewed.',
+    credit_hold: 'Your order is on credit hold pending a review of your account.',
     confirmed: 'Your order has been confirmed and will be processed shortly.',
     processing: 'Your order is now being processed and prepared for shipment.',
+    partially_shipped: 'Part of your order has shipped. The remaining items will ship as soon as they are available.',
     shipped: 'Your order has been shipped! You should receive tracking information soon.',
     delivered: 'Your order has been delivered. Thank you for your business!',
     cancelled: 'Your order has been cancelled.',
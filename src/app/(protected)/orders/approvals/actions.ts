@@ -0,0 +1,149 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { hasRole, isAdmin } from '@/lib/roles'
+import {
+  getApprovalQueue,
+  decideOrderApproval,
+  getApprovalRules,
+  saveApprovalRule,
+  deleteApprovalRule,
+  type ApprovalRule,
+} from '@/lib/services/order-approval'
+import {
+  approvalRuleSchema,
+  approvalDecisionSchema,
+  type ApprovalRuleFormInput,
+  type ApprovalDecisionInput,
+} from '@/lib/validations/order-approval'
+
+export type { ApprovalRule }
+
+export type ApprovalQueueItem = {
+  id: string
+  orderNumber: string
+  dealerName: string
+  dealerCode: string
+  submittedBy: string
+  poNumber: string | null
+  itemCount: number
+  totalAmount: number
+  approvalRole: string | null
+  reasons: string | null
+  createdAt: string
+}
+
+export type ApprovalAccess = {
+  canApprove: boolean
+  canManageRules: boolean
+}
+
+async function getApprover() {
+  const session = await auth()
+  if (!session?.user || !hasRole(session.user.role, 'dealer_admin')) return null
+  return {
+    id: session.user.id,
+    role: session.user.role,
+    dealerId: session.user.dealerId || null,
+  }
+}
+
+// What the current user can do on the approvals page
+export async function getApprovalAccess(): Promise<ApprovalAccess> {
+  const approver = await getApprover()
+  return {
+    canApprove: !!approver,
+    // Rules belong to a dealer, so only dealer admins manage them here
+    canManageRules: !!approver && !isAdmin(approver.role) && !!approver.dealerId,
+  }
+}
+
+// Orders waiting on the current user's approval
+export async function getApprovalQueueAction(): Promise<ApprovalQueueItem[]> {
+  const approver = await getApprover()
+  if (!approver) return []
+
+  const orders = await getApprovalQueue(approver)
+
+  return orders.map((order) => ({
+    id: order.id,
+    orderNumber: order.orderNumber,
+    dealerName: order.dealer.name,
+    dealerCode: order.dealer.code,
+    submittedBy: order.submittedBy
+      ? `${order.submittedBy.firstName} ${order.submittedBy.lastName}`
+      : 'Unknown',
+    poNumber: order.poNumber,
+    itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+    totalAmount: order.totalAmount,
+    approvalRole: order.approvalRole,
+    reasons: order.statusHistory[0]?.note?.replace(/^Awaiting approval: /, '') ?? null,
+    createdAt: order.createdAt.toISOString(),
+  }))
+}
+
+// Approve or reject a pending order
+export async function decideApprovalAction(
+  input: ApprovalDecisionInput
+): Promise<{ success: boolean; status?: string; error?: string }> {
+  const validated = approvalDecisionSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid decision' }
+  }
+
+  const result = await decideOrderApproval(validated.data)
+  if (result.success) {
+    revalidatePath('/orders/approvals')
+    revalidatePath('/orders')
+  }
+
+  return result
+}
+
+// Get the current dealer's approval rules
+export async function getApprovalRulesAction(): Promise<ApprovalRule[]> {
+  const approver = await getApprover()
+  if (!approver?.dealerId) return []
+
+  return getApprovalRules(approver.dealerId)
+}
+
+// Create or update an approval rule for the current dealer
+export async function saveApprovalRuleAction(
+  input: ApprovalRuleFormInput
+): Promise<{ success: boolean; error?: string }> {
+  const approver = await getApprover()
+  if (!approver?.dealerId || isAdmin(approver.role)) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = approvalRuleSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid rule' }
+  }
+
+  const result = await saveApprovalRule(approver.dealerId, validated.data)
+  if (result.success) {
+    revalidatePath('/orders/approvals')
+  }
+
+  return { success: result.success, error: result.error }
+}
+
+// Delete an approval rule for the current dealer
+export async function deleteApprovalRuleAction(
+  ruleId: string
+): Promise<{ success: boolean; error?: string }> {
+  const approver = await getApprover()
+  if (!approver?.dealerId || isAdmin(approver.role)) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const result = await deleteApprovalRule(approver.dealerId, ruleId)
+  if (result.success) {
+    revalidatePath('/orders/approvals')
+  }
+
+  return result
+}
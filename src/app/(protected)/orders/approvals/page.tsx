@@ -0,0 +1,381 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import Link from 'next/link'
+import {
+  getApprovalAccess,
+  getApprovalQueueAction,
+  decideApprovalAction,
+  getApprovalRulesAction,
+  saveApprovalRuleAction,
+  deleteApprovalRuleAction,
+  type ApprovalAccess,
+  type ApprovalQueueItem,
+  type ApprovalRule,
+} from './actions'
+import {
+  approvalConditionLabels,
+  approverRoleLabels,
+  type ApprovalConditionKey,
+  type ApproverRoleKey,
+} from '@/lib/approval-constants'
+
+const emptyRule = {
+  name: '',
+  condition: 'amount_over' as ApprovalConditionKey,
+  threshold: '',
+  approverRole: 'dealer_admin' as ApproverRoleKey,
+}
+
+export default function OrderApprovalsPage() {
+  const [access, setAccess] = useState<ApprovalAccess | null>(null)
+  const [queue, setQueue] = useState<ApprovalQueueItem[]>([])
+  const [rules, setRules] = useState<ApprovalRule[]>([])
+  const [ruleForm, setRuleForm] = useState(emptyRule)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    loadPage()
+  }, [])
+
+  async function loadPage() {
+    const [accessResult, queueResult, rulesResult] = await Promise.all([
+      getApprovalAccess(),
+      getApprovalQueueAction(),
+      getApprovalRulesAction(),
+    ])
+    setAccess(accessResult)
+    setQueue(queueResult)
+    setRules(rulesResult)
+  }
+
+  function formatCurrency(amount: number) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  function handleDecision(order: ApprovalQueueItem, action: 'approve' | 'reject') {
+    const reason =
+      action === 'reject'
+        ? prompt(`Reason for rejecting order ${order.orderNumber}:`)
+        : prompt(`Approve order ${order.orderNumber}? Add an optional note:`, '')
+    if (reason === null) return
+    if (action === 'reject' && !reason.trim()) return
+
+    startTransition(async () => {
+      const result = await decideApprovalAction({
+        orderId: order.id,
+        action,
+        reason: reason.trim() || undefined,
+      })
+      if (result.success) {
+        setMessage({
+          type: 'success',
+          text:
+            action === 'reject'
+              ? `Order ${order.orderNumber} rejected`
+              : result.status === 'credit_hold'
+                ? `Order ${order.orderNumber} approved and placed on credit hold`
+                : `Order ${order.orderNumber} approved`,
+        })
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to record decision' })
+      }
+    })
+  }
+
+  function handleAddRule(e: React.FormEvent) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await saveApprovalRuleAction({
+        name: ruleForm.name,
+        condition: ruleForm.condition,
+        threshold: ruleForm.condition === 'amount_over' && ruleForm.threshold ? parseFloat(ruleForm.threshold) : null,
+        approverRole: ruleForm.approverRole,
+        isActive: true,
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Approval rule added' })
+        setRuleForm(emptyRule)
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to add rule' })
+      }
+    })
+  }
+
+  function handleToggleRule(rule: ApprovalRule) {
+    startTransition(async () => {
+      const result = await saveApprovalRuleAction({
+        id: rule.id,
+        name: rule.name,
+        condition: rule.condition as ApprovalConditionKey,
+        threshold: rule.threshold,
+        approverRole: rule.approverRole as ApproverRoleKey,
+        isActive: !rule.isActive,
+      })
+      if (result.success) {
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to update rule' })
+      }
+    })
+  }
+
+  function handleDeleteRule(rule: ApprovalRule) {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return
+    startTransition(async () => {
+      const result = await deleteApprovalRuleAction(rule.id)
+      if (result.success) {
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to delete rule' })
+      }
+    })
+  }
+
+  if (!access) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <Link href="/orders">Orders</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>Approvals</span>
+        </nav>
+        <h1 className="page-title">Order Approvals</h1>
+        <p className="page-subtitle">Orders waiting for approval before they are submitted</p>
+      </div>
+
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>{message.text}</div>
+      )}
+
+      {!access.canApprove ? (
+        <div className="card">
+          <div className="card-body text-center text-medium-gray py-8">
+            Only dealer admins can approve orders. Orders you submit that need approval are listed
+            as Pending Approval on your order history.
+          </div>
+        </div>
+      ) : (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold">Approval Queue</h2>
+          </div>
+          <div className="overflow-x-auto">
+            {queue.length === 0 ? (
+              <div className="text-center py-12 text-medium-gray">No orders are waiting for approval</div>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-light-beige">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                      Order
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                      Submitted By
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                      Why
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">
+                      Total
+                    </th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-light-gray">
+                  {queue.map((order) => (
+                    <tr key={order.id}>
+                      <td className="px-4 py-4">
+                        <Link href={`/orders/${order.orderNumber}`} className="font-medium text-olive hover:underline">
+                          {order.orderNumber}
+                        </Link>
+                        <p className="text-sm text-medium-gray">
+                          {order.dealerCode} &middot; {order.itemCount} units
+                          {order.poNumber ? ` · PO ${order.poNumber}` : ''}
+                        </p>
+                      </td>
+                      <td className="px-4 py-4 text-sm">
+                        <p className="text-charcoal">{order.submittedBy}</p>
+                        <p className="text-medium-gray">{formatDate(order.createdAt)}</p>
+                      </td>
+                      <td className="px-4 py-4 text-sm text-medium-gray">
+                        {order.reasons}
+                        {order.approvalRole && (
+                          <p className="text-xs">
+                            Needs {approverRoleLabels[order.approvalRole as ApproverRoleKey] ?? order.approvalRole}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-right font-medium text-charcoal">
+                        {formatCurrency(order.totalAmount)}
+                      </td>
+                      <td className="px-4 py-4 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleDecision(order, 'approve')}
+                          disabled={isPending}
+                          className="btn-primary btn-sm mr-2"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleDecision(order, 'reject')}
+                          disabled={isPending}
+                          className="btn-ghost btn-sm text-error"
+                        >
+                          Reject
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {access.canManageRules && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold">Approval Rules</h2>
+            <p className="text-sm text-medium-gray mt-1">
+              Orders matching an active rule wait for approval unless the submitter already holds the
+              approver role. Stock stays reserved while they wait and is released if rejected.
+            </p>
+          </div>
+          <div className="card-body space-y-4">
+            {rules.length === 0 ? (
+              <p className="text-sm text-medium-gray">No rules yet. Orders go straight to submitted.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-medium-gray uppercase">
+                    <th className="py-2">Rule</th>
+                    <th className="py-2">Condition</th>
+                    <th className="py-2">Approver</th>
+                    <th className="py-2">Status</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-light-gray">
+                  {rules.map((rule) => (
+                    <tr key={rule.id}>
+                      <td className="py-2 font-medium">{rule.name}</td>
+                      <td className="py-2">
+                        {approvalConditionLabels[rule.condition as ApprovalConditionKey] ?? rule.condition}
+                        {rule.condition === 'amount_over' && rule.threshold !== null && ` ${formatCurrency(rule.threshold)}`}
+                      </td>
+                      <td className="py-2">{approverRoleLabels[rule.approverRole as ApproverRoleKey] ?? rule.approverRole}</td>
+                      <td className="py-2">{rule.isActive ? 'Active' : 'Paused'}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleToggleRule(rule)}
+                          disabled={isPending}
+                          className="text-olive hover:underline mr-3"
+                        >
+                          {rule.isActive ? 'Pause' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRule(rule)}
+                          disabled={isPending}
+                          className="text-error hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <form onSubmit={handleAddRule} className="grid gap-4 md:grid-cols-5 items-end border-t border-light-gray pt-4">
+              <div className="md:col-span-2">
+                <label className="label">Rule Name</label>
+                <input
+                  type="text"
+                  required
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                  placeholder="Large orders"
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Condition</label>
+                <select
+                  value={ruleForm.condition}
+                  onChange={(e) => setRuleForm({ ...ruleForm, condition: e.target.value as ApprovalConditionKey })}
+                  className="input w-full"
+                >
+                  {Object.entries(approvalConditionLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Threshold</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  disabled={ruleForm.condition !== 'amount_over'}
+                  value={ruleForm.threshold}
+                  onChange={(e) => setRuleForm({ ...ruleForm, threshold: e.target.value })}
+                  placeholder="10000"
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Approver</label>
+                <select
+                  value={ruleForm.approverRole}
+                  onChange={(e) => setRuleForm({ ...ruleForm, approverRole: e.target.value as ApproverRoleKey })}
+                  className="input w-full"
+                >
+                  {Object.entries(approverRoleLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-5 flex justify-end">
+                <button type="submit" disabled={isPending} className="btn-primary">
+                  Add Rule
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
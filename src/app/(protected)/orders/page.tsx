@@ -31,6 +31,7 @@ const statusColors: Record<string, string> = {
   blue: 'bg-blue-100 text-blue-800',
   olive: 'bg-olive/10 text-olive',
   yellow: 'bg-yellow-100 text-yellow-800',
+  orange: 'bg-orange-100 text-orange-800',
   purple: 'bg-purple-100 text-purple-800',
   green: 'bg-green-100 text-green-800',
   red: 'bg-red-100 text-red-800',
@@ -116,8 +117,20 @@ export default function OrdersPage() {
           <span className="breadcrumb-separator">/</span>
           <span>Orders</span>
         </nav>
-        <h1 className="page-title">Order History</h1>
-        <p className="page-subtitle">View and manage your orders</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="page-title">Order History</h1>
+            <p className="page-subtitle">View and manage your orders</p>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/orders/schedules" className="btn-outline">
+              Recurring Orders
+            </Link>
+            <Link href="/orders/approvals" className="btn-outline">
+              Approval Queue
+            </Link>
+          </div>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -0,0 +1,159 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { hasRole } from '@/lib/roles'
+import { describeSchedule } from '@/lib/order-schedules'
+import {
+  getDealerSchedules,
+  saveOrderSchedule,
+  deleteOrderSchedule,
+  runOrderSchedule,
+} from '@/lib/services/order-schedules'
+import { orderScheduleSchema, type OrderScheduleInput } from '@/lib/validations/order-schedule'
+import { getSavedCarts } from '../../cart/actions'
+
+export type ScheduleRunItem = {
+  id: string
+  status: string
+  orderNumber: string | null
+  orderStatus: string | null
+  message: string | null
+  runAt: string
+}
+
+export type OrderScheduleItem = {
+  id: string
+  name: string
+  savedCartId: string
+  savedCartName: string
+  owner: string
+  frequency: string
+  dayOfWeek: number | null
+  dayOfMonth: number | null
+  cronExpression: string
+  cadence: string
+  mode: string
+  paymentMethod: string
+  poPrefix: string | null
+  isActive: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  runs: ScheduleRunItem[]
+}
+
+async function getScheduleUser() {
+  const session = await auth()
+  if (!session?.user?.dealerId || !hasRole(session.user.role, 'dealer_user')) return null
+  return { id: session.user.id, dealerId: session.user.dealerId }
+}
+
+// Schedules for the signed-in dealer, with recent run history
+export async function getSchedulesAction(): Promise<OrderScheduleItem[]> {
+  const user = await getScheduleUser()
+  if (!user) return []
+
+  const schedules = await getDealerSchedules(user.dealerId)
+
+  return schedules.map((schedule) => ({
+    id: schedule.id,
+    name: schedule.name,
+    savedCartId: schedule.savedCart.id,
+    savedCartName: schedule.savedCart.name ?? 'Unnamed Cart',
+    owner: `${schedule.owner.firstName} ${schedule.owner.lastName}`,
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.dayOfWeek,
+    dayOfMonth: schedule.dayOfMonth,
+    cronExpression: schedule.cronExpression,
+    cadence: describeSchedule(schedule),
+    mode: schedule.mode,
+    paymentMethod: schedule.paymentMethod,
+    poPrefix: schedule.poPrefix,
+    isActive: schedule.isActive,
+    nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+    lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+    runs: schedule.runs.map((run) => ({
+      id: run.id,
+      status: run.status,
+      orderNumber: run.order?.orderNumber ?? null,
+      orderStatus: run.order?.status ?? null,
+      message: run.message,
+      runAt: run.runAt.toISOString(),
+    })),
+  }))
+}
+
+// Saved carts the signed-in dealer can build a schedule from
+export async function getScheduleCartsAction(): Promise<Array<{ id: string; name: string; itemCount: number }>> {
+  const user = await getScheduleUser()
+  if (!user) return []
+
+  const carts = await getSavedCarts(user.dealerId)
+  return carts.map((cart) => ({ id: cart.id, name: cart.name, itemCount: cart.itemCount }))
+}
+
+// Create or update a schedule; new schedules are owned by the current user
+export async function saveScheduleAction(
+  input: OrderScheduleInput
+): Promise<{ success: boolean; error?: string }> {
+  const user = await getScheduleUser()
+  if (!user) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = orderScheduleSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid schedule' }
+  }
+
+  const result = await saveOrderSchedule(user.dealerId, user.id, validated.data)
+  if (result.success) {
+    revalidatePath('/orders/schedules')
+  }
+
+  return { success: result.success, error: result.error }
+}
+
+// Delete a schedule and its run history
+export async function deleteScheduleAction(
+  scheduleId: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = await getScheduleUser()
+  if (!user) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const result = await deleteOrderSchedule(user.dealerId, scheduleId)
+  if (result.success) {
+    revalidatePath('/orders/schedules')
+  }
+
+  return result
+}
+
+// Run a schedule immediately instead of waiting for its next run
+export async function runScheduleNowAction(
+  scheduleId: string
+): Promise<{ success: boolean; status?: string; orderNumber?: string; message?: string; error?: string }> {
+  const user = await getScheduleUser()
+  if (!user) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const schedules = await getDealerSchedules(user.dealerId)
+  if (!schedules.some((schedule) => schedule.id === scheduleId)) {
+    return { success: false, error: 'Schedule not found' }
+  }
+
+  const result = await runOrderSchedule(scheduleId)
+  revalidatePath('/orders/schedules')
+  revalidatePath('/orders')
+
+  return {
+    success: result.success,
+    status: result.status,
+    orderNumber: result.orderNumber,
+    message: result.message,
+    error: result.error,
+  }
+}
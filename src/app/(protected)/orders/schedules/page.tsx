@@ -0,0 +1,471 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import Link from 'next/link'
+import {
+  getSchedulesAction,
+  getScheduleCartsAction,
+  saveScheduleAction,
+  deleteScheduleAction,
+  runScheduleNowAction,
+  type OrderScheduleItem,
+} from './actions'
+import {
+  scheduleFrequencyLabels,
+  scheduleModeLabels,
+  scheduleRunStatusLabels,
+  scheduleRunStatusColors,
+  weekdayLabels,
+  type ScheduleFrequencyKey,
+  type ScheduleModeKey,
+  type ScheduleRunStatusKey,
+} from '@/lib/schedule-constants'
+
+type ScheduleForm = {
+  id?: string
+  name: string
+  savedCartId: string
+  frequency: ScheduleFrequencyKey
+  dayOfWeek: number
+  dayOfMonth: number
+  cronExpression: string
+  mode: ScheduleModeKey
+  paymentMethod: 'credit_terms' | 'credit_card' | 'ach'
+  poPrefix: string
+  isActive: boolean
+}
+
+const emptyForm: ScheduleForm = {
+  name: '',
+  savedCartId: '',
+  frequency: 'weekly',
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  cronExpression: '',
+  mode: 'draft',
+  paymentMethod: 'credit_terms',
+  poPrefix: '',
+  isActive: true,
+}
+
+export default function OrderSchedulesPage() {
+  const [schedules, setSchedules] = useState<OrderScheduleItem[]>([])
+  const [carts, setCarts] = useState<Array<{ id: string; name: string; itemCount: number }>>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ScheduleForm | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    loadPage()
+  }, [])
+
+  async function loadPage() {
+    const [scheduleData, cartData] = await Promise.all([getSchedulesAction(), getScheduleCartsAction()])
+    setSchedules(scheduleData)
+    setCarts(cartData)
+    setLoading(false)
+
+    // Arriving from the cart page with a saved cart preselected
+    const cartId = new URLSearchParams(window.location.search).get('cart')
+    if (cartId && cartData.some((cart) => cart.id === cartId)) {
+      setForm((current) => current ?? { ...emptyForm, savedCartId: cartId })
+    }
+  }
+
+  function formatDateTime(dateString: string | null) {
+    if (!dateString) return '—'
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  function editSchedule(schedule: OrderScheduleItem) {
+    setForm({
+      id: schedule.id,
+      name: schedule.name,
+      savedCartId: schedule.savedCartId,
+      frequency: schedule.frequency as ScheduleFrequencyKey,
+      dayOfWeek: schedule.dayOfWeek ?? 1,
+      dayOfMonth: schedule.dayOfMonth ?? 1,
+      cronExpression: schedule.frequency === 'custom' ? schedule.cronExpression : '',
+      mode: schedule.mode as ScheduleModeKey,
+      paymentMethod: schedule.paymentMethod as ScheduleForm['paymentMethod'],
+      poPrefix: schedule.poPrefix ?? '',
+      isActive: schedule.isActive,
+    })
+  }
+
+  function saveSchedule(values: ScheduleForm, successText: string) {
+    startTransition(async () => {
+      const result = await saveScheduleAction({
+        ...values,
+        cronExpression: values.frequency === 'custom' ? values.cronExpression : null,
+        poPrefix: values.poPrefix || null,
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: successText })
+        setForm(null)
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save schedule' })
+      }
+    })
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!form) return
+    saveSchedule(form, form.id ? 'Schedule updated' : 'Schedule created')
+  }
+
+  function handleToggle(schedule: OrderScheduleItem) {
+    saveSchedule(
+      {
+        id: schedule.id,
+        name: schedule.name,
+        savedCartId: schedule.savedCartId,
+        frequency: schedule.frequency as ScheduleFrequencyKey,
+        dayOfWeek: schedule.dayOfWeek ?? 1,
+        dayOfMonth: schedule.dayOfMonth ?? 1,
+        cronExpression: schedule.cronExpression,
+        mode: schedule.mode as ScheduleModeKey,
+        paymentMethod: schedule.paymentMethod as ScheduleForm['paymentMethod'],
+        poPrefix: schedule.poPrefix ?? '',
+        isActive: !schedule.isActive,
+      },
+      schedule.isActive ? 'Schedule paused' : 'Schedule resumed'
+    )
+  }
+
+  function handleDelete(schedule: OrderScheduleItem) {
+    if (!confirm(`Delete the schedule "${schedule.name}" and its run history?`)) return
+    startTransition(async () => {
+      const result = await deleteScheduleAction(schedule.id)
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Schedule deleted' })
+        loadPage()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to delete schedule' })
+      }
+    })
+  }
+
+  function handleRunNow(schedule: OrderScheduleItem) {
+    if (!confirm(`Run "${schedule.name}" now?`)) return
+    startTransition(async () => {
+      const result = await runScheduleNowAction(schedule.id)
+      if (result.success) {
+        const label = scheduleRunStatusLabels[result.status as ScheduleRunStatusKey] ?? result.status
+        setMessage({
+          type: 'success',
+          text: [`${label}${result.orderNumber ? `: ${result.orderNumber}` : ''}`, result.message]
+            .filter(Boolean)
+            .join('. '),
+        })
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Schedule run failed' })
+      }
+      setExpandedId(schedule.id)
+      loadPage()
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <Link href="/orders">Orders</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>Recurring Orders</span>
+        </nav>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="page-title">Recurring Orders</h1>
+            <p className="page-subtitle">Reorder a saved cart automatically on a schedule</p>
+          </div>
+          {!form && (
+            <button onClick={() => setForm(emptyForm)} className="btn-primary" disabled={carts.length === 0}>
+              New Schedule
+            </button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {carts.length === 0 && (
+        <div className="alert-info">
+          Schedules are built from saved carts. <Link href="/cart" className="underline">Save a cart</Link> first.
+        </div>
+      )}
+
+      {/* Schedule Form */}
+      {form && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold">{form.id ? 'Edit Schedule' : 'New Schedule'}</h2>
+          </div>
+          <form onSubmit={handleSubmit} className="card-body grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="label">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Weekly parts replenishment"
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="label">Saved Cart</label>
+              <select
+                required
+                value={form.savedCartId}
+                onChange={(e) => setForm({ ...form, savedCartId: e.target.value })}
+                className="input w-full"
+              >
+                <option value="">Select a saved cart</option>
+                {carts.map((cart) => (
+                  <option key={cart.id} value={cart.id}>
+                    {cart.name} ({cart.itemCount} items)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Frequency</label>
+              <select
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as ScheduleFrequencyKey })}
+                className="input w-full"
+              >
+                {Object.entries(scheduleFrequencyLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              {form.frequency === 'weekly' && (
+                <>
+                  <label className="label">Day of Week</label>
+                  <select
+                    value={form.dayOfWeek}
+                    onChange={(e) => setForm({ ...form, dayOfWeek: parseInt(e.target.value) })}
+                    className="input w-full"
+                  >
+                    {weekdayLabels.map((day, index) => (
+                      <option key={day} value={index}>
+                        {day}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+              {form.frequency === 'monthly' && (
+                <>
+                  <label className="label">Day of Month</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="28"
+                    value={form.dayOfMonth}
+                    onChange={(e) => setForm({ ...form, dayOfMonth: parseInt(e.target.value) || 1 })}
+                    className="input w-full"
+                  />
+                </>
+              )}
+              {form.frequency === 'custom' && (
+                <>
+                  <label className="label">Cron Expression (UTC)</label>
+                  <input
+                    type="text"
+                    required
+                    value={form.cronExpression}
+                    onChange={(e) => setForm({ ...form, cronExpression: e.target.value })}
+                    placeholder="0 6 * * 1,4"
+                    className="input w-full font-mono"
+                  />
+                  <p className="text-xs text-medium-gray mt-1">minute hour day-of-month month day-of-week</p>
+                </>
+              )}
+            </div>
+            <div>
+              <label className="label">When It Runs</label>
+              <select
+                value={form.mode}
+                onChange={(e) => setForm({ ...form, mode: e.target.value as ScheduleModeKey })}
+                className="input w-full"
+              >
+                {Object.entries(scheduleModeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Payment Method</label>
+              <select
+                value={form.paymentMethod}
+                onChange={(e) => setForm({ ...form, paymentMethod: e.target.value as ScheduleForm['paymentMethod'] })}
+                className="input w-full"
+              >
+                <option value="credit_terms">Credit Terms</option>
+                <option value="credit_card">Credit Card on File</option>
+                <option value="ach">ACH Transfer</option>
+              </select>
+            </div>
+            <div>
+              <label className="label">PO Prefix (optional)</label>
+              <input
+                type="text"
+                value={form.poPrefix}
+                onChange={(e) => setForm({ ...form, poPrefix: e.target.value })}
+                placeholder="REPL"
+                className="input w-full"
+              />
+              <p className="text-xs text-medium-gray mt-1">Each order gets the prefix plus the run date as its PO</p>
+            </div>
+            <div className="md:col-span-2 flex justify-end gap-3">
+              <button type="button" onClick={() => setForm(null)} className="btn-outline">
+                Cancel
+              </button>
+              <button type="submit" disabled={isPending} className="btn-primary">
+                {isPending ? 'Saving...' : 'Save Schedule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Schedules */}
+      <div className="card">
+        {schedules.length === 0 ? (
+          <div className="text-center py-12 text-medium-gray">No recurring orders yet</div>
+        ) : (
+          <ul className="divide-y divide-light-gray">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="p-4">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-charcoal">
+                      {schedule.name}
+                      {!schedule.isActive && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-800">Paused</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-medium-gray">
+                      {schedule.cadence} &middot; {schedule.savedCartName} &middot;{' '}
+                      {scheduleModeLabels[schedule.mode as ScheduleModeKey] ?? schedule.mode}
+                    </p>
+                    <p className="text-xs text-medium-gray">
+                      Next run: {schedule.isActive ? formatDateTime(schedule.nextRunAt) : 'Paused'} &middot; Last run:{' '}
+                      {formatDateTime(schedule.lastRunAt)} &middot; Owner: {schedule.owner}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => handleRunNow(schedule)} disabled={isPending} className="btn-outline btn-sm">
+                      Run Now
+                    </button>
+                    <button
+                      onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                      className="btn-ghost btn-sm"
+                    >
+                      History ({schedule.runs.length})
+                    </button>
+                    <button onClick={() => editSchedule(schedule)} disabled={isPending} className="btn-ghost btn-sm">
+                      Edit
+                    </button>
+                    <button onClick={() => handleToggle(schedule)} disabled={isPending} className="btn-ghost btn-sm">
+                      {schedule.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(schedule)}
+                      disabled={isPending}
+                      className="btn-ghost btn-sm text-error"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {/* Run History */}
+                {expandedId === schedule.id && (
+                  <div className="mt-4 border border-light-gray rounded-lg overflow-x-auto">
+                    {schedule.runs.length === 0 ? (
+                      <p className="p-4 text-sm text-medium-gray">This schedule has not run yet</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead className="bg-light-beige">
+                          <tr className="text-left text-xs uppercase text-charcoal">
+                            <th className="px-3 py-2">Run</th>
+                            <th className="px-3 py-2">Result</th>
+                            <th className="px-3 py-2">Order</th>
+                            <th className="px-3 py-2">Notes</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-light-gray">
+                          {schedule.runs.map((run) => (
+                            <tr key={run.id}>
+                              <td className="px-3 py-2 whitespace-nowrap">{formatDateTime(run.runAt)}</td>
+                              <td className="px-3 py-2">
+                                <span
+                                  className={`px-2 py-0.5 text-xs rounded-full ${
+                                    scheduleRunStatusColors[run.status as ScheduleRunStatusKey] ?? 'bg-gray-100 text-gray-800'
+                                  }`}
+                                >
+                                  {scheduleRunStatusLabels[run.status as ScheduleRunStatusKey] ?? run.status}
+                                </span>
+                              </td>
+                              <td className="px-3 py-2">
+                                {run.orderNumber ? (
+                                  <Link href={`/orders/${run.orderNumber}`} className="text-olive hover:underline">
+                                    {run.orderNumber}
+                                  </Link>
+                                ) : (
+                                  '—'
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-medium-gray">{run.message ?? ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -37,6 +37,29 @@ function StockBadge({ stock }: { stock: number }) {
   )
 }
 
+function DealerPrice({ product }: { product: ProductListItem }) {
+  const discounted = product.dealerPrice < product.price
+  const bestBreak = product.priceBreaks[product.priceBreaks.length - 1]
+
+  return (
+    <div>
+      <div className="text-lg font-semibold text-gray-900">
+        {formatCurrency(product.dealerPrice)}
+      </div>
+      {discounted && (
+        <div className="text-xs text-gray-500">
+          List <span className="line-through">{formatCurrency(product.price)}</span>
+        </div>
+      )}
+      {bestBreak && bestBreak.minQuantity > 1 && (
+        <div className="text-xs text-green-700">
+          {formatCurrency(bestBreak.price)} at {bestBreak.minQuantity}+
+        </div>
+      )}
+    </div>
+  )
+}
+
 function StatusBadge({ status }: { status: string }) {
   const colors: Record<string, string> = {
     active: 'bg-green-100 text-green-800',
@@ -100,9 +123,7 @@ export function ProductCard({ product, viewMode }: Props) {
 
           {/* Price & Stock */}
           <div className="flex-shrink-0 text-right">
-            <div className="text-lg font-semibold text-gray-900">
-              {formatCurrency(product.price)}
-            </div>
+            <DealerPrice product={product} />
             {product.costPrice && (
               <div className="text-xs text-gray-500">
                 Cost: {formatCurrency(product.costPrice)}
@@ -185,9 +206,7 @@ export function ProductCard({ product, viewMode }: Props) {
         )}
 
         <div className="mt-3 flex items-center justify-between">
-          <div className="text-lg font-semibold text-gray-900">
-            {formatCurrency(product.price)}
-          </div>
+          <DealerPrice product={product} />
           <StockBadge stock={product.totalStock} />
         </div>
       </div>
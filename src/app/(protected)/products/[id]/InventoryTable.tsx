@@ -1,6 +1,7 @@
 'use client'
 
 import type { ProductInventory } from './actions'
+import { MOVEMENT_TYPE_LABELS, type MovementType } from '@/lib/inventory-utils'
 
 type Props = {
   inventory: ProductInventory[]
@@ -73,6 +74,12 @@ export function InventoryTable({ inventory }: Props) {
             >
               Status
             </th>
+            <th
+              scope="col"
+              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+            >
+              Last Movement
+            </th>
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
@@ -121,6 +128,25 @@ export function InventoryTable({ inventory }: Props) {
                     </span>
                   )}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {inv.lastMovement ? (
+                    <>
+                      <div>
+                        {MOVEMENT_TYPE_LABELS[inv.lastMovement.type as MovementType] ?? inv.lastMovement.type}
+                        {inv.lastMovement.quantityChange !== 0 && (
+                          <span className={inv.lastMovement.quantityChange > 0 ? 'text-green-600' : 'text-red-600'}>
+                            {' '}({inv.lastMovement.quantityChange > 0 ? '+' : ''}{inv.lastMovement.quantityChange})
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs">
+                        {new Date(inv.lastMovement.createdAt).toLocaleDateString('en-US')}
+                      </div>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </td>
               </tr>
             )
           })}
@@ -141,6 +167,7 @@ export function InventoryTable({ inventory }: Props) {
               {totalAvailable}
             </td>
             <td className="px-6 py-4" />
+            <td className="px-6 py-4" />
           </tr>
         </tfoot>
       </table>
@@ -1,6 +1,9 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
+import { getDealerPrices } from '@/lib/services/pricing'
+import type { ResolvedPrice } from '@/lib/pricing'
 
 export type ProductImage = {
   id: string
@@ -19,6 +22,11 @@ export type ProductInventory = {
     code: string
     type: string
   }
+  lastMovement: {
+    type: string
+    quantityChange: number
+    createdAt: Date
+  } | null
 }
 
 export type ProductDetail = {
@@ -38,6 +46,7 @@ export type ProductDetail = {
   } | null
   images: ProductImage[]
   inventory: ProductInventory[]
+  dealerPrice: ResolvedPrice | null // Null when the viewer is not a dealer user
   createdAt: Date
   updatedAt: Date
 }
@@ -84,7 +93,34 @@ export async function getProduct(id: string): Promise<ProductDetail | null> {
     },
   })
 
-  return product
+  if (!product) return null
+
+  // Latest ledger entry per location
+  const movements = await prisma.inventoryMovement.findMany({
+    where: { productId: id },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['locationId'],
+    select: { locationId: true, type: true, quantityChange: true, createdAt: true },
+  })
+  const lastMovementByLocation = new Map(movements.map((m) => [m.locationId, m]))
+
+  const session = await auth()
+  const dealerId = session?.user?.dealerId
+  const dealerPrices = dealerId ? await getDealerPrices(dealerId, [{ productId: id, quantity: 1 }]) : {}
+
+  return {
+    ...product,
+    dealerPrice: dealerPrices[id] ?? null,
+    inventory: product.inventory.map((inv) => {
+      const movement = lastMovementByLocation.get(inv.locationId)
+      return {
+        ...inv,
+        lastMovement: movement
+          ? { type: movement.type, quantityChange: movement.quantityChange, createdAt: movement.createdAt }
+          : null,
+      }
+    }),
+  }
 }
 
 /**
@@ -4,6 +4,7 @@ import { notFound } from 'next/navigation'
 import { getProduct, getRelatedProducts, type ProductDetail } from './actions'
 import { ImageGallery } from './ImageGallery'
 import { InventoryTable } from './InventoryTable'
+import { PRICE_SOURCE_LABELS } from '@/lib/pricing'
 
 export async function generateMetadata({ params }: { params: Promise<{ id: string }> }) {
   const { id } = await params
@@ -207,8 +208,30 @@ export default async function ProductDetailPage({ params }: Props) {
               {/* Price */}
               <div className="mt-6">
                 <div className="text-3xl font-bold text-gray-900">
-                  {formatCurrency(product.price)}
+                  {formatCurrency(product.dealerPrice?.unitPrice ?? product.price)}
                 </div>
+                {product.dealerPrice && product.dealerPrice.source !== 'base' && (
+                  <div className="text-sm text-gray-500 mt-1">
+                    {PRICE_SOURCE_LABELS[product.dealerPrice.source]}
+                    {product.dealerPrice.unitPrice < product.price && (
+                      <>
+                        {' '}· List <span className="line-through">{formatCurrency(product.price)}</span>
+                      </>
+                    )}
+                  </div>
+                )}
+                {product.dealerPrice && product.dealerPrice.breaks.some((b) => b.minQuantity > 1) && (
+                  <table className="mt-3 text-sm">
+                    <tbody>
+                      {product.dealerPrice.breaks.map((b) => (
+                        <tr key={b.minQuantity}>
+                          <td className="pr-4 text-gray-500">{b.minQuantity}+ units</td>
+                          <td className="font-medium text-gray-900">{formatCurrency(b.price)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
                 {product.costPrice && (
                   <div className="text-sm text-gray-500 mt-1">
                     Cost: {formatCurrency(product.costPrice)} | Margin:{' '}
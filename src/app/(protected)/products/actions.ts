@@ -1,6 +1,9 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
+import { getDealerPrices } from '@/lib/services/pricing'
+import type { PriceBreak, PriceSource } from '@/lib/pricing'
 import type { ProductFilterInput } from '@/lib/validations/product'
 
 export type ProductListItem = {
@@ -9,6 +12,9 @@ export type ProductListItem = {
   name: string
   description: string | null
   price: number
+  dealerPrice: number // What the signed-in dealer pays for a single unit
+  priceSource: PriceSource
+  priceBreaks: PriceBreak[]
   costPrice: number | null
   status: string
   category: {
@@ -160,11 +166,27 @@ export async function getProducts(filters: ProductFilterInput): Promise<ProductL
     [key: string]: unknown
   }
 
-  const result: ProductListItem[] = filteredProducts.map(({ images, inventory, ...p }: FilteredProduct) => ({
-    ...p,
-    primaryImage: p.primaryImage,
-    totalStock: p.totalStock,
-  }))
+  // Resolve the dealer's tier or contract price for each product
+  const session = await auth()
+  const dealerId = session?.user?.dealerId
+  const dealerPrices = dealerId
+    ? await getDealerPrices(
+        dealerId,
+        filteredProducts.map((p: { [key: string]: unknown }) => ({ productId: p.id as string, quantity: 1 }))
+      )
+    : {}
+
+  const result: ProductListItem[] = filteredProducts.map(({ images, inventory, ...p }: FilteredProduct) => {
+    const resolved = dealerPrices[p.id as string]
+    return {
+      ...p,
+      dealerPrice: resolved?.unitPrice ?? (p.price as number),
+      priceSource: resolved?.source ?? ('base' as PriceSource),
+      priceBreaks: resolved?.breaks ?? [],
+      primaryImage: p.primaryImage,
+      totalStock: p.totalStock,
+    }
+  })
 
   return {
     products: result,
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getCurtailmentOutlook, type CurtailmentOutlook, type CurtailmentItem } from './actions'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function CurtailmentRows({ items }: { items: CurtailmentItem[] }) {
+  return (
+    <ul className="divide-y divide-light-gray">
+      {items.map((item) => (
+        <li key={`${item.rvUnitId}-${item.dueDate}`} className="flex items-center justify-between py-2 text-sm">
+          <div>
+            <p className="font-medium text-charcoal">{item.unitName}</p>
+            <p className="text-xs text-medium-gray">
+              {item.stockNumber || item.vin.slice(-8)} &middot; {item.lender}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="font-semibold">{formatCurrency(item.amount)}</p>
+            <p className="text-xs text-medium-gray">due {formatDate(item.dueDate)}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function CurtailmentsTab() {
+  const [outlook, setOutlook] = useState<CurtailmentOutlook | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    getCurtailmentOutlook().then(setOutlook)
+  }, [])
+
+  if (!outlook) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin h-6 w-6 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  const upcomingTotal = outlook.weeks.reduce((sum, week) => sum + week.total, 0)
+
+  return (
+    <div className="space-y-6">
+      {outlook.pastDue && (
+        <div className="card border-l-4 border-l-red-500 bg-red-50">
+          <div className="card-body">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-red-800">Past Due Curtailments</h3>
+              <span className="font-heading font-bold text-red-700">{formatCurrency(outlook.pastDue.total)}</span>
+            </div>
+            <CurtailmentRows items={outlook.pastDue.items} />
+          </div>
+        </div>
+      )}
+
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-heading font-semibold text-charcoal">Upcoming Curtailments by Week</h2>
+            <p className="text-sm text-medium-gray mt-1">Next {outlook.weeks.length} weeks, from each lender program&apos;s rules</p>
+          </div>
+          <span className="font-heading font-bold text-charcoal">{formatCurrency(upcomingTotal)}</span>
+        </div>
+        <div className="card-body">
+          {upcomingTotal === 0 ? (
+            <p className="text-center text-medium-gray py-8">No curtailments due in this period</p>
+          ) : (
+            <ul className="divide-y divide-light-gray">
+              {outlook.weeks.map((week) => (
+                <li key={week.weekStart} className="py-3">
+                  <button
+                    onClick={() => setExpanded(expanded === week.weekStart ? null : week.weekStart)}
+                    disabled={week.items.length === 0}
+                    className="w-full flex items-center justify-between text-left"
+                  >
+                    <span className="font-medium text-charcoal">
+                      Week of {formatDate(week.weekStart)}
+                      <span className="text-sm text-medium-gray ml-2">({week.items.length} units)</span>
+                    </span>
+                    <span className={week.total > 0 ? 'font-semibold text-orange-600' : 'text-medium-gray'}>
+                      {formatCurrency(week.total)}
+                    </span>
+                  </button>
+                  {expanded === week.weekStart && week.items.length > 0 && (
+                    <div className="mt-2 pl-4">
+                      <CurtailmentRows items={week.items} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getFloorPlanInterestByUnit, type UnitInterestRow } from './actions'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+export default function InterestTab() {
+  const [rows, setRows] = useState<UnitInterestRow[] | null>(null)
+
+  useEffect(() => {
+    getFloorPlanInterestByUnit().then(setRows)
+  }, [])
+
+  if (!rows) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin h-6 w-6 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  const totals = rows.reduce(
+    (sum, row) => ({ accrued: sum.accrued + row.interestAccrued, paid: sum.paid + row.interestPaid }),
+    { accrued: 0, paid: 0 }
+  )
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="text-lg font-heading font-semibold text-charcoal">Interest by Unit</h2>
+        <p className="text-sm text-medium-gray mt-1">Daily accrual ledger and payments made to the lender</p>
+      </div>
+      <div className="overflow-x-auto">
+        {rows.length === 0 ? (
+          <p className="text-center text-medium-gray py-8">No floor-plan accounts yet</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-light-beige">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Unit</th>
+                <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Program</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Financed</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Balance</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Rate</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Accrued</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Paid</th>
+                <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Unpaid</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-light-gray">
+              {rows.map((row) => (
+                <tr key={row.accountId} className="hover:bg-light-beige/50">
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-charcoal">{row.unitName}</p>
+                    <p className="text-xs text-medium-gray">
+                      {row.stockNumber || row.vin.slice(-8)}
+                      {row.status === 'paid_off' && ' · Paid off'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <p className="font-medium">{row.lender}</p>
+                    <p className="text-xs text-medium-gray">{row.program}</p>
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm">{formatCurrency(row.principal)}</td>
+                  <td className="px-4 py-3 text-right text-sm font-semibold">{formatCurrency(row.balance)}</td>
+                  <td className="px-4 py-3 text-right text-sm">{row.interestRate}%</td>
+                  <td className="px-4 py-3 text-right text-sm">{formatCurrency(row.interestAccrued)}</td>
+                  <td className="px-4 py-3 text-right text-sm text-olive font-medium">{formatCurrency(row.interestPaid)}</td>
+                  <td className="px-4 py-3 text-right text-sm text-orange-600">
+                    {formatCurrency(Math.max(row.interestAccrued - row.interestPaid, 0))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-light-beige font-semibold">
+              <tr>
+                <td className="px-4 py-3" colSpan={5}>
+                  Total ({rows.length} units)
+                </td>
+                <td className="px-4 py-3 text-right">{formatCurrency(totals.accrued)}</td>
+                <td className="px-4 py-3 text-right text-olive">{formatCurrency(totals.paid)}</td>
+                <td className="px-4 py-3 text-right text-orange-600">
+                  {formatCurrency(Math.max(totals.accrued - totals.paid, 0))}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
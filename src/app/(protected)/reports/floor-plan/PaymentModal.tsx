@@ -0,0 +1,136 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { recordFloorPlanPaymentAction, type FloorPlanUnit } from './actions'
+
+type PaymentType = 'curtailment' | 'interest' | 'payoff'
+
+export default function PaymentModal({
+  unit,
+  onClose,
+  onRecorded,
+}: {
+  unit: FloorPlanUnit
+  onClose: () => void
+  onRecorded: () => void
+}) {
+  const [type, setType] = useState<PaymentType>('curtailment')
+  const [principalAmount, setPrincipalAmount] = useState('')
+  const [interestAmount, setInterestAmount] = useState('')
+  const [paidAt, setPaidAt] = useState(new Date().toISOString().slice(0, 10))
+  const [reference, setReference] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const unpaidInterest = Math.max(unit.interestAccrued - unit.interestPaid, 0)
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!unit.accountId) return
+    setError(null)
+
+    startTransition(async () => {
+      const result = await recordFloorPlanPaymentAction({
+        accountId: unit.accountId!,
+        type,
+        principalAmount: type === 'payoff' ? undefined : parseFloat(principalAmount) || 0,
+        interestAmount: type === 'payoff' ? undefined : parseFloat(interestAmount) || 0,
+        paidAt: new Date(paidAt),
+        reference: reference || undefined,
+      })
+      if (result.success) {
+        onRecorded()
+      } else {
+        setError(result.error || 'Failed to record payment')
+      }
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+        <h3 className="text-lg font-heading font-semibold text-charcoal">Record Floor-Plan Payment</h3>
+        <p className="text-sm text-medium-gray mt-1">
+          {unit.modelYear} {unit.series} {unit.modelName} &middot; balance $
+          {(unit.principalBalance ?? unit.floorPlanPayoff).toFixed(2)} &middot; unpaid interest ${unpaidInterest.toFixed(2)}
+        </p>
+
+        {error && <div className="alert-error mt-4">{error}</div>}
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div>
+            <label className="label">Payment Type</label>
+            <select value={type} onChange={(e) => setType(e.target.value as PaymentType)} className="input w-full">
+              <option value="curtailment">Curtailment</option>
+              <option value="interest">Interest</option>
+              <option value="payoff">Full payoff</option>
+            </select>
+          </div>
+
+          {type === 'payoff' ? (
+            <p className="text-sm text-medium-gray">
+              Pays the remaining principal and all interest accrued through the payment date.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">Principal</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={principalAmount}
+                  onChange={(e) => setPrincipalAmount(e.target.value)}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Interest</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={interestAmount}
+                  onChange={(e) => setInterestAmount(e.target.value)}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Paid On</label>
+              <input
+                type="date"
+                required
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="label">Reference</label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Check / ACH #"
+                className="input w-full"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="btn-outline">
+              Cancel
+            </button>
+            <button type="submit" disabled={isPending} className="btn-primary">
+              {isPending ? 'Saving...' : 'Record Payment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,365 @@
+'use client'
+
+import { useEffect, useState, useTransition } from 'react'
+import {
+  getFloorPlanProgramsAction,
+  getUnflooredUnits,
+  saveFloorPlanProgramAction,
+  openFloorPlanAccountAction,
+  type FloorPlanProgramItem,
+} from './actions'
+
+type RuleRow = { day: string; percent: string; repeatEveryDays: string }
+
+const emptyProgram = {
+  lender: '',
+  name: '',
+  interestRate: '',
+  rules: [{ day: '90', percent: '10', repeatEveryDays: '30' }] as RuleRow[],
+}
+
+type UnflooredUnit = { id: string; label: string; invoiceCost: number; receivedDate: string | null }
+
+export default function ProgramsTab({ onChange }: { onChange: () => void }) {
+  const [programs, setPrograms] = useState<FloorPlanProgramItem[]>([])
+  const [units, setUnits] = useState<UnflooredUnit[]>([])
+  const [programForm, setProgramForm] = useState(emptyProgram)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [accountForm, setAccountForm] = useState({
+    rvUnitId: '',
+    programId: '',
+    accountNumber: '',
+    principal: '',
+    fundedDate: new Date().toISOString().slice(0, 10),
+  })
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  async function loadData() {
+    const [programData, unitData] = await Promise.all([getFloorPlanProgramsAction(), getUnflooredUnits()])
+    setPrograms(programData)
+    setUnits(unitData)
+  }
+
+  function editProgram(program: FloorPlanProgramItem) {
+    setEditingId(program.id)
+    setProgramForm({
+      lender: program.lender,
+      name: program.name,
+      interestRate: String(program.interestRate),
+      rules: program.curtailmentRules.map((rule) => ({
+        day: String(rule.day),
+        percent: String(rule.percent),
+        repeatEveryDays: rule.repeatEveryDays ? String(rule.repeatEveryDays) : '',
+      })),
+    })
+  }
+
+  function updateRule(index: number, field: keyof RuleRow, value: string) {
+    setProgramForm({
+      ...programForm,
+      rules: programForm.rules.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)),
+    })
+  }
+
+  function handleSaveProgram(e: React.FormEvent) {
+    e.preventDefault()
+    const existing = programs.find((program) => program.id === editingId)
+    startTransition(async () => {
+      const result = await saveFloorPlanProgramAction({
+        id: editingId ?? undefined,
+        lender: programForm.lender,
+        name: programForm.name,
+        interestRate: parseFloat(programForm.interestRate),
+        curtailmentRules: programForm.rules
+          .filter((rule) => rule.day && rule.percent)
+          .map((rule) => ({
+            day: parseInt(rule.day),
+            percent: parseFloat(rule.percent),
+            repeatEveryDays: rule.repeatEveryDays ? parseInt(rule.repeatEveryDays) : null,
+          })),
+        isActive: existing?.isActive ?? true,
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: editingId ? 'Program updated' : 'Program added' })
+        setProgramForm(emptyProgram)
+        setEditingId(null)
+        loadData()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save program' })
+      }
+    })
+  }
+
+  function handleSelectUnit(rvUnitId: string) {
+    const unit = units.find((u) => u.id === rvUnitId)
+    setAccountForm({
+      ...accountForm,
+      rvUnitId,
+      principal: unit ? String(unit.invoiceCost) : '',
+      fundedDate: unit?.receivedDate?.slice(0, 10) ?? accountForm.fundedDate,
+    })
+  }
+
+  function handleOpenAccount(e: React.FormEvent) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await openFloorPlanAccountAction({
+        rvUnitId: accountForm.rvUnitId,
+        programId: accountForm.programId,
+        accountNumber: accountForm.accountNumber || undefined,
+        principal: parseFloat(accountForm.principal),
+        fundedDate: new Date(accountForm.fundedDate),
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Unit added to floor plan' })
+        setAccountForm({ ...accountForm, rvUnitId: '', accountNumber: '', principal: '' })
+        loadData()
+        onChange()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to open account' })
+      }
+    })
+  }
+
+  const activePrograms = programs.filter((program) => program.isActive)
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Programs */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-heading font-semibold text-charcoal">Lender Programs</h2>
+        </div>
+        <div className="card-body space-y-4">
+          {programs.length === 0 ? (
+            <p className="text-sm text-medium-gray">No programs yet. Add your lender&apos;s terms below.</p>
+          ) : (
+            <ul className="divide-y divide-light-gray">
+              {programs.map((program) => (
+                <li key={program.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-charcoal">
+                      {program.lender} &middot; {program.name}
+                      {!program.isActive && <span className="ml-2 text-xs text-medium-gray">(inactive)</span>}
+                    </p>
+                    <p className="text-sm text-medium-gray">
+                      {program.interestRate}% APR &middot; {program.rulesSummary} &middot; {program.activeAccounts} units
+                    </p>
+                  </div>
+                  <button onClick={() => editProgram(program)} className="btn-ghost btn-sm">
+                    Edit
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSaveProgram} className="border-t border-light-gray pt-4 space-y-4">
+            <h3 className="font-medium text-charcoal">{editingId ? 'Edit Program' : 'Add Program'}</h3>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="label">Lender</label>
+                <input
+                  type="text"
+                  required
+                  value={programForm.lender}
+                  onChange={(e) => setProgramForm({ ...programForm, lender: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Program Name</label>
+                <input
+                  type="text"
+                  required
+                  value={programForm.name}
+                  onChange={(e) => setProgramForm({ ...programForm, name: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Annual Rate (%)</label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="0.01"
+                  value={programForm.interestRate}
+                  onChange={(e) => setProgramForm({ ...programForm, interestRate: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="label">Curtailment Rules</label>
+              <div className="space-y-2">
+                {programForm.rules.map((rule, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rule.percent}
+                      onChange={(e) => updateRule(index, 'percent', e.target.value)}
+                      className="input w-24"
+                    />
+                    <span>% due at day</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.day}
+                      onChange={(e) => updateRule(index, 'day', e.target.value)}
+                      className="input w-24"
+                    />
+                    <span>then every</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.repeatEveryDays}
+                      onChange={(e) => updateRule(index, 'repeatEveryDays', e.target.value)}
+                      placeholder="—"
+                      className="input w-24"
+                    />
+                    <span>days</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setProgramForm({ ...programForm, rules: programForm.rules.filter((_, i) => i !== index) })
+                      }
+                      className="text-error hover:underline ml-2"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setProgramForm({
+                      ...programForm,
+                      rules: [...programForm.rules, { day: '', percent: '', repeatEveryDays: '' }],
+                    })
+                  }
+                  className="text-sm text-olive hover:underline"
+                >
+                  + Add rule
+                </button>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null)
+                    setProgramForm(emptyProgram)
+                  }}
+                  className="btn-outline"
+                >
+                  Cancel
+                </button>
+              )}
+              <button type="submit" disabled={isPending} className="btn-primary">
+                Save Program
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Open Account */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-heading font-semibold text-charcoal">Floor a Unit</h2>
+          <p className="text-sm text-medium-gray mt-1">{units.length} stocked units are not on a floor-plan account</p>
+        </div>
+        <form onSubmit={handleOpenAccount} className="card-body grid gap-4 md:grid-cols-5 items-end">
+          <div className="md:col-span-2">
+            <label className="label">Unit</label>
+            <select
+              required
+              value={accountForm.rvUnitId}
+              onChange={(e) => handleSelectUnit(e.target.value)}
+              className="input w-full"
+            >
+              <option value="">Select a unit</option>
+              {units.map((unit) => (
+                <option key={unit.id} value={unit.id}>
+                  {unit.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Program</label>
+            <select
+              required
+              value={accountForm.programId}
+              onChange={(e) => setAccountForm({ ...accountForm, programId: e.target.value })}
+              className="input w-full"
+            >
+              <option value="">Select</option>
+              {activePrograms.map((program) => (
+                <option key={program.id} value={program.id}>
+                  {program.lender} - {program.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Amount Financed</label>
+            <input
+              type="number"
+              required
+              min="0"
+              step="0.01"
+              value={accountForm.principal}
+              onChange={(e) => setAccountForm({ ...accountForm, principal: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="label">Funded Date</label>
+            <input
+              type="date"
+              required
+              value={accountForm.fundedDate}
+              onChange={(e) => setAccountForm({ ...accountForm, fundedDate: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="label">Lender Account # (optional)</label>
+            <input
+              type="text"
+              value={accountForm.accountNumber}
+              onChange={(e) => setAccountForm({ ...accountForm, accountNumber: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end">
+            <button type="submit" disabled={isPending || activePrograms.length === 0} className="btn-primary">
+              Add to Floor Plan
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,432 @@
+'use client'
+
+import { useEffect, useState, useTransition } from 'react'
+import {
+  getFloorPlanLenders,
+  getFloorPlanStatementsAction,
+  getStatementDiscrepanciesAction,
+  getStatementMappingsAction,
+  importFloorPlanStatementAction,
+  resolveDiscrepancyAction,
+  saveStatementMappingAction,
+  type DiscrepancyItem,
+  type StatementItem,
+  type StatementMappingItem,
+} from './actions'
+import {
+  discrepancyResolutionLabels,
+  discrepancyStatusLabels,
+  discrepancyTypeColors,
+  discrepancyTypeLabels,
+} from '@/lib/floor-plan-constants'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+}
+
+function formatValue(item: DiscrepancyItem, value: number | null): string {
+  if (value === null) return '—'
+  return item.type === 'rate_mismatch' ? `${value}%` : formatCurrency(value)
+}
+
+const emptyMapping = { lender: '', vinColumn: '', floorPlanNumberColumn: '', payoffColumn: '', rateColumn: '' }
+
+export default function ReconciliationTab({ onChange }: { onChange: () => void }) {
+  const [mappings, setMappings] = useState<StatementMappingItem[]>([])
+  const [lenders, setLenders] = useState<string[]>([])
+  const [statements, setStatements] = useState<StatementItem[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [discrepancies, setDiscrepancies] = useState<DiscrepancyItem[]>([])
+  const [mappingForm, setMappingForm] = useState(emptyMapping)
+  const [importForm, setImportForm] = useState({
+    lender: '',
+    statementDate: new Date().toISOString().slice(0, 10),
+    file: null as File | null,
+  })
+  const [skippedRows, setSkippedRows] = useState<string[]>([])
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  useEffect(() => {
+    if (selectedId) {
+      getStatementDiscrepanciesAction(selectedId).then(setDiscrepancies)
+    } else {
+      setDiscrepancies([])
+    }
+  }, [selectedId])
+
+  async function loadData() {
+    const [mappingData, lenderData, statementData] = await Promise.all([
+      getStatementMappingsAction(),
+      getFloorPlanLenders(),
+      getFloorPlanStatementsAction(),
+    ])
+    setMappings(mappingData)
+    setLenders(Array.from(new Set([...lenderData, ...mappingData.map((m) => m.lender)])).sort())
+    setStatements(statementData)
+  }
+
+  function selectMappingLender(lender: string) {
+    const existing = mappings.find((m) => m.lender === lender)
+    setMappingForm(
+      existing
+        ? {
+            lender,
+            vinColumn: existing.vinColumn ?? '',
+            floorPlanNumberColumn: existing.floorPlanNumberColumn ?? '',
+            payoffColumn: existing.payoffColumn,
+            rateColumn: existing.rateColumn ?? '',
+          }
+        : { ...emptyMapping, lender }
+    )
+  }
+
+  function handleSaveMapping(e: React.FormEvent) {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await saveStatementMappingAction({
+        lender: mappingForm.lender,
+        vinColumn: mappingForm.vinColumn || undefined,
+        floorPlanNumberColumn: mappingForm.floorPlanNumberColumn || undefined,
+        payoffColumn: mappingForm.payoffColumn,
+        rateColumn: mappingForm.rateColumn || undefined,
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: `Column mapping saved for ${mappingForm.lender}` })
+        loadData()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save mapping' })
+      }
+    })
+  }
+
+  function handleImport(e: React.FormEvent) {
+    e.preventDefault()
+    const file = importForm.file
+    if (!file) return
+
+    startTransition(async () => {
+      const result = await importFloorPlanStatementAction({
+        lender: importForm.lender,
+        statementDate: new Date(importForm.statementDate),
+        fileName: file.name,
+        content: await file.text(),
+      })
+      if (result.success && result.result) {
+        const { lineCount, matchedCount, discrepancyCount, skippedRows: skipped, statementId } = result.result
+        setMessage({
+          type: 'success',
+          text: `Imported ${lineCount} lines: ${matchedCount} matched, ${discrepancyCount} discrepancies`,
+        })
+        setSkippedRows(skipped)
+        setImportForm({ ...importForm, file: null })
+        await loadData()
+        setSelectedId(statementId)
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to import statement' })
+      }
+    })
+  }
+
+  function handleResolve(discrepancy: DiscrepancyItem, action: 'apply' | 'dismiss') {
+    startTransition(async () => {
+      const result = await resolveDiscrepancyAction(discrepancy.id, action)
+      if (result.success) {
+        if (selectedId) setDiscrepancies(await getStatementDiscrepanciesAction(selectedId))
+        loadData()
+        onChange()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to resolve discrepancy' })
+      }
+    })
+  }
+
+  const selected = statements.find((s) => s.id === selectedId)
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Column Mapping */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold text-charcoal">Statement Columns</h2>
+            <p className="text-sm text-medium-gray mt-1">Header names in each lender&apos;s CSV file</p>
+          </div>
+          <form onSubmit={handleSaveMapping} className="card-body space-y-4">
+            <div>
+              <label className="label">Lender</label>
+              <input
+                type="text"
+                required
+                list="statement-lenders"
+                value={mappingForm.lender}
+                onChange={(e) => selectMappingLender(e.target.value)}
+                className="input w-full"
+              />
+              <datalist id="statement-lenders">
+                {lenders.map((lender) => (
+                  <option key={lender} value={lender} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">VIN Column</label>
+                <input
+                  type="text"
+                  value={mappingForm.vinColumn}
+                  onChange={(e) => setMappingForm({ ...mappingForm, vinColumn: e.target.value })}
+                  placeholder="VIN"
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Floor-Plan # Column</label>
+                <input
+                  type="text"
+                  value={mappingForm.floorPlanNumberColumn}
+                  onChange={(e) => setMappingForm({ ...mappingForm, floorPlanNumberColumn: e.target.value })}
+                  placeholder="Loan Number"
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Payoff Column</label>
+                <input
+                  type="text"
+                  required
+                  value={mappingForm.payoffColumn}
+                  onChange={(e) => setMappingForm({ ...mappingForm, payoffColumn: e.target.value })}
+                  placeholder="Payoff Amount"
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Rate Column (optional)</label>
+                <input
+                  type="text"
+                  value={mappingForm.rateColumn}
+                  onChange={(e) => setMappingForm({ ...mappingForm, rateColumn: e.target.value })}
+                  placeholder="Rate"
+                  className="input w-full"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" disabled={isPending} className="btn-primary">
+                Save Mapping
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Import */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold text-charcoal">Import Statement</h2>
+            <p className="text-sm text-medium-gray mt-1">Lines are matched by VIN, then floor-plan number</p>
+          </div>
+          <form onSubmit={handleImport} className="card-body space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">Lender</label>
+                <select
+                  required
+                  value={importForm.lender}
+                  onChange={(e) => setImportForm({ ...importForm, lender: e.target.value })}
+                  className="input w-full"
+                >
+                  <option value="">Select</option>
+                  {mappings.map((mapping) => (
+                    <option key={mapping.lender} value={mapping.lender}>
+                      {mapping.lender}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Statement Date</label>
+                <input
+                  type="date"
+                  required
+                  value={importForm.statementDate}
+                  onChange={(e) => setImportForm({ ...importForm, statementDate: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="label">CSV File</label>
+              <input
+                type="file"
+                required
+                accept=".csv,text/csv"
+                onChange={(e) => setImportForm({ ...importForm, file: e.target.files?.[0] ?? null })}
+                className="input w-full"
+              />
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" disabled={isPending || !importForm.file} className="btn-primary">
+                {isPending ? 'Importing...' : 'Import & Reconcile'}
+              </button>
+            </div>
+            {skippedRows.length > 0 && (
+              <div className="text-sm text-orange-700">
+                <p className="font-medium">{skippedRows.length} rows skipped:</p>
+                <ul className="list-disc pl-5">
+                  {skippedRows.slice(0, 10).map((row) => (
+                    <li key={row}>{row}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </form>
+        </div>
+      </div>
+
+      {/* Statements */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-heading font-semibold text-charcoal">Imported Statements</h2>
+        </div>
+        <div className="overflow-x-auto">
+          {statements.length === 0 ? (
+            <p className="text-center text-medium-gray py-8">No statements imported yet</p>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-light-beige">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Lender</th>
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Statement Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">File</th>
+                  <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Lines</th>
+                  <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Matched</th>
+                  <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Open Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-light-gray">
+                {statements.map((statement) => (
+                  <tr
+                    key={statement.id}
+                    onClick={() => setSelectedId(statement.id === selectedId ? null : statement.id)}
+                    className={`cursor-pointer hover:bg-light-beige/50 ${statement.id === selectedId ? 'bg-light-beige' : ''}`}
+                  >
+                    <td className="px-4 py-3 font-medium text-charcoal">{statement.lender}</td>
+                    <td className="px-4 py-3 text-sm">{formatDate(statement.statementDate)}</td>
+                    <td className="px-4 py-3 text-sm text-medium-gray">{statement.fileName || '—'}</td>
+                    <td className="px-4 py-3 text-right text-sm">{statement.lineCount}</td>
+                    <td className="px-4 py-3 text-right text-sm">{statement.matchedCount}</td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      <span className={statement.openDiscrepancies > 0 ? 'font-semibold text-orange-600' : 'text-olive'}>
+                        {statement.openDiscrepancies}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Discrepancies */}
+      {selected && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-heading font-semibold text-charcoal">
+              {selected.lender} &middot; {formatDate(selected.statementDate)}
+            </h2>
+            <p className="text-sm text-medium-gray mt-1">
+              {discrepancies.length === 0 ? 'Statement agrees with inventory' : `${discrepancies.length} discrepancies`}
+            </p>
+          </div>
+          {discrepancies.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-light-beige">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Issue</th>
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Unit</th>
+                    <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Ours</th>
+                    <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Lender</th>
+                    <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-light-gray">
+                  {discrepancies.map((item) => {
+                    const resolveLabel = discrepancyResolutionLabels[item.type]
+                    return (
+                      <tr key={item.id} className={item.status === 'open' ? '' : 'opacity-60'}>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full ${discrepancyTypeColors[item.type]}`}>
+                            {discrepancyTypeLabels[item.type]}
+                          </span>
+                          {item.rowNumber !== null && (
+                            <p className="text-xs text-medium-gray mt-1">Row {item.rowNumber}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-charcoal">{item.unitName ?? 'Unknown unit'}</p>
+                          <p className="text-xs text-medium-gray">
+                            {item.stockNumber || item.vin || item.floorPlanNumber}
+                            {item.unitStatus && ` · ${item.unitStatus.replace('_', ' ')}`}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm">{formatValue(item, item.ourValue)}</td>
+                        <td className="px-4 py-3 text-right text-sm font-semibold">{formatValue(item, item.lenderValue)}</td>
+                        <td className="px-4 py-3 text-right text-sm">
+                          {item.status === 'open' ? (
+                            <div className="flex justify-end gap-2">
+                              {resolveLabel && (
+                                <button
+                                  onClick={() => handleResolve(item, 'apply')}
+                                  disabled={isPending}
+                                  className="btn-primary btn-sm"
+                                >
+                                  {resolveLabel}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleResolve(item, 'dismiss')}
+                                disabled={isPending}
+                                className="btn-ghost btn-sm"
+                              >
+                                Dismiss
+                              </button>
+                            </div>
+                          ) : (
+                            <span className="text-medium-gray">
+                              {discrepancyStatusLabels[item.status as keyof typeof discrepancyStatusLabels]}
+                              {item.resolution && item.status === 'resolved' && `: ${item.resolution}`}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
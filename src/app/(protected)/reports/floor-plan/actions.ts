@@ -2,12 +2,49 @@
 
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { hasRole } from '@/lib/roles'
+import { describeCurtailmentRules, groupCurtailmentsByWeek, parseCurtailmentRules } from '@/lib/floor-plan'
+import {
+  accrueFloorPlanInterest,
+  getDealerCurtailments,
+  getFloorPlanPrograms,
+  getUnitInterestSummary,
+  openFloorPlanAccount,
+  recordFloorPlanPayment,
+  saveFloorPlanProgram,
+} from '@/lib/services/floor-plan'
+import {
+  getFloorPlanStatements,
+  getStatementDiscrepancies,
+  getStatementMappings,
+  importFloorPlanStatement,
+  resolveFloorPlanDiscrepancy,
+  saveStatementMapping,
+  type StatementImportResult,
+} from '@/lib/services/floor-plan-statements'
+import {
+  floorPlanAccountSchema,
+  floorPlanDiscrepancyActions,
+  floorPlanStatementImportSchema,
+  floorPlanStatementMappingSchema,
+  floorPlanPaymentSchema,
+  floorPlanProgramSchema,
+  type FloorPlanAccountInput,
+  type FloorPlanPaymentInput,
+  type FloorPlanProgramInput,
+  type FloorPlanStatementImportInput,
+  type FloorPlanStatementMappingInput,
+} from '@/lib/validations/floor-plan'
+import type { DiscrepancyType } from '@/lib/floor-plan-statements'
 
 export type FloorPlanSummary = {
   totalExposure: number
   totalUnits: number
   avgPayoffPerUnit: number
   monthlyInterestEstimate: number
+  interestPaidToDate: number
+  interestAccruedUnpaid: number
   unitsNearPayoff: number
   overdueUnits: number
   byLender: FloorPlanByLender[]
@@ -36,6 +73,10 @@ export type FloorPlanUnit = {
   floorPlanInterestRate: number | null
   daysOnFloorPlan: number
   monthlyInterest: number
+  accountId: string | null
+  principalBalance: number | null
+  interestAccrued: number
+  interestPaid: number
   receivedDate: Date
   msrp: number
   invoiceCost: number
@@ -51,6 +92,8 @@ export async function getFloorPlanSummary(): Promise<FloorPlanSummary> {
       totalUnits: 0,
       avgPayoffPerUnit: 0,
       monthlyInterestEstimate: 0,
+      interestPaidToDate: 0,
+      interestAccruedUnpaid: 0,
       unitsNearPayoff: 0,
       overdueUnits: 0,
       byLender: [],
@@ -60,18 +103,20 @@ export async function getFloorPlanSummary(): Promise<FloorPlanSummary> {
   const now = new Date()
   const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000)
 
+  // Bring the interest ledger up to today before reporting on it
+  await accrueFloorPlanInterest(now, session.user.dealerId)
+
   const baseWhere = {
     dealerId: session.user.dealerId,
     status: { in: ['in_stock', 'in_transit', 'reserved'] },
     floorPlanPayoff: { not: null, gt: 0 },
   }
 
-  const [aggregate, nearPayoff, overdue, units] = await Promise.all([
+  const [aggregate, nearPayoff, overdue, units, interest] = await Promise.all([
     prisma.rVUnit.aggregate({
       where: baseWhere,
       _count: true,
       _sum: { floorPlanPayoff: true },
-      _avg: { floorPlanInterestRate: true },
     }),
     prisma.rVUnit.count({
       where: {
@@ -93,11 +138,16 @@ export async function getFloorPlanSummary(): Promise<FloorPlanSummary> {
         floorPlanInterestRate: true,
       },
     }),
+    prisma.floorPlanAccount.aggregate({
+      where: { dealerId: session.user.dealerId },
+      _sum: { totalInterestAccrued: true, totalInterestPaid: true },
+    }),
   ])
 
   // Group by lender
   const lenderMap = new Map<string, { count: number; payoff: number; totalRate: number; rateCount: number }>()
   let totalPayoff = 0
+  let annualInterest = 0
 
   for (const unit of units) {
     const lender = unit.floorPlanLender || 'Unknown'
@@ -110,6 +160,7 @@ export async function getFloorPlanSummary(): Promise<FloorPlanSummary> {
     }
     lenderMap.set(lender, existing)
     totalPayoff += unit.floorPlanPayoff || 0
+    annualInterest += (unit.floorPlanPayoff || 0) * ((unit.floorPlanInterestRate || 0) / 100)
   }
 
   const byLender: FloorPlanByLender[] = []
@@ -125,15 +176,18 @@ export async function getFloorPlanSummary(): Promise<FloorPlanSummary> {
 
   byLender.sort((a, b) => b.totalPayoff - a.totalPayoff)
 
-  // Calculate estimated monthly interest
-  const avgRate = aggregate._avg.floorPlanInterestRate || 5
-  const monthlyInterest = Math.round((totalPayoff * (avgRate / 100)) / 12)
+  // Each unit's balance at its own rate; units with no rate on file add nothing
+  const monthlyInterest = Math.round(annualInterest / 12)
+  const interestAccrued = interest._sum?.totalInterestAccrued || 0
+  const interestPaid = interest._sum?.totalInterestPaid || 0
 
   return {
     totalExposure: aggregate._sum.floorPlanPayoff || 0,
     totalUnits: aggregate._count || 0,
     avgPayoffPerUnit: aggregate._count > 0 ? Math.round((aggregate._sum.floorPlanPayoff || 0) / aggregate._count) : 0,
     monthlyInterestEstimate: monthlyInterest,
+    interestPaidToDate: Math.round(interestPaid * 100) / 100,
+    interestAccruedUnpaid: Math.round((interestAccrued - interestPaid) * 100) / 100,
     unitsNearPayoff: nearPayoff,
     overdueUnits: overdue,
     byLender,
@@ -168,13 +222,16 @@ export async function getFloorPlanUnits(
     where,
     include: {
       model: { select: { name: true, series: true } },
+      floorPlanAccount: {
+        select: { id: true, balance: true, totalInterestAccrued: true, totalInterestPaid: true },
+      },
     },
     orderBy: sortBy === 'daysOnLot' ? { receivedDate: sortOrder } : { [sortBy]: sortOrder },
   })
 
   return units.map((unit) => {
     const payoff = unit.floorPlanPayoff || 0
-    const rate = unit.floorPlanInterestRate || 5
+    const rate = unit.floorPlanInterestRate || 0
     const monthlyInterest = Math.round((payoff * (rate / 100)) / 12)
     const receivedDate = unit.receivedDate || now
     const daysOnFloorPlan = Math.floor((now.getTime() - receivedDate.getTime()) / (24 * 60 * 60 * 1000))
@@ -202,6 +259,10 @@ export async function getFloorPlanUnits(
       floorPlanInterestRate: unit.floorPlanInterestRate,
       daysOnFloorPlan,
       monthlyInterest,
+      accountId: unit.floorPlanAccount?.id ?? null,
+      principalBalance: unit.floorPlanAccount?.balance ?? null,
+      interestAccrued: unit.floorPlanAccount?.totalInterestAccrued ?? 0,
+      interestPaid: unit.floorPlanAccount?.totalInterestPaid ?? 0,
       receivedDate: unit.receivedDate!,
       msrp: unit.msrp || 0,
       invoiceCost: unit.invoiceCost || 0,
@@ -228,3 +289,369 @@ export async function getFloorPlanLenders(): Promise<string[]> {
 
   return lenders.map((l) => l.floorPlanLender!).filter(Boolean).sort()
 }
+
+// ============================================================================
+// CURTAILMENTS AND INTEREST
+// ============================================================================
+
+export type CurtailmentItem = {
+  rvUnitId: string
+  vin: string
+  stockNumber: string | null
+  unitName: string
+  lender: string
+  dueDate: string
+  amount: number
+}
+
+export type CurtailmentOutlook = {
+  pastDue: { total: number; items: CurtailmentItem[] } | null
+  weeks: Array<{ weekStart: string; total: number; items: CurtailmentItem[] }>
+}
+
+export type UnitInterestRow = {
+  accountId: string
+  vin: string
+  stockNumber: string | null
+  unitName: string
+  unitStatus: string
+  lender: string
+  program: string
+  principal: number
+  balance: number
+  interestRate: number
+  fundedDate: string
+  status: string
+  paidOffAt: string | null
+  interestAccrued: number
+  interestPaid: number
+}
+
+export type FloorPlanProgramItem = {
+  id: string
+  lender: string
+  name: string
+  interestRate: number
+  curtailmentRules: Array<{ day: number; percent: number; repeatEveryDays?: number | null }>
+  rulesSummary: string
+  isActive: boolean
+  activeAccounts: number
+}
+
+// Curtailments due over the coming weeks, plus anything already past due
+export async function getCurtailmentOutlook(weeks: number = 8): Promise<CurtailmentOutlook> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return { pastDue: null, weeks: [] }
+
+  const curtailments = await getDealerCurtailments(session.user.dealerId)
+  const grouped = groupCurtailmentsByWeek(curtailments, new Date(), weeks)
+
+  const toItem = (curtailment: (typeof curtailments)[number]): CurtailmentItem => ({
+    rvUnitId: curtailment.rvUnitId,
+    vin: curtailment.vin,
+    stockNumber: curtailment.stockNumber,
+    unitName: curtailment.unitName,
+    lender: curtailment.lender,
+    dueDate: curtailment.dueDate.toISOString(),
+    amount: curtailment.amount,
+  })
+
+  return {
+    pastDue: grouped.pastDue ? { total: grouped.pastDue.total, items: grouped.pastDue.items.map(toItem) } : null,
+    weeks: grouped.weeks.map((week) => ({
+      weekStart: week.weekStart.toISOString(),
+      total: week.total,
+      items: week.items.map(toItem),
+    })),
+  }
+}
+
+// Actual interest accrued and paid on each financed unit
+export async function getFloorPlanInterestByUnit(): Promise<UnitInterestRow[]> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const accounts = await getUnitInterestSummary(session.user.dealerId)
+
+  return accounts.map((account) => ({
+    accountId: account.id,
+    vin: account.rvUnit.vin,
+    stockNumber: account.rvUnit.stockNumber,
+    unitName: `${account.rvUnit.modelYear} ${account.rvUnit.model.series} ${account.rvUnit.model.name}`,
+    unitStatus: account.rvUnit.status,
+    lender: account.program.lender,
+    program: account.program.name,
+    principal: account.principal,
+    balance: account.balance,
+    interestRate: account.interestRate,
+    fundedDate: account.fundedDate.toISOString(),
+    status: account.status,
+    paidOffAt: account.paidOffAt?.toISOString() ?? null,
+    interestAccrued: account.totalInterestAccrued,
+    interestPaid: account.totalInterestPaid,
+  }))
+}
+
+export async function getFloorPlanProgramsAction(): Promise<FloorPlanProgramItem[]> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const programs = await getFloorPlanPrograms(session.user.dealerId)
+
+  return programs.map((program) => {
+    const rules = parseCurtailmentRules(program.curtailmentRules)
+    return {
+      id: program.id,
+      lender: program.lender,
+      name: program.name,
+      interestRate: program.interestRate,
+      curtailmentRules: rules,
+      rulesSummary: describeCurtailmentRules(rules),
+      isActive: program.isActive,
+      activeAccounts: program._count.accounts,
+    }
+  })
+}
+
+async function getFloorPlanManager() {
+  const session = await auth()
+  if (!session?.user?.dealerId || !hasRole(session.user.role, 'dealer_admin')) return null
+  return { id: session.user.id, dealerId: session.user.dealerId }
+}
+
+export async function saveFloorPlanProgramAction(
+  input: FloorPlanProgramInput
+): Promise<{ success: boolean; error?: string }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+
+  const validated = floorPlanProgramSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid program' }
+  }
+
+  try {
+    await saveFloorPlanProgram(manager.dealerId, validated.data)
+    revalidatePath('/reports/floor-plan')
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save program' }
+  }
+}
+
+export async function openFloorPlanAccountAction(
+  input: FloorPlanAccountInput
+): Promise<{ success: boolean; error?: string }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+
+  const validated = floorPlanAccountSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid account' }
+  }
+
+  try {
+    await openFloorPlanAccount(manager.dealerId, validated.data)
+    revalidatePath('/reports/floor-plan')
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to open account' }
+  }
+}
+
+export async function recordFloorPlanPaymentAction(
+  input: FloorPlanPaymentInput
+): Promise<{ success: boolean; error?: string }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+
+  const validated = floorPlanPaymentSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid payment' }
+  }
+
+  try {
+    await recordFloorPlanPayment(manager.dealerId, validated.data, manager.id)
+    revalidatePath('/reports/floor-plan')
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record payment' }
+  }
+}
+
+// Stocked units that are not on a floor-plan account yet
+export async function getUnflooredUnits(): Promise<
+  Array<{ id: string; label: string; invoiceCost: number; receivedDate: string | null }>
+> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const units = await prisma.rVUnit.findMany({
+    where: {
+      dealerId: session.user.dealerId,
+      status: { in: ['in_stock', 'in_transit', 'reserved'] },
+      floorPlanAccount: null,
+    },
+    include: { model: { select: { name: true, series: true } } },
+    orderBy: { receivedDate: 'asc' },
+  })
+
+  return units.map((unit) => ({
+    id: unit.id,
+    label: `${unit.modelYear} ${unit.model.series} ${unit.model.name} (${unit.stockNumber || unit.vin.slice(-8)})`,
+    invoiceCost: unit.invoiceCost,
+    receivedDate: unit.receivedDate?.toISOString() ?? null,
+  }))
+}
+
+// ============================================================================
+// LENDER STATEMENT RECONCILIATION
+// ============================================================================
+
+export type StatementMappingItem = {
+  lender: string
+  vinColumn: string | null
+  floorPlanNumberColumn: string | null
+  payoffColumn: string
+  rateColumn: string | null
+}
+
+export type StatementItem = {
+  id: string
+  lender: string
+  statementDate: string
+  fileName: string | null
+  lineCount: number
+  matchedCount: number
+  openDiscrepancies: number
+  importedAt: string
+}
+
+export type DiscrepancyItem = {
+  id: string
+  type: DiscrepancyType
+  status: string
+  rowNumber: number | null
+  rvUnitId: string | null
+  unitName: string | null
+  vin: string | null
+  stockNumber: string | null
+  floorPlanNumber: string | null
+  unitStatus: string | null
+  ourValue: number | null
+  lenderValue: number | null
+  resolution: string | null
+}
+
+export async function getStatementMappingsAction(): Promise<StatementMappingItem[]> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const mappings = await getStatementMappings(session.user.dealerId)
+  return mappings.map((mapping) => ({
+    lender: mapping.lender,
+    vinColumn: mapping.vinColumn,
+    floorPlanNumberColumn: mapping.floorPlanNumberColumn,
+    payoffColumn: mapping.payoffColumn,
+    rateColumn: mapping.rateColumn,
+  }))
+}
+
+export async function saveStatementMappingAction(
+  input: FloorPlanStatementMappingInput
+): Promise<{ success: boolean; error?: string }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+
+  const validated = floorPlanStatementMappingSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid mapping' }
+  }
+
+  try {
+    await saveStatementMapping(manager.dealerId, validated.data)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save mapping' }
+  }
+}
+
+export async function importFloorPlanStatementAction(
+  input: FloorPlanStatementImportInput
+): Promise<{ success: boolean; error?: string; result?: StatementImportResult }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+
+  const validated = floorPlanStatementImportSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.issues[0]?.message || 'Invalid statement' }
+  }
+
+  try {
+    const result = await importFloorPlanStatement(manager.dealerId, validated.data, manager.id)
+    revalidatePath('/reports/floor-plan')
+    return { success: true, result }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to import statement' }
+  }
+}
+
+export async function getFloorPlanStatementsAction(): Promise<StatementItem[]> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const statements = await getFloorPlanStatements(session.user.dealerId)
+  return statements.map((statement) => ({
+    id: statement.id,
+    lender: statement.lender,
+    statementDate: statement.statementDate.toISOString(),
+    fileName: statement.fileName,
+    lineCount: statement.lineCount,
+    matchedCount: statement.matchedCount,
+    openDiscrepancies: statement._count.discrepancies,
+    importedAt: statement.createdAt.toISOString(),
+  }))
+}
+
+export async function getStatementDiscrepanciesAction(statementId: string): Promise<DiscrepancyItem[]> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return []
+
+  const discrepancies = await getStatementDiscrepancies(session.user.dealerId, statementId)
+  return discrepancies.map((discrepancy) => ({
+    id: discrepancy.id,
+    type: discrepancy.type as DiscrepancyType,
+    status: discrepancy.status,
+    rowNumber: discrepancy.line?.rowNumber ?? null,
+    rvUnitId: discrepancy.rvUnitId,
+    unitName: discrepancy.rvUnit
+      ? `${discrepancy.rvUnit.modelYear} ${discrepancy.rvUnit.model.series} ${discrepancy.rvUnit.model.name}`
+      : null,
+    vin: discrepancy.rvUnit?.vin ?? discrepancy.line?.vin ?? null,
+    stockNumber: discrepancy.rvUnit?.stockNumber ?? null,
+    floorPlanNumber: discrepancy.line?.floorPlanNumber ?? null,
+    unitStatus: discrepancy.rvUnit?.status ?? null,
+    ourValue: discrepancy.ourValue,
+    lenderValue: discrepancy.lenderValue,
+    resolution: discrepancy.resolution,
+  }))
+}
+
+export async function resolveDiscrepancyAction(
+  discrepancyId: string,
+  action: (typeof floorPlanDiscrepancyActions)[number]
+): Promise<{ success: boolean; error?: string }> {
+  const manager = await getFloorPlanManager()
+  if (!manager) return { success: false, error: 'Unauthorized' }
+  if (!floorPlanDiscrepancyActions.includes(action)) {
+    return { success: false, error: 'Invalid action' }
+  }
+
+  try {
+    await resolveFloorPlanDiscrepancy(manager.dealerId, discrepancyId, action, manager.id)
+    revalidatePath('/reports/floor-plan')
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to resolve discrepancy' }
+  }
+}
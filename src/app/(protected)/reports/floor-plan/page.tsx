@@ -9,13 +9,30 @@ import {
   type FloorPlanSummary,
   type FloorPlanUnit,
 } from './actions'
+import CurtailmentsTab from './CurtailmentsTab'
+import InterestTab from './InterestTab'
+import ProgramsTab from './ProgramsTab'
+import ReconciliationTab from './ReconciliationTab'
+import PaymentModal from './PaymentModal'
+
+const tabLabels = {
+  summary: 'Summary',
+  details: 'Unit Details',
+  curtailments: 'Curtailments',
+  interest: 'Interest',
+  programs: 'Programs',
+  reconciliation: 'Reconciliation',
+} as const
+
+type Tab = keyof typeof tabLabels
 
 export default function FloorPlanReportPage() {
   const [summary, setSummary] = useState<FloorPlanSummary | null>(null)
   const [units, setUnits] = useState<FloorPlanUnit[]>([])
   const [lenders, setLenders] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'summary' | 'details'>('summary')
+  const [activeTab, setActiveTab] = useState<Tab>('summary')
+  const [payingUnit, setPayingUnit] = useState<FloorPlanUnit | null>(null)
   const [selectedLender, setSelectedLender] = useState<string | null>(null)
   const [showOverdueOnly, setShowOverdueOnly] = useState(false)
 
@@ -109,7 +126,7 @@ export default function FloorPlanReportPage() {
       {/* Tabs */}
       <div className="border-b border-light-gray">
         <nav className="flex gap-4">
-          {(['summary', 'details'] as const).map((tab) => (
+          {(Object.keys(tabLabels) as Tab[]).map((tab) => (
             <button
               key={tab}
               onClick={() => {
@@ -125,7 +142,7 @@ export default function FloorPlanReportPage() {
                   : 'border-transparent text-medium-gray hover:text-charcoal'
               }`}
             >
-              {tab === 'summary' ? 'Summary' : 'Unit Details'}
+              {tabLabels[tab]}
             </button>
           ))}
         </nav>
@@ -169,7 +186,9 @@ export default function FloorPlanReportPage() {
                     <p className="text-3xl font-heading font-bold text-orange-600 mt-1">
                       {formatCurrency(summary.monthlyInterestEstimate)}
                     </p>
-                    <p className="text-sm text-medium-gray mt-1">carrying cost</p>
+                    <p className="text-sm text-medium-gray mt-1">
+                      carrying cost &middot; {formatCurrency(summary.interestPaidToDate)} paid to date
+                    </p>
                   </div>
                 </div>
 
@@ -355,6 +374,8 @@ export default function FloorPlanReportPage() {
                           <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Rate</th>
                           <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Monthly Int.</th>
                           <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Days Floored</th>
+                          <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Interest Paid</th>
+                          <th className="px-4 py-3"></th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-light-gray">
@@ -394,6 +415,16 @@ export default function FloorPlanReportPage() {
                             <td className="px-4 py-3 text-right text-sm">
                               {unit.daysOnFloorPlan} days
                             </td>
+                            <td className="px-4 py-3 text-right text-sm">
+                              {unit.accountId ? formatCurrency(unit.interestPaid) : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {unit.accountId && (
+                                <button onClick={() => setPayingUnit(unit)} className="text-sm text-olive hover:underline">
+                                  Record Payment
+                                </button>
+                              )}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -410,6 +441,10 @@ export default function FloorPlanReportPage() {
                             {formatCurrency(units.reduce((sum, u) => sum + u.monthlyInterest, 0))}
                           </td>
                           <td className="px-4 py-3"></td>
+                          <td className="px-4 py-3 text-right">
+                            {formatCurrency(units.reduce((sum, u) => sum + u.interestPaid, 0))}
+                          </td>
+                          <td className="px-4 py-3"></td>
                         </tr>
                       </tfoot>
                     </table>
@@ -418,8 +453,27 @@ export default function FloorPlanReportPage() {
               </div>
             </div>
           )}
+
+          {activeTab === 'curtailments' && <CurtailmentsTab />}
+
+          {activeTab === 'interest' && <InterestTab />}
+
+          {activeTab === 'programs' && <ProgramsTab onChange={loadData} />}
+
+          {activeTab === 'reconciliation' && <ReconciliationTab onChange={loadData} />}
         </>
       )}
+
+      {payingUnit && (
+        <PaymentModal
+          unit={payingUnit}
+          onClose={() => setPayingUnit(null)}
+          onRecorded={() => {
+            setPayingUnit(null)
+            loadData()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,121 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import {
+  getReturnById,
+  cancelReturnRequest,
+  reviewReturnRequest,
+  receiveReturn,
+  issueReturnCredit,
+} from '@/lib/services/returns'
+import { reviewReturnSchema, receiveReturnSchema } from '@/lib/validations/returns'
+
+// Get return details
+export async function getReturnDetails(returnId: string) {
+  const session = await auth()
+  if (!session?.user) {
+    return null
+  }
+
+  const rma = await getReturnById(returnId, session.user.role, session.user.dealerId || null)
+  if (!rma) return null
+
+  const isAdmin = ['super_admin', 'admin'].includes(session.user.role)
+
+  // Add computed fields
+  return {
+    ...rma,
+    isAdmin,
+    canCancel: rma.status === 'requested' && rma.dealerId === session.user.dealerId,
+    canReview: isAdmin && rma.status === 'requested',
+    canReceive: isAdmin && rma.status === 'approved',
+    canCredit: isAdmin && rma.status === 'received',
+  }
+}
+
+// Active warehouses that returned goods can be received into
+export async function getReceivingLocations(): Promise<Array<{ id: string; name: string; code: string }>> {
+  const session = await auth()
+  if (!session?.user || !['super_admin', 'admin'].includes(session.user.role)) {
+    return []
+  }
+
+  return prisma.inventoryLocation.findMany({
+    where: { isActive: true },
+    select: { id: true, name: true, code: true },
+    orderBy: { name: 'asc' },
+  })
+}
+
+// Cancel a pending return (dealer side)
+export async function cancelReturnAction(returnId: string): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  return cancelReturnRequest(returnId, session.user.id, session.user.dealerId || null)
+}
+
+// Approve or reject a return (manufacturer actions)
+export async function reviewReturnAction(
+  returnId: string,
+  action: 'approve' | 'reject',
+  restockingFeePercent?: number,
+  note?: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  if (!['super_admin', 'admin'].includes(session.user.role)) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  const validated = reviewReturnSchema.safeParse({ returnId, action, restockingFeePercent, note })
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message || 'Invalid review' }
+  }
+
+  return reviewReturnRequest(validated.data, session.user.id)
+}
+
+// Receive returned goods into a location
+export async function receiveReturnAction(
+  returnId: string,
+  locationId: string,
+  items: Array<{ itemId: string; receivedQuantity: number; disposition: 'restock' | 'scrap' }>,
+  note?: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  if (!['super_admin', 'admin'].includes(session.user.role)) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  const validated = receiveReturnSchema.safeParse({ returnId, locationId, items, note })
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message || 'Invalid receipt' }
+  }
+
+  return receiveReturn(validated.data, session.user.id)
+}
+
+// Issue the credit memo for a received return
+export async function issueCreditAction(returnId: string): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  if (!['super_admin', 'admin'].includes(session.user.role)) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  return issueReturnCredit(returnId, session.user.id)
+}
@@ -0,0 +1,533 @@
+'use client'
+
+import { useState, useEffect, useCallback, useTransition } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import {
+  getReturnDetails,
+  getReceivingLocations,
+  cancelReturnAction,
+  reviewReturnAction,
+  receiveReturnAction,
+  issueCreditAction,
+} from './actions'
+import {
+  returnStatusLabels,
+  returnStatusColors,
+  returnReasonLabels,
+  returnDispositionLabels,
+} from '@/lib/return-constants'
+
+type ReturnDetail = Awaited<ReturnType<typeof getReturnDetails>>
+type Disposition = 'restock' | 'scrap'
+
+export default function ReturnDetailPage() {
+  const params = useParams()
+  const returnId = params.id as string
+  const [rma, setRma] = useState<ReturnDetail>(null)
+  const [isPending, startTransition] = useTransition()
+  const [loaded, setLoaded] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Review form
+  const [restockingFeePercent, setRestockingFeePercent] = useState('15')
+  const [reviewNote, setReviewNote] = useState('')
+
+  // Receiving form
+  const [locations, setLocations] = useState<Array<{ id: string; name: string; code: string }>>([])
+  const [locationId, setLocationId] = useState('')
+  const [received, setReceived] = useState<Record<string, { quantity: number; disposition: Disposition }>>({})
+  const [receiveNote, setReceiveNote] = useState('')
+
+  const loadReturn = useCallback(async () => {
+    const data = await getReturnDetails(returnId)
+    setRma(data)
+    setLoaded(true)
+
+    if (data?.canReceive) {
+      const options = await getReceivingLocations()
+      setLocations(options)
+      setLocationId((current) => current || options[0]?.id || '')
+      setReceived(
+        Object.fromEntries(
+          data.items.map((item) => [
+            item.id,
+            {
+              quantity: item.quantity,
+              // Damaged and defective parts go to scrap by default
+              disposition: ['damaged', 'defective'].includes(item.reasonCode) ? 'scrap' : 'restock',
+            },
+          ])
+        )
+      )
+    }
+  }, [returnId])
+
+  useEffect(() => {
+    loadReturn()
+  }, [loadReturn])
+
+  function formatDate(date: Date | string | null) {
+    if (!date) return '-'
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  function formatCurrency(amount: number) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  function runAction(action: () => Promise<{ success: boolean; error?: string }>, successText: string) {
+    setMessage(null)
+    startTransition(async () => {
+      const result = await action()
+      if (result.success) {
+        setMessage({ type: 'success', text: successText })
+        loadReturn()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Something went wrong' })
+      }
+    })
+  }
+
+  function handleCancel() {
+    if (!confirm('Cancel this return request?')) return
+    runAction(() => cancelReturnAction(returnId), 'Return request cancelled')
+  }
+
+  function handleReview(action: 'approve' | 'reject') {
+    runAction(
+      () =>
+        reviewReturnAction(
+          returnId,
+          action,
+          action === 'approve' ? parseFloat(restockingFeePercent) || 0 : 0,
+          reviewNote.trim() || undefined
+        ),
+      action === 'approve' ? 'Return approved' : 'Return rejected'
+    )
+  }
+
+  function handleReceive() {
+    runAction(
+      () =>
+        receiveReturnAction(
+          returnId,
+          locationId,
+          Object.entries(received).map(([itemId, line]) => ({
+            itemId,
+            receivedQuantity: line.quantity,
+            disposition: line.disposition,
+          })),
+          receiveNote.trim() || undefined
+        ),
+      'Return received'
+    )
+  }
+
+  function handleIssueCredit() {
+    runAction(() => issueCreditAction(returnId), 'Credit issued')
+  }
+
+  if (!loaded) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!rma) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-heading font-semibold text-charcoal">Return not found</h2>
+        <Link href="/returns" className="btn-primary mt-4 inline-flex">
+          Back to Returns
+        </Link>
+      </div>
+    )
+  }
+
+  const statusColor = returnStatusColors[rma.status as keyof typeof returnStatusColors] || {
+    bg: 'bg-gray-100',
+    text: 'text-gray-700',
+  }
+  const requestedValue = rma.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+  const hasReceipt = ['received', 'credited'].includes(rma.status)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <Link href="/returns">Returns</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>{rma.rmaNumber}</span>
+        </nav>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-2">
+          <div>
+            <h1 className="page-title flex items-center gap-3">
+              {rma.rmaNumber}
+              <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusColor.bg} ${statusColor.text}`}>
+                {returnStatusLabels[rma.status as keyof typeof returnStatusLabels] || rma.status}
+              </span>
+            </h1>
+            <p className="page-subtitle">
+              Order{' '}
+              <Link href={rma.isAdmin ? `/admin/orders/${rma.order.id}` : `/orders/${rma.order.orderNumber}`} className="text-olive hover:underline">
+                {rma.order.orderNumber}
+              </Link>
+            </p>
+          </div>
+          {rma.canCancel && (
+            <button onClick={handleCancel} className="btn-outline" disabled={isPending}>
+              Cancel Request
+            </button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className={message.type === 'success' ? 'alert-success' : 'alert-error'}>{message.text}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <div className="card">
+            <div className="card-body space-y-4">
+              <h2 className="text-lg font-heading font-semibold text-charcoal">Items</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-medium-gray uppercase">
+                    <th className="py-2">Item</th>
+                    <th className="py-2">Reason</th>
+                    <th className="py-2 text-right">Qty</th>
+                    <th className="py-2 text-right">Unit Price</th>
+                    {hasReceipt && <th className="py-2 text-right">Received</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-light-gray">
+                  {rma.items.map((item) => (
+                    <tr key={item.id}>
+                      <td className="py-2">
+                        <p className="font-medium">{item.orderItem.product.name}</p>
+                        <p className="text-xs text-medium-gray">{item.orderItem.product.sku}</p>
+                      </td>
+                      <td className="py-2 text-medium-gray">
+                        {returnReasonLabels[item.reasonCode as keyof typeof returnReasonLabels] || item.reasonCode}
+                      </td>
+                      <td className="py-2 text-right">{item.quantity}</td>
+                      <td className="py-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                      {hasReceipt && (
+                        <td className="py-2 text-right">
+                          {item.receivedQuantity}
+                          {item.disposition && (
+                            <span className="block text-xs text-medium-gray">
+                              {returnDispositionLabels[item.disposition as keyof typeof returnDispositionLabels]}
+                            </span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {rma.notes && (
+                <div className="border-t border-light-gray pt-4">
+                  <h3 className="text-sm font-medium text-medium-gray uppercase mb-2">Dealer Notes</h3>
+                  <p className="text-charcoal whitespace-pre-wrap bg-light-beige p-4 rounded">{rma.notes}</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Review */}
+          {rma.canReview && (
+            <div className="card">
+              <div className="card-body space-y-4">
+                <h2 className="text-lg font-heading font-semibold text-charcoal">Review Return</h2>
+                <div>
+                  <label className="label">Restocking Fee (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={restockingFeePercent}
+                    onChange={(e) => setRestockingFeePercent(e.target.value)}
+                    className="input w-32"
+                  />
+                </div>
+                <div>
+                  <label className="label">Note (optional)</label>
+                  <textarea
+                    value={reviewNote}
+                    onChange={(e) => setReviewNote(e.target.value)}
+                    className="input w-full h-20"
+                    placeholder="Shipping instructions or the reason for rejecting..."
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => handleReview('reject')}
+                    disabled={isPending}
+                    className="btn-outline text-red-600"
+                  >
+                    Reject
+                  </button>
+                  <button onClick={() => handleReview('approve')} disabled={isPending} className="btn-primary">
+                    {isPending ? 'Processing...' : 'Approve Return'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Receiving */}
+          {rma.canReceive && (
+            <div className="card">
+              <div className="card-body space-y-4">
+                <h2 className="text-lg font-heading font-semibold text-charcoal">Receive Goods</h2>
+                <div>
+                  <label className="label">Receiving Location</label>
+                  <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="input w-full">
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name} ({location.code})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-medium-gray uppercase">
+                      <th className="py-2">Item</th>
+                      <th className="py-2 text-right">Authorized</th>
+                      <th className="py-2 text-right">Received</th>
+                      <th className="py-2 pl-4">Disposition</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-light-gray">
+                    {rma.items.map((item) => {
+                      const line = received[item.id] ?? { quantity: 0, disposition: 'restock' as Disposition }
+                      return (
+                        <tr key={item.id}>
+                          <td className="py-2">
+                            <p className="font-medium">{item.orderItem.product.name}</p>
+                            <p className="text-xs text-medium-gray">{item.orderItem.product.sku}</p>
+                          </td>
+                          <td className="py-2 text-right">{item.quantity}</td>
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              max={item.quantity}
+                              value={line.quantity}
+                              onChange={(e) =>
+                                setReceived({
+                                  ...received,
+                                  [item.id]: {
+                                    ...line,
+                                    quantity: Math.min(item.quantity, Math.max(0, parseInt(e.target.value) || 0)),
+                                  },
+                                })
+                              }
+                              className="input w-20 text-right"
+                            />
+                          </td>
+                          <td className="py-2 pl-4">
+                            <select
+                              value={line.disposition}
+                              onChange={(e) =>
+                                setReceived({
+                                  ...received,
+                                  [item.id]: { ...line, disposition: e.target.value as Disposition },
+                                })
+                              }
+                              className="input w-full"
+                            >
+                              {Object.entries(returnDispositionLabels).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                  {label}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+                <div>
+                  <label className="label">Note (optional)</label>
+                  <input
+                    type="text"
+                    value={receiveNote}
+                    onChange={(e) => setReceiveNote(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button onClick={handleReceive} disabled={isPending || !locationId} className="btn-primary">
+                    {isPending ? 'Receiving...' : 'Receive Return'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Credit Memos */}
+          {rma.creditMemos.length > 0 && (
+            <div className="card">
+              <div className="card-body">
+                <h2 className="text-lg font-heading font-semibold text-charcoal mb-4">Credit Memos</h2>
+                <ul className="divide-y divide-light-gray text-sm">
+                  {rma.creditMemos.map((memo) => (
+                    <li key={memo.id} className="py-2 flex justify-between">
+                      <span>
+                        <span className="font-medium text-charcoal">{memo.memoNumber}</span>
+                        <span className="text-medium-gray">
+                          {memo.invoice ? (
+                            <>
+                              {' '}applied to{' '}
+                              <Link href={`/invoices/${memo.invoice.invoiceNumber}`} className="text-olive hover:underline">
+                                {memo.invoice.invoiceNumber}
+                              </Link>
+                            </>
+                          ) : (
+                            ' held on account'
+                          )}
+                        </span>
+                      </span>
+                      <span className="font-medium text-olive">{formatCurrency(memo.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Amounts */}
+          <div className="card">
+            <div className="card-body space-y-3">
+              <h3 className="text-lg font-heading font-semibold text-charcoal">Amounts</h3>
+              <div className="flex justify-between text-sm">
+                <span className="text-medium-gray">Requested Value</span>
+                <span className="text-charcoal">{formatCurrency(requestedValue)}</span>
+              </div>
+              {rma.status !== 'requested' && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-medium-gray">Restocking Fee</span>
+                  <span className="text-charcoal">{rma.restockingFeePercent}%</span>
+                </div>
+              )}
+              {hasReceipt && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-medium-gray">Received Value</span>
+                    <span className="text-charcoal">{formatCurrency(rma.returnValue)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-medium-gray">Fee Deducted</span>
+                    <span className="text-charcoal">-{formatCurrency(rma.restockingFee)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium border-t border-light-gray pt-3">
+                    <span className="text-charcoal">Credit</span>
+                    <span className="text-olive">{formatCurrency(rma.creditAmount)}</span>
+                  </div>
+                </>
+              )}
+              {rma.canCredit && (
+                <button onClick={handleIssueCredit} disabled={isPending} className="btn-primary w-full">
+                  {isPending ? 'Issuing...' : 'Issue Credit Memo'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="card">
+            <div className="card-body space-y-3">
+              <h3 className="text-lg font-heading font-semibold text-charcoal">Details</h3>
+              {rma.isAdmin && (
+                <div>
+                  <p className="text-sm text-medium-gray">Dealer</p>
+                  <p className="font-medium text-charcoal">
+                    {rma.dealer.name} ({rma.dealer.code})
+                  </p>
+                </div>
+              )}
+              <div>
+                <p className="text-sm text-medium-gray">Requested By</p>
+                <p className="font-medium text-charcoal">
+                  {rma.requestedBy.firstName} {rma.requestedBy.lastName}
+                </p>
+              </div>
+              {rma.reviewedBy && (
+                <div>
+                  <p className="text-sm text-medium-gray">Reviewed By</p>
+                  <p className="font-medium text-charcoal">
+                    {rma.reviewedBy.firstName} {rma.reviewedBy.lastName}
+                  </p>
+                </div>
+              )}
+              {rma.reviewNotes && (
+                <div>
+                  <p className="text-sm text-medium-gray">Review Notes</p>
+                  <p className="text-charcoal">{rma.reviewNotes}</p>
+                </div>
+              )}
+              {rma.receivedLocation && (
+                <div>
+                  <p className="text-sm text-medium-gray">Received At</p>
+                  <p className="font-medium text-charcoal">{rma.receivedLocation.name}</p>
+                  <p className="text-xs text-medium-gray">{formatDate(rma.receivedAt)}</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Status History */}
+          <div className="card">
+            <div className="card-body">
+              <h3 className="text-lg font-heading font-semibold text-charcoal mb-4">Status History</h3>
+              <div className="space-y-3">
+                {rma.statusHistory.map((history, index) => (
+                  <div key={history.id} className="flex gap-3">
+                    <div className="flex flex-col items-center">
+                      <div className={`w-2 h-2 rounded-full ${index === 0 ? 'bg-olive' : 'bg-light-gray'}`} />
+                      {index < rma.statusHistory.length - 1 && <div className="w-0.5 h-full bg-light-gray" />}
+                    </div>
+                    <div className="pb-3">
+                      <p className="font-medium text-charcoal text-sm">
+                        {returnStatusLabels[history.toStatus as keyof typeof returnStatusLabels] || history.toStatus}
+                      </p>
+                      <p className="text-xs text-medium-gray">{formatDate(history.createdAt)}</p>
+                      {history.note && <p className="text-sm text-medium-gray mt-1">{history.note}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import {
+  listReturns,
+  getReturnStats,
+  getReturnableOrder,
+  createReturnRequest,
+} from '@/lib/services/returns'
+import { returnFilterSchema, createReturnSchema } from '@/lib/validations/returns'
+import { returnStatusLabels, returnStatusColors, type ReturnStatus } from '@/lib/return-constants'
+
+export type ReturnListItem = {
+  id: string
+  rmaNumber: string
+  orderNumber: string
+  status: ReturnStatus
+  statusLabel: string
+  statusColor: { bg: string; text: string }
+  unitCount: number
+  requestedValue: number
+  creditAmount: number
+  createdAt: string
+  dealerName: string
+  dealerCode: string
+}
+
+export type ReturnStatsResult = {
+  total: number
+  pending: number
+  awaitingGoods: number
+  awaitingCredit: number
+  totalCredited: number
+}
+
+// Get returns list
+export async function getReturns(filters?: {
+  status?: string
+  search?: string
+  page?: number
+  pageSize?: number
+}) {
+  const session = await auth()
+  if (!session?.user) {
+    return { returns: [], pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0 } }
+  }
+
+  const validatedFilters = returnFilterSchema.parse({
+    page: filters?.page || 1,
+    pageSize: filters?.pageSize || 20,
+    status: filters?.status || 'all',
+    search: filters?.search,
+  })
+
+  const result = await listReturns(validatedFilters, session.user.role, session.user.dealerId || null)
+
+  // Transform for UI
+  const returns: ReturnListItem[] = result.returns.map((rma) => ({
+    id: rma.id,
+    rmaNumber: rma.rmaNumber,
+    orderNumber: rma.order.orderNumber,
+    status: rma.status as ReturnStatus,
+    statusLabel: returnStatusLabels[rma.status as ReturnStatus] || rma.status,
+    statusColor: returnStatusColors[rma.status as ReturnStatus] || { bg: 'bg-gray-100', text: 'text-gray-700' },
+    unitCount: rma.items.reduce((sum, item) => sum + item.quantity, 0),
+    requestedValue: rma.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0),
+    creditAmount: rma.creditAmount,
+    createdAt: rma.createdAt.toISOString(),
+    dealerName: rma.dealer.name,
+    dealerCode: rma.dealer.code,
+  }))
+
+  return {
+    returns,
+    pagination: result.pagination,
+  }
+}
+
+// Get return stats
+export async function getReturnStatsAction(): Promise<ReturnStatsResult> {
+  const session = await auth()
+  if (!session?.user) {
+    return { total: 0, pending: 0, awaitingGoods: 0, awaitingCredit: 0, totalCredited: 0 }
+  }
+
+  return getReturnStats(session.user.role, session.user.dealerId || null)
+}
+
+// Get a delivered order's lines for the return request form
+export async function getReturnableOrderAction(orderNumber: string) {
+  const session = await auth()
+  if (!session?.user) {
+    return null
+  }
+
+  return getReturnableOrder(orderNumber, session.user.dealerId || null)
+}
+
+// Request a return
+export async function createReturnAction(input: {
+  orderId: string
+  notes?: string
+  items: Array<{ orderItemId: string; quantity: number; reasonCode: string }>
+}): Promise<{ success: boolean; returnId?: string; rmaNumber?: string; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  if (!session.user.dealerId) {
+    return { success: false, error: 'No dealer associated with this account' }
+  }
+
+  const validated = createReturnSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message || 'Invalid return request' }
+  }
+
+  return createReturnRequest(validated.data, session.user.id, session.user.dealerId)
+}
+
+// Check if user is admin
+export async function isUserAdmin(): Promise<boolean> {
+  const session = await auth()
+  if (!session?.user) return false
+  return ['super_admin', 'admin'].includes(session.user.role)
+}
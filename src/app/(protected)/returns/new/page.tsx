@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect, useTransition } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { getReturnableOrderAction, createReturnAction } from '../actions'
+import { returnReasonLabels, type ReturnReasonCode } from '@/lib/return-constants'
+
+type ReturnableOrder = Awaited<ReturnType<typeof getReturnableOrderAction>>
+
+export default function NewReturnPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const orderNumber = searchParams.get('order') || ''
+  const [order, setOrder] = useState<ReturnableOrder>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reasons, setReasons] = useState<Record<string, ReturnReasonCode>>({})
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    async function loadOrder() {
+      const data = orderNumber ? await getReturnableOrderAction(orderNumber) : null
+      setOrder(data)
+      setLoaded(true)
+    }
+    loadOrder()
+  }, [orderNumber])
+
+  function formatCurrency(amount: number) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  function handleSubmit() {
+    if (!order) return
+    setError(null)
+
+    const items = order.items
+      .filter((item) => (quantities[item.id] ?? 0) > 0)
+      .map((item) => ({
+        orderItemId: item.id,
+        quantity: quantities[item.id],
+        reasonCode: reasons[item.id] ?? 'other',
+      }))
+
+    startTransition(async () => {
+      const result = await createReturnAction({
+        orderId: order.id,
+        notes: notes.trim() || undefined,
+        items,
+      })
+      if (result.success && result.returnId) {
+        router.push(`/returns/${result.returnId}`)
+      } else {
+        setError(result.error || 'Failed to request return')
+      }
+    })
+  }
+
+  if (!loaded) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-heading font-semibold text-charcoal">Order not found</h2>
+        <p className="text-medium-gray mt-2">Start a return from a delivered order.</p>
+        <Link href="/orders" className="btn-primary mt-4 inline-flex">
+          View Orders
+        </Link>
+      </div>
+    )
+  }
+
+  const canReturn = order.status === 'delivered' && order.items.some((item) => item.returnableQuantity > 0)
+  const returnValue = order.items.reduce((sum, item) => sum + (quantities[item.id] ?? 0) * item.unitPrice, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <Link href="/returns">Returns</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>New Return</span>
+        </nav>
+        <h1 className="page-title">Request a Return</h1>
+        <p className="page-subtitle">Order {order.orderNumber}</p>
+      </div>
+
+      {error && <div className="alert-error">{error}</div>}
+
+      {!canReturn ? (
+        <div className="card">
+          <div className="card-body text-center text-medium-gray py-8">
+            {order.status === 'delivered'
+              ? 'Every item on this order is already on a return.'
+              : 'Returns can only be requested once the order has been delivered.'}
+          </div>
+        </div>
+      ) : (
+        <div className="card">
+          <div className="card-body space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-medium-gray uppercase">
+                  <th className="py-2">Item</th>
+                  <th className="py-2 text-right">Unit Price</th>
+                  <th className="py-2 text-right">Returnable</th>
+                  <th className="py-2 text-right">Return</th>
+                  <th className="py-2 pl-4">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-light-gray">
+                {order.items.map((item) => (
+                  <tr key={item.id}>
+                    <td className="py-2">
+                      <p className="font-medium">{item.productName}</p>
+                      <p className="text-xs text-medium-gray">{item.productSku}</p>
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                    <td className="py-2 text-right">{item.returnableQuantity}</td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={item.returnableQuantity}
+                        disabled={item.returnableQuantity === 0}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setQuantities({
+                            ...quantities,
+                            [item.id]: Math.min(item.returnableQuantity, Math.max(0, parseInt(e.target.value) || 0)),
+                          })
+                        }
+                        className="input w-20 text-right"
+                      />
+                    </td>
+                    <td className="py-2 pl-4">
+                      <select
+                        value={reasons[item.id] ?? 'other'}
+                        disabled={(quantities[item.id] ?? 0) === 0}
+                        onChange={(e) => setReasons({ ...reasons, [item.id]: e.target.value as ReturnReasonCode })}
+                        className="input w-full"
+                      >
+                        {Object.entries(returnReasonLabels).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div>
+              <label className="label">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="input w-full h-24"
+                placeholder="Describe the problem, packaging condition, etc."
+              />
+            </div>
+
+            <div className="flex items-center justify-between border-t border-light-gray pt-4">
+              <p className="text-sm text-medium-gray">
+                Return value: <span className="font-medium text-charcoal">{formatCurrency(returnValue)}</span>
+                <span className="block text-xs">A restocking fee may be deducted when the return is approved.</span>
+              </p>
+              <div className="flex gap-2">
+                <Link href={`/orders/${order.orderNumber}`} className="btn-outline">
+                  Cancel
+                </Link>
+                <button onClick={handleSubmit} disabled={isPending || returnValue === 0} className="btn-primary">
+                  {isPending ? 'Submitting...' : 'Submit Return Request'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import { useState, useEffect, useCallback, useTransition } from 'react'
+import Link from 'next/link'
+import {
+  getReturns,
+  getReturnStatsAction,
+  isUserAdmin,
+  type ReturnListItem,
+  type ReturnStatsResult,
+} from './actions'
+
+const statusFilterOptions = [
+  { value: 'all', label: 'All Statuses' },
+  { value: 'requested', label: 'Requested' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'received', label: 'Received' },
+  { value: 'credited', label: 'Credited' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Cancelled' },
+]
+
+export default function ReturnsPage() {
+  const [returns, setReturns] = useState<ReturnListItem[]>([])
+  const [stats, setStats] = useState<ReturnStatsResult | null>(null)
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 })
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [isPending, startTransition] = useTransition()
+  const [mounted, setMounted] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
+
+  const loadReturns = useCallback((page: number, status: string, search: string) => {
+    startTransition(async () => {
+      const result = await getReturns({
+        status: status !== 'all' ? status : undefined,
+        search: search || undefined,
+        page,
+        pageSize: 20,
+      })
+      setReturns(result.returns)
+      setPagination(result.pagination)
+    })
+  }, [])
+
+  const loadStats = useCallback(async () => {
+    const result = await getReturnStatsAction()
+    setStats(result)
+  }, [])
+
+  const checkAdmin = useCallback(async () => {
+    const admin = await isUserAdmin()
+    setIsAdmin(admin)
+  }, [])
+
+  useEffect(() => {
+    setMounted(true)
+    loadReturns(1, 'all', '')
+    loadStats()
+    checkAdmin()
+  }, [loadReturns, loadStats, checkAdmin])
+
+  function handleStatusChange(value: string) {
+    setStatusFilter(value)
+    loadReturns(1, value, searchQuery)
+  }
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  function formatCurrency(amount: number) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  if (!mounted) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>Returns</span>
+        </nav>
+        <h1 className="page-title">Returns</h1>
+        <p className="page-subtitle">
+          {isAdmin
+            ? 'Review, receive and credit dealer return requests'
+            : 'Track returns on delivered parts orders. Start a return from the order page.'}
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="card">
+            <div className="card-body py-4">
+              <p className="text-sm text-medium-gray">Total Returns</p>
+              <p className="text-2xl font-heading font-bold text-charcoal">{stats.total}</p>
+            </div>
+          </div>
+          <div className="card">
+            <div className="card-body py-4">
+              <p className="text-sm text-medium-gray">Awaiting Review</p>
+              <p className="text-2xl font-heading font-bold text-yellow-600">{stats.pending}</p>
+            </div>
+          </div>
+          <div className="card">
+            <div className="card-body py-4">
+              <p className="text-sm text-medium-gray">Awaiting Goods</p>
+              <p className="text-2xl font-heading font-bold text-blue-600">{stats.awaitingGoods}</p>
+            </div>
+          </div>
+          <div className="card">
+            <div className="card-body py-4">
+              <p className="text-sm text-medium-gray">Awaiting Credit</p>
+              <p className="text-2xl font-heading font-bold text-purple-600">{stats.awaitingCredit}</p>
+            </div>
+          </div>
+          <div className="card">
+            <div className="card-body py-4">
+              <p className="text-sm text-medium-gray">Credited</p>
+              <p className="text-xl font-heading font-bold text-olive">{formatCurrency(stats.totalCredited)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="card">
+        <div className="card-body">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <input
+                type="text"
+                placeholder="Search by RMA # or order #..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && loadReturns(1, statusFilter, searchQuery)}
+                className="input w-full"
+              />
+            </div>
+            <div className="sm:w-44">
+              <select
+                value={statusFilter}
+                onChange={(e) => handleStatusChange(e.target.value)}
+                className="input w-full"
+              >
+                {statusFilterOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button onClick={() => loadReturns(1, statusFilter, searchQuery)} className="btn-primary px-6">
+              Search
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Returns Table */}
+      <div className="card">
+        <div className="overflow-x-auto">
+          {isPending ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-charcoal">No returns found</h3>
+              <p className="mt-2 text-medium-gray">
+                {searchQuery || statusFilter !== 'all'
+                  ? 'Try adjusting your search or filters'
+                  : 'Returns can be requested from any delivered order'}
+              </p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-light-beige">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                    RMA #
+                  </th>
+                  {isAdmin && (
+                    <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                      Dealer
+                    </th>
+                  )}
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                    Order
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-heading font-semibold text-charcoal uppercase">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">
+                    Units
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">
+                    Amount
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">
+                    Requested
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-light-gray">
+                {returns.map((rma) => (
+                  <tr key={rma.id} className="hover:bg-light-beige/50">
+                    <td className="px-4 py-4">
+                      <Link href={`/returns/${rma.id}`} className="font-medium text-olive hover:underline">
+                        {rma.rmaNumber}
+                      </Link>
+                    </td>
+                    {isAdmin && (
+                      <td className="px-4 py-4">
+                        <p className="font-medium text-charcoal">{rma.dealerName}</p>
+                        <p className="text-sm text-medium-gray">{rma.dealerCode}</p>
+                      </td>
+                    )}
+                    <td className="px-4 py-4 text-sm text-charcoal">{rma.orderNumber}</td>
+                    <td className="px-4 py-4 text-center">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${rma.statusColor.bg} ${rma.statusColor.text}`}
+                      >
+                        {rma.statusLabel}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4 text-right text-charcoal">{rma.unitCount}</td>
+                    <td className="px-4 py-4 text-right">
+                      <p className="font-medium text-charcoal">{formatCurrency(rma.requestedValue)}</p>
+                      {rma.status === 'credited' && (
+                        <p className="text-sm text-olive">{formatCurrency(rma.creditAmount)} credited</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 text-sm text-medium-gray">{formatDate(rma.createdAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="card-footer flex items-center justify-between">
+            <p className="text-sm text-medium-gray">
+              Showing {(pagination.page - 1) * pagination.pageSize + 1} to{' '}
+              {Math.min(pagination.page * pagination.pageSize, pagination.total)} of {pagination.total} returns
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => loadReturns(pagination.page - 1, statusFilter, searchQuery)}
+                disabled={pagination.page === 1 || isPending}
+                className="btn-outline btn-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => loadReturns(pagination.page + 1, statusFilter, searchQuery)}
+                disabled={pagination.page === pagination.totalPages || isPending}
+                className="btn-outline btn-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
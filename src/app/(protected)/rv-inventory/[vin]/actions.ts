@@ -2,7 +2,17 @@
 
 import { getServerSession } from '@/lib/auth'
 import { getRVUnitByVin } from '@/lib/services/rv-inventory'
+import { getUnitVehicleInvoices, generateVehicleInvoiceHtml } from '@/lib/services/vehicle-invoice'
+import {
+  getUnitWarrantyCoverage,
+  registerExtendedWarranty,
+  cancelExtendedWarranty,
+} from '@/lib/services/warranty-coverage'
+import { extendedWarrantySchema, type ExtendedWarrantyInput } from '@/lib/validations/warranty'
 import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+
+type ActionResult = { success: boolean; error?: string }
 
 export async function fetchRVUnitByVin(vin: string) {
   const session = await getServerSession()
@@ -67,3 +77,65 @@ export async function fetchUnitOrders(vin: string) {
 
   return unit?.vehicleOrders || []
 }
+
+export async function fetchUnitInvoices(vin: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getUnitVehicleInvoices(session.user.dealerId, vin)
+}
+
+export async function fetchUnitInvoiceHtml(invoiceId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return generateVehicleInvoiceHtml(session.user.dealerId, invoiceId)
+}
+
+export async function fetchUnitWarrantyCoverage(vin: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getUnitWarrantyCoverage(session.user.dealerId, vin)
+}
+
+export async function registerUnitExtendedWarranty(vin: string, input: ExtendedWarrantyInput): Promise<ActionResult> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = extendedWarrantySchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid contract' }
+  }
+
+  try {
+    await registerExtendedWarranty(session.user.dealerId, vin, validated.data, session.user.id)
+    revalidatePath(`/rv-inventory/${vin}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to register contract' }
+  }
+}
+
+export async function cancelUnitExtendedWarranty(vin: string): Promise<ActionResult> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await cancelExtendedWarranty(session.user.dealerId, vin)
+    revalidatePath(`/rv-inventory/${vin}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel contract' }
+  }
+}
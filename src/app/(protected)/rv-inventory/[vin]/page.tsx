@@ -24,9 +24,32 @@ import {
   Fuel,
   Bed,
   Maximize,
+  Printer,
+  Receipt,
 } from 'lucide-react'
-import { fetchRVUnitByVin, fetchUnitServiceHistory, fetchUnitWarrantyClaims } from './actions'
-import type { RVUnit, RVUnitStatus, RVUnitCondition } from '@/types/rv'
+import {
+  fetchRVUnitByVin,
+  fetchUnitServiceHistory,
+  fetchUnitWarrantyClaims,
+  fetchUnitInvoices,
+  fetchUnitInvoiceHtml,
+  fetchUnitWarrantyCoverage,
+  registerUnitExtendedWarranty,
+  cancelUnitExtendedWarranty,
+} from './actions'
+import type { RVUnit, RVUnitStatus, RVUnitCondition, UnitWarrantyCoverage, VehicleInvoice } from '@/types/rv'
+import {
+  COVERAGE_STATUS_LABELS,
+  WARRANTY_COMPONENTS,
+  WARRANTY_COMPONENT_LABELS,
+  type WarrantyComponent,
+} from '@/lib/warranty-coverage'
+import { vehicleInvoiceStatusColors, vehicleInvoiceStatusLabels } from '@/lib/vehicle-order-constants'
+import {
+  repairOrderStatusColors,
+  repairOrderStatusLabels,
+  type RepairOrderStatus,
+} from '@/lib/service-order-constants'
 
 const STATUS_COLORS: Record<RVUnitStatus, string> = {
   in_transit: 'bg-blue-100 text-blue-800',
@@ -53,6 +76,16 @@ const CONDITION_LABELS: Record<RVUnitCondition, string> = {
   certified_preowned: 'Certified Pre-Owned',
 }
 
+const emptyContractForm = {
+  contractNumber: '',
+  provider: '',
+  components: [] as WarrantyComponent[],
+  startDate: '',
+  endDate: '',
+  mileageCap: '',
+  deductible: '',
+}
+
 function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -80,6 +113,15 @@ export default function RVUnitDetailPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<'details' | 'service' | 'warranty' | 'orders'>('details')
+  const [invoices, setInvoices] = useState<VehicleInvoice[] | null>(null)
+  const [serviceRecords, setServiceRecords] = useState<Awaited<ReturnType<typeof fetchUnitServiceHistory>> | null>(
+    null
+  )
+  const [coverage, setCoverage] = useState<UnitWarrantyCoverage | null>(null)
+  const [contractForm, setContractForm] = useState(emptyContractForm)
+  const [showContractForm, setShowContractForm] = useState(false)
+  const [contractError, setContractError] = useState<string | null>(null)
+  const [savingContract, setSavingContract] = useState(false)
 
   useEffect(() => {
     async function loadUnit() {
@@ -101,6 +143,91 @@ export default function RVUnitDetailPage() {
     loadUnit()
   }, [vin])
 
+  useEffect(() => {
+    if (activeTab !== 'orders' || invoices !== null) return
+    fetchUnitInvoices(vin)
+      .then(setInvoices)
+      .catch((err) => {
+        console.error(err)
+        setInvoices([])
+      })
+  }, [activeTab, invoices, vin])
+
+  useEffect(() => {
+    if (activeTab !== 'service' || serviceRecords !== null) return
+    fetchUnitServiceHistory(vin)
+      .then(setServiceRecords)
+      .catch((err) => {
+        console.error(err)
+        setServiceRecords([])
+      })
+  }, [activeTab, serviceRecords, vin])
+
+  useEffect(() => {
+    if (activeTab !== 'warranty' || coverage !== null) return
+    fetchUnitWarrantyCoverage(vin)
+      .then(setCoverage)
+      .catch((err) => console.error(err))
+  }, [activeTab, coverage, vin])
+
+  function toggleContractComponent(component: WarrantyComponent) {
+    setContractForm({
+      ...contractForm,
+      components: contractForm.components.includes(component)
+        ? contractForm.components.filter((c) => c !== component)
+        : [...contractForm.components, component],
+    })
+  }
+
+  async function handleRegisterContract() {
+    setSavingContract(true)
+    setContractError(null)
+    const result = await registerUnitExtendedWarranty(vin, {
+      contractNumber: contractForm.contractNumber,
+      provider: contractForm.provider,
+      components: contractForm.components,
+      startDate: new Date(contractForm.startDate),
+      endDate: new Date(contractForm.endDate),
+      mileageCap: contractForm.mileageCap ? parseInt(contractForm.mileageCap) : undefined,
+      deductible: parseFloat(contractForm.deductible) || 0,
+    })
+    setSavingContract(false)
+    if (result.success) {
+      setShowContractForm(false)
+      setContractForm(emptyContractForm)
+      setCoverage(await fetchUnitWarrantyCoverage(vin))
+    } else {
+      setContractError(result.error || 'Failed to register contract')
+    }
+  }
+
+  async function handleCancelContract() {
+    if (!coverage?.extendedWarranty) return
+    if (!confirm(`Cancel extended warranty ${coverage.extendedWarranty.contractNumber}?`)) return
+    const result = await cancelUnitExtendedWarranty(vin)
+    if (result.success) {
+      setCoverage(await fetchUnitWarrantyCoverage(vin))
+    } else {
+      alert(result.error)
+    }
+  }
+
+  async function handlePrintInvoice(invoiceId: string) {
+    const html = await fetchUnitInvoiceHtml(invoiceId)
+    if (!html) return
+
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.focus()
+      // Wait for content to load
+      setTimeout(() => {
+        printWindow.print()
+      }, 500)
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -156,6 +283,13 @@ export default function RVUnitDetailPage() {
         </div>
 
         <div className="flex items-center gap-3">
+          <Link
+            href={`/service/pdi/${unit.vin}`}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <CheckCircle className="h-4 w-4" />
+            PDI
+          </Link>
           <Link
             href={`/warranty/new?vin=${unit.vin}`}
             className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
@@ -476,48 +610,318 @@ export default function RVUnitDetailPage() {
               href={`/service/new?vin=${unit.vin}`}
               className="text-sm text-blue-600 hover:text-blue-700"
             >
-              + Add Service Record
+              + Open Repair Order
             </Link>
           </div>
-          <div className="text-center py-8 text-gray-500">
-            <Settings className="mx-auto h-12 w-12 text-gray-300" />
-            <p className="mt-2">No service records found for this unit.</p>
-          </div>
+          {serviceRecords === null ? (
+            <div className="text-gray-500">Loading service history...</div>
+          ) : serviceRecords.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Settings className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-2">No service records found for this unit.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 font-medium">RO</th>
+                  <th className="py-2 font-medium">Opened</th>
+                  <th className="py-2 font-medium">Description</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {serviceRecords.map((record) => (
+                  <tr key={record.id}>
+                    <td className="py-2 font-medium">
+                      {record.serviceNumber ? (
+                        <Link href={`/service/${record.serviceNumber}`} className="text-blue-600 hover:text-blue-700">
+                          {record.serviceNumber}
+                        </Link>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600">{formatDate(record.dateIn)}</td>
+                    <td className="py-2 text-gray-900">{record.description}</td>
+                    <td className="py-2">
+                      <span
+                        className={`rounded-full px-2 py-1 text-xs font-medium ${
+                          repairOrderStatusColors[record.status as RepairOrderStatus]
+                        }`}
+                      >
+                        {repairOrderStatusLabels[record.status as RepairOrderStatus]}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(record.totalCost ?? 0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
       )}
 
       {activeTab === 'warranty' && (
-        <div className="rounded-lg border bg-white p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">Warranty Claims</h3>
-            <Link
-              href={`/warranty/new?vin=${unit.vin}`}
-              className="text-sm text-blue-600 hover:text-blue-700"
-            >
-              + Submit New Claim
-            </Link>
+        <div className="space-y-6">
+          <div className="rounded-lg border bg-white p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Warranty Coverage</h3>
+                <p className="text-sm text-gray-500">
+                  {coverage?.planName ?? 'Unit warranty dates'} as of {formatDate(coverage?.asOf)}
+                </p>
+              </div>
+            </div>
+            {!coverage ? (
+              <div className="text-sm text-gray-500">Loading coverage...</div>
+            ) : (
+              <div className="space-y-4">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Component</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {coverage.components.map((decision) => (
+                      <tr key={decision.component}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {WARRANTY_COMPONENT_LABELS[decision.component as WarrantyComponent] ?? decision.component}
+                        </td>
+                        <td className={`px-4 py-2 text-sm font-medium ${decision.covered ? 'text-green-600' : 'text-red-600'}`}>
+                          {COVERAGE_STATUS_LABELS[decision.status]}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">{decision.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="border-t pt-4">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-900">Extended Warranty</h4>
+                    {coverage.extendedWarranty?.status === 'active' ? (
+                      <button onClick={handleCancelContract} className="text-sm text-red-600 hover:text-red-700">
+                        Cancel Contract
+                      </button>
+                    ) : (
+                      !showContractForm && (
+                        <button
+                          onClick={() => setShowContractForm(true)}
+                          className="text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          + Register Contract
+                        </button>
+                      )
+                    )}
+                  </div>
+                  {coverage.extendedWarranty ? (
+                    <p className="mt-1 text-sm text-gray-600">
+                      {coverage.extendedWarranty.contractNumber} ({coverage.extendedWarranty.provider}),{' '}
+                      {formatDate(coverage.extendedWarranty.startDate)} to {formatDate(coverage.extendedWarranty.endDate)}
+                      {coverage.extendedWarranty.mileageCap &&
+                        ` or ${coverage.extendedWarranty.mileageCap.toLocaleString()} miles`}
+                      {', '}
+                      {coverage.extendedWarranty.components.length > 0
+                        ? coverage.extendedWarranty.components
+                            .map((c) => WARRANTY_COMPONENT_LABELS[c as WarrantyComponent] ?? c)
+                            .join(', ')
+                        : 'all components'}
+                      {coverage.extendedWarranty.deductible > 0 &&
+                        `, ${formatCurrency(coverage.extendedWarranty.deductible)} deductible`}
+                      {coverage.extendedWarranty.status === 'cancelled' && (
+                        <span className="ml-2 text-red-600">(cancelled)</span>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-500">No extended warranty on this unit.</p>
+                  )}
+
+                  {showContractForm && (
+                    <div className="mt-4 space-y-3 rounded-md bg-gray-50 p-4">
+                      {contractError && <p className="text-sm text-red-600">{contractError}</p>}
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <input
+                          type="text"
+                          placeholder="Contract number"
+                          value={contractForm.contractNumber}
+                          onChange={(e) => setContractForm({ ...contractForm, contractNumber: e.target.value })}
+                          className="rounded-md border-gray-300 text-sm"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Provider"
+                          value={contractForm.provider}
+                          onChange={(e) => setContractForm({ ...contractForm, provider: e.target.value })}
+                          className="rounded-md border-gray-300 text-sm"
+                        />
+                        <input
+                          type="number"
+                          placeholder="Deductible"
+                          value={contractForm.deductible}
+                          onChange={(e) => setContractForm({ ...contractForm, deductible: e.target.value })}
+                          className="rounded-md border-gray-300 text-sm"
+                          min="0"
+                        />
+                        <label className="text-xs text-gray-500">
+                          Start
+                          <input
+                            type="date"
+                            value={contractForm.startDate}
+                            onChange={(e) => setContractForm({ ...contractForm, startDate: e.target.value })}
+                            className="block w-full rounded-md border-gray-300 text-sm"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          End
+                          <input
+                            type="date"
+                            value={contractForm.endDate}
+                            onChange={(e) => setContractForm({ ...contractForm, endDate: e.target.value })}
+                            className="block w-full rounded-md border-gray-300 text-sm"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          Mileage cap
+                          <input
+                            type="number"
+                            placeholder="None"
+                            value={contractForm.mileageCap}
+                            onChange={(e) => setContractForm({ ...contractForm, mileageCap: e.target.value })}
+                            className="block w-full rounded-md border-gray-300 text-sm"
+                            min="1"
+                          />
+                        </label>
+                      </div>
+                      <div className="flex flex-wrap gap-3 text-sm">
+                        <span className="text-gray-500">Covers (none checked covers everything):</span>
+                        {WARRANTY_COMPONENTS.map((component) => (
+                          <label key={component} className="flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              checked={contractForm.components.includes(component)}
+                              onChange={() => toggleContractComponent(component)}
+                            />
+                            {WARRANTY_COMPONENT_LABELS[component]}
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setShowContractForm(false)}
+                          className="rounded-md border px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleRegisterContract}
+                          disabled={savingContract}
+                          className="rounded-md bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Register
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
-          <div className="text-center py-8 text-gray-500">
-            <Shield className="mx-auto h-12 w-12 text-gray-300" />
-            <p className="mt-2">No warranty claims found for this unit.</p>
+
+          <div className="rounded-lg border bg-white p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Warranty Claims</h3>
+              <Link
+                href={`/warranty/new?vin=${unit.vin}`}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                + Submit New Claim
+              </Link>
+            </div>
+            <div className="text-center py-8 text-gray-500">
+              <Shield className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-2">No warranty claims found for this unit.</p>
+            </div>
           </div>
         </div>
       )}
 
       {activeTab === 'orders' && (
-        <div className="rounded-lg border bg-white p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">Order History</h3>
-            <Link
-              href={`/vehicle-orders/new?vin=${unit.vin}`}
-              className="text-sm text-blue-600 hover:text-blue-700"
-            >
-              + Create Order
-            </Link>
+        <div className="space-y-6">
+          <div className="rounded-lg border bg-white p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Order History</h3>
+              <Link
+                href={`/vehicle-orders/new?vin=${unit.vin}`}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                + Create Order
+              </Link>
+            </div>
+            <div className="text-center py-8 text-gray-500">
+              <FileText className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-2">No orders found for this unit.</p>
+            </div>
           </div>
-          <div className="text-center py-8 text-gray-500">
-            <FileText className="mx-auto h-12 w-12 text-gray-300" />
-            <p className="mt-2">No orders found for this unit.</p>
+
+          {/* Vehicle Invoices */}
+          <div className="rounded-lg border bg-white p-6">
+            <h3 className="mb-4 text-lg font-semibold text-gray-900">Invoices</h3>
+            {invoices === null ? (
+              <div className="text-gray-500">Loading invoices...</div>
+            ) : invoices.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <Receipt className="mx-auto h-12 w-12 text-gray-300" />
+                <p className="mt-2">This unit has not been invoiced.</p>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 font-medium">Invoice</th>
+                    <th className="py-2 font-medium">Order</th>
+                    <th className="py-2 font-medium">Date</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium text-right">Total</th>
+                    <th className="py-2 font-medium text-right">Balance</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {invoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="py-2 font-medium text-gray-900">{invoice.invoiceNumber}</td>
+                      <td className="py-2">
+                        <Link href={`/vehicle-orders/${invoice.orderNumber}`} className="text-blue-600 hover:text-blue-700">
+                          {invoice.orderNumber}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-gray-600">{formatDate(invoice.createdAt)}</td>
+                      <td className="py-2">
+                        <span className={`rounded-full px-2 py-1 text-xs font-medium ${vehicleInvoiceStatusColors[invoice.status]}`}>
+                          {vehicleInvoiceStatusLabels[invoice.status]}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">{formatCurrency(invoice.totalAmount)}</td>
+                      <td className="py-2 text-right">{formatCurrency(invoice.balanceDue)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handlePrintInvoice(invoice.id)}
+                          className="text-gray-400 hover:text-gray-700"
+                          title="Print invoice"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,683 @@
+'use client'
+
+import { useState, useEffect, useCallback, useTransition } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { AlertTriangle, ArrowLeft, Clock, Package, Plus, Search, Shield, Wrench, X } from 'lucide-react'
+import {
+  fetchRepairOrder,
+  fetchServiceTechnicians,
+  searchServiceParts,
+  addLine,
+  saveLine,
+  deleteLine,
+  addPart,
+  removePart,
+  clockIn,
+  clockOut,
+  closeOrder,
+  cancelOrder,
+  claimWarrantyLines,
+} from '../actions'
+import {
+  OPEN_REPAIR_ORDER_STATUSES,
+  SERVICE_PAY_TYPES,
+  getRepairOrderCloseBlockers,
+  type ServicePayType,
+} from '@/lib/service-repair-order'
+import {
+  repairOrderStatusColors,
+  repairOrderStatusLabels,
+  servicePayTypeColors,
+  servicePayTypeLabels,
+} from '@/lib/service-order-constants'
+import type { RepairOrder, RepairOrderLine } from '@/types/rv'
+
+type ActionResult = { success: boolean; error?: string }
+type Technician = { id: string; name: string }
+type PartResult = Awaited<ReturnType<typeof searchServiceParts>>[number]
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: Date | string | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function formatTime(date: Date | string | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function RepairOrderLineCard({
+  line,
+  editable,
+  technicians,
+  defaultTechnicianId,
+  isPending,
+  run,
+  roNumber,
+}: {
+  line: RepairOrderLine
+  editable: boolean
+  technicians: Technician[]
+  defaultTechnicianId: string
+  isPending: boolean
+  run: (action: () => Promise<ActionResult>, successText: string) => void
+  roNumber: string
+}) {
+  const [findings, setFindings] = useState({
+    cause: line.cause ?? '',
+    correction: line.correction ?? '',
+    subletVendor: line.subletVendor ?? '',
+    subletCost: line.subletCost ? line.subletCost.toString() : '',
+  })
+  const [partQuery, setPartQuery] = useState('')
+  const [partResults, setPartResults] = useState<PartResult[] | null>(null)
+  const [partQuantity, setPartQuantity] = useState('1')
+  const [technicianId, setTechnicianId] = useState(defaultTechnicianId)
+
+  useEffect(() => {
+    setFindings({
+      cause: line.cause ?? '',
+      correction: line.correction ?? '',
+      subletVendor: line.subletVendor ?? '',
+      subletCost: line.subletCost ? line.subletCost.toString() : '',
+    })
+  }, [line.cause, line.correction, line.subletVendor, line.subletCost])
+
+  const claimed = !!line.warrantyClaimId
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50'
+
+  async function handlePartSearch() {
+    setPartResults(await searchServiceParts(partQuery))
+  }
+
+  function handleAddPart(part: PartResult) {
+    run(
+      () => addPart(roNumber, line.id, { partNumber: part.partNumber, quantity: parseInt(partQuantity) || 1 }),
+      `${part.partNumber} added to line ${line.lineNumber}`
+    )
+    setPartQuery('')
+    setPartResults(null)
+    setPartQuantity('1')
+  }
+
+  return (
+    <div className="border rounded-lg p-6 bg-white space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Line {line.lineNumber}</h2>
+          {editable && !claimed ? (
+            <select
+              value={line.payType}
+              onChange={(e) =>
+                run(
+                  () => saveLine(roNumber, line.id, { payType: e.target.value as ServicePayType }),
+                  `Line ${line.lineNumber} updated`
+                )
+              }
+              disabled={isPending}
+              className="px-2 py-1 border border-gray-300 rounded text-xs"
+            >
+              {SERVICE_PAY_TYPES.map((payType) => (
+                <option key={payType} value={payType}>
+                  {servicePayTypeLabels[payType]}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${servicePayTypeColors[line.payType]}`}>
+              {servicePayTypeLabels[line.payType]}
+            </span>
+          )}
+          {line.warrantyClaimId && (
+            <Link href={`/warranty/${line.warrantyClaimId}`} className="text-xs text-purple-700 hover:underline">
+              Claim {line.warrantyClaimNumber}
+            </Link>
+          )}
+        </div>
+        {editable && line.parts.length === 0 && line.laborEntries.length === 0 && (
+          <button
+            onClick={() => run(() => deleteLine(roNumber, line.id), `Line ${line.lineNumber} removed`)}
+            disabled={isPending}
+            className="text-gray-400 hover:text-red-600"
+            title="Remove line"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Complaint / Cause / Correction */}
+      <div className="space-y-3 text-sm">
+        <div>
+          <p className="text-xs font-medium uppercase text-gray-500">Complaint</p>
+          <p className="text-gray-900">{line.complaint}</p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium uppercase text-gray-500 mb-1">Cause</label>
+          <textarea
+            value={findings.cause}
+            onChange={(e) => setFindings({ ...findings, cause: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+            rows={2}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium uppercase text-gray-500 mb-1">Correction</label>
+          <textarea
+            value={findings.correction}
+            onChange={(e) => setFindings({ ...findings, correction: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+            rows={2}
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={findings.subletVendor}
+            onChange={(e) => setFindings({ ...findings, subletVendor: e.target.value })}
+            disabled={!editable}
+            className={`${inputClass} col-span-2`}
+            placeholder="Sublet vendor"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={findings.subletCost}
+            onChange={(e) => setFindings({ ...findings, subletCost: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+            placeholder="Sublet $"
+          />
+        </div>
+        {editable && (
+          <button
+            onClick={() =>
+              run(
+                () =>
+                  saveLine(roNumber, line.id, {
+                    cause: findings.cause,
+                    correction: findings.correction,
+                    subletVendor: findings.subletVendor,
+                    subletCost: parseFloat(findings.subletCost) || 0,
+                  }),
+                `Line ${line.lineNumber} saved`
+              )
+            }
+            disabled={isPending}
+            className="px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Save Line
+          </button>
+        )}
+      </div>
+
+      {/* Parts */}
+      <div className="space-y-2 text-sm">
+        <h3 className="flex items-center gap-2 font-medium text-gray-900">
+          <Package className="h-4 w-4" />
+          Parts
+        </h3>
+        {line.parts.length === 0 ? (
+          <p className="text-gray-500 italic">No parts</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {line.parts.map((part) => (
+                <tr key={part.id}>
+                  <td className="py-1 font-mono text-xs text-gray-600">{part.partNumber}</td>
+                  <td className="py-1 text-gray-900">{part.name}</td>
+                  <td className="py-1 text-right text-gray-600">
+                    {part.quantity} × {formatCurrency(part.unitPrice)}
+                  </td>
+                  <td className="py-1 text-right font-medium">{formatCurrency(part.quantity * part.unitPrice)}</td>
+                  <td className="py-1 text-right w-8">
+                    {editable && !claimed && (
+                      <button
+                        onClick={() => run(() => removePart(roNumber, part.id), `${part.partNumber} returned to stock`)}
+                        disabled={isPending}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Return to stock"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {editable && !claimed && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={partQuery}
+                onChange={(e) => setPartQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handlePartSearch()
+                  }
+                }}
+                className={inputClass}
+                placeholder="Search parts by number or name"
+              />
+              <input
+                type="number"
+                min="1"
+                value={partQuantity}
+                onChange={(e) => setPartQuantity(e.target.value)}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                title="Quantity"
+              />
+              <button
+                onClick={handlePartSearch}
+                disabled={partQuery.trim().length < 2}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                title="Search"
+              >
+                <Search className="h-4 w-4" />
+              </button>
+            </div>
+            {partResults && (
+              <div className="border rounded-lg divide-y divide-gray-100">
+                {partResults.length === 0 ? (
+                  <p className="px-3 py-2 text-gray-500">No matching parts</p>
+                ) : (
+                  partResults.map((part) => (
+                    <button
+                      key={part.id}
+                      onClick={() => handleAddPart(part)}
+                      disabled={isPending || part.available < (parseInt(partQuantity) || 1)}
+                      className="w-full px-3 py-2 flex justify-between text-left hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <span>
+                        <span className="font-mono text-xs text-gray-600">{part.partNumber}</span> {part.name}
+                      </span>
+                      <span className="text-gray-600">
+                        {formatCurrency(part.listPrice)} · {part.available} available
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Labor */}
+      <div className="space-y-2 text-sm">
+        <h3 className="flex items-center gap-2 font-medium text-gray-900">
+          <Clock className="h-4 w-4" />
+          Labor
+        </h3>
+        {line.laborEntries.length === 0 ? (
+          <p className="text-gray-500 italic">No time clocked</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {line.laborEntries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-1 text-gray-900">{entry.technicianName}</td>
+                  <td className="py-1 text-gray-600">{formatTime(entry.clockIn)}</td>
+                  <td className="py-1 text-gray-600">{entry.clockOut ? formatTime(entry.clockOut) : 'On the clock'}</td>
+                  <td className="py-1 text-right font-medium">
+                    {entry.hours !== undefined ? `${entry.hours.toFixed(1)} hrs` : ''}
+                    {editable && !entry.clockOut && (
+                      <button
+                        onClick={() => run(() => clockOut(roNumber, entry.id), `${entry.technicianName} clocked out`)}
+                        disabled={isPending}
+                        className="px-3 py-1 bg-orange-600 text-white rounded text-xs font-medium hover:bg-orange-700 disabled:opacity-50"
+                      >
+                        Clock Out
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {editable && technicians.length > 0 && (
+          <div className="flex gap-2">
+            <select
+              value={technicianId}
+              onChange={(e) => setTechnicianId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {technicians.map((technician) => (
+                <option key={technician.id} value={technician.id}>
+                  {technician.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => run(() => clockIn(roNumber, line.id, technicianId), 'Clocked in')}
+              disabled={isPending || !technicianId}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              Clock In
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function RepairOrderPage() {
+  const params = useParams<{ roNumber: string }>()
+  const roNumber = params.roNumber
+
+  const [order, setOrder] = useState<RepairOrder | null>(null)
+  const [technicians, setTechnicians] = useState<Technician[]>([])
+  const [currentUserId, setCurrentUserId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [newLine, setNewLine] = useState<{ payType: ServicePayType; complaint: string }>({
+    payType: 'customer_pay',
+    complaint: '',
+  })
+  const [cancelReason, setCancelReason] = useState('')
+  const [isPending, startTransition] = useTransition()
+
+  const loadOrder = useCallback(async () => {
+    try {
+      const [orderData, technicianData] = await Promise.all([fetchRepairOrder(roNumber), fetchServiceTechnicians()])
+      setOrder(orderData)
+      setTechnicians(technicianData.technicians)
+      setCurrentUserId(technicianData.currentUserId)
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load repair order' })
+    } finally {
+      setLoading(false)
+    }
+  }, [roNumber])
+
+  useEffect(() => {
+    loadOrder()
+  }, [loadOrder])
+
+  function run(action: () => Promise<ActionResult>, successText: string) {
+    startTransition(async () => {
+      const result = await action()
+      if (result.success) {
+        setMessage({ type: 'success', text: successText })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Something went wrong' })
+      }
+    })
+  }
+
+  function handleClaim() {
+    startTransition(async () => {
+      const result = await claimWarrantyLines(roNumber)
+      if (result.success) {
+        setMessage({ type: 'success', text: `Draft warranty claim ${result.claimNumber} created` })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to create warranty claim' })
+      }
+    })
+  }
+
+  function handleCancel() {
+    if (!confirm(`Cancel ${roNumber}? Parts will be returned to stock.`)) return
+    run(() => cancelOrder(roNumber, cancelReason), `${roNumber} cancelled`)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/service" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Service
+        </Link>
+        <p className="text-gray-600">{message?.text ?? 'Repair order not found'}</p>
+      </div>
+    )
+  }
+
+  const editable = OPEN_REPAIR_ORDER_STATUSES.includes(order.status)
+  const blockers = getRepairOrderCloseBlockers(order.lines)
+  const unclaimedWarrantyLines = order.lines.filter((line) => line.payType === 'warranty' && !line.warrantyClaimId)
+  const defaultTechnicianId = technicians.some((technician) => technician.id === currentUserId)
+    ? currentUserId
+    : technicians[0]?.id ?? ''
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/service" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Service
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900">{order.roNumber}</h1>
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${repairOrderStatusColors[order.status]}`}>
+            {repairOrderStatusLabels[order.status]}
+          </span>
+        </div>
+        <p className="mt-1 text-gray-600">
+          {order.description} ·{' '}
+          <Link href={`/rv-inventory/${order.vin}`} className="text-blue-600 hover:text-blue-700">
+            {order.unitDescription} ({order.vin})
+          </Link>
+        </p>
+        {order.cancelReason && <p className="mt-1 text-sm text-gray-500">Cancelled: {order.cancelReason}</p>}
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}
+        >
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {order.lines.map((line) => (
+            <RepairOrderLineCard
+              key={line.id}
+              line={line}
+              editable={editable}
+              technicians={technicians}
+              defaultTechnicianId={defaultTechnicianId}
+              isPending={isPending}
+              run={run}
+              roNumber={roNumber}
+            />
+          ))}
+
+          {editable && (
+            <div className="border rounded-lg p-6 bg-white space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Add Line</h2>
+              <div className="flex gap-3 items-start">
+                <select
+                  value={newLine.payType}
+                  onChange={(e) => setNewLine({ ...newLine, payType: e.target.value as ServicePayType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {SERVICE_PAY_TYPES.map((payType) => (
+                    <option key={payType} value={payType}>
+                      {servicePayTypeLabels[payType]}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={newLine.complaint}
+                  onChange={(e) => setNewLine({ ...newLine, complaint: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  rows={2}
+                  placeholder="Customer states..."
+                />
+                <button
+                  onClick={() => {
+                    run(() => addLine(roNumber, newLine), 'Line added')
+                    setNewLine({ payType: 'customer_pay', complaint: '' })
+                  }}
+                  disabled={isPending || !newLine.complaint.trim()}
+                  className="inline-flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Details */}
+          <div className="border rounded-lg p-6 bg-white space-y-2 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Details</h2>
+            {[
+              { label: 'Customer', value: order.customerName || '-' },
+              { label: 'Phone', value: order.customerPhone || '-' },
+              { label: 'Mileage In', value: order.mileageIn?.toLocaleString() ?? '-' },
+              { label: 'Hours In', value: order.hoursIn?.toLocaleString() ?? '-' },
+              { label: 'Opened', value: formatDate(order.dateIn) },
+              { label: 'Promised', value: formatDate(order.promisedDate) },
+              { label: 'Closed', value: formatDate(order.dateOut) },
+              { label: 'Warranty Ends', value: formatDate(order.warrantyEndDate) },
+            ].map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-gray-600">{row.label}</span>
+                <span className="font-medium text-gray-900">{row.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Totals */}
+          <div className="border rounded-lg p-6 bg-white space-y-2 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              Totals
+            </h2>
+            <div className="flex justify-between">
+              <span className="text-gray-600">
+                Labor ({order.laborHours.toFixed(1)} hrs @ {formatCurrency(order.laborRate)})
+              </span>
+              <span className="font-medium">{formatCurrency(order.laborCost)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Parts</span>
+              <span className="font-medium">{formatCurrency(order.partsCost)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Sublet</span>
+              <span className="font-medium">{formatCurrency(order.subletCost)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t font-semibold">
+              <span className="text-gray-900">Repair Order Total</span>
+              <span>{formatCurrency(order.totalCost)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Customer Pay</span>
+              <span className="font-medium text-blue-600">{formatCurrency(order.customerPayTotal)}</span>
+            </div>
+          </div>
+
+          {/* Warranty */}
+          {unclaimedWarrantyLines.length > 0 && order.status !== 'cancelled' && (
+            <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Shield className="h-5 w-5" />
+                Warranty
+              </h2>
+              <p className="text-gray-600">
+                {unclaimedWarrantyLines.length} warranty line{unclaimedWarrantyLines.length === 1 ? '' : 's'} not yet
+                claimed.
+              </p>
+              <button
+                onClick={handleClaim}
+                disabled={isPending}
+                className="w-full px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50"
+              >
+                Create Warranty Claim
+              </button>
+            </div>
+          )}
+
+          {/* Close / Cancel */}
+          {editable && (
+            <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+              <h2 className="text-lg font-semibold text-gray-900">Close Out</h2>
+              {blockers.map((blocker) => (
+                <p key={blocker} className="flex items-center gap-2 text-yellow-700">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  {blocker}
+                </p>
+              ))}
+              <button
+                onClick={() => run(() => closeOrder(roNumber), `${roNumber} closed`)}
+                disabled={isPending || blockers.length > 0}
+                className="w-full px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                Close Repair Order
+              </button>
+              <div className="pt-3 border-t space-y-2">
+                <input
+                  type="text"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="Reason for cancelling"
+                />
+                <button
+                  onClick={handleCancel}
+                  disabled={isPending || !cancelReason.trim()}
+                  className="w-full px-4 py-2 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+                >
+                  Cancel Repair Order
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { getRVUnitByVin } from '@/lib/services/rv-inventory'
+import { searchParts } from '@/lib/services/parts'
+import {
+  listRepairOrders,
+  getRepairOrder,
+  getServiceTechnicians,
+  openRepairOrder,
+  addRepairOrderLine,
+  updateRepairOrderLine,
+  removeRepairOrderLine,
+  addRepairOrderPart,
+  removeRepairOrderPart,
+  clockTechnicianIn,
+  clockTechnicianOut,
+  closeRepairOrder,
+  cancelRepairOrder,
+  createWarrantyClaimFromRepairOrder,
+} from '@/lib/services/service-repair-orders'
+import {
+  openRepairOrderSchema,
+  repairOrderLineSchema,
+  updateRepairOrderLineSchema,
+  repairOrderPartSchema,
+  type OpenRepairOrderInput,
+  type RepairOrderLineInput,
+  type UpdateRepairOrderLineInput,
+  type RepairOrderPartInput,
+} from '@/lib/validations/service-order'
+
+type ActionResult = { success: boolean; error?: string }
+
+export async function fetchRepairOrders(
+  filters: { status?: 'open' | 'completed' | 'cancelled' | 'all'; search?: string } = {}
+) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return listRepairOrders(session.user.dealerId, filters)
+}
+
+export async function fetchRepairOrder(roNumber: string) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  try {
+    return await getRepairOrder(session.user.dealerId, roNumber)
+  } catch {
+    return null
+  }
+}
+
+export async function fetchServiceUnit(vin: string) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  const unit = await getRVUnitByVin(vin)
+  return unit && unit.dealerId === session.user.dealerId ? unit : null
+}
+
+export async function fetchServiceTechnicians() {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return {
+    technicians: await getServiceTechnicians(session.user.dealerId),
+    currentUserId: session.user.id,
+  }
+}
+
+export async function searchServiceParts(query: string) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  if (query.trim().length < 2) return []
+  const { parts } = await searchParts({ search: query.trim(), status: 'active', limit: 10 })
+  return parts.map((part) => ({
+    id: part.id,
+    partNumber: part.partNumber,
+    name: part.name,
+    listPrice: part.listPrice,
+    available: part.quantityOnHand - part.quantityReserved,
+  }))
+}
+
+export async function createRepairOrder(
+  input: OpenRepairOrderInput
+): Promise<ActionResult & { roNumber?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = openRepairOrderSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid repair order' }
+  }
+
+  try {
+    const roNumber = await openRepairOrder(session.user.dealerId, validated.data, session.user.id)
+    revalidatePath('/service')
+    revalidatePath(`/rv-inventory/${validated.data.vin}`)
+    return { success: true, roNumber }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to open repair order' }
+  }
+}
+
+export async function addLine(roNumber: string, input: RepairOrderLineInput): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = repairOrderLineSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid line' }
+  }
+
+  try {
+    await addRepairOrderLine(session.user.dealerId, roNumber, validated.data)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to add line' }
+  }
+}
+
+export async function saveLine(
+  roNumber: string,
+  lineId: string,
+  input: UpdateRepairOrderLineInput
+): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = updateRepairOrderLineSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid line' }
+  }
+
+  try {
+    await updateRepairOrderLine(session.user.dealerId, roNumber, lineId, validated.data)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save line' }
+  }
+}
+
+export async function deleteLine(roNumber: string, lineId: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await removeRepairOrderLine(session.user.dealerId, roNumber, lineId)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to remove line' }
+  }
+}
+
+export async function addPart(roNumber: string, lineId: string, input: RepairOrderPartInput): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = repairOrderPartSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid part' }
+  }
+
+  try {
+    await addRepairOrderPart(session.user.dealerId, roNumber, lineId, validated.data)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to add part' }
+  }
+}
+
+export async function removePart(roNumber: string, partLineId: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await removeRepairOrderPart(session.user.dealerId, roNumber, partLineId)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to remove part' }
+  }
+}
+
+export async function clockIn(roNumber: string, lineId: string, technicianId: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const technician = (await getServiceTechnicians(session.user.dealerId)).find((tech) => tech.id === technicianId)
+  if (!technician) {
+    return { success: false, error: 'Technician not found' }
+  }
+
+  try {
+    await clockTechnicianIn(session.user.dealerId, roNumber, lineId, technician)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to clock in' }
+  }
+}
+
+export async function clockOut(roNumber: string, entryId: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await clockTechnicianOut(session.user.dealerId, roNumber, entryId)
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to clock out' }
+  }
+}
+
+export async function closeOrder(roNumber: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await closeRepairOrder(session.user.dealerId, roNumber)
+    revalidatePath('/service')
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to close repair order' }
+  }
+}
+
+export async function cancelOrder(roNumber: string, reason: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  if (!reason.trim()) {
+    return { success: false, error: 'Give a reason for cancelling' }
+  }
+
+  try {
+    await cancelRepairOrder(session.user.dealerId, roNumber, reason.trim())
+    revalidatePath('/service')
+    revalidatePath(`/service/${roNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel repair order' }
+  }
+}
+
+export async function claimWarrantyLines(roNumber: string): Promise<ActionResult & { claimNumber?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    const claimNumber = await createWarrantyClaimFromRepairOrder(session.user.dealerId, roNumber, session.user.id)
+    revalidatePath(`/service/${roNumber}`)
+    revalidatePath('/warranty')
+    return { success: true, claimNumber }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create warranty claim' }
+  }
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, Plus, Search, X } from 'lucide-react'
+import { createRepairOrder, fetchServiceUnit } from '../actions'
+import { DEFAULT_LABOR_RATE, SERVICE_PAY_TYPES, type ServicePayType } from '@/lib/service-repair-order'
+import { servicePayTypeLabels } from '@/lib/service-order-constants'
+import type { RVUnit } from '@/types/rv'
+
+export default function NewRepairOrderPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const initialVin = searchParams.get('vin') ?? ''
+
+  const [vin, setVin] = useState(initialVin)
+  const [unit, setUnit] = useState<RVUnit | null>(null)
+  const [lookingUp, setLookingUp] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const [form, setForm] = useState({
+    description: '',
+    customerName: '',
+    customerPhone: '',
+    mileageIn: '',
+    hoursIn: '',
+    promisedDate: '',
+    laborRate: DEFAULT_LABOR_RATE.toString(),
+  })
+  const [lines, setLines] = useState<{ payType: ServicePayType; complaint: string }[]>([
+    { payType: 'customer_pay', complaint: '' },
+  ])
+
+  const lookUpUnit = useCallback(async (query: string) => {
+    if (!query.trim()) return
+    setLookingUp(true)
+    setError(null)
+    try {
+      const found = await fetchServiceUnit(query.trim().toUpperCase())
+      setUnit(found)
+      if (!found) setError('No unit with that VIN in your inventory')
+      else if (found.mileage) setForm((current) => ({ ...current, mileageIn: current.mileageIn || String(found.mileage) }))
+    } catch {
+      setError('Failed to look up unit')
+    } finally {
+      setLookingUp(false)
+    }
+  }, [])
+
+  // Look up the unit straight away when arriving from its VIN
+  useEffect(() => {
+    if (initialVin) lookUpUnit(initialVin)
+  }, [initialVin, lookUpUnit])
+
+  function updateLine(index: number, changes: Partial<{ payType: ServicePayType; complaint: string }>) {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!unit) return
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await createRepairOrder({
+      vin: unit.vin,
+      description: form.description,
+      customerName: form.customerName || undefined,
+      customerPhone: form.customerPhone || undefined,
+      mileageIn: form.mileageIn ? parseInt(form.mileageIn) : undefined,
+      hoursIn: form.hoursIn ? parseInt(form.hoursIn) : undefined,
+      promisedDate: form.promisedDate ? new Date(`${form.promisedDate}T17:00:00`) : undefined,
+      laborRate: parseFloat(form.laborRate) || 0,
+      lines: lines.filter((line) => line.complaint.trim()),
+    })
+
+    if (result.success && result.roNumber) {
+      router.push(`/service/${result.roNumber}`)
+    } else {
+      setError(result.error || 'Failed to open repair order')
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg'
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <Link href="/service" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Service
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">New Repair Order</h1>
+      </div>
+
+      {error && <div className="px-4 py-3 rounded-lg border bg-red-50 border-red-200 text-red-700">{error}</div>}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Unit */}
+        <div className="border rounded-lg p-6 bg-white space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Unit</h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={vin}
+              onChange={(e) => setVin(e.target.value)}
+              className={`${inputClass} font-mono`}
+              placeholder="VIN"
+            />
+            <button
+              type="button"
+              onClick={() => lookUpUnit(vin)}
+              disabled={lookingUp || !vin.trim()}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Search className="h-4 w-4" />
+              Look Up
+            </button>
+          </div>
+          {unit && (
+            <div className="rounded-lg bg-gray-50 p-4 text-sm">
+              <p className="font-medium text-gray-900">
+                {unit.modelYear} {unit.model?.series} {unit.model?.name}
+              </p>
+              <p className="text-gray-600">
+                {unit.exteriorColor} · {unit.condition}
+                {unit.stockNumber && ` · Stock ${unit.stockNumber}`}
+              </p>
+              {unit.warrantyEndDate && (
+                <p className="text-gray-600">
+                  Warranty through {new Date(unit.warrantyEndDate).toLocaleDateString('en-US')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Repair Order */}
+        <div className="border rounded-lg p-6 bg-white space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Repair Order</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. Slide-out not retracting"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Customer Name</label>
+              <input
+                type="text"
+                value={form.customerName}
+                onChange={(e) => setForm({ ...form, customerName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Customer Phone</label>
+              <input
+                type="tel"
+                value={form.customerPhone}
+                onChange={(e) => setForm({ ...form, customerPhone: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Mileage In</label>
+              <input
+                type="number"
+                min="0"
+                value={form.mileageIn}
+                onChange={(e) => setForm({ ...form, mileageIn: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Engine Hours In</label>
+              <input
+                type="number"
+                min="0"
+                value={form.hoursIn}
+                onChange={(e) => setForm({ ...form, hoursIn: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Promised Date</label>
+              <input
+                type="date"
+                value={form.promisedDate}
+                onChange={(e) => setForm({ ...form, promisedDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Labor Rate ($/hr)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.laborRate}
+                onChange={(e) => setForm({ ...form, laborRate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Complaints */}
+        <div className="border rounded-lg p-6 bg-white space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Complaints</h2>
+            <button
+              type="button"
+              onClick={() => setLines([...lines, { payType: 'customer_pay', complaint: '' }])}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4" />
+              Add Line
+            </button>
+          </div>
+          {lines.map((line, index) => (
+            <div key={index} className="flex gap-3 items-start">
+              <span className="pt-2 text-sm font-medium text-gray-500">{index + 1}.</span>
+              <select
+                value={line.payType}
+                onChange={(e) => updateLine(index, { payType: e.target.value as ServicePayType })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {SERVICE_PAY_TYPES.map((payType) => (
+                  <option key={payType} value={payType}>
+                    {servicePayTypeLabels[payType]}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={line.complaint}
+                onChange={(e) => updateLine(index, { complaint: e.target.value })}
+                className={inputClass}
+                rows={2}
+                placeholder="Customer states..."
+              />
+              {lines.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                  className="pt-2 text-gray-400 hover:text-red-600"
+                  title="Remove line"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting || !unit || !form.description.trim() || !lines.some((line) => line.complaint.trim())}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Opening...' : 'Open Repair Order'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Plus, Search, Wrench } from 'lucide-react'
+import { fetchRepairOrders } from './actions'
+import { repairOrderStatusColors, repairOrderStatusLabels } from '@/lib/service-order-constants'
+import type { RepairOrderSummary } from '@/types/rv'
+
+type StatusFilter = 'open' | 'completed' | 'cancelled' | 'all'
+
+const STATUS_TABS: { value: StatusFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All' },
+]
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: Date | string | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export default function ServicePage() {
+  const [orders, setOrders] = useState<RepairOrderSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [status, setStatus] = useState<StatusFilter>('open')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [search, setSearch] = useState('')
+
+  useEffect(() => {
+    async function loadOrders() {
+      setLoading(true)
+      try {
+        setOrders(await fetchRepairOrders({ status, search: search || undefined }))
+      } catch (error) {
+        console.error('Failed to load repair orders:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadOrders()
+  }, [status, search])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearch(searchQuery.trim())
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Service</h1>
+          <p className="mt-1 text-sm text-gray-600">Repair orders for units in the service department</p>
+        </div>
+        <Link
+          href="/service/new"
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          New Repair Order
+        </Link>
+      </div>
+
+      {/* Search & Status */}
+      <div className="rounded-lg border bg-white p-4">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <form onSubmit={handleSearch} className="flex-1">
+            <div className="relative max-w-md">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by RO #, VIN, or customer..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 py-2 pl-10 pr-4 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </form>
+          <div className="flex gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setStatus(tab.value)}
+                className={`rounded-full px-3 py-1 text-xs font-medium ${
+                  status === tab.value ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Repair Orders */}
+      <div className="overflow-hidden rounded-lg border bg-white">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            <Wrench className="mx-auto h-12 w-12 text-gray-300" />
+            <p className="mt-2">No repair orders found</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                <th className="px-6 py-3">RO</th>
+                <th className="px-6 py-3">Unit</th>
+                <th className="px-6 py-3">Customer</th>
+                <th className="px-6 py-3">Opened</th>
+                <th className="px-6 py-3">Promised</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {orders.map((order) => (
+                <tr key={order.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3">
+                    <Link href={`/service/${order.roNumber}`} className="font-medium text-blue-600 hover:text-blue-700">
+                      {order.roNumber}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {order.description} · {order.lineCount} line{order.lineCount === 1 ? '' : 's'}
+                    </p>
+                  </td>
+                  <td className="px-6 py-3">
+                    <p className="text-gray-900">{order.unitDescription}</p>
+                    <p className="font-mono text-xs text-gray-500">{order.vin}</p>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{order.customerName || '-'}</td>
+                  <td className="px-6 py-3 text-gray-600">{formatDate(order.dateIn)}</td>
+                  <td className="px-6 py-3 text-gray-600">{formatDate(order.promisedDate)}</td>
+                  <td className="px-6 py-3">
+                    <span className={`rounded-full px-2 py-1 text-xs font-medium ${repairOrderStatusColors[order.status]}`}>
+                      {repairOrderStatusLabels[order.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right font-medium">{formatCurrency(order.totalCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,438 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useTransition } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { AlertTriangle, ArrowLeft, Camera, CheckCircle, ClipboardCheck, Wrench, X } from 'lucide-react'
+import { fetchServiceUnit } from '../../actions'
+import {
+  fetchUnitPdi,
+  beginPdi,
+  savePdi,
+  getPdiPhotoUploadUrl,
+  addPdiPhotoUrls,
+  deletePdiPhoto,
+  sendFailuresToService,
+  signOff,
+} from '../actions'
+import {
+  PDI_RESULTS,
+  getPdiChecklist,
+  getPdiSignOffBlockers,
+  getUnsentPdiFailures,
+  summarizePdi,
+  type PdiItemResult,
+  type PdiResultValue,
+} from '@/lib/pdi-checklist'
+import { pdiResultLabels, pdiStatusColors, pdiStatusLabels } from '@/lib/service-order-constants'
+import type { PdiInspection, RVUnit } from '@/types/rv'
+
+type ActionResult = { success: boolean; error?: string }
+
+const RESULT_BUTTON_COLORS: Record<PdiResultValue, string> = {
+  pass: 'bg-green-600 text-white border-green-600',
+  fail: 'bg-red-600 text-white border-red-600',
+  na: 'bg-gray-500 text-white border-gray-500',
+}
+
+function formatDate(date: Date | string | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export default function PdiPage() {
+  const params = useParams<{ vin: string }>()
+  const vin = params.vin
+
+  const [unit, setUnit] = useState<RVUnit | null>(null)
+  const [pdi, setPdi] = useState<PdiInspection | null>(null)
+  const [results, setResults] = useState<PdiItemResult[]>([])
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const loadPdi = useCallback(async () => {
+    try {
+      const [unitData, pdiData] = await Promise.all([fetchServiceUnit(vin), fetchUnitPdi(vin)])
+      setUnit(unitData)
+      setPdi(pdiData)
+      setResults(pdiData?.results ?? [])
+      setNotes(pdiData?.notes ?? '')
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load PDI' })
+    } finally {
+      setLoading(false)
+    }
+  }, [vin])
+
+  useEffect(() => {
+    loadPdi()
+  }, [loadPdi])
+
+  const checklist = useMemo(() => (pdi ? getPdiChecklist(pdi.templateKey) : []), [pdi])
+  const summary = useMemo(() => (pdi ? summarizePdi(pdi.templateKey, results) : null), [pdi, results])
+
+  function updateResult(code: string, changes: Partial<PdiItemResult>) {
+    setResults((current) => {
+      const existing = current.find((result) => result.code === code)
+      const next: PdiItemResult = { code, result: 'pass', ...existing, ...changes }
+      return existing ? current.map((result) => (result.code === code ? next : result)) : [...current, next]
+    })
+  }
+
+  function run(action: () => Promise<ActionResult>, successText: string) {
+    startTransition(async () => {
+      const result = await action()
+      if (result.success) {
+        setMessage({ type: 'success', text: successText })
+        await loadPdi()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Something went wrong' })
+      }
+    })
+  }
+
+  // Sending failures and signing off work from the saved checklist, so save it first
+  function saveThen(action: () => Promise<ActionResult>, successText: string) {
+    run(async () => {
+      const saved = await savePdi(vin, { results, notes: notes || undefined })
+      return saved.success ? action() : saved
+    }, successText)
+  }
+
+  function handlePhotoUpload(files: FileList | null) {
+    if (!files || files.length === 0) return
+    startTransition(async () => {
+      try {
+        const urls: string[] = []
+        for (const file of Array.from(files)) {
+          const target = await getPdiPhotoUploadUrl({ name: file.name, size: file.size, type: file.type })
+          if (!target.success || !target.uploadUrl || !target.downloadUrl) {
+            throw new Error(target.error || `Could not upload ${file.name}`)
+          }
+          const response = await fetch(target.uploadUrl, {
+            method: 'PUT',
+            body: file,
+            headers: { 'Content-Type': file.type },
+          })
+          if (!response.ok) throw new Error(`Upload failed for ${file.name}`)
+          urls.push(target.downloadUrl)
+        }
+
+        const result = await addPdiPhotoUrls(vin, urls)
+        if (!result.success) throw new Error(result.error)
+        setMessage({ type: 'success', text: `${urls.length} photo${urls.length === 1 ? '' : 's'} added` })
+        await loadPdi()
+      } catch (e) {
+        setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to upload photos' })
+      }
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!unit) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/service" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Service
+        </Link>
+        <p className="text-gray-600">{message?.text ?? 'Unit not found'}</p>
+      </div>
+    )
+  }
+
+  const editable = !!pdi && pdi.status !== 'completed'
+  const unsentFailures = pdi ? getUnsentPdiFailures(pdi.templateKey, results) : []
+  const blockers = pdi
+    ? [
+        ...getPdiSignOffBlockers(pdi.templateKey, results, pdi.photos.length),
+        ...pdi.openRepairOrders.map((roNumber) => `Close ${roNumber} before signing off`),
+      ]
+    : []
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/rv-inventory/${unit.vin}`}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Unit
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900">Pre-Delivery Inspection</h1>
+          {pdi && (
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${pdiStatusColors[pdi.status]}`}>
+              {pdiStatusLabels[pdi.status]}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-gray-600">
+          {unit.modelYear} {unit.model?.series} {unit.model?.name} · <span className="font-mono">{unit.vin}</span>
+          {pdi && ` · ${pdi.templateLabel} checklist`}
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}
+        >
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {pdi?.status === 'completed' && (
+        <div className="flex items-center justify-between px-4 py-3 rounded-lg border bg-green-50 border-green-200 text-green-800">
+          <span className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5" />
+            Signed off by {pdi.signedOffByName} on {formatDate(pdi.signedOffAt)}
+          </span>
+          <button
+            onClick={() => run(() => beginPdi(vin), 'New PDI started')}
+            disabled={isPending}
+            className="text-sm underline disabled:opacity-50"
+          >
+            Start a new PDI
+          </button>
+        </div>
+      )}
+
+      {!pdi ? (
+        <div className="border rounded-lg p-12 bg-white text-center">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-gray-300" />
+          <p className="mt-2 text-gray-600">This unit has not had a PDI.</p>
+          <button
+            onClick={() => run(() => beginPdi(vin), 'PDI started')}
+            disabled={isPending}
+            className="mt-4 px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Start PDI
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Checklist */}
+            <div className="border rounded-lg p-6 bg-white space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Checklist
+                </h2>
+                {summary && (
+                  <span className="text-sm text-gray-500">
+                    {summary.complete ? 'All items inspected' : `${summary.missing.length} items left`}
+                  </span>
+                )}
+              </div>
+
+              {checklist.map((section) => (
+                <div key={section.name}>
+                  <h3 className="text-sm font-medium text-gray-500 uppercase mb-2">{section.name}</h3>
+                  <div className="divide-y divide-gray-100">
+                    {section.items.map((item) => {
+                      const result = results.find((entry) => entry.code === item.code)
+                      return (
+                        <div key={item.code} className="py-2 grid grid-cols-12 gap-2 items-center text-sm">
+                          <span className="col-span-4 text-gray-900">{item.label}</span>
+                          <div className="col-span-3 flex gap-1">
+                            {PDI_RESULTS.map((value) => (
+                              <button
+                                key={value}
+                                onClick={() => updateResult(item.code, { result: value })}
+                                disabled={!editable}
+                                className={`px-2 py-1 rounded border text-xs font-medium disabled:opacity-60 ${
+                                  result?.result === value
+                                    ? RESULT_BUTTON_COLORS[value]
+                                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                                }`}
+                              >
+                                {pdiResultLabels[value]}
+                              </button>
+                            ))}
+                          </div>
+                          <input
+                            type="text"
+                            value={result?.note ?? ''}
+                            onChange={(e) => updateResult(item.code, { note: e.target.value })}
+                            disabled={!editable || !result}
+                            className="col-span-3 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                            placeholder={result?.result === 'fail' ? 'What failed?' : 'Note'}
+                          />
+                          <span className="col-span-2 text-right text-xs">
+                            {result?.roNumber && (
+                              <Link href={`/service/${result.roNumber}`} className="text-blue-600 hover:text-blue-700">
+                                {result.roNumber}
+                              </Link>
+                            )}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={!editable}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                  rows={3}
+                />
+              </div>
+              {editable && (
+                <button
+                  onClick={() => run(() => savePdi(vin, { results, notes: notes || undefined }), 'Checklist saved')}
+                  disabled={isPending}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save Checklist
+                </button>
+              )}
+            </div>
+
+            {/* Photos */}
+            <div className="border rounded-lg p-6 bg-white space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Camera className="h-5 w-5" />
+                  Photos
+                </h2>
+                {editable && (
+                  <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    + Upload Photos
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      className="hidden"
+                      disabled={isPending}
+                      onChange={(e) => {
+                        handlePhotoUpload(e.target.files)
+                        e.target.value = ''
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+              {pdi.photos.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No photos yet</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {pdi.photos.map((url) => (
+                    <div key={url} className="relative group">
+                      <img src={url} alt="PDI" className="w-full h-32 object-cover rounded-lg border" />
+                      {editable && (
+                        <button
+                          onClick={() => run(() => deletePdiPhoto(vin, url), 'Photo removed')}
+                          className="absolute top-1 right-1 p-1 bg-white rounded-full shadow text-gray-500 hover:text-red-600 hidden group-hover:block"
+                          title="Remove photo"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {/* Progress */}
+            {summary && (
+              <div className="border rounded-lg p-6 bg-white space-y-2 text-sm">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Progress</h2>
+                {[
+                  { label: 'Passed', value: summary.passed },
+                  { label: 'Failed', value: summary.failed },
+                  { label: 'N/A', value: summary.notApplicable },
+                  { label: 'Not inspected', value: summary.missing.length },
+                ].map((row) => (
+                  <div key={row.label} className="flex justify-between">
+                    <span className="text-gray-600">{row.label}</span>
+                    <span className="font-medium text-gray-900">
+                      {row.value} / {summary.total}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Repairs */}
+            {editable && (unsentFailures.length > 0 || pdi.openRepairOrders.length > 0) && (
+              <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Wrench className="h-5 w-5" />
+                  Repairs
+                </h2>
+                {pdi.openRepairOrders.map((roNumber) => (
+                  <p key={roNumber} className="text-gray-600">
+                    Waiting on{' '}
+                    <Link href={`/service/${roNumber}`} className="text-blue-600 hover:text-blue-700">
+                      {roNumber}
+                    </Link>
+                  </p>
+                ))}
+                {unsentFailures.length > 0 && (
+                  <button
+                    onClick={() => saveThen(() => sendFailuresToService(vin), 'Failed items sent to service')}
+                    disabled={isPending}
+                    className="w-full px-4 py-2 bg-orange-600 text-white rounded-lg font-medium hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    Send {unsentFailures.length} Failed Item{unsentFailures.length === 1 ? '' : 's'} to Service
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Sign-off */}
+            {editable && (
+              <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+                <h2 className="text-lg font-semibold text-gray-900">Technician Sign-Off</h2>
+                {blockers.map((blocker) => (
+                  <p key={blocker} className="flex items-center gap-2 text-yellow-700">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    {blocker}
+                  </p>
+                ))}
+                <button
+                  onClick={() => saveThen(() => signOff(vin), 'PDI signed off')}
+                  disabled={isPending || blockers.length > 0}
+                  className="w-full px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  Sign Off PDI
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import {
+  getUnitPdi,
+  startPdi,
+  savePdiResults,
+  addPdiPhotos,
+  removePdiPhoto,
+  sendPdiFailuresToService,
+  signOffPdi,
+} from '@/lib/services/pdi'
+import { pdiResultsSchema, type PdiResultsInput } from '@/lib/validations/pdi'
+import { getPresignedUploadUrl, validateUpload } from '@/app/(protected)/documents/upload/actions'
+
+type ActionResult = { success: boolean; error?: string }
+
+export async function fetchUnitPdi(vin: string) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getUnitPdi(session.user.dealerId, vin)
+}
+
+export async function beginPdi(vin: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await startPdi(session.user.dealerId, vin, session.user.id)
+    revalidatePath(`/service/pdi/${vin}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to start PDI' }
+  }
+}
+
+export async function savePdi(vin: string, input: PdiResultsInput): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = pdiResultsSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid checklist' }
+  }
+
+  try {
+    await savePdiResults(session.user.dealerId, vin, validated.data)
+    revalidatePath(`/service/pdi/${vin}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save PDI' }
+  }
+}
+
+export async function getPdiPhotoUploadUrl(
+  file: { name: string; size: number; type: string }
+): Promise<ActionResult & { uploadUrl?: string; downloadUrl?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validation = validateUpload(file)
+  if (!validation.valid) return { success: false, error: validation.error }
+  if (!file.type.startsWith('image/')) return { success: false, error: 'Photos must be images' }
+
+  const { uploadUrl, downloadUrl } = await getPresignedUploadUrl(file.name, file.type)
+  return { success: true, uploadUrl, downloadUrl }
+}
+
+export async function addPdiPhotoUrls(vin: string, urls: string[]): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await addPdiPhotos(session.user.dealerId, vin, urls)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to add photos' }
+  }
+}
+
+export async function deletePdiPhoto(vin: string, url: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await removePdiPhoto(session.user.dealerId, vin, url)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to remove photo' }
+  }
+}
+
+export async function sendFailuresToService(vin: string): Promise<ActionResult & { roNumber?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    const roNumber = await sendPdiFailuresToService(session.user.dealerId, vin, session.user.id)
+    revalidatePath(`/service/pdi/${vin}`)
+    revalidatePath('/service')
+    return { success: true, roNumber }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send failures to service' }
+  }
+}
+
+export async function signOff(vin: string): Promise<ActionResult> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await signOffPdi(session.user.dealerId, vin, {
+      id: session.user.id,
+      name: session.user.name || session.user.email || 'Technician',
+    })
+    revalidatePath(`/service/pdi/${vin}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to sign off PDI' }
+  }
+}
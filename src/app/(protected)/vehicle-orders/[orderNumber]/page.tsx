@@ -0,0 +1,743 @@
+'use client'
+
+import { useState, useEffect, useCallback, useTransition } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calculator,
+  ClipboardCheck,
+  Gift,
+  FileText,
+  Printer,
+  Receipt,
+  User,
+  X,
+} from 'lucide-react'
+import {
+  fetchVehicleOrder,
+  fetchOrderIncentives,
+  applyIncentive,
+  removeIncentive,
+  fileIncentiveClaims,
+  updateOrderStatus,
+  fetchDeliveryReadiness,
+  deliverOrder,
+  fetchOrderInvoice,
+  createOrderInvoice,
+  recordInvoicePayment,
+  fetchVehicleInvoiceHtml,
+} from '../actions'
+import type {
+  VehicleInvoice,
+  VehicleOrder,
+  VehicleOrderDeliveryReadiness,
+  VehicleOrderIncentive,
+} from '@/types/rv'
+import type { AvailableOrderIncentive } from '@/lib/services/vehicle-order-incentives'
+import {
+  modelIncentiveTypeLabels,
+  vehicleOrderStatusColors,
+  vehicleOrderStatusFlow,
+  vehicleOrderStatusLabels,
+  vehicleInvoicePaymentMethodLabels,
+  vehicleInvoiceStatusColors,
+  vehicleInvoiceStatusLabels,
+  type ModelIncentiveTypeKey,
+} from '@/lib/vehicle-order-constants'
+import { VEHICLE_INVOICE_PAYMENT_METHODS, type VehicleInvoicePaymentMethod } from '@/lib/vehicle-invoice'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function formatIncentiveRate(incentive: { incentiveType: string; rate: number }): string {
+  const label = modelIncentiveTypeLabels[incentive.incentiveType as ModelIncentiveTypeKey] ?? incentive.incentiveType
+  return incentive.incentiveType === 'percentage' ? `${label} · ${incentive.rate}%` : label
+}
+
+export default function VehicleOrderDetailPage() {
+  const params = useParams<{ orderNumber: string }>()
+  const orderNumber = params.orderNumber
+
+  const [order, setOrder] = useState<VehicleOrder | null>(null)
+  const [applied, setApplied] = useState<VehicleOrderIncentive[]>([])
+  const [available, setAvailable] = useState<AvailableOrderIncentive[]>([])
+  const [invoice, setInvoice] = useState<VehicleInvoice | null>(null)
+  const [payment, setPayment] = useState({
+    amount: '',
+    method: 'check' as VehicleInvoicePaymentMethod,
+    reference: '',
+    receivedAt: new Date().toISOString().slice(0, 10),
+  })
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [nextStatus, setNextStatus] = useState('')
+  const [statusNote, setStatusNote] = useState('')
+  const [readiness, setReadiness] = useState<VehicleOrderDeliveryReadiness | null>(null)
+  const [walkthrough, setWalkthrough] = useState<{ customerName: string; topics: string[] }>({
+    customerName: '',
+    topics: [],
+  })
+  const [isPending, startTransition] = useTransition()
+
+  const loadOrder = useCallback(async () => {
+    try {
+      const [orderData, incentives, invoiceData, readinessData] = await Promise.all([
+        fetchVehicleOrder(orderNumber),
+        fetchOrderIncentives(orderNumber),
+        fetchOrderInvoice(orderNumber),
+        fetchDeliveryReadiness(orderNumber),
+      ])
+      setOrder(orderData)
+      setApplied(incentives.applied)
+      setAvailable(incentives.available)
+      setInvoice(invoiceData)
+      setReadiness(readinessData)
+      setWalkthrough((current) => ({ ...current, customerName: current.customerName || orderData?.customerName || '' }))
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load order' })
+    } finally {
+      setLoading(false)
+    }
+  }, [orderNumber])
+
+  useEffect(() => {
+    loadOrder()
+  }, [loadOrder])
+
+  function handleApply(incentive: AvailableOrderIncentive) {
+    startTransition(async () => {
+      const result = await applyIncentive(orderNumber, incentive.modelIncentiveId)
+      if (result.success) {
+        setMessage({ type: 'success', text: `${incentive.programName} applied` })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to apply incentive' })
+      }
+    })
+  }
+
+  function handleRemove(incentive: VehicleOrderIncentive) {
+    if (!confirm(`Remove ${incentive.programName} from this order?`)) return
+    startTransition(async () => {
+      const result = await removeIncentive(orderNumber, incentive.id)
+      if (result.success) {
+        setMessage({ type: 'success', text: `${incentive.programName} removed` })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to remove incentive' })
+      }
+    })
+  }
+
+  function handleFileClaims() {
+    startTransition(async () => {
+      const result = await fileIncentiveClaims(orderNumber)
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Incentive claims filed' })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to file incentive claims' })
+      }
+    })
+  }
+
+  function handleStatusUpdate() {
+    if (!order || !nextStatus) return
+    startTransition(async () => {
+      try {
+        await updateOrderStatus(order.orderNumber, nextStatus as VehicleOrder['status'], statusNote || undefined)
+        setMessage({
+          type: 'success',
+          text: `Order moved to ${vehicleOrderStatusLabels[nextStatus as VehicleOrder['status']]}`,
+        })
+        setNextStatus('')
+        setStatusNote('')
+        await loadOrder()
+      } catch (e) {
+        setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to update status' })
+      }
+    })
+  }
+
+  function handleDeliver() {
+    startTransition(async () => {
+      const result = await deliverOrder(orderNumber, { ...walkthrough, note: statusNote || undefined })
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Order delivered and walkthrough recorded' })
+        setNextStatus('')
+        setStatusNote('')
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to deliver order' })
+      }
+    })
+  }
+
+  function toggleWalkthroughTopic(topic: string) {
+    setWalkthrough((current) => ({
+      ...current,
+      topics: current.topics.includes(topic)
+        ? current.topics.filter((covered) => covered !== topic)
+        : [...current.topics, topic],
+    }))
+  }
+
+  function handleCreateInvoice() {
+    startTransition(async () => {
+      const result = await createOrderInvoice(orderNumber)
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Invoice created' })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to create invoice' })
+      }
+    })
+  }
+
+  function handleRecordPayment() {
+    if (!invoice) return
+    startTransition(async () => {
+      const result = await recordInvoicePayment(orderNumber, invoice.id, {
+        amount: parseFloat(payment.amount),
+        method: payment.method,
+        reference: payment.reference || undefined,
+        receivedAt: new Date(`${payment.receivedAt}T12:00:00`),
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Payment recorded' })
+        setPayment({ ...payment, amount: '', reference: '' })
+        await loadOrder()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to record payment' })
+      }
+    })
+  }
+
+  async function handlePrintInvoice() {
+    if (!invoice) return
+    const html = await fetchVehicleInvoiceHtml(invoice.id)
+    if (!html) return
+
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.focus()
+      // Wait for content to load
+      setTimeout(() => {
+        printWindow.print()
+      }, 500)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/vehicle-orders" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Vehicle Orders
+        </Link>
+        <p className="text-gray-600">{message?.text ?? 'Order not found'}</p>
+      </div>
+    )
+  }
+
+  const isClosed = order.status === 'completed' || order.status === 'cancelled'
+  const laterStatuses = isClosed
+    ? []
+    : [...vehicleOrderStatusFlow.slice(vehicleOrderStatusFlow.indexOf(order.status) + 1), 'cancelled' as const]
+  const modelLabel = order.rvUnit
+    ? `${order.rvUnit.modelYear} ${order.rvUnit.model?.series ?? ''} ${order.rvUnit.model?.name ?? ''}`
+    : order.rvModel
+      ? `${order.rvModel.modelYear} ${order.rvModel.series} ${order.rvModel.name}`
+      : 'No model selected'
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/vehicle-orders"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Vehicle Orders
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900">{order.orderNumber}</h1>
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${vehicleOrderStatusColors[order.status]}`}>
+            {vehicleOrderStatusLabels[order.status]}
+          </span>
+        </div>
+        <p className="mt-1 text-gray-600 capitalize">
+          {order.orderType} order · {modelLabel} · Created {formatDate(order.createdAt)}
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}
+        >
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Unit */}
+          <div className="border rounded-lg p-6 bg-white space-y-2">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Unit
+            </h2>
+            <p className="font-medium text-gray-900">{modelLabel}</p>
+            {order.rvUnit && (
+              <p className="text-sm text-gray-600">
+                VIN: {order.rvUnit.vin}
+                {order.rvUnit.stockNumber && ` | Stock #: ${order.rvUnit.stockNumber}`}
+              </p>
+            )}
+            {(order.requestedExteriorColor || order.requestedInteriorColor) && (
+              <p className="text-sm text-gray-600">
+                {order.requestedExteriorColor} / {order.requestedInteriorColor}
+              </p>
+            )}
+
+            {order.buildSheet && order.buildSheet.lines.length > 0 && (
+              <div className="pt-4">
+                <h3 className="text-sm font-medium text-gray-500 uppercase mb-2">Build Sheet</h3>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {order.buildSheet.lines.map((line) => (
+                      <tr key={line.code}>
+                        <td className="py-1 text-gray-500">{line.groupName}</td>
+                        <td className="py-1">
+                          {line.name} <span className="text-xs text-gray-400">{line.code}</span>
+                        </td>
+                        <td className="py-1 text-right font-medium">
+                          {line.includedBy ? 'Included' : formatCurrency(line.msrp)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">
+                  Build MSRP {formatCurrency(order.buildSheet.totalMSRP)} · priced{' '}
+                  {formatDate(order.buildSheet.pricedAt)}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Incentives */}
+          <div className="border rounded-lg p-6 bg-white space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Gift className="h-5 w-5" />
+              Model Incentives
+            </h2>
+
+            {applied.length > 0 && (
+              <ul className="divide-y divide-gray-100">
+                {applied.map((incentive) => (
+                  <li key={incentive.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="font-medium text-gray-900">{incentive.programName}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatIncentiveRate(incentive)} · applied {formatDate(incentive.appliedAt)}
+                        {incentive.claimNumber && ` · claim ${incentive.claimNumber} (${incentive.claimStatus})`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-green-700">-{formatCurrency(incentive.amount)}</span>
+                      {!isClosed && (
+                        <button
+                          onClick={() => handleRemove(incentive)}
+                          disabled={isPending}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove incentive"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {order.status === 'completed' && applied.some((incentive) => !incentive.claimId) && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="flex items-center gap-2 text-sm text-yellow-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  Some incentives on this completed order have not been claimed.
+                </p>
+                <button
+                  onClick={handleFileClaims}
+                  disabled={isPending}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  File Claims
+                </button>
+              </div>
+            )}
+
+            {!isClosed &&
+              (available.length === 0 ? (
+                applied.length === 0 && (
+                  <p className="text-sm text-gray-500 italic">No incentives are offered on this model</p>
+                )
+              ) : (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 uppercase mb-2">Available</h3>
+                  <ul className="divide-y divide-gray-100">
+                    {available.map((incentive) => (
+                      <li key={incentive.modelIncentiveId} className="flex items-center justify-between py-2">
+                        <div>
+                          <p className={`font-medium ${incentive.eligible ? 'text-gray-900' : 'text-gray-400'}`}>
+                            {incentive.programName}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatIncentiveRate(incentive)}
+                            {incentive.validTo && ` · ends ${formatDate(incentive.validTo)}`}
+                            {incentive.reason && ` · ${incentive.reason}`}
+                          </p>
+                        </div>
+                        {incentive.eligible && (
+                          <button
+                            onClick={() => handleApply(incentive)}
+                            disabled={isPending}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Apply {formatCurrency(incentive.amount)}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+
+            {applied.length > 0 && !isClosed && (
+              <p className="text-xs text-gray-500">Claims are filed automatically when the order is completed.</p>
+            )}
+          </div>
+
+          {/* Invoice */}
+          {(invoice || order.status === 'delivered' || order.status === 'completed') && (
+            <div className="border rounded-lg p-6 bg-white space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Invoice
+                </h2>
+                {invoice && (
+                  <button
+                    onClick={handlePrintInvoice}
+                    className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    <Printer className="h-4 w-4 mr-1" />
+                    Print
+                  </button>
+                )}
+              </div>
+
+              {!invoice ? (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">This order has not been invoiced yet.</p>
+                  <button
+                    onClick={handleCreateInvoice}
+                    disabled={isPending}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Create Invoice
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium text-gray-900">{invoice.invoiceNumber}</span>
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${vehicleInvoiceStatusColors[invoice.status]}`}
+                    >
+                      {vehicleInvoiceStatusLabels[invoice.status]}
+                    </span>
+                    <span className="text-sm text-gray-500">{formatDate(invoice.createdAt)}</span>
+                  </div>
+                  <div className="grid grid-cols-4 gap-4 text-sm">
+                    {[
+                      { label: 'Total', amount: invoice.totalAmount },
+                      { label: 'Deposit', amount: invoice.depositApplied },
+                      { label: 'Paid', amount: invoice.amountPaid },
+                      { label: 'Balance Due', amount: invoice.balanceDue },
+                    ].map((item) => (
+                      <div key={item.label}>
+                        <p className="text-gray-500">{item.label}</p>
+                        <p className="font-medium text-gray-900">{formatCurrency(item.amount)}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {invoice.payments.length > 0 && (
+                    <ul className="divide-y divide-gray-100 text-sm">
+                      {invoice.payments.map((item) => (
+                        <li key={item.id} className="flex justify-between py-2">
+                          <span className="text-gray-600">
+                            {formatDate(item.receivedAt)} ·{' '}
+                            {vehicleInvoicePaymentMethodLabels[item.method as VehicleInvoicePaymentMethod] ?? item.method}
+                            {item.reference && ` #${item.reference}`}
+                          </span>
+                          <span className="font-medium">{formatCurrency(item.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {invoice.status === 'sent' && (
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={payment.amount}
+                        onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Amount"
+                      />
+                      <select
+                        value={payment.method}
+                        onChange={(e) =>
+                          setPayment({ ...payment, method: e.target.value as VehicleInvoicePaymentMethod })
+                        }
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                      >
+                        {VEHICLE_INVOICE_PAYMENT_METHODS.map((method) => (
+                          <option key={method} value={method}>
+                            {vehicleInvoicePaymentMethodLabels[method]}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={payment.reference}
+                        onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Reference"
+                      />
+                      <input
+                        type="date"
+                        value={payment.receivedAt}
+                        onChange={(e) => setPayment({ ...payment, receivedAt: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                      />
+                      <button
+                        onClick={handleRecordPayment}
+                        disabled={isPending || !payment.amount}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Record Payment
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Pricing */}
+          <div className="border rounded-lg p-6 bg-white space-y-2 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Pricing</h2>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Unit Price:</span>
+              <span className="font-medium">{formatCurrency(order.unitPrice)}</span>
+            </div>
+            {[
+              { label: 'Options', amount: order.optionsPrice },
+              { label: 'Freight', amount: order.freightPrice },
+              { label: 'Prep Fee', amount: order.prepFee },
+              { label: 'Doc Fee', amount: order.docFee },
+              { label: 'Tax', amount: order.taxAmount },
+            ]
+              .filter((row) => row.amount > 0)
+              .map((row) => (
+                <div key={row.label} className="flex justify-between">
+                  <span className="text-gray-600">{row.label}:</span>
+                  <span className="font-medium">{formatCurrency(row.amount)}</span>
+                </div>
+              ))}
+            {order.tradeInAllowance > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Trade-In (net):</span>
+                <span className="font-medium text-green-700">
+                  -{formatCurrency(order.tradeInAllowance - order.tradeInPayoff)}
+                </span>
+              </div>
+            )}
+            {order.rebatesApplied > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Incentives:</span>
+                <span className="font-medium text-green-700">-{formatCurrency(order.rebatesApplied)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 border-t text-base font-semibold">
+              <span className="text-gray-900">Total:</span>
+              <span className="text-blue-600">{formatCurrency(order.totalPrice)}</span>
+            </div>
+            <Link
+              href={`/vehicle-orders/${order.orderNumber}/worksheet`}
+              className="mt-2 w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              Deal Worksheet
+            </Link>
+            <Link
+              href={`/vehicle-orders/${order.orderNumber}/trade-in`}
+              className="w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              {order.tradeIn ? 'Trade-In Appraisal' : 'Add Trade-In'}
+            </Link>
+          </div>
+
+          {/* Customer */}
+          <div className="border rounded-lg p-6 bg-white space-y-1 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+              <User className="h-5 w-5" />
+              Customer
+            </h2>
+            <p className="font-medium text-gray-900">{order.customerName || 'No customer info'}</p>
+            {order.customerEmail && <p className="text-gray-600">{order.customerEmail}</p>}
+            {order.customerPhone && <p className="text-gray-600">{order.customerPhone}</p>}
+            <p className="text-gray-500 capitalize">{order.customerType}</p>
+            {order.walkthroughAcknowledgedAt && (
+              <p className="pt-2 text-gray-600">
+                Walkthrough acknowledged by {order.walkthroughAcknowledgedBy} on{' '}
+                {formatDate(order.walkthroughAcknowledgedAt)}
+              </p>
+            )}
+          </div>
+
+          {/* Status */}
+          {laterStatuses.length > 0 && (
+            <div className="border rounded-lg p-6 bg-white space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Update Status</h2>
+              <select
+                value={nextStatus}
+                onChange={(e) => setNextStatus(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">Select status</option>
+                {laterStatuses.map((status) => (
+                  <option key={status} value={status}>
+                    {vehicleOrderStatusLabels[status]}
+                  </option>
+                ))}
+              </select>
+              {nextStatus === 'delivered' && readiness && (
+                <div className="space-y-3 text-sm">
+                  {readiness.blockers.map((blocker) => (
+                    <p key={blocker} className="flex items-center gap-2 text-yellow-700">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                      {blocker}
+                    </p>
+                  ))}
+                  {readiness.vin && readiness.pdiStatus !== 'completed' && (
+                    <Link href={`/service/pdi/${readiness.vin}`} className="inline-block text-blue-600 hover:text-blue-700">
+                      Go to the unit PDI
+                    </Link>
+                  )}
+                  {readiness.blockers.length === 0 && (
+                    <div className="space-y-2">
+                      <p className="font-medium text-gray-900">Customer Walkthrough</p>
+                      {readiness.walkthroughTopics.map((topic) => (
+                        <label key={topic} className="flex items-center gap-2 text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={walkthrough.topics.includes(topic)}
+                            onChange={() => toggleWalkthroughTopic(topic)}
+                            className="rounded border-gray-300"
+                          />
+                          {topic}
+                        </label>
+                      ))}
+                      <input
+                        type="text"
+                        value={walkthrough.customerName}
+                        onChange={(e) => setWalkthrough({ ...walkthrough, customerName: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Customer name as signed"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              <input
+                type="text"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                placeholder="Note (optional)"
+              />
+              {nextStatus === 'delivered' ? (
+                <button
+                  onClick={handleDeliver}
+                  disabled={
+                    isPending ||
+                    !readiness ||
+                    readiness.blockers.length > 0 ||
+                    readiness.walkthroughTopics.some((topic) => !walkthrough.topics.includes(topic)) ||
+                    !walkthrough.customerName.trim()
+                  }
+                  className="w-full px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Deliver to Customer
+                </button>
+              ) : (
+                <button
+                  onClick={handleStatusUpdate}
+                  disabled={isPending || !nextStatus}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Update Status
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
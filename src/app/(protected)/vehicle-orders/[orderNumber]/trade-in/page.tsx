@@ -0,0 +1,845 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useTransition } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { AlertTriangle, ArrowLeft, Camera, CheckCircle, ClipboardCheck, History, Landmark, X } from 'lucide-react'
+import {
+  fetchVehicleOrder,
+  fetchRVModelsForOrder,
+  fetchTradeInAppraisal,
+  addTradeIn,
+  submitTradeInAppraisal,
+  decideTradeIn,
+  saveTradeInLien,
+  getTradeInPhotoUploadUrl,
+  addTradeInPhotoUrls,
+  deleteTradeInPhoto,
+  addTradeInToInventory,
+} from '../../actions'
+import {
+  getInspectionChecklist,
+  summarizeInspection,
+  suggestActualCashValue,
+  INSPECTION_RATINGS,
+  type InspectionRating,
+  type InspectionResult,
+} from '@/lib/trade-in-appraisal'
+import {
+  inspectionRatingLabels,
+  tradeInStatusColors,
+  tradeInStatusLabels,
+  tradeInValuationTypeLabels,
+  type TradeInStatusKey,
+} from '@/lib/vehicle-order-constants'
+import type { RVModel, VehicleOrder } from '@/types/rv'
+
+type AppraisalData = NonNullable<Awaited<ReturnType<typeof fetchTradeInAppraisal>>>
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function toDateInput(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : ''
+}
+
+const emptyTradeIn = {
+  vehicleType: 'rv',
+  year: '',
+  make: '',
+  model: '',
+  trim: '',
+  vin: '',
+  mileage: '',
+  condition: 'good',
+  estimatedValue: '',
+  hasLien: false,
+  lienHolder: '',
+  lienPayoff: '',
+}
+
+export default function TradeInAppraisalPage() {
+  const params = useParams<{ orderNumber: string }>()
+  const orderNumber = params.orderNumber
+
+  const [order, setOrder] = useState<VehicleOrder | null>(null)
+  const [appraisal, setAppraisal] = useState<AppraisalData | null>(null)
+  const [models, setModels] = useState<RVModel[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const [newTradeIn, setNewTradeIn] = useState(emptyTradeIn)
+  const [inspection, setInspection] = useState<InspectionResult[]>([])
+  const [valuation, setValuation] = useState({
+    bookValue: '',
+    marketValue: '',
+    appraisedValue: '',
+    exteriorColor: '',
+    rvModelId: '',
+    notes: '',
+  })
+  const [decision, setDecision] = useState({ acv: '', allowance: '', note: '' })
+  const [lien, setLien] = useState({
+    hasLien: false,
+    lienHolder: '',
+    lienPayoff: '',
+    lienPayoffGoodThrough: '',
+    verified: false,
+  })
+
+  const loadTradeIn = useCallback(async () => {
+    try {
+      const [orderData, appraisalData, modelData] = await Promise.all([
+        fetchVehicleOrder(orderNumber),
+        fetchTradeInAppraisal(orderNumber),
+        fetchRVModelsForOrder(),
+      ])
+      setOrder(orderData)
+      setAppraisal(appraisalData)
+      setModels(modelData)
+
+      if (appraisalData) {
+        const { tradeIn } = appraisalData
+        setInspection(appraisalData.inspection)
+        setValuation({
+          bookValue: tradeIn.bookValue?.toString() ?? '',
+          marketValue: '',
+          appraisedValue: tradeIn.appraisedValue?.toString() ?? '',
+          exteriorColor: tradeIn.exteriorColor ?? '',
+          rvModelId: tradeIn.rvModelId ?? '',
+          notes: tradeIn.appraisalNotes ?? '',
+        })
+        setDecision({
+          acv: tradeIn.appraisedValue?.toString() ?? '',
+          allowance: (orderData?.tradeInAllowance ?? tradeIn.estimatedValue).toString(),
+          note: '',
+        })
+        setLien({
+          hasLien: tradeIn.hasLien,
+          lienHolder: tradeIn.lienHolder ?? '',
+          lienPayoff: tradeIn.lienPayoff?.toString() ?? '',
+          lienPayoffGoodThrough: toDateInput(tradeIn.lienPayoffGoodThrough),
+          verified: false,
+        })
+      }
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load trade-in' })
+    } finally {
+      setLoading(false)
+    }
+  }, [orderNumber])
+
+  useEffect(() => {
+    loadTradeIn()
+  }, [loadTradeIn])
+
+  const checklist = useMemo(
+    () => (appraisal ? getInspectionChecklist(appraisal.tradeIn.vehicleType) : []),
+    [appraisal]
+  )
+  const summary = useMemo(
+    () => (appraisal ? summarizeInspection(appraisal.tradeIn.vehicleType, inspection) : null),
+    [appraisal, inspection]
+  )
+  const suggestedAcv =
+    summary && valuation.marketValue
+      ? suggestActualCashValue(parseFloat(valuation.marketValue) || 0, summary.reconditioningCost)
+      : null
+
+  function updateInspection(code: string, changes: Partial<InspectionResult>) {
+    setInspection((current) => {
+      const existing = current.find((result) => result.code === code)
+      const next: InspectionResult = { code, rating: 'good', reconCost: 0, ...existing, ...changes }
+      if (next.rating === 'good' || next.rating === 'na') next.reconCost = 0
+      return existing ? current.map((result) => (result.code === code ? next : result)) : [...current, next]
+    })
+  }
+
+  function run(action: () => Promise<{ success: boolean; error?: string }>, successText: string) {
+    startTransition(async () => {
+      const result = await action()
+      if (result.success) {
+        setMessage({ type: 'success', text: successText })
+        await loadTradeIn()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Something went wrong' })
+      }
+    })
+  }
+
+  function handleAddTradeIn() {
+    startTransition(async () => {
+      try {
+        await addTradeIn(orderNumber, {
+          vehicleType: newTradeIn.vehicleType,
+          year: parseInt(newTradeIn.year),
+          make: newTradeIn.make,
+          model: newTradeIn.model,
+          trim: newTradeIn.trim || undefined,
+          vin: newTradeIn.vin || undefined,
+          mileage: newTradeIn.mileage ? parseInt(newTradeIn.mileage) : undefined,
+          condition: newTradeIn.condition,
+          estimatedValue: parseFloat(newTradeIn.estimatedValue) || 0,
+          hasLien: newTradeIn.hasLien,
+          lienHolder: newTradeIn.hasLien ? newTradeIn.lienHolder : undefined,
+          lienPayoff: newTradeIn.hasLien ? parseFloat(newTradeIn.lienPayoff) || 0 : undefined,
+        })
+        setMessage({ type: 'success', text: 'Trade-in added' })
+        await loadTradeIn()
+      } catch (e) {
+        setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to add trade-in' })
+      }
+    })
+  }
+
+  function handleSubmitAppraisal() {
+    run(
+      () =>
+        submitTradeInAppraisal(orderNumber, {
+          exteriorColor: valuation.exteriorColor || undefined,
+          rvModelId: valuation.rvModelId || null,
+          inspection,
+          bookValue: valuation.bookValue ? parseFloat(valuation.bookValue) : null,
+          marketValue: parseFloat(valuation.marketValue) || 0,
+          appraisedValue: parseFloat(valuation.appraisedValue) || 0,
+          notes: valuation.notes || undefined,
+        }),
+      'Appraisal submitted for manager approval'
+    )
+  }
+
+  function handleDecision(approve: boolean) {
+    if (!approve && !confirm('Reject this trade-in? The allowance will be removed from the deal.')) return
+    run(
+      () =>
+        decideTradeIn(orderNumber, {
+          decision: approve ? 'approve' : 'reject',
+          acv: approve ? parseFloat(decision.acv) : undefined,
+          allowance: approve ? parseFloat(decision.allowance) : undefined,
+          note: decision.note || undefined,
+        }),
+      approve ? 'Trade-in approved' : 'Trade-in rejected'
+    )
+  }
+
+  function handleSaveLien() {
+    run(
+      () =>
+        saveTradeInLien(orderNumber, {
+          hasLien: lien.hasLien,
+          lienHolder: lien.lienHolder || undefined,
+          lienPayoff: lien.lienPayoff ? parseFloat(lien.lienPayoff) : null,
+          lienPayoffGoodThrough: lien.lienPayoffGoodThrough ? new Date(`${lien.lienPayoffGoodThrough}T23:59:59`) : null,
+          verified: lien.verified,
+        }),
+      'Lien details saved'
+    )
+  }
+
+  function handlePhotoUpload(files: FileList | null) {
+    if (!files || files.length === 0) return
+    startTransition(async () => {
+      try {
+        const urls: string[] = []
+        for (const file of Array.from(files)) {
+          const target = await getTradeInPhotoUploadUrl({ name: file.name, size: file.size, type: file.type })
+          if (!target.success || !target.uploadUrl || !target.downloadUrl) {
+            throw new Error(target.error || `Could not upload ${file.name}`)
+          }
+          const response = await fetch(target.uploadUrl, {
+            method: 'PUT',
+            body: file,
+            headers: { 'Content-Type': file.type },
+          })
+          if (!response.ok) throw new Error(`Upload failed for ${file.name}`)
+          urls.push(target.downloadUrl)
+        }
+
+        const result = await addTradeInPhotoUrls(orderNumber, urls)
+        if (!result.success) throw new Error(result.error)
+        setMessage({ type: 'success', text: `${urls.length} photo${urls.length === 1 ? '' : 's'} added` })
+        await loadTradeIn()
+      } catch (e) {
+        setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to upload photos' })
+      }
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/vehicle-orders" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Vehicle Orders
+        </Link>
+        <p className="text-gray-600">{message?.text ?? 'Order not found'}</p>
+      </div>
+    )
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50'
+  const tradeIn = appraisal?.tradeIn
+  const locked = !appraisal || appraisal.isLocked
+  const canAppraise = !locked && (tradeIn?.status === 'pending' || tradeIn?.status === 'appraised')
+  const orderClosed = order.status === 'completed' || order.status === 'cancelled'
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/vehicle-orders/${orderNumber}`}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to {orderNumber}
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900">Trade-In Appraisal</h1>
+          {tradeIn && (
+            <span
+              className={`px-2 py-1 text-xs font-medium rounded-full ${
+                tradeInStatusColors[tradeIn.status as TradeInStatusKey]
+              }`}
+            >
+              {tradeInStatusLabels[tradeIn.status as TradeInStatusKey] ?? tradeIn.status}
+            </span>
+          )}
+        </div>
+        {tradeIn && (
+          <p className="mt-1 text-gray-600">
+            {[tradeIn.year, tradeIn.make, tradeIn.model, tradeIn.trim].filter(Boolean).join(' ')}
+            {tradeIn.vin && ` · VIN ${tradeIn.vin}`}
+            {tradeIn.mileage !== null && ` · ${tradeIn.mileage.toLocaleString()} mi`}
+          </p>
+        )}
+        {order.status === 'completed' && tradeIn?.status === 'approved' && (
+          <div className="mt-2 flex items-center gap-3 text-sm text-yellow-700">
+            <AlertTriangle className="h-4 w-4" />
+            The deal is complete but this trade-in has not been added to inventory.
+            <button
+              onClick={() => run(() => addTradeInToInventory(orderNumber), 'Trade-in added to inventory')}
+              disabled={isPending}
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add to Inventory
+            </button>
+          </div>
+        )}
+        {tradeIn?.rvUnitVin && (
+          <p className="mt-2 text-sm text-green-700">
+            Added to inventory as{' '}
+            <Link href={`/rv-inventory/${tradeIn.rvUnitVin}`} className="underline">
+              {tradeIn.rvUnitVin}
+            </Link>
+          </p>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}
+        >
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {!appraisal || !tradeIn || !summary ? (
+        orderClosed ? (
+          <p className="text-gray-600">This order has no trade-in.</p>
+        ) : (
+          /* Add trade-in */
+          <div className="border rounded-lg p-6 bg-white space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Add Trade-In</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={newTradeIn.vehicleType}
+                  onChange={(e) => setNewTradeIn({ ...newTradeIn, vehicleType: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="rv">RV</option>
+                  <option value="auto">Auto</option>
+                  <option value="truck">Truck</option>
+                  <option value="motorcycle">Motorcycle</option>
+                  <option value="boat">Boat</option>
+                </select>
+              </div>
+              {[
+                { field: 'year' as const, label: 'Year', type: 'number' },
+                { field: 'make' as const, label: 'Make', type: 'text' },
+                { field: 'model' as const, label: 'Model', type: 'text' },
+                { field: 'trim' as const, label: 'Trim', type: 'text' },
+                { field: 'vin' as const, label: 'VIN', type: 'text' },
+                { field: 'mileage' as const, label: 'Mileage', type: 'number' },
+                { field: 'estimatedValue' as const, label: 'Estimated Value', type: 'number' },
+              ].map(({ field, label, type }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type={type}
+                    value={newTradeIn[field]}
+                    onChange={(e) => setNewTradeIn({ ...newTradeIn, [field]: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={newTradeIn.hasLien}
+                onChange={(e) => setNewTradeIn({ ...newTradeIn, hasLien: e.target.checked })}
+              />
+              Trade has a lien
+            </label>
+            {newTradeIn.hasLien && (
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={newTradeIn.lienHolder}
+                  onChange={(e) => setNewTradeIn({ ...newTradeIn, lienHolder: e.target.value })}
+                  className={inputClass}
+                  placeholder="Lienholder"
+                />
+                <input
+                  type="number"
+                  value={newTradeIn.lienPayoff}
+                  onChange={(e) => setNewTradeIn({ ...newTradeIn, lienPayoff: e.target.value })}
+                  className={inputClass}
+                  placeholder="Payoff amount"
+                />
+              </div>
+            )}
+            <button
+              onClick={handleAddTradeIn}
+              disabled={isPending || !newTradeIn.year || !newTradeIn.make || !newTradeIn.model}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add Trade-In
+            </button>
+          </div>
+        )
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Inspection */}
+            <div className="border rounded-lg p-6 bg-white space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Inspection
+                </h2>
+                <span className="text-sm text-gray-500">
+                  {summary.complete ? 'Complete' : `${summary.missing.length} items left`} · condition{' '}
+                  <span className="capitalize font-medium text-gray-900">{summary.condition}</span>
+                </span>
+              </div>
+
+              {checklist.map((section) => (
+                <div key={section.name}>
+                  <h3 className="text-sm font-medium text-gray-500 uppercase mb-2">{section.name}</h3>
+                  <div className="divide-y divide-gray-100">
+                    {section.items.map((item) => {
+                      const result = inspection.find((entry) => entry.code === item.code)
+                      const needsWork = result?.rating === 'repair' || result?.rating === 'replace'
+                      return (
+                        <div key={item.code} className="py-2 grid grid-cols-12 gap-2 items-center text-sm">
+                          <span className="col-span-4 text-gray-900">{item.label}</span>
+                          <select
+                            value={result?.rating ?? ''}
+                            onChange={(e) => updateInspection(item.code, { rating: e.target.value as InspectionRating })}
+                            disabled={!canAppraise}
+                            className="col-span-2 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                          >
+                            <option value="">Rate</option>
+                            {INSPECTION_RATINGS.map((rating) => (
+                              <option key={rating} value={rating}>
+                                {inspectionRatingLabels[rating]}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="0"
+                            value={needsWork ? result?.reconCost ?? 0 : ''}
+                            onChange={(e) => updateInspection(item.code, { reconCost: parseFloat(e.target.value) || 0 })}
+                            disabled={!canAppraise || !needsWork}
+                            className="col-span-2 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                            placeholder="Recon $"
+                          />
+                          <input
+                            type="text"
+                            value={result?.note ?? ''}
+                            onChange={(e) => updateInspection(item.code, { note: e.target.value })}
+                            disabled={!canAppraise || !result}
+                            className="col-span-4 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                            placeholder="Note"
+                          />
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Photos */}
+            <div className="border rounded-lg p-6 bg-white space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Camera className="h-5 w-5" />
+                  Photos
+                </h2>
+                {!locked && (
+                  <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                    + Upload Photos
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      className="hidden"
+                      disabled={isPending}
+                      onChange={(e) => {
+                        handlePhotoUpload(e.target.files)
+                        e.target.value = ''
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+              {tradeIn.photos.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No photos yet</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {tradeIn.photos.map((url) => (
+                    <div key={url} className="relative group">
+                      <img src={url} alt="Trade-in" className="w-full h-32 object-cover rounded-lg border" />
+                      {!locked && (
+                        <button
+                          onClick={() => run(() => deleteTradeInPhoto(orderNumber, url), 'Photo removed')}
+                          className="absolute top-1 right-1 p-1 bg-white rounded-full shadow text-gray-500 hover:text-red-600 hidden group-hover:block"
+                          title="Remove photo"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {/* Valuation */}
+            <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+              <h2 className="text-lg font-semibold text-gray-900">Valuation</h2>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Initial estimate</span>
+                <span className="font-medium">{formatCurrency(tradeIn.estimatedValue)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Reconditioning</span>
+                <span className="font-medium">{formatCurrency(summary.reconditioningCost)}</span>
+              </div>
+              {tradeIn.acv !== null && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Approved ACV</span>
+                  <span className="font-medium text-green-700">{formatCurrency(tradeIn.acv)}</span>
+                </div>
+              )}
+              {tradeIn.approvedValue !== null && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Approved allowance</span>
+                  <span className="font-medium text-green-700">{formatCurrency(tradeIn.approvedValue)}</span>
+                </div>
+              )}
+
+              {canAppraise && (
+                <div className="space-y-3 pt-3 border-t">
+                  {[
+                    { field: 'bookValue' as const, label: 'Book Value' },
+                    { field: 'marketValue' as const, label: 'Market Value' },
+                  ].map(({ field, label }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={valuation[field]}
+                        onChange={(e) => setValuation({ ...valuation, [field]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Appraised Value (ACV)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={valuation.appraisedValue}
+                      onChange={(e) => setValuation({ ...valuation, appraisedValue: e.target.value })}
+                      className={inputClass}
+                    />
+                    {suggestedAcv !== null && (
+                      <button
+                        onClick={() => setValuation({ ...valuation, appraisedValue: suggestedAcv.toString() })}
+                        className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        Use market less reconditioning: {formatCurrency(suggestedAcv)}
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    type="text"
+                    value={valuation.exteriorColor}
+                    onChange={(e) => setValuation({ ...valuation, exteriorColor: e.target.value })}
+                    className={inputClass}
+                    placeholder="Exterior color"
+                  />
+                  {tradeIn.vehicleType === 'rv' && (
+                    <div>
+                      <select
+                        value={valuation.rvModelId}
+                        onChange={(e) => setValuation({ ...valuation, rvModelId: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">Not one of our models</option>
+                        {models.map((model) => (
+                          <option key={model.id} value={model.id}>
+                            {model.series} {model.name} ({model.code})
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Matched trades are added to used inventory when the deal completes.
+                      </p>
+                    </div>
+                  )}
+                  <textarea
+                    value={valuation.notes}
+                    onChange={(e) => setValuation({ ...valuation, notes: e.target.value })}
+                    className={inputClass}
+                    rows={2}
+                    placeholder="Appraisal notes"
+                  />
+                  <button
+                    onClick={handleSubmitAppraisal}
+                    disabled={isPending || !summary.complete || !valuation.marketValue || !valuation.appraisedValue}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {tradeIn.status === 'appraised' ? 'Update Appraisal' : 'Submit Appraisal'}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Manager approval */}
+            {tradeIn.status === 'appraised' && !locked && (
+              <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <CheckCircle className="h-5 w-5" />
+                  Manager Approval
+                </h2>
+                <p className="text-gray-600">
+                  Appraised at {formatCurrency(tradeIn.appraisedValue ?? 0)} on {formatDate(tradeIn.appraisedAt)}
+                </p>
+                {appraisal.canApprove ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-500">Final ACV</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={decision.acv}
+                          onChange={(e) => setDecision({ ...decision, acv: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500">Allowance</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={decision.allowance}
+                          onChange={(e) => setDecision({ ...decision, allowance: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                    <input
+                      type="text"
+                      value={decision.note}
+                      onChange={(e) => setDecision({ ...decision, note: e.target.value })}
+                      className={inputClass}
+                      placeholder="Note (required to reject)"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDecision(true)}
+                        disabled={isPending || !decision.acv || !decision.allowance}
+                        className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleDecision(false)}
+                        disabled={isPending}
+                        className="flex-1 px-4 py-2 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-500 italic">Waiting for a manager to approve the ACV.</p>
+                )}
+              </div>
+            )}
+
+            {/* Lien */}
+            <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Lien Payoff
+              </h2>
+              {appraisal.lienWarnings.map((warning) => (
+                <p
+                  key={warning.message}
+                  className={`flex items-center gap-2 ${warning.level === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+                >
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  {warning.message}
+                </p>
+              ))}
+              {tradeIn.lienVerifiedAt && (
+                <p className="text-green-700">Verified {formatDate(tradeIn.lienVerifiedAt)}</p>
+              )}
+              <label className="flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={lien.hasLien}
+                  onChange={(e) => setLien({ ...lien, hasLien: e.target.checked })}
+                  disabled={locked}
+                />
+                Trade has a lien
+              </label>
+              {lien.hasLien && (
+                <>
+                  <input
+                    type="text"
+                    value={lien.lienHolder}
+                    onChange={(e) => setLien({ ...lien, lienHolder: e.target.value })}
+                    disabled={locked}
+                    className={inputClass}
+                    placeholder="Lienholder"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      value={lien.lienPayoff}
+                      onChange={(e) => setLien({ ...lien, lienPayoff: e.target.value })}
+                      disabled={locked}
+                      className={inputClass}
+                      placeholder="Payoff"
+                    />
+                    <input
+                      type="date"
+                      value={lien.lienPayoffGoodThrough}
+                      onChange={(e) => setLien({ ...lien, lienPayoffGoodThrough: e.target.value })}
+                      disabled={locked}
+                      className={inputClass}
+                      title="Good through"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={lien.verified}
+                      onChange={(e) => setLien({ ...lien, verified: e.target.checked })}
+                      disabled={locked}
+                    />
+                    Payoff verified with the lienholder
+                  </label>
+                </>
+              )}
+              {!locked && (
+                <button
+                  onClick={handleSaveLien}
+                  disabled={isPending}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Save Lien Details
+                </button>
+              )}
+            </div>
+
+            {/* Valuation history */}
+            <div className="border rounded-lg p-6 bg-white space-y-3 text-sm">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Valuation History
+              </h2>
+              {appraisal.valuations.length === 0 ? (
+                <p className="text-gray-500 italic">No valuations recorded</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {appraisal.valuations.map((entry) => (
+                    <li key={entry.id} className="py-2">
+                      <div className="flex justify-between">
+                        <span className="text-gray-900">
+                          {tradeInValuationTypeLabels[entry.type as keyof typeof tradeInValuationTypeLabels] ??
+                            entry.type}
+                        </span>
+                        <span className="font-medium">{formatCurrency(entry.value)}</span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(entry.createdAt)}
+                        {entry.note && ` · ${entry.note}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
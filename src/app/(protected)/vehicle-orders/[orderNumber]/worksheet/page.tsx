@@ -0,0 +1,688 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useTransition } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, Calculator, FileText, Plus, Printer, Save, Trash2 } from 'lucide-react'
+import {
+  fetchDealWorksheet,
+  fetchDealTaxContext,
+  saveWorksheet,
+  createBuyersOrder,
+  fetchDealDocumentHtml,
+} from '../../actions'
+import {
+  calculateDealWorksheet,
+  quoteFinanceScenario,
+  DEFAULT_FINANCE_SCENARIOS,
+  type DealFee,
+  type DealInput,
+  type DealTaxContext,
+  type FinanceScenario,
+} from '@/lib/deal-worksheet'
+import type { DealWorksheetData } from '@/lib/services/deal-worksheet'
+import { formatTaxRate } from '@/lib/tax'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function toAmount(value: string): number {
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) ? amount : 0
+}
+
+type BuyerAddressForm = { street: string; city: string; state: string; zipCode: string }
+
+const emptyAddress: BuyerAddressForm = { street: '', city: '', state: '', zipCode: '' }
+
+export default function DealWorksheetPage() {
+  const params = useParams<{ orderNumber: string }>()
+  const orderNumber = params.orderNumber
+
+  const [deal, setDeal] = useState<DealWorksheetData | null>(null)
+  const [input, setInput] = useState<DealInput | null>(null)
+  const [tax, setTax] = useState<DealTaxContext | null>(null)
+  const [address, setAddress] = useState<BuyerAddressForm>(emptyAddress)
+  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'financing'>('cash')
+  const [lender, setLender] = useState('')
+  const [scenarios, setScenarios] = useState<FinanceScenario[]>(DEFAULT_FINANCE_SCENARIOS)
+  const [selectedScenario, setSelectedScenario] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  // Refresh tax rules once the buyer's state and ZIP are complete
+  useEffect(() => {
+    if (!deal) return
+    const state = address.state.trim()
+    const zipCode = address.zipCode.trim()
+    if ((state.length !== 2 || !/^\d{5}/.test(zipCode)) && state.length !== 0) return
+
+    let cancelled = false
+    fetchDealTaxContext(orderNumber, state, zipCode)
+      .then((context) => {
+        if (!cancelled) setTax(context)
+      })
+      .catch(() => {
+        if (!cancelled) setMessage({ type: 'error', text: 'Failed to look up tax rates' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [deal, orderNumber, address.state, address.zipCode])
+
+  const loadDeal = useCallback(async () => {
+    try {
+      const data = await fetchDealWorksheet(orderNumber)
+      setDeal(data)
+      if (data) {
+        setInput(data.input)
+        setTax(data.tax)
+        setAddress(data.buyerAddress ?? emptyAddress)
+        setPaymentMethod(data.paymentMethod === 'financing' ? 'financing' : 'cash')
+        if (data.financing) {
+          const { termMonths, apr, downPayment } = data.financing
+          setScenarios([{ termMonths, apr, downPayment }, ...DEFAULT_FINANCE_SCENARIOS.slice(1)])
+          setSelectedScenario(0)
+          setLender(data.financing.lender ?? '')
+        }
+      }
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load worksheet' })
+    } finally {
+      setLoading(false)
+    }
+  }, [orderNumber])
+
+  useEffect(() => {
+    loadDeal()
+  }, [loadDeal])
+
+  const worksheet = useMemo(() => (input && tax ? calculateDealWorksheet(input, tax) : null), [input, tax])
+  const quotes = useMemo(
+    () => (worksheet ? scenarios.map((scenario) => quoteFinanceScenario(worksheet.balanceDue, scenario)) : []),
+    [worksheet, scenarios]
+  )
+
+  function updateInput(field: keyof Omit<DealInput, 'additionalFees'>, value: string) {
+    setInput((current) => (current ? { ...current, [field]: toAmount(value) } : current))
+  }
+
+  function updateFee(index: number, changes: Partial<DealFee>) {
+    setInput((current) =>
+      current
+        ? {
+            ...current,
+            additionalFees: current.additionalFees.map((fee, i) => (i === index ? { ...fee, ...changes } : fee)),
+          }
+        : current
+    )
+  }
+
+  function addFee() {
+    setInput((current) =>
+      current
+        ? { ...current, additionalFees: [...current.additionalFees, { name: '', amount: 0, taxable: false }] }
+        : current
+    )
+  }
+
+  function removeFee(index: number) {
+    setInput((current) =>
+      current ? { ...current, additionalFees: current.additionalFees.filter((_, i) => i !== index) } : current
+    )
+  }
+
+  function updateScenario(index: number, field: keyof FinanceScenario, value: string) {
+    setScenarios((current) =>
+      current.map((scenario, i) => (i === index ? { ...scenario, [field]: toAmount(value) } : scenario))
+    )
+  }
+
+  function handleSave() {
+    if (!input) return
+    const hasAddress = address.state.trim() !== '' || address.zipCode.trim() !== ''
+    startTransition(async () => {
+      const result = await saveWorksheet(orderNumber, {
+        unitPrice: input.sellingPrice,
+        freightPrice: input.freightPrice,
+        prepFee: input.prepFee,
+        docFee: input.docFee,
+        additionalFees: input.additionalFees,
+        tradeInAllowance: input.tradeInAllowance,
+        depositAmount: input.depositAmount,
+        buyerAddress: hasAddress ? address : null,
+        paymentMethod,
+        financing:
+          paymentMethod === 'financing' ? { ...scenarios[selectedScenario], lender: lender || undefined } : null,
+      })
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Worksheet saved' })
+        await loadDeal()
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save worksheet' })
+      }
+    })
+  }
+
+  function handleGenerate() {
+    startTransition(async () => {
+      const result = await createBuyersOrder(orderNumber)
+      if (result.success && result.documentId) {
+        setMessage({ type: 'success', text: 'Buyer\'s order added to the deal jacket' })
+        await loadDeal()
+        await handlePrint(result.documentId)
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to generate buyer\'s order' })
+      }
+    })
+  }
+
+  async function handlePrint(documentId: string) {
+    const html = await fetchDealDocumentHtml(documentId)
+    if (!html) {
+      setMessage({ type: 'error', text: 'Document not found' })
+      return
+    }
+
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.focus()
+      // Wait for content to load
+      setTimeout(() => {
+        printWindow.print()
+      }, 500)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!deal || !input || !worksheet) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/vehicle-orders" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Vehicle Orders
+        </Link>
+        <p className="text-gray-600">{message?.text ?? 'Order not found'}</p>
+      </div>
+    )
+  }
+
+  const locked = deal.isLocked
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50'
+  const unitLabel = [deal.unit.year, deal.unit.modelName].filter(Boolean).join(' ') || 'No model selected'
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/vehicle-orders/${orderNumber}`}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to {orderNumber}
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Deal Worksheet</h1>
+        <p className="mt-1 text-gray-600">
+          {unitLabel}
+          {deal.unit.vin && ` · VIN ${deal.unit.vin}`} · {deal.customerName || 'No buyer'}
+        </p>
+        {locked && (
+          <p className="mt-2 text-sm text-yellow-700">This order is {deal.status}; the deal can no longer change.</p>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}
+        >
+          {message.text}
+          <button onClick={() => setMessage(null)} className="ml-4 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Price and fees */}
+          <div className="border rounded-lg p-6 bg-white space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Price &amp; Fees</h2>
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { field: 'sellingPrice' as const, label: 'Selling Price' },
+                { field: 'freightPrice' as const, label: 'Freight' },
+                { field: 'prepFee' as const, label: 'Prep Fee' },
+                { field: 'docFee' as const, label: 'Doc Fee' },
+              ].map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={input[field]}
+                    onChange={(e) => updateInput(field, e.target.value)}
+                    disabled={locked}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+            {input.optionsPrice > 0 && (
+              <p className="text-sm text-gray-600">
+                Options from the build: <span className="font-medium">{formatCurrency(input.optionsPrice)}</span>
+              </p>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-500 uppercase">Additional Fees</h3>
+                {!locked && (
+                  <button onClick={addFee} className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Fee
+                  </button>
+                )}
+              </div>
+              {input.additionalFees.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">Title, registration and other fees go here</p>
+              ) : (
+                <div className="space-y-2">
+                  {input.additionalFees.map((fee, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={fee.name}
+                        onChange={(e) => updateFee(index, { name: e.target.value })}
+                        disabled={locked}
+                        className={`${inputClass} flex-1`}
+                        placeholder="Fee name"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={fee.amount}
+                        onChange={(e) => updateFee(index, { amount: toAmount(e.target.value) })}
+                        disabled={locked}
+                        className={`${inputClass} w-32`}
+                      />
+                      <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={fee.taxable}
+                          onChange={(e) => updateFee(index, { taxable: e.target.checked })}
+                          disabled={locked}
+                        />
+                        Taxable
+                      </label>
+                      {!locked && (
+                        <button
+                          onClick={() => removeFee(index)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove fee"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Trade, deposit and buyer */}
+          <div className="border rounded-lg p-6 bg-white space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Trade-In, Deposit &amp; Buyer</h2>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Trade Allowance</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={input.tradeInAllowance}
+                  onChange={(e) => updateInput('tradeInAllowance', e.target.value)}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lien Payoff</label>
+                <p className="px-3 py-2 text-gray-900">{formatCurrency(input.tradeInPayoff)}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={input.depositAmount}
+                  onChange={(e) => updateInput('depositAmount', e.target.value)}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {deal.tradeIn && (
+              <p className="text-sm text-gray-600">
+                Trade: {deal.tradeIn.description}
+                {deal.tradeIn.lienHolder && ` · lien with ${deal.tradeIn.lienHolder}`}
+                {deal.tradeIn.lienPayoffGoodThrough &&
+                  ` · payoff good through ${formatDate(deal.tradeIn.lienPayoffGoodThrough)}`}
+              </p>
+            )}
+
+            <div className="grid grid-cols-6 gap-4">
+              <div className="col-span-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Buyer Street</label>
+                <input
+                  type="text"
+                  value={address.street}
+                  onChange={(e) => setAddress({ ...address, street: e.target.value })}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                <input
+                  type="text"
+                  value={address.city}
+                  onChange={(e) => setAddress({ ...address, city: e.target.value })}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                <input
+                  type="text"
+                  maxLength={2}
+                  value={address.state}
+                  onChange={(e) => setAddress({ ...address, state: e.target.value.toUpperCase() })}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">ZIP</label>
+                <input
+                  type="text"
+                  value={address.zipCode}
+                  onChange={(e) => setAddress({ ...address, zipCode: e.target.value })}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Payment scenarios */}
+          <div className="border rounded-lg p-6 bg-white space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Calculator className="h-5 w-5" />
+                Payment
+              </h2>
+              <div className="flex gap-4 text-sm">
+                {(['cash', 'financing'] as const).map((method) => (
+                  <label key={method} className="flex items-center gap-1 capitalize">
+                    <input
+                      type="radio"
+                      checked={paymentMethod === method}
+                      onChange={() => setPaymentMethod(method)}
+                      disabled={locked}
+                    />
+                    {method}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {quotes.map((quote, index) => (
+                <div
+                  key={index}
+                  className={`border rounded-lg p-4 space-y-2 ${
+                    paymentMethod === 'financing' && selectedScenario === index
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200'
+                  }`}
+                >
+                  {[
+                    { field: 'termMonths' as const, label: 'Term (months)', step: '12' },
+                    { field: 'apr' as const, label: 'APR %', step: '0.01' },
+                    { field: 'downPayment' as const, label: 'Down', step: '100' },
+                  ].map(({ field, label, step }) => (
+                    <div key={field}>
+                      <label className="block text-xs text-gray-500">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step={step}
+                        value={scenarios[index][field]}
+                        onChange={(e) => updateScenario(index, field, e.target.value)}
+                        disabled={locked}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                  ))}
+                  <div className="pt-2 border-t text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Financed</span>
+                      <span>{formatCurrency(quote.amountFinanced)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-gray-900">Monthly</span>
+                      <span className="text-blue-600">{formatCurrency(quote.monthlyPayment)}</span>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>Finance charge</span>
+                      <span>{formatCurrency(quote.financeCharge)}</span>
+                    </div>
+                  </div>
+                  {paymentMethod === 'financing' && !locked && (
+                    <button
+                      onClick={() => setSelectedScenario(index)}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                      {selectedScenario === index ? 'Selected' : 'Use this scenario'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {paymentMethod === 'financing' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lender</label>
+                <input
+                  type="text"
+                  value={lender}
+                  onChange={(e) => setLender(e.target.value)}
+                  disabled={locked}
+                  className={inputClass}
+                  placeholder="Lender name (optional)"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Deal structure */}
+          <div className="border rounded-lg p-6 bg-white space-y-2 text-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Deal Structure</h2>
+            {[
+              { label: 'Selling Price', amount: worksheet.sellingPrice },
+              { label: 'Options', amount: worksheet.optionsPrice },
+              { label: 'Freight', amount: worksheet.freightPrice },
+              { label: 'Prep Fee', amount: worksheet.prepFee },
+              { label: 'Doc Fee', amount: worksheet.docFee },
+              ...worksheet.additionalFees.map((fee) => ({ label: fee.name || 'Fee', amount: fee.amount })),
+            ]
+              .filter((row) => row.amount > 0)
+              .map((row, index) => (
+                <div key={index} className="flex justify-between">
+                  <span className="text-gray-600">{row.label}</span>
+                  <span className="font-medium">{formatCurrency(row.amount)}</span>
+                </div>
+              ))}
+            <div className="flex justify-between pt-2 border-t font-medium">
+              <span className="text-gray-900">Subtotal</span>
+              <span>{formatCurrency(worksheet.subtotal)}</span>
+            </div>
+
+            {worksheet.taxExempt ? (
+              <p className="text-gray-500">Sales tax exempt ({deal.customerType})</p>
+            ) : !worksheet.taxState ? (
+              <p className="text-gray-500">Enter the buyer&apos;s state and ZIP to calculate tax</p>
+            ) : (
+              <>
+                {worksheet.taxLines.map((line) => (
+                  <div key={line.jurisdiction} className="flex justify-between">
+                    <span className="text-gray-600">
+                      {line.jurisdiction} ({formatTaxRate(line.rate)})
+                    </span>
+                    <span className="font-medium">{formatCurrency(line.taxAmount)}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Taxed on {formatCurrency(worksheet.taxableAmount)} ·{' '}
+                  {worksheet.tradeInCredit
+                    ? `${worksheet.taxState} credits the trade`
+                    : `${worksheet.taxState} taxes the full price`}
+                </p>
+              </>
+            )}
+
+            {(worksheet.tradeInAllowance > 0 || worksheet.tradeInPayoff > 0) && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Trade Equity</span>
+                <span className={`font-medium ${worksheet.tradeEquity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                  {formatCurrency(-worksheet.tradeEquity)}
+                </span>
+              </div>
+            )}
+            {worksheet.rebates > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Rebates</span>
+                <span className="font-medium text-green-700">-{formatCurrency(worksheet.rebates)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 border-t font-medium">
+              <span className="text-gray-900">Total Price</span>
+              <span>{formatCurrency(worksheet.totalPrice)}</span>
+            </div>
+            {worksheet.depositAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Deposit</span>
+                <span className="font-medium text-green-700">-{formatCurrency(worksheet.depositAmount)}</span>
+              </div>
+            )}
+            {paymentMethod === 'financing' && quotes[selectedScenario] ? (
+              <>
+                {quotes[selectedScenario].downPayment > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Down Payment</span>
+                    <span className="font-medium text-green-700">
+                      -{formatCurrency(quotes[selectedScenario].downPayment)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between pt-2 border-t text-base font-semibold">
+                  <span className="text-gray-900">Amount Financed</span>
+                  <span className="text-blue-600">{formatCurrency(quotes[selectedScenario].amountFinanced)}</span>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-between pt-2 border-t text-base font-semibold">
+                <span className="text-gray-900">Balance Due</span>
+                <span className="text-blue-600">{formatCurrency(worksheet.balanceDue)}</span>
+              </div>
+            )}
+
+            {!locked && (
+              <button
+                onClick={handleSave}
+                disabled={isPending}
+                className="w-full mt-4 inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Worksheet
+              </button>
+            )}
+          </div>
+
+          {/* Deal jacket */}
+          <div className="border rounded-lg p-6 bg-white space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Deal Jacket
+            </h2>
+            {deal.documents.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No documents yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {deal.documents.map((document) => (
+                  <li key={document.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{document.title}</p>
+                      <p className="text-xs text-gray-500">{formatDate(document.createdAt)}</p>
+                    </div>
+                    <button
+                      onClick={() => handlePrint(document.id)}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Print"
+                    >
+                      <Printer className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={handleGenerate}
+              disabled={isPending}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Generate Buyer&apos;s Order
+            </button>
+            <p className="text-xs text-gray-500">Generated from the last saved worksheet.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,59 @@
 'use server'
 
+import { revalidatePath } from 'next/cache'
 import { getServerSession } from '@/lib/auth'
+import { hasRole } from '@/lib/roles'
 import {
   getVehicleOrders,
   getVehicleOrder,
   createVehicleOrder,
   updateVehicleOrderStatus,
+  getVehicleOrderDeliveryReadiness,
+  deliverVehicleOrder,
   addTradeInToOrder,
 } from '@/lib/services/vehicle-orders'
 import { getRVUnitByVin, getRVModels, searchRVUnitsByVin } from '@/lib/services/rv-inventory'
+import { getBuildCatalog } from '@/lib/services/build-configurator'
+import {
+  getOrderIncentives,
+  applyOrderIncentive,
+  removeOrderIncentive,
+  fileOrderIncentiveClaims,
+} from '@/lib/services/vehicle-order-incentives'
+import {
+  getDealWorksheet,
+  getDealTaxContext,
+  saveDealWorksheet,
+  generateBuyersOrder,
+  getDealDocumentHtml,
+} from '@/lib/services/deal-worksheet'
+import { dealWorksheetSchema, type DealWorksheetInput } from '@/lib/validations/deal-worksheet'
+import {
+  getOrderVehicleInvoice,
+  createVehicleInvoiceForOrder,
+  recordVehicleInvoicePayment,
+  generateVehicleInvoiceHtml,
+} from '@/lib/services/vehicle-invoice'
+import { vehicleInvoicePaymentSchema, type VehicleInvoicePaymentInput } from '@/lib/validations/vehicle-invoice'
+import {
+  getTradeInAppraisal,
+  saveTradeInAppraisal,
+  decideTradeInAppraisal,
+  updateTradeInLien,
+  addTradeInPhotos,
+  removeTradeInPhoto,
+  completeOrderTradeIn,
+} from '@/lib/services/trade-in-appraisal'
+import {
+  tradeInAppraisalSchema,
+  tradeInDecisionSchema,
+  tradeInLienSchema,
+  type TradeInAppraisalInput,
+  type TradeInDecisionInput,
+  type TradeInLienInput,
+} from '@/lib/validations/trade-in'
+import { deliveryWalkthroughSchema, type DeliveryWalkthroughInput } from '@/lib/validations/pdi'
+import { getPresignedUploadUrl, validateUpload } from '@/app/(protected)/documents/upload/actions'
 import type { VehicleOrderStatus } from '@/types/rv'
 
 export async function fetchVehicleOrders(
@@ -33,7 +78,8 @@ export async function fetchVehicleOrder(orderNumber: string) {
     throw new Error('Unauthorized')
   }
 
-  return getVehicleOrder(orderNumber)
+  const order = await getVehicleOrder(orderNumber)
+  return order && order.dealerId === session.user.dealerId ? order : null
 }
 
 export async function createOrder(data: {
@@ -74,6 +120,48 @@ export async function updateOrderStatus(
   return updateVehicleOrderStatus(orderNumber, status, session.user.id, note)
 }
 
+export async function fetchDeliveryReadiness(orderNumber: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  const order = await getVehicleOrder(orderNumber)
+  if (!order || order.dealerId !== session.user.dealerId) {
+    throw new Error('Order not found')
+  }
+
+  return getVehicleOrderDeliveryReadiness(orderNumber)
+}
+
+export async function deliverOrder(
+  orderNumber: string,
+  input: DeliveryWalkthroughInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = deliveryWalkthroughSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid walkthrough' }
+  }
+
+  const order = await getVehicleOrder(orderNumber)
+  if (!order || order.dealerId !== session.user.dealerId) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  try {
+    await deliverVehicleOrder(orderNumber, validated.data, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to deliver order' }
+  }
+}
+
 export async function addTradeIn(
   orderNumber: string,
   tradeInData: {
@@ -107,6 +195,15 @@ export async function fetchRVModelsForOrder() {
   return getRVModels({ status: 'active' })
 }
 
+export async function fetchBuildCatalog(rvModelId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getBuildCatalog(rvModelId)
+}
+
 export async function searchInventoryUnits(query: string) {
   const session = await getServerSession()
   if (!session?.user?.dealerId) {
@@ -115,3 +212,340 @@ export async function searchInventoryUnits(query: string) {
 
   return searchRVUnitsByVin(session.user.dealerId, query)
 }
+
+export async function fetchOrderIncentives(orderNumber: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getOrderIncentives(session.user.dealerId, orderNumber)
+}
+
+export async function applyIncentive(
+  orderNumber: string,
+  modelIncentiveId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await applyOrderIncentive(session.user.dealerId, orderNumber, modelIncentiveId, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to apply incentive' }
+  }
+}
+
+export async function removeIncentive(
+  orderNumber: string,
+  orderIncentiveId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await removeOrderIncentive(session.user.dealerId, orderNumber, orderIncentiveId)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to remove incentive' }
+  }
+}
+
+export async function fileIncentiveClaims(orderNumber: string): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await fileOrderIncentiveClaims(session.user.dealerId, orderNumber, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to file incentive claims' }
+  }
+}
+
+export async function fetchDealWorksheet(orderNumber: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  try {
+    return await getDealWorksheet(session.user.dealerId, orderNumber)
+  } catch {
+    return null
+  }
+}
+
+export async function fetchDealTaxContext(orderNumber: string, state: string, zipCode: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  const address = state.trim().length === 2 ? { state: state.trim().toUpperCase(), zipCode: zipCode.trim() } : null
+  return getDealTaxContext(session.user.dealerId, orderNumber, address)
+}
+
+export async function saveWorksheet(
+  orderNumber: string,
+  input: DealWorksheetInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = dealWorksheetSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid worksheet' }
+  }
+
+  try {
+    await saveDealWorksheet(session.user.dealerId, orderNumber, validated.data)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save worksheet' }
+  }
+}
+
+export async function createBuyersOrder(
+  orderNumber: string
+): Promise<{ success: boolean; documentId?: string; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    const document = await generateBuyersOrder(session.user.dealerId, orderNumber, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true, documentId: document.id }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to generate buyer\'s order' }
+  }
+}
+
+export async function fetchDealDocumentHtml(documentId: string): Promise<string | null> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getDealDocumentHtml(session.user.dealerId, documentId)
+}
+
+export async function fetchOrderInvoice(orderNumber: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return getOrderVehicleInvoice(session.user.dealerId, orderNumber)
+}
+
+export async function createOrderInvoice(orderNumber: string): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await createVehicleInvoiceForOrder(session.user.dealerId, orderNumber)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create invoice' }
+  }
+}
+
+export async function recordInvoicePayment(
+  orderNumber: string,
+  invoiceId: string,
+  input: VehicleInvoicePaymentInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = vehicleInvoicePaymentSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid payment' }
+  }
+
+  try {
+    await recordVehicleInvoicePayment(session.user.dealerId, invoiceId, validated.data, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record payment' }
+  }
+}
+
+export async function fetchVehicleInvoiceHtml(invoiceId: string): Promise<string | null> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  return generateVehicleInvoiceHtml(session.user.dealerId, invoiceId)
+}
+
+export async function fetchTradeInAppraisal(orderNumber: string) {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    throw new Error('Unauthorized')
+  }
+
+  try {
+    const appraisal = await getTradeInAppraisal(session.user.dealerId, orderNumber)
+    return { ...appraisal, canApprove: hasRole(session.user.role, 'dealer_admin') }
+  } catch {
+    return null
+  }
+}
+
+export async function submitTradeInAppraisal(
+  orderNumber: string,
+  input: TradeInAppraisalInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = tradeInAppraisalSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid appraisal' }
+  }
+
+  try {
+    await saveTradeInAppraisal(session.user.dealerId, orderNumber, validated.data, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save appraisal' }
+  }
+}
+
+export async function decideTradeIn(
+  orderNumber: string,
+  input: TradeInDecisionInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId || !hasRole(session.user.role, 'dealer_admin')) {
+    return { success: false, error: 'Only a manager can approve trade-ins' }
+  }
+
+  const validated = tradeInDecisionSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid decision' }
+  }
+
+  try {
+    await decideTradeInAppraisal(session.user.dealerId, orderNumber, validated.data, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update trade-in' }
+  }
+}
+
+export async function saveTradeInLien(
+  orderNumber: string,
+  input: TradeInLienInput
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validated = tradeInLienSchema.safeParse(input)
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid lien details' }
+  }
+
+  try {
+    await updateTradeInLien(session.user.dealerId, orderNumber, validated.data, session.user.id)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save lien details' }
+  }
+}
+
+export async function addTradeInToInventory(orderNumber: string): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await completeOrderTradeIn(session.user.dealerId, orderNumber)
+    revalidatePath(`/vehicle-orders/${orderNumber}`)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to add trade-in to inventory' }
+  }
+}
+
+export async function getTradeInPhotoUploadUrl(
+  file: { name: string; size: number; type: string }
+): Promise<{ success: boolean; uploadUrl?: string; downloadUrl?: string; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const validation = validateUpload(file)
+  if (!validation.valid) return { success: false, error: validation.error }
+  if (!file.type.startsWith('image/')) return { success: false, error: 'Photos must be images' }
+
+  const { uploadUrl, downloadUrl } = await getPresignedUploadUrl(file.name, file.type)
+  return { success: true, uploadUrl, downloadUrl }
+}
+
+export async function addTradeInPhotoUrls(
+  orderNumber: string,
+  urls: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await addTradeInPhotos(session.user.dealerId, orderNumber, urls)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to add photos' }
+  }
+}
+
+export async function deleteTradeInPhoto(
+  orderNumber: string,
+  url: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  try {
+    await removeTradeInPhoto(session.user.dealerId, orderNumber, url)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to remove photo' }
+  }
+}
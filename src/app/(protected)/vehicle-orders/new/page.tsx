@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import {
@@ -14,12 +14,20 @@ import {
   DollarSign,
   User,
   FileText,
+  AlertTriangle,
 } from 'lucide-react'
 import {
   createOrder,
   searchInventoryUnits,
   fetchRVModelsForOrder,
+  fetchBuildCatalog,
 } from '../actions'
+import {
+  configureBuild,
+  type BuildCatalog,
+  type CatalogGroup,
+  type CatalogOption,
+} from '@/lib/build-configurator'
 
 type OrderType = 'stock' | 'factory' | 'locate'
 
@@ -71,6 +79,11 @@ export default function NewVehicleOrderPage() {
   const [requestedExteriorColor, setRequestedExteriorColor] = useState('')
   const [requestedInteriorColor, setRequestedInteriorColor] = useState('')
 
+  // Factory order - build configuration
+  const [catalog, setCatalog] = useState<BuildCatalog | null>(null)
+  const [catalogLoading, setCatalogLoading] = useState(false)
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([])
+
   // Customer info
   const [customerType, setCustomerType] = useState<'retail' | 'wholesale' | 'internal'>('retail')
   const [customerName, setCustomerName] = useState('')
@@ -84,8 +97,24 @@ export default function NewVehicleOrderPage() {
   const [prepFee, setPrepFee] = useState(495)
   const [docFee, setDocFee] = useState(299)
 
+  // Validate and price the factory build as it changes
+  const build = useMemo(
+    () =>
+      orderType === 'factory' && catalog
+        ? configureBuild(catalog, {
+            optionCodes: selectedOptions,
+            exteriorColor: requestedExteriorColor,
+            interiorColor: requestedInteriorColor,
+          })
+        : null,
+    [orderType, catalog, selectedOptions, requestedExteriorColor, requestedInteriorColor]
+  )
+
+  // Factory options are priced from the catalog rather than entered
+  const effectiveOptionsPrice = build ? build.sheet.optionsMSRP : optionsPrice
+
   // Calculate total
-  const totalPrice = unitPrice + optionsPrice + freightPrice + prepFee + docFee
+  const totalPrice = unitPrice + effectiveOptionsPrice + freightPrice + prepFee + docFee
 
   // Load models on mount
   useEffect(() => {
@@ -96,6 +125,28 @@ export default function NewVehicleOrderPage() {
     loadModels()
   }, [])
 
+  // Load the option catalog for a factory build
+  useEffect(() => {
+    setSelectedOptions([])
+    setCatalog(null)
+    if (orderType !== 'factory' || !selectedModel) return
+
+    let cancelled = false
+    setCatalogLoading(true)
+    fetchBuildCatalog(selectedModel.id)
+      .then((result) => {
+        if (!cancelled) setCatalog(result)
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load model options'))
+      .finally(() => {
+        if (!cancelled) setCatalogLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [orderType, selectedModel])
+
   // VIN search debounce effect
   useEffect(() => {
     if (!vinQuery || vinQuery.length < 2) {
@@ -149,6 +200,24 @@ export default function NewVehicleOrderPage() {
     setSelectedModel(model)
     setUnitPrice(model.baseMSRP)
     setModelSearchQuery('')
+    setRequestedExteriorColor('')
+    setRequestedInteriorColor('')
+  }
+
+  // Options in a single-choice group replace each other
+  function handleToggleOption(option: CatalogOption, group: CatalogGroup) {
+    setSelectedOptions((current) => {
+      if (current.includes(option.code)) {
+        return current.filter((code) => code !== option.code)
+      }
+      if (group.selection === 'single' && catalog) {
+        const groupCodes = catalog.options
+          .filter((o) => o.groupCode === group.code)
+          .map((o) => o.code)
+        return [...current.filter((code) => !groupCodes.includes(code)), option.code]
+      }
+      return [...current, option.code]
+    })
   }
 
   // Filter models by search query
@@ -170,7 +239,7 @@ export default function NewVehicleOrderPage() {
         return selectedUnit !== null
       }
       if (orderType === 'factory') {
-        return selectedModel !== null
+        return selectedModel !== null && build !== null && build.valid
       }
       return true // locate can proceed without selection
     }
@@ -192,12 +261,13 @@ export default function NewVehicleOrderPage() {
         rvModelId: selectedModel?.id,
         requestedExteriorColor: requestedExteriorColor || undefined,
         requestedInteriorColor: requestedInteriorColor || undefined,
+        requestedOptions: orderType === 'factory' ? selectedOptions : undefined,
         customerType,
         customerName: customerName || undefined,
         customerEmail: customerEmail || undefined,
         customerPhone: customerPhone || undefined,
         unitPrice,
-        optionsPrice: optionsPrice || undefined,
+        optionsPrice: effectiveOptionsPrice || undefined,
         freightPrice: freightPrice || undefined,
         prepFee: prepFee || undefined,
         docFee: docFee || undefined,
@@ -490,31 +560,172 @@ export default function NewVehicleOrderPage() {
                 </div>
               )}
 
-              {selectedModel && (
-                <div className="grid grid-cols-2 gap-4 pt-4 border-t">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Exterior Color
-                    </label>
-                    <input
-                      type="text"
-                      value={requestedExteriorColor}
-                      onChange={(e) => setRequestedExteriorColor(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
-                      placeholder="e.g., Shadow Black"
-                    />
+              {selectedModel && catalogLoading && (
+                <div className="flex items-center gap-2 pt-4 border-t text-sm text-gray-500">
+                  <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full" />
+                  Loading options...
+                </div>
+              )}
+
+              {selectedModel && catalog && build && (
+                <div className="space-y-6 pt-4 border-t">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Exterior Color *
+                      </label>
+                      {catalog.exteriorColors.length > 0 ? (
+                        <select
+                          value={requestedExteriorColor}
+                          onChange={(e) => setRequestedExteriorColor(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="">Select a color</option>
+                          {catalog.exteriorColors.map((color) => (
+                            <option key={color} value={color}>{color}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={requestedExteriorColor}
+                          onChange={(e) => setRequestedExteriorColor(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                          placeholder="e.g., Shadow Black"
+                        />
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Interior Color *
+                      </label>
+                      {catalog.interiorColors.length > 0 ? (
+                        <select
+                          value={requestedInteriorColor}
+                          onChange={(e) => setRequestedInteriorColor(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="">Select a color</option>
+                          {catalog.interiorColors.map((color) => (
+                            <option key={color} value={color}>{color}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={requestedInteriorColor}
+                          onChange={(e) => setRequestedInteriorColor(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                          placeholder="e.g., Charcoal"
+                        />
+                      )}
+                    </div>
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Interior Color
-                    </label>
-                    <input
-                      type="text"
-                      value={requestedInteriorColor}
-                      onChange={(e) => setRequestedInteriorColor(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
-                      placeholder="e.g., Charcoal"
-                    />
+
+                  {catalog.groups.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">No factory options are offered on this model</p>
+                  ) : (
+                    catalog.groups.map((group) => {
+                      const groupOptions = catalog.options.filter(
+                        (option) => option.groupCode === group.code && option.isActive
+                      )
+                      if (groupOptions.length === 0) return null
+                      return (
+                        <div key={group.code}>
+                          <h3 className="text-sm font-medium text-gray-900 mb-2">
+                            {group.name}
+                            {group.isRequired && ' *'}
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                              {group.selection === 'single' ? 'Choose one' : 'Choose any'}
+                            </span>
+                          </h3>
+                          <div className="space-y-2">
+                            {groupOptions.map((option) => {
+                              const line = build.sheet.lines.find((l) => l.code === option.code)
+                              const includedBy = line?.includedBy
+                                ? catalog.options.find((o) => o.code === line.includedBy)?.name ?? line.includedBy
+                                : null
+                              const hasIssue = build.issues.some((issue) => issue.optionCode === option.code)
+                              return (
+                                <label
+                                  key={option.code}
+                                  className={`flex items-start justify-between gap-4 p-3 border rounded-lg cursor-pointer ${
+                                    hasIssue
+                                      ? 'border-red-300 bg-red-50'
+                                      : line
+                                        ? 'border-blue-500 bg-blue-50'
+                                        : 'border-gray-200 hover:border-gray-300'
+                                  }`}
+                                >
+                                  <div className="flex items-start gap-3">
+                                    <input
+                                      type={group.selection === 'single' ? 'radio' : 'checkbox'}
+                                      checked={selectedOptions.includes(option.code) || !!includedBy}
+                                      disabled={!!includedBy && !selectedOptions.includes(option.code)}
+                                      onChange={() => handleToggleOption(option, group)}
+                                      onClick={(e) => {
+                                        // Let a selected radio be cleared
+                                        if (group.selection === 'single' && selectedOptions.includes(option.code)) {
+                                          e.preventDefault()
+                                          handleToggleOption(option, group)
+                                        }
+                                      }}
+                                      className="mt-1"
+                                    />
+                                    <div>
+                                      <p className="font-medium text-gray-900">{option.name}</p>
+                                      <p className="text-xs text-gray-500">
+                                        {option.code}
+                                        {option.description && ` · ${option.description}`}
+                                      </p>
+                                      {includedBy && (
+                                        <p className="text-xs text-blue-700 mt-1">Included with {includedBy}</p>
+                                      )}
+                                    </div>
+                                  </div>
+                                  <span className="text-sm font-medium text-gray-900 whitespace-nowrap">
+                                    {includedBy ? 'Included' : formatCurrency(option.msrp)}
+                                  </span>
+                                </label>
+                              )
+                            })}
+                          </div>
+                        </div>
+                      )
+                    })
+                  )}
+
+                  {build.issues.length > 0 && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <p className="text-sm font-medium text-yellow-800 flex items-center gap-2 mb-1">
+                        <AlertTriangle className="h-4 w-4" />
+                        Fix the following before continuing
+                      </p>
+                      <ul className="list-disc list-inside text-sm text-yellow-800">
+                        {build.issues.map((issue, index) => (
+                          <li key={index}>{issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="p-4 bg-gray-50 rounded-lg space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Base MSRP:</span>
+                      <span className="font-medium">{formatCurrency(build.sheet.baseMSRP)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Options MSRP:</span>
+                      <span className="font-medium">{formatCurrency(build.sheet.optionsMSRP)}</span>
+                    </div>
+                    <div className="flex justify-between pt-1 border-t font-semibold">
+                      <span className="text-gray-900">Build MSRP:</span>
+                      <span className="text-blue-600">{formatCurrency(build.sheet.totalMSRP)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-500">
+                      <span>Dealer cost:</span>
+                      <span>{formatCurrency(build.sheet.totalDealerCost)}</span>
+                    </div>
                   </div>
                 </div>
               )}
@@ -599,12 +810,16 @@ export default function NewVehicleOrderPage() {
                   <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
                   <input
                     type="number"
-                    value={optionsPrice || ''}
+                    value={effectiveOptionsPrice || ''}
                     onChange={(e) => setOptionsPrice(parseFloat(e.target.value) || 0)}
-                    className="w-full px-3 py-2 pl-9 border border-gray-300 rounded-lg"
+                    disabled={build !== null}
+                    className="w-full px-3 py-2 pl-9 border border-gray-300 rounded-lg disabled:bg-gray-50"
                     placeholder="0"
                   />
                 </div>
+                {build && (
+                  <p className="text-xs text-gray-500 mt-1">Priced from the factory build</p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -782,6 +997,21 @@ export default function NewVehicleOrderPage() {
                         <span className="font-medium">{requestedInteriorColor}</span>
                       </div>
                     )}
+                    {build && build.sheet.lines.length > 0 && (
+                      <div className="pt-2">
+                        <span className="text-gray-600">Options:</span>
+                        <ul className="mt-1 space-y-1 text-sm">
+                          {build.sheet.lines.map((line) => (
+                            <li key={line.code} className="flex justify-between">
+                              <span>{line.name}</span>
+                              <span className="font-medium">
+                                {line.includedBy ? 'Included' : formatCurrency(line.msrp)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -827,10 +1057,10 @@ export default function NewVehicleOrderPage() {
                 <span className="text-gray-600">Unit Price:</span>
                 <span className="font-medium">{formatCurrency(unitPrice)}</span>
               </div>
-              {optionsPrice > 0 && (
+              {effectiveOptionsPrice > 0 && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Options:</span>
-                  <span className="font-medium">{formatCurrency(optionsPrice)}</span>
+                  <span className="font-medium">{formatCurrency(effectiveOptionsPrice)}</span>
                 </div>
               )}
               {freightPrice > 0 && (
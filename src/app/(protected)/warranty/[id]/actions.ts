@@ -9,11 +9,24 @@ import {
   assignWarrantyClaim,
   submitWarrantyClaim,
   updateWarrantyClaim,
+  requestWarrantyGoodwill,
 } from '@/lib/services/warranty'
+import { getClaimCoverageBlockers } from '@/lib/warranty-coverage'
+import { getRiskLevel, parseRiskFlags } from '@/lib/warranty-risk'
+import { scoreWarrantyClaimRisk } from '@/lib/services/warranty-risk'
+import {
+  generatePartReturnTagsHtml,
+  inspectPartReturn,
+  receivePartReturn,
+  shipPartReturns,
+} from '@/lib/services/warranty-returns'
 import {
   addWarrantyNoteSchema,
   reviewWarrantyClaimSchema,
   respondToInfoRequestSchema,
+  shipPartReturnsSchema,
+  inspectPartReturnSchema,
+  type ReviewWarrantyClaimInput,
 } from '@/lib/validations/warranty'
 import {
   warrantyStatusLabels,
@@ -48,6 +61,10 @@ export async function getWarrantyClaimDetails(claimId: string) {
     canReview: ['super_admin', 'admin'].includes(session.user.role) && ['submitted', 'under_review', 'info_requested'].includes(claim.status),
     canRespond: claim.status === 'info_requested' && claim.dealerId === session.user.dealerId,
     canSubmit: claim.status === 'draft' && claim.dealerId === session.user.dealerId,
+    coverageBlockers: getClaimCoverageBlockers(claim),
+    canShipReturns: claim.dealerId === session.user.dealerId,
+    riskLevel: getRiskLevel(claim.riskScore),
+    riskFlagList: parseRiskFlags(claim.riskFlags),
   }
 }
 
@@ -91,7 +108,8 @@ export async function reviewClaimAction(
   note?: string,
   totalApproved?: number,
   resolutionType?: string,
-  resolutionNotes?: string
+  resolutionNotes?: string,
+  decisions?: Pick<ReviewWarrantyClaimInput, 'itemDecisions' | 'laborDecisions' | 'returnDays'>
 ): Promise<{ success: boolean; error?: string }> {
   const session = await auth()
   if (!session?.user) {
@@ -111,6 +129,9 @@ export async function reviewClaimAction(
       totalApproved,
       resolutionType,
       resolutionNotes,
+      itemDecisions: decisions?.itemDecisions,
+      laborDecisions: decisions?.laborDecisions,
+      returnDays: decisions?.returnDays,
     })
 
     return reviewWarrantyClaim(validated, session.user.id)
@@ -179,6 +200,135 @@ export async function submitClaimAction(
   return submitWarrantyClaim(claimId, session.user.id)
 }
 
+// Ask for goodwill on items outside warranty coverage (dealer side)
+export async function requestGoodwillAction(
+  claimId: string,
+  reason?: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  return requestWarrantyGoodwill(claimId, session.user.id, reason)
+}
+
+// Record the shipment of defective parts back to the manufacturer (dealer side)
+export async function shipPartReturnsAction(
+  claimId: string,
+  returnIds: string[],
+  carrier: string,
+  trackingNumber: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const validated = shipPartReturnsSchema.safeParse({ claimId, returnIds, carrier, trackingNumber })
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid shipment' }
+  }
+
+  try {
+    await shipPartReturns(session.user.dealerId, validated.data, session.user.id)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record shipment' }
+  }
+}
+
+// Receive a returned part (manufacturer side)
+export async function receivePartReturnAction(
+  returnId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const isAdmin = ['super_admin', 'admin'].includes(session.user.role)
+  if (!isAdmin) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  try {
+    await receivePartReturn(returnId, session.user.id)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to receive part' }
+  }
+}
+
+// Accept or reject a returned part; rejected parts are charged back (manufacturer side)
+export async function inspectPartReturnAction(
+  returnId: string,
+  result: 'accept' | 'reject',
+  notes?: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const isAdmin = ['super_admin', 'admin'].includes(session.user.role)
+  if (!isAdmin) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  const validated = inspectPartReturnSchema.safeParse({ returnId, result, notes })
+  if (!validated.success) {
+    return { success: false, error: validated.error.errors[0]?.message ?? 'Invalid inspection' }
+  }
+
+  try {
+    await inspectPartReturn(validated.data, session.user.id)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record inspection' }
+  }
+}
+
+// Re-run the anomaly checks, e.g. after other claims on the unit were filed (manufacturer side)
+export async function rescoreClaimRiskAction(
+  claimId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await auth()
+  if (!session?.user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const isAdmin = ['super_admin', 'admin'].includes(session.user.role)
+  if (!isAdmin) {
+    return { success: false, error: 'Not authorized' }
+  }
+
+  try {
+    await scoreWarrantyClaimRisk(claimId)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to score claim' }
+  }
+}
+
+// Printable return tags and packing list for the claim's outstanding returns
+export async function getPartReturnTagsHtml(claimId: string): Promise<string | null> {
+  const session = await auth()
+  if (!session?.user) {
+    return null
+  }
+
+  const claim = await getWarrantyClaimById(
+    claimId,
+    session.user.id,
+    session.user.role,
+    session.user.dealerId || null
+  )
+  if (!claim) return null
+
+  return generatePartReturnTagsHtml(claimId)
+}
+
 // Get list of admin users for assignment
 export async function getAdminUsers(): Promise<Array<{ id: string; name: string; email: string }>> {
   const session = await auth()
@@ -10,6 +10,12 @@ import {
   respondToRequestAction,
   assignClaimAction,
   submitClaimAction,
+  requestGoodwillAction,
+  shipPartReturnsAction,
+  receivePartReturnAction,
+  inspectPartReturnAction,
+  getPartReturnTagsHtml,
+  rescoreClaimRiskAction,
 } from './actions'
 import {
   warrantyStatusLabels,
@@ -17,10 +23,32 @@ import {
   warrantyClaimTypeLabels,
   warrantyPriorityLabels,
   warrantyPriorityColors,
+  partReturnStatusLabels,
+  partReturnStatusColors,
+  riskLevelLabels,
+  riskLevelColors,
 } from '@/lib/warranty-constants'
+import { RISK_FLAG_LABELS, RISK_FLAG_POINTS } from '@/lib/warranty-risk'
+import { DEFAULT_PART_RETURN_DAYS, isPartReturnOverdue, summarizePartReturns } from '@/lib/warranty-returns'
+import { describeLaborFlag, parseLaborFlags } from '@/lib/warranty-labor'
+import {
+  COVERAGE_STATUS_LABELS,
+  WARRANTY_COMPONENT_LABELS,
+  type CoverageStatus,
+  type WarrantyComponent,
+} from '@/lib/warranty-coverage'
 
 type WarrantyClaim = Awaited<ReturnType<typeof getWarrantyClaimDetails>>
 
+const coverageStatusColors: Record<CoverageStatus, string> = {
+  covered: 'text-green-600',
+  extended: 'text-blue-600',
+  expired: 'text-red-600',
+  mileage_exceeded: 'text-red-600',
+  not_covered: 'text-red-600',
+  oem: 'text-amber-700',
+}
+
 const resolutionTypes = [
   { value: 'replacement', label: 'Replacement' },
   { value: 'repair', label: 'Repair' },
@@ -51,6 +79,14 @@ export default function WarrantyDetailPage() {
   const [approvedAmount, setApprovedAmount] = useState('')
   const [resolutionType, setResolutionType] = useState('credit')
   const [resolutionNotes, setResolutionNotes] = useState('')
+  const [lineAmounts, setLineAmounts] = useState<Record<string, string>>({})
+  const [returnRequired, setReturnRequired] = useState<Record<string, boolean>>({})
+  const [returnDays, setReturnDays] = useState(String(DEFAULT_PART_RETURN_DAYS))
+
+  // Part return shipment form
+  const [selectedReturns, setSelectedReturns] = useState<string[]>([])
+  const [returnCarrier, setReturnCarrier] = useState('')
+  const [returnTracking, setReturnTracking] = useState('')
 
   useEffect(() => {
     setMounted(true)
@@ -110,15 +146,72 @@ export default function WarrantyDetailPage() {
     })
   }
 
+  // Approved total from line amounts, plus shipping and any amounts not broken out into lines
+  function suggestApprovedTotal(amounts: Record<string, string>) {
+    if (!claim) return 0
+    const sumLines = (prefix: string) =>
+      Object.entries(amounts)
+        .filter(([key]) => key.startsWith(prefix))
+        .reduce((sum, [, value]) => sum + (parseFloat(value) || 0), 0)
+    const parts = claim.items.length > 0 ? sumLines('item:') : claim.partsAmount
+    const labor = claim.laborLines.length > 0 ? sumLines('labor:') : claim.laborAmount
+    return Math.round((parts + labor + claim.shippingAmount) * 100) / 100
+  }
+
+  // Lines open pre-filled with prior decisions, else the requested part cost
+  // and the labor amount suggested by the flat-rate check
+  function openReviewModal() {
+    if (!claim) return
+    const amounts: Record<string, string> = {}
+    for (const item of claim.items) {
+      amounts[`item:${item.id}`] = String(item.approvedAmount ?? item.totalCost)
+    }
+    for (const line of claim.laborLines) {
+      amounts[`labor:${line.id}`] = String(line.approvedAmount ?? line.suggestedAmount ?? line.amount)
+    }
+    setLineAmounts(amounts)
+    setApprovedAmount(suggestApprovedTotal(amounts).toFixed(2))
+    setReturnRequired(Object.fromEntries(claim.items.map((item) => [item.id, !!item.partReturn])))
+    setShowReviewModal(true)
+  }
+
+  function updateLineAmount(key: string, value: string) {
+    const amounts = { ...lineAmounts, [key]: value }
+    setLineAmounts(amounts)
+    setApprovedAmount(suggestApprovedTotal(amounts).toFixed(2))
+  }
+
   async function handleReview() {
+    if (!claim) return
+    const approving = reviewAction === 'approve' || reviewAction === 'partial'
+    const decisions = approving
+      ? {
+          itemDecisions: claim.items.map((item) => {
+            const amount = parseFloat(lineAmounts[`item:${item.id}`]) || 0
+            return {
+              itemId: item.id,
+              approved: amount > 0,
+              approvedAmount: amount,
+              returnRequired: amount > 0 && !!returnRequired[item.id],
+            }
+          }),
+          laborDecisions: claim.laborLines.map((line) => {
+            const amount = parseFloat(lineAmounts[`labor:${line.id}`]) || 0
+            return { lineId: line.id, approved: amount > 0, approvedAmount: amount }
+          }),
+          returnDays: parseInt(returnDays) || undefined,
+        }
+      : undefined
+
     startTransition(async () => {
       const result = await reviewClaimAction(
         claimId,
         reviewAction,
         reviewNote || undefined,
-        reviewAction === 'approve' || reviewAction === 'partial' ? parseFloat(approvedAmount) || undefined : undefined,
+        approving ? parseFloat(approvedAmount) || undefined : undefined,
         reviewAction !== 'request_info' ? resolutionType : undefined,
-        resolutionNotes || undefined
+        resolutionNotes || undefined,
+        decisions
       )
       if (result.success) {
         setShowReviewModal(false)
@@ -156,6 +249,88 @@ export default function WarrantyDetailPage() {
     })
   }
 
+  async function handleShipReturns() {
+    startTransition(async () => {
+      const result = await shipPartReturnsAction(claimId, selectedReturns, returnCarrier, returnTracking)
+      if (result.success) {
+        setSelectedReturns([])
+        setReturnCarrier('')
+        setReturnTracking('')
+        loadClaim()
+      } else {
+        alert(result.error)
+      }
+    })
+  }
+
+  async function handleReceiveReturn(returnId: string) {
+    startTransition(async () => {
+      const result = await receivePartReturnAction(returnId)
+      if (result.success) {
+        loadClaim()
+      } else {
+        alert(result.error)
+      }
+    })
+  }
+
+  async function handleInspectReturn(returnId: string, inspection: 'accept' | 'reject') {
+    const notes =
+      inspection === 'reject'
+        ? prompt('Why did the part fail inspection? The credit will be charged back.')
+        : prompt('Inspection notes (optional)')
+    if (notes === null) return
+
+    startTransition(async () => {
+      const result = await inspectPartReturnAction(returnId, inspection, notes.trim() || undefined)
+      if (result.success) {
+        loadClaim()
+      } else {
+        alert(result.error)
+      }
+    })
+  }
+
+  async function handlePrintReturnTags() {
+    const html = await getPartReturnTagsHtml(claimId)
+    if (!html) return
+
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.focus()
+      setTimeout(() => {
+        printWindow.print()
+      }, 500)
+    }
+  }
+
+  async function handleRequestGoodwill() {
+    const reason = prompt('Why should the manufacturer cover these items as goodwill?')
+    if (reason === null) return
+
+    startTransition(async () => {
+      const result = await requestGoodwillAction(claimId, reason.trim() || undefined)
+      if (result.success) {
+        loadClaim()
+      } else {
+        alert(result.error)
+      }
+    })
+  }
+
+  async function handleRescoreRisk() {
+    startTransition(async () => {
+      const result = await rescoreClaimRiskAction(claimId)
+      if (result.success) {
+        loadClaim()
+      } else {
+        alert(result.error)
+      }
+    })
+  }
+
   if (!mounted) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -177,6 +352,14 @@ export default function WarrantyDetailPage() {
 
   const statusColor = warrantyStatusColors[claim.status as keyof typeof warrantyStatusColors] || { bg: 'bg-gray-100', text: 'text-gray-700' }
   const priorityColor = warrantyPriorityColors[claim.priority as keyof typeof warrantyPriorityColors] || { bg: 'bg-gray-100', text: 'text-gray-600' }
+  const partReturns = claim.items.flatMap((item) =>
+    item.partReturn ? [{ ...item.partReturn, partName: item.partName, partNumber: item.partNumber }] : []
+  )
+  const shippableReturns = partReturns.filter((partReturn) => partReturn.status === 'required')
+  const returnSummary = summarizePartReturns(
+    partReturns.map((partReturn) => ({ ...partReturn, dueDate: new Date(partReturn.dueDate) })),
+    new Date()
+  )
 
   return (
     <div className="space-y-6">
@@ -211,7 +394,7 @@ export default function WarrantyDetailPage() {
               </button>
             )}
             {claim.canReview && (
-              <button onClick={() => setShowReviewModal(true)} className="btn-primary">
+              <button onClick={openReviewModal} className="btn-primary">
                 Review Claim
               </button>
             )}
@@ -222,6 +405,23 @@ export default function WarrantyDetailPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Coverage Blockers */}
+          {(claim.canSubmit || claim.canRespond) && claim.coverageBlockers.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <h3 className="font-medium text-red-800 mb-2">Outside Warranty Coverage</h3>
+              <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+                {claim.coverageBlockers.map((blocker) => (
+                  <li key={blocker}>{blocker}</li>
+                ))}
+              </ul>
+              {!claim.goodwillRequested && (
+                <button onClick={handleRequestGoodwill} className="btn-outline btn-sm mt-3" disabled={isPending}>
+                  Request Goodwill
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Claim Details Card */}
           <div className="card">
             <div className="card-body space-y-6">
@@ -242,7 +442,14 @@ export default function WarrantyDetailPage() {
                 </div>
                 <div>
                   <p className="text-sm text-medium-gray">Under Warranty</p>
-                  <p className="font-medium text-charcoal">{claim.isUnderWarranty ? 'Yes' : 'No'}</p>
+                  <p className="font-medium text-charcoal">
+                    {claim.isUnderWarranty ? (claim.warrantyStatus === 'extended' ? 'Yes (extended)' : 'Yes') : 'No'}
+                  </p>
+                  {claim.goodwillRequested && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                      Goodwill Request
+                    </span>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm text-medium-gray">Submitted</p>
@@ -330,6 +537,7 @@ export default function WarrantyDetailPage() {
                           <th className="px-3 py-2 text-left">Part</th>
                           <th className="px-3 py-2 text-center">Qty</th>
                           <th className="px-3 py-2 text-left">Issue</th>
+                          <th className="px-3 py-2 text-left">Coverage</th>
                           <th className="px-3 py-2 text-right">Cost</th>
                           {claim.isAdmin && <th className="px-3 py-2 text-center">Status</th>}
                         </tr>
@@ -343,6 +551,16 @@ export default function WarrantyDetailPage() {
                             </td>
                             <td className="px-3 py-2 text-center">{item.quantity}</td>
                             <td className="px-3 py-2 capitalize">{item.issueType}</td>
+                            <td className="px-3 py-2" title={item.coverageNote ?? undefined}>
+                              <span className="text-medium-gray">
+                                {WARRANTY_COMPONENT_LABELS[item.component as WarrantyComponent] ?? item.component}
+                              </span>
+                              {item.coverageStatus && (
+                                <span className={`block text-xs ${coverageStatusColors[item.coverageStatus as CoverageStatus] ?? ''}`}>
+                                  {COVERAGE_STATUS_LABELS[item.coverageStatus as CoverageStatus] ?? item.coverageStatus}
+                                </span>
+                              )}
+                            </td>
                             <td className="px-3 py-2 text-right">{formatCurrency(item.totalCost)}</td>
                             {claim.isAdmin && (
                               <td className="px-3 py-2 text-center">
@@ -364,6 +582,213 @@ export default function WarrantyDetailPage() {
                   </div>
                 </div>
               )}
+
+              {/* Part Returns */}
+              {partReturns.length > 0 && (
+                <div className="border-t border-light-gray pt-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-medium-gray uppercase">
+                      Part Returns
+                      <span className="ml-2 normal-case font-normal">
+                        {returnSummary.open} open
+                        {returnSummary.overdue > 0 && <span className="text-red-600">, {returnSummary.overdue} overdue</span>}
+                      </span>
+                    </h3>
+                    {partReturns.some((partReturn) => ['required', 'shipped'].includes(partReturn.status)) && (
+                      <button onClick={handlePrintReturnTags} className="btn-outline btn-sm">
+                        Print Tags &amp; Packing List
+                      </button>
+                    )}
+                  </div>
+                  <div className="border border-light-gray rounded overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-light-beige">
+                        <tr>
+                          {claim.canShipReturns && shippableReturns.length > 0 && <th className="px-3 py-2" />}
+                          <th className="px-3 py-2 text-left">Tag</th>
+                          <th className="px-3 py-2 text-left">Part</th>
+                          <th className="px-3 py-2 text-left">Status</th>
+                          <th className="px-3 py-2 text-left">Return By</th>
+                          <th className="px-3 py-2 text-right">Credit</th>
+                          {claim.isAdmin && <th className="px-3 py-2 text-right">Actions</th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {partReturns.map((partReturn) => {
+                          const returnColor = partReturnStatusColors[partReturn.status as keyof typeof partReturnStatusColors] || { bg: 'bg-gray-100', text: 'text-gray-700' }
+                          const overdue = isPartReturnOverdue(
+                            { status: partReturn.status, dueDate: new Date(partReturn.dueDate) },
+                            new Date()
+                          )
+                          return (
+                            <tr key={partReturn.id} className="border-t border-light-gray align-top">
+                              {claim.canShipReturns && shippableReturns.length > 0 && (
+                                <td className="px-3 py-2">
+                                  {partReturn.status === 'required' && (
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedReturns.includes(partReturn.id)}
+                                      onChange={(e) =>
+                                        setSelectedReturns(
+                                          e.target.checked
+                                            ? [...selectedReturns, partReturn.id]
+                                            : selectedReturns.filter((id) => id !== partReturn.id)
+                                        )
+                                      }
+                                    />
+                                  )}
+                                </td>
+                              )}
+                              <td className="px-3 py-2 font-mono">{partReturn.tagNumber}</td>
+                              <td className="px-3 py-2">
+                                {partReturn.partName}
+                                {partReturn.trackingNumber && (
+                                  <p className="text-xs text-medium-gray">
+                                    {partReturn.carrier} {partReturn.trackingNumber}
+                                  </p>
+                                )}
+                                {partReturn.inspectionNotes && (
+                                  <p className="text-xs text-medium-gray">Inspection: {partReturn.inspectionNotes}</p>
+                                )}
+                                {partReturn.chargebackReason && (
+                                  <p className="text-xs text-red-600">
+                                    Charged back {formatCurrency(partReturn.chargebackAmount)}: {partReturn.chargebackReason}
+                                  </p>
+                                )}
+                              </td>
+                              <td className="px-3 py-2">
+                                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${returnColor.bg} ${returnColor.text}`}>
+                                  {partReturnStatusLabels[partReturn.status as keyof typeof partReturnStatusLabels] ?? partReturn.status}
+                                </span>
+                              </td>
+                              <td className={`px-3 py-2 ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                                {new Date(partReturn.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                                {overdue && ' (overdue)'}
+                              </td>
+                              <td className="px-3 py-2 text-right">{formatCurrency(partReturn.creditAmount)}</td>
+                              {claim.isAdmin && (
+                                <td className="px-3 py-2 text-right whitespace-nowrap space-x-2">
+                                  {['required', 'shipped'].includes(partReturn.status) && (
+                                    <button
+                                      onClick={() => handleReceiveReturn(partReturn.id)}
+                                      className="text-olive hover:underline"
+                                      disabled={isPending}
+                                    >
+                                      Receive
+                                    </button>
+                                  )}
+                                  {partReturn.status === 'received' && (
+                                    <>
+                                      <button
+                                        onClick={() => handleInspectReturn(partReturn.id, 'accept')}
+                                        className="text-green-600 hover:underline"
+                                        disabled={isPending}
+                                      >
+                                        Accept
+                                      </button>
+                                      <button
+                                        onClick={() => handleInspectReturn(partReturn.id, 'reject')}
+                                        className="text-red-600 hover:underline"
+                                        disabled={isPending}
+                                      >
+                                        Reject
+                                      </button>
+                                    </>
+                                  )}
+                                </td>
+                              )}
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {claim.canShipReturns && shippableReturns.length > 0 && (
+                    <div className="flex flex-col sm:flex-row gap-2 mt-3">
+                      <input
+                        type="text"
+                        value={returnCarrier}
+                        onChange={(e) => setReturnCarrier(e.target.value)}
+                        className="input flex-1"
+                        placeholder="Carrier"
+                      />
+                      <input
+                        type="text"
+                        value={returnTracking}
+                        onChange={(e) => setReturnTracking(e.target.value)}
+                        className="input flex-1"
+                        placeholder="Tracking number"
+                      />
+                      <button
+                        onClick={handleShipReturns}
+                        className="btn-primary btn-sm"
+                        disabled={isPending || selectedReturns.length === 0 || !returnCarrier.trim() || !returnTracking.trim()}
+                      >
+                        Mark Shipped
+                      </button>
+                    </div>
+                  )}
+                  {shippableReturns.length > 0 && (
+                    <p className="text-xs text-medium-gray mt-2">
+                      Parts not shipped by their return date are charged back automatically.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Labor Operations */}
+              {claim.laborLines.length > 0 && (
+                <div className="border-t border-light-gray pt-4">
+                  <h3 className="text-sm font-medium text-medium-gray uppercase mb-3">Labor Operations</h3>
+                  <div className="border border-light-gray rounded overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-light-beige">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Operation</th>
+                          <th className="px-3 py-2 text-center">Hours</th>
+                          <th className="px-3 py-2 text-center">Std</th>
+                          <th className="px-3 py-2 text-right">Rate</th>
+                          <th className="px-3 py-2 text-right">Amount</th>
+                          {claim.isAdmin && <th className="px-3 py-2 text-right">Suggested</th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {claim.laborLines.map((line) => {
+                          const flags = parseLaborFlags(line.flags)
+                          return (
+                            <tr key={line.id} className="border-t border-light-gray align-top">
+                              <td className="px-3 py-2">
+                                <span className="font-mono">{line.opCode}</span>
+                                <span className="text-medium-gray ml-1">{line.description}</span>
+                                {claim.isAdmin &&
+                                  flags.map((flag) => (
+                                    <p key={flag} className="text-xs text-amber-700 mt-1">
+                                      {describeLaborFlag(flag, line)}
+                                    </p>
+                                  ))}
+                              </td>
+                              <td className={`px-3 py-2 text-center ${flags.includes('hours_over_standard') ? 'text-amber-700 font-medium' : ''}`}>
+                                {line.hours}
+                              </td>
+                              <td className="px-3 py-2 text-center">{line.standardHours ?? '-'}</td>
+                              <td className={`px-3 py-2 text-right ${flags.includes('rate_over_approved') ? 'text-amber-700 font-medium' : ''}`}>
+                                {formatCurrency(line.rate)}
+                              </td>
+                              <td className="px-3 py-2 text-right">{formatCurrency(line.amount)}</td>
+                              {claim.isAdmin && (
+                                <td className="px-3 py-2 text-right">{formatCurrency(line.suggestedAmount)}</td>
+                              )}
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {claim.isAdmin && !claim.laborValidatedAt && (
+                    <p className="text-xs text-medium-gray mt-2">Labor is checked against the flat-rate guide when the claim is submitted.</p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -522,6 +947,18 @@ export default function WarrantyDetailPage() {
                     <span>{formatCurrency(claim.totalApproved)}</span>
                   </div>
                 )}
+                {claim.chargebackAmount > 0 && (
+                  <div className="flex justify-between font-semibold text-red-600">
+                    <span>Charged Back</span>
+                    <span>-{formatCurrency(claim.chargebackAmount)}</span>
+                  </div>
+                )}
+                {claim.paidAt && (
+                  <div className="flex justify-between font-semibold text-olive">
+                    <span>Paid {formatDate(claim.paidAt)}</span>
+                    <span>{formatCurrency(claim.paidAmount ?? 0)}</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -555,6 +992,49 @@ export default function WarrantyDetailPage() {
             </div>
           )}
 
+          {/* Risk Review (for admins) */}
+          {claim.isAdmin && claim.status !== 'draft' && (
+            <div className="card">
+              <div className="card-body">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-heading font-semibold text-charcoal">Risk Review</h3>
+                  {claim.riskScore !== null && (
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${riskLevelColors[claim.riskLevel].bg} ${riskLevelColors[claim.riskLevel].text}`}
+                    >
+                      {riskLevelLabels[claim.riskLevel]} &middot; {claim.riskScore}
+                    </span>
+                  )}
+                </div>
+                {claim.riskScore === null ? (
+                  <p className="text-sm text-medium-gray">This claim has not been scored yet.</p>
+                ) : claim.riskFlagList.length === 0 ? (
+                  <p className="text-sm text-medium-gray">No anomalies found.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {claim.riskFlagList.map((flag) => (
+                      <li key={flag.flag} className="text-sm">
+                        <p className="font-medium text-charcoal">
+                          {RISK_FLAG_LABELS[flag.flag]}{' '}
+                          <span className="text-xs text-medium-gray">+{RISK_FLAG_POINTS[flag.flag]}</span>
+                        </p>
+                        <p className="text-medium-gray">{flag.reason}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="mt-4 flex items-center justify-between">
+                  <p className="text-xs text-medium-gray">
+                    {claim.riskScoredAt ? `Scored ${formatDate(claim.riskScoredAt)}` : ''}
+                  </p>
+                  <button onClick={handleRescoreRisk} disabled={isPending} className="btn-ghost btn-sm">
+                    Re-score
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Dealer Info (for admins) */}
           {claim.isAdmin && (
             <div className="card">
@@ -624,7 +1104,7 @@ export default function WarrantyDetailPage() {
       {/* Review Modal */}
       {showReviewModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6 space-y-4">
               <h2 className="text-xl font-heading font-semibold text-charcoal">Review Warranty Claim</h2>
 
@@ -654,6 +1134,92 @@ export default function WarrantyDetailPage() {
 
               {(reviewAction === 'approve' || reviewAction === 'partial') && (
                 <>
+                  {(claim.items.length > 0 || claim.laborLines.length > 0) && (
+                    <div>
+                      <label className="form-label">Line Amounts</label>
+                      <div className="border border-light-gray rounded overflow-hidden mt-2">
+                        <table className="w-full text-sm">
+                          <thead className="bg-light-beige">
+                            <tr>
+                              <th className="px-3 py-2 text-left">Line</th>
+                              <th className="px-3 py-2 text-right">Requested</th>
+                              <th className="px-3 py-2 text-right w-32">Approve</th>
+                              {claim.items.length > 0 && <th className="px-3 py-2 text-center">Return</th>}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {claim.items.map((item) => (
+                              <tr key={item.id} className="border-t border-light-gray">
+                                <td className="px-3 py-2">{item.partName}</td>
+                                <td className="px-3 py-2 text-right">{formatCurrency(item.totalCost)}</td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="number"
+                                    value={lineAmounts[`item:${item.id}`] ?? ''}
+                                    onChange={(e) => updateLineAmount(`item:${item.id}`, e.target.value)}
+                                    className="input w-full text-right"
+                                    min="0"
+                                    step="0.01"
+                                  />
+                                </td>
+                                <td className="px-3 py-2 text-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={!!returnRequired[item.id]}
+                                    disabled={!!item.partReturn}
+                                    onChange={(e) => setReturnRequired({ ...returnRequired, [item.id]: e.target.checked })}
+                                    title="Require the dealer to ship this part back"
+                                  />
+                                </td>
+                              </tr>
+                            ))}
+                            {claim.laborLines.map((line) => (
+                              <tr key={line.id} className="border-t border-light-gray align-top">
+                                <td className="px-3 py-2">
+                                  <span className="font-mono">{line.opCode}</span> {line.description}
+                                  {parseLaborFlags(line.flags).map((flag) => (
+                                    <p key={flag} className="text-xs text-amber-700 mt-1">
+                                      {describeLaborFlag(flag, line)}
+                                    </p>
+                                  ))}
+                                </td>
+                                <td className="px-3 py-2 text-right">{formatCurrency(line.amount)}</td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="number"
+                                    value={lineAmounts[`labor:${line.id}`] ?? ''}
+                                    onChange={(e) => updateLineAmount(`labor:${line.id}`, e.target.value)}
+                                    className="input w-full text-right"
+                                    min="0"
+                                    step="0.01"
+                                  />
+                                </td>
+                                {claim.items.length > 0 && <td />}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <p className="text-xs text-medium-gray mt-1">
+                        Labor is pre-filled at standard hours and the dealer&apos;s approved rate.
+                      </p>
+                      {Object.values(returnRequired).some(Boolean) && (
+                        <div className="flex items-center gap-2 mt-3 text-sm">
+                          <label htmlFor="returnDays">Parts must be returned within</label>
+                          <input
+                            id="returnDays"
+                            type="number"
+                            value={returnDays}
+                            onChange={(e) => setReturnDays(e.target.value)}
+                            className="input w-20"
+                            min="1"
+                            max="180"
+                          />
+                          <span>days, or the part credit is charged back.</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div>
                     <label className="form-label">Approved Amount</label>
                     <input
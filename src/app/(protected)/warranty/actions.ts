@@ -7,6 +7,7 @@ import {
   createWarrantyClaim,
   submitWarrantyClaim,
   deleteWarrantyClaim,
+  getWarrantyLaborGuide,
 } from '@/lib/services/warranty'
 import {
   warrantyFilterSchema,
@@ -18,8 +19,11 @@ import {
   warrantyClaimTypeLabels,
   warrantyPriorityLabels,
   warrantyPriorityColors,
+  riskLevelLabels,
+  riskLevelColors,
   type WarrantyStatus,
 } from '@/lib/warranty-constants'
+import { RISK_FLAG_LABELS, getRiskLevel, parseRiskFlags, type RiskLevel } from '@/lib/warranty-risk'
 import { searchRVUnitsByVin, getRVUnitByVin } from '@/lib/services/rv-inventory'
 
 export type WarrantyClaimListItem = {
@@ -36,6 +40,12 @@ export type WarrantyClaimListItem = {
   priority: string
   priorityLabel: string
   priorityColor: { bg: string; text: string }
+  // Risk review (admins only; null for dealers and unscored claims)
+  riskScore: number | null
+  riskLevel: RiskLevel
+  riskLabel: string
+  riskColor: { bg: string; text: string }
+  riskReasons: string[]
   createdAt: string
   updatedAt: string
   dealerName: string
@@ -53,11 +63,23 @@ export type WarrantyStatsResult = {
   totalApproved: number
 }
 
+function toRiskFields(riskScore: number | null, riskFlags: string | null) {
+  const riskLevel = getRiskLevel(riskScore)
+  return {
+    riskScore,
+    riskLevel,
+    riskLabel: riskLevelLabels[riskLevel],
+    riskColor: riskLevelColors[riskLevel],
+    riskReasons: parseRiskFlags(riskFlags).map((flag) => `${RISK_FLAG_LABELS[flag.flag]}: ${flag.reason}`),
+  }
+}
+
 // Get warranty claims list
 export async function getWarrantyClaims(filters?: {
   status?: string
   claimType?: string
   priority?: string
+  risk?: string
   search?: string
   dealerId?: string
   dateFrom?: Date
@@ -80,6 +102,7 @@ export async function getWarrantyClaims(filters?: {
     status: filters?.status || 'all',
     claimType: filters?.claimType || 'all',
     priority: filters?.priority || 'all',
+    risk: filters?.risk || 'all',
     search: filters?.search,
     dealerId: filters?.dealerId,
     dateFrom: filters?.dateFrom,
@@ -95,6 +118,7 @@ export async function getWarrantyClaims(filters?: {
 
   // Transform for UI
   const claims: WarrantyClaimListItem[] = result.claims.map((claim) => ({
+    ...toRiskFields(claim.riskScore, claim.riskFlags),
     id: claim.id,
     claimNumber: claim.claimNumber,
     status: claim.status as WarrantyStatus,
@@ -168,7 +192,9 @@ export async function createWarrantyClaimAction(
       customerAddress: formData.get('customerAddress') as string || undefined,
       issueDescription: formData.get('issueDescription') as string,
       failureDate: formData.get('failureDate') as string || undefined,
+      failureMileage: formData.get('failureMileage') as string || undefined,
       isUnderWarranty: formData.get('isUnderWarranty') === 'true',
+      goodwillRequested: formData.get('goodwillRequested') === 'true',
       laborHours: formData.get('laborHours') ? parseFloat(formData.get('laborHours') as string) : undefined,
       laborRate: formData.get('laborRate') ? parseFloat(formData.get('laborRate') as string) : undefined,
       partsAmount: formData.get('partsAmount') ? parseFloat(formData.get('partsAmount') as string) : 0,
@@ -191,7 +217,22 @@ export async function createWarrantyClaimAction(
       }
     }
 
-    const rawDataWithItems = items ? { ...rawData, items } : rawData
+    // Op-coded labor lines are sent the same way
+    const laborLinesJson = formData.get('laborLines') as string
+    let laborLines: unknown[] | undefined
+    if (laborLinesJson) {
+      try {
+        laborLines = JSON.parse(laborLinesJson)
+      } catch {
+        // Ignore parse errors
+      }
+    }
+
+    const rawDataWithItems = {
+      ...rawData,
+      ...(items && { items }),
+      ...(laborLines && { laborLines }),
+    }
 
     const validated = createWarrantyClaimSchema.parse(rawDataWithItems)
 
@@ -306,3 +347,13 @@ export async function getRVUnitForWarranty(vin: string) {
     mileage: unit.mileage,
   }
 }
+
+// Flat-rate labor operations for the selected unit and the dealer's approved rate
+export async function getLaborGuideForWarranty(rvUnitId?: string) {
+  const session = await auth()
+  if (!session?.user?.dealerId) {
+    return { operations: [], approvedRate: null }
+  }
+
+  return getWarrantyLaborGuide(session.user.dealerId, rvUnitId || null)
+}
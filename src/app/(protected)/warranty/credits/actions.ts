@@ -0,0 +1,28 @@
+'use server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateSettlementStatementHtml, getDealerWarrantyCredits } from '@/lib/services/warranty-settlement'
+
+export type WarrantyCredits = Awaited<ReturnType<typeof getDealerWarrantyCredits>>
+
+// Approved claims awaiting settlement and the statements already paid to the dealer
+export async function getWarrantyCreditsAction(): Promise<WarrantyCredits | null> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return null
+
+  return getDealerWarrantyCredits(session.user.dealerId)
+}
+
+export async function getWarrantyStatementHtml(statementId: string): Promise<string | null> {
+  const session = await auth()
+  if (!session?.user?.dealerId) return null
+
+  const statement = await prisma.warrantySettlementStatement.findUnique({
+    where: { id: statementId },
+    select: { dealerId: true },
+  })
+  if (!statement || statement.dealerId !== session.user.dealerId) return null
+
+  return generateSettlementStatementHtml(statementId)
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { SETTLEMENT_METHOD_LABELS, type SettlementMethod } from '@/lib/warranty-settlement'
+import { getWarrantyCreditsAction, getWarrantyStatementHtml, type WarrantyCredits } from './actions'
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function formatDate(date: Date | string | null) {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export default function WarrantyCreditsPage() {
+  const [credits, setCredits] = useState<WarrantyCredits | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    getWarrantyCreditsAction()
+      .then(setCredits)
+      .catch((error) => console.error('Failed to load warranty credits:', error))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  async function handlePrint(statementId: string) {
+    const html = await getWarrantyStatementHtml(statementId)
+    if (!html) return
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const pendingTotal = credits?.pending.reduce((sum, claim) => sum + claim.amount, 0) ?? 0
+  const settledTotal = credits?.statements.reduce((sum, statement) => sum + statement.netAmount, 0) ?? 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <nav className="breadcrumb">
+          <Link href="/dashboard">Dashboard</Link>
+          <span className="breadcrumb-separator">/</span>
+          <Link href="/warranty">Warranty Claims</Link>
+          <span className="breadcrumb-separator">/</span>
+          <span>Credits</span>
+        </nav>
+        <h1 className="page-title">Warranty Credits</h1>
+        <p className="page-subtitle">Approved claims waiting to be paid and the settlement statements already issued</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin h-8 w-8 border-2 border-olive border-t-transparent rounded-full" />
+        </div>
+      ) : !credits ? (
+        <div className="card">
+          <div className="card-body text-medium-gray">Warranty credits are only available to dealer accounts.</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="card">
+              <div className="card-body py-4">
+                <p className="text-sm text-medium-gray">Pending Settlement</p>
+                <p className="text-2xl font-heading font-bold text-yellow-600">{formatCurrency(pendingTotal)}</p>
+                <p className="text-xs text-medium-gray">{credits.pending.length} claims</p>
+              </div>
+            </div>
+            <div className="card">
+              <div className="card-body py-4">
+                <p className="text-sm text-medium-gray">Settled</p>
+                <p className="text-2xl font-heading font-bold text-olive">{formatCurrency(settledTotal)}</p>
+                <p className="text-xs text-medium-gray">{credits.statements.length} statements</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Pending */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-heading font-semibold text-charcoal">Pending</h2>
+            </div>
+            {credits.pending.length === 0 ? (
+              <div className="card-body text-medium-gray">No approved claims are waiting on settlement.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-light-beige">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Claim #</th>
+                      <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Product</th>
+                      <th className="px-4 py-3 text-left text-xs font-heading font-semibold text-charcoal uppercase">Approved On</th>
+                      <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Approved</th>
+                      <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Charged Back</th>
+                      <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">Credit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-light-gray">
+                    {credits.pending.map((claim) => (
+                      <tr key={claim.id}>
+                        <td className="px-4 py-3">
+                          <Link href={`/warranty/${claim.id}`} className="font-medium text-olive hover:underline">
+                            {claim.claimNumber}
+                          </Link>
+                          {claim.hold && <p className="text-xs text-yellow-700">On hold: {claim.hold}</p>}
+                        </td>
+                        <td className="px-4 py-3 text-charcoal">{claim.productName}</td>
+                        <td className="px-4 py-3 text-sm text-medium-gray">{formatDate(claim.resolvedAt)}</td>
+                        <td className="px-4 py-3 text-right">{formatCurrency(claim.totalApproved)}</td>
+                        <td className="px-4 py-3 text-right text-red-600">
+                          {claim.chargebackAmount > 0 ? `(${formatCurrency(claim.chargebackAmount)})` : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right font-medium text-charcoal">{formatCurrency(claim.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Settled */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="text-lg font-heading font-semibold text-charcoal">Settlement Statements</h2>
+            </div>
+            {credits.statements.length === 0 ? (
+              <div className="card-body text-medium-gray">No warranty settlements yet.</div>
+            ) : (
+              <div className="divide-y divide-light-gray">
+                {credits.statements.map((statement) => (
+                  <div key={statement.id} className="px-6 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-charcoal">{statement.batch.batchNumber}</p>
+                        <p className="text-sm text-medium-gray">
+                          {formatDate(statement.batch.periodStart)} &ndash; {formatDate(statement.batch.periodEnd)} &middot;{' '}
+                          {SETTLEMENT_METHOD_LABELS[statement.batch.method as SettlementMethod] ?? statement.batch.method}
+                          {statement.payoutStatus === 'pending' && ' (payment pending)'}
+                          {statement.payoutStatus === 'paid' && ` (paid ${formatDate(statement.payoutPaidAt)}, ref ${statement.payoutReference})`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-heading font-bold text-olive">{formatCurrency(statement.netAmount)}</p>
+                        <button onClick={() => handlePrint(statement.id)} className="btn-ghost btn-sm">
+                          Print Statement
+                        </button>
+                      </div>
+                    </div>
+                    <div className="mt-2 text-sm text-medium-gray space-y-1">
+                      <p>
+                        Claims:{' '}
+                        {statement.claims.map((claim, i) => (
+                          <span key={claim.id}>
+                            {i > 0 && ', '}
+                            <Link href={`/warranty/${claim.id}`} className="text-olive hover:underline">
+                              {claim.claimNumber}
+                            </Link>
+                          </span>
+                        ))}
+                      </p>
+                      {statement.creditMemos.map((memo) => (
+                        <p key={memo.id}>
+                          {memo.memoNumber}: {formatCurrency(memo.amount)}{' '}
+                          {memo.invoice ? `applied to invoice ${memo.invoice.invoiceNumber}` : 'credit on account'}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
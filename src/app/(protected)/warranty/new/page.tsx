@@ -3,7 +3,13 @@
 import { useState, useTransition, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { createWarrantyClaimAction, searchVINForWarranty, type VINSearchResult } from '../actions'
+import {
+  createWarrantyClaimAction,
+  getLaborGuideForWarranty,
+  searchVINForWarranty,
+  type VINSearchResult,
+} from '../actions'
+import { WARRANTY_COMPONENTS, WARRANTY_COMPONENT_LABELS } from '@/lib/warranty-coverage'
 
 const claimTypes = [
   { value: 'product_defect', label: 'Product Defect', description: 'Manufacturing or quality issue with the product' },
@@ -36,8 +42,19 @@ type ClaimItem = {
   unitCost: number
   issueType: string
   issueDescription: string
+  component: string
 }
 
+type LaborLine = {
+  id: string
+  opCode: string
+  description: string
+  hours: string
+  rate: string
+}
+
+type LaborGuide = Awaited<ReturnType<typeof getLaborGuideForWarranty>>
+
 export default function NewWarrantyClaimPage() {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
@@ -76,6 +93,13 @@ export default function NewWarrantyClaimPage() {
     return () => clearTimeout(timeoutId)
   }, [vinQuery])
 
+  // Labor guide follows the selected unit's model and class
+  useEffect(() => {
+    getLaborGuideForWarranty(selectedUnit?.id)
+      .then(setLaborGuide)
+      .catch((e) => console.error('Labor guide error:', e))
+  }, [selectedUnit])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -126,16 +150,21 @@ export default function NewWarrantyClaimPage() {
   const [customerAddress, setCustomerAddress] = useState('')
   const [issueDescription, setIssueDescription] = useState('')
   const [failureDate, setFailureDate] = useState('')
+  const [failureMileage, setFailureMileage] = useState('')
   const [isUnderWarranty, setIsUnderWarranty] = useState(true)
-  const [laborHours, setLaborHours] = useState('')
-  const [laborRate, setLaborRate] = useState('')
+  const [goodwillRequested, setGoodwillRequested] = useState(false)
+  const [laborLines, setLaborLines] = useState<LaborLine[]>([])
+  const [laborGuide, setLaborGuide] = useState<LaborGuide>({ operations: [], approvedRate: null })
   const [shippingAmount, setShippingAmount] = useState('')
   const [priority, setPriority] = useState('normal')
   const [items, setItems] = useState<ClaimItem[]>([])
 
   // Calculate totals
   const partsTotal = items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0)
-  const laborTotal = (parseFloat(laborHours) || 0) * (parseFloat(laborRate) || 0)
+  const laborTotal = laborLines.reduce(
+    (sum, line) => sum + (parseFloat(line.hours) || 0) * (parseFloat(line.rate) || 0),
+    0
+  )
   const shipping = parseFloat(shippingAmount) || 0
   const grandTotal = partsTotal + laborTotal + shipping
 
@@ -150,6 +179,7 @@ export default function NewWarrantyClaimPage() {
         unitCost: 0,
         issueType: 'defective',
         issueDescription: '',
+        component: 'general',
       },
     ])
   }
@@ -162,6 +192,43 @@ export default function NewWarrantyClaimPage() {
     setItems(items.filter((item) => item.id !== id))
   }
 
+  function findOperation(opCode: string) {
+    return laborGuide.operations.find((op) => op.opCode === opCode.trim().toUpperCase())
+  }
+
+  function addLaborLine() {
+    setLaborLines([
+      ...laborLines,
+      {
+        id: crypto.randomUUID(),
+        opCode: '',
+        description: '',
+        hours: '',
+        rate: laborGuide.approvedRate !== null ? String(laborGuide.approvedRate) : '',
+      },
+    ])
+  }
+
+  function updateLaborLine(id: string, updates: Partial<LaborLine>) {
+    setLaborLines(laborLines.map((line) => (line.id === id ? { ...line, ...updates } : line)))
+  }
+
+  // Picking a guide op code fills in its description and standard hours
+  function updateLaborOpCode(line: LaborLine, opCode: string) {
+    const operation = findOperation(opCode)
+    updateLaborLine(line.id, {
+      opCode,
+      ...(operation && {
+        description: operation.description,
+        hours: line.hours || String(operation.standardHours),
+      }),
+    })
+  }
+
+  function removeLaborLine(id: string) {
+    setLaborLines(laborLines.filter((line) => line.id !== id))
+  }
+
   function validateStep1() {
     if (!claimType) {
       setError('Please select a claim type')
@@ -180,6 +247,10 @@ export default function NewWarrantyClaimPage() {
       setError('Please provide a detailed description of the issue (at least 10 characters)')
       return false
     }
+    if (laborLines.some((line) => !line.opCode.trim() || !(parseFloat(line.hours) > 0))) {
+      setError('Each labor line needs an op code and hours')
+      return false
+    }
     setError(null)
     return true
   }
@@ -213,9 +284,9 @@ export default function NewWarrantyClaimPage() {
     formData.set('customerAddress', customerAddress)
     formData.set('issueDescription', issueDescription)
     formData.set('failureDate', failureDate)
+    formData.set('failureMileage', failureMileage)
     formData.set('isUnderWarranty', String(isUnderWarranty))
-    formData.set('laborHours', laborHours)
-    formData.set('laborRate', laborRate)
+    formData.set('goodwillRequested', String(goodwillRequested))
     formData.set('shippingAmount', shippingAmount)
     formData.set('priority', priority)
     formData.set('submitNow', String(submitNow))
@@ -237,6 +308,21 @@ export default function NewWarrantyClaimPage() {
             unitCost: item.unitCost,
             issueType: item.issueType,
             issueDescription: item.issueDescription,
+            component: item.component,
+          }))
+        )
+      )
+    }
+
+    if (laborLines.length > 0) {
+      formData.set(
+        'laborLines',
+        JSON.stringify(
+          laborLines.map((line) => ({
+            opCode: line.opCode,
+            description: line.description,
+            hours: parseFloat(line.hours) || 0,
+            rate: parseFloat(line.rate) || 0,
           }))
         )
       )
@@ -612,29 +698,66 @@ export default function NewWarrantyClaimPage() {
                 />
               </div>
 
-              <div className="form-group">
-                <label className="form-label">Under Warranty?</label>
-                <div className="flex gap-4 mt-2">
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="radio"
-                      checked={isUnderWarranty}
-                      onChange={() => setIsUnderWarranty(true)}
-                    />
-                    <span>Yes</span>
-                  </label>
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="radio"
-                      checked={!isUnderWarranty}
-                      onChange={() => setIsUnderWarranty(false)}
-                    />
-                    <span>No / Unknown</span>
+              {selectedUnit ? (
+                <div className="form-group">
+                  <label htmlFor="failureMileage" className="form-label">
+                    Mileage at Failure
                   </label>
+                  <input
+                    type="number"
+                    id="failureMileage"
+                    value={failureMileage}
+                    onChange={(e) => setFailureMileage(e.target.value)}
+                    className="input w-full"
+                    min="0"
+                  />
+                  <p className="text-xs text-medium-gray mt-1">
+                    Coverage for each part is determined from the unit&apos;s warranty terms on this date and mileage.
+                  </p>
                 </div>
-              </div>
+              ) : (
+                <div className="form-group">
+                  <label className="form-label">Under Warranty?</label>
+                  <div className="flex gap-4 mt-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={isUnderWarranty}
+                        onChange={() => setIsUnderWarranty(true)}
+                      />
+                      <span>Yes</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={!isUnderWarranty}
+                        onChange={() => setIsUnderWarranty(false)}
+                      />
+                      <span>No / Unknown</span>
+                    </label>
+                  </div>
+                </div>
+              )}
             </div>
 
+            {selectedUnit && (
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={goodwillRequested}
+                  onChange={(e) => setGoodwillRequested(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  Request goodwill
+                  <span className="block text-medium-gray">
+                    Submit parts outside warranty coverage for the manufacturer to consider as goodwill.
+                    Parts warranted by a chassis or appliance OEM must be claimed with the OEM.
+                  </span>
+                </span>
+              </label>
+            )}
+
             <div className="form-group">
               <label htmlFor="issueDescription" className="form-label">
                 Issue Description *
@@ -746,12 +869,24 @@ export default function NewWarrantyClaimPage() {
                             </option>
                           ))}
                         </select>
+                        <select
+                          value={item.component}
+                          onChange={(e) => updateItem(item.id, { component: e.target.value })}
+                          className="input"
+                          title="Warranty coverage component"
+                        >
+                          {WARRANTY_COMPONENTS.map((component) => (
+                            <option key={component} value={component}>
+                              {WARRANTY_COMPONENT_LABELS[component]}
+                            </option>
+                          ))}
+                        </select>
                         <input
                           type="text"
                           placeholder="Issue description"
                           value={item.issueDescription}
                           onChange={(e) => updateItem(item.id, { issueDescription: e.target.value })}
-                          className="input col-span-3"
+                          className="input col-span-2"
                         />
                       </div>
                     </div>
@@ -760,36 +895,104 @@ export default function NewWarrantyClaimPage() {
               )}
             </div>
 
-            {/* Labor & Shipping */}
+            {/* Labor Operations */}
+            <div className="border-t border-light-gray pt-6">
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="text-md font-heading font-medium text-charcoal">
+                  Labor Operations (Optional)
+                </h3>
+                <button type="button" onClick={addLaborLine} className="btn-outline btn-sm">
+                  Add Labor
+                </button>
+              </div>
+              <p className="text-sm text-medium-gray mb-4">
+                Claim labor against flat-rate op codes. Hours over the standard or a rate above
+                {laborGuide.approvedRate !== null
+                  ? ` your approved $${laborGuide.approvedRate.toFixed(2)}/hr`
+                  : ' your approved rate'}{' '}
+                are flagged for review.
+              </p>
+
+              <datalist id="labor-op-codes">
+                {laborGuide.operations.map((op) => (
+                  <option key={op.opCode} value={op.opCode}>
+                    {op.description} ({op.standardHours}h)
+                  </option>
+                ))}
+              </datalist>
+
+              {laborLines.length > 0 && (
+                <div className="space-y-4">
+                  {laborLines.map((line, index) => {
+                    const operation = findOperation(line.opCode)
+                    const overStandard = operation && (parseFloat(line.hours) || 0) > operation.standardHours
+                    return (
+                      <div key={line.id} className="border border-light-gray rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <span className="text-sm font-medium text-charcoal">Labor #{index + 1}</span>
+                          <button
+                            type="button"
+                            onClick={() => removeLaborLine(line.id)}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                          <input
+                            type="text"
+                            list="labor-op-codes"
+                            placeholder="Op Code *"
+                            value={line.opCode}
+                            onChange={(e) => updateLaborOpCode(line, e.target.value)}
+                            className="input uppercase"
+                          />
+                          <input
+                            type="text"
+                            placeholder="Description"
+                            value={line.description}
+                            onChange={(e) => updateLaborLine(line.id, { description: e.target.value })}
+                            className="input"
+                          />
+                          <input
+                            type="number"
+                            placeholder="Hours *"
+                            value={line.hours}
+                            onChange={(e) => updateLaborLine(line.id, { hours: e.target.value })}
+                            className={`input ${overStandard ? 'border-amber-400' : ''}`}
+                            min="0"
+                            step="0.1"
+                          />
+                          <input
+                            type="number"
+                            placeholder="Rate ($/hr)"
+                            value={line.rate}
+                            onChange={(e) => updateLaborLine(line.id, { rate: e.target.value })}
+                            className="input"
+                            min="0"
+                            step="0.01"
+                          />
+                        </div>
+                        <p className="text-xs text-medium-gray mt-2">
+                          {operation
+                            ? `Standard ${operation.standardHours}h${overStandard ? ' — hours over standard will be flagged' : ''}`
+                            : line.opCode.trim()
+                              ? 'Not in the labor guide for this unit — the line will be flagged for review'
+                              : 'Pick an op code from the labor guide'}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Shipping */}
             <div className="border-t border-light-gray pt-6">
               <h3 className="text-md font-heading font-medium text-charcoal mb-4">
-                Labor & Shipping Costs (Optional)
+                Shipping Costs (Optional)
               </h3>
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                <div className="form-group">
-                  <label className="form-label">Labor Hours</label>
-                  <input
-                    type="number"
-                    value={laborHours}
-                    onChange={(e) => setLaborHours(e.target.value)}
-                    className="input w-full"
-                    min="0"
-                    step="0.5"
-                    placeholder="0"
-                  />
-                </div>
-                <div className="form-group">
-                  <label className="form-label">Labor Rate ($/hr)</label>
-                  <input
-                    type="number"
-                    value={laborRate}
-                    onChange={(e) => setLaborRate(e.target.value)}
-                    className="input w-full"
-                    min="0"
-                    step="0.01"
-                    placeholder="0.00"
-                  />
-                </div>
                 <div className="form-group">
                   <label className="form-label">Shipping Cost</label>
                   <input
@@ -891,6 +1094,39 @@ export default function NewWarrantyClaimPage() {
               </div>
             )}
 
+            {laborLines.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-medium-gray uppercase mb-2">
+                  Labor ({laborLines.length})
+                </h3>
+                <div className="border border-light-gray rounded overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-light-beige">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Operation</th>
+                        <th className="px-3 py-2 text-center">Hours</th>
+                        <th className="px-3 py-2 text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {laborLines.map((line) => (
+                        <tr key={line.id} className="border-t border-light-gray">
+                          <td className="px-3 py-2">
+                            <span className="font-mono">{line.opCode.toUpperCase()}</span>
+                            {line.description && <span className="text-medium-gray ml-1">{line.description}</span>}
+                          </td>
+                          <td className="px-3 py-2 text-center">{line.hours}</td>
+                          <td className="px-3 py-2 text-right">
+                            ${((parseFloat(line.hours) || 0) * (parseFloat(line.rate) || 0)).toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* Totals */}
             <div className="border-t border-light-gray pt-4">
               <div className="flex justify-end">
@@ -20,9 +20,17 @@ const statusFilterOptions = [
   { value: 'info_requested', label: 'Info Requested' },
   { value: 'approved', label: 'Approved' },
   { value: 'partial', label: 'Partially Approved' },
+  { value: 'paid', label: 'Paid' },
   { value: 'denied', label: 'Denied' },
 ]
 
+const riskFilterOptions = [
+  { value: 'all', label: 'Any Risk' },
+  { value: 'low', label: 'Flagged' },
+  { value: 'medium', label: 'Medium Risk+' },
+  { value: 'high', label: 'High Risk' },
+]
+
 const claimTypeFilterOptions = [
   { value: 'all', label: 'All Types' },
   { value: 'product_defect', label: 'Product Defect' },
@@ -38,6 +46,7 @@ export default function WarrantyPage() {
   const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 })
   const [statusFilter, setStatusFilter] = useState('all')
   const [typeFilter, setTypeFilter] = useState('all')
+  const [riskFilter, setRiskFilter] = useState('all')
   const [searchQuery, setSearchQuery] = useState('')
   const [isPending, startTransition] = useTransition()
   const [mounted, setMounted] = useState(false)
@@ -60,6 +69,8 @@ export default function WarrantyPage() {
       const result = await getWarrantyClaims({
         status: statusFilter !== 'all' ? statusFilter : undefined,
         claimType: typeFilter !== 'all' ? typeFilter : undefined,
+        risk: riskFilter !== 'all' ? riskFilter : undefined,
+        sortBy: riskFilter !== 'all' ? 'riskScore' : undefined,
         search: searchQuery || undefined,
         page,
         pageSize: 20,
@@ -78,17 +89,23 @@ export default function WarrantyPage() {
     loadClaims(1)
   }
 
-  function handleFilterChange(filterType: 'status' | 'type', value: string) {
+  function handleFilterChange(filterType: 'status' | 'type' | 'risk', value: string) {
     if (filterType === 'status') {
       setStatusFilter(value)
-    } else {
+    } else if (filterType === 'type') {
       setTypeFilter(value)
+    } else {
+      setRiskFilter(value)
     }
+    const risk = filterType === 'risk' ? value : riskFilter
     // Reload with new filter
     startTransition(async () => {
       const result = await getWarrantyClaims({
         status: filterType === 'status' ? (value !== 'all' ? value : undefined) : (statusFilter !== 'all' ? statusFilter : undefined),
         claimType: filterType === 'type' ? (value !== 'all' ? value : undefined) : (typeFilter !== 'all' ? typeFilter : undefined),
+        risk: risk !== 'all' ? risk : undefined,
+        // Riskiest claims first when reviewing by risk
+        sortBy: risk !== 'all' ? 'riskScore' : undefined,
         search: searchQuery || undefined,
         page: 1,
         pageSize: 20,
@@ -165,12 +182,17 @@ export default function WarrantyPage() {
           </p>
         </div>
         {!isAdmin && (
-          <Link href="/warranty/new" className="btn-primary inline-flex items-center gap-2">
-            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            New Claim
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/warranty/credits" className="btn-outline inline-flex items-center">
+              Warranty Credits
+            </Link>
+            <Link href="/warranty/new" className="btn-primary inline-flex items-center gap-2">
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New Claim
+            </Link>
+          </div>
         )}
       </div>
 
@@ -277,6 +299,23 @@ export default function WarrantyPage() {
               </select>
             </div>
 
+            {/* Risk Filter (reviewers) */}
+            {isAdmin && (
+              <div className="sm:w-40">
+                <select
+                  value={riskFilter}
+                  onChange={(e) => handleFilterChange('risk', e.target.value)}
+                  className="input w-full"
+                >
+                  {riskFilterOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Search Button */}
             <button onClick={handleSearch} className="btn-primary px-6">
               Search
@@ -309,7 +348,7 @@ export default function WarrantyPage() {
               </svg>
               <h3 className="mt-4 text-lg font-medium text-charcoal">No warranty claims found</h3>
               <p className="mt-2 text-medium-gray">
-                {searchQuery || statusFilter !== 'all' || typeFilter !== 'all'
+                {searchQuery || statusFilter !== 'all' || typeFilter !== 'all' || riskFilter !== 'all'
                   ? 'Try adjusting your search or filters'
                   : 'Submit your first warranty claim to get started'}
               </p>
@@ -343,6 +382,11 @@ export default function WarrantyPage() {
                   <th className="px-4 py-3 text-center text-xs font-heading font-semibold text-charcoal uppercase">
                     Priority
                   </th>
+                  {isAdmin && (
+                    <th className="px-4 py-3 text-center text-xs font-heading font-semibold text-charcoal uppercase">
+                      Risk
+                    </th>
+                  )}
                   <th className="px-4 py-3 text-right text-xs font-heading font-semibold text-charcoal uppercase">
                     Amount
                   </th>
@@ -389,6 +433,25 @@ export default function WarrantyPage() {
                         {claim.priorityLabel}
                       </span>
                     </td>
+                    {isAdmin && (
+                      <td className="px-4 py-4 text-center">
+                        {claim.riskScore !== null ? (
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${claim.riskColor.bg} ${claim.riskColor.text}`}
+                            title={claim.riskReasons.join('\n') || 'No anomalies found'}
+                          >
+                            {claim.riskScore}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-medium-gray">-</span>
+                        )}
+                        {claim.riskReasons.length > 0 && (
+                          <p className="mt-1 text-xs text-medium-gray">
+                            {claim.riskReasons.length} {claim.riskReasons.length === 1 ? 'flag' : 'flags'}
+                          </p>
+                        )}
+                      </td>
+                    )}
                     <td className="px-4 py-4 text-right">
                       <p className="font-medium text-charcoal">{formatCurrency(claim.totalRequested)}</p>
                       {claim.totalApproved !== null && (
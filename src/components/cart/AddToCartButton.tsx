@@ -8,7 +8,8 @@ type Props = {
     id: string
     sku: string
     name: string
-    price: number
+    price: number // Dealer price
+    listPrice?: number
     imageUrl?: string
     maxQuantity?: number
   }
@@ -35,6 +36,7 @@ export function AddToCartButton({ product, className = '', showQuantity = true }
         sku: product.sku,
         name: product.name,
         price: product.price,
+        listPrice: product.listPrice,
         imageUrl: product.imageUrl,
         maxQuantity: product.maxQuantity,
       },
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useCartStore } from '@/lib/stores/cart'
+import { useCartPricing } from '@/hooks/useCartPricing'
 import { CartItemRow } from './CartItemRow'
 
 type Props = {
@@ -13,6 +14,7 @@ type Props = {
 export function CartDrawer({ isOpen, onClose }: Props) {
   const { cart, clearCart, getItemCount, getSubtotal } = useCartStore()
   const [mounted, setMounted] = useState(false)
+  const { changes, acceptPriceChanges } = useCartPricing(isOpen)
 
   useEffect(() => {
     setMounted(true)
@@ -119,6 +121,16 @@ export function CartDrawer({ isOpen, onClose }: Props) {
             {/* Footer */}
             {mounted && cart.items.length > 0 && (
               <div className="border-t border-light-gray px-4 py-4 space-y-4">
+                {/* Price changes since items were added */}
+                {changes.length > 0 && (
+                  <div className="alert-warning text-sm">
+                    Prices changed for {changes.length} {changes.length === 1 ? 'item' : 'items'}.
+                    <button onClick={acceptPriceChanges} className="ml-2 underline">
+                      Update prices
+                    </button>
+                  </div>
+                )}
+
                 {/* Subtotal */}
                 <div className="flex items-center justify-between">
                   <span className="text-base font-medium text-charcoal">Subtotal</span>
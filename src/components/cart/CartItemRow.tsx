@@ -21,6 +21,7 @@ export function CartItemRow({ item, compact = false }: Props) {
   }
 
   const lineTotal = item.price * item.quantity
+  const isDiscounted = item.listPrice !== undefined && item.listPrice > item.price
 
   if (compact) {
     return (
@@ -98,6 +99,9 @@ export function CartItemRow({ item, compact = false }: Props) {
         <div className="text-right">
           <p className="text-sm font-medium text-charcoal">${lineTotal.toFixed(2)}</p>
           <p className="text-xs text-medium-gray">${item.price.toFixed(2)} each</p>
+          {isDiscounted && (
+            <p className="text-xs text-medium-gray line-through">${item.listPrice!.toFixed(2)}</p>
+          )}
         </div>
       </li>
     )
@@ -152,6 +156,9 @@ export function CartItemRow({ item, compact = false }: Props) {
 
       <td className="py-4 text-center">
         <span className="text-charcoal">${item.price.toFixed(2)}</span>
+        {isDiscounted && (
+          <span className="block text-xs text-medium-gray line-through">${item.listPrice!.toFixed(2)}</span>
+        )}
       </td>
 
       <td className="py-4">
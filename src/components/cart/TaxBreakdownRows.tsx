@@ -0,0 +1,46 @@
+import { formatTaxRate, type TaxQuote } from '@/lib/tax'
+
+type Props = {
+  tax: TaxQuote | null
+  taxAmount: number
+}
+
+// Per-jurisdiction tax lines for order summaries; falls back to a single Tax row
+export function TaxBreakdownRows({ tax, taxAmount }: Props) {
+  if (tax?.exemption) {
+    return (
+      <div className="flex justify-between text-sm">
+        <span className="text-medium-gray">
+          Tax exempt
+          <span className="block text-xs">
+            {tax.exemption.type === 'resale' ? 'Resale' : 'Exemption'} certificate{' '}
+            {tax.exemption.certificateNumber}
+          </span>
+        </span>
+        <span className="text-charcoal">$0.00</span>
+      </div>
+    )
+  }
+
+  if (!tax || tax.lines.length === 0) {
+    return (
+      <div className="flex justify-between text-sm">
+        <span className="text-medium-gray">Tax</span>
+        <span className="text-charcoal">${taxAmount.toFixed(2)}</span>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {tax.lines.map((line) => (
+        <div key={`${line.type}-${line.jurisdiction}`} className="flex justify-between text-sm">
+          <span className="text-medium-gray">
+            {line.jurisdiction} ({formatTaxRate(line.rate)})
+          </span>
+          <span className="text-charcoal">${line.taxAmount.toFixed(2)}</span>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -2,3 +2,4 @@ export { CartIcon } from './CartIcon'
 export { CartDrawer } from './CartDrawer'
 export { CartItemRow } from './CartItemRow'
 export { AddToCartButton } from './AddToCartButton'
+export { TaxBreakdownRows } from './TaxBreakdownRows'
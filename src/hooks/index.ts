@@ -1,4 +1,6 @@
 export { useSession } from './useSession'
 export { usePermission } from './usePermission'
+export { useCartPricing } from './useCartPricing'
 export type { UseSessionReturn } from './useSession'
 export type { UsePermissionReturn } from './usePermission'
+export type { UseCartPricingReturn, CartPriceChange } from './useCartPricing'
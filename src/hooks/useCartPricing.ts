@@ -0,0 +1,82 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCartStore } from '@/lib/stores/cart'
+import { getCartPricing, type CartLinePrice } from '@/app/(protected)/cart/actions'
+import { hasPriceChanged } from '@/lib/pricing'
+
+export type CartPriceChange = {
+  productId: string
+  name: string
+  previousPrice: number
+  currentPrice: number
+}
+
+export interface UseCartPricingReturn {
+  changes: CartPriceChange[]
+  acceptPriceChanges: () => void
+}
+
+/**
+ * Keep cart prices in line with the dealer's price lists.
+ * Quantity edits re-price a line straight away (they can cross a price break);
+ * any other difference is reported so the dealer can accept the new price.
+ */
+export function useCartPricing(enabled = true): UseCartPricingReturn {
+  const { cart, applyPricing } = useCartStore()
+  const [prices, setPrices] = useState<Record<string, CartLinePrice>>({})
+  const pricedQuantities = useRef(new Map<string, number>())
+
+  const loadPricing = useCallback(
+    async (isCancelled: () => boolean) => {
+      const items = cart.items
+      if (items.length === 0) return
+
+      const resolved = await getCartPricing(
+        cart.dealerId,
+        items.map((item) => ({ productId: item.productId, quantity: item.quantity }))
+      )
+      if (isCancelled()) return
+
+      const updates: Record<string, CartLinePrice> = {}
+      for (const item of items) {
+        const current = resolved[item.productId]
+        if (!current) continue
+
+        const previousQuantity = pricedQuantities.current.get(item.productId)
+        pricedQuantities.current.set(item.productId, item.quantity)
+
+        const quantityChanged = previousQuantity !== undefined && previousQuantity !== item.quantity
+        const priceChanged = hasPriceChanged(item.price, current.price)
+        if ((quantityChanged && priceChanged) || (!priceChanged && item.listPrice === undefined)) {
+          updates[item.productId] = current
+        }
+      }
+
+      if (Object.keys(updates).length > 0) applyPricing(updates)
+      setPrices(resolved)
+    },
+    [cart.items, cart.dealerId, applyPricing]
+  )
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    loadPricing(() => cancelled).catch(console.error)
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, loadPricing])
+
+  const changes = cart.items.flatMap((item) => {
+    const current = prices[item.productId]
+    return current && hasPriceChanged(item.price, current.price)
+      ? [{ productId: item.productId, name: item.name, previousPrice: item.price, currentPrice: current.price }]
+      : []
+  })
+
+  return {
+    changes,
+    acceptPriceChanges: () => applyPricing(prices),
+  }
+}
@@ -1,9 +1,12 @@
 // Order status configuration for admin
 export const ADMIN_ORDER_STATUSES = {
   draft: { label: 'Draft', color: 'gray', adminActions: ['confirm', 'cancel'] },
+  pending_approval: { label: 'Pending Approval', color: 'yellow', adminActions: ['cancel'] },
   submitted: { label: 'Submitted', color: 'blue', adminActions: ['confirm', 'cancel'] },
+  credit_hold: { label: 'Credit Hold', color: 'orange', adminActions: ['release_hold', 'cancel'] },
   confirmed: { label: 'Confirmed', color: 'olive', adminActions: ['process', 'cancel'] },
   processing: { label: 'Processing', color: 'yellow', adminActions: ['ship'] },
+  partially_shipped: { label: 'Partially Shipped', color: 'purple', adminActions: ['ship'] },
   shipped: { label: 'Shipped', color: 'purple', adminActions: ['deliver'] },
   delivered: { label: 'Delivered', color: 'green', adminActions: [] },
   cancelled: { label: 'Cancelled', color: 'red', adminActions: [] },
@@ -0,0 +1,15 @@
+// Order approval rule labels
+// Separated from server actions to avoid "use server" export restrictions
+
+export const approvalConditionLabels = {
+  amount_over: 'Order total over',
+  missing_po: 'No PO number',
+} as const
+
+export const approverRoleLabels = {
+  dealer_admin: 'Dealer Admin',
+  admin: 'Manufacturer Admin',
+} as const
+
+export type ApprovalConditionKey = keyof typeof approvalConditionLabels
+export type ApproverRoleKey = keyof typeof approverRoleLabels
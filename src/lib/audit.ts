@@ -2,9 +2,9 @@ import { prisma } from './prisma'
 import { headers } from 'next/headers'
 import { auth } from './auth'
 
-export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'logout' | 'login_failed' | 'password_change' | 'password_reset'
+export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'logout' | 'login_failed' | 'password_change' | 'password_reset' | 'override'
 
-export type AuditEntityType = 'User' | 'Dealer' | 'Order' | 'Product' | 'Category' | 'Session' | 'DealerContact' | 'DealerAddress'
+export type AuditEntityType = 'User' | 'Dealer' | 'Order' | 'Product' | 'Category' | 'Session' | 'DealerContact' | 'DealerAddress' | 'PriceList'
 
 export type AuditLogInput = {
   action: AuditAction
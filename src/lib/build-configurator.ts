@@ -0,0 +1,308 @@
+// Factory build configurator: checks a set of option codes and colors against
+// a model's option catalog and prices the result as a build sheet.
+
+export type OptionGroupSelection = 'single' | 'multiple'
+
+export type CatalogGroup = {
+  code: string
+  name: string
+  selection: OptionGroupSelection
+  isRequired: boolean
+}
+
+export type CatalogOption = {
+  code: string
+  name: string
+  description: string | null
+  groupCode: string
+  dealerCost: number
+  msrp: number
+  requires: string[]
+  excludes: string[]
+  includes: string[]
+  // null allows every color the model offers
+  exteriorColors: string[] | null
+  interiorColors: string[] | null
+  isActive: boolean
+}
+
+/**
+ * Everything needed to configure one model. Groups and options are in
+ * display order.
+ */
+export type BuildCatalog = {
+  rvModelId: string
+  modelCode: string
+  modelName: string
+  modelYear: number
+  baseMSRP: number
+  dealerInvoice: number
+  exteriorColors: string[]
+  interiorColors: string[]
+  groups: CatalogGroup[]
+  options: CatalogOption[]
+}
+
+export type BuildSelection = {
+  optionCodes: string[]
+  exteriorColor?: string | null
+  interiorColor?: string | null
+}
+
+export type BuildIssueType =
+  | 'unknown_option'
+  | 'inactive_option'
+  | 'missing_requirement'
+  | 'excluded_option'
+  | 'group_limit'
+  | 'group_required'
+  | 'color_required'
+  | 'color_unavailable'
+  | 'color_incompatible'
+
+export type BuildIssue = {
+  type: BuildIssueType
+  optionCode?: string
+  groupCode?: string
+  message: string
+}
+
+export type BuildSheetLine = {
+  code: string
+  name: string
+  groupCode: string
+  groupName: string
+  dealerCost: number
+  msrp: number
+  // Code of the option that added this one at no charge
+  includedBy: string | null
+}
+
+/**
+ * The priced build stored on a factory order. Included options carry their
+ * catalog prices on the line but are not counted in the totals.
+ */
+export type BuildSheet = {
+  rvModelId: string
+  modelCode: string
+  modelName: string
+  modelYear: number
+  exteriorColor: string | null
+  interiorColor: string | null
+  baseMSRP: number
+  baseDealerCost: number
+  lines: BuildSheetLine[]
+  optionsMSRP: number
+  optionsDealerCost: number
+  totalMSRP: number
+  totalDealerCost: number
+  pricedAt: string
+}
+
+export type BuildResult = {
+  valid: boolean
+  issues: BuildIssue[]
+  sheet: BuildSheet
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Read a JSON array of codes or colors, dropping anything malformed. Returns
+ * null for a missing value so "no restriction" survives the round trip.
+ */
+export function parseStringList(json: string | null | undefined): string[] | null {
+  if (!json) return null
+  try {
+    const parsed = JSON.parse(json)
+    if (!Array.isArray(parsed)) return null
+    return parsed.filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+  } catch {
+    return null
+  }
+}
+
+function colorMatches(colors: string[], color: string): boolean {
+  const wanted = color.trim().toLowerCase()
+  return colors.some((c) => c.trim().toLowerCase() === wanted)
+}
+
+/**
+ * Validate a selection against the catalog and price it. Options listed in
+ * another option's `includes` are added automatically, transitively. The
+ * sheet is returned even when the build is invalid so the configurator can
+ * show a running total.
+ */
+export function configureBuild(
+  catalog: BuildCatalog,
+  selection: BuildSelection,
+  pricedAt: Date = new Date()
+): BuildResult {
+  const issues: BuildIssue[] = []
+  const optionsByCode = new Map(catalog.options.map((option) => [option.code, option]))
+  const groupsByCode = new Map(catalog.groups.map((group) => [group.code, group]))
+
+  // Selected codes, then everything they pull in. An option that is both
+  // chosen and included by another is treated as included.
+  const includedBy = new Map<string, string>()
+  const onBuild = new Set<string>()
+  const queue: string[] = []
+
+  for (const raw of selection.optionCodes) {
+    const code = raw.trim()
+    if (!code || onBuild.has(code)) continue
+    const option = optionsByCode.get(code)
+    if (!option) {
+      issues.push({ type: 'unknown_option', optionCode: code, message: `Option ${code} is not offered on this model` })
+      continue
+    }
+    if (!option.isActive) {
+      issues.push({ type: 'inactive_option', optionCode: code, message: `${option.name} is no longer available` })
+      continue
+    }
+    onBuild.add(code)
+    queue.push(code)
+  }
+
+  while (queue.length > 0) {
+    const parent = optionsByCode.get(queue.shift()!)!
+    for (const code of parent.includes) {
+      if (code === parent.code || includedBy.has(code)) continue
+      const option = optionsByCode.get(code)
+      if (!option || !option.isActive) {
+        issues.push({
+          type: option ? 'inactive_option' : 'unknown_option',
+          optionCode: code,
+          message: `${parent.name} includes ${option?.name ?? code}, which is not available`,
+        })
+        continue
+      }
+      includedBy.set(code, parent.code)
+      if (!onBuild.has(code)) {
+        onBuild.add(code)
+        queue.push(code)
+      }
+    }
+  }
+
+  // Dependency rules
+  const reportedConflicts = new Set<string>()
+  for (const code of Array.from(onBuild)) {
+    const option = optionsByCode.get(code)!
+    for (const required of option.requires) {
+      if (onBuild.has(required)) continue
+      const name = optionsByCode.get(required)?.name ?? required
+      issues.push({ type: 'missing_requirement', optionCode: code, message: `${option.name} requires ${name}` })
+    }
+    for (const excluded of option.excludes) {
+      if (!onBuild.has(excluded)) continue
+      const pair = [code, excluded].sort().join('|')
+      if (reportedConflicts.has(pair)) continue
+      reportedConflicts.add(pair)
+      issues.push({
+        type: 'excluded_option',
+        optionCode: code,
+        message: `${option.name} cannot be combined with ${optionsByCode.get(excluded)!.name}`,
+      })
+    }
+  }
+
+  // Group rules
+  for (const group of catalog.groups) {
+    const chosen = catalog.options.filter((option) => option.groupCode === group.code && onBuild.has(option.code))
+    if (group.selection === 'single' && chosen.length > 1) {
+      issues.push({
+        type: 'group_limit',
+        groupCode: group.code,
+        message: `Choose only one ${group.name} option (${chosen.map((option) => option.name).join(', ')})`,
+      })
+    }
+    if (group.isRequired && chosen.length === 0) {
+      issues.push({ type: 'group_required', groupCode: group.code, message: `Choose a ${group.name} option` })
+    }
+  }
+
+  // Colors
+  const exteriorColor = selection.exteriorColor?.trim() || null
+  const interiorColor = selection.interiorColor?.trim() || null
+  const colorChecks = [
+    { label: 'exterior', color: exteriorColor, offered: catalog.exteriorColors, key: 'exteriorColors' as const },
+    { label: 'interior', color: interiorColor, offered: catalog.interiorColors, key: 'interiorColors' as const },
+  ]
+  for (const { label, color, offered, key } of colorChecks) {
+    if (!color) {
+      if (offered.length > 0) {
+        issues.push({ type: 'color_required', message: `Choose an ${label} color` })
+      }
+      continue
+    }
+    if (offered.length > 0 && !colorMatches(offered, color)) {
+      issues.push({ type: 'color_unavailable', message: `${color} is not an ${label} color for this model` })
+      continue
+    }
+    for (const code of Array.from(onBuild)) {
+      const option = optionsByCode.get(code)!
+      const allowed = option[key]
+      if (allowed && !colorMatches(allowed, color)) {
+        issues.push({
+          type: 'color_incompatible',
+          optionCode: code,
+          message: `${option.name} is not available with ${color} ${label}`,
+        })
+      }
+    }
+  }
+
+  // Price in catalog order
+  const lines: BuildSheetLine[] = catalog.options
+    .filter((option) => onBuild.has(option.code))
+    .map((option) => ({
+      code: option.code,
+      name: option.name,
+      groupCode: option.groupCode,
+      groupName: groupsByCode.get(option.groupCode)?.name ?? option.groupCode,
+      dealerCost: option.dealerCost,
+      msrp: option.msrp,
+      includedBy: includedBy.get(option.code) ?? null,
+    }))
+
+  const charged = lines.filter((line) => !line.includedBy)
+  const optionsMSRP = roundCents(charged.reduce((sum, line) => sum + line.msrp, 0))
+  const optionsDealerCost = roundCents(charged.reduce((sum, line) => sum + line.dealerCost, 0))
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    sheet: {
+      rvModelId: catalog.rvModelId,
+      modelCode: catalog.modelCode,
+      modelName: catalog.modelName,
+      modelYear: catalog.modelYear,
+      exteriorColor,
+      interiorColor,
+      baseMSRP: catalog.baseMSRP,
+      baseDealerCost: catalog.dealerInvoice,
+      lines,
+      optionsMSRP,
+      optionsDealerCost,
+      totalMSRP: roundCents(catalog.baseMSRP + optionsMSRP),
+      totalDealerCost: roundCents(catalog.dealerInvoice + optionsDealerCost),
+      pricedAt: pricedAt.toISOString(),
+    },
+  }
+}
+
+/**
+ * Read a build sheet stored on an order, or null if there is none.
+ */
+export function parseBuildSheet(json: string | null | undefined): BuildSheet | null {
+  if (!json) return null
+  try {
+    const parsed = JSON.parse(json)
+    return parsed && Array.isArray(parsed.lines) ? (parsed as BuildSheet) : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,23 @@
+// Dealer credit labels/colors
+// Separated from server actions to avoid "use server" export restrictions
+
+export const agingBucketLabels = {
+  current: 'Current',
+  days1to30: '1-30 Days',
+  days31to60: '31-60 Days',
+  days61to90: '61-90 Days',
+  over90: '90+ Days',
+} as const
+
+export const agingBucketColors = {
+  current: 'text-green-700',
+  days1to30: 'text-yellow-700',
+  days31to60: 'text-orange-700',
+  days61to90: 'text-red-700',
+  over90: 'text-red-900',
+} as const
+
+export const creditHoldActionLabels = {
+  review: 'Place on credit hold for review',
+  block: 'Block at checkout',
+} as const
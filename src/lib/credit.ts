@@ -0,0 +1,167 @@
+// Dealer credit: accounts-receivable aging from open invoices, exposure against
+// the dealer's credit limit, and the checkout decision for orders on terms.
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90'
+
+export type ArAging = Record<AgingBucket, number> & {
+  totalOutstanding: number
+  pastDue: number
+  oldestDaysPastDue: number
+}
+
+export type CreditHoldAction = 'review' | 'block'
+
+export type CreditDecision = 'approved' | 'review' | 'blocked'
+
+export type CreditCheck = {
+  decision: CreditDecision
+  reasons: string[]
+  exposure: number
+  availableCredit: number | null
+}
+
+// Invoices that no longer carry a balance
+const CLOSED_INVOICE_STATUSES = ['paid', 'cancelled']
+
+// Orders that are committed but may not be fully invoiced yet, including those
+// waiting on dealer approval. Invoicing is a separate step, so delivered
+// orders count until they are billed.
+export const OPEN_ORDER_STATUSES = [
+  'pending_approval',
+  'submitted',
+  'credit_hold',
+  'confirmed',
+  'processing',
+  'partially_shipped',
+  'shipped',
+  'delivered',
+]
+
+// Any invoice this far past due puts new terms orders on hold
+export const SEVERELY_PAST_DUE_DAYS = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function formatPaymentTerms(days: number): string {
+  return days > 0 ? `Net ${days}` : 'Due on Receipt'
+}
+
+/**
+ * Whole days an invoice is past its due date; 0 when not yet due or undated.
+ */
+export function getDaysPastDue(dueDate: Date | null, asOf: Date = new Date()): number {
+  if (!dueDate) return 0
+  return Math.max(0, Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / DAY_MS))
+}
+
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current'
+  if (daysPastDue <= 30) return 'days1to30'
+  if (daysPastDue <= 60) return 'days31to60'
+  if (daysPastDue <= 90) return 'days61to90'
+  return 'over90'
+}
+
+/**
+ * Age the open balance of each unpaid invoice by its due date. Credit memos
+ * already applied reduce the balance; paid and cancelled invoices are skipped.
+ */
+export function buildArAging(
+  invoices: Array<{
+    status: string
+    totalAmount: number
+    creditedAmount: number
+    dueDate: Date | null
+    paidDate: Date | null
+  }>,
+  asOf: Date = new Date()
+): ArAging {
+  const aging: ArAging = {
+    current: 0,
+    days1to30: 0,
+    days31to60: 0,
+    days61to90: 0,
+    over90: 0,
+    totalOutstanding: 0,
+    pastDue: 0,
+    oldestDaysPastDue: 0,
+  }
+
+  for (const invoice of invoices) {
+    if (CLOSED_INVOICE_STATUSES.includes(invoice.status) || invoice.paidDate) continue
+    const balance = Math.max(0, invoice.totalAmount - invoice.creditedAmount)
+    if (balance === 0) continue
+
+    const daysPastDue = getDaysPastDue(invoice.dueDate, asOf)
+    const bucket = getAgingBucket(daysPastDue)
+    aging[bucket] = round(aging[bucket] + balance)
+    aging.totalOutstanding = round(aging.totalOutstanding + balance)
+    if (bucket !== 'current') {
+      aging.pastDue = round(aging.pastDue + balance)
+      aging.oldestDaysPastDue = Math.max(aging.oldestDaysPastDue, daysPastDue)
+    }
+  }
+
+  return aging
+}
+
+/**
+ * The part of an open order not yet billed, so exposure doesn't count it twice
+ * once invoices are raised against it.
+ */
+export function getUninvoicedAmount(
+  order: { totalAmount: number },
+  invoices: Array<{ status: string; totalAmount: number }>
+): number {
+  const invoiced = invoices
+    .filter((invoice) => invoice.status !== 'cancelled')
+    .reduce((sum, invoice) => sum + invoice.totalAmount, 0)
+  return round(Math.max(0, order.totalAmount - invoiced))
+}
+
+/**
+ * Decide whether a new order on credit terms can go straight through. Orders
+ * paid up front are always approved. Over-limit or severely past-due accounts
+ * are either blocked or sent to credit-hold review, per the dealer's setting.
+ */
+export function evaluateCreditCheck(input: {
+  paymentMethod?: string
+  orderTotal: number
+  creditLimit: number | null
+  creditHoldAction: string
+  aging: ArAging
+  openOrderExposure: number
+}): CreditCheck {
+  const exposure = round(input.aging.totalOutstanding + input.openOrderExposure)
+  const availableCredit =
+    input.creditLimit === null ? null : round(Math.max(0, input.creditLimit - exposure))
+
+  if (input.paymentMethod !== 'credit_terms') {
+    return { decision: 'approved', reasons: [], exposure, availableCredit }
+  }
+
+  const reasons: string[] = []
+  if (input.creditLimit !== null && exposure + input.orderTotal > input.creditLimit) {
+    reasons.push(
+      `Order total of $${input.orderTotal.toFixed(2)} exceeds available credit of $${(availableCredit ?? 0).toFixed(2)}`
+    )
+  }
+  if (input.aging.oldestDaysPastDue >= SEVERELY_PAST_DUE_DAYS) {
+    reasons.push(`Account has invoices ${input.aging.oldestDaysPastDue} days past due`)
+  }
+
+  if (reasons.length === 0) {
+    return { decision: 'approved', reasons, exposure, availableCredit }
+  }
+
+  return {
+    decision: input.creditHoldAction === 'block' ? 'blocked' : 'review',
+    reasons,
+    exposure,
+    availableCredit,
+  }
+}
@@ -0,0 +1,164 @@
+// Vehicle deal worksheet: the full price structure of an RV sale from selling
+// price to amount financed, plus loan payment scenarios. Non-server so the
+// worksheet page can recalculate as the salesperson types.
+
+import type { TaxBreakdownLine, TaxJurisdictionRate } from '@/lib/tax'
+
+export type DealFee = {
+  name: string
+  amount: number
+  taxable: boolean
+}
+
+export type DealInput = {
+  sellingPrice: number
+  optionsPrice: number
+  freightPrice: number
+  prepFee: number
+  docFee: number
+  additionalFees: DealFee[]
+  tradeInAllowance: number
+  tradeInPayoff: number
+  rebates: number
+  depositAmount: number
+}
+
+/**
+ * Tax rules for the buyer's address. Most states tax only the difference
+ * after a trade-in; `tradeInCredit` is false where the full price is taxed.
+ */
+export type DealTaxContext = {
+  state: string | null
+  rates: TaxJurisdictionRate[]
+  tradeInCredit: boolean
+  exempt: boolean
+}
+
+export type DealWorksheet = {
+  sellingPrice: number
+  optionsPrice: number
+  freightPrice: number
+  prepFee: number
+  docFee: number
+  additionalFees: DealFee[]
+  // Selling price, options and every fee
+  subtotal: number
+  taxState: string | null
+  taxableAmount: number
+  tradeInCredit: boolean
+  taxExempt: boolean
+  taxLines: TaxBreakdownLine[]
+  taxAmount: number
+  tradeInAllowance: number
+  tradeInPayoff: number
+  // Allowance less payoff; negative equity adds to the balance
+  tradeEquity: number
+  rebates: number
+  // Price after tax, trade and rebates; stored as VehicleOrder.totalPrice
+  totalPrice: number
+  depositAmount: number
+  balanceDue: number
+}
+
+export type FinanceScenario = {
+  termMonths: number
+  apr: number // Annual percentage rate, e.g. 7.99
+  downPayment: number // Cash down on top of the deposit
+}
+
+export type FinanceQuote = FinanceScenario & {
+  amountFinanced: number
+  monthlyPayment: number
+  totalOfPayments: number
+  financeCharge: number
+}
+
+// Common RV loan terms offered as starting scenarios
+export const DEFAULT_FINANCE_SCENARIOS: FinanceScenario[] = [
+  { termMonths: 120, apr: 7.99, downPayment: 0 },
+  { termMonths: 180, apr: 8.49, downPayment: 0 },
+  { termMonths: 240, apr: 8.99, downPayment: 0 },
+]
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Work out the deal from its inputs and the buyer's tax rules. Documentation
+ * and prep fees are taxed with the unit; additional fees (title, registration)
+ * only when marked taxable.
+ */
+export function calculateDealWorksheet(input: DealInput, tax: DealTaxContext): DealWorksheet {
+  const feesTotal = input.additionalFees.reduce((sum, fee) => sum + fee.amount, 0)
+  const taxableFees = input.additionalFees.filter((fee) => fee.taxable).reduce((sum, fee) => sum + fee.amount, 0)
+
+  const subtotal = roundCents(
+    input.sellingPrice + input.optionsPrice + input.freightPrice + input.prepFee + input.docFee + feesTotal
+  )
+
+  const grossTaxable = input.sellingPrice + input.optionsPrice + input.freightPrice + input.prepFee + input.docFee + taxableFees
+  const taxableAmount = tax.exempt
+    ? 0
+    : roundCents(Math.max(grossTaxable - (tax.tradeInCredit ? input.tradeInAllowance : 0), 0))
+
+  const taxLines: TaxBreakdownLine[] = tax.rates.map((rate) => ({
+    jurisdiction: rate.jurisdiction,
+    type: rate.type,
+    rate: rate.rate,
+    taxableAmount,
+    taxAmount: roundCents(taxableAmount * rate.rate),
+  }))
+  const taxAmount = roundCents(taxLines.reduce((sum, line) => sum + line.taxAmount, 0))
+
+  const tradeEquity = roundCents(input.tradeInAllowance - input.tradeInPayoff)
+  const totalPrice = roundCents(subtotal + taxAmount - tradeEquity - input.rebates)
+
+  return {
+    sellingPrice: input.sellingPrice,
+    optionsPrice: input.optionsPrice,
+    freightPrice: input.freightPrice,
+    prepFee: input.prepFee,
+    docFee: input.docFee,
+    additionalFees: input.additionalFees,
+    subtotal,
+    taxState: tax.state,
+    taxableAmount,
+    tradeInCredit: tax.tradeInCredit,
+    taxExempt: tax.exempt,
+    taxLines,
+    taxAmount,
+    tradeInAllowance: input.tradeInAllowance,
+    tradeInPayoff: input.tradeInPayoff,
+    tradeEquity,
+    rebates: input.rebates,
+    totalPrice,
+    depositAmount: input.depositAmount,
+    balanceDue: roundCents(totalPrice - input.depositAmount),
+  }
+}
+
+/**
+ * Level monthly payment on an amortizing loan. A 0% APR divides the
+ * principal evenly.
+ */
+export function calculateMonthlyPayment(principal: number, apr: number, termMonths: number): number {
+  if (principal <= 0 || termMonths <= 0) return 0
+  const monthlyRate = apr / 100 / 12
+  if (monthlyRate === 0) return roundCents(principal / termMonths)
+  return roundCents((principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths)))
+}
+
+export function quoteFinanceScenario(balanceDue: number, scenario: FinanceScenario): FinanceQuote {
+  const amountFinanced = roundCents(Math.max(balanceDue - scenario.downPayment, 0))
+  const monthlyPayment = calculateMonthlyPayment(amountFinanced, scenario.apr, scenario.termMonths)
+  const totalOfPayments = roundCents(monthlyPayment * scenario.termMonths)
+
+  return {
+    ...scenario,
+    amountFinanced,
+    monthlyPayment,
+    totalOfPayments,
+    financeCharge: roundCents(Math.max(totalOfPayments - amountFinanced, 0)),
+  }
+}
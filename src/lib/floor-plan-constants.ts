@@ -0,0 +1,33 @@
+// Floor-plan reconciliation labels
+// Separated from server actions to avoid "use server" export restrictions
+
+export const discrepancyTypeLabels = {
+  sold_on_statement: 'Sold, still on lender statement',
+  missing_from_statement: 'Floored, not on lender statement',
+  payoff_mismatch: 'Payoff mismatch',
+  rate_mismatch: 'Rate mismatch',
+  unknown_unit: 'Not in our inventory',
+} as const
+
+export const discrepancyTypeColors = {
+  sold_on_statement: 'bg-red-100 text-red-800',
+  missing_from_statement: 'bg-orange-100 text-orange-800',
+  payoff_mismatch: 'bg-yellow-100 text-yellow-800',
+  rate_mismatch: 'bg-blue-100 text-blue-800',
+  unknown_unit: 'bg-gray-100 text-gray-800',
+} as const
+
+// Button text for the one-click fix; unknown units can only be dismissed
+export const discrepancyResolutionLabels = {
+  sold_on_statement: 'Record payoff',
+  missing_from_statement: 'Clear floor plan',
+  payoff_mismatch: 'Use lender payoff',
+  rate_mismatch: 'Use lender rate',
+  unknown_unit: null,
+} as const
+
+export const discrepancyStatusLabels = {
+  open: 'Open',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+} as const
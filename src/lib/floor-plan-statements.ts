@@ -0,0 +1,298 @@
+/**
+ * Lender floor-plan statement parsing and reconciliation
+ *
+ * Statements arrive as CSV in each lender's own layout. A per-lender column
+ * mapping names the headers that hold the VIN, floor-plan number, payoff and
+ * rate; lines are then matched to units by VIN first, then floor-plan number.
+ */
+
+export type StatementColumnMapping = {
+  vinColumn?: string | null
+  floorPlanNumberColumn?: string | null
+  payoffColumn: string
+  rateColumn?: string | null
+}
+
+export type StatementLine = {
+  rowNumber: number
+  vin: string | null
+  floorPlanNumber: string | null
+  payoff: number
+  interestRate: number | null
+}
+
+export type ReconcileUnit = {
+  id: string
+  vin: string
+  status: string
+  floorPlanLender: string | null
+  floorPlanNumber: string | null
+  floorPlanPayoff: number | null
+  floorPlanInterestRate: number | null
+}
+
+export type DiscrepancyType =
+  | 'sold_on_statement'
+  | 'missing_from_statement'
+  | 'payoff_mismatch'
+  | 'rate_mismatch'
+  | 'unknown_unit'
+
+export type StatementDiscrepancy = {
+  type: DiscrepancyType
+  rowNumber: number | null
+  rvUnitId: string | null
+  ourValue: number | null
+  lenderValue: number | null
+}
+
+export type ReconcileResult = {
+  matches: Array<{ rowNumber: number; rvUnitId: string }>
+  discrepancies: StatementDiscrepancy[]
+}
+
+// Unit statuses that should still be on the lender's books
+export const FLOORED_STATUSES = ['in_transit', 'in_stock', 'reserved', 'service']
+
+export const PAYOFF_TOLERANCE = 1
+export const RATE_TOLERANCE = 0.01
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF and a UTF-8 BOM
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+export function normalizeVin(value: string | null | undefined): string | null {
+  const vin = (value ?? '').replace(/\s+/g, '').toUpperCase()
+  return vin || null
+}
+
+export function normalizeFloorPlanNumber(value: string | null | undefined): string | null {
+  const number = (value ?? '').trim().toUpperCase()
+  return number || null
+}
+
+// "$12,345.67" and "(12.50)" style amounts
+export function parseAmount(value: string | null | undefined): number | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-')
+  const digits = trimmed.replace(/[^0-9.]/g, '')
+  if (!digits) return null
+  const amount = parseFloat(digits)
+  if (isNaN(amount)) return null
+  return negative ? -amount : amount
+}
+
+// Rates may be given as "6.5", "6.5%" or a fraction like "0.065"
+export function parseRate(value: string | null | undefined): number | null {
+  const rate = parseAmount(value)
+  if (rate === null) return null
+  const percent = rate > 0 && rate < 1 && !value?.includes('%') ? rate * 100 : rate
+  return Math.round(percent * 10000) / 10000
+}
+
+function findColumn(headers: string[], name: string | null | undefined): number {
+  if (!name) return -1
+  const wanted = name.trim().toLowerCase()
+  return headers.findIndex((header) => header.trim().toLowerCase() === wanted)
+}
+
+// Turn CSV rows into statement lines using the lender's column mapping.
+// Row numbers are 1-based file lines, so the first data row is 2.
+export function mapStatementRows(
+  rows: string[][],
+  mapping: StatementColumnMapping
+): { lines: StatementLine[]; errors: string[] } {
+  if (rows.length === 0) {
+    return { lines: [], errors: ['The file is empty'] }
+  }
+
+  const [headers, ...dataRows] = rows
+  const vinIndex = findColumn(headers, mapping.vinColumn)
+  const numberIndex = findColumn(headers, mapping.floorPlanNumberColumn)
+  const payoffIndex = findColumn(headers, mapping.payoffColumn)
+  const rateIndex = findColumn(headers, mapping.rateColumn)
+
+  const errors: string[] = []
+  if (payoffIndex === -1) {
+    errors.push(`Payoff column "${mapping.payoffColumn}" not found`)
+  }
+  if (vinIndex === -1 && numberIndex === -1) {
+    errors.push('Neither the VIN nor the floor-plan number column was found')
+  }
+  if (mapping.rateColumn && rateIndex === -1) {
+    errors.push(`Rate column "${mapping.rateColumn}" not found`)
+  }
+  if (errors.length > 0) {
+    return { lines: [], errors }
+  }
+
+  const lines: StatementLine[] = []
+  dataRows.forEach((row, index) => {
+    const rowNumber = index + 2
+    const vin = vinIndex === -1 ? null : normalizeVin(row[vinIndex])
+    const floorPlanNumber = numberIndex === -1 ? null : normalizeFloorPlanNumber(row[numberIndex])
+    const payoff = parseAmount(row[payoffIndex])
+
+    if (!vin && !floorPlanNumber) {
+      errors.push(`Row ${rowNumber}: no VIN or floor-plan number`)
+      return
+    }
+    if (payoff === null) {
+      errors.push(`Row ${rowNumber}: payoff "${row[payoffIndex] ?? ''}" is not a number`)
+      return
+    }
+
+    lines.push({
+      rowNumber,
+      vin,
+      floorPlanNumber,
+      payoff,
+      interestRate: rateIndex === -1 ? null : parseRate(row[rateIndex]),
+    })
+  })
+
+  return { lines, errors }
+}
+
+function sameLender(a: string | null, b: string): boolean {
+  return (a ?? '').trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// Compare a lender's statement with our units. Units floored with this lender
+// that are not on the statement are reported as missing.
+export function reconcileStatement(
+  lender: string,
+  lines: StatementLine[],
+  units: ReconcileUnit[]
+): ReconcileResult {
+  const byVin = new Map<string, ReconcileUnit>()
+  const byNumber = new Map<string, ReconcileUnit>()
+  for (const unit of units) {
+    const vin = normalizeVin(unit.vin)
+    const number = normalizeFloorPlanNumber(unit.floorPlanNumber)
+    if (vin) byVin.set(vin, unit)
+    if (number) byNumber.set(number, unit)
+  }
+
+  const matches: ReconcileResult['matches'] = []
+  const discrepancies: StatementDiscrepancy[] = []
+  const matchedUnitIds = new Set<string>()
+
+  for (const line of lines) {
+    const unit =
+      (line.vin ? byVin.get(line.vin) : undefined) ??
+      (line.floorPlanNumber ? byNumber.get(line.floorPlanNumber) : undefined)
+
+    if (!unit) {
+      discrepancies.push({
+        type: 'unknown_unit',
+        rowNumber: line.rowNumber,
+        rvUnitId: null,
+        ourValue: null,
+        lenderValue: line.payoff,
+      })
+      continue
+    }
+
+    matches.push({ rowNumber: line.rowNumber, rvUnitId: unit.id })
+    matchedUnitIds.add(unit.id)
+
+    if (!FLOORED_STATUSES.includes(unit.status)) {
+      discrepancies.push({
+        type: 'sold_on_statement',
+        rowNumber: line.rowNumber,
+        rvUnitId: unit.id,
+        ourValue: unit.floorPlanPayoff,
+        lenderValue: line.payoff,
+      })
+      continue
+    }
+
+    const ourPayoff = unit.floorPlanPayoff ?? 0
+    if (Math.abs(ourPayoff - line.payoff) > PAYOFF_TOLERANCE) {
+      discrepancies.push({
+        type: 'payoff_mismatch',
+        rowNumber: line.rowNumber,
+        rvUnitId: unit.id,
+        ourValue: ourPayoff,
+        lenderValue: line.payoff,
+      })
+    }
+
+    if (
+      line.interestRate !== null &&
+      (unit.floorPlanInterestRate === null || Math.abs(unit.floorPlanInterestRate - line.interestRate) > RATE_TOLERANCE)
+    ) {
+      discrepancies.push({
+        type: 'rate_mismatch',
+        rowNumber: line.rowNumber,
+        rvUnitId: unit.id,
+        ourValue: unit.floorPlanInterestRate,
+        lenderValue: line.interestRate,
+      })
+    }
+  }
+
+  for (const unit of units) {
+    if (
+      !matchedUnitIds.has(unit.id) &&
+      FLOORED_STATUSES.includes(unit.status) &&
+      (unit.floorPlanPayoff ?? 0) > 0 &&
+      sameLender(unit.floorPlanLender, lender)
+    ) {
+      discrepancies.push({
+        type: 'missing_from_statement',
+        rowNumber: null,
+        rvUnitId: unit.id,
+        ourValue: unit.floorPlanPayoff,
+        lenderValue: null,
+      })
+    }
+  }
+
+  return { matches, discrepancies }
+}
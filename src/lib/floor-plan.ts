@@ -0,0 +1,235 @@
+// Floor-plan financing math: lender curtailment schedules, daily interest
+// accrual and the weekly curtailment outlook. Dates are handled as UTC days.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Interest is quoted as an annual rate and accrued on an actual/365 basis
+export const DAYS_PER_YEAR = 365
+
+/**
+ * A lender curtailment rule: `percent` of the original principal is due on
+ * `day` days after funding, and again every `repeatEveryDays` after that
+ * when set. e.g. { day: 90, percent: 10, repeatEveryDays: 30 }.
+ */
+export type CurtailmentRule = {
+  day: number
+  percent: number
+  repeatEveryDays?: number | null
+}
+
+export type CurtailmentInstallment = {
+  day: number
+  dueDate: Date
+  amount: number
+  // Total principal that must be paid down by this due date
+  cumulativeAmount: number
+}
+
+export type OutstandingCurtailment = {
+  dueDate: Date
+  amount: number
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfUtcDay(to).getTime() - startOfUtcDay(from).getTime()) / DAY_MS)
+}
+
+/**
+ * Read a program's rules from their stored JSON, dropping anything malformed.
+ */
+export function parseCurtailmentRules(json: string | null): CurtailmentRule[] {
+  if (!json) return []
+  try {
+    const parsed = JSON.parse(json)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter(
+        (rule) =>
+          Number.isInteger(rule?.day) &&
+          rule.day > 0 &&
+          typeof rule.percent === 'number' &&
+          rule.percent > 0 &&
+          rule.percent <= 100
+      )
+      .map((rule) => ({
+        day: rule.day,
+        percent: rule.percent,
+        repeatEveryDays: Number.isInteger(rule.repeatEveryDays) && rule.repeatEveryDays > 0 ? rule.repeatEveryDays : null,
+      }))
+  } catch {
+    return []
+  }
+}
+
+export function describeCurtailmentRules(rules: CurtailmentRule[]): string {
+  if (rules.length === 0) return 'No curtailments'
+  return rules
+    .map((rule) =>
+      rule.repeatEveryDays
+        ? `${rule.percent}% at day ${rule.day}, then every ${rule.repeatEveryDays} days`
+        : `${rule.percent}% at day ${rule.day}`
+    )
+    .join('; ')
+}
+
+/**
+ * Every curtailment owed on a unit, in due-date order, until the full
+ * principal has been curtailed. Where rules overlap their percentages add up;
+ * the last installment is trimmed so the total never exceeds the principal.
+ */
+export function buildCurtailmentSchedule(
+  principal: number,
+  fundedDate: Date,
+  rules: CurtailmentRule[]
+): CurtailmentInstallment[] {
+  const events: Array<{ day: number; percent: number }> = []
+
+  for (const rule of rules) {
+    if (rule.repeatEveryDays) {
+      // A repeating rule can run at most until it alone covers the principal
+      const occurrences = Math.ceil(100 / rule.percent)
+      for (let i = 0; i < occurrences; i++) {
+        events.push({ day: rule.day + i * rule.repeatEveryDays, percent: rule.percent })
+      }
+    } else {
+      events.push({ day: rule.day, percent: rule.percent })
+    }
+  }
+
+  events.sort((a, b) => a.day - b.day)
+
+  const funded = startOfUtcDay(fundedDate)
+  const installments: CurtailmentInstallment[] = []
+  let cumulative = 0
+
+  for (const event of events) {
+    if (cumulative >= principal) break
+    const last = installments[installments.length - 1]
+    const amount = roundCents(Math.min(principal * (event.percent / 100), principal - cumulative))
+    cumulative = roundCents(cumulative + amount)
+
+    // Rules landing on the same day are one payment
+    if (last && last.day === event.day) {
+      last.amount = roundCents(last.amount + amount)
+      last.cumulativeAmount = cumulative
+      continue
+    }
+
+    installments.push({
+      day: event.day,
+      dueDate: addDays(funded, event.day),
+      amount,
+      cumulativeAmount: cumulative,
+    })
+  }
+
+  return installments
+}
+
+/**
+ * What is still owed on each installment once the principal already paid
+ * down is applied to the earliest installments first.
+ */
+export function getOutstandingCurtailments(
+  schedule: CurtailmentInstallment[],
+  principalPaid: number
+): OutstandingCurtailment[] {
+  const outstanding: OutstandingCurtailment[] = []
+
+  for (const installment of schedule) {
+    const owed = roundCents(installment.cumulativeAmount - Math.max(principalPaid, installment.cumulativeAmount - installment.amount))
+    if (owed > 0) {
+      outstanding.push({ dueDate: installment.dueDate, amount: owed })
+    }
+  }
+
+  return outstanding
+}
+
+export function getNextCurtailment(
+  schedule: CurtailmentInstallment[],
+  principalPaid: number
+): OutstandingCurtailment | null {
+  return getOutstandingCurtailments(schedule, principalPaid)[0] ?? null
+}
+
+export function getDailyInterest(balance: number, annualRate: number): number {
+  if (balance <= 0 || annualRate <= 0) return 0
+  return roundCents((balance * (annualRate / 100)) / DAYS_PER_YEAR)
+}
+
+/**
+ * The days that still need an accrual entry: from the day after the last
+ * accrued day (or the funding day) up to, but not including, `asOf`.
+ */
+export function getAccrualDays(fundedDate: Date, accruedThrough: Date | null, asOf: Date): Date[] {
+  const start = accruedThrough ? addDays(startOfUtcDay(accruedThrough), 1) : startOfUtcDay(fundedDate)
+  const end = startOfUtcDay(asOf)
+  const days: Date[] = []
+
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+
+  return days
+}
+
+// Monday of the week a date falls in
+export function getWeekStart(date: Date): Date {
+  const day = startOfUtcDay(date)
+  const offset = (day.getUTCDay() + 6) % 7
+  return addDays(day, -offset)
+}
+
+export type CurtailmentWeek<T> = {
+  weekStart: Date
+  total: number
+  items: T[]
+}
+
+/**
+ * Bucket upcoming curtailments by the week they fall due in. Anything due
+ * before this week is returned separately as past due.
+ */
+export function groupCurtailmentsByWeek<T extends OutstandingCurtailment>(
+  curtailments: T[],
+  asOf: Date,
+  weeks: number
+): { pastDue: CurtailmentWeek<T> | null; weeks: CurtailmentWeek<T>[] } {
+  const thisWeek = getWeekStart(asOf)
+  const horizon = addDays(thisWeek, weeks * 7)
+  const buckets: CurtailmentWeek<T>[] = []
+  for (let i = 0; i < weeks; i++) {
+    buckets.push({ weekStart: addDays(thisWeek, i * 7), total: 0, items: [] })
+  }
+
+  let pastDue: CurtailmentWeek<T> | null = null
+
+  for (const curtailment of curtailments) {
+    const due = startOfUtcDay(curtailment.dueDate)
+    if (due < startOfUtcDay(asOf)) {
+      pastDue = pastDue ?? { weekStart: thisWeek, total: 0, items: [] }
+      pastDue.items.push(curtailment)
+      pastDue.total = roundCents(pastDue.total + curtailment.amount)
+      continue
+    }
+    if (due >= horizon) continue
+    const bucket = buckets[Math.floor(daysBetween(thisWeek, due) / 7)]
+    bucket.items.push(curtailment)
+    bucket.total = roundCents(bucket.total + curtailment.amount)
+  }
+
+  return { pastDue, weeks: buckets }
+}
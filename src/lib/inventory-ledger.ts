@@ -0,0 +1,78 @@
+import type { Prisma } from '@prisma/client'
+import type { MovementType } from './inventory-utils'
+
+// Accepts the shared client or an interactive transaction client
+type LedgerClient = Prisma.TransactionClient
+
+export type InventoryChangeInput = {
+  productId: string
+  locationId: string
+  type: MovementType
+  quantityChange?: number
+  reservedChange?: number
+  reason?: string
+  notes?: string | null
+  referenceType?: 'adjustment' | 'order' | 'transfer' | 'return'
+  referenceId?: string
+  userId?: string | null
+}
+
+/**
+ * Apply a quantity change to an Inventory row and record it in the ledger.
+ * Creates the row if the product has never been stocked at the location.
+ * Throws if the change would drive on-hand or reserved below zero.
+ */
+export async function applyInventoryChange(db: LedgerClient, input: InventoryChangeInput) {
+  const quantityChange = input.quantityChange ?? 0
+  const reservedChange = input.reservedChange ?? 0
+
+  const existing = await db.inventory.findUnique({
+    where: {
+      productId_locationId: { productId: input.productId, locationId: input.locationId },
+    },
+  })
+
+  const quantityBefore = existing?.quantity ?? 0
+  const reservedBefore = existing?.reserved ?? 0
+  const quantityAfter = quantityBefore + quantityChange
+  const reservedAfter = reservedBefore + reservedChange
+
+  if (quantityAfter < 0 || reservedAfter < 0) {
+    throw new Error(`Insufficient stock for product ${input.productId} at location ${input.locationId}`)
+  }
+
+  const inventory = existing
+    ? await db.inventory.update({
+        where: { id: existing.id },
+        data: { quantity: quantityAfter, reserved: reservedAfter },
+      })
+    : await db.inventory.create({
+        data: {
+          productId: input.productId,
+          locationId: input.locationId,
+          quantity: quantityAfter,
+          reserved: reservedAfter,
+        },
+      })
+
+  const movement = await db.inventoryMovement.create({
+    data: {
+      productId: input.productId,
+      locationId: input.locationId,
+      type: input.type,
+      quantityChange,
+      reservedChange,
+      quantityBefore,
+      quantityAfter,
+      reservedBefore,
+      reservedAfter,
+      reason: input.reason,
+      notes: input.notes,
+      referenceType: input.referenceType,
+      referenceId: input.referenceId,
+      userId: input.userId,
+    },
+  })
+
+  return { inventory, movement }
+}
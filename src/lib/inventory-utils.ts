@@ -27,3 +27,117 @@ export function getAdjustmentReasons(): { value: AdjustmentReason; label: string
     { value: 'other', label: 'Other' },
   ]
 }
+
+export const movementTypes = [
+  'adjustment',
+  'receipt',
+  'reservation',
+  'release',
+  'shipment',
+  'return',
+  'transfer_in',
+  'transfer_out',
+] as const
+
+export type MovementType = (typeof movementTypes)[number]
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  adjustment: 'Adjustment',
+  receipt: 'Receipt',
+  reservation: 'Reserved',
+  release: 'Released',
+  shipment: 'Shipped',
+  return: 'Return',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+}
+
+// Map a manual adjustment reason onto the ledger movement type
+export function getMovementTypeForReason(reason: AdjustmentReason): MovementType {
+  switch (reason) {
+    case 'received':
+      return 'receipt'
+    case 'returned':
+      return 'return'
+    case 'transfer_in':
+      return 'transfer_in'
+    case 'transfer_out':
+      return 'transfer_out'
+    default:
+      return 'adjustment'
+  }
+}
+
+// Rebuild on-hand/reserved at a past date by unwinding every movement recorded after it
+export function reconstructStockLevel(
+  current: { quantity: number; reserved: number },
+  movementsAfter: Array<{ quantityChange: number; reservedChange: number }>
+): { quantity: number; reserved: number } {
+  return movementsAfter.reduce(
+    (level, movement) => ({
+      quantity: level.quantity - movement.quantityChange,
+      reserved: level.reserved - movement.reservedChange,
+    }),
+    { quantity: current.quantity, reserved: current.reserved }
+  )
+}
+
+// ============================================================================
+// TRANSFERS
+// ============================================================================
+
+export const transferStatuses = [
+  'draft',
+  'in_transit',
+  'partially_received',
+  'received',
+  'cancelled',
+] as const
+
+export type TransferStatus = (typeof transferStatuses)[number]
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In Transit',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+}
+
+export const transferDiscrepancyReasons = [
+  'damaged',
+  'lost',
+  'short_shipped',
+  'miscounted',
+  'other',
+] as const
+
+export type TransferDiscrepancyReason = (typeof transferDiscrepancyReasons)[number]
+
+export function getTransferDiscrepancyReasons(): { value: TransferDiscrepancyReason; label: string }[] {
+  return [
+    { value: 'damaged', label: 'Damaged in Transit' },
+    { value: 'lost', label: 'Lost in Transit' },
+    { value: 'short_shipped', label: 'Short Shipped' },
+    { value: 'miscounted', label: 'Miscounted at Source' },
+    { value: 'other', label: 'Other' },
+  ]
+}
+
+type TransferLine = {
+  quantity: number
+  quantityReceived: number
+  discrepancyReason: string | null
+}
+
+// Quantity still expected at the destination; a recorded discrepancy closes the line
+export function getOutstandingTransferQuantity(line: TransferLine): number {
+  if (line.discrepancyReason) return 0
+  return Math.max(0, line.quantity - line.quantityReceived)
+}
+
+// Status after a receipt: received once every line is fully received or closed out
+export function getTransferReceiptStatus(lines: TransferLine[]): TransferStatus {
+  const outstanding = lines.reduce((sum, line) => sum + getOutstandingTransferQuantity(line), 0)
+  return outstanding === 0 ? 'received' : 'partially_received'
+}
@@ -0,0 +1,23 @@
+// Scheduled job labels
+// Separated from server actions to avoid "use server" export restrictions
+
+export const jobStatusLabels = {
+  running: 'Running',
+  success: 'Succeeded',
+  failed: 'Failed',
+} as const
+
+export const jobStatusColors = {
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+} as const
+
+export const jobTriggerLabels = {
+  schedule: 'Scheduled',
+  retry: 'Retry',
+  manual: 'Run now',
+} as const
+
+export type JobStatusKey = keyof typeof jobStatusLabels
+export type JobTriggerKey = keyof typeof jobTriggerLabels
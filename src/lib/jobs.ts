@@ -0,0 +1,101 @@
+/**
+ * Scheduled job timing rules
+ *
+ * Jobs run on a cron schedule (see order-schedules for the parser). A failed
+ * run is retried with exponential backoff until maxAttempts is reached, then
+ * the job waits for its next scheduled time.
+ */
+
+import { getNextCronRun } from '@/lib/order-schedules'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How long a run may hold the job lock before another instance may take it
+export const JOB_LOCK_TTL_MS = 15 * 60 * 1000
+
+export const DEFAULT_MAX_ATTEMPTS = 3
+export const RETRY_BASE_DELAY_MS = 60 * 1000
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+// 1 min, 2 min, 4 min ... capped at an hour
+export function getRetryDelayMs(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempt - 1, 0))
+  return Math.min(delay, RETRY_MAX_DELAY_MS)
+}
+
+export type NextJobRun = {
+  nextRunAt: Date | null
+  attempts: number
+  retrying: boolean
+}
+
+// Work out when a job runs next after a run finishes. `attempts` is the number
+// of consecutive failed attempts before this run.
+export function planNextJobRun(options: {
+  cronExpression: string
+  now: Date
+  succeeded: boolean
+  attempts: number
+  maxAttempts: number
+}): NextJobRun {
+  const { cronExpression, now, succeeded, maxAttempts } = options
+
+  if (!succeeded) {
+    const attempts = options.attempts + 1
+    if (attempts < maxAttempts) {
+      return { nextRunAt: new Date(now.getTime() + getRetryDelayMs(attempts)), attempts, retrying: true }
+    }
+  }
+
+  return { nextRunAt: getNextCronRun(cronExpression, now), attempts: 0, retrying: false }
+}
+
+export function isJobLocked(lockedUntil: Date | null, now: Date): boolean {
+  return !!lockedUntil && lockedUntil.getTime() > now.getTime()
+}
+
+export function formatJobDuration(ms: number | null): string {
+  if (ms === null) return '—'
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60 * 1000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+// ============================================================================
+// HELPERS USED BY JOB HANDLERS
+// ============================================================================
+
+// Whole days a unit sat on the lot; frozen at the sale date once sold
+export function getDaysOnLot(receivedDate: Date | null, soldDate: Date | null, now: Date): number | null {
+  if (!receivedDate) return null
+  const end = soldDate ?? now
+  return Math.max(Math.floor((end.getTime() - receivedDate.getTime()) / DAY_MS), 0)
+}
+
+export const MAX_AUTO_ESCALATION_LEVEL = 2
+export const AUTO_ESCALATION_INTERVAL_MS = DAY_MS
+
+// Overdue tickets are escalated one level at a time, at most once a day
+export function shouldAutoEscalate(
+  ticket: { escalationLevel: number; escalatedAt: Date | null },
+  now: Date
+): boolean {
+  if (ticket.escalationLevel >= MAX_AUTO_ESCALATION_LEVEL) return false
+  if (!ticket.escalatedAt) return true
+  return now.getTime() - ticket.escalatedAt.getTime() >= AUTO_ESCALATION_INTERVAL_MS
+}
+
+// The calendar month containing `date`, in the local-time convention used by incentive periods
+export function getMonthPeriod(date: Date): { periodStart: Date; periodEnd: Date; key: string } {
+  const year = date.getFullYear()
+  const month = date.getMonth()
+  return {
+    periodStart: new Date(year, month, 1),
+    periodEnd: new Date(year, month + 1, 0, 23, 59, 59),
+    key: `${year}-${String(month + 1).padStart(2, '0')}`,
+  }
+}
+
+export function getPreviousMonthPeriod(now: Date): { periodStart: Date; periodEnd: Date; key: string } {
+  return getMonthPeriod(new Date(now.getFullYear(), now.getMonth() - 1, 1))
+}
@@ -0,0 +1,155 @@
+// Model incentive eligibility and amounts for vehicle orders. An RVModelIncentive
+// pays per unit, as a percentage of the selling price, or by volume tier.
+
+export type ModelIncentiveType = 'per_unit' | 'percentage' | 'tiered'
+
+export type IncentiveTier = {
+  minUnits: number
+  amount: number
+}
+
+/**
+ * Optional rules stored in RVModelIncentive.conditions. `minUnits` and tier
+ * thresholds count the dealer's retailed units of the model during the
+ * incentive window, including the one being sold.
+ */
+export type ModelIncentiveConditions = {
+  minUnits?: number
+  requireDemo?: boolean
+  customerTypes?: string[]
+  orderTypes?: string[]
+  tiers?: IncentiveTier[]
+}
+
+export type ModelIncentiveCandidate = {
+  incentiveType: string
+  amount: number
+  conditions: ModelIncentiveConditions
+  validFrom: Date
+  validTo: Date | null
+  program: {
+    status: string
+    startDate: Date
+    endDate: Date | null
+  }
+  // Dealer has an active enrollment, or the program enrolls everyone
+  dealerEnrolled: boolean
+}
+
+export type IncentiveOrderContext = {
+  asOf: Date
+  unitPrice: number
+  orderType: string
+  customerType: string
+  unitCondition: string | null
+  // Units of this model the dealer already retailed during the incentive window
+  priorUnits: number
+}
+
+export type IncentiveEligibility = {
+  eligible: boolean
+  amount: number
+  reason: string | null
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Read the conditions JSON, ignoring fields of the wrong type.
+ */
+export function parseIncentiveConditions(json: string | null | undefined): ModelIncentiveConditions {
+  if (!json) return {}
+  try {
+    const parsed = JSON.parse(json)
+    if (!parsed || typeof parsed !== 'object') return {}
+
+    const conditions: ModelIncentiveConditions = {}
+    if (typeof parsed.minUnits === 'number') conditions.minUnits = parsed.minUnits
+    if (typeof parsed.requireDemo === 'boolean') conditions.requireDemo = parsed.requireDemo
+    if (Array.isArray(parsed.customerTypes)) conditions.customerTypes = parsed.customerTypes.map(String)
+    if (Array.isArray(parsed.orderTypes)) conditions.orderTypes = parsed.orderTypes.map(String)
+    if (Array.isArray(parsed.tiers)) {
+      conditions.tiers = parsed.tiers
+        .filter((tier: unknown): tier is IncentiveTier => {
+          const t = tier as IncentiveTier
+          return typeof t?.minUnits === 'number' && typeof t?.amount === 'number'
+        })
+        .sort((a: IncentiveTier, b: IncentiveTier) => a.minUnits - b.minUnits)
+    }
+    return conditions
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Dollar amount of an incentive on one unit. Tiered incentives pay the
+ * highest tier reached by this unit, or the base amount below the first tier.
+ */
+export function calculateIncentiveAmount(
+  incentiveType: string,
+  amount: number,
+  unitPrice: number,
+  conditions: ModelIncentiveConditions = {},
+  unitNumber: number = 1
+): number {
+  switch (incentiveType) {
+    case 'percentage':
+      return roundCents((unitPrice * amount) / 100)
+    case 'tiered': {
+      const reached = (conditions.tiers ?? []).filter((tier) => unitNumber >= tier.minUnits)
+      return roundCents(reached.length > 0 ? reached[reached.length - 1].amount : amount)
+    }
+    default:
+      return roundCents(amount)
+  }
+}
+
+function isWithin(date: Date, from: Date, to: Date | null): boolean {
+  return date.getTime() >= from.getTime() && (!to || date.getTime() <= to.getTime())
+}
+
+/**
+ * Whether an incentive applies to an order, with the amount it would take
+ * off. `reason` explains why an ineligible incentive does not apply.
+ */
+export function evaluateModelIncentive(
+  candidate: ModelIncentiveCandidate,
+  context: IncentiveOrderContext
+): IncentiveEligibility {
+  const ineligible = (reason: string): IncentiveEligibility => ({ eligible: false, amount: 0, reason })
+  const { conditions, program } = candidate
+
+  if (program.status !== 'active') return ineligible('Program is not active')
+  if (!isWithin(context.asOf, program.startDate, program.endDate)) return ineligible('Outside the program dates')
+  if (!isWithin(context.asOf, candidate.validFrom, candidate.validTo)) return ineligible('Outside the incentive dates')
+  if (!candidate.dealerEnrolled) return ineligible('Dealer is not enrolled in the program')
+
+  if (conditions.orderTypes?.length && !conditions.orderTypes.includes(context.orderType)) {
+    return ineligible(`Only for ${conditions.orderTypes.join(', ')} orders`)
+  }
+  if (conditions.customerTypes?.length && !conditions.customerTypes.includes(context.customerType)) {
+    return ineligible(`Only for ${conditions.customerTypes.join(', ')} customers`)
+  }
+  if (conditions.requireDemo && context.unitCondition !== 'demo') {
+    return ineligible('Only for demo units')
+  }
+
+  const unitNumber = context.priorUnits + 1
+  if (conditions.minUnits && unitNumber < conditions.minUnits) {
+    return ineligible(`Requires ${conditions.minUnits} units retailed (this is unit ${unitNumber})`)
+  }
+
+  const amount = calculateIncentiveAmount(
+    candidate.incentiveType,
+    candidate.amount,
+    context.unitPrice,
+    conditions,
+    unitNumber
+  )
+  if (amount <= 0) return ineligible('No amount payable')
+
+  return { eligible: true, amount, reason: null }
+}
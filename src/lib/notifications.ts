@@ -8,6 +8,9 @@ export type NotificationType =
   | 'order_placed'
   | 'order_shipped'
   | 'order_delivered'
+  | 'order_approval'
+  | 'recurring_order'
+  | 'return_update'
   | 'low_stock'
   | 'invoice_created'
   | 'invoice_overdue'
@@ -46,6 +49,9 @@ export const NOTIFICATION_CONFIG: Record<
   order_placed: { icon: 'shopping-cart', color: 'green', label: 'Order Placed' },
   order_shipped: { icon: 'truck', color: 'purple', label: 'Order Shipped' },
   order_delivered: { icon: 'check-circle', color: 'green', label: 'Order Delivered' },
+  order_approval: { icon: 'check-circle', color: 'yellow', label: 'Order Approval' },
+  recurring_order: { icon: 'clock', color: 'blue', label: 'Recurring Order' },
+  return_update: { icon: 'refresh', color: 'orange', label: 'Return Update' },
   low_stock: { icon: 'alert-triangle', color: 'orange', label: 'Low Stock' },
   invoice_created: { icon: 'document', color: 'blue', label: 'New Invoice' },
   invoice_overdue: { icon: 'alert-circle', color: 'red', label: 'Invoice Overdue' },
@@ -221,6 +227,7 @@ export async function notifyOrderStatusChange(
   const statusMessages: Record<string, string> = {
     confirmed: 'has been confirmed and is being processed',
     processing: 'is being prepared for shipment',
+    partially_shipped: 'has partially shipped; the remaining items will follow',
     shipped: 'has been shipped and is on its way',
     delivered: 'has been delivered',
     cancelled: 'has been cancelled',
@@ -230,13 +237,39 @@ export async function notifyOrderStatusChange(
 
   return createNotification({
     userId,
-    type: newStatus === 'shipped' ? 'order_shipped' : newStatus === 'delivered' ? 'order_delivered' : 'order_update',
+    type: newStatus === 'shipped' || newStatus === 'partially_shipped' ? 'order_shipped' : newStatus === 'delivered' ? 'order_delivered' : 'order_update',
     title: `Order ${orderNumber} Update`,
     body: `Your order ${orderNumber} ${message}.`,
     data: { orderNumber, status: newStatus },
   })
 }
 
+export async function notifyReturnStatusChange(
+  userId: string,
+  rmaNumber: string,
+  newStatus: string,
+  detail?: string
+): Promise<Notification> {
+  const statusMessages: Record<string, string> = {
+    requested: 'has been submitted for review',
+    approved: 'has been approved; ship the items back to us',
+    rejected: 'has been rejected',
+    received: 'has been received at our warehouse',
+    credited: 'has been credited to your account',
+    cancelled: 'has been cancelled',
+  }
+
+  const message = statusMessages[newStatus] || `status changed to ${newStatus}`
+
+  return createNotification({
+    userId,
+    type: 'return_update',
+    title: `Return ${rmaNumber} Update`,
+    body: `Return ${rmaNumber} ${message}.${detail ? ` ${detail}` : ''}`,
+    data: { rmaNumber, status: newStatus },
+  })
+}
+
 export async function notifyLowStock(
   userId: string,
   productName: string,
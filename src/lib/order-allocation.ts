@@ -0,0 +1,214 @@
+import type { Prisma } from '@prisma/client'
+import { applyInventoryChange } from './inventory-ledger'
+
+// Order item allocations: which location's stock is reserved for each order item.
+// Reservation moves units from on-hand into reserved at each allocated location;
+// release moves them back and shipment consumes the reservation.
+
+type AllocationContext = {
+  orderId: string
+  orderNumber: string
+  userId?: string | null
+}
+
+export type AllocationPlanLine = {
+  locationId: string
+  quantity: number
+}
+
+// Split a requested quantity across locations, drawing from the largest stock first
+export function planAllocation(
+  stock: Array<{ locationId: string; quantity: number }>,
+  requested: number
+): { lines: AllocationPlanLine[]; shortfall: number } {
+  const lines: AllocationPlanLine[] = []
+  let remaining = requested
+
+  const sorted = [...stock].filter((s) => s.quantity > 0).sort((a, b) => b.quantity - a.quantity)
+  for (const source of sorted) {
+    if (remaining <= 0) break
+    const quantity = Math.min(source.quantity, remaining)
+    lines.push({ locationId: source.locationId, quantity })
+    remaining -= quantity
+  }
+
+  return { lines, shortfall: remaining }
+}
+
+// Pick allocations to draw down, newest first, until the quantity is covered
+export function planDrawdown<T extends { id: string; quantity: number }>(
+  allocations: T[],
+  requested: number
+): Array<{ allocation: T; quantity: number }> {
+  const picks: Array<{ allocation: T; quantity: number }> = []
+  let remaining = requested
+
+  for (const allocation of [...allocations].reverse()) {
+    if (remaining <= 0) break
+    if (allocation.quantity <= 0) continue
+    const quantity = Math.min(allocation.quantity, remaining)
+    picks.push({ allocation, quantity })
+    remaining -= quantity
+  }
+
+  return picks
+}
+
+/**
+ * Reserve stock for an order item and record where it came from.
+ * Throws if the product does not have enough unreserved stock.
+ */
+export async function allocateOrderItem(
+  tx: Prisma.TransactionClient,
+  item: { id: string; productId: string },
+  quantity: number,
+  context: AllocationContext
+) {
+  await reserveAvailableStock(tx, item, quantity, context, { requireAll: true })
+}
+
+/**
+ * Reserve as much of the quantity as current stock allows and return the
+ * units reserved. Whatever is left over is the item's backorder.
+ */
+export async function reserveAvailableStock(
+  tx: Prisma.TransactionClient,
+  item: { id: string; productId: string },
+  quantity: number,
+  context: AllocationContext,
+  options: { requireAll?: boolean } = {}
+): Promise<number> {
+  const inventory = await tx.inventory.findMany({
+    where: { productId: item.productId, quantity: { gt: 0 } },
+    select: { locationId: true, quantity: true },
+  })
+
+  const plan = planAllocation(inventory, quantity)
+  if (options.requireAll && plan.shortfall > 0) {
+    throw new Error(`Insufficient stock for product ${item.productId}`)
+  }
+
+  for (const line of plan.lines) {
+    await applyInventoryChange(tx, {
+      productId: item.productId,
+      locationId: line.locationId,
+      type: 'reservation',
+      quantityChange: -line.quantity,
+      reservedChange: line.quantity,
+      notes: `Reserved for order ${context.orderNumber}`,
+      referenceType: 'order',
+      referenceId: context.orderId,
+      userId: context.userId,
+    })
+
+    await tx.orderItemAllocation.upsert({
+      where: { orderItemId_locationId: { orderItemId: item.id, locationId: line.locationId } },
+      create: {
+        orderItemId: item.id,
+        productId: item.productId,
+        locationId: line.locationId,
+        quantity: line.quantity,
+      },
+      update: { quantity: { increment: line.quantity } },
+    })
+  }
+
+  return quantity - plan.shortfall
+}
+
+/**
+ * Recompute an item's backorder: what is still to ship minus what is reserved for it.
+ */
+export async function syncBackorderedQuantity(
+  tx: Prisma.TransactionClient,
+  orderItemId: string
+): Promise<number> {
+  const [item, allocated] = await Promise.all([
+    tx.orderItem.findUniqueOrThrow({
+      where: { id: orderItemId },
+      select: { quantity: true, shippedQuantity: true },
+    }),
+    tx.orderItemAllocation.aggregate({
+      where: { orderItemId },
+      _sum: { quantity: true },
+    }),
+  ])
+
+  const backordered = Math.max(0, item.quantity - item.shippedQuantity - (allocated._sum.quantity ?? 0))
+  await tx.orderItem.update({
+    where: { id: orderItemId },
+    data: { backorderedQuantity: backordered },
+  })
+
+  return backordered
+}
+
+/**
+ * Return reserved stock to the locations it was allocated from.
+ * Releases everything still reserved when no quantity is given.
+ */
+export async function releaseOrderItemAllocations(
+  tx: Prisma.TransactionClient,
+  orderItemId: string,
+  context: AllocationContext,
+  quantity?: number
+) {
+  return drawDownAllocations(tx, orderItemId, context, 'release', quantity)
+}
+
+/**
+ * Consume reserved stock when the item ships.
+ * Ships everything still reserved when no quantity is given.
+ */
+export async function shipOrderItemAllocations(
+  tx: Prisma.TransactionClient,
+  orderItemId: string,
+  context: AllocationContext,
+  quantity?: number
+) {
+  return drawDownAllocations(tx, orderItemId, context, 'shipment', quantity)
+}
+
+async function drawDownAllocations(
+  tx: Prisma.TransactionClient,
+  orderItemId: string,
+  context: AllocationContext,
+  type: 'release' | 'shipment',
+  quantity?: number
+): Promise<number> {
+  const allocations = await tx.orderItemAllocation.findMany({
+    where: { orderItemId, quantity: { gt: 0 } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const reserved = allocations.reduce((sum, a) => sum + a.quantity, 0)
+  const requested = quantity ?? reserved
+  if (requested > reserved) {
+    throw new Error(`Only ${reserved} units are allocated to this item`)
+  }
+
+  for (const { allocation, quantity: units } of planDrawdown(allocations, requested)) {
+    await applyInventoryChange(tx, {
+      productId: allocation.productId,
+      locationId: allocation.locationId,
+      type,
+      // Released stock returns to on-hand; shipped stock leaves the building
+      quantityChange: type === 'release' ? units : 0,
+      reservedChange: -units,
+      notes: `${type === 'release' ? 'Released from' : 'Shipped on'} order ${context.orderNumber}`,
+      referenceType: 'order',
+      referenceId: context.orderId,
+      userId: context.userId,
+    })
+
+    await tx.orderItemAllocation.update({
+      where: { id: allocation.id },
+      data: {
+        quantity: { decrement: units },
+        ...(type === 'shipment' && { shippedQuantity: { increment: units } }),
+      },
+    })
+  }
+
+  return requested
+}
@@ -0,0 +1,88 @@
+// Order approval rules: which of a dealer's rules an order trips, who has to
+// approve it, and who is allowed to act on the approval queue.
+
+import { getRoleLevel, isAdmin } from '@/lib/roles'
+
+export type ApprovalCondition = 'amount_over' | 'missing_po'
+
+export type ApprovalRuleInput = {
+  id: string
+  name: string
+  condition: string
+  threshold: number | null
+  approverRole: string
+  isActive: boolean
+}
+
+export type ApprovalRequirement = {
+  required: boolean
+  approverRole: string | null
+  reasons: string[]
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+/**
+ * Why a single rule applies to the order, or null when it doesn't.
+ */
+export function getRuleTrigger(
+  rule: ApprovalRuleInput,
+  order: { totalAmount: number; poNumber?: string | null }
+): string | null {
+  if (!rule.isActive) return null
+
+  switch (rule.condition) {
+    case 'amount_over':
+      if (rule.threshold !== null && order.totalAmount > rule.threshold) {
+        return `${rule.name}: order total ${formatAmount(order.totalAmount)} is over ${formatAmount(rule.threshold)}`
+      }
+      return null
+    case 'missing_po':
+      return order.poNumber?.trim() ? null : `${rule.name}: no PO number`
+    default:
+      return null
+  }
+}
+
+/**
+ * Check an order against the dealer's rules. The most senior approver role
+ * among the rules it trips is required, unless the submitter already holds it.
+ */
+export function getApprovalRequirement(
+  rules: ApprovalRuleInput[],
+  order: { totalAmount: number; poNumber?: string | null },
+  submitterRole: string | null
+): ApprovalRequirement {
+  const reasons: string[] = []
+  let approverRole: string | null = null
+
+  for (const rule of rules) {
+    const reason = getRuleTrigger(rule, order)
+    if (!reason) continue
+    reasons.push(reason)
+    if (!approverRole || getRoleLevel(rule.approverRole) > getRoleLevel(approverRole)) {
+      approverRole = rule.approverRole
+    }
+  }
+
+  if (!approverRole || (submitterRole && getRoleLevel(submitterRole) >= getRoleLevel(approverRole))) {
+    return { required: false, approverRole: null, reasons: [] }
+  }
+
+  return { required: true, approverRole, reasons }
+}
+
+/**
+ * Admins can act on any pending order; dealer approvers only on their own
+ * dealer's orders that need their role or less.
+ */
+export function canApproveOrder(
+  user: { role: string; dealerId: string | null },
+  order: { dealerId: string; approvalRole: string | null }
+): boolean {
+  if (isAdmin(user.role)) return true
+  if (user.dealerId !== order.dealerId) return false
+  return getRoleLevel(user.role) >= getRoleLevel(order.approvalRole ?? 'dealer_admin')
+}
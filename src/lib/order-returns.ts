@@ -0,0 +1,149 @@
+// Return (RMA) bookkeeping for delivered parts orders: how much of each line
+// can still be sent back, what the dealer is credited once goods arrive, and
+// how that credit is applied against the order's invoices.
+
+export type ReturnLineInput = {
+  orderItemId: string
+  quantity: number
+}
+
+export type ReturnCredit = {
+  returnValue: number
+  restockingFee: number
+  creditAmount: number
+}
+
+// Returns that have been turned down no longer hold any units
+const CLOSED_RETURN_STATUSES = ['rejected', 'cancelled']
+
+// Once goods are received only the units that actually arrived count
+const RECEIVED_RETURN_STATUSES = ['received', 'credited']
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Units of each order line that can still be returned: what shipped, less
+ * what is already on an open or completed return.
+ */
+export function getReturnableQuantities(
+  items: Array<{ id: string; shippedQuantity: number }>,
+  existingLines: Array<{
+    orderItemId: string
+    quantity: number
+    receivedQuantity: number
+    status: string
+  }>
+): Map<string, number> {
+  const returning = new Map<string, number>()
+  for (const line of existingLines) {
+    if (CLOSED_RETURN_STATUSES.includes(line.status)) continue
+    const units = RECEIVED_RETURN_STATUSES.includes(line.status) ? line.receivedQuantity : line.quantity
+    returning.set(line.orderItemId, (returning.get(line.orderItemId) ?? 0) + units)
+  }
+
+  return new Map(
+    items.map((item) => [item.id, Math.max(0, item.shippedQuantity - (returning.get(item.id) ?? 0))])
+  )
+}
+
+/**
+ * Check requested return lines against what is returnable on each order item.
+ * Returns an error message, or null when valid.
+ */
+export function validateReturnLines(
+  items: Array<{ id: string; sku: string }>,
+  returnable: Map<string, number>,
+  lines: ReturnLineInput[]
+): string | null {
+  if (lines.length === 0) {
+    return 'Select at least one item to return'
+  }
+
+  const seen = new Set<string>()
+  for (const line of lines) {
+    const item = items.find((i) => i.id === line.orderItemId)
+    if (!item) {
+      return 'Item not found on this order'
+    }
+    if (seen.has(line.orderItemId)) {
+      return `${item.sku} is listed more than once`
+    }
+    seen.add(line.orderItemId)
+
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      return `Invalid quantity for ${item.sku}`
+    }
+    const available = returnable.get(item.id) ?? 0
+    if (line.quantity > available) {
+      return available === 0
+        ? `${item.sku} has nothing left to return`
+        : `Only ${available} units of ${item.sku} can be returned`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Credit due for the units received back. The restocking fee is a percentage
+ * of the received value and is charged whether the units are restocked or scrapped.
+ */
+export function calculateReturnCredit(
+  lines: Array<{ unitPrice: number; receivedQuantity: number }>,
+  restockingFeePercent: number
+): ReturnCredit {
+  const returnValue = round(lines.reduce((sum, line) => sum + line.unitPrice * line.receivedQuantity, 0))
+  const restockingFee = round(returnValue * (restockingFeePercent / 100))
+
+  return {
+    returnValue,
+    restockingFee,
+    creditAmount: round(returnValue - restockingFee),
+  }
+}
+
+// Balance still owed on an invoice after credits
+export function getInvoiceBalance(invoice: { totalAmount: number; creditedAmount: number }): number {
+  return Math.max(0, round(invoice.totalAmount - invoice.creditedAmount))
+}
+
+/**
+ * Spread a credit across open invoices in the order given, up to each balance.
+ * Anything left over stays on the dealer's account as an unapplied credit
+ * (returned with a null invoiceId).
+ */
+export function planCreditApplication(
+  invoices: Array<{ id: string; status: string; totalAmount: number; creditedAmount: number }>,
+  amount: number
+): Array<{ invoiceId: string | null; amount: number }> {
+  const applications: Array<{ invoiceId: string | null; amount: number }> = []
+  let remaining = round(amount)
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break
+    if (invoice.status === 'paid' || invoice.status === 'cancelled') continue
+    const applied = Math.min(getInvoiceBalance(invoice), remaining)
+    if (applied <= 0) continue
+    applications.push({ invoiceId: invoice.id, amount: applied })
+    remaining = round(remaining - applied)
+  }
+
+  if (remaining > 0) {
+    applications.push({ invoiceId: null, amount: remaining })
+  }
+
+  return applications
+}
+
+/**
+ * The next `count` credit memo numbers for the year (CM-2026-00001), given the
+ * highest memo issued so far. Return credits and warranty settlements share
+ * the one sequence.
+ */
+export function nextCreditMemoNumbers(year: number, lastMemoNumber: string | null, count: number): string[] {
+  const match = lastMemoNumber?.match(/^CM-(\d{4})-(\d{5})$/)
+  const start = match && parseInt(match[1]) === year ? parseInt(match[2]) + 1 : 1
+  return Array.from({ length: count }, (_, i) => `CM-${year}-${String(start + i).padStart(5, '0')}`)
+}
@@ -0,0 +1,317 @@
+// Recurring order schedules: cadence (a small cron dialect) and how a run
+// turns a saved cart into order lines once stock and prices are checked.
+// All times are UTC.
+
+import { hasPriceChanged } from '@/lib/pricing'
+import { weekdayLabels } from '@/lib/schedule-constants'
+
+export type ScheduleFrequency = 'weekly' | 'monthly' | 'custom'
+
+export type CronSchedule = {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  daysOfWeek: number[]
+  // Standard cron: when both day fields are restricted, either may match
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const
+
+// Hour of day (UTC) that weekly and monthly schedules run at
+export const DEFAULT_RUN_HOUR = 6
+
+function parseCronField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${name} field: ${part}`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-').map(Number)
+      start = from
+      end = to
+    } else {
+      start = Number(range)
+      end = stepText === undefined ? start : max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} field: ${part}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(name === 'day of week' && value === 7 ? 0 : value)
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b)
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Supports `*`, lists, ranges and steps.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have five fields: minute hour day month weekday')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => {
+    const { min, max, name } = CRON_FIELDS[i]
+    return parseCronField(field, min, max, name)
+  })
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay())
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true
+  if (schedule.anyDayOfMonth) return dayOfWeek
+  if (schedule.anyDayOfWeek) return dayOfMonth
+  return dayOfMonth || dayOfWeek
+}
+
+/**
+ * The first time strictly after `after` that matches the expression, or null
+ * if nothing matches within the next five years (e.g. `0 0 31 2 *`).
+ */
+export function getNextCronRun(expression: string, after: Date): Date | null {
+  const schedule = parseCron(expression)
+  const next = new Date(after.getTime())
+  next.setUTCSeconds(0, 0)
+  next.setUTCMinutes(next.getUTCMinutes() + 1)
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.includes(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1)
+      next.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1)
+      next.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.includes(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.includes(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+    return next
+  }
+
+  return null
+}
+
+/**
+ * The cron expression a schedule runs on. Weekly and monthly schedules run at
+ * DEFAULT_RUN_HOUR; monthly days past the 28th are not offered so every month
+ * gets a run.
+ */
+export function buildScheduleCron(input: {
+  frequency: ScheduleFrequency
+  dayOfWeek?: number | null
+  dayOfMonth?: number | null
+  cronExpression?: string | null
+}): string {
+  switch (input.frequency) {
+    case 'weekly':
+      return `0 ${DEFAULT_RUN_HOUR} * * ${input.dayOfWeek ?? 1}`
+    case 'monthly':
+      return `0 ${DEFAULT_RUN_HOUR} ${input.dayOfMonth ?? 1} * *`
+    case 'custom':
+      if (!input.cronExpression || !isValidCron(input.cronExpression)) {
+        throw new Error('A valid cron expression is required for a custom schedule')
+      }
+      return input.cronExpression.trim()
+  }
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+export function describeSchedule(input: {
+  frequency: string
+  dayOfWeek?: number | null
+  dayOfMonth?: number | null
+  cronExpression: string
+}): string {
+  if (input.frequency === 'weekly') return `Every ${weekdayLabels[input.dayOfWeek ?? 1]}`
+  if (input.frequency === 'monthly') return `Monthly on the ${ordinal(input.dayOfMonth ?? 1)}`
+  return `Custom (${input.cronExpression} UTC)`
+}
+
+// ============================================================================
+// RUN PLANNING
+// ============================================================================
+
+export type ScheduledLine = {
+  productId: string
+  productName: string
+  quantity: number
+  unitPrice: number
+}
+
+export type LineIssue = {
+  productId: string
+  issue: string
+  type: 'out_of_stock' | 'insufficient_stock' | 'price_changed' | 'unavailable'
+}
+
+export type ScheduledRunPlan = {
+  items: Array<{ productId: string; quantity: number; unitPrice: number }>
+  skipped: Array<{ productId: string; productName: string; reason: string }>
+  shortened: Array<{ productId: string; productName: string; requested: number; ordered: number }>
+  repriced: Array<{ productId: string; productName: string; from: number; to: number }>
+}
+
+/**
+ * Unreserved stock per product across all locations. Reservations already
+ * move units out of `quantity`, so it is all that can be sold.
+ */
+export function getAvailableByProduct(rows: Array<{ productId: string; quantity: number }>): Record<string, number> {
+  const available: Record<string, number> = {}
+  for (const row of rows) {
+    available[row.productId] = (available[row.productId] ?? 0) + row.quantity
+  }
+  return available
+}
+
+/**
+ * Turn a saved cart's lines into order lines using the issues
+ * `validateOrderItems` reported: unavailable or out-of-stock lines are
+ * skipped, short lines are cut to what is available, and changed prices are
+ * replaced with the dealer's current price.
+ */
+export function planScheduledRun(
+  lines: ScheduledLine[],
+  issues: LineIssue[],
+  availableByProduct: Record<string, number>,
+  currentPrices: Record<string, number>
+): ScheduledRunPlan {
+  const plan: ScheduledRunPlan = { items: [], skipped: [], shortened: [], repriced: [] }
+
+  for (const line of lines) {
+    const lineIssues = issues.filter((issue) => issue.productId === line.productId)
+    const blocking = lineIssues.find((issue) => issue.type === 'unavailable' || issue.type === 'out_of_stock')
+    if (blocking) {
+      plan.skipped.push({ productId: line.productId, productName: line.productName, reason: blocking.issue })
+      continue
+    }
+
+    let quantity = line.quantity
+    if (lineIssues.some((issue) => issue.type === 'insufficient_stock')) {
+      quantity = Math.min(line.quantity, Math.max(0, availableByProduct[line.productId] ?? 0))
+      if (quantity === 0) {
+        plan.skipped.push({ productId: line.productId, productName: line.productName, reason: 'No stock available' })
+        continue
+      }
+      plan.shortened.push({
+        productId: line.productId,
+        productName: line.productName,
+        requested: line.quantity,
+        ordered: quantity,
+      })
+    }
+
+    let unitPrice = line.unitPrice
+    const currentPrice = currentPrices[line.productId]
+    if (lineIssues.some((issue) => issue.type === 'price_changed') && currentPrice !== undefined) {
+      plan.repriced.push({ productId: line.productId, productName: line.productName, from: line.unitPrice, to: currentPrice })
+      unitPrice = currentPrice
+    }
+
+    plan.items.push({ productId: line.productId, quantity, unitPrice })
+  }
+
+  return plan
+}
+
+/**
+ * Price each planned line at the quantity actually ordered. A line cut short
+ * for stock can fall below a quantity break and lose the saved-cart price.
+ */
+export function repriceRunPlan(
+  plan: ScheduledRunPlan,
+  lines: ScheduledLine[],
+  plannedPrices: Record<string, number>
+): ScheduledRunPlan {
+  const repriced = [...plan.repriced]
+  const items = plan.items.map((item) => {
+    const price = plannedPrices[item.productId]
+    if (price === undefined || !hasPriceChanged(item.unitPrice, price)) return item
+
+    const existing = repriced.findIndex((entry) => entry.productId === item.productId)
+    if (existing >= 0) {
+      repriced[existing] = { ...repriced[existing], to: price }
+    } else {
+      const line = lines.find((l) => l.productId === item.productId)
+      repriced.push({
+        productId: item.productId,
+        productName: line?.productName ?? item.productId,
+        from: item.unitPrice,
+        to: price,
+      })
+    }
+    return { ...item, unitPrice: price }
+  })
+
+  return { ...plan, items, repriced }
+}
+
+/**
+ * One-line summary of what a run left out, for notifications and run history.
+ */
+export function summarizeRunPlan(plan: ScheduledRunPlan): string | null {
+  const parts = [
+    ...plan.skipped.map((line) => `${line.productName} skipped (${line.reason})`),
+    ...plan.shortened.map((line) => `${line.productName} short: ${line.ordered} of ${line.requested}`),
+    ...plan.repriced.map((line) => `${line.productName} repriced $${line.from.toFixed(2)} to $${line.to.toFixed(2)}`),
+  ]
+  return parts.length > 0 ? parts.join('; ') : null
+}
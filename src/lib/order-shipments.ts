@@ -0,0 +1,119 @@
+import type { TaxQuote } from './tax'
+
+// Shipment bookkeeping for parts orders: what is left to ship on each line,
+// which status the order lands in, and how order charges split across
+// per-shipment invoices.
+
+export type ShipmentLineInput = {
+  orderItemId: string
+  quantity: number
+}
+
+export type ShipmentCharges = {
+  subtotal: number
+  taxAmount: number
+  shippingAmount: number
+  totalAmount: number
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Quantities for one order line: still to ship, reserved and waiting, and backordered
+export function getLineFulfillment(line: {
+  quantity: number
+  shippedQuantity: number
+  allocatedQuantity: number
+}): { outstanding: number; allocated: number; backordered: number } {
+  const outstanding = Math.max(0, line.quantity - line.shippedQuantity)
+  const allocated = Math.min(line.allocatedQuantity, outstanding)
+  return { outstanding, allocated, backordered: outstanding - allocated }
+}
+
+/**
+ * Check shipment lines against what is still to ship on each order item.
+ * Lines with a zero quantity are ignored. Returns an error message, or null when valid.
+ */
+export function validateShipmentLines(
+  items: Array<{ id: string; sku: string; quantity: number; shippedQuantity: number }>,
+  lines: ShipmentLineInput[]
+): string | null {
+  const shipping = lines.filter((line) => line.quantity !== 0)
+  if (shipping.length === 0) {
+    return 'Select at least one item to ship'
+  }
+
+  const seen = new Set<string>()
+  for (const line of shipping) {
+    const item = items.find((i) => i.id === line.orderItemId)
+    if (!item) {
+      return 'Item not found on this order'
+    }
+    if (seen.has(line.orderItemId)) {
+      return `${item.sku} is listed more than once`
+    }
+    seen.add(line.orderItemId)
+
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      return `Invalid quantity for ${item.sku}`
+    }
+    const outstanding = item.quantity - item.shippedQuantity
+    if (line.quantity > outstanding) {
+      return `Only ${outstanding} units of ${item.sku} are left to ship`
+    }
+  }
+
+  return null
+}
+
+// An order is shipped once every line has shipped in full
+export function getShipmentOrderStatus(
+  items: Array<{ quantity: number; shippedQuantity: number }>
+): 'shipped' | 'partially_shipped' {
+  return items.every((item) => item.shippedQuantity >= item.quantity) ? 'shipped' : 'partially_shipped'
+}
+
+/**
+ * Charges for an invoice that bills one shipment.
+ * Tax is prorated by the shipment's share of the order subtotal, shipping is
+ * billed on the first shipment invoice, and the invoice that completes the
+ * order takes whatever is left so the invoices add up to the order total.
+ */
+export function splitShipmentCharges(input: {
+  order: { subtotal: number; taxAmount: number; shippingAmount: number }
+  shipmentSubtotal: number
+  billed: { subtotal: number; taxAmount: number; shippingAmount: number }
+}): ShipmentCharges {
+  const { order, billed } = input
+  const subtotal = round(input.shipmentSubtotal)
+  const isFinal = billed.subtotal + subtotal >= order.subtotal - 0.005
+
+  const taxAmount = isFinal
+    ? round(order.taxAmount - billed.taxAmount)
+    : order.subtotal > 0
+      ? round(order.taxAmount * (subtotal / order.subtotal))
+      : 0
+  const shippingAmount = billed.shippingAmount > 0 ? 0 : order.shippingAmount
+
+  return {
+    subtotal,
+    taxAmount,
+    shippingAmount,
+    totalAmount: round(subtotal + taxAmount + shippingAmount),
+  }
+}
+
+// Scale an order's tax breakdown down to the share billed on one invoice
+export function prorateTaxQuote(quote: TaxQuote, taxAmount: number): TaxQuote {
+  const share = quote.taxAmount > 0 ? taxAmount / quote.taxAmount : 0
+  return {
+    ...quote,
+    lines: quote.lines.map((line) => ({
+      ...line,
+      taxableAmount: round(line.taxableAmount * share),
+      taxAmount: round(line.taxAmount * share),
+    })),
+    taxAmount,
+  }
+}
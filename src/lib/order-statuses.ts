@@ -1,9 +1,12 @@
 // Order status workflow configuration
 export const ORDER_STATUSES = {
   draft: { label: 'Draft', color: 'gray', next: ['submitted'] },
+  pending_approval: { label: 'Pending Approval', color: 'yellow', next: ['submitted', 'credit_hold', 'cancelled'] },
   submitted: { label: 'Submitted', color: 'blue', next: ['confirmed', 'cancelled'] },
+  credit_hold: { label: 'Credit Hold', color: 'orange', next: ['submitted', 'cancelled'] },
   confirmed: { label: 'Confirmed', color: 'olive', next: ['processing', 'cancelled'] },
-  processing: { label: 'Processing', color: 'yellow', next: ['shipped'] },
+  processing: { label: 'Processing', color: 'yellow', next: ['partially_shipped', 'shipped'] },
+  partially_shipped: { label: 'Partially Shipped', color: 'purple', next: ['shipped'] },
   shipped: { label: 'Shipped', color: 'purple', next: ['delivered'] },
   delivered: { label: 'Delivered', color: 'green', next: [] },
   cancelled: { label: 'Cancelled', color: 'red', next: [] },
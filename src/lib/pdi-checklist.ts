@@ -0,0 +1,277 @@
+// Pre-delivery inspection (PDI): checklist templates by RV class, progress
+// and sign-off checks, the customer walkthrough topics and the checks that
+// gate delivering a vehicle order. Non-server so the PDI page can track
+// progress as items are marked.
+
+export type PdiTemplateKey = 'class_a' | 'class_b_c' | 'fifth_wheel' | 'travel_trailer'
+
+export type PdiChecklistItem = {
+  code: string
+  label: string
+}
+
+export type PdiChecklistSection = {
+  name: string
+  items: PdiChecklistItem[]
+}
+
+export const PDI_RESULTS = ['pass', 'fail', 'na'] as const
+
+export type PdiResultValue = (typeof PDI_RESULTS)[number]
+
+export type PdiItemResult = {
+  code: string
+  result: PdiResultValue
+  note?: string
+  roNumber?: string // Repair order the failed item was sent to
+}
+
+const EXTERIOR: PdiChecklistSection = {
+  name: 'Exterior',
+  items: [
+    { code: 'roof', label: 'Roof membrane, sealants and vents' },
+    { code: 'sidewalls', label: 'Sidewalls, graphics and trim' },
+    { code: 'windows_doors', label: 'Windows, entry door and compartment locks' },
+    { code: 'awning', label: 'Awning operation' },
+    { code: 'slideouts', label: 'Slide-outs extend/retract, seals and toppers' },
+    { code: 'exterior_lights', label: 'Marker, porch and running lights' },
+  ],
+}
+
+const INTERIOR: PdiChecklistSection = {
+  name: 'Interior',
+  items: [
+    { code: 'cabinetry', label: 'Cabinets, drawers and latches' },
+    { code: 'flooring', label: 'Flooring and soft spots' },
+    { code: 'furniture', label: 'Furniture, beds and upholstery' },
+    { code: 'appliances', label: 'Refrigerator, range, oven and microwave' },
+    { code: 'safety_devices', label: 'Smoke, CO and LP detectors; extinguisher' },
+  ],
+}
+
+const SYSTEMS: PdiChecklistSection = {
+  name: 'Systems',
+  items: [
+    { code: 'lp_leak_test', label: 'LP leak test' },
+    { code: 'fresh_water', label: 'Fresh water pump, lines and fixtures' },
+    { code: 'tanks_dump', label: 'Holding tanks, valves and dump' },
+    { code: 'water_heater', label: 'Water heater (LP and electric)' },
+    { code: 'furnace', label: 'Furnace' },
+    { code: 'air_conditioning', label: 'Air conditioning' },
+    { code: 'shore_power', label: '120V shore power, outlets and GFCI' },
+    { code: 'batteries_12v', label: '12V batteries, converter and monitor panel' },
+  ],
+}
+
+const MOTORIZED_CHASSIS: PdiChecklistItem[] = [
+  { code: 'engine_fluids', label: 'Engine oil, coolant and fluids' },
+  { code: 'brakes', label: 'Brakes and parking brake' },
+  { code: 'tires', label: 'Tires, pressures and date codes' },
+  { code: 'dash_gauges', label: 'Dash gauges, wipers and horn' },
+  { code: 'road_test', label: 'Road test' },
+]
+
+const TOWABLE_RUNNING_GEAR: PdiChecklistItem[] = [
+  { code: 'tires', label: 'Tires, pressures and date codes' },
+  { code: 'lug_torque', label: 'Lug nut torque' },
+  { code: 'brakes', label: 'Electric brakes and breakaway switch' },
+  { code: 'tow_lights', label: '7-way plug and tow lights' },
+  { code: 'stabilizers', label: 'Stabilizer jacks' },
+]
+
+export const PDI_TEMPLATES: Record<PdiTemplateKey, { label: string; sections: PdiChecklistSection[] }> = {
+  class_a: {
+    label: 'Class A Motorhome',
+    sections: [
+      EXTERIOR,
+      INTERIOR,
+      {
+        name: 'Systems',
+        items: [
+          ...SYSTEMS.items,
+          { code: 'generator', label: 'Generator start, load and transfer switch' },
+          { code: 'inverter', label: 'Inverter' },
+        ],
+      },
+      {
+        name: 'Chassis',
+        items: [
+          ...MOTORIZED_CHASSIS,
+          { code: 'leveling_jacks', label: 'Hydraulic leveling jacks' },
+          { code: 'air_system', label: 'Air brakes / suspension (diesel pushers)' },
+          { code: 'backup_camera', label: 'Backup and side cameras' },
+        ],
+      },
+    ],
+  },
+  class_b_c: {
+    label: 'Class B / C Motorhome',
+    sections: [
+      EXTERIOR,
+      INTERIOR,
+      {
+        name: 'Systems',
+        items: [...SYSTEMS.items, { code: 'generator', label: 'Generator start, load and transfer switch' }],
+      },
+      { name: 'Chassis', items: MOTORIZED_CHASSIS },
+    ],
+  },
+  fifth_wheel: {
+    label: 'Fifth Wheel',
+    sections: [
+      EXTERIOR,
+      INTERIOR,
+      SYSTEMS,
+      {
+        name: 'Running Gear',
+        items: [
+          { code: 'kingpin', label: 'Kingpin box and pin' },
+          { code: 'landing_gear', label: 'Landing gear / auto-level' },
+          ...TOWABLE_RUNNING_GEAR,
+        ],
+      },
+    ],
+  },
+  travel_trailer: {
+    label: 'Travel Trailer',
+    sections: [
+      EXTERIOR,
+      INTERIOR,
+      SYSTEMS,
+      {
+        name: 'Running Gear',
+        items: [
+          { code: 'coupler', label: 'Coupler, safety chains and tongue jack' },
+          { code: 'weight_distribution', label: 'Weight distribution / sway control' },
+          ...TOWABLE_RUNNING_GEAR,
+        ],
+      },
+    ],
+  },
+}
+
+/** Pick the checklist template for an RV model's class ("Class A", "Fifth Wheel", ...). */
+export function getPdiTemplateKey(classType: string | null | undefined): PdiTemplateKey {
+  const normalized = (classType ?? '').toLowerCase()
+  if (normalized.includes('class a')) return 'class_a'
+  if (normalized.includes('class b') || normalized.includes('class c')) return 'class_b_c'
+  if (normalized.includes('fifth')) return 'fifth_wheel'
+  return 'travel_trailer'
+}
+
+export function getPdiChecklist(templateKey: PdiTemplateKey): PdiChecklistSection[] {
+  return PDI_TEMPLATES[templateKey].sections
+}
+
+export function getPdiItemLabel(templateKey: PdiTemplateKey, code: string): string {
+  for (const section of getPdiChecklist(templateKey)) {
+    const item = section.items.find((candidate) => candidate.code === code)
+    if (item) return item.label
+  }
+  return code
+}
+
+export function parsePdiResults(json: string | null): PdiItemResult[] {
+  if (!json) return []
+  try {
+    const parsed = JSON.parse(json)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (result): result is PdiItemResult => typeof result?.code === 'string' && PDI_RESULTS.includes(result.result)
+    )
+  } catch {
+    return []
+  }
+}
+
+export type PdiSummary = {
+  total: number
+  passed: number
+  failed: number
+  notApplicable: number
+  missing: string[] // Item codes not yet marked
+  complete: boolean
+}
+
+/** Count marked items against the template; results for codes not on it are ignored. */
+export function summarizePdi(templateKey: PdiTemplateKey, results: PdiItemResult[]): PdiSummary {
+  const byCode = new Map(results.map((result) => [result.code, result]))
+  const summary: PdiSummary = { total: 0, passed: 0, failed: 0, notApplicable: 0, missing: [], complete: false }
+
+  for (const section of getPdiChecklist(templateKey)) {
+    for (const item of section.items) {
+      summary.total += 1
+      const result = byCode.get(item.code)
+      if (!result) summary.missing.push(item.code)
+      else if (result.result === 'pass') summary.passed += 1
+      else if (result.result === 'fail') summary.failed += 1
+      else summary.notApplicable += 1
+    }
+  }
+
+  summary.complete = summary.missing.length === 0
+  return summary
+}
+
+/** Failed items that have not been sent to a repair order yet. */
+export function getUnsentPdiFailures(templateKey: PdiTemplateKey, results: PdiItemResult[]): PdiItemResult[] {
+  const codes = getPdiChecklist(templateKey).flatMap((section) => section.items.map((item) => item.code))
+  return results.filter((result) => result.result === 'fail' && !result.roNumber && codes.includes(result.code))
+}
+
+/** Reasons the technician cannot sign the PDI off yet; empty when it is ready. */
+export function getPdiSignOffBlockers(
+  templateKey: PdiTemplateKey,
+  results: PdiItemResult[],
+  photoCount: number
+): string[] {
+  const summary = summarizePdi(templateKey, results)
+  const blockers: string[] = []
+
+  if (summary.missing.length > 0) {
+    blockers.push(`${summary.missing.length} item${summary.missing.length === 1 ? '' : 's'} not yet inspected`)
+  }
+  for (const result of results) {
+    if (result.result === 'fail' && !summary.missing.includes(result.code)) {
+      blockers.push(`${getPdiItemLabel(templateKey, result.code)} failed; repair and re-inspect before sign-off`)
+    }
+  }
+  if (photoCount === 0) blockers.push('Attach at least one photo')
+  return blockers
+}
+
+// What the customer is shown at delivery and acknowledges
+const COMMON_WALKTHROUGH_TOPICS = [
+  'Slide-out and awning operation',
+  'LP system, detectors and safety',
+  'Fresh water, holding tanks and dumping',
+  'Shore power, batteries and 12V panel',
+  'Heating and air conditioning',
+  'Warranty coverage and how to request service',
+]
+
+export function getWalkthroughTopics(templateKey: PdiTemplateKey): string[] {
+  if (templateKey === 'class_a' || templateKey === 'class_b_c') {
+    return [...COMMON_WALKTHROUGH_TOPICS, 'Generator operation', 'Chassis controls and daily driving checks']
+  }
+  return [...COMMON_WALKTHROUGH_TOPICS, 'Hitching, brake controller and breakaway', 'Tire pressures and lug torque checks']
+}
+
+/**
+ * Reasons a vehicle order cannot be marked delivered: it needs a unit, that
+ * unit's PDI signed off and the customer walkthrough acknowledged.
+ */
+export function getDeliveryBlockers(input: {
+  hasUnit: boolean
+  pdiStatus: string | null
+  walkthroughAcknowledged: boolean
+}): string[] {
+  if (!input.hasUnit) return ['Assign a unit to the order before delivery']
+
+  const blockers: string[] = []
+  if (input.pdiStatus !== 'completed') {
+    blockers.push(input.pdiStatus ? 'The unit PDI has not been signed off' : 'The unit has no PDI')
+  }
+  if (!input.walkthroughAcknowledged) blockers.push('Capture the customer walkthrough acknowledgment')
+  return blockers
+}
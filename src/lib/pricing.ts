@@ -0,0 +1,150 @@
+// Dealer price resolution (non-server)
+// Picks the price a dealer pays from contract and tier price lists, including quantity breaks.
+
+export const dealerTiers = ['platinum', 'gold', 'silver', 'bronze'] as const
+export type DealerTier = (typeof dealerTiers)[number]
+
+export const DEALER_TIER_LABELS: Record<DealerTier, string> = {
+  platinum: 'Platinum',
+  gold: 'Gold',
+  silver: 'Silver',
+  bronze: 'Bronze',
+}
+
+export type PriceSource = 'base' | 'tier' | 'contract'
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  base: 'List price',
+  tier: 'Tier price',
+  contract: 'Contract price',
+}
+
+export type PriceListRule = {
+  id: string
+  name: string
+  dealerTier: string | null
+  dealerId: string | null
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  isActive: boolean
+  items: Array<{ productId: string; minQuantity: number; price: number }>
+}
+
+export type PriceBreak = {
+  minQuantity: number
+  price: number
+}
+
+export type ResolvedPrice = {
+  productId: string
+  unitPrice: number
+  listPrice: number
+  source: PriceSource
+  priceListId: string | null
+  priceListName: string | null
+  breaks: PriceBreak[] // Every break on the winning list, lowest quantity first
+}
+
+export function isPriceListEffective(
+  list: Pick<PriceListRule, 'isActive' | 'effectiveFrom' | 'effectiveTo'>,
+  at: Date
+): boolean {
+  if (!list.isActive) return false
+  if (list.effectiveFrom > at) return false
+  return !list.effectiveTo || list.effectiveTo > at
+}
+
+export type PriceListStatus = 'active' | 'scheduled' | 'expired' | 'inactive'
+
+export const PRICE_LIST_STATUS_LABELS: Record<PriceListStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  inactive: 'Inactive',
+}
+
+export function getPriceListStatus(
+  list: Pick<PriceListRule, 'isActive' | 'effectiveFrom' | 'effectiveTo'>,
+  at: Date = new Date()
+): PriceListStatus {
+  if (!list.isActive) return 'inactive'
+  if (list.effectiveFrom > at) return 'scheduled'
+  if (list.effectiveTo && list.effectiveTo <= at) return 'expired'
+  return 'active'
+}
+
+// Highest break the quantity qualifies for, or null if the list has none
+function findBreak(breaks: PriceBreak[], quantity: number): PriceBreak | null {
+  let match: PriceBreak | null = null
+  for (const b of breaks) {
+    if (b.minQuantity <= quantity && (!match || b.minQuantity > match.minQuantity)) {
+      match = b
+    }
+  }
+  return match
+}
+
+/**
+ * Resolve the unit price a dealer pays for a product at a quantity.
+ * Contract lists beat tier lists, which beat the product's base price.
+ * When several lists apply at the same level, the most recently effective wins.
+ */
+export function resolvePrice(input: {
+  productId: string
+  basePrice: number
+  quantity: number
+  dealer: { id: string; tier: string } | null
+  priceLists: PriceListRule[]
+  at?: Date
+}): ResolvedPrice {
+  const at = input.at ?? new Date()
+  const base: ResolvedPrice = {
+    productId: input.productId,
+    unitPrice: input.basePrice,
+    listPrice: input.basePrice,
+    source: 'base',
+    priceListId: null,
+    priceListName: null,
+    breaks: [],
+  }
+
+  if (!input.dealer) return base
+  const dealer = input.dealer
+
+  const levels: Array<{ source: PriceSource; matches: (list: PriceListRule) => boolean }> = [
+    { source: 'contract', matches: (list) => list.dealerId === dealer.id },
+    { source: 'tier', matches: (list) => !list.dealerId && list.dealerTier === dealer.tier },
+  ]
+
+  for (const level of levels) {
+    const candidates = input.priceLists
+      .filter((list) => level.matches(list) && isPriceListEffective(list, at))
+      .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+
+    for (const list of candidates) {
+      const breaks = list.items
+        .filter((item) => item.productId === input.productId)
+        .map((item) => ({ minQuantity: item.minQuantity, price: item.price }))
+        .sort((a, b) => a.minQuantity - b.minQuantity)
+
+      const match = findBreak(breaks, input.quantity)
+      if (!match) continue
+
+      return {
+        ...base,
+        unitPrice: match.price,
+        source: level.source,
+        priceListId: list.id,
+        priceListName: list.name,
+        breaks,
+      }
+    }
+  }
+
+  return base
+}
+
+// Prices are compared to the cent so rounding noise is not reported as a change
+export function hasPriceChanged(previous: number, current: number): boolean {
+  return Math.abs(Math.round(previous * 100) - Math.round(current * 100)) > 0
+}
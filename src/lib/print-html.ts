@@ -0,0 +1,16 @@
+// Helpers for the printable HTML documents generated on the server (buyer's
+// orders, vehicle invoices). Values typed in by users must be escaped.
+
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// $1,234.50 or -$1,234.50
+export function formatPrintCurrency(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return `${amount < 0 ? '-' : ''}$${formatted}`
+}
@@ -0,0 +1,37 @@
+// Return (RMA) status, reason and disposition labels/colors
+// Separated from server actions to avoid "use server" export restrictions
+
+export const returnStatusLabels = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  credited: 'Credited',
+  cancelled: 'Cancelled',
+} as const
+
+export const returnStatusColors = {
+  requested: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  approved: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  rejected: { bg: 'bg-red-100', text: 'text-red-800' },
+  received: { bg: 'bg-purple-100', text: 'text-purple-800' },
+  credited: { bg: 'bg-green-100', text: 'text-green-800' },
+  cancelled: { bg: 'bg-gray-100', text: 'text-gray-600' },
+} as const
+
+export const returnReasonLabels = {
+  damaged: 'Damaged in Transit',
+  defective: 'Defective',
+  wrong_item: 'Wrong Item Shipped',
+  ordered_in_error: 'Ordered in Error',
+  overstock: 'Overstock',
+  other: 'Other',
+} as const
+
+export const returnDispositionLabels = {
+  restock: 'Restock',
+  scrap: 'Scrap',
+} as const
+
+export type ReturnStatus = keyof typeof returnStatusLabels
+export type ReturnReasonCode = keyof typeof returnReasonLabels
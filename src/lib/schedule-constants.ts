@@ -0,0 +1,33 @@
+// Recurring order schedule labels
+// Separated from server actions to avoid "use server" export restrictions
+
+export const scheduleFrequencyLabels = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom (cron)',
+} as const
+
+export const scheduleModeLabels = {
+  submit: 'Submit automatically',
+  draft: 'Create draft for review',
+} as const
+
+export const scheduleRunStatusLabels = {
+  submitted: 'Submitted',
+  draft: 'Draft created',
+  skipped: 'Skipped',
+  failed: 'Failed',
+} as const
+
+export const scheduleRunStatusColors = {
+  submitted: 'bg-green-100 text-green-800',
+  draft: 'bg-gray-100 text-gray-800',
+  skipped: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+} as const
+
+export const weekdayLabels = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const
+
+export type ScheduleFrequencyKey = keyof typeof scheduleFrequencyLabels
+export type ScheduleModeKey = keyof typeof scheduleModeLabels
+export type ScheduleRunStatusKey = keyof typeof scheduleRunStatusLabels
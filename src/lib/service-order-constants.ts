@@ -0,0 +1,50 @@
+// Repair order, pay type and PDI labels/colors
+// Separated from server actions to avoid "use server" export restrictions
+
+export const repairOrderStatusLabels = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+} as const
+
+export type RepairOrderStatus = keyof typeof repairOrderStatusLabels
+
+export const repairOrderStatusColors: Record<RepairOrderStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+}
+
+export const servicePayTypeLabels = {
+  customer_pay: 'Customer Pay',
+  warranty: 'Warranty',
+  internal: 'Internal',
+  recall: 'Recall',
+} as const
+
+export const servicePayTypeColors: Record<keyof typeof servicePayTypeLabels, string> = {
+  customer_pay: 'bg-gray-100 text-gray-800',
+  warranty: 'bg-purple-100 text-purple-800',
+  internal: 'bg-blue-100 text-blue-800',
+  recall: 'bg-red-100 text-red-800',
+}
+
+export const pdiStatusLabels = {
+  in_progress: 'In Progress',
+  repairs_pending: 'Repairs Pending',
+  completed: 'Signed Off',
+} as const
+
+export const pdiStatusColors: Record<keyof typeof pdiStatusLabels, string> = {
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  repairs_pending: 'bg-orange-100 text-orange-800',
+  completed: 'bg-green-100 text-green-800',
+}
+
+export const pdiResultLabels = {
+  pass: 'Pass',
+  fail: 'Fail',
+  na: 'N/A',
+} as const
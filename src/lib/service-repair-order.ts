@@ -0,0 +1,110 @@
+// Service repair orders: RO numbering, technician clock hours, line and RO
+// totals and the checks that must pass before an RO can be closed.
+// Non-server so the RO page can show running totals.
+
+export const SERVICE_PAY_TYPES = ['customer_pay', 'warranty', 'internal', 'recall'] as const
+
+export type ServicePayType = (typeof SERVICE_PAY_TYPES)[number]
+
+// Door rate used until the dealer enters their own
+export const DEFAULT_LABOR_RATE = 150
+
+// ROs that still hold the unit in the service department
+export const OPEN_REPAIR_ORDER_STATUSES = ['open', 'in_progress']
+
+export function formatRepairOrderNumber(year: number, sequence: number): string {
+  return `RO-${year}-${String(sequence).padStart(5, '0')}`
+}
+
+// Next RO number given the last one issued (RO-2025-00041 -> RO-2025-00042)
+export function nextRepairOrderNumber(year: number, last: string | null): string {
+  const prefix = `RO-${year}-`
+  if (!last || !last.startsWith(prefix)) return formatRepairOrderNumber(year, 1)
+  return formatRepairOrderNumber(year, parseInt(last.slice(prefix.length), 10) + 1)
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Hours between clock-in and clock-out, rounded to the nearest tenth the way
+ * technician time is billed. Any clocked time counts as at least 0.1 hours.
+ */
+export function calculateClockedHours(clockIn: Date, clockOut: Date): number {
+  const hours = (clockOut.getTime() - clockIn.getTime()) / (60 * 60 * 1000)
+  if (hours <= 0) return 0
+  return Math.max(Math.round(hours * 10) / 10, 0.1)
+}
+
+export type RepairOrderLineForTotals = {
+  payType: string
+  subletCost: number
+  parts: { quantity: number; unitCost: number; unitPrice: number }[]
+  laborEntries: { hours: number | null }[]
+}
+
+export type RepairOrderTotals = {
+  laborHours: number
+  laborCost: number
+  partsCost: number
+  subletCost: number
+  totalCost: number
+  customerPayTotal: number // What the customer owes; warranty, recall and internal lines are not billed to them
+}
+
+/**
+ * Roll up closed labor entries, parts at retail and sublet across the RO's
+ * lines. Open clock entries have no hours yet and are left out.
+ */
+export function calculateRepairOrderTotals(lines: RepairOrderLineForTotals[], laborRate: number): RepairOrderTotals {
+  let laborHours = 0
+  let partsCost = 0
+  let subletCost = 0
+  let customerPayTotal = 0
+
+  for (const line of lines) {
+    const lineHours = line.laborEntries.reduce((sum, entry) => sum + (entry.hours ?? 0), 0)
+    const lineParts = line.parts.reduce((sum, part) => sum + part.quantity * part.unitPrice, 0)
+    laborHours += lineHours
+    partsCost += lineParts
+    subletCost += line.subletCost
+    if (line.payType === 'customer_pay') {
+      customerPayTotal += lineHours * laborRate + lineParts + line.subletCost
+    }
+  }
+
+  laborHours = Math.round(laborHours * 10) / 10
+  const laborCost = roundCents(laborHours * laborRate)
+  return {
+    laborHours,
+    laborCost,
+    partsCost: roundCents(partsCost),
+    subletCost: roundCents(subletCost),
+    totalCost: roundCents(laborCost + partsCost + subletCost),
+    customerPayTotal: roundCents(customerPayTotal),
+  }
+}
+
+export type RepairOrderLineForClose = {
+  lineNumber: number
+  cause?: string | null
+  correction?: string | null
+  laborEntries: { technicianName: string; clockOut?: Date | null }[]
+}
+
+/** Reasons the RO cannot be closed yet; empty when it is ready. */
+export function getRepairOrderCloseBlockers(lines: RepairOrderLineForClose[]): string[] {
+  if (lines.length === 0) return ['Add at least one line before closing the repair order']
+
+  const blockers: string[] = []
+  for (const line of lines) {
+    if (!line.cause?.trim() || !line.correction?.trim()) {
+      blockers.push(`Line ${line.lineNumber} needs a cause and correction`)
+    }
+    for (const entry of line.laborEntries) {
+      if (!entry.clockOut) blockers.push(`${entry.technicianName} is still clocked in on line ${line.lineNumber}`)
+    }
+  }
+  return blockers
+}
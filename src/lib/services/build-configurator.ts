@@ -0,0 +1,72 @@
+import { prisma } from '@/lib/prisma'
+import {
+  configureBuild,
+  parseStringList,
+  type BuildCatalog,
+  type BuildResult,
+  type BuildSelection,
+  type OptionGroupSelection,
+} from '@/lib/build-configurator'
+
+// Load a model's option catalog for the configurator. Inactive options are
+// kept so an old selection can be reported rather than silently dropped.
+export async function getBuildCatalog(rvModelId: string): Promise<BuildCatalog | null> {
+  const model = await prisma.rVModel.findUnique({
+    where: { id: rvModelId },
+    include: {
+      optionGroups: { orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] },
+      options: { orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] },
+    },
+  })
+  if (!model) return null
+
+  const groupOrder = new Map(model.optionGroups.map((group, index) => [group.id, index]))
+  const groupCodes = new Map(model.optionGroups.map((group) => [group.id, group.code]))
+  const options = [...model.options].sort(
+    (a, b) => (groupOrder.get(a.groupId) ?? 0) - (groupOrder.get(b.groupId) ?? 0)
+  )
+
+  return {
+    rvModelId: model.id,
+    modelCode: model.code,
+    modelName: model.name,
+    modelYear: model.modelYear,
+    baseMSRP: model.baseMSRP,
+    dealerInvoice: model.dealerInvoice,
+    exteriorColors: parseStringList(model.availableExteriorColors) ?? [],
+    interiorColors: parseStringList(model.availableInteriorColors) ?? [],
+    groups: model.optionGroups.map((group) => ({
+      code: group.code,
+      name: group.name,
+      selection: group.selection as OptionGroupSelection,
+      isRequired: group.isRequired,
+    })),
+    options: options.map((option) => ({
+      code: option.code,
+      name: option.name,
+      description: option.description,
+      groupCode: groupCodes.get(option.groupId) ?? '',
+      dealerCost: option.dealerCost,
+      msrp: option.msrp,
+      requires: parseStringList(option.requires) ?? [],
+      excludes: parseStringList(option.excludes) ?? [],
+      includes: parseStringList(option.includes) ?? [],
+      exteriorColors: parseStringList(option.exteriorColors),
+      interiorColors: parseStringList(option.interiorColors),
+      isActive: option.isActive,
+    })),
+  }
+}
+
+// Validate and price a build on the server. Throws with every problem found
+// so the caller can show them together.
+export async function priceFactoryBuild(rvModelId: string, selection: BuildSelection): Promise<BuildResult> {
+  const catalog = await getBuildCatalog(rvModelId)
+  if (!catalog) throw new Error('RV model not found')
+
+  const result = configureBuild(catalog, selection)
+  if (!result.valid) {
+    throw new Error(`Build is not valid: ${result.issues.map((issue) => issue.message).join('; ')}`)
+  }
+  return result
+}
@@ -0,0 +1,35 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { nextCreditMemoNumbers } from '@/lib/order-returns'
+
+// Return credits and warranty settlements can race for the same memo numbers
+const MEMO_NUMBER_ATTEMPTS = 3
+
+async function reserveCreditMemoNumbers(tx: Prisma.TransactionClient, count: number): Promise<string[]> {
+  const year = new Date().getFullYear()
+  const lastMemo = await tx.creditMemo.findFirst({
+    where: { memoNumber: { startsWith: `CM-${year}-` } },
+    orderBy: { memoNumber: 'desc' },
+    select: { memoNumber: true },
+  })
+  return nextCreditMemoNumbers(year, lastMemo?.memoNumber ?? null, count)
+}
+
+/**
+ * Run a transaction that issues `count` credit memos, numbered from the shared
+ * CM sequence inside the same transaction. When a concurrent run takes the
+ * same numbers, the transaction rolls back and runs again with fresh ones.
+ */
+export async function withCreditMemoNumbers<T>(
+  count: number,
+  run: (tx: Prisma.TransactionClient, memoNumbers: string[]) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => run(tx, await reserveCreditMemoNumbers(tx, count)))
+    } catch (error) {
+      const clash = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+      if (!clash || attempt >= MEMO_NUMBER_ATTEMPTS) throw error
+    }
+  }
+}
@@ -0,0 +1,144 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import {
+  buildArAging,
+  evaluateCreditCheck,
+  formatPaymentTerms,
+  getUninvoicedAmount,
+  OPEN_ORDER_STATUSES,
+  type ArAging,
+  type CreditCheck,
+  type CreditHoldAction,
+} from '@/lib/credit'
+import type { DealerCreditSettingsInput } from '@/lib/validations/dealer'
+
+export type DealerCreditSummary = {
+  dealerId: string
+  creditLimit: number | null
+  paymentTermsDays: number
+  paymentTerms: string
+  creditHoldAction: CreditHoldAction
+  aging: ArAging
+  openOrderExposure: number
+  exposure: number
+  availableCredit: number | null
+}
+
+// Get a dealer's AR aging, open exposure and remaining credit. An order being
+// re-checked (e.g. on approval) can be left out so it isn't counted twice.
+export async function getDealerCreditSummary(
+  dealerId: string,
+  excludeOrderId?: string
+): Promise<DealerCreditSummary | null> {
+  const dealer = await prisma.dealer.findUnique({
+    where: { id: dealerId },
+    select: { id: true, creditLimit: true, paymentTermsDays: true, creditHoldAction: true },
+  })
+
+  if (!dealer) return null
+
+  const [invoices, openOrders] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { dealerId, status: { notIn: ['paid', 'cancelled'] } },
+      select: { status: true, totalAmount: true, creditedAmount: true, dueDate: true, paidDate: true },
+    }),
+    // Prepaid orders never draw on the credit line
+    prisma.order.findMany({
+      where: {
+        dealerId,
+        status: { in: OPEN_ORDER_STATUSES },
+        ...(excludeOrderId ? { id: { not: excludeOrderId } } : {}),
+        OR: [{ paymentMethod: 'credit_terms' }, { paymentMethod: null }],
+      },
+      select: {
+        totalAmount: true,
+        invoices: { select: { status: true, totalAmount: true } },
+      },
+    }),
+  ])
+
+  const aging = buildArAging(invoices)
+  const openOrderExposure = openOrders.reduce(
+    (sum, order) => sum + getUninvoicedAmount(order, order.invoices),
+    0
+  )
+  const check = evaluateCreditCheck({
+    orderTotal: 0,
+    creditLimit: dealer.creditLimit,
+    creditHoldAction: dealer.creditHoldAction,
+    aging,
+    openOrderExposure,
+  })
+
+  return {
+    dealerId: dealer.id,
+    creditLimit: dealer.creditLimit,
+    paymentTermsDays: dealer.paymentTermsDays,
+    paymentTerms: formatPaymentTerms(dealer.paymentTermsDays),
+    creditHoldAction: dealer.creditHoldAction as CreditHoldAction,
+    aging,
+    openOrderExposure: Math.round(openOrderExposure * 100) / 100,
+    exposure: check.exposure,
+    availableCredit: check.availableCredit,
+  }
+}
+
+// Run the checkout credit check for a new order, or one leaving the approval queue
+export async function checkDealerCredit(
+  dealerId: string,
+  orderTotal: number,
+  paymentMethod?: string,
+  excludeOrderId?: string
+): Promise<CreditCheck> {
+  const summary = await getDealerCreditSummary(dealerId, excludeOrderId)
+
+  if (!summary) {
+    return { decision: 'approved', reasons: [], exposure: 0, availableCredit: null }
+  }
+
+  return evaluateCreditCheck({
+    paymentMethod,
+    orderTotal,
+    creditLimit: summary.creditLimit,
+    creditHoldAction: summary.creditHoldAction,
+    aging: summary.aging,
+    openOrderExposure: summary.openOrderExposure,
+  })
+}
+
+// Update a dealer's credit limit, terms and hold behaviour
+export async function updateDealerCreditSettings(
+  input: DealerCreditSettingsInput
+): Promise<{
+  success: boolean
+  error?: string
+  previous?: { creditLimit: number | null; paymentTermsDays: number; creditHoldAction: string }
+}> {
+  try {
+    const previous = await prisma.dealer.findUnique({
+      where: { id: input.dealerId },
+      select: { creditLimit: true, paymentTermsDays: true, creditHoldAction: true },
+    })
+
+    if (!previous) {
+      return { success: false, error: 'Dealer not found' }
+    }
+
+    await prisma.dealer.update({
+      where: { id: input.dealerId },
+      data: {
+        creditLimit: input.creditLimit,
+        paymentTermsDays: input.paymentTermsDays,
+        creditHoldAction: input.creditHoldAction,
+      },
+    })
+
+    return { success: true, previous }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update credit settings',
+    }
+  }
+}
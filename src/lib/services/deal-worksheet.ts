@@ -0,0 +1,457 @@
+import { prisma } from '@/lib/prisma'
+import { getVehicleSaleTaxContext } from '@/lib/services/tax'
+import {
+  calculateDealWorksheet,
+  quoteFinanceScenario,
+  type DealFee,
+  type DealInput,
+  type DealTaxContext,
+  type DealWorksheet,
+  type FinanceQuote,
+} from '@/lib/deal-worksheet'
+import { formatTaxRate } from '@/lib/tax'
+import { escapeHtml, formatPrintCurrency } from '@/lib/print-html'
+import type { DealWorksheetInput } from '@/lib/validations/deal-worksheet'
+
+// The deal structure is fixed once an order is closed
+const LOCKED_ORDER_STATUSES = ['completed', 'cancelled']
+
+export type BuyerAddress = {
+  street: string
+  city: string
+  state: string
+  zipCode: string
+}
+
+export type DealFinancing = FinanceQuote & { lender?: string }
+
+export type DealJacketDocumentSummary = {
+  id: string
+  type: string
+  title: string
+  version: number
+  createdAt: Date
+}
+
+export type DealWorksheetData = {
+  orderId: string
+  orderNumber: string
+  status: string
+  isLocked: boolean
+  dealerName: string
+  dealerCode: string
+  customerType: string
+  customerName: string | null
+  customerEmail: string | null
+  customerPhone: string | null
+  buyerAddress: BuyerAddress | null
+  unit: {
+    year: number | null
+    modelName: string | null
+    modelCode: string | null
+    vin: string | null
+    stockNumber: string | null
+    exteriorColor: string | null
+    interiorColor: string | null
+  }
+  tradeIn: {
+    description: string
+    vin: string | null
+    lienHolder: string | null
+    lienPayoffGoodThrough: Date | null
+  } | null
+  input: DealInput
+  tax: DealTaxContext
+  worksheet: DealWorksheet
+  paymentMethod: string | null
+  financing: DealFinancing | null
+  documents: DealJacketDocumentSummary[]
+}
+
+const worksheetOrderInclude = {
+  dealer: { select: { name: true, code: true } },
+  rvUnit: { include: { model: true } },
+  rvModel: true,
+  tradeIn: true,
+  dealDocuments: {
+    select: { id: true, type: true, title: true, version: true, createdAt: true },
+    orderBy: { createdAt: 'desc' as const },
+  },
+}
+
+async function getDealerOrder(dealerId: string, orderNumber: string) {
+  const order = await prisma.vehicleOrder.findUnique({
+    where: { orderNumber },
+    include: worksheetOrderInclude,
+  })
+  if (!order || order.dealerId !== dealerId) throw new Error('Order not found')
+  return order
+}
+
+type WorksheetOrder = Awaited<ReturnType<typeof getDealerOrder>>
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+function parseFees(value: string | null): DealFee[] {
+  const fees = parseJson<{ name?: unknown; amount?: unknown; taxable?: unknown }[]>(value)
+  if (!Array.isArray(fees)) return []
+  return fees
+    .filter((fee) => typeof fee.name === 'string' && typeof fee.amount === 'number')
+    .map((fee) => ({ name: fee.name as string, amount: fee.amount as number, taxable: fee.taxable === true }))
+}
+
+// Lien payoff on the trade record wins over the copy on the order
+function getTradeInPayoff(order: WorksheetOrder): number {
+  return order.tradeIn?.lienPayoff ?? order.tradeInPayoff
+}
+
+// Wholesale deals are resales and carry no retail sales tax
+function isTaxExempt(customerType: string): boolean {
+  return customerType === 'wholesale'
+}
+
+function buildDealInput(order: WorksheetOrder): DealInput {
+  return {
+    sellingPrice: order.unitPrice,
+    optionsPrice: order.optionsPrice,
+    freightPrice: order.freightPrice,
+    prepFee: order.prepFee,
+    docFee: order.docFee,
+    additionalFees: parseFees(order.additionalFees),
+    tradeInAllowance: order.tradeInAllowance,
+    tradeInPayoff: getTradeInPayoff(order),
+    rebates: order.rebatesApplied,
+    depositAmount: order.depositAmount,
+  }
+}
+
+function toWorksheetData(order: WorksheetOrder, tax: DealTaxContext): DealWorksheetData {
+  const input = buildDealInput(order)
+  const worksheet = calculateDealWorksheet(input, tax)
+  const model = order.rvUnit?.model ?? order.rvModel
+
+  const stored = parseJson<{ lender?: string; term?: number; rate?: number; downPayment?: number }>(
+    order.financingDetails
+  )
+  const financing: DealFinancing | null =
+    stored && stored.term && stored.rate !== undefined
+      ? {
+          ...quoteFinanceScenario(worksheet.balanceDue, {
+            termMonths: stored.term,
+            apr: stored.rate,
+            downPayment: stored.downPayment ?? 0,
+          }),
+          lender: stored.lender || undefined,
+        }
+      : null
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    isLocked: LOCKED_ORDER_STATUSES.includes(order.status),
+    dealerName: order.dealer.name,
+    dealerCode: order.dealer.code,
+    customerType: order.customerType,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    customerPhone: order.customerPhone,
+    buyerAddress: parseJson<BuyerAddress>(order.customerAddress),
+    unit: {
+      year: order.rvUnit?.modelYear ?? order.rvModel?.modelYear ?? null,
+      modelName: model?.name ?? null,
+      modelCode: model?.code ?? null,
+      vin: order.rvUnit?.vin ?? null,
+      stockNumber: order.rvUnit?.stockNumber ?? null,
+      exteriorColor: order.rvUnit?.exteriorColor ?? order.requestedExteriorColor,
+      interiorColor: order.rvUnit?.interiorColor ?? order.requestedInteriorColor,
+    },
+    tradeIn: order.tradeIn
+      ? {
+          description: [order.tradeIn.year, order.tradeIn.make, order.tradeIn.model, order.tradeIn.trim]
+            .filter(Boolean)
+            .join(' '),
+          vin: order.tradeIn.vin,
+          lienHolder: order.tradeIn.lienHolder,
+          lienPayoffGoodThrough: order.tradeIn.lienPayoffGoodThrough,
+        }
+      : null,
+    input,
+    tax,
+    worksheet,
+    paymentMethod: order.paymentMethod,
+    financing,
+    documents: order.dealDocuments,
+  }
+}
+
+export async function getDealWorksheet(dealerId: string, orderNumber: string): Promise<DealWorksheetData> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  const address = parseJson<BuyerAddress>(order.customerAddress)
+  const tax = await getVehicleSaleTaxContext(address, isTaxExempt(order.customerType))
+  return toWorksheetData(order, tax)
+}
+
+// Tax rules for a buyer address the salesperson is still typing in
+export async function getDealTaxContext(
+  dealerId: string,
+  orderNumber: string,
+  address: { state: string; zipCode: string } | null
+): Promise<DealTaxContext> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  return getVehicleSaleTaxContext(address, isTaxExempt(order.customerType))
+}
+
+// Save the worksheet, recomputing tax and totals rather than trusting the client
+export async function saveDealWorksheet(
+  dealerId: string,
+  orderNumber: string,
+  input: DealWorksheetInput
+): Promise<DealWorksheetData> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  if (LOCKED_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`The deal cannot be changed on a ${order.status} order`)
+  }
+
+  const tax = await getVehicleSaleTaxContext(input.buyerAddress, isTaxExempt(order.customerType))
+  const worksheet = calculateDealWorksheet(
+    {
+      ...buildDealInput(order),
+      sellingPrice: input.unitPrice,
+      freightPrice: input.freightPrice,
+      prepFee: input.prepFee,
+      docFee: input.docFee,
+      additionalFees: input.additionalFees,
+      tradeInAllowance: input.tradeInAllowance,
+      depositAmount: input.depositAmount,
+    },
+    tax
+  )
+
+  const quote =
+    input.paymentMethod === 'financing' && input.financing
+      ? quoteFinanceScenario(worksheet.balanceDue, input.financing)
+      : null
+
+  await prisma.vehicleOrder.update({
+    where: { id: order.id },
+    data: {
+      unitPrice: worksheet.sellingPrice,
+      freightPrice: worksheet.freightPrice,
+      prepFee: worksheet.prepFee,
+      docFee: worksheet.docFee,
+      additionalFees: worksheet.additionalFees.length > 0 ? JSON.stringify(worksheet.additionalFees) : null,
+      tradeInAllowance: worksheet.tradeInAllowance,
+      tradeInPayoff: worksheet.tradeInPayoff,
+      taxAmount: worksheet.taxAmount,
+      totalPrice: worksheet.totalPrice,
+      depositAmount: worksheet.depositAmount,
+      depositDate: worksheet.depositAmount > 0 ? order.depositDate ?? new Date() : null,
+      paymentMethod: input.paymentMethod,
+      customerAddress: input.buyerAddress ? JSON.stringify(input.buyerAddress) : null,
+      financingDetails: quote
+        ? JSON.stringify({
+            lender: input.financing?.lender ?? '',
+            term: quote.termMonths,
+            rate: quote.apr,
+            monthlyPayment: quote.monthlyPayment,
+            downPayment: quote.downPayment,
+            amountFinanced: quote.amountFinanced,
+          })
+        : null,
+    },
+  })
+
+  return getDealWorksheet(dealerId, orderNumber)
+}
+
+// Generate the buyer's order from the saved worksheet and keep it in the deal jacket
+export async function generateBuyersOrder(
+  dealerId: string,
+  orderNumber: string,
+  userId: string
+): Promise<DealJacketDocumentSummary> {
+  const deal = await getDealWorksheet(dealerId, orderNumber)
+  if (!deal.customerName) throw new Error('Add the buyer before generating a buyer\'s order')
+
+  const version =
+    (await prisma.dealJacketDocument.count({ where: { orderId: deal.orderId, type: 'buyers_order' } })) + 1
+  const generatedAt = new Date()
+
+  return prisma.dealJacketDocument.create({
+    data: {
+      orderId: deal.orderId,
+      type: 'buyers_order',
+      title: `Buyer's Order ${deal.orderNumber}${version > 1 ? ` (v${version})` : ''}`,
+      version,
+      html: renderBuyersOrderHtml(deal, version, generatedAt),
+      data: JSON.stringify({ worksheet: deal.worksheet, financing: deal.financing, paymentMethod: deal.paymentMethod }),
+      createdById: userId,
+    },
+    select: { id: true, type: true, title: true, version: true, createdAt: true },
+  })
+}
+
+export async function getDealDocumentHtml(dealerId: string, documentId: string): Promise<string | null> {
+  const document = await prisma.dealJacketDocument.findUnique({
+    where: { id: documentId },
+    include: { order: { select: { dealerId: true } } },
+  })
+  if (!document || document.order.dealerId !== dealerId) return null
+  return document.html
+}
+
+function renderBuyersOrderHtml(deal: DealWorksheetData, version: number, generatedAt: Date): string {
+  const { worksheet, unit, buyerAddress, financing } = deal
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const row = (label: string, amount: number, className = '') =>
+    `<div class="totals-row ${className}"><span>${escapeHtml(label)}</span><span>${formatPrintCurrency(amount)}</span></div>`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Buyer's Order ${escapeHtml(deal.orderNumber)}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; line-height: 1.5; color: #333; }
+    .document { max-width: 800px; margin: 0 auto; padding: 40px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 30px; }
+    .logo { font-size: 24px; font-weight: bold; color: #556B2F; }
+    .title { text-align: right; }
+    .title h1 { font-size: 28px; color: #556B2F; margin-bottom: 5px; }
+    .subtitle { font-size: 14px; color: #666; }
+    .parties { display: flex; gap: 40px; margin-bottom: 25px; }
+    .party { flex: 1; }
+    h3 { font-size: 12px; text-transform: uppercase; color: #666; margin-bottom: 8px; }
+    .section { margin-bottom: 25px; }
+    .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 6px 30px; padding: 15px; background: #f5f5f5; border-radius: 8px; }
+    .grid label { font-size: 12px; color: #666; display: block; }
+    .grid span { font-weight: 600; }
+    .totals { margin-left: auto; width: 380px; }
+    .totals-row { display: flex; justify-content: space-between; padding: 5px 0; }
+    .totals-row.sub { border-top: 1px solid #ddd; font-weight: 600; }
+    .totals-row.total { border-top: 2px solid #333; font-size: 18px; font-weight: bold; margin-top: 8px; padding-top: 12px; }
+    .totals-row.total span:last-child { color: #556B2F; }
+    .note { font-size: 12px; color: #666; }
+    .signatures { display: flex; gap: 40px; margin-top: 50px; }
+    .signature { flex: 1; border-top: 1px solid #333; padding-top: 5px; font-size: 12px; color: #666; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 12px; }
+    @media print {
+      .document { padding: 20px; }
+      .grid { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    }
+  </style>
+</head>
+<body>
+  <div class="document">
+    <div class="header">
+      <div>
+        <div class="logo">${escapeHtml(deal.dealerName)}</div>
+        <div class="subtitle">Dealer Code: ${escapeHtml(deal.dealerCode)}</div>
+      </div>
+      <div class="title">
+        <h1>BUYER'S ORDER</h1>
+        <div class="subtitle">${escapeHtml(deal.orderNumber)}${version > 1 ? ` &middot; Version ${version}` : ''}</div>
+        <div class="subtitle">${formatDate(generatedAt)}</div>
+      </div>
+    </div>
+
+    <div class="parties">
+      <div class="party">
+        <h3>Buyer</h3>
+        <p><strong>${escapeHtml(deal.customerName)}</strong></p>
+        ${buyerAddress ? `
+          ${buyerAddress.street ? `<p>${escapeHtml(buyerAddress.street)}</p>` : ''}
+          <p>${escapeHtml(buyerAddress.city)}${buyerAddress.city ? ', ' : ''}${escapeHtml(buyerAddress.state)} ${escapeHtml(buyerAddress.zipCode)}</p>
+        ` : ''}
+        ${deal.customerPhone ? `<p>${escapeHtml(deal.customerPhone)}</p>` : ''}
+        ${deal.customerEmail ? `<p>${escapeHtml(deal.customerEmail)}</p>` : ''}
+      </div>
+      ${deal.tradeIn ? `
+        <div class="party">
+          <h3>Trade-In</h3>
+          <p><strong>${escapeHtml(deal.tradeIn.description)}</strong></p>
+          ${deal.tradeIn.vin ? `<p>VIN: ${escapeHtml(deal.tradeIn.vin)}</p>` : ''}
+          ${deal.tradeIn.lienHolder ? `<p>Lienholder: ${escapeHtml(deal.tradeIn.lienHolder)}</p>` : ''}
+          ${deal.tradeIn.lienPayoffGoodThrough ? `<p class="note">Payoff good through ${formatDate(deal.tradeIn.lienPayoffGoodThrough)}</p>` : ''}
+        </div>
+      ` : ''}
+    </div>
+
+    <div class="section">
+      <h3>Vehicle</h3>
+      <div class="grid">
+        <div><label>Year / Model</label><span>${escapeHtml(unit.year)} ${escapeHtml(unit.modelName ?? 'Factory order')} ${unit.modelCode ? `(${escapeHtml(unit.modelCode)})` : ''}</span></div>
+        <div><label>VIN</label><span>${escapeHtml(unit.vin ?? 'To be assigned')}</span></div>
+        <div><label>Stock #</label><span>${escapeHtml(unit.stockNumber ?? '-')}</span></div>
+        <div><label>Colors</label><span>${escapeHtml([unit.exteriorColor, unit.interiorColor].filter(Boolean).join(' / ') || '-')}</span></div>
+      </div>
+    </div>
+
+    <div class="section">
+      <h3>Price Structure</h3>
+      <div class="totals">
+        ${row('Selling Price', worksheet.sellingPrice)}
+        ${worksheet.optionsPrice > 0 ? row('Options', worksheet.optionsPrice) : ''}
+        ${worksheet.freightPrice > 0 ? row('Freight', worksheet.freightPrice) : ''}
+        ${worksheet.prepFee > 0 ? row('Prep', worksheet.prepFee) : ''}
+        ${worksheet.docFee > 0 ? row('Documentation Fee', worksheet.docFee) : ''}
+        ${worksheet.additionalFees.map((fee) => row(fee.name, fee.amount)).join('')}
+        ${row('Subtotal', worksheet.subtotal, 'sub')}
+        ${worksheet.taxExempt ? `
+          <div class="totals-row"><span>Sales tax (exempt)</span><span>${formatPrintCurrency(0)}</span></div>
+        ` : worksheet.taxLines.map((line) => row(`${line.jurisdiction} (${formatTaxRate(line.rate)})`, line.taxAmount)).join('')}
+        ${worksheet.tradeInAllowance > 0 || worksheet.tradeInPayoff > 0 ? `
+          ${row('Trade-In Allowance', -worksheet.tradeInAllowance)}
+          ${worksheet.tradeInPayoff > 0 ? row('Trade-In Lien Payoff', worksheet.tradeInPayoff) : ''}
+        ` : ''}
+        ${worksheet.rebates > 0 ? row('Rebates', -worksheet.rebates) : ''}
+        ${row('Total Price', worksheet.totalPrice, 'sub')}
+        ${worksheet.depositAmount > 0 ? row('Deposit', -worksheet.depositAmount) : ''}
+        ${financing ? `
+          ${financing.downPayment > 0 ? row('Down Payment', -financing.downPayment) : ''}
+          ${row('Amount Financed', financing.amountFinanced, 'total')}
+        ` : row('Balance Due', worksheet.balanceDue, 'total')}
+      </div>
+      ${worksheet.taxState && !worksheet.taxExempt ? `
+        <p class="note">Tax calculated for ${escapeHtml(worksheet.taxState)} on ${formatPrintCurrency(worksheet.taxableAmount)}${worksheet.tradeInCredit ? ' after trade-in credit' : ''}.</p>
+      ` : ''}
+    </div>
+
+    ${financing ? `
+      <div class="section">
+        <h3>Financing</h3>
+        <div class="grid">
+          <div><label>Lender</label><span>${escapeHtml(financing.lender ?? 'To be arranged')}</span></div>
+          <div><label>Term / APR</label><span>${financing.termMonths} months at ${financing.apr.toFixed(2)}%</span></div>
+          <div><label>Monthly Payment</label><span>${formatPrintCurrency(financing.monthlyPayment)}</span></div>
+          <div><label>Finance Charge</label><span>${formatPrintCurrency(financing.financeCharge)}</span></div>
+        </div>
+        <p class="note" style="margin-top: 8px;">Payment estimate subject to lender approval.</p>
+      </div>
+    ` : ''}
+
+    <div class="signatures">
+      <div class="signature">Buyer signature / date</div>
+      <div class="signature">Dealer representative / date</div>
+    </div>
+
+    <div class="footer">
+      <p>THOR Industries Dealer Portal</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
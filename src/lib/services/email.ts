@@ -329,25 +329,40 @@ THOR Dealer Portal
 
 /**
  * Send order shipped notification email
+ * Sent once per shipment; pass the shipment to list its packing slip lines
  */
 export async function sendOrderShippedEmail(
   to: string,
   orderNumber: string,
   trackingNumber?: string,
   carrier?: string,
-  estimatedDelivery?: Date
+  estimatedDelivery?: Date,
+  shipment?: {
+    shipmentNumber: string
+    items: Array<{ name: string; sku: string; quantity: number }>
+    remainingUnits: number
+  }
 ): Promise<SendResult> {
   const baseUrl = process.env.AUTH_URL || 'http://localhost:3000'
   const orderUrl = `${baseUrl}/orders/${orderNumber}`
 
-  const subject = `Your Order ${orderNumber} Has Shipped!`
+  const isPartial = (shipment?.remainingUnits ?? 0) > 0
+  const subject = isPartial
+    ? `Part of Your Order ${orderNumber} Has Shipped`
+    : `Your Order ${orderNumber} Has Shipped!`
+  const itemsList = shipment?.items
+    .map((item) => `  - ${item.name} (${item.sku}) x${item.quantity}`)
+    .join('\n')
   const text = `
-Great news! Your order has shipped.
+Great news! ${isPartial ? 'Part of your order' : 'Your order'} has shipped.
 
 Order Number: ${orderNumber}
+${shipment ? `Packing Slip: ${shipment.shipmentNumber}` : ''}
 ${trackingNumber ? `Tracking Number: ${trackingNumber}` : ''}
 ${carrier ? `Carrier: ${carrier}` : ''}
 ${estimatedDelivery ? `Estimated Delivery: ${estimatedDelivery.toLocaleDateString()}` : ''}
+${itemsList ? `\nIn this shipment:\n${itemsList}\n` : ''}
+${isPartial ? `${shipment?.remainingUnits} units are still to ship and will follow in a later shipment.` : ''}
 
 Track your order: ${orderUrl}
 
@@ -367,13 +382,36 @@ THOR Dealer Portal
     <h1 style="margin: 0; font-size: 24px;">THOR Dealer Portal</h1>
   </div>
   <div style="background: #f9fafb; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
-    <h2 style="margin-top: 0; color: #556B2F;">Your Order Has Shipped! 📦</h2>
+    <h2 style="margin-top: 0; color: #556B2F;">${isPartial ? 'Part of Your Order Has Shipped' : 'Your Order Has Shipped!'} 📦</h2>
     <div style="background: white; padding: 15px; border-radius: 6px; margin: 20px 0;">
       <p style="margin: 0;"><strong>Order Number:</strong> ${orderNumber}</p>
+      ${shipment ? `<p style="margin: 5px 0 0;"><strong>Packing Slip:</strong> ${shipment.shipmentNumber}</p>` : ''}
       ${trackingNumber ? `<p style="margin: 5px 0 0;"><strong>Tracking:</strong> ${trackingNumber}</p>` : ''}
       ${carrier ? `<p style="margin: 5px 0 0;"><strong>Carrier:</strong> ${carrier}</p>` : ''}
       ${estimatedDelivery ? `<p style="margin: 5px 0 0;"><strong>Estimated Delivery:</strong> ${estimatedDelivery.toLocaleDateString()}</p>` : ''}
     </div>
+    ${shipment ? `
+    <table style="width: 100%; border-collapse: collapse; background: white; border-radius: 6px;">
+      <thead>
+        <tr style="background: #f3f4f6;">
+          <th style="padding: 10px; text-align: left;">Item</th>
+          <th style="padding: 10px; text-align: center;">Qty Shipped</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${shipment.items.map((item) => `
+          <tr>
+            <td style="padding: 10px; border-bottom: 1px solid #e5e7eb;">
+              <strong>${item.name}</strong><br>
+              <span style="color: #666; font-size: 12px;">${item.sku}</span>
+            </td>
+            <td style="padding: 10px; text-align: center; border-bottom: 1px solid #e5e7eb;">${item.quantity}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    ` : ''}
+    ${isPartial ? `<p style="margin-top: 20px;">${shipment?.remainingUnits} units are still to ship and will follow in a later shipment.</p>` : ''}
     <div style="text-align: center; margin: 30px 0;">
       <a href="${orderUrl}" style="background: #556B2F; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600;">Track Order</a>
     </div>
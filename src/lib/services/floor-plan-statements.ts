@@ -0,0 +1,261 @@
+import { prisma } from '@/lib/prisma'
+import {
+  mapStatementRows,
+  parseCsv,
+  reconcileStatement,
+  type DiscrepancyType,
+} from '@/lib/floor-plan-statements'
+import { adjustFloorPlanAccount, clearUnitFloorPlan } from '@/lib/services/floor-plan'
+import type {
+  FloorPlanStatementImportInput,
+  FloorPlanStatementMappingInput,
+} from '@/lib/validations/floor-plan'
+
+// ============================================================================
+// COLUMN MAPPINGS
+// ============================================================================
+
+export async function getStatementMappings(dealerId: string) {
+  return prisma.floorPlanStatementMapping.findMany({
+    where: { dealerId },
+    orderBy: { lender: 'asc' },
+  })
+}
+
+export async function saveStatementMapping(dealerId: string, input: FloorPlanStatementMappingInput) {
+  const lender = input.lender.trim()
+  const data = {
+    vinColumn: input.vinColumn?.trim() || null,
+    floorPlanNumberColumn: input.floorPlanNumberColumn?.trim() || null,
+    payoffColumn: input.payoffColumn.trim(),
+    rateColumn: input.rateColumn?.trim() || null,
+  }
+
+  return prisma.floorPlanStatementMapping.upsert({
+    where: { dealerId_lender: { dealerId, lender } },
+    create: { dealerId, lender, ...data },
+    update: data,
+  })
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export type StatementImportResult = {
+  statementId: string
+  lineCount: number
+  matchedCount: number
+  discrepancyCount: number
+  skippedRows: string[]
+}
+
+// Parse a lender statement with the lender's mapping and store the
+// reconciliation against the dealer's units
+export async function importFloorPlanStatement(
+  dealerId: string,
+  input: FloorPlanStatementImportInput,
+  importedById?: string
+): Promise<StatementImportResult> {
+  const mapping = await prisma.floorPlanStatementMapping.findUnique({
+    where: { dealerId_lender: { dealerId, lender: input.lender.trim() } },
+  })
+  if (!mapping) {
+    throw new Error(`Set up the column mapping for ${input.lender} before importing`)
+  }
+
+  const { lines, errors } = mapStatementRows(parseCsv(input.content), mapping)
+  if (lines.length === 0) {
+    throw new Error(errors[0] ?? 'No statement lines found')
+  }
+
+  const vins = lines.flatMap((line) => (line.vin ? [line.vin] : []))
+  const numbers = lines.flatMap((line) => (line.floorPlanNumber ? [line.floorPlanNumber] : []))
+
+  const units = await prisma.rVUnit.findMany({
+    where: {
+      dealerId,
+      OR: [{ vin: { in: vins } }, { floorPlanNumber: { in: numbers } }, { floorPlanPayoff: { gt: 0 } }],
+    },
+    select: {
+      id: true,
+      vin: true,
+      status: true,
+      floorPlanLender: true,
+      floorPlanNumber: true,
+      floorPlanPayoff: true,
+      floorPlanInterestRate: true,
+    },
+  })
+
+  const { matches, discrepancies } = reconcileStatement(mapping.lender, lines, units)
+  const unitByRow = new Map(matches.map((match) => [match.rowNumber, match.rvUnitId]))
+
+  const statement = await prisma.floorPlanStatement.create({
+    data: {
+      dealerId,
+      lender: mapping.lender,
+      statementDate: input.statementDate,
+      fileName: input.fileName || null,
+      lineCount: lines.length,
+      matchedCount: matches.length,
+      importedById,
+      lines: {
+        create: lines.map((line) => ({
+          rowNumber: line.rowNumber,
+          vin: line.vin,
+          floorPlanNumber: line.floorPlanNumber,
+          payoff: line.payoff,
+          interestRate: line.interestRate,
+          rvUnitId: unitByRow.get(line.rowNumber) ?? null,
+        })),
+      },
+    },
+    include: { lines: { select: { id: true, rowNumber: true } } },
+  })
+
+  const lineIdByRow = new Map(statement.lines.map((line) => [line.rowNumber, line.id]))
+
+  if (discrepancies.length > 0) {
+    await prisma.floorPlanDiscrepancy.createMany({
+      data: discrepancies.map((discrepancy) => ({
+        statementId: statement.id,
+        lineId: discrepancy.rowNumber !== null ? lineIdByRow.get(discrepancy.rowNumber) ?? null : null,
+        rvUnitId: discrepancy.rvUnitId,
+        type: discrepancy.type,
+        ourValue: discrepancy.ourValue,
+        lenderValue: discrepancy.lenderValue,
+      })),
+    })
+  }
+
+  return {
+    statementId: statement.id,
+    lineCount: lines.length,
+    matchedCount: matches.length,
+    discrepancyCount: discrepancies.length,
+    skippedRows: errors,
+  }
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+export async function getFloorPlanStatements(dealerId: string) {
+  return prisma.floorPlanStatement.findMany({
+    where: { dealerId },
+    include: { _count: { select: { discrepancies: { where: { status: 'open' } } } } },
+    orderBy: [{ statementDate: 'desc' }, { createdAt: 'desc' }],
+    take: 24,
+  })
+}
+
+export async function getStatementDiscrepancies(dealerId: string, statementId: string) {
+  const statement = await prisma.floorPlanStatement.findUnique({ where: { id: statementId } })
+  if (!statement || statement.dealerId !== dealerId) return []
+
+  return prisma.floorPlanDiscrepancy.findMany({
+    where: { statementId },
+    include: {
+      line: { select: { rowNumber: true, vin: true, floorPlanNumber: true } },
+      rvUnit: {
+        select: {
+          vin: true,
+          stockNumber: true,
+          status: true,
+          modelYear: true,
+          model: { select: { name: true, series: true } },
+        },
+      },
+    },
+    orderBy: [{ status: 'asc' }, { type: 'asc' }, { createdAt: 'asc' }],
+  })
+}
+
+// Apply the lender's figures to the unit, or dismiss the discrepancy
+export async function resolveFloorPlanDiscrepancy(
+  dealerId: string,
+  discrepancyId: string,
+  action: 'apply' | 'dismiss',
+  resolvedById?: string
+): Promise<void> {
+  const discrepancy = await prisma.floorPlanDiscrepancy.findUnique({
+    where: { id: discrepancyId },
+    include: {
+      statement: { select: { dealerId: true, lender: true, statementDate: true } },
+      line: { select: { floorPlanNumber: true } },
+      rvUnit: { include: { floorPlanAccount: true } },
+    },
+  })
+
+  if (!discrepancy || discrepancy.statement.dealerId !== dealerId) {
+    throw new Error('Discrepancy not found')
+  }
+  if (discrepancy.status !== 'open') {
+    throw new Error('Discrepancy has already been handled')
+  }
+
+  let resolution = 'Dismissed'
+
+  if (action === 'apply') {
+    const unit = discrepancy.rvUnit
+    if (!unit) {
+      throw new Error('This line does not match a unit; it can only be dismissed')
+    }
+
+    const statementLabel = `${discrepancy.statement.lender} statement ${discrepancy.statement.statementDate
+      .toISOString()
+      .slice(0, 10)}`
+    const account = unit.floorPlanAccount?.status === 'active' ? unit.floorPlanAccount : null
+    const lenderValue = discrepancy.lenderValue ?? 0
+
+    switch (discrepancy.type as DiscrepancyType) {
+      case 'sold_on_statement':
+        await clearUnitFloorPlan(unit.id, resolvedById, `Paid off per ${statementLabel}`)
+        resolution = 'Recorded payoff'
+        break
+      case 'missing_from_statement':
+        await clearUnitFloorPlan(unit.id, resolvedById, `Not on ${statementLabel}`)
+        resolution = 'Cleared floor plan'
+        break
+      case 'payoff_mismatch':
+        if (lenderValue <= 0) {
+          await clearUnitFloorPlan(unit.id, resolvedById, `Paid off per ${statementLabel}`)
+        } else if (account) {
+          await adjustFloorPlanAccount(account.id, { balance: lenderValue })
+        } else {
+          await prisma.rVUnit.update({
+            where: { id: unit.id },
+            data: {
+              floorPlanPayoff: lenderValue,
+              floorPlanLender: unit.floorPlanLender ?? discrepancy.statement.lender,
+              floorPlanNumber: unit.floorPlanNumber ?? discrepancy.line?.floorPlanNumber ?? null,
+            },
+          })
+        }
+        resolution = `Payoff set to $${lenderValue.toFixed(2)}`
+        break
+      case 'rate_mismatch':
+        if (account) {
+          await adjustFloorPlanAccount(account.id, { interestRate: lenderValue })
+        } else {
+          await prisma.rVUnit.update({ where: { id: unit.id }, data: { floorPlanInterestRate: lenderValue } })
+        }
+        resolution = `Rate set to ${lenderValue}%`
+        break
+      default:
+        throw new Error('This discrepancy can only be dismissed')
+    }
+  }
+
+  await prisma.floorPlanDiscrepancy.update({
+    where: { id: discrepancy.id },
+    data: {
+      status: action === 'apply' ? 'resolved' : 'dismissed',
+      resolution,
+      resolvedById,
+      resolvedAt: new Date(),
+    },
+  })
+}
@@ -0,0 +1,358 @@
+import { prisma } from '@/lib/prisma'
+import {
+  buildCurtailmentSchedule,
+  getAccrualDays,
+  getDailyInterest,
+  getNextCurtailment,
+  getOutstandingCurtailments,
+  parseCurtailmentRules,
+  startOfUtcDay,
+  type OutstandingCurtailment,
+} from '@/lib/floor-plan'
+import type {
+  FloorPlanProgramInput,
+  FloorPlanAccountInput,
+  FloorPlanPaymentInput,
+} from '@/lib/validations/floor-plan'
+
+type AccountForSchedule = {
+  principal: number
+  balance: number
+  fundedDate: Date
+  program: { curtailmentRules: string }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function getAccountCurtailments(account: AccountForSchedule): OutstandingCurtailment[] {
+  const schedule = buildCurtailmentSchedule(
+    account.principal,
+    account.fundedDate,
+    parseCurtailmentRules(account.program.curtailmentRules)
+  )
+  return getOutstandingCurtailments(schedule, account.principal - account.balance)
+}
+
+// Keep the unit's floor-plan fields in step with its account so inventory
+// screens and the exposure report show the live balance
+async function syncUnitFloorPlan(accountId: string): Promise<void> {
+  const account = await prisma.floorPlanAccount.findUnique({
+    where: { id: accountId },
+    include: { program: true },
+  })
+  if (!account) return
+
+  const next =
+    account.status === 'active'
+      ? getNextCurtailment(
+          buildCurtailmentSchedule(account.principal, account.fundedDate, parseCurtailmentRules(account.program.curtailmentRules)),
+          account.principal - account.balance
+        )
+      : null
+
+  await prisma.rVUnit.update({
+    where: { id: account.rvUnitId },
+    data: {
+      floorPlanLender: account.program.lender,
+      floorPlanNumber: account.accountNumber,
+      floorPlanPayoff: account.status === 'active' ? account.balance : 0,
+      floorPlanDueDate: next?.dueDate ?? null,
+      floorPlanInterestRate: account.interestRate,
+    },
+  })
+}
+
+// ============================================================================
+// PROGRAMS
+// ============================================================================
+
+export async function getFloorPlanPrograms(dealerId: string) {
+  return prisma.floorPlanProgram.findMany({
+    where: { dealerId },
+    include: { _count: { select: { accounts: { where: { status: 'active' } } } } },
+    orderBy: [{ lender: 'asc' }, { name: 'asc' }],
+  })
+}
+
+export async function saveFloorPlanProgram(dealerId: string, input: FloorPlanProgramInput) {
+  const data = {
+    lender: input.lender.trim(),
+    name: input.name.trim(),
+    interestRate: input.interestRate,
+    curtailmentRules: JSON.stringify(input.curtailmentRules),
+    isActive: input.isActive,
+  }
+
+  if (input.id) {
+    const existing = await prisma.floorPlanProgram.findUnique({ where: { id: input.id } })
+    if (!existing || existing.dealerId !== dealerId) {
+      throw new Error('Program not found')
+    }
+    return prisma.floorPlanProgram.update({ where: { id: input.id }, data })
+  }
+
+  return prisma.floorPlanProgram.create({ data: { dealerId, ...data } })
+}
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+// Put a unit on a floor-plan program
+export async function openFloorPlanAccount(dealerId: string, input: FloorPlanAccountInput) {
+  const [unit, program] = await Promise.all([
+    prisma.rVUnit.findUnique({ where: { id: input.rvUnitId }, include: { floorPlanAccount: true } }),
+    prisma.floorPlanProgram.findUnique({ where: { id: input.programId } }),
+  ])
+
+  if (!unit || unit.dealerId !== dealerId) {
+    throw new Error('Unit not found')
+  }
+  if (unit.floorPlanAccount) {
+    throw new Error('Unit already has a floor-plan account')
+  }
+  if (!program || program.dealerId !== dealerId || !program.isActive) {
+    throw new Error('Floor-plan program not found')
+  }
+
+  const account = await prisma.floorPlanAccount.create({
+    data: {
+      dealerId,
+      rvUnitId: unit.id,
+      programId: program.id,
+      accountNumber: input.accountNumber || null,
+      principal: input.principal,
+      balance: input.principal,
+      interestRate: input.interestRate ?? program.interestRate,
+      fundedDate: startOfUtcDay(input.fundedDate),
+    },
+  })
+
+  await accrueAccountInterest(account.id)
+  await syncUnitFloorPlan(account.id)
+
+  return account
+}
+
+// Write daily accrual entries for an account up to (not including) asOf
+export async function accrueAccountInterest(accountId: string, asOf: Date = new Date()): Promise<number> {
+  const account = await prisma.floorPlanAccount.findUnique({ where: { id: accountId } })
+  if (!account || account.status !== 'active') return 0
+
+  const days = getAccrualDays(account.fundedDate, account.interestAccruedThrough, asOf)
+  if (days.length === 0) return 0
+
+  const dailyAmount = getDailyInterest(account.balance, account.interestRate)
+  const total = roundCents(dailyAmount * days.length)
+
+  await prisma.$transaction([
+    prisma.floorPlanInterestAccrual.createMany({
+      data: days.map((date) => ({
+        accountId: account.id,
+        date,
+        balance: account.balance,
+        rate: account.interestRate,
+        amount: dailyAmount,
+      })),
+    }),
+    prisma.floorPlanAccount.update({
+      where: { id: account.id },
+      data: {
+        interestAccruedThrough: days[days.length - 1],
+        totalInterestAccrued: { increment: total },
+      },
+    }),
+  ])
+
+  return total
+}
+
+// Accrue interest on every active account, optionally for one dealer
+export async function accrueFloorPlanInterest(
+  asOf: Date = new Date(),
+  dealerId?: string
+): Promise<{ accounts: number; interest: number }> {
+  const accounts = await prisma.floorPlanAccount.findMany({
+    where: { status: 'active', ...(dealerId ? { dealerId } : {}) },
+    select: { id: true },
+  })
+
+  let interest = 0
+  for (const account of accounts) {
+    interest += await accrueAccountInterest(account.id, asOf)
+  }
+
+  return { accounts: accounts.length, interest: roundCents(interest) }
+}
+
+// Record a curtailment, interest or payoff payment against an account
+export async function recordFloorPlanPayment(
+  dealerId: string,
+  input: FloorPlanPaymentInput,
+  recordedById?: string
+) {
+  const paidAt = input.paidAt ?? new Date()
+
+  const existing = await prisma.floorPlanAccount.findUnique({ where: { id: input.accountId } })
+  if (!existing || existing.dealerId !== dealerId) {
+    throw new Error('Floor-plan account not found')
+  }
+  if (existing.status !== 'active') {
+    throw new Error('Account is already paid off')
+  }
+
+  // Interest up to the payment day is charged on the old balance
+  await accrueAccountInterest(existing.id, paidAt)
+  const account = await prisma.floorPlanAccount.findUniqueOrThrow({ where: { id: existing.id } })
+
+  const unpaidInterest = roundCents(account.totalInterestAccrued - account.totalInterestPaid)
+  const isPayoff = input.type === 'payoff'
+  const principalAmount = isPayoff ? account.balance : roundCents(input.principalAmount ?? 0)
+  const interestAmount = isPayoff ? Math.max(unpaidInterest, 0) : roundCents(input.interestAmount ?? 0)
+
+  if (principalAmount > account.balance + 0.005) {
+    throw new Error(`Payment exceeds the remaining balance of $${account.balance.toFixed(2)}`)
+  }
+  if (principalAmount <= 0 && interestAmount <= 0) {
+    throw new Error('Enter a principal or interest amount')
+  }
+
+  const balance = roundCents(account.balance - principalAmount)
+  const paidOff = balance <= 0
+
+  const [payment] = await prisma.$transaction([
+    prisma.floorPlanPayment.create({
+      data: {
+        accountId: account.id,
+        type: paidOff ? 'payoff' : input.type,
+        principalAmount,
+        interestAmount,
+        paidAt,
+        reference: input.reference || null,
+        note: input.note || null,
+        recordedById,
+      },
+    }),
+    prisma.floorPlanAccount.update({
+      where: { id: account.id },
+      data: {
+        balance: Math.max(balance, 0),
+        totalInterestPaid: { increment: interestAmount },
+        ...(paidOff ? { status: 'paid_off', paidOffAt: paidAt } : {}),
+      },
+    }),
+  ])
+
+  await syncUnitFloorPlan(account.id)
+
+  return payment
+}
+
+// Pay off a unit's floor plan when it is sold; a no-op for units that are not floored
+export async function payOffUnitFloorPlan(
+  rvUnitId: string,
+  recordedById?: string,
+  note?: string
+): Promise<boolean> {
+  const account = await prisma.floorPlanAccount.findUnique({ where: { rvUnitId } })
+  if (!account || account.status !== 'active') return false
+
+  await recordFloorPlanPayment(
+    account.dealerId,
+    { accountId: account.id, type: 'payoff', note: note ?? 'Paid off on sale' },
+    recordedById
+  )
+
+  return true
+}
+
+// Correct an account's balance or rate to the lender's figures. Interest up to
+// today is accrued on the old values first.
+export async function adjustFloorPlanAccount(
+  accountId: string,
+  changes: { balance?: number; interestRate?: number }
+) {
+  await accrueAccountInterest(accountId)
+
+  const account = await prisma.floorPlanAccount.findUniqueOrThrow({ where: { id: accountId } })
+  const balance = changes.balance !== undefined ? roundCents(changes.balance) : account.balance
+
+  const updated = await prisma.floorPlanAccount.update({
+    where: { id: accountId },
+    data: {
+      balance,
+      // A lender balance above the original amount means more was advanced
+      principal: Math.max(account.principal, balance),
+      interestRate: changes.interestRate ?? account.interestRate,
+    },
+  })
+
+  await syncUnitFloorPlan(accountId)
+  return updated
+}
+
+// Take a unit off floor plan: pays off its account, or zeroes the unit's payoff
+// when it was only tracked on the unit itself
+export async function clearUnitFloorPlan(rvUnitId: string, recordedById?: string, note?: string): Promise<void> {
+  const paidOff = await payOffUnitFloorPlan(rvUnitId, recordedById, note)
+  if (paidOff) return
+
+  await prisma.rVUnit.update({
+    where: { id: rvUnitId },
+    data: { floorPlanPayoff: 0, floorPlanDueDate: null },
+  })
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+export type UpcomingCurtailment = OutstandingCurtailment & {
+  accountId: string
+  rvUnitId: string
+  vin: string
+  stockNumber: string | null
+  unitName: string
+  lender: string
+}
+
+// Every unpaid curtailment on the dealer's active accounts
+export async function getDealerCurtailments(dealerId: string): Promise<UpcomingCurtailment[]> {
+  const accounts = await prisma.floorPlanAccount.findMany({
+    where: { dealerId, status: 'active' },
+    include: {
+      program: { select: { lender: true, curtailmentRules: true } },
+      rvUnit: {
+        select: { id: true, vin: true, stockNumber: true, modelYear: true, model: { select: { name: true, series: true } } },
+      },
+    },
+  })
+
+  return accounts.flatMap((account) =>
+    getAccountCurtailments(account).map((curtailment) => ({
+      ...curtailment,
+      accountId: account.id,
+      rvUnitId: account.rvUnit.id,
+      vin: account.rvUnit.vin,
+      stockNumber: account.rvUnit.stockNumber,
+      unitName: `${account.rvUnit.modelYear} ${account.rvUnit.model.series} ${account.rvUnit.model.name}`,
+      lender: account.program.lender,
+    }))
+  )
+}
+
+// Interest accrued and paid per financed unit, including paid-off units
+export async function getUnitInterestSummary(dealerId: string) {
+  return prisma.floorPlanAccount.findMany({
+    where: { dealerId },
+    include: {
+      program: { select: { lender: true, name: true } },
+      rvUnit: {
+        select: { vin: true, stockNumber: true, status: true, modelYear: true, model: { select: { name: true, series: true } } },
+      },
+    },
+    orderBy: { totalInterestPaid: 'desc' },
+  })
+}
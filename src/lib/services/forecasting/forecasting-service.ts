@@ -68,7 +68,7 @@ export async function getHistoricalDemand(
 
   const whereClause: Record<string, unknown> = {
     dealerId,
-    status: { in: ['confirmed', 'processing', 'shipped', 'delivered'] },
+    status: { in: ['confirmed', 'processing', 'partially_shipped', 'shipped', 'delivered'] },
     submittedAt: { gte: startDate },
   };
 
@@ -955,7 +955,7 @@ export async function getProjectedRebate(
   const orders = await prisma.order.findMany({
     where: {
       dealerId,
-      status: { in: ['delivered', 'shipped', 'confirmed', 'processing'] },
+      status: { in: ['delivered', 'shipped', 'partially_shipped', 'confirmed', 'processing'] },
       createdAt: { gte: periodStart, lte: now },
     },
     include: {
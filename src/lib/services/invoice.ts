@@ -2,6 +2,10 @@
 
 import { prisma } from '@/lib/prisma'
 import { nanoid } from 'nanoid'
+import { formatTaxRate, parseTaxBreakdown, type TaxQuote } from '@/lib/tax'
+import { prorateTaxQuote, splitShipmentCharges } from '@/lib/order-shipments'
+import { getInvoiceBalance } from '@/lib/order-returns'
+import { buildArAging, formatPaymentTerms } from '@/lib/credit'
 
 // Invoice status types
 export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled'
@@ -11,14 +15,18 @@ export type InvoiceData = {
   invoiceNumber: string
   orderId: string
   orderNumber: string
+  shipmentNumber: string | null
   dealerId: string
   dealerName: string
   dealerCode: string
   status: InvoiceStatus
   subtotal: number
   taxAmount: number
+  taxBreakdown: TaxQuote | null
   shippingAmount: number
   totalAmount: number
+  creditedAmount: number // Credit memos applied, e.g. from returns
+  balanceDue: number
   dueDate: string | null
   paidDate: string | null
   items: Array<{
@@ -26,6 +34,7 @@ export type InvoiceData = {
     sku: string
     quantity: number
     unitPrice: number
+    listPrice?: number | null // Base price when the dealer paid a tier or contract price
     totalPrice: number
   }>
   billingAddress: {
@@ -74,7 +83,7 @@ export async function createInvoiceFromOrder(
           },
         },
         dealer: {
-          select: { id: true, name: true, code: true },
+          select: { id: true, name: true, code: true, paymentTermsDays: true },
         },
       },
     })
@@ -85,16 +94,23 @@ export async function createInvoiceFromOrder(
 
     // Check if invoice already exists for this order
     const existingInvoice = await prisma.invoice.findFirst({
-      where: { orderId },
+      where: { orderId, shipmentId: null },
     })
 
     if (existingInvoice) {
       return { success: true, invoiceId: existingInvoice.id }
     }
 
-    // Calculate due date (net 30 by default)
+    const shipmentInvoices = await prisma.invoice.count({
+      where: { orderId, shipmentId: { not: null }, status: { not: 'cancelled' } },
+    })
+    if (shipmentInvoices > 0) {
+      return { success: false, error: 'This order is being invoiced per shipment' }
+    }
+
+    // Due date follows the dealer's payment terms
     const dueDate = new Date()
-    dueDate.setDate(dueDate.getDate() + 30)
+    dueDate.setDate(dueDate.getDate() + order.dealer.paymentTermsDays)
 
     // Create the invoice
     const invoice = await prisma.invoice.create({
@@ -105,18 +121,20 @@ export async function createInvoiceFromOrder(
         status: 'sent',
         subtotal: order.subtotal,
         taxAmount: order.taxAmount,
+        taxBreakdown: order.taxBreakdown,
         shippingAmount: order.shippingAmount,
         totalAmount: order.totalAmount,
         dueDate,
         billingAddress: order.billingAddress || order.shippingAddress,
         shippingAddress: order.shippingAddress,
-        paymentTerms: 'Net 30',
+        paymentTerms: formatPaymentTerms(order.dealer.paymentTermsDays),
         items: JSON.stringify(
-          order.items.map((item: { product: { name: string; sku: string }; quantity: number; unitPrice: number; totalPrice: number }) => ({
+          order.items.map((item: { product: { name: string; sku: string }; quantity: number; unitPrice: number; listPrice: number | null; totalPrice: number }) => ({
             description: item.product.name,
             sku: item.product.sku,
             quantity: item.quantity,
             unitPrice: item.unitPrice,
+            listPrice: item.listPrice,
             totalPrice: item.totalPrice,
           }))
         ),
@@ -133,6 +151,111 @@ export async function createInvoiceFromOrder(
   }
 }
 
+// Create invoice for a single shipment of an order
+export async function createInvoiceFromShipment(
+  shipmentId: string
+): Promise<{ success: boolean; invoiceId?: string; error?: string }> {
+  try {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: {
+        items: {
+          include: {
+            orderItem: {
+              include: {
+                product: {
+                  select: { name: true, sku: true },
+                },
+              },
+            },
+          },
+        },
+        order: {
+          include: {
+            dealer: { select: { paymentTermsDays: true } },
+          },
+        },
+      },
+    })
+
+    if (!shipment) {
+      return { success: false, error: 'Shipment not found' }
+    }
+
+    const existingInvoice = await prisma.invoice.findFirst({
+      where: { shipmentId },
+    })
+
+    if (existingInvoice) {
+      return { success: true, invoiceId: existingInvoice.id }
+    }
+
+    const { order } = shipment
+    const billedInvoices = await prisma.invoice.findMany({
+      where: { orderId: order.id, status: { not: 'cancelled' } },
+      select: { shipmentId: true, subtotal: true, taxAmount: true, shippingAmount: true },
+    })
+
+    if (billedInvoices.some((invoice) => invoice.shipmentId === null)) {
+      return { success: false, error: 'This order has already been invoiced in full' }
+    }
+
+    const items = shipment.items.map((line) => ({
+      description: line.orderItem.product.name,
+      sku: line.orderItem.product.sku,
+      quantity: line.quantity,
+      unitPrice: line.orderItem.unitPrice,
+      listPrice: line.orderItem.listPrice,
+      totalPrice: line.quantity * line.orderItem.unitPrice,
+    }))
+
+    const charges = splitShipmentCharges({
+      order,
+      shipmentSubtotal: items.reduce((sum, item) => sum + item.totalPrice, 0),
+      billed: billedInvoices.reduce(
+        (sum, invoice) => ({
+          subtotal: sum.subtotal + invoice.subtotal,
+          taxAmount: sum.taxAmount + invoice.taxAmount,
+          shippingAmount: sum.shippingAmount + invoice.shippingAmount,
+        }),
+        { subtotal: 0, taxAmount: 0, shippingAmount: 0 }
+      ),
+    })
+
+    const orderTax = parseTaxBreakdown(order.taxBreakdown)
+
+    // Due date follows the dealer's payment terms
+    const dueDate = new Date()
+    dueDate.setDate(dueDate.getDate() + order.dealer.paymentTermsDays)
+
+    const invoice = await prisma.invoice.create({
+      data: {
+        invoiceNumber: generateInvoiceNumber(),
+        orderId: order.id,
+        shipmentId: shipment.id,
+        dealerId: order.dealerId,
+        status: 'sent',
+        ...charges,
+        taxBreakdown: orderTax ? JSON.stringify(prorateTaxQuote(orderTax, charges.taxAmount)) : null,
+        dueDate,
+        billingAddress: order.billingAddress || order.shippingAddress,
+        shippingAddress: order.shippingAddress,
+        paymentTerms: formatPaymentTerms(order.dealer.paymentTermsDays),
+        notes: `Shipment ${shipment.shipmentNumber}`,
+        items: JSON.stringify(items),
+      },
+    })
+
+    return { success: true, invoiceId: invoice.id }
+  } catch (error) {
+    console.error('Failed to create shipment invoice:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create invoice',
+    }
+  }
+}
+
 // Get invoice by ID
 export async function getInvoiceById(invoiceId: string): Promise<InvoiceData | null> {
   const invoice = await prisma.invoice.findUnique({
@@ -141,6 +264,9 @@ export async function getInvoiceById(invoiceId: string): Promise<InvoiceData | n
       order: {
         select: { orderNumber: true },
       },
+      shipment: {
+        select: { shipmentNumber: true },
+      },
       dealer: {
         select: { id: true, name: true, code: true },
       },
@@ -160,6 +286,9 @@ export async function getInvoiceByNumber(invoiceNumber: string): Promise<Invoice
       order: {
         select: { orderNumber: true },
       },
+      shipment: {
+        select: { shipmentNumber: true },
+      },
       dealer: {
         select: { id: true, name: true, code: true },
       },
@@ -196,6 +325,9 @@ export async function getDealerInvoices(
         order: {
           select: { orderNumber: true },
         },
+        shipment: {
+          select: { shipmentNumber: true },
+        },
         dealer: {
           select: { id: true, name: true, code: true },
         },
@@ -246,7 +378,7 @@ export async function updateInvoiceStatus(
 
 // Get invoice statistics for dealer
 export async function getInvoiceStats(dealerId: string) {
-  const [total, pending, overdue, totalAmount] = await Promise.all([
+  const [total, pending, overdue, totalAmount, openInvoices] = await Promise.all([
     prisma.invoice.count({ where: { dealerId } }),
     prisma.invoice.count({
       where: { dealerId, status: { in: ['sent', 'draft'] } },
@@ -258,6 +390,10 @@ export async function getInvoiceStats(dealerId: string) {
       where: { dealerId, status: { not: 'cancelled' } },
       _sum: { totalAmount: true },
     }),
+    prisma.invoice.findMany({
+      where: { dealerId, status: { notIn: ['paid', 'cancelled'] } },
+      select: { status: true, totalAmount: true, creditedAmount: true, dueDate: true, paidDate: true },
+    }),
   ])
 
   return {
@@ -265,6 +401,7 @@ export async function getInvoiceStats(dealerId: string) {
     pendingInvoices: pending,
     overdueInvoices: overdue,
     totalAmount: totalAmount._sum.totalAmount || 0,
+    aging: buildArAging(openInvoices),
   }
 }
 
@@ -274,13 +411,16 @@ function formatInvoice(invoice: {
   invoiceNumber: string
   orderId: string
   order: { orderNumber: string }
+  shipment: { shipmentNumber: string } | null
   dealerId: string
   dealer: { id: string; name: string; code: string }
   status: string
   subtotal: number
   taxAmount: number
+  taxBreakdown: string | null
   shippingAmount: number
   totalAmount: number
+  creditedAmount: number
   dueDate: Date | null
   paidDate: Date | null
   items: string | null
@@ -313,14 +453,18 @@ function formatInvoice(invoice: {
     invoiceNumber: invoice.invoiceNumber,
     orderId: invoice.orderId,
     orderNumber: invoice.order.orderNumber,
+    shipmentNumber: invoice.shipment?.shipmentNumber ?? null,
     dealerId: invoice.dealerId,
     dealerName: invoice.dealer.name,
     dealerCode: invoice.dealer.code,
     status: invoice.status as InvoiceStatus,
     subtotal: invoice.subtotal,
     taxAmount: invoice.taxAmount,
+    taxBreakdown: parseTaxBreakdown(invoice.taxBreakdown),
     shippingAmount: invoice.shippingAmount,
     totalAmount: invoice.totalAmount,
+    creditedAmount: invoice.creditedAmount,
+    balanceDue: getInvoiceBalance(invoice),
     dueDate: invoice.dueDate?.toISOString() || null,
     paidDate: invoice.paidDate?.toISOString() || null,
     items,
@@ -440,6 +584,12 @@ export async function generateInvoiceHtml(invoiceId: string): Promise<string | n
         <label>Order Number</label>
         <span>${invoice.orderNumber}</span>
       </div>
+      ${invoice.shipmentNumber ? `
+      <div class="meta-item">
+        <label>Shipment</label>
+        <span>${invoice.shipmentNumber}</span>
+      </div>
+      ` : ''}
       <div class="meta-item">
         <label>Payment Terms</label>
         <span>${invoice.paymentTerms}</span>
@@ -462,7 +612,7 @@ export async function generateInvoiceHtml(invoiceId: string): Promise<string | n
             <td>${item.description}</td>
             <td>${item.sku}</td>
             <td>${item.quantity}</td>
-            <td>$${item.unitPrice.toFixed(2)}</td>
+            <td>$${item.unitPrice.toFixed(2)}${item.listPrice && item.listPrice > item.unitPrice ? `<br><small style="text-decoration: line-through; color: #666;">$${item.listPrice.toFixed(2)}</small>` : ''}</td>
             <td>$${item.totalPrice.toFixed(2)}</td>
           </tr>
         `).join('')}
@@ -474,17 +624,40 @@ export async function generateInvoiceHtml(invoiceId: string): Promise<string | n
         <span>Subtotal</span>
         <span>$${invoice.subtotal.toFixed(2)}</span>
       </div>
-      <div class="totals-row">
-        <span>Tax</span>
-        <span>$${invoice.taxAmount.toFixed(2)}</span>
-      </div>
+      ${invoice.taxBreakdown && invoice.taxBreakdown.lines.length > 0 ? invoice.taxBreakdown.lines.map((line) => `
+        <div class="totals-row">
+          <span>${line.jurisdiction} (${formatTaxRate(line.rate)})</span>
+          <span>$${line.taxAmount.toFixed(2)}</span>
+        </div>
+      `).join('') : `
+        <div class="totals-row">
+          <span>Tax</span>
+          <span>$${invoice.taxAmount.toFixed(2)}</span>
+        </div>
+      `}
+      ${invoice.taxBreakdown?.exemption ? `
+        <div class="totals-row">
+          <span>Tax exempt (${invoice.taxBreakdown.exemption.type} cert. ${invoice.taxBreakdown.exemption.certificateNumber})</span>
+          <span></span>
+        </div>
+      ` : ''}
       <div class="totals-row">
         <span>Shipping</span>
         <span>${invoice.shippingAmount === 0 ? 'FREE' : '$' + invoice.shippingAmount.toFixed(2)}</span>
       </div>
+      ${invoice.creditedAmount > 0 ? `
+        <div class="totals-row">
+          <span>Total</span>
+          <span>$${invoice.totalAmount.toFixed(2)}</span>
+        </div>
+        <div class="totals-row">
+          <span>Credits Applied</span>
+          <span>-$${invoice.creditedAmount.toFixed(2)}</span>
+        </div>
+      ` : ''}
       <div class="totals-row total">
         <span>Total Due</span>
-        <span>$${invoice.totalAmount.toFixed(2)}</span>
+        <span>$${invoice.balanceDue.toFixed(2)}</span>
       </div>
     </div>
 
@@ -0,0 +1,268 @@
+import { hostname } from 'os'
+import { prisma } from '@/lib/prisma'
+import { getNextCronRun } from '@/lib/order-schedules'
+import { DEFAULT_MAX_ATTEMPTS, JOB_LOCK_TTL_MS, planNextJobRun } from '@/lib/jobs'
+import { JOB_DEFINITIONS, getJobDefinition } from '@/lib/services/scheduled-jobs'
+
+export type JobTrigger = 'schedule' | 'retry' | 'manual'
+
+export type JobRunResult = {
+  success: boolean
+  summary?: string
+  error?: string
+}
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000
+
+// Identifies this process in the job lock
+const INSTANCE_ID = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`
+
+// Create or update job rows from the registry. Rows for jobs that are no
+// longer registered are left alone so their history stays visible.
+export async function syncJobDefinitions(now: Date = new Date()): Promise<void> {
+  const existing = await prisma.scheduledJob.findMany()
+  const byKey = new Map(existing.map((job) => [job.key, job]))
+
+  for (const definition of JOB_DEFINITIONS) {
+    const job = byKey.get(definition.key)
+    const data = {
+      name: definition.name,
+      description: definition.description,
+      cronExpression: definition.cronExpression,
+      maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    }
+
+    if (!job) {
+      await prisma.scheduledJob.create({
+        data: { key: definition.key, ...data, nextRunAt: getNextCronRun(definition.cronExpression, now) },
+      })
+    } else if (job.cronExpression !== definition.cronExpression) {
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: { ...data, attempts: 0, nextRunAt: getNextCronRun(definition.cronExpression, now) },
+      })
+    } else if (job.name !== data.name || job.description !== data.description || job.maxAttempts !== data.maxAttempts) {
+      await prisma.scheduledJob.update({ where: { id: job.id }, data })
+    }
+  }
+}
+
+// Take the job lock unless another instance holds an unexpired one
+async function acquireJobLock(jobId: string, now: Date): Promise<boolean> {
+  const result = await prisma.scheduledJob.updateMany({
+    where: { id: jobId, OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+    data: { lockedBy: INSTANCE_ID, lockedUntil: new Date(now.getTime() + JOB_LOCK_TTL_MS) },
+  })
+  return result.count === 1
+}
+
+// Push the lock out another TTL while this instance still holds it
+async function renewJobLock(jobId: string): Promise<boolean> {
+  const result = await prisma.scheduledJob.updateMany({
+    where: { id: jobId, lockedBy: INSTANCE_ID },
+    data: { lockedUntil: new Date(Date.now() + JOB_LOCK_TTL_MS) },
+  })
+  return result.count === 1
+}
+
+// Run one job now, whatever its schedule
+export async function runJob(
+  key: string,
+  options: { trigger?: JobTrigger; triggeredById?: string; now?: Date } = {}
+): Promise<JobRunResult> {
+  const now = options.now ?? new Date()
+  const trigger = options.trigger ?? 'manual'
+
+  const definition = getJobDefinition(key)
+  if (!definition) return { success: false, error: `Unknown job: ${key}` }
+
+  let job = await prisma.scheduledJob.findUnique({ where: { key } })
+  if (!job) {
+    await syncJobDefinitions(now)
+    job = await prisma.scheduledJob.findUniqueOrThrow({ where: { key } })
+  }
+
+  if (!(await acquireJobLock(job.id, now))) {
+    return { success: false, error: 'Job is already running' }
+  }
+
+  // A run left "running" past the lock TTL is from an instance that died
+  // holding the lock; live runs keep renewing it
+  await prisma.scheduledJobRun.updateMany({
+    where: { jobId: job.id, status: 'running', startedAt: { lt: new Date(now.getTime() - JOB_LOCK_TTL_MS) } },
+    data: { status: 'failed', error: 'Interrupted', finishedAt: now },
+  })
+
+  const startedAt = new Date()
+  const run = await prisma.scheduledJobRun.create({
+    data: {
+      jobId: job.id,
+      trigger,
+      attempt: job.attempts + 1,
+      triggeredById: options.triggeredById,
+      startedAt,
+    },
+  })
+  await prisma.scheduledJob.update({
+    where: { id: job.id },
+    data: { lastRunAt: startedAt, lastStatus: 'running' },
+  })
+
+  const jobId = job.id
+  let summary: string | undefined
+  let error: string | undefined
+
+  // Keep the lock alive for long runs
+  const heartbeat = setInterval(() => {
+    renewJobLock(jobId).catch((err) => console.error(`Failed to renew lock for job ${key}:`, err))
+  }, JOB_LOCK_TTL_MS / 3)
+
+  try {
+    summary = await definition.handler({
+      now,
+      cursor: job.cursor,
+      saveCursor: async (cursor) => {
+        // Checkpoints also renew the lock; stop if another instance has taken it
+        const result = await prisma.scheduledJob.updateMany({
+          where: { id: jobId, lockedBy: INSTANCE_ID },
+          data: { cursor, lockedUntil: new Date(Date.now() + JOB_LOCK_TTL_MS) },
+        })
+        if (result.count === 0) throw new Error('Job lock was lost to another instance')
+      },
+    })
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+    console.error(`Scheduled job ${key} failed:`, err)
+  } finally {
+    clearInterval(heartbeat)
+  }
+
+  const finishedAt = new Date()
+  const durationMs = finishedAt.getTime() - startedAt.getTime()
+  const succeeded = error === undefined
+
+  // Manual runs leave the schedule alone, except that a success clears a pending retry
+  const next =
+    trigger === 'manual'
+      ? succeeded
+        ? {
+            attempts: 0,
+            nextRunAt: job.attempts > 0 ? getNextCronRun(job.cronExpression, finishedAt) : job.nextRunAt,
+          }
+        : { attempts: job.attempts, nextRunAt: job.nextRunAt }
+      : planNextJobRun({
+          cronExpression: job.cronExpression,
+          now: finishedAt,
+          succeeded,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+        })
+
+  await prisma.$transaction([
+    prisma.scheduledJobRun.update({
+      where: { id: run.id },
+      data: {
+        status: succeeded ? 'success' : 'failed',
+        summary: summary ?? null,
+        error: error ?? null,
+        finishedAt,
+        durationMs,
+      },
+    }),
+    // Only the lock holder updates the job; another instance may have taken over
+    prisma.scheduledJob.updateMany({
+      where: { id: jobId, lockedBy: INSTANCE_ID },
+      data: {
+        lastStatus: succeeded ? 'success' : 'failed',
+        lastDurationMs: durationMs,
+        lastError: error ?? null,
+        attempts: next.attempts,
+        nextRunAt: next.nextRunAt,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    }),
+  ])
+
+  return succeeded ? { success: true, summary } : { success: false, error }
+}
+
+// Run every enabled job whose next run time has passed
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  const due = await prisma.scheduledJob.findMany({
+    where: {
+      isEnabled: true,
+      nextRunAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    orderBy: { nextRunAt: 'asc' },
+  })
+
+  let ran = 0
+  for (const job of due) {
+    if (!getJobDefinition(job.key)) continue
+    await runJob(job.key, { trigger: job.attempts > 0 ? 'retry' : 'schedule', now })
+    ran++
+  }
+
+  return ran
+}
+
+const globalForScheduler = globalThis as unknown as { jobSchedulerStarted?: boolean }
+
+// Poll for due jobs in this process. Safe to call more than once; every
+// instance may run the loop because each job run takes the database lock.
+export function startJobScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+  if (globalForScheduler.jobSchedulerStarted) return
+  globalForScheduler.jobSchedulerStarted = true
+
+  let ticking = false
+  const tick = async () => {
+    if (ticking) return
+    ticking = true
+    try {
+      await runDueJobs()
+    } catch (error) {
+      console.error('Job scheduler tick failed:', error)
+    } finally {
+      ticking = false
+    }
+  }
+
+  syncJobDefinitions()
+    .catch((error) => console.error('Failed to sync scheduled jobs:', error))
+    .finally(() => setInterval(tick, intervalMs))
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+export async function getScheduledJobs() {
+  await syncJobDefinitions()
+  return prisma.scheduledJob.findMany({ orderBy: { name: 'asc' } })
+}
+
+export async function getJobRuns(jobId: string, take: number = 25) {
+  return prisma.scheduledJobRun.findMany({
+    where: { jobId },
+    orderBy: { startedAt: 'desc' },
+    take,
+  })
+}
+
+export async function setJobEnabled(key: string, isEnabled: boolean) {
+  const job = await prisma.scheduledJob.findUnique({ where: { key } })
+  if (!job) throw new Error('Job not found')
+
+  return prisma.scheduledJob.update({
+    where: { key },
+    data: {
+      isEnabled,
+      // Re-enabling picks up from the next scheduled time rather than catching up
+      ...(isEnabled && !job.isEnabled
+        ? { attempts: 0, nextRunAt: getNextCronRun(job.cronExpression, new Date()) }
+        : {}),
+    },
+  })
+}
@@ -0,0 +1,307 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { auth } from '@/lib/auth'
+import { hasRole } from '@/lib/roles'
+import { releaseOrderItemAllocations } from '@/lib/order-allocation'
+import {
+  canApproveOrder,
+  getApprovalRequirement,
+  type ApprovalRequirement,
+} from '@/lib/order-approval'
+import { createAndEmitNotification } from '@/lib/notifications'
+import { checkDealerCredit } from '@/lib/services/credit'
+import type { ApprovalRuleFormInput, ApprovalDecisionInput } from '@/lib/validations/order-approval'
+
+const ADMIN_ROLES = ['super_admin', 'admin']
+
+export type ApprovalRule = {
+  id: string
+  name: string
+  condition: string
+  threshold: number | null
+  approverRole: string
+  isActive: boolean
+}
+
+export type ApprovalDecisionResult = {
+  success: boolean
+  status?: string
+  error?: string
+}
+
+type Approver = {
+  id: string
+  role: string
+  dealerId: string | null
+}
+
+// Get a dealer's approval rules
+export async function getApprovalRules(dealerId: string): Promise<ApprovalRule[]> {
+  return prisma.orderApprovalRule.findMany({
+    where: { dealerId },
+    select: {
+      id: true,
+      name: true,
+      condition: true,
+      threshold: true,
+      approverRole: true,
+      isActive: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+// Create or update one of a dealer's approval rules
+export async function saveApprovalRule(
+  dealerId: string,
+  input: ApprovalRuleFormInput
+): Promise<{ success: boolean; ruleId?: string; error?: string }> {
+  try {
+    const data = {
+      name: input.name.trim(),
+      condition: input.condition,
+      threshold: input.condition === 'amount_over' ? input.threshold ?? null : null,
+      approverRole: input.approverRole,
+      isActive: input.isActive,
+    }
+
+    if (input.id) {
+      const existing = await prisma.orderApprovalRule.findUnique({ where: { id: input.id } })
+      if (!existing || existing.dealerId !== dealerId) {
+        return { success: false, error: 'Rule not found' }
+      }
+
+      await prisma.orderApprovalRule.update({ where: { id: input.id }, data })
+      return { success: true, ruleId: input.id }
+    }
+
+    const rule = await prisma.orderApprovalRule.create({
+      data: { dealerId, ...data },
+    })
+
+    return { success: true, ruleId: rule.id }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save approval rule',
+    }
+  }
+}
+
+// Delete one of a dealer's approval rules
+export async function deleteApprovalRule(
+  dealerId: string,
+  ruleId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await prisma.orderApprovalRule.deleteMany({
+      where: { id: ruleId, dealerId },
+    })
+
+    if (result.count === 0) {
+      return { success: false, error: 'Rule not found' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete approval rule',
+    }
+  }
+}
+
+// Check a new order against the dealer's active rules
+export async function evaluateOrderApproval(
+  dealerId: string,
+  order: { totalAmount: number; poNumber?: string | null },
+  submitterRole: string | null
+): Promise<ApprovalRequirement> {
+  const rules = await prisma.orderApprovalRule.findMany({
+    where: { dealerId, isActive: true },
+  })
+
+  return getApprovalRequirement(rules, order, submitterRole)
+}
+
+// Let everyone who can approve the order know it is waiting on them
+export async function notifyOrderApprovers(
+  order: { id: string; orderNumber: string; dealerId: string; totalAmount: number },
+  approverRole: string,
+  reasons: string[]
+): Promise<void> {
+  const approvers = await prisma.user.findMany({
+    where:
+      approverRole === 'admin'
+        ? { role: { in: ADMIN_ROLES }, status: 'active' }
+        : { dealerId: order.dealerId, role: 'dealer_admin', status: 'active' },
+    select: { id: true },
+  })
+
+  await Promise.all(
+    approvers.map((approver) =>
+      createAndEmitNotification({
+        userId: approver.id,
+        type: 'order_approval',
+        title: `Order ${order.orderNumber} Needs Approval`,
+        body: `Order ${order.orderNumber} for $${order.totalAmount.toFixed(2)} is waiting for approval. ${reasons.join('; ')}.`,
+        data: { orderId: order.id, orderNumber: order.orderNumber },
+        priority: 'high',
+      })
+    )
+  )
+}
+
+// Orders waiting on this user's approval
+export async function getApprovalQueue(approver: Approver) {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'pending_approval',
+      ...(ADMIN_ROLES.includes(approver.role) ? {} : { dealerId: approver.dealerId ?? '' }),
+    },
+    include: {
+      dealer: { select: { name: true, code: true } },
+      submittedBy: { select: { firstName: true, lastName: true, email: true } },
+      items: { select: { quantity: true } },
+      statusHistory: {
+        where: { status: 'pending_approval' },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return orders.filter((order) => canApproveOrder(approver, order))
+}
+
+// The signed-in dealer admin or staff member deciding an approval
+async function getSessionApprover(): Promise<Approver | null> {
+  const session = await auth()
+  if (!session?.user || !hasRole(session.user.role, 'dealer_admin')) return null
+  return {
+    id: session.user.id,
+    role: session.user.role,
+    dealerId: session.user.dealerId || null,
+  }
+}
+
+// Approve or reject an order waiting in the approval queue, as the signed-in user
+export async function decideOrderApproval(input: ApprovalDecisionInput): Promise<ApprovalDecisionResult> {
+  try {
+    const approver = await getSessionApprover()
+    if (!approver) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: input.orderId },
+      include: { items: true },
+    })
+
+    if (!order || order.status !== 'pending_approval') {
+      return { success: false, error: 'Order is not waiting for approval' }
+    }
+
+    if (!canApproveOrder(approver, order)) {
+      return { success: false, error: 'You are not allowed to approve this order' }
+    }
+
+    const reason = input.reason?.trim()
+    let status: string
+    let note: string
+
+    if (input.action === 'reject') {
+      status = 'cancelled'
+      note = `Approval rejected: ${reason}`
+    } else {
+      // Approved orders still go through the dealer's credit check; the order
+      // already counts in open exposure while it waits, so leave it out
+      const credit = await checkDealerCredit(
+        order.dealerId,
+        order.totalAmount,
+        order.paymentMethod ?? undefined,
+        order.id
+      )
+      if (credit.decision === 'blocked') {
+        return { success: false, error: `Credit check failed: ${credit.reasons.join('; ')}` }
+      }
+      status = credit.decision === 'review' ? 'credit_hold' : 'submitted'
+      note = [
+        `Approved${reason ? `: ${reason}` : ''}`,
+        ...(status === 'credit_hold' ? [`Placed on credit hold: ${credit.reasons.join('; ')}`] : []),
+      ].join('. ')
+    }
+
+    const context = { orderId: order.id, orderNumber: order.orderNumber, userId: approver.id }
+
+    await prisma.$transaction(async (tx) => {
+      // Only one decision lands if an approve and a reject overlap
+      const decided = await tx.order.updateMany({
+        where: { id: order.id, status: 'pending_approval' },
+        data: {
+          status,
+          ...(status === 'cancelled' ? { cancelledAt: new Date() } : { submittedAt: new Date() }),
+        },
+      })
+      if (decided.count === 0) {
+        throw new Error('Order is not waiting for approval')
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          status,
+          note,
+          changedBy: approver.id,
+        },
+      })
+
+      // Stock held while the order waited goes back on the shelf
+      if (status === 'cancelled') {
+        for (const item of order.items) {
+          await releaseOrderItemAllocations(tx, item.id, context)
+        }
+      }
+    })
+
+    if (order.submittedById) {
+      createAndEmitNotification({
+        userId: order.submittedById,
+        type: 'order_approval',
+        title: `Order ${order.orderNumber} ${input.action === 'approve' ? 'Approved' : 'Rejected'}`,
+        body:
+          input.action === 'approve'
+            ? `Your order ${order.orderNumber} has been approved${status === 'credit_hold' ? ' and is on credit hold for review' : ''}.`
+            : `Your order ${order.orderNumber} was rejected: ${reason}`,
+        data: { orderId: order.id, orderNumber: order.orderNumber, status },
+      }).catch((err) => console.error('Failed to notify order submitter:', err))
+    }
+
+    try {
+      const { emitOrderUpdate } = await import('@/lib/services/realtime')
+      emitOrderUpdate(
+        {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          status,
+          previousStatus: order.status,
+          updatedBy: approver.id,
+        },
+        order.dealerId
+      )
+    } catch (e) {
+      // Don't fail the decision if real-time emission fails
+      console.error('Failed to emit real-time order update:', e)
+    }
+
+    return { success: true, status }
+  } catch (error) {
+    console.error('Failed to record approval decision:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record approval decision',
+    }
+  }
+}
@@ -0,0 +1,351 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import {
+  buildScheduleCron,
+  getAvailableByProduct,
+  getNextCronRun,
+  planScheduledRun,
+  repriceRunPlan,
+  summarizeRunPlan,
+} from '@/lib/order-schedules'
+import { createOrder, validateOrderItems } from '@/lib/services/order'
+import { getDealerPrices } from '@/lib/services/pricing'
+import { createAndEmitNotification } from '@/lib/notifications'
+import type { OrderScheduleInput } from '@/lib/validations/order-schedule'
+
+export type ScheduleRunStatus = 'submitted' | 'draft' | 'skipped' | 'failed'
+
+export type ScheduleRunResult = {
+  success: boolean
+  status?: ScheduleRunStatus
+  orderId?: string
+  orderNumber?: string
+  message?: string
+  error?: string
+}
+
+export type DueScheduleSummary = {
+  processed: number
+  submitted: number
+  drafts: number
+  skipped: number
+  failed: number
+}
+
+// Get a dealer's schedules with their latest runs
+export async function getDealerSchedules(dealerId: string) {
+  return prisma.orderSchedule.findMany({
+    where: { dealerId },
+    include: {
+      savedCart: { select: { id: true, name: true } },
+      owner: { select: { firstName: true, lastName: true } },
+      runs: {
+        include: { order: { select: { orderNumber: true, status: true } } },
+        orderBy: { runAt: 'desc' },
+        take: 10,
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+// Create or update a schedule; the next run is worked out from the cadence
+export async function saveOrderSchedule(
+  dealerId: string,
+  ownerId: string,
+  input: OrderScheduleInput
+): Promise<{ success: boolean; scheduleId?: string; error?: string }> {
+  try {
+    const savedCart = await prisma.cart.findUnique({ where: { id: input.savedCartId } })
+    if (!savedCart || !savedCart.isSaved || savedCart.dealerId !== dealerId) {
+      return { success: false, error: 'Saved cart not found' }
+    }
+
+    const cronExpression = buildScheduleCron(input)
+    const data = {
+      name: input.name.trim(),
+      savedCartId: input.savedCartId,
+      frequency: input.frequency,
+      dayOfWeek: input.frequency === 'weekly' ? input.dayOfWeek ?? 1 : null,
+      dayOfMonth: input.frequency === 'monthly' ? input.dayOfMonth ?? 1 : null,
+      cronExpression,
+      mode: input.mode,
+      paymentMethod: input.paymentMethod,
+      poPrefix: input.poPrefix?.trim() || null,
+      isActive: input.isActive,
+      nextRunAt: input.isActive ? getNextCronRun(cronExpression, new Date()) : null,
+    }
+
+    if (input.id) {
+      const existing = await prisma.orderSchedule.findUnique({ where: { id: input.id } })
+      if (!existing || existing.dealerId !== dealerId) {
+        return { success: false, error: 'Schedule not found' }
+      }
+
+      await prisma.orderSchedule.update({ where: { id: input.id }, data })
+      return { success: true, scheduleId: input.id }
+    }
+
+    const schedule = await prisma.orderSchedule.create({
+      data: { dealerId, ownerId, ...data },
+    })
+
+    return { success: true, scheduleId: schedule.id }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save schedule',
+    }
+  }
+}
+
+// Delete one of a dealer's schedules along with its run history
+export async function deleteOrderSchedule(
+  dealerId: string,
+  scheduleId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await prisma.orderSchedule.deleteMany({
+      where: { id: scheduleId, dealerId },
+    })
+
+    if (result.count === 0) {
+      return { success: false, error: 'Schedule not found' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete schedule',
+    }
+  }
+}
+
+function formatShippingAddress(
+  dealerName: string,
+  address: { street: string; street2: string | null; city: string; state: string; zipCode: string; country: string }
+): string {
+  return JSON.stringify({
+    name: dealerName,
+    street: address.street,
+    street2: address.street2 ?? undefined,
+    city: address.city,
+    state: address.state,
+    zipCode: address.zipCode,
+    country: address.country,
+  })
+}
+
+// Run one schedule now: check the saved cart's stock and prices, then place
+// the order or save it as a draft, and tell the owner what was left out
+export async function runOrderSchedule(
+  scheduleId: string,
+  now: Date = new Date()
+): Promise<ScheduleRunResult> {
+  const schedule = await prisma.orderSchedule.findUnique({
+    where: { id: scheduleId },
+    include: {
+      dealer: { select: { name: true, status: true } },
+      owner: { select: { id: true, role: true, status: true } },
+      savedCart: {
+        include: {
+          items: { include: { product: { select: { name: true, price: true } } } },
+        },
+      },
+    },
+  })
+
+  if (!schedule) {
+    return { success: false, error: 'Schedule not found' }
+  }
+
+  let result: ScheduleRunResult
+
+  try {
+    result = await placeScheduledOrder(schedule, now)
+  } catch (error) {
+    console.error('Scheduled order run failed:', error)
+    result = {
+      success: false,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Scheduled order run failed',
+    }
+  }
+
+  const status: ScheduleRunStatus = result.status ?? 'failed'
+  const message = result.message ?? result.error ?? null
+
+  await prisma.$transaction([
+    prisma.orderScheduleRun.create({
+      data: {
+        scheduleId: schedule.id,
+        status,
+        orderId: result.orderId,
+        message,
+        runAt: now,
+      },
+    }),
+    prisma.orderSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        lastRunAt: now,
+        nextRunAt: schedule.isActive ? getNextCronRun(schedule.cronExpression, now) : null,
+      },
+    }),
+  ])
+
+  // A clean submission needs no follow-up; anything else goes to the owner
+  if (status !== 'submitted' || result.message) {
+    const titles: Record<ScheduleRunStatus, string> = {
+      submitted: `Recurring Order ${result.orderNumber} Placed`,
+      draft: `Recurring Order ${result.orderNumber} Ready for Review`,
+      skipped: `Recurring Order "${schedule.name}" Skipped`,
+      failed: `Recurring Order "${schedule.name}" Failed`,
+    }
+
+    createAndEmitNotification({
+      userId: schedule.ownerId,
+      type: 'recurring_order',
+      title: titles[status],
+      body: message ?? `Schedule "${schedule.name}" ran.`,
+      data: { scheduleId: schedule.id, orderId: result.orderId, orderNumber: result.orderNumber },
+      priority: status === 'failed' || status === 'skipped' ? 'high' : 'normal',
+    }).catch((err) => console.error('Failed to notify schedule owner:', err))
+  }
+
+  return result
+}
+
+type ScheduleToRun = {
+  name: string
+  dealerId: string
+  mode: string
+  paymentMethod: string
+  poPrefix: string | null
+  dealer: { name: string; status: string }
+  owner: { id: string; role: string; status: string }
+  savedCart: {
+    items: Array<{
+      productId: string
+      quantity: number
+      unitPrice: number | null
+      product: { name: string; price: number }
+    }>
+  }
+}
+
+async function placeScheduledOrder(schedule: ScheduleToRun, now: Date): Promise<ScheduleRunResult> {
+  if (schedule.dealer.status !== 'active') {
+    return { success: false, status: 'failed', error: 'Dealer account is not active' }
+  }
+  if (schedule.owner.status !== 'active') {
+    return { success: false, status: 'failed', error: 'Schedule owner is no longer active' }
+  }
+
+  const lines = schedule.savedCart.items.map((item) => ({
+    productId: item.productId,
+    productName: item.product.name,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice ?? item.product.price,
+  }))
+
+  if (lines.length === 0) {
+    return { success: true, status: 'skipped', message: 'Saved cart is empty' }
+  }
+
+  const validation = await validateOrderItems(lines, schedule.dealerId)
+
+  const shortProductIds = validation.issues
+    .filter((issue) => issue.type === 'insufficient_stock')
+    .map((issue) => issue.productId)
+  const inventory = shortProductIds.length
+    ? await prisma.inventory.findMany({
+        where: { productId: { in: shortProductIds } },
+        select: { productId: true, quantity: true },
+      })
+    : []
+  const available = getAvailableByProduct(inventory)
+
+  const dealerPrices = await getDealerPrices(schedule.dealerId, lines)
+  const currentPrices: Record<string, number> = {}
+  for (const [productId, price] of Object.entries(dealerPrices)) {
+    currentPrices[productId] = price.unitPrice
+  }
+
+  const planned = planScheduledRun(lines, validation.issues, available, currentPrices)
+  const plannedPrices: Record<string, number> = {}
+  for (const [productId, price] of Object.entries(await getDealerPrices(schedule.dealerId, planned.items))) {
+    plannedPrices[productId] = price.unitPrice
+  }
+  const plan = repriceRunPlan(planned, lines, plannedPrices)
+  const summary = summarizeRunPlan(plan)
+
+  if (plan.items.length === 0) {
+    return { success: true, status: 'skipped', message: summary ?? 'Nothing to order' }
+  }
+
+  const address = await prisma.dealerAddress.findFirst({
+    where: { dealerId: schedule.dealerId, type: { in: ['shipping', 'physical'] } },
+    orderBy: [{ isPrimary: 'desc' }, { type: 'desc' }],
+  })
+  if (!address) {
+    return { success: false, status: 'failed', error: 'No shipping address on file for the dealer' }
+  }
+
+  const runDate = now.toISOString().slice(0, 10)
+  const order = await createOrder({
+    dealerId: schedule.dealerId,
+    items: plan.items,
+    shippingAddress: formatShippingAddress(schedule.dealer.name, address),
+    poNumber: schedule.poPrefix ? `${schedule.poPrefix}-${runDate}` : undefined,
+    notes: `Recurring order: ${schedule.name}`,
+    paymentMethod: schedule.paymentMethod,
+    submittedBy: { id: schedule.owner.id, role: schedule.owner.role },
+    asDraft: schedule.mode === 'draft',
+    draftNote: `Draft created by recurring schedule "${schedule.name}"`,
+  })
+
+  if (!order.success) {
+    return { success: false, status: 'failed', error: order.error, message: summary ?? undefined }
+  }
+
+  return {
+    success: true,
+    status: order.draft ? 'draft' : 'submitted',
+    orderId: order.orderId,
+    orderNumber: order.orderNumber,
+    message: [
+      order.draft ? `Draft ${order.orderNumber} is waiting for you to review and submit` : null,
+      order.pendingApproval ? `Order ${order.orderNumber} is waiting for approval` : null,
+      order.creditHold ? `Order ${order.orderNumber} is on credit hold` : null,
+      summary,
+    ]
+      .filter(Boolean)
+      .join('. ') || undefined,
+  }
+}
+
+// Run every active schedule that is due. Safe to call repeatedly: each run
+// moves the schedule's next run forward.
+export async function runDueOrderSchedules(now: Date = new Date()): Promise<DueScheduleSummary> {
+  const due = await prisma.orderSchedule.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextRunAt: 'asc' },
+  })
+
+  const summary: DueScheduleSummary = { processed: 0, submitted: 0, drafts: 0, skipped: 0, failed: 0 }
+
+  for (const schedule of due) {
+    const result = await runOrderSchedule(schedule.id, now)
+    summary.processed++
+    if (result.status === 'submitted') summary.submitted++
+    else if (result.status === 'draft') summary.drafts++
+    else if (result.status === 'skipped') summary.skipped++
+    else summary.failed++
+  }
+
+  return summary
+}
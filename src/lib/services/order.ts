@@ -2,6 +2,25 @@
 
 import { prisma } from '@/lib/prisma'
 import { nanoid } from 'nanoid'
+import { quoteOrderTotals } from '@/lib/services/tax'
+import { getDealerPrices } from '@/lib/services/pricing'
+import { hasPriceChanged } from '@/lib/pricing'
+import {
+  allocateOrderItem,
+  releaseOrderItemAllocations,
+  reserveAvailableStock,
+  shipOrderItemAllocations,
+  syncBackorderedQuantity,
+} from '@/lib/order-allocation'
+import {
+  getShipmentOrderStatus,
+  validateShipmentLines,
+  type ShipmentLineInput,
+} from '@/lib/order-shipments'
+import { sendOrderShippedEmail } from '@/lib/services/email'
+import { createInvoiceFromShipment } from '@/lib/services/invoice'
+import { checkDealerCredit } from '@/lib/services/credit'
+import { evaluateOrderApproval, notifyOrderApprovers } from '@/lib/services/order-approval'
 
 // Types for order creation
 export type OrderItemInput = {
@@ -18,12 +37,36 @@ export type CreateOrderInput = {
   poNumber?: string
   notes?: string
   paymentMethod?: string
+  submittedBy?: { id: string; role: string }
+  // Save without checks or stock reservation for the dealer to review and submit later
+  asDraft?: boolean
+  draftNote?: string
+  // Submit this existing draft in place instead of creating a new order
+  draftOrderId?: string
 }
 
 export type OrderResult = {
   success: boolean
   orderId?: string
   orderNumber?: string
+  creditHold?: boolean
+  pendingApproval?: boolean
+  draft?: boolean
+  error?: string
+}
+
+export type CreateShipmentInput = {
+  carrier?: string
+  trackingNumber?: string
+  notes?: string
+  lines: ShipmentLineInput[]
+}
+
+export type ShipmentResult = {
+  success: boolean
+  shipmentId?: string
+  shipmentNumber?: string
+  status?: string
   error?: string
 }
 
@@ -44,27 +87,24 @@ function generateOrderNumber(): string {
   return `ORD-${year}-${id}`
 }
 
-// Calculate order totals
-function calculateTotals(items: Array<{ quantity: number; unitPrice: number }>) {
-  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
-  const taxRate = 0.08 // 8% tax
-  const taxAmount = subtotal * taxRate
-  const shippingAmount = subtotal > 500 ? 0 : 25 // Free shipping over $500
-  const totalAmount = subtotal + taxAmount + shippingAmount
-
-  return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    taxAmount: Math.round(taxAmount * 100) / 100,
-    shippingAmount: Math.round(shippingAmount * 100) / 100,
-    totalAmount: Math.round(totalAmount * 100) / 100,
-  }
+// Generate unique packing slip number (e.g., SHP-2026-XXXXXX)
+function generateShipmentNumber(): string {
+  const year = new Date().getFullYear()
+  const id = nanoid(8).toUpperCase()
+  return `SHP-${year}-${id}`
 }
 
+// Statuses an order can ship from
+const SHIPPABLE_STATUSES = ['confirmed', 'processing', 'partially_shipped']
+
 // Validate order items (check stock, prices, availability)
+// Prices are checked against the dealer's contract or tier price when a dealer is given
 export async function validateOrderItems(
-  items: OrderItemInput[]
+  items: OrderItemInput[],
+  dealerId?: string
 ): Promise<OrderValidationResult> {
   const issues: OrderValidationResult['issues'] = []
+  const dealerPrices = dealerId ? await getDealerPrices(dealerId, items) : {}
 
   for (const item of items) {
     const product = await prisma.product.findUnique({
@@ -113,13 +153,13 @@ export async function validateOrderItems(
       })
     }
 
-    // Check if price has changed significantly (>1%)
-    const priceChange = Math.abs(product.price - item.unitPrice) / item.unitPrice
-    if (priceChange > 0.01) {
+    // Check if the price moved since the item was added to the cart
+    const currentPrice = dealerPrices[item.productId]?.unitPrice ?? product.price
+    if (hasPriceChanged(item.unitPrice, currentPrice)) {
       issues.push({
         productId: item.productId,
         productName: product.name,
-        issue: `Price has changed from $${item.unitPrice.toFixed(2)} to $${product.price.toFixed(2)}`,
+        issue: `Price has changed from $${item.unitPrice.toFixed(2)} to $${currentPrice.toFixed(2)}`,
         type: 'price_changed',
       })
     }
@@ -131,59 +171,10 @@ export async function validateOrderItems(
   }
 }
 
-// Reserve inventory for an order (reduce available stock)
-export async function reserveInventory(
-  items: OrderItemInput[]
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Use transaction to ensure all-or-nothing reservation
-    await prisma.$transaction(async (tx) => {
-      for (const item of items) {
-        // Get inventory ordered by quantity (take from largest stock first)
-        const inventoryRecords = await tx.inventory.findMany({
-          where: {
-            productId: item.productId,
-            quantity: { gt: 0 },
-          },
-          orderBy: { quantity: 'desc' },
-        })
-
-        let remainingToReserve = item.quantity
-
-        for (const inv of inventoryRecords) {
-          if (remainingToReserve <= 0) break
-
-          const toDeduct = Math.min(inv.quantity, remainingToReserve)
-
-          await tx.inventory.update({
-            where: { id: inv.id },
-            data: {
-              quantity: inv.quantity - toDeduct,
-              reserved: inv.reserved + toDeduct,
-            },
-          })
-
-          remainingToReserve -= toDeduct
-        }
-
-        if (remainingToReserve > 0) {
-          throw new Error(`Insufficient stock for product ${item.productId}`)
-        }
-      }
-    })
-
-    return { success: true }
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to reserve inventory',
-    }
-  }
-}
-
-// Release reserved inventory (when order is cancelled)
+// Release reserved inventory back to the locations it was allocated from
 export async function releaseInventory(
-  orderId: string
+  orderId: string,
+  userId?: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const order = await prisma.order.findUnique({
@@ -195,33 +186,11 @@ export async function releaseInventory(
       return { success: false, error: 'Order not found' }
     }
 
+    const context = { orderId: order.id, orderNumber: order.orderNumber, userId }
+
     await prisma.$transaction(async (tx) => {
       for (const item of order.items) {
-        // Get inventory records and release reserved quantity
-        const inventoryRecords = await tx.inventory.findMany({
-          where: {
-            productId: item.productId,
-            reserved: { gt: 0 },
-          },
-        })
-
-        let remainingToRelease = item.quantity
-
-        for (const inv of inventoryRecords) {
-          if (remainingToRelease <= 0) break
-
-          const toRelease = Math.min(inv.reserved, remainingToRelease)
-
-          await tx.inventory.update({
-            where: { id: inv.id },
-            data: {
-              quantity: inv.quantity + toRelease,
-              reserved: inv.reserved - toRelease,
-            },
-          })
-
-          remainingToRelease -= toRelease
-        }
+        await releaseOrderItemAllocations(tx, item.id, context)
       }
     })
 
@@ -238,7 +207,7 @@ export async function releaseInventory(
 export async function createOrder(input: CreateOrderInput): Promise<OrderResult> {
   try {
     // Validate items first
-    const validation = await validateOrderItems(input.items)
+    const validation = await validateOrderItems(input.items, input.dealerId)
     if (!validation.isValid) {
       return {
         success: false,
@@ -246,58 +215,156 @@ export async function createOrder(input: CreateOrderInput): Promise<OrderResult>
       }
     }
 
-    // Reserve inventory
-    const reservation = await reserveInventory(input.items)
-    if (!reservation.success) {
+    // Charge the resolved dealer price and keep the list price and source list for the invoice
+    const dealerPrices = await getDealerPrices(input.dealerId, input.items)
+    const items = input.items.map((item) => {
+      const resolved = dealerPrices[item.productId]
       return {
-        success: false,
-        error: reservation.error || 'Failed to reserve inventory',
+        ...item,
+        unitPrice: resolved?.unitPrice ?? item.unitPrice,
+        listPrice: resolved?.listPrice ?? null,
+        priceListId: resolved?.priceListId ?? null,
       }
+    })
+
+    // Calculate totals with destination-based tax
+    const totals = await quoteOrderTotals({
+      dealerId: input.dealerId,
+      items,
+      shippingAddress: input.shippingAddress,
+    })
+
+    let status = 'draft'
+    let historyNote = input.draftNote || 'Draft saved'
+    let approval: Awaited<ReturnType<typeof evaluateOrderApproval>> = {
+      required: false,
+      approverRole: null,
+      reasons: [],
     }
 
-    // Calculate totals
-    const totals = calculateTotals(input.items)
-
-    // Create the order
-    const order = await prisma.order.create({
-      data: {
-        orderNumber: generateOrderNumber(),
-        dealerId: input.dealerId,
-        status: 'submitted',
-        subtotal: totals.subtotal,
-        taxAmount: totals.taxAmount,
-        shippingAmount: totals.shippingAmount,
-        totalAmount: totals.totalAmount,
-        shippingAddress: input.shippingAddress,
-        billingAddress: input.billingAddress || input.shippingAddress,
-        poNumber: input.poNumber,
-        notes: input.notes,
-        submittedAt: new Date(),
-        items: {
-          create: input.items.map((item) => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice: item.quantity * item.unitPrice,
-          })),
-        },
-        statusHistory: {
-          create: {
-            status: 'submitted',
-            note: 'Order submitted by dealer',
-          },
-        },
-      },
+    if (!input.asDraft) {
+      // Orders on terms must fit the dealer's credit; over-limit or past-due accounts
+      // are either refused or held for credit review
+      const credit = await checkDealerCredit(input.dealerId, totals.totalAmount, input.paymentMethod)
+      if (credit.decision === 'blocked') {
+        return {
+          success: false,
+          error: `Credit check failed: ${credit.reasons.join('; ')}`,
+        }
+      }
+
+      // Dealer approval rules come first; the credit review happens once approved
+      approval = await evaluateOrderApproval(
+        input.dealerId,
+        { totalAmount: totals.totalAmount, poNumber: input.poNumber },
+        input.submittedBy?.role ?? null
+      )
+      status = approval.required
+        ? 'pending_approval'
+        : credit.decision === 'review'
+          ? 'credit_hold'
+          : 'submitted'
+      historyNote = approval.required
+        ? `Awaiting approval: ${approval.reasons.join('; ')}`
+        : status === 'credit_hold'
+          ? `Placed on credit hold: ${credit.reasons.join('; ')}`
+          : 'Order submitted by dealer'
+    }
+
+    const orderData = {
+      dealerId: input.dealerId,
+      status,
+      paymentMethod: input.paymentMethod,
+      submittedById: input.submittedBy?.id,
+      approvalRole: approval.approverRole,
+      subtotal: totals.subtotal,
+      taxAmount: totals.taxAmount,
+      shippingAmount: totals.shippingAmount,
+      totalAmount: totals.totalAmount,
+      taxBreakdown: JSON.stringify(totals.tax),
+      shippingAddress: input.shippingAddress,
+      billingAddress: input.billingAddress || input.shippingAddress,
+      poNumber: input.poNumber,
+      notes: input.notes,
+      submittedAt: status === 'draft' || approval.required ? null : new Date(),
+    }
+    const itemData = items.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.quantity * item.unitPrice,
+      listPrice: item.listPrice,
+      priceListId: item.priceListId,
+    }))
+    const historyData = {
+      status,
+      note: historyNote,
+      changedBy: input.submittedBy?.id,
+    }
+
+    // Create the order and reserve its stock together so a failure leaves nothing behind
+    const order = await prisma.$transaction(async (tx) => {
+      // Edits can reserve stock against a draft; return it before replacing the items
+      if (input.draftOrderId) {
+        const draft = await tx.order.findUniqueOrThrow({
+          where: { id: input.draftOrderId },
+          select: { id: true, orderNumber: true, items: { select: { id: true } } },
+        })
+        const context = { orderId: draft.id, orderNumber: draft.orderNumber, userId: input.submittedBy?.id }
+        for (const item of draft.items) {
+          await releaseOrderItemAllocations(tx, item.id, context)
+        }
+      }
+
+      const created = input.draftOrderId
+        ? await tx.order.update({
+            where: { id: input.draftOrderId },
+            data: {
+              ...orderData,
+              items: { deleteMany: {}, create: itemData },
+              statusHistory: { create: historyData },
+            },
+            include: { items: true },
+          })
+        : await tx.order.create({
+            data: {
+              orderNumber: generateOrderNumber(),
+              ...orderData,
+              items: { create: itemData },
+              statusHistory: { create: historyData },
+            },
+            include: { items: true },
+          })
+
+      // Drafts hold no stock until they are submitted
+      if (status !== 'draft') {
+        for (const item of created.items) {
+          await allocateOrderItem(tx, item, item.quantity, {
+            orderId: created.id,
+            orderNumber: created.orderNumber,
+          })
+        }
+      }
+
+      return created
     })
 
+    // Stock stays reserved while the order waits; a rejection releases it
+    if (approval.required && approval.approverRole) {
+      notifyOrderApprovers(order, approval.approverRole, approval.reasons).catch((err) =>
+        console.error('Failed to notify order approvers:', err)
+      )
+    }
+
     return {
       success: true,
       orderId: order.id,
       orderNumber: order.orderNumber,
+      creditHold: status === 'credit_hold',
+      pendingApproval: status === 'pending_approval',
+      draft: status === 'draft',
     }
   } catch (error) {
-    // Try to release inventory on failure
-    // Note: This is a best-effort cleanup
     console.error('Order creation failed:', error)
 
     return {
@@ -307,6 +374,40 @@ export async function createOrder(input: CreateOrderInput): Promise<OrderResult>
   }
 }
 
+// Submit a draft order in place, re-pricing it at today's dealer prices and
+// running the same stock, credit and approval checks as checkout
+export async function submitDraftOrder(
+  orderId: string,
+  submittedBy: { id: string; role: string }
+): Promise<OrderResult> {
+  const draft = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { items: true },
+  })
+
+  if (!draft || draft.status !== 'draft') {
+    return { success: false, error: 'Only draft orders can be submitted' }
+  }
+
+  const dealerPrices = await getDealerPrices(draft.dealerId, draft.items)
+
+  return createOrder({
+    dealerId: draft.dealerId,
+    items: draft.items.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: dealerPrices[item.productId]?.unitPrice ?? item.unitPrice,
+    })),
+    shippingAddress: draft.shippingAddress ?? '{}',
+    billingAddress: draft.billingAddress ?? undefined,
+    poNumber: draft.poNumber ?? undefined,
+    notes: draft.notes ?? undefined,
+    paymentMethod: draft.paymentMethod ?? undefined,
+    submittedBy,
+    draftOrderId: draft.id,
+  })
+}
+
 // Get order by ID
 export async function getOrderById(orderId: string) {
   return prisma.order.findUnique({
@@ -334,6 +435,21 @@ export async function getOrderById(orderId: string) {
       statusHistory: {
         orderBy: { createdAt: 'desc' },
       },
+      shipments: {
+        include: {
+          items: {
+            include: {
+              orderItem: {
+                select: { product: { select: { name: true, sku: true } } },
+              },
+            },
+          },
+          invoices: {
+            select: { invoiceNumber: true },
+          },
+        },
+        orderBy: { shippedAt: 'asc' },
+      },
     },
   })
 }
@@ -365,6 +481,21 @@ export async function getOrderByNumber(orderNumber: string) {
       statusHistory: {
         orderBy: { createdAt: 'desc' },
       },
+      shipments: {
+        include: {
+          items: {
+            include: {
+              orderItem: {
+                select: { product: { select: { name: true, sku: true } } },
+              },
+            },
+          },
+          invoices: {
+            select: { invoiceNumber: true },
+          },
+        },
+        orderBy: { shippedAt: 'asc' },
+      },
     },
   })
 }
@@ -393,69 +524,286 @@ export async function updateOrderStatus(
 
     const order = await prisma.order.findUnique({
       where: { id: orderId },
+      include: { items: true },
     })
 
     if (!order) {
       return { success: false, error: 'Order not found' }
     }
 
+    // Held orders only move on through a credit release (or are cancelled)
+    if (order.status === 'credit_hold' && status !== 'cancelled') {
+      return { success: false, error: 'Order is on credit hold and must be released first' }
+    }
+
+    // Orders awaiting approval move on only through the approval queue
+    if (order.status === 'pending_approval' && status !== 'cancelled') {
+      return { success: false, error: 'Order is waiting for approval' }
+    }
+
+    // Shipping goes through a shipment so line quantities and packing slips stay in step
+    if (status === 'shipped') {
+      const result = await createShipment(
+        orderId,
+        {
+          notes: note,
+          lines: order.items.map((item) => ({
+            orderItemId: item.id,
+            quantity: item.quantity - item.shippedQuantity,
+          })),
+        },
+        changedBy
+      )
+      return { success: result.success, error: result.error }
+    }
+
     const previousStatus = order.status
 
     // Get timestamp field for this status
     const timestampField = getTimestampField(status)
 
-    await prisma.$transaction([
+    const context = { orderId: order.id, orderNumber: order.orderNumber, userId: changedBy }
+
+    await prisma.$transaction(async (tx) => {
       // Update order status
-      prisma.order.update({
+      await tx.order.update({
         where: { id: orderId },
         data: {
           status,
           ...(timestampField ? { [timestampField]: new Date() } : {}),
         },
-      }),
+      })
+
       // Add status history entry
-      prisma.orderStatusHistory.create({
+      await tx.orderStatusHistory.create({
         data: {
           orderId,
           status,
           note,
           changedBy,
         },
-      }),
-    ])
+      })
 
-    // If cancelled, release inventory
-    if (status === 'cancelled') {
-      await releaseInventory(orderId)
+      // If cancelled, return allocated stock
+      if (status === 'cancelled') {
+        for (const item of order.items) {
+          await releaseOrderItemAllocations(tx, item.id, context)
+        }
+      }
+    })
+
+    await emitOrderStatusChange(order, status, previousStatus, changedBy)
+
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update order status',
     }
+  }
+}
 
-    // Emit real-time order update
-    try {
-      const { emitOrderUpdate } = await import('@/lib/services/realtime')
-      emitOrderUpdate(
-        {
+// Ship some or all of an order's outstanding quantities as one packing slip.
+// The order moves to partially_shipped until every line has shipped in full.
+export async function createShipment(
+  orderId: string,
+  input: CreateShipmentInput,
+  createdBy?: string
+): Promise<ShipmentResult> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: {
+          include: {
+            product: { select: { name: true, sku: true } },
+          },
+        },
+        dealer: {
+          select: {
+            billPerShipment: true,
+            users: {
+              where: { role: { in: ['dealer_admin', 'dealer_user'] } },
+              select: { email: true },
+              take: 1,
+            },
+          },
+        },
+      },
+    })
+
+    if (!order) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    if (!SHIPPABLE_STATUSES.includes(order.status)) {
+      return { success: false, error: `Cannot ship order with status: ${order.status}` }
+    }
+
+    const lineError = validateShipmentLines(
+      order.items.map((item) => ({
+        id: item.id,
+        sku: item.product.sku,
+        quantity: item.quantity,
+        shippedQuantity: item.shippedQuantity,
+      })),
+      input.lines
+    )
+    if (lineError) {
+      return { success: false, error: lineError }
+    }
+
+    const lines = input.lines.filter((line) => line.quantity > 0)
+    const context = { orderId: order.id, orderNumber: order.orderNumber, userId: createdBy }
+    const shippedUnits = lines.reduce((sum, line) => sum + line.quantity, 0)
+
+    const result = await prisma.$transaction(async (tx) => {
+      for (const line of lines) {
+        const item = order.items.find((i) => i.id === line.orderItemId)!
+        const allocated = await tx.orderItemAllocation.aggregate({
+          where: { orderItemId: item.id },
+          _sum: { quantity: true },
+        })
+        const reserved = allocated._sum.quantity ?? 0
+
+        // Backordered units can ship once stock has come in
+        if (line.quantity > reserved) {
+          const added = await reserveAvailableStock(tx, item, line.quantity - reserved, context)
+          if (reserved + added < line.quantity) {
+            throw new Error(`Only ${reserved + added} units of ${item.product.sku} are in stock to ship`)
+          }
+        }
+
+        await shipOrderItemAllocations(tx, item.id, context, line.quantity)
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: { shippedQuantity: { increment: line.quantity } },
+        })
+      }
+
+      const shipment = await tx.shipment.create({
+        data: {
+          shipmentNumber: generateShipmentNumber(),
           orderId: order.id,
-          orderNumber: order.orderNumber,
+          carrier: input.carrier || null,
+          trackingNumber: input.trackingNumber || null,
+          notes: input.notes || null,
+          createdBy,
+          items: {
+            create: lines.map((line) => ({
+              orderItemId: line.orderItemId,
+              quantity: line.quantity,
+            })),
+          },
+        },
+      })
+
+      const items = await tx.orderItem.findMany({
+        where: { orderId: order.id },
+        select: { id: true, quantity: true, shippedQuantity: true },
+      })
+      for (const item of items) {
+        await syncBackorderedQuantity(tx, item.id)
+      }
+
+      const status = getShipmentOrderStatus(items)
+      await tx.order.update({
+        where: { id: order.id },
+        data: {
           status,
-          previousStatus,
-          updatedBy: changedBy,
+          ...(status === 'shipped' && { shippedAt: new Date() }),
         },
-        order.dealerId
-      )
-    } catch (e) {
-      // Don't fail the update if real-time emission fails
-      console.error('Failed to emit real-time order update:', e)
+      })
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          status,
+          note: [
+            `Shipment ${shipment.shipmentNumber}: ${shippedUnits} units`,
+            input.carrier && `via ${input.carrier}`,
+            input.trackingNumber && `(tracking ${input.trackingNumber})`,
+          ]
+            .filter(Boolean)
+            .join(' '),
+          changedBy: createdBy,
+        },
+      })
+
+      const remainingUnits = items.reduce((sum, item) => sum + item.quantity - item.shippedQuantity, 0)
+      return { shipment, status, remainingUnits }
+    })
+
+    await emitOrderStatusChange(order, result.status, order.status, createdBy)
+
+    // One shipped email per shipment (fire and forget)
+    const recipient = order.dealer.users[0]
+    if (recipient) {
+      sendOrderShippedEmail(
+        recipient.email,
+        order.orderNumber,
+        input.trackingNumber,
+        input.carrier,
+        undefined,
+        {
+          shipmentNumber: result.shipment.shipmentNumber,
+          items: lines.map((line) => {
+            const item = order.items.find((i) => i.id === line.orderItemId)!
+            return { name: item.product.name, sku: item.product.sku, quantity: line.quantity }
+          }),
+          remainingUnits: result.remainingUnits,
+        }
+      ).catch((err) => {
+        console.error('Failed to send order shipped email:', err)
+      })
     }
 
-    return { success: true }
+    if (order.dealer.billPerShipment) {
+      const invoice = await createInvoiceFromShipment(result.shipment.id)
+      if (!invoice.success) {
+        console.error(`Failed to invoice shipment ${result.shipment.shipmentNumber}:`, invoice.error)
+      }
+    }
+
+    return {
+      success: true,
+      shipmentId: result.shipment.id,
+      shipmentNumber: result.shipment.shipmentNumber,
+      status: result.status,
+    }
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to update order status',
+      error: error instanceof Error ? error.message : 'Failed to create shipment',
     }
   }
 }
 
+// Emit real-time order update
+async function emitOrderStatusChange(
+  order: { id: string; orderNumber: string; dealerId: string },
+  status: string,
+  previousStatus: string,
+  changedBy?: string
+) {
+  try {
+    const { emitOrderUpdate } = await import('@/lib/services/realtime')
+    emitOrderUpdate(
+      {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status,
+        previousStatus,
+        updatedBy: changedBy,
+      },
+      order.dealerId
+    )
+  } catch (e) {
+    // Don't fail the update if real-time emission fails
+    console.error('Failed to emit real-time order update:', e)
+  }
+}
+
 function getTimestampField(status: string): string | null {
   const mapping: Record<string, string> = {
     submitted: 'submittedAt',
@@ -530,7 +878,7 @@ export async function cancelOrder(
   }
 
   // Only allow cancellation for certain statuses
-  const cancellableStatuses = ['draft', 'submitted', 'confirmed']
+  const cancellableStatuses = ['draft', 'pending_approval', 'submitted', 'credit_hold', 'confirmed']
   if (!cancellableStatuses.includes(order.status)) {
     return {
       success: false,
@@ -541,6 +889,52 @@ export async function cancelOrder(
   return updateOrderStatus(orderId, 'cancelled', reason, cancelledBy)
 }
 
+// Release an order from credit hold back into the normal workflow
+export async function releaseCreditHold(
+  orderId: string,
+  note: string,
+  releasedBy?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+    })
+
+    if (!order) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    if (order.status !== 'credit_hold') {
+      return { success: false, error: 'Order is not on credit hold' }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { status: 'submitted' },
+      })
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          status: 'submitted',
+          note: `Credit hold released: ${note}`,
+          changedBy: releasedBy,
+        },
+      })
+    })
+
+    await emitOrderStatusChange(order, 'submitted', order.status, releasedBy)
+
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to release credit hold',
+    }
+  }
+}
+
 // Get order summary stats for a dealer
 export async function getOrderStats(dealerId: string) {
   const [totalOrders, pendingOrders, completedOrders, totalSpent] = await Promise.all([
@@ -548,7 +942,7 @@ export async function getOrderStats(dealerId: string) {
     prisma.order.count({
       where: {
         dealerId,
-        status: { in: ['submitted', 'confirmed', 'processing'] },
+        status: { in: ['pending_approval', 'submitted', 'credit_hold', 'confirmed', 'processing', 'partially_shipped'] },
       },
     }),
     prisma.order.count({
@@ -0,0 +1,217 @@
+import { prisma } from '@/lib/prisma'
+import {
+  PDI_TEMPLATES,
+  getPdiItemLabel,
+  getPdiSignOffBlockers,
+  getPdiTemplateKey,
+  getUnsentPdiFailures,
+  parsePdiResults,
+  type PdiItemResult,
+  type PdiTemplateKey,
+} from '@/lib/pdi-checklist'
+import { DEFAULT_LABOR_RATE, OPEN_REPAIR_ORDER_STATUSES } from '@/lib/service-repair-order'
+import { addRepairOrderLine, openRepairOrder } from '@/lib/services/service-repair-orders'
+import type { PdiResultsInput } from '@/lib/validations/pdi'
+import type { PdiInspection, PdiStatus } from '@/types/rv'
+
+async function getDealerUnit(dealerId: string, vin: string) {
+  const unit = await prisma.rVUnit.findUnique({
+    where: { vin },
+    include: { model: { select: { name: true, series: true, classType: true } } },
+  })
+  if (!unit || unit.dealerId !== dealerId) throw new Error('Unit not found')
+  return unit
+}
+
+type PdiUnit = Awaited<ReturnType<typeof getDealerUnit>>
+
+async function getLatestPdi(rvUnitId: string) {
+  return prisma.pdiInspection.findFirst({ where: { rvUnitId }, orderBy: { createdAt: 'desc' } })
+}
+
+async function getEditablePdi(unit: PdiUnit) {
+  const pdi = await getLatestPdi(unit.id)
+  if (!pdi) throw new Error('Start a PDI for this unit first')
+  if (pdi.status === 'completed') throw new Error('This PDI has been signed off')
+  return pdi
+}
+
+function parsePhotos(json: string | null): string[] {
+  if (!json) return []
+  try {
+    const photos = JSON.parse(json)
+    return Array.isArray(photos) ? photos.filter((photo) => typeof photo === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Repair orders holding failed items that have not been closed yet
+async function getOpenPdiRepairOrders(results: PdiItemResult[]): Promise<string[]> {
+  const roNumbers = results.map((result) => result.roNumber).filter((roNumber): roNumber is string => !!roNumber)
+  if (roNumbers.length === 0) return []
+
+  const open = await prisma.serviceRecord.findMany({
+    where: { serviceNumber: { in: roNumbers }, status: { in: OPEN_REPAIR_ORDER_STATUSES } },
+    select: { serviceNumber: true },
+  })
+  return open.map((record) => record.serviceNumber as string)
+}
+
+export async function getUnitPdi(dealerId: string, vin: string): Promise<PdiInspection | null> {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getLatestPdi(unit.id)
+  if (!pdi) return null
+
+  const templateKey = pdi.templateKey as PdiTemplateKey
+  const results = parsePdiResults(pdi.results)
+  return {
+    id: pdi.id,
+    rvUnitId: unit.id,
+    vin: unit.vin,
+    unitDescription: `${unit.modelYear} ${unit.model.series} ${unit.model.name}`,
+    templateKey,
+    templateLabel: PDI_TEMPLATES[templateKey].label,
+    status: pdi.status as PdiStatus,
+    results,
+    photos: parsePhotos(pdi.photos),
+    notes: pdi.notes ?? undefined,
+    openRepairOrders: await getOpenPdiRepairOrders(results),
+    signedOffByName: pdi.signedOffByName ?? undefined,
+    signedOffAt: pdi.signedOffAt ?? undefined,
+    createdAt: pdi.createdAt,
+    updatedAt: pdi.updatedAt,
+  }
+}
+
+// Start a PDI on the checklist for the unit's class. A unit can be inspected
+// again after a sign-off, e.g. when it has sat on the lot for a season.
+export async function startPdi(dealerId: string, vin: string, userId: string) {
+  const unit = await getDealerUnit(dealerId, vin)
+  if (unit.status === 'sold') throw new Error('Sold units cannot be inspected for delivery')
+
+  const latest = await getLatestPdi(unit.id)
+  if (latest && latest.status !== 'completed') throw new Error('This unit already has a PDI in progress')
+
+  await prisma.pdiInspection.create({
+    data: {
+      rvUnitId: unit.id,
+      templateKey: getPdiTemplateKey(unit.model.classType),
+      startedById: userId,
+    },
+  })
+}
+
+export async function savePdiResults(dealerId: string, vin: string, input: PdiResultsInput) {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getEditablePdi(unit)
+
+  // Items keep the repair order they were sent to so sign-off can wait for it to close
+  const previous = parsePdiResults(pdi.results)
+  const results: PdiItemResult[] = input.results.map((item) => {
+    const sentTo = previous.find((result) => result.code === item.code)?.roNumber
+    return {
+      code: item.code,
+      result: item.result,
+      ...(item.note?.trim() && { note: item.note.trim() }),
+      ...(sentTo && { roNumber: sentTo }),
+    }
+  })
+
+  await prisma.pdiInspection.update({
+    where: { id: pdi.id },
+    data: { results: JSON.stringify(results), notes: input.notes?.trim() || null },
+  })
+}
+
+export async function addPdiPhotos(dealerId: string, vin: string, urls: string[]) {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getEditablePdi(unit)
+  const photos = parsePhotos(pdi.photos)
+  await prisma.pdiInspection.update({
+    where: { id: pdi.id },
+    data: { photos: JSON.stringify([...photos, ...urls.filter((url) => !photos.includes(url))]) },
+  })
+}
+
+export async function removePdiPhoto(dealerId: string, vin: string, url: string) {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getEditablePdi(unit)
+  const photos = parsePhotos(pdi.photos).filter((photo) => photo !== url)
+  await prisma.pdiInspection.update({
+    where: { id: pdi.id },
+    data: { photos: photos.length > 0 ? JSON.stringify(photos) : null },
+  })
+}
+
+// Send failed items to service as internal-pay lines: onto the unit's open
+// repair order if it has one, otherwise onto a new PDI repair order.
+// Returns the RO number.
+export async function sendPdiFailuresToService(dealerId: string, vin: string, userId: string): Promise<string> {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getEditablePdi(unit)
+  const templateKey = pdi.templateKey as PdiTemplateKey
+  const results = parsePdiResults(pdi.results)
+
+  const failures = getUnsentPdiFailures(templateKey, results)
+  if (failures.length === 0) throw new Error('There are no failed items to send to service')
+
+  const lines = failures.map((failure) => ({
+    payType: 'internal' as const,
+    complaint: `PDI: ${getPdiItemLabel(templateKey, failure.code)}${failure.note ? ` - ${failure.note}` : ''}`,
+  }))
+
+  const openOrder = await prisma.serviceRecord.findFirst({
+    where: { rvUnitId: unit.id, status: { in: OPEN_REPAIR_ORDER_STATUSES } },
+    select: { serviceNumber: true },
+  })
+
+  let roNumber: string
+  if (openOrder?.serviceNumber) {
+    roNumber = openOrder.serviceNumber
+    for (const line of lines) {
+      await addRepairOrderLine(dealerId, roNumber, line)
+    }
+  } else {
+    roNumber = await openRepairOrder(
+      dealerId,
+      { vin, description: 'PDI repairs', laborRate: DEFAULT_LABOR_RATE, lines },
+      userId,
+      'pdi'
+    )
+  }
+
+  const sentCodes = failures.map((failure) => failure.code)
+  await prisma.pdiInspection.update({
+    where: { id: pdi.id },
+    data: {
+      status: 'repairs_pending',
+      results: JSON.stringify(
+        results.map((result) => (sentCodes.includes(result.code) ? { ...result, roNumber } : result))
+      ),
+    },
+  })
+  return roNumber
+}
+
+export async function signOffPdi(dealerId: string, vin: string, technician: { id: string; name: string }) {
+  const unit = await getDealerUnit(dealerId, vin)
+  const pdi = await getEditablePdi(unit)
+  const results = parsePdiResults(pdi.results)
+
+  const blockers = getPdiSignOffBlockers(pdi.templateKey as PdiTemplateKey, results, parsePhotos(pdi.photos).length)
+  for (const roNumber of await getOpenPdiRepairOrders(results)) {
+    blockers.push(`Close ${roNumber} before signing off`)
+  }
+  if (blockers.length > 0) throw new Error(blockers.join('; '))
+
+  await prisma.pdiInspection.update({
+    where: { id: pdi.id },
+    data: {
+      status: 'completed',
+      signedOffById: technician.id,
+      signedOffByName: technician.name,
+      signedOffAt: new Date(),
+    },
+  })
+}
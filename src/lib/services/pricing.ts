@@ -0,0 +1,64 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { resolvePrice, type ResolvedPrice } from '@/lib/pricing'
+
+/**
+ * Resolve what a dealer pays for each line, applying contract and tier price lists.
+ * Products that no longer exist are left out of the result.
+ */
+export async function getDealerPrices(
+  dealerId: string,
+  items: Array<{ productId: string; quantity: number }>,
+  at: Date = new Date()
+): Promise<Record<string, ResolvedPrice>> {
+  const productIds = Array.from(new Set(items.map((item) => item.productId)))
+  if (productIds.length === 0) return {}
+
+  const [dealer, products] = await Promise.all([
+    prisma.dealer.findUnique({
+      where: { id: dealerId },
+      select: { id: true, tier: true },
+    }),
+    prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, price: true },
+    }),
+  ])
+
+  const priceLists = dealer
+    ? await prisma.priceList.findMany({
+        where: {
+          isActive: true,
+          effectiveFrom: { lte: at },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+          AND: [{ OR: [{ dealerId: dealer.id }, { dealerId: null, dealerTier: dealer.tier }] }],
+        },
+        include: {
+          items: {
+            where: { productId: { in: productIds } },
+            select: { productId: true, minQuantity: true, price: true },
+          },
+        },
+      })
+    : []
+
+  const basePrices = new Map(products.map((p) => [p.id, p.price]))
+  const prices: Record<string, ResolvedPrice> = {}
+
+  for (const item of items) {
+    const basePrice = basePrices.get(item.productId)
+    if (basePrice === undefined) continue
+
+    prices[item.productId] = resolvePrice({
+      productId: item.productId,
+      basePrice,
+      quantity: item.quantity,
+      dealer,
+      priceLists,
+      at,
+    })
+  }
+
+  return prices
+}
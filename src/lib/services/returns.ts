@@ -0,0 +1,622 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { applyInventoryChange } from '@/lib/inventory-ledger'
+import {
+  getReturnableQuantities,
+  validateReturnLines,
+  calculateReturnCredit,
+  planCreditApplication,
+} from '@/lib/order-returns'
+import { withCreditMemoNumbers } from '@/lib/services/credit-memos'
+import { createNotifications, notifyReturnStatusChange } from '@/lib/notifications'
+import type {
+  CreateReturnInput,
+  ReviewReturnInput,
+  ReceiveReturnInput,
+  ReturnFilterInput,
+} from '@/lib/validations/returns'
+
+// Result types
+export type ReturnResult = {
+  success: boolean
+  returnId?: string
+  rmaNumber?: string
+  error?: string
+}
+
+const ADMIN_ROLES = ['super_admin', 'admin']
+
+// Generate the next RMA number for the year (e.g., RMA-2026-00001)
+async function generateRmaNumber(): Promise<string> {
+  const year = new Date().getFullYear()
+  const yearPrefix = `RMA-${year}-`
+
+  const last = await prisma.returnAuthorization.findFirst({
+    where: { rmaNumber: { startsWith: yearPrefix } },
+    orderBy: { rmaNumber: 'desc' },
+    select: { rmaNumber: true },
+  })
+
+  const start = last ? parseInt(last.rmaNumber.split('-')[2], 10) + 1 : 1
+  return `${yearPrefix}${String(start).padStart(5, '0')}`
+}
+
+// Tell the dealer user who requested the return about a status change
+function notifyRequester(
+  rma: { requestedById: string; rmaNumber: string },
+  status: string,
+  detail?: string
+) {
+  notifyReturnStatusChange(rma.requestedById, rma.rmaNumber, status, detail).catch((err) =>
+    console.error('Failed to send return notification:', err)
+  )
+}
+
+// Request a return against a delivered order (dealer side)
+export async function createReturnRequest(
+  input: CreateReturnInput,
+  userId: string,
+  dealerId: string
+): Promise<ReturnResult> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: input.orderId },
+      include: {
+        items: { include: { product: { select: { sku: true } } } },
+        returns: { include: { items: true } },
+        dealer: { select: { name: true } },
+      },
+    })
+
+    if (!order || order.dealerId !== dealerId) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    if (order.status !== 'delivered') {
+      return { success: false, error: 'Returns can only be requested for delivered orders' }
+    }
+
+    const returnable = getReturnableQuantities(
+      order.items,
+      order.returns.flatMap((rma) => rma.items.map((item) => ({ ...item, status: rma.status })))
+    )
+    const lineError = validateReturnLines(
+      order.items.map((item) => ({ id: item.id, sku: item.product.sku })),
+      returnable,
+      input.items
+    )
+    if (lineError) {
+      return { success: false, error: lineError }
+    }
+
+    const rmaNumber = await generateRmaNumber()
+    const itemById = new Map(order.items.map((item) => [item.id, item]))
+
+    const rma = await prisma.returnAuthorization.create({
+      data: {
+        rmaNumber,
+        orderId: order.id,
+        dealerId,
+        requestedById: userId,
+        status: 'requested',
+        notes: input.notes || null,
+        items: {
+          create: input.items.map((line) => ({
+            orderItemId: line.orderItemId,
+            quantity: line.quantity,
+            unitPrice: itemById.get(line.orderItemId)!.unitPrice,
+            reasonCode: line.reasonCode,
+          })),
+        },
+        statusHistory: {
+          create: {
+            fromStatus: null,
+            toStatus: 'requested',
+            changedById: userId,
+            note: 'Return requested',
+          },
+        },
+      },
+    })
+
+    // Put the new request in front of the returns desk
+    prisma.user
+      .findMany({
+        where: { role: { in: ADMIN_ROLES }, status: 'active' },
+        select: { id: true },
+      })
+      .then((admins) =>
+        createNotifications(
+          admins.map((admin) => ({
+            userId: admin.id,
+            type: 'return_update' as const,
+            title: 'New Return Request',
+            body: `${order.dealer.name} requested return ${rmaNumber} on order ${order.orderNumber}.`,
+            data: { rmaNumber, orderNumber: order.orderNumber },
+          }))
+        )
+      )
+      .catch((err) => console.error('Failed to notify admins of return request:', err))
+
+    return { success: true, returnId: rma.id, rmaNumber }
+  } catch (error) {
+    console.error('Failed to create return request:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create return request',
+    }
+  }
+}
+
+// Cancel a return the manufacturer has not acted on yet (dealer side)
+export async function cancelReturnRequest(
+  returnId: string,
+  userId: string,
+  userDealerId: string | null
+): Promise<ReturnResult> {
+  try {
+    const rma = await prisma.returnAuthorization.findUnique({ where: { id: returnId } })
+
+    if (!rma || rma.dealerId !== userDealerId) {
+      return { success: false, error: 'Return not found' }
+    }
+
+    if (rma.status !== 'requested') {
+      return { success: false, error: 'Only pending return requests can be cancelled' }
+    }
+
+    await prisma.$transaction([
+      prisma.returnAuthorization.update({
+        where: { id: returnId },
+        data: { status: 'cancelled' },
+      }),
+      prisma.returnAuthorizationStatusHistory.create({
+        data: {
+          returnId,
+          fromStatus: 'requested',
+          toStatus: 'cancelled',
+          changedById: userId,
+          note: 'Return request cancelled by dealer',
+        },
+      }),
+    ])
+
+    return { success: true, returnId, rmaNumber: rma.rmaNumber }
+  } catch (error) {
+    console.error('Failed to cancel return request:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel return request',
+    }
+  }
+}
+
+// Approve (with a restocking fee) or reject a return (manufacturer side)
+export async function reviewReturnRequest(
+  input: ReviewReturnInput,
+  userId: string
+): Promise<ReturnResult> {
+  try {
+    const rma = await prisma.returnAuthorization.findUnique({ where: { id: input.returnId } })
+
+    if (!rma) {
+      return { success: false, error: 'Return not found' }
+    }
+
+    if (rma.status !== 'requested') {
+      return { success: false, error: 'Only pending return requests can be reviewed' }
+    }
+
+    const newStatus = input.action === 'approve' ? 'approved' : 'rejected'
+    const note =
+      input.note ||
+      (input.action === 'approve'
+        ? `Return approved with a ${input.restockingFeePercent}% restocking fee`
+        : 'Return rejected')
+
+    await prisma.$transaction([
+      prisma.returnAuthorization.update({
+        where: { id: input.returnId },
+        data: {
+          status: newStatus,
+          restockingFeePercent: input.action === 'approve' ? input.restockingFeePercent : 0,
+          reviewNotes: input.note || null,
+          reviewedById: userId,
+          reviewedAt: new Date(),
+        },
+      }),
+      prisma.returnAuthorizationStatusHistory.create({
+        data: {
+          returnId: input.returnId,
+          fromStatus: rma.status,
+          toStatus: newStatus,
+          changedById: userId,
+          note,
+        },
+      }),
+    ])
+
+    notifyRequester(
+      rma,
+      newStatus,
+      input.action === 'approve' && input.restockingFeePercent > 0
+        ? `A ${input.restockingFeePercent}% restocking fee applies.`
+        : input.note
+    )
+
+    return { success: true, returnId: rma.id, rmaNumber: rma.rmaNumber }
+  } catch (error) {
+    console.error('Failed to review return request:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review return request',
+    }
+  }
+}
+
+// Receive returned goods into a warehouse: restocked units go back on hand, scrapped units do not
+export async function receiveReturn(
+  input: ReceiveReturnInput,
+  userId: string
+): Promise<ReturnResult> {
+  try {
+    const rma = await prisma.returnAuthorization.findUnique({
+      where: { id: input.returnId },
+      include: {
+        order: { select: { orderNumber: true } },
+        items: { include: { orderItem: { include: { product: { select: { sku: true } } } } } },
+      },
+    })
+
+    if (!rma) {
+      return { success: false, error: 'Return not found' }
+    }
+
+    if (rma.status !== 'approved') {
+      return { success: false, error: 'Only approved returns can be received' }
+    }
+
+    const location = await prisma.inventoryLocation.findUnique({ where: { id: input.locationId } })
+    if (!location || !location.isActive) {
+      return { success: false, error: 'Receiving location not found' }
+    }
+
+    const itemById = new Map(rma.items.map((item) => [item.id, item]))
+    for (const line of input.items) {
+      const item = itemById.get(line.itemId)
+      if (!item) {
+        return { success: false, error: 'Item not found on this return' }
+      }
+      if (line.receivedQuantity > item.quantity) {
+        return {
+          success: false,
+          error: `Only ${item.quantity} units of ${item.orderItem.product.sku} were authorized`,
+        }
+      }
+    }
+
+    const received = rma.items.map((item) => ({
+      unitPrice: item.unitPrice,
+      receivedQuantity: input.items.find((line) => line.itemId === item.id)?.receivedQuantity ?? 0,
+    }))
+    if (received.every((line) => line.receivedQuantity === 0)) {
+      return { success: false, error: 'Enter the quantity received for at least one item' }
+    }
+
+    const credit = calculateReturnCredit(received, rma.restockingFeePercent)
+
+    await prisma.$transaction(async (tx) => {
+      // Claim the return first so a second receiver cannot restock it again
+      const claimed = await tx.returnAuthorization.updateMany({
+        where: { id: rma.id, status: 'approved' },
+        data: {
+          status: 'received',
+          receivedLocationId: location.id,
+          receivedAt: new Date(),
+          ...credit,
+        },
+      })
+      if (claimed.count === 0) {
+        throw new Error('This return has already been received')
+      }
+
+      for (const line of input.items) {
+        const item = itemById.get(line.itemId)!
+
+        if (line.disposition === 'restock' && line.receivedQuantity > 0) {
+          await applyInventoryChange(tx, {
+            productId: item.orderItem.productId,
+            locationId: location.id,
+            type: 'return',
+            quantityChange: line.receivedQuantity,
+            notes: `Returned on ${rma.rmaNumber} (order ${rma.order.orderNumber})`,
+            referenceType: 'return',
+            referenceId: rma.id,
+            userId,
+          })
+        }
+
+        await tx.returnAuthorizationItem.update({
+          where: { id: item.id },
+          data: { receivedQuantity: line.receivedQuantity, disposition: line.disposition },
+        })
+      }
+
+      await tx.returnAuthorizationStatusHistory.create({
+        data: {
+          returnId: rma.id,
+          fromStatus: rma.status,
+          toStatus: 'received',
+          changedById: userId,
+          note: input.note || `Received at ${location.name}`,
+        },
+      })
+    })
+
+    notifyRequester(rma, 'received')
+
+    return { success: true, returnId: rma.id, rmaNumber: rma.rmaNumber }
+  } catch (error) {
+    console.error('Failed to receive return:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to receive return',
+    }
+  }
+}
+
+// Issue the credit memo for a received return, applied against the order's open invoices
+export async function issueReturnCredit(returnId: string, userId: string): Promise<ReturnResult> {
+  try {
+    const rma = await prisma.returnAuthorization.findUnique({
+      where: { id: returnId },
+      include: {
+        order: {
+          select: {
+            orderNumber: true,
+            invoices: {
+              select: { id: true, status: true, totalAmount: true, creditedAmount: true },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        },
+      },
+    })
+
+    if (!rma) {
+      return { success: false, error: 'Return not found' }
+    }
+
+    if (rma.status !== 'received') {
+      return { success: false, error: 'Only received returns can be credited' }
+    }
+
+    const applications = planCreditApplication(rma.order.invoices, rma.creditAmount)
+    await withCreditMemoNumbers(applications.length, async (tx, memoNumbers) => {
+      // Claim the return first so a double submit cannot credit it twice
+      const claimed = await tx.returnAuthorization.updateMany({
+        where: { id: rma.id, status: 'received' },
+        data: { status: 'credited', creditedAt: new Date() },
+      })
+      if (claimed.count === 0) {
+        throw new Error('This return has already been credited')
+      }
+
+      for (let i = 0; i < applications.length; i++) {
+        const application = applications[i]
+        await tx.creditMemo.create({
+          data: {
+            memoNumber: memoNumbers[i],
+            dealerId: rma.dealerId,
+            invoiceId: application.invoiceId,
+            returnId: rma.id,
+            amount: application.amount,
+            reason: `Return ${rma.rmaNumber} on order ${rma.order.orderNumber}`,
+            createdBy: userId,
+          },
+        })
+
+        if (application.invoiceId) {
+          await tx.invoice.update({
+            where: { id: application.invoiceId },
+            data: { creditedAmount: { increment: application.amount } },
+          })
+        }
+      }
+
+      await tx.returnAuthorizationStatusHistory.create({
+        data: {
+          returnId: rma.id,
+          fromStatus: rma.status,
+          toStatus: 'credited',
+          changedById: userId,
+          note:
+            applications.length > 0
+              ? `Credit of $${rma.creditAmount.toFixed(2)} issued on ${memoNumbers.join(', ')}`
+              : 'No credit due',
+        },
+      })
+    })
+
+    notifyRequester(
+      rma,
+      'credited',
+      rma.creditAmount > 0 ? `Credit issued: $${rma.creditAmount.toFixed(2)}.` : undefined
+    )
+
+    return { success: true, returnId: rma.id, rmaNumber: rma.rmaNumber }
+  } catch (error) {
+    console.error('Failed to issue return credit:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to issue return credit',
+    }
+  }
+}
+
+// Get a single return by ID
+export async function getReturnById(
+  returnId: string,
+  userRole: string,
+  userDealerId: string | null
+) {
+  const rma = await prisma.returnAuthorization.findUnique({
+    where: { id: returnId },
+    include: {
+      order: { select: { id: true, orderNumber: true, deliveredAt: true } },
+      dealer: { select: { id: true, name: true, code: true } },
+      requestedBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+      reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+      receivedLocation: { select: { id: true, name: true, code: true } },
+      items: {
+        include: {
+          orderItem: {
+            select: {
+              id: true,
+              quantity: true,
+              product: { select: { id: true, name: true, sku: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      creditMemos: {
+        include: { invoice: { select: { invoiceNumber: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      statusHistory: { orderBy: { createdAt: 'desc' } },
+    },
+  })
+
+  if (!rma) return null
+
+  // Check access rights
+  const isAdmin = ADMIN_ROLES.includes(userRole)
+  if (!isAdmin && rma.dealerId !== userDealerId) {
+    return null
+  }
+
+  return rma
+}
+
+// Delivered order lines and how many units of each can still be returned
+export async function getReturnableOrder(orderNumber: string, userDealerId: string | null) {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    include: {
+      items: { include: { product: { select: { name: true, sku: true } } } },
+      returns: { include: { items: true } },
+    },
+  })
+
+  if (!order || order.dealerId !== userDealerId) return null
+
+  const returnable = getReturnableQuantities(
+    order.items,
+    order.returns.flatMap((rma) => rma.items.map((item) => ({ ...item, status: rma.status })))
+  )
+
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    deliveredAt: order.deliveredAt,
+    items: order.items.map((item) => ({
+      id: item.id,
+      productName: item.product.name,
+      productSku: item.product.sku,
+      shippedQuantity: item.shippedQuantity,
+      unitPrice: item.unitPrice,
+      returnableQuantity: returnable.get(item.id) ?? 0,
+    })),
+  }
+}
+
+// List returns with filters; admins see every dealer's returns
+export async function listReturns(
+  filters: ReturnFilterInput,
+  userRole: string,
+  userDealerId: string | null
+) {
+  const isAdmin = ADMIN_ROLES.includes(userRole)
+
+  const where: Record<string, unknown> = {}
+
+  // Dealers can only see their own returns
+  if (!isAdmin) {
+    where.dealerId = userDealerId
+  } else if (filters.dealerId) {
+    where.dealerId = filters.dealerId
+  }
+
+  if (filters.status && filters.status !== 'all') {
+    where.status = filters.status
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { rmaNumber: { contains: filters.search } },
+      { order: { orderNumber: { contains: filters.search } } },
+    ]
+  }
+
+  const [returns, total] = await Promise.all([
+    prisma.returnAuthorization.findMany({
+      where,
+      include: {
+        order: { select: { orderNumber: true } },
+        dealer: { select: { id: true, name: true, code: true } },
+        items: { select: { quantity: true, unitPrice: true } },
+      },
+      orderBy: { [filters.sortBy]: filters.sortOrder },
+      skip: (filters.page - 1) * filters.pageSize,
+      take: filters.pageSize,
+    }),
+    prisma.returnAuthorization.count({ where }),
+  ])
+
+  return {
+    returns,
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  }
+}
+
+// Get return counts by stage and total credited
+export async function getReturnStats(
+  userRole: string,
+  userDealerId: string | null
+): Promise<{
+  total: number
+  pending: number
+  awaitingGoods: number
+  awaitingCredit: number
+  totalCredited: number
+}> {
+  const isAdmin = ADMIN_ROLES.includes(userRole)
+  const where = isAdmin ? {} : { dealerId: userDealerId ?? '' }
+
+  const [total, pending, awaitingGoods, awaitingCredit, credited] = await Promise.all([
+    prisma.returnAuthorization.count({ where }),
+    prisma.returnAuthorization.count({ where: { ...where, status: 'requested' } }),
+    prisma.returnAuthorization.count({ where: { ...where, status: 'approved' } }),
+    prisma.returnAuthorization.count({ where: { ...where, status: 'received' } }),
+    prisma.returnAuthorization.aggregate({
+      where: { ...where, status: 'credited' },
+      _sum: { creditAmount: true },
+    }),
+  ])
+
+  return {
+    total,
+    pending,
+    awaitingGoods,
+    awaitingCredit,
+    totalCredited: credited._sum?.creditAmount || 0,
+  }
+}
@@ -0,0 +1,296 @@
+import { prisma } from '@/lib/prisma'
+import { getDaysOnLot, getMonthPeriod, getPreviousMonthPeriod, shouldAutoEscalate } from '@/lib/jobs'
+import { createAndEmitNotification, deleteOldNotifications } from '@/lib/notifications'
+import { runBatchAccrual, runCoopAccrualBatch } from '@/lib/services/incentives'
+import { getPendingExpiryReminders, markExpiryReminderSent } from '@/lib/services/document'
+import { escalateTicket, getOverdueTickets } from '@/lib/services/support-tickets'
+import { runDueOrderSchedules } from '@/lib/services/order-schedules'
+import { accrueFloorPlanInterest } from '@/lib/services/floor-plan'
+import { chargeBackOverduePartReturn, getOverduePartReturns } from '@/lib/services/warranty-returns'
+
+export type JobContext = {
+  now: Date
+  cursor: string | null
+  // Persist the handler's bookmark immediately, so a failed run can resume
+  saveCursor: (cursor: string | null) => Promise<void>
+}
+
+export type JobDefinition = {
+  key: string
+  name: string
+  description: string
+  cronExpression: string // UTC
+  maxAttempts?: number
+  handler: (context: JobContext) => Promise<string>
+}
+
+// Run a step per item and fail the job at the end if any step failed, so the
+// remaining items are not held up by one bad record
+async function runEach<T>(
+  items: T[],
+  label: (item: T) => string,
+  step: (item: T) => Promise<void>
+): Promise<string[]> {
+  const errors: string[] = []
+  for (const item of items) {
+    try {
+      await step(item)
+    } catch (error) {
+      errors.push(`${label(item)}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return errors
+}
+
+function failIfErrors(errors: string[], total: number): void {
+  if (errors.length > 0) {
+    throw new Error(`${errors.length} of ${total} failed. ${errors.slice(0, 5).join('; ')}`)
+  }
+}
+
+// The user that automated actions are recorded against when no one owns the record
+async function getSystemActorId(): Promise<string | null> {
+  const admin = await prisma.user.findFirst({
+    where: { role: { in: ['super_admin', 'admin'] }, status: 'active' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  })
+  return admin?.id ?? null
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+// Month-to-date rebate accruals; uses yesterday so the last day of a month is finalized
+async function rebateAccrualJob({ now }: JobContext): Promise<string> {
+  const { periodStart, periodEnd } = getMonthPeriod(new Date(now.getTime() - 24 * 60 * 60 * 1000))
+  const programs = await prisma.incentiveProgram.findMany({
+    where: { type: 'rebate', status: 'active' },
+    select: { id: true, name: true },
+  })
+
+  let dealers = 0
+  let total = 0
+  const errors = await runEach(
+    programs,
+    (program) => program.name,
+    async (program) => {
+      const result = await runBatchAccrual(program.id, { periodStart, periodEnd })
+      dealers += result.processedCount
+      total += result.totalAccrued
+    }
+  )
+  failIfErrors(errors, programs.length)
+
+  return `${programs.length} programs, ${dealers} dealer accruals, $${total.toFixed(2)}`
+}
+
+// Co-op funds accrue once per closed month. runCoopAccrualBatch adds to the
+// running balance, so the cursor records which programs are done for the month.
+async function coopAccrualJob({ now, cursor, saveCursor }: JobContext): Promise<string> {
+  const { periodStart, periodEnd, key } = getPreviousMonthPeriod(now)
+  const previous = cursor ? (JSON.parse(cursor) as { period: string; done: string[] }) : null
+  const done = new Set(previous?.period === key ? previous.done : [])
+
+  const programs = await prisma.incentiveProgram.findMany({
+    where: { type: 'coop', status: 'active', id: { notIn: Array.from(done) } },
+    select: { id: true, name: true },
+  })
+
+  let total = 0
+  const errors = await runEach(
+    programs,
+    (program) => program.name,
+    async (program) => {
+      const result = await runCoopAccrualBatch(program.id, periodStart, periodEnd)
+      total += result.totalAccrued
+      done.add(program.id)
+      await saveCursor(JSON.stringify({ period: key, done: Array.from(done) }))
+    }
+  )
+  failIfErrors(errors, programs.length)
+
+  return programs.length === 0
+    ? `${key} already accrued`
+    : `${key}: ${programs.length} co-op programs, $${total.toFixed(2)}`
+}
+
+async function documentExpiryJob(): Promise<string> {
+  const reminders = await getPendingExpiryReminders()
+
+  const errors = await runEach(
+    reminders,
+    (reminder) => reminder.documentName,
+    async (reminder) => {
+      await createAndEmitNotification({
+        userId: reminder.userId,
+        type: 'document_expiry',
+        title: 'Document expiring soon',
+        body: `${reminder.documentName} expires on ${reminder.expiresAt.toLocaleDateString()}`,
+        data: { documentId: reminder.documentId },
+        priority: 'high',
+      })
+      await markExpiryReminderSent(reminder.id)
+    }
+  )
+  failIfErrors(errors, reminders.length)
+
+  return `${reminders.length} reminders sent`
+}
+
+async function notificationCleanupJob(): Promise<string> {
+  const deleted = await deleteOldNotifications()
+  return `${deleted} read notifications deleted`
+}
+
+async function ticketEscalationJob({ now }: JobContext): Promise<string> {
+  const tickets = (await getOverdueTickets()).filter((ticket) => shouldAutoEscalate(ticket, now))
+  const systemActorId = tickets.some((ticket) => !ticket.assignedToId) ? await getSystemActorId() : null
+
+  const errors = await runEach(
+    tickets,
+    (ticket) => ticket.ticketNumber,
+    async (ticket) => {
+      const actorId = ticket.assignedToId ?? systemActorId
+      if (!actorId) throw new Error('No user to record the escalation against')
+      await escalateTicket(ticket.id, actorId, 'SLA overdue')
+    }
+  )
+  failIfErrors(errors, tickets.length)
+
+  return `${tickets.length} overdue tickets escalated`
+}
+
+// Recompute RVUnit.daysOnLot for stocked units and freeze it for sold units
+async function daysOnLotJob({ now }: JobContext): Promise<string> {
+  const units = await prisma.rVUnit.findMany({
+    where: {
+      receivedDate: { not: null },
+      OR: [{ soldDate: null }, { daysOnLot: null }],
+    },
+    select: { id: true, receivedDate: true, soldDate: true, daysOnLot: true },
+  })
+
+  // Group by value so each distinct day count is one update
+  const idsByDays = new Map<number, string[]>()
+  for (const unit of units) {
+    const days = getDaysOnLot(unit.receivedDate, unit.soldDate, now)
+    if (days === null || days === unit.daysOnLot) continue
+    idsByDays.set(days, [...(idsByDays.get(days) ?? []), unit.id])
+  }
+
+  let updated = 0
+  for (const [days, ids] of Array.from(idsByDays.entries())) {
+    const result = await prisma.rVUnit.updateMany({ where: { id: { in: ids } }, data: { daysOnLot: days } })
+    updated += result.count
+  }
+
+  return `${updated} of ${units.length} units updated`
+}
+
+// Charge back warranty credit for defective parts not shipped back by their due date
+async function warrantyPartReturnsJob({ now }: JobContext): Promise<string> {
+  const overdue = await getOverduePartReturns(now)
+  if (overdue.length === 0) return '0 overdue part returns'
+
+  const systemActorId = await getSystemActorId()
+  if (!systemActorId) throw new Error('No user to record the chargebacks against')
+
+  let amount = 0
+  const errors = await runEach(
+    overdue,
+    (partReturn) => partReturn.tagNumber,
+    async (partReturn) => {
+      amount += await chargeBackOverduePartReturn(partReturn.id, systemActorId, now)
+    }
+  )
+  failIfErrors(errors, overdue.length)
+
+  return `${overdue.length} overdue part returns, $${amount.toFixed(2)} charged back`
+}
+
+async function orderSchedulesJob({ now }: JobContext): Promise<string> {
+  const result = await runDueOrderSchedules(now)
+  return `${result.processed} schedules: ${result.submitted} submitted, ${result.drafts} drafts, ${result.skipped} skipped, ${result.failed} failed`
+}
+
+async function floorPlanInterestJob({ now }: JobContext): Promise<string> {
+  const result = await accrueFloorPlanInterest(now)
+  return `${result.accounts} accounts, $${result.interest.toFixed(2)} accrued`
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    key: 'order-schedules',
+    name: 'Recurring orders',
+    description: 'Places orders for dealer order schedules that are due',
+    cronExpression: '*/15 * * * *',
+    maxAttempts: 1,
+    handler: orderSchedulesJob,
+  },
+  {
+    key: 'floor-plan-interest',
+    name: 'Floor-plan interest accrual',
+    description: 'Writes daily interest accruals for active floor-plan accounts',
+    cronExpression: '30 0 * * *',
+    handler: floorPlanInterestJob,
+  },
+  {
+    key: 'days-on-lot',
+    name: 'Days on lot',
+    description: 'Updates RVUnit.daysOnLot for the aging and sales reports',
+    cronExpression: '0 1 * * *',
+    handler: daysOnLotJob,
+  },
+  {
+    key: 'rebate-accrual',
+    name: 'Rebate accruals',
+    description: 'Recalculates month-to-date accruals for active rebate programs',
+    cronExpression: '0 3 * * *',
+    handler: rebateAccrualJob,
+  },
+  {
+    key: 'coop-accrual',
+    name: 'Co-op fund accruals',
+    description: 'Accrues co-op funds for the previous month once it closes',
+    cronExpression: '0 4 1 * *',
+    handler: coopAccrualJob,
+  },
+  {
+    key: 'document-expiry-reminders',
+    name: 'Document expiry reminders',
+    description: 'Notifies users about documents entering their reminder window',
+    cronExpression: '0 13 * * *',
+    handler: documentExpiryJob,
+  },
+  {
+    key: 'ticket-escalation',
+    name: 'Support ticket escalation',
+    description: 'Escalates tickets past their SLA, one level per day',
+    cronExpression: '0 * * * *',
+    handler: ticketEscalationJob,
+  },
+  {
+    key: 'warranty-part-returns',
+    name: 'Warranty part return chargebacks',
+    description: 'Charges back warranty credit for parts not returned by their due date',
+    cronExpression: '0 6 * * *',
+    handler: warrantyPartReturnsJob,
+  },
+  {
+    key: 'notification-cleanup',
+    name: 'Notification cleanup',
+    description: 'Deletes read notifications older than 30 days',
+    cronExpression: '0 5 * * 0',
+    handler: notificationCleanupJob,
+  },
+]
+
+export function getJobDefinition(key: string): JobDefinition | undefined {
+  return JOB_DEFINITIONS.find((job) => job.key === key)
+}
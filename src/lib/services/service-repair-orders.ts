@@ -0,0 +1,609 @@
+import { prisma } from '@/lib/prisma'
+import { createWarrantyClaim } from '@/lib/services/warranty'
+import {
+  OPEN_REPAIR_ORDER_STATUSES,
+  calculateClockedHours,
+  calculateRepairOrderTotals,
+  getRepairOrderCloseBlockers,
+  nextRepairOrderNumber,
+} from '@/lib/service-repair-order'
+import type {
+  OpenRepairOrderInput,
+  RepairOrderLineInput,
+  RepairOrderPartInput,
+  UpdateRepairOrderLineInput,
+} from '@/lib/validations/service-order'
+import type { RepairOrder, RepairOrderLine, RepairOrderSummary } from '@/types/rv'
+
+const repairOrderInclude = {
+  rvUnit: {
+    select: {
+      id: true,
+      vin: true,
+      dealerId: true,
+      status: true,
+      modelYear: true,
+      warrantyStartDate: true,
+      warrantyEndDate: true,
+      model: { select: { code: true, name: true, series: true } },
+    },
+  },
+  lines: {
+    orderBy: { lineNumber: 'asc' as const },
+    include: {
+      parts: { orderBy: { createdAt: 'asc' as const } },
+      laborEntries: { orderBy: { clockIn: 'asc' as const } },
+      warrantyClaim: { select: { claimNumber: true } },
+    },
+  },
+}
+
+async function getDealerRepairOrder(dealerId: string, roNumber: string) {
+  const record = await prisma.serviceRecord.findUnique({
+    where: { serviceNumber: roNumber },
+    include: repairOrderInclude,
+  })
+  if (!record || record.rvUnit.dealerId !== dealerId) throw new Error('Repair order not found')
+  return record
+}
+
+type RepairOrderRecord = Awaited<ReturnType<typeof getDealerRepairOrder>>
+
+function assertEditable(record: RepairOrderRecord) {
+  if (!OPEN_REPAIR_ORDER_STATUSES.includes(record.status)) {
+    throw new Error(`Repair order ${record.serviceNumber} is ${record.status}`)
+  }
+}
+
+function findLine(record: RepairOrderRecord, lineId: string) {
+  const line = record.lines.find((candidate) => candidate.id === lineId)
+  if (!line) throw new Error('Repair order line not found')
+  return line
+}
+
+function describeUnit(unit: RepairOrderRecord['rvUnit']): string {
+  return `${unit.modelYear} ${unit.model.series} ${unit.model.name}`
+}
+
+// Rows in the unit's service history read the header fields, so keep them
+// in step with the lines after every change
+async function syncRepairOrder(serviceRecordId: string) {
+  const record = await prisma.serviceRecord.findUniqueOrThrow({
+    where: { id: serviceRecordId },
+    include: {
+      lines: {
+        orderBy: { lineNumber: 'asc' },
+        include: { parts: true, laborEntries: { orderBy: { clockIn: 'asc' } } },
+      },
+    },
+  })
+
+  const totals = calculateRepairOrderTotals(record.lines, record.laborRate ?? 0)
+  const numbered = (field: 'complaint' | 'cause' | 'correction') =>
+    record.lines
+      .filter((line) => line[field])
+      .map((line) => `${line.lineNumber}. ${line[field]}`)
+      .join('\n') || null
+  const lastEntry = record.lines
+    .flatMap((line) => line.laborEntries)
+    .sort((a, b) => b.clockIn.getTime() - a.clockIn.getTime())[0]
+
+  await prisma.serviceRecord.update({
+    where: { id: record.id },
+    data: {
+      laborHours: totals.laborHours,
+      laborCost: totals.laborCost,
+      partsCost: totals.partsCost,
+      subletCost: totals.subletCost,
+      totalCost: totals.totalCost,
+      partsUsed: JSON.stringify(
+        record.lines.flatMap((line) =>
+          line.parts.map((part) => ({
+            partNumber: part.partNumber,
+            name: part.name,
+            qty: part.quantity,
+            cost: part.unitPrice,
+          }))
+        )
+      ),
+      complaint: numbered('complaint'),
+      cause: numbered('cause'),
+      correction: numbered('correction'),
+      technicianId: lastEntry?.technicianId ?? null,
+      technicianName: lastEntry?.technicianName ?? null,
+    },
+  })
+}
+
+function mapRepairOrderLine(line: RepairOrderRecord['lines'][number]): RepairOrderLine {
+  return {
+    id: line.id,
+    lineNumber: line.lineNumber,
+    payType: line.payType as RepairOrderLine['payType'],
+    complaint: line.complaint,
+    cause: line.cause ?? undefined,
+    correction: line.correction ?? undefined,
+    subletCost: line.subletCost,
+    subletVendor: line.subletVendor ?? undefined,
+    warrantyClaimId: line.warrantyClaimId ?? undefined,
+    warrantyClaimNumber: line.warrantyClaim?.claimNumber,
+    parts: line.parts.map((part) => ({
+      id: part.id,
+      partId: part.partId ?? undefined,
+      partNumber: part.partNumber,
+      name: part.name,
+      quantity: part.quantity,
+      unitCost: part.unitCost,
+      unitPrice: part.unitPrice,
+    })),
+    laborEntries: line.laborEntries.map((entry) => ({
+      id: entry.id,
+      technicianId: entry.technicianId ?? undefined,
+      technicianName: entry.technicianName,
+      clockIn: entry.clockIn,
+      clockOut: entry.clockOut ?? undefined,
+      hours: entry.hours ?? undefined,
+    })),
+  }
+}
+
+function mapRepairOrder(record: RepairOrderRecord): RepairOrder {
+  const laborRate = record.laborRate ?? 0
+  const totals = calculateRepairOrderTotals(record.lines, laborRate)
+  return {
+    id: record.id,
+    roNumber: record.serviceNumber ?? '',
+    rvUnitId: record.rvUnitId,
+    vin: record.rvUnit.vin,
+    unitDescription: describeUnit(record.rvUnit),
+    warrantyEndDate: record.rvUnit.warrantyEndDate ?? undefined,
+    serviceType: record.serviceType as RepairOrder['serviceType'],
+    description: record.description,
+    customerName: record.customerName ?? undefined,
+    customerPhone: record.customerPhone ?? undefined,
+    mileageIn: record.mileageIn ?? undefined,
+    hoursIn: record.hoursIn ?? undefined,
+    laborRate,
+    ...totals,
+    status: record.status as RepairOrder['status'],
+    cancelReason: record.cancelReason ?? undefined,
+    lines: record.lines.map(mapRepairOrderLine),
+    dateIn: record.dateIn,
+    dateOut: record.dateOut ?? undefined,
+    promisedDate: record.promisedDate ?? undefined,
+  }
+}
+
+export async function getRepairOrder(dealerId: string, roNumber: string): Promise<RepairOrder> {
+  return mapRepairOrder(await getDealerRepairOrder(dealerId, roNumber))
+}
+
+export async function listRepairOrders(
+  dealerId: string,
+  filters: { status?: 'open' | 'completed' | 'cancelled' | 'all'; search?: string } = {}
+): Promise<RepairOrderSummary[]> {
+  const status = filters.status ?? 'open'
+  const records = await prisma.serviceRecord.findMany({
+    where: {
+      serviceNumber: { not: null },
+      rvUnit: { dealerId },
+      ...(status === 'open' && { status: { in: OPEN_REPAIR_ORDER_STATUSES } }),
+      ...(status !== 'open' && status !== 'all' && { status }),
+      ...(filters.search && {
+        OR: [
+          { serviceNumber: { contains: filters.search } },
+          { customerName: { contains: filters.search } },
+          { rvUnit: { vin: { contains: filters.search } } },
+        ],
+      }),
+    },
+    include: {
+      rvUnit: { select: { vin: true, modelYear: true, model: { select: { name: true, series: true } } } },
+      _count: { select: { lines: true } },
+    },
+    orderBy: { dateIn: 'desc' },
+    take: 200,
+  })
+
+  return records.map((record) => ({
+    id: record.id,
+    roNumber: record.serviceNumber ?? '',
+    vin: record.rvUnit.vin,
+    unitDescription: `${record.rvUnit.modelYear} ${record.rvUnit.model.series} ${record.rvUnit.model.name}`,
+    customerName: record.customerName ?? undefined,
+    description: record.description,
+    status: record.status as RepairOrderSummary['status'],
+    lineCount: record._count.lines,
+    totalCost: record.totalCost ?? 0,
+    dateIn: record.dateIn,
+    promisedDate: record.promisedDate ?? undefined,
+  }))
+}
+
+// Active users at the dealership who can clock time on an RO
+export async function getServiceTechnicians(dealerId: string) {
+  const users = await prisma.user.findMany({
+    where: { dealerId, status: 'active' },
+    select: { id: true, firstName: true, lastName: true },
+    orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+  })
+  return users.map((user) => ({ id: user.id, name: `${user.firstName} ${user.lastName}` }))
+}
+
+async function generateRepairOrderNumber(): Promise<string> {
+  const year = new Date().getFullYear()
+  const last = await prisma.serviceRecord.findFirst({
+    where: { serviceNumber: { startsWith: `RO-${year}-` } },
+    orderBy: { serviceNumber: 'desc' },
+    select: { serviceNumber: true },
+  })
+  return nextRepairOrderNumber(year, last?.serviceNumber ?? null)
+}
+
+// Open an RO against a VIN. The unit shows as in service until the RO closes.
+// serviceType defaults to the first line's pay type; PDI repairs pass 'pdi'
+export async function openRepairOrder(
+  dealerId: string,
+  input: OpenRepairOrderInput,
+  userId: string,
+  serviceType?: string
+) {
+  const unit = await prisma.rVUnit.findUnique({ where: { vin: input.vin } })
+  if (!unit || unit.dealerId !== dealerId) throw new Error('Unit not found')
+
+  const openOrder = await prisma.serviceRecord.findFirst({
+    where: { rvUnitId: unit.id, status: { in: OPEN_REPAIR_ORDER_STATUSES } },
+    select: { serviceNumber: true },
+  })
+  if (openOrder) throw new Error(`Unit already has open repair order ${openOrder.serviceNumber}`)
+
+  const roNumber = await generateRepairOrderNumber()
+  await prisma.$transaction([
+    prisma.serviceRecord.create({
+      data: {
+        rvUnitId: unit.id,
+        serviceNumber: roNumber,
+        serviceType: serviceType ?? input.lines[0].payType,
+        description: input.description,
+        customerName: input.customerName || null,
+        customerPhone: input.customerPhone || null,
+        mileageIn: input.mileageIn ?? null,
+        hoursIn: input.hoursIn ?? null,
+        laborRate: input.laborRate,
+        laborHours: 0,
+        laborCost: 0,
+        partsCost: 0,
+        subletCost: 0,
+        totalCost: 0,
+        complaint: input.lines.map((line, index) => `${index + 1}. ${line.complaint}`).join('\n'),
+        status: 'open',
+        previousUnitStatus: unit.status === 'service' ? null : unit.status,
+        openedById: userId,
+        dateIn: new Date(),
+        promisedDate: input.promisedDate ?? null,
+        lines: {
+          create: input.lines.map((line, index) => ({
+            lineNumber: index + 1,
+            payType: line.payType,
+            complaint: line.complaint,
+          })),
+        },
+      },
+    }),
+    prisma.rVUnit.update({ where: { id: unit.id }, data: { status: 'service' } }),
+  ])
+
+  return roNumber
+}
+
+export async function addRepairOrderLine(dealerId: string, roNumber: string, input: RepairOrderLineInput) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+
+  const lineNumber = Math.max(0, ...record.lines.map((line) => line.lineNumber)) + 1
+  await prisma.serviceRecordLine.create({
+    data: { serviceRecordId: record.id, lineNumber, payType: input.payType, complaint: input.complaint },
+  })
+  await syncRepairOrder(record.id)
+}
+
+export async function updateRepairOrderLine(
+  dealerId: string,
+  roNumber: string,
+  lineId: string,
+  input: UpdateRepairOrderLineInput
+) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const line = findLine(record, lineId)
+  if (line.warrantyClaimId && input.payType && input.payType !== line.payType) {
+    throw new Error(`Line ${line.lineNumber} is already on warranty claim ${line.warrantyClaim?.claimNumber}`)
+  }
+
+  await prisma.serviceRecordLine.update({
+    where: { id: line.id },
+    data: {
+      ...(input.payType && { payType: input.payType }),
+      ...(input.cause !== undefined && { cause: input.cause.trim() || null }),
+      ...(input.correction !== undefined && { correction: input.correction.trim() || null }),
+      ...(input.subletCost !== undefined && { subletCost: input.subletCost }),
+      ...(input.subletVendor !== undefined && { subletVendor: input.subletVendor.trim() || null }),
+    },
+  })
+  await syncRepairOrder(record.id)
+}
+
+export async function removeRepairOrderLine(dealerId: string, roNumber: string, lineId: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const line = findLine(record, lineId)
+  if (line.parts.length > 0 || line.laborEntries.length > 0) {
+    throw new Error(`Line ${line.lineNumber} has parts or labor on it`)
+  }
+  if (record.lines.length === 1) throw new Error('A repair order needs at least one line')
+
+  await prisma.serviceRecordLine.delete({ where: { id: line.id } })
+  await syncRepairOrder(record.id)
+}
+
+// Take a part from catalog stock and charge it to the line at list price
+export async function addRepairOrderPart(
+  dealerId: string,
+  roNumber: string,
+  lineId: string,
+  input: RepairOrderPartInput
+) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const line = findLine(record, lineId)
+
+  await prisma.$transaction(async (tx) => {
+    const part = await tx.part.findUnique({
+      where: { partNumber: input.partNumber },
+      include: { supersededBy: { select: { partNumber: true } } },
+    })
+    if (!part) throw new Error(`Part ${input.partNumber} not found`)
+    if (part.supersededBy) {
+      throw new Error(`Part ${part.partNumber} is superseded by ${part.supersededBy.partNumber}`)
+    }
+
+    const available = part.quantityOnHand - part.quantityReserved
+    if (available < input.quantity) {
+      throw new Error(`Only ${Math.max(available, 0)} of ${part.partNumber} available`)
+    }
+
+    await tx.part.update({
+      where: { id: part.id },
+      data: { quantityOnHand: { decrement: input.quantity } },
+    })
+    await tx.serviceRecordPart.create({
+      data: {
+        lineId: line.id,
+        partId: part.id,
+        partNumber: part.partNumber,
+        name: part.name,
+        quantity: input.quantity,
+        unitCost: part.dealerPrice,
+        unitPrice: part.listPrice,
+      },
+    })
+  })
+  await syncRepairOrder(record.id)
+}
+
+// Take a part back off the line and return it to stock
+export async function removeRepairOrderPart(dealerId: string, roNumber: string, partLineId: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const line = record.lines.find((candidate) => candidate.parts.some((part) => part.id === partLineId))
+  const part = line?.parts.find((candidate) => candidate.id === partLineId)
+  if (!line || !part) throw new Error('Part not found on this repair order')
+  if (line.warrantyClaimId) {
+    throw new Error(`Line ${line.lineNumber} is already on warranty claim ${line.warrantyClaim?.claimNumber}`)
+  }
+
+  await prisma.$transaction([
+    prisma.serviceRecordPart.delete({ where: { id: part.id } }),
+    ...(part.partId
+      ? [prisma.part.update({ where: { id: part.partId }, data: { quantityOnHand: { increment: part.quantity } } })]
+      : []),
+  ])
+  await syncRepairOrder(record.id)
+}
+
+// A technician works one line at a time
+export async function clockTechnicianIn(
+  dealerId: string,
+  roNumber: string,
+  lineId: string,
+  technician: { id: string; name: string }
+) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const line = findLine(record, lineId)
+
+  const openEntry = await prisma.serviceLaborEntry.findFirst({
+    where: { technicianId: technician.id, clockOut: null },
+    include: { line: { select: { lineNumber: true, serviceRecord: { select: { serviceNumber: true } } } } },
+  })
+  if (openEntry) {
+    throw new Error(
+      `${technician.name} is already clocked in on ${openEntry.line.serviceRecord.serviceNumber} line ${openEntry.line.lineNumber}`
+    )
+  }
+
+  await prisma.serviceLaborEntry.create({
+    data: { lineId: line.id, technicianId: technician.id, technicianName: technician.name, clockIn: new Date() },
+  })
+  if (record.status === 'open') {
+    await prisma.serviceRecord.update({ where: { id: record.id }, data: { status: 'in_progress' } })
+  }
+  await syncRepairOrder(record.id)
+}
+
+export async function clockTechnicianOut(dealerId: string, roNumber: string, entryId: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const entry = record.lines.flatMap((line) => line.laborEntries).find((candidate) => candidate.id === entryId)
+  if (!entry) throw new Error('Labor entry not found')
+  if (entry.clockOut) throw new Error(`${entry.technicianName} is already clocked out`)
+
+  const clockOut = new Date()
+  await prisma.serviceLaborEntry.update({
+    where: { id: entry.id },
+    data: { clockOut, hours: calculateClockedHours(entry.clockIn, clockOut) },
+  })
+  await syncRepairOrder(record.id)
+}
+
+// Put the unit back to where it was before it came into service
+async function releaseUnit(record: RepairOrderRecord) {
+  if (record.rvUnit.status !== 'service') return
+  await prisma.rVUnit.update({
+    where: { id: record.rvUnit.id },
+    data: { status: record.previousUnitStatus ?? 'in_stock' },
+  })
+}
+
+export async function closeRepairOrder(dealerId: string, roNumber: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+
+  const blockers = getRepairOrderCloseBlockers(record.lines)
+  if (blockers.length > 0) throw new Error(blockers[0])
+
+  await syncRepairOrder(record.id)
+  const dateOut = new Date()
+  await prisma.serviceRecord.update({
+    where: { id: record.id },
+    data: { status: 'completed', dateOut },
+  })
+  await prisma.rVUnit.update({ where: { id: record.rvUnit.id }, data: { lastServiceDate: dateOut } })
+  await releaseUnit(record)
+}
+
+// Cancelling returns any parts to stock and drops unfinished clock entries
+export async function cancelRepairOrder(dealerId: string, roNumber: string, reason: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  assertEditable(record)
+  const claimed = record.lines.find((line) => line.warrantyClaimId)
+  if (claimed) {
+    throw new Error(`Line ${claimed.lineNumber} is on warranty claim ${claimed.warrantyClaim?.claimNumber}`)
+  }
+
+  const parts = record.lines.flatMap((line) => line.parts)
+  await prisma.$transaction([
+    ...parts
+      .filter((part) => part.partId)
+      .map((part) =>
+        prisma.part.update({ where: { id: part.partId as string }, data: { quantityOnHand: { increment: part.quantity } } })
+      ),
+    prisma.serviceRecordPart.deleteMany({ where: { id: { in: parts.map((part) => part.id) } } }),
+    prisma.serviceLaborEntry.deleteMany({
+      where: { lineId: { in: record.lines.map((line) => line.id) }, clockOut: null },
+    }),
+  ])
+  await syncRepairOrder(record.id)
+  await prisma.serviceRecord.update({
+    where: { id: record.id },
+    data: { status: 'cancelled', cancelReason: reason, dateOut: new Date() },
+  })
+  await releaseUnit(record)
+}
+
+/**
+ * Turn the RO's unclaimed warranty lines into a draft warranty claim,
+ * prefilled with the unit, customer, complaint/cause/correction, clocked
+ * labor and parts. Returns the new claim number.
+ */
+export async function createWarrantyClaimFromRepairOrder(dealerId: string, roNumber: string, userId: string) {
+  const record = await getDealerRepairOrder(dealerId, roNumber)
+  if (record.status === 'cancelled') throw new Error(`Repair order ${roNumber} is cancelled`)
+
+  const lines = record.lines.filter((line) => line.payType === 'warranty' && !line.warrantyClaimId)
+  if (lines.length === 0) throw new Error('There are no unclaimed warranty lines on this repair order')
+  for (const line of lines) {
+    if (!line.cause?.trim() || !line.correction?.trim()) {
+      throw new Error(`Line ${line.lineNumber} needs a cause and correction before it can be claimed`)
+    }
+    if (line.laborEntries.some((entry) => !entry.clockOut)) {
+      throw new Error(`Clock out of line ${line.lineNumber} before claiming it`)
+    }
+  }
+
+  const unit = record.rvUnit
+  const laborHours = calculateRepairOrderTotals(lines, 0).laborHours
+
+  const issueDescription = [
+    `Repair order ${roNumber}`,
+    ...lines.map((line) =>
+      [
+        `Line ${line.lineNumber}`,
+        `Complaint: ${line.complaint}`,
+        `Cause: ${line.cause}`,
+        `Correction: ${line.correction}`,
+        ...(line.subletCost > 0 ? [`Sublet: ${line.subletVendor ?? 'outside vendor'} ${line.subletCost.toFixed(2)}`] : []),
+      ].join('\n')
+    ),
+  ].join('\n\n')
+
+  const result = await createWarrantyClaim(
+    {
+      claimType: 'product_defect',
+      productName: describeUnit(unit),
+      serialNumber: unit.vin,
+      modelNumber: unit.model.code,
+      purchaseDate: unit.warrantyStartDate ?? undefined,
+      rvUnitId: unit.id,
+      vin: unit.vin,
+      customerName: record.customerName ?? undefined,
+      customerPhone: record.customerPhone ?? undefined,
+      issueDescription,
+      failureDate: record.dateIn,
+      failureMileage: record.mileageIn ?? undefined,
+      // Coverage is determined from the unit's warranty terms
+      isUnderWarranty: true,
+      goodwillRequested: false,
+      laborHours,
+      laborRate: record.laborRate ?? 0,
+      partsAmount: 0,
+      shippingAmount: 0,
+      priority: 'normal',
+      items: lines.flatMap((line) =>
+        line.parts.map((part) => ({
+          partNumber: part.partNumber,
+          partName: part.name,
+          quantity: part.quantity,
+          unitCost: part.unitCost,
+          issueType: 'defective' as const,
+          issueDescription: `${roNumber} line ${line.lineNumber}`,
+          component: 'general' as const,
+        }))
+      ),
+      submitNow: false,
+    },
+    userId,
+    dealerId
+  )
+  if (!result.success || !result.claimId) throw new Error(result.error || 'Failed to create warranty claim')
+
+  await prisma.$transaction([
+    prisma.warrantyClaim.update({
+      where: { id: result.claimId },
+      data: {
+        unitModelYear: unit.modelYear,
+        unitModelName: `${unit.model.series} ${unit.model.name}`,
+      },
+    }),
+    prisma.serviceRecordLine.updateMany({
+      where: { id: { in: lines.map((line) => line.id) } },
+      data: { warrantyClaimId: result.claimId },
+    }),
+    prisma.serviceRecord.update({
+      where: { id: record.id },
+      data: { warrantyClaimId: record.warrantyClaimId ?? result.claimId },
+    }),
+  ])
+
+  return result.claimNumber as string
+}
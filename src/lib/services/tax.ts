@@ -0,0 +1,227 @@
+'use server'
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import {
+  calculateOrderTotals,
+  createRateTableProvider,
+  normalizeState,
+  type OrderTotals,
+  type TaxAddress,
+  type TaxExemption,
+  type TaxProvider,
+  type TaxRateTable,
+} from '@/lib/tax'
+import type { DealTaxContext } from '@/lib/deal-worksheet'
+
+export type TaxCertificate = {
+  id: string
+  certificateNumber: string
+  type: string
+  state: string | null
+  effectiveDate: Date
+  expiresAt: Date | null
+  status: string
+  notes: string | null
+  createdAt: Date
+}
+
+export type CreateTaxCertificateInput = {
+  dealerId: string
+  certificateNumber: string
+  type: 'resale' | 'exempt'
+  state?: string | null
+  effectiveDate?: Date
+  expiresAt?: Date | null
+  notes?: string
+}
+
+// Rate table is read once per process; override the location with TAX_RATES_FILE
+let cachedRateTable: TaxRateTable | null = null
+
+async function loadRateTable(): Promise<TaxRateTable> {
+  if (cachedRateTable) return cachedRateTable
+
+  const filePath = process.env.TAX_RATES_FILE || path.join(process.cwd(), 'prisma', 'tax-rates.json')
+  const contents = await readFile(filePath, 'utf-8')
+  cachedRateTable = JSON.parse(contents) as TaxRateTable
+
+  return cachedRateTable
+}
+
+async function getTaxProvider(): Promise<TaxProvider> {
+  const table = await loadRateTable()
+  return createRateTableProvider(table)
+}
+
+// Parse a JSON address and fall back to the dealer's primary shipping address
+async function resolveTaxAddress(
+  dealerId: string,
+  shippingAddress?: string | TaxAddress | null
+): Promise<TaxAddress | null> {
+  let address: Partial<TaxAddress> | null = null
+
+  if (typeof shippingAddress === 'string') {
+    try {
+      address = JSON.parse(shippingAddress)
+    } catch {
+      address = null
+    }
+  } else if (shippingAddress) {
+    address = shippingAddress
+  }
+
+  if (address?.state && address?.zipCode) {
+    return { state: address.state, zipCode: address.zipCode }
+  }
+
+  const dealerAddress = await prisma.dealerAddress.findFirst({
+    where: { dealerId, type: { in: ['shipping', 'physical'] } },
+    orderBy: [{ isPrimary: 'desc' }, { type: 'desc' }],
+  })
+
+  return dealerAddress ? { state: dealerAddress.state, zipCode: dealerAddress.zipCode } : null
+}
+
+// Find an active certificate covering the destination state
+export async function findTaxExemption(
+  dealerId: string,
+  state: string
+): Promise<TaxExemption | null> {
+  const now = new Date()
+  const certificate = await prisma.taxExemptCertificate.findFirst({
+    where: {
+      dealerId,
+      status: 'active',
+      effectiveDate: { lte: now },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      AND: [{ OR: [{ state: normalizeState(state) }, { state: null }] }],
+    },
+    orderBy: { effectiveDate: 'desc' },
+  })
+
+  if (!certificate) return null
+
+  return {
+    certificateId: certificate.id,
+    certificateNumber: certificate.certificateNumber,
+    type: certificate.type as TaxExemption['type'],
+  }
+}
+
+// Quote subtotal, shipping and destination tax for a dealer order
+export async function quoteOrderTotals(input: {
+  dealerId: string
+  items: Array<{ quantity: number; unitPrice: number }>
+  shippingAddress?: string | TaxAddress | null
+}): Promise<OrderTotals> {
+  const [provider, address] = await Promise.all([
+    getTaxProvider(),
+    resolveTaxAddress(input.dealerId, input.shippingAddress),
+  ])
+
+  const exemption = address ? await findTaxExemption(input.dealerId, address.state) : null
+
+  return calculateOrderTotals({
+    items: input.items,
+    provider,
+    address,
+    exemption,
+  })
+}
+
+// Tax rules for an RV sold to a buyer at this address. Exempt sales (e.g.
+// wholesale for resale) still report the state but carry no rates.
+export async function getVehicleSaleTaxContext(
+  address: TaxAddress | null,
+  exempt: boolean = false
+): Promise<DealTaxContext> {
+  if (!address?.state) {
+    return { state: null, rates: [], tradeInCredit: true, exempt }
+  }
+
+  const provider = await getTaxProvider()
+  const state = normalizeState(address.state)
+  return {
+    state,
+    rates: exempt ? [] : provider.getRates(address),
+    tradeInCredit: provider.allowsTradeInCredit?.(state) ?? true,
+    exempt,
+  }
+}
+
+export async function getDealerTaxCertificates(dealerId: string): Promise<TaxCertificate[]> {
+  return prisma.taxExemptCertificate.findMany({
+    where: { dealerId },
+    select: {
+      id: true,
+      certificateNumber: true,
+      type: true,
+      state: true,
+      effectiveDate: true,
+      expiresAt: true,
+      status: true,
+      notes: true,
+      createdAt: true,
+    },
+    orderBy: [{ status: 'asc' }, { effectiveDate: 'desc' }],
+  })
+}
+
+export async function createTaxCertificate(
+  input: CreateTaxCertificateInput
+): Promise<{ success: boolean; certificateId?: string; error?: string }> {
+  try {
+    if (!input.certificateNumber.trim()) {
+      return { success: false, error: 'Certificate number is required' }
+    }
+
+    const state = input.state ? normalizeState(input.state) : null
+    if (state && !/^[A-Z]{2}$/.test(state)) {
+      return { success: false, error: 'State must be a two-letter code' }
+    }
+
+    const certificate = await prisma.taxExemptCertificate.create({
+      data: {
+        dealerId: input.dealerId,
+        certificateNumber: input.certificateNumber.trim(),
+        type: input.type,
+        state,
+        effectiveDate: input.effectiveDate || new Date(),
+        expiresAt: input.expiresAt || null,
+        notes: input.notes,
+      },
+    })
+
+    return { success: true, certificateId: certificate.id }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add certificate',
+    }
+  }
+}
+
+export async function revokeTaxCertificate(
+  dealerId: string,
+  certificateId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Scoped to the dealer so a certificate can't be revoked from another dealer's page
+    const result = await prisma.taxExemptCertificate.updateMany({
+      where: { id: certificateId, dealerId },
+      data: { status: 'revoked' },
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Certificate not found' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke certificate',
+    }
+  }
+}
@@ -0,0 +1,405 @@
+import { prisma } from '@/lib/prisma'
+import {
+  checkLienPayoff,
+  checkTradeInUnitVin,
+  parseInspection,
+  summarizeInspection,
+  type InspectionResult,
+  type InspectionSummary,
+  type LienWarning,
+} from '@/lib/trade-in-appraisal'
+import type {
+  TradeInAppraisalInput,
+  TradeInDecisionInput,
+  TradeInLienInput,
+} from '@/lib/validations/trade-in'
+
+// The trade is fixed once the deal is closed
+const LOCKED_ORDER_STATUSES = ['completed', 'cancelled']
+
+// Appraisal can be redone until a manager has decided on it
+const APPRAISABLE_STATUSES = ['pending', 'appraised']
+
+export type TradeInValuationEntry = {
+  id: string
+  type: string
+  value: number
+  note: string | null
+  createdAt: Date
+}
+
+export type TradeInAppraisalData = {
+  orderNumber: string
+  orderStatus: string
+  isLocked: boolean
+  tradeIn: {
+    id: string
+    status: string
+    vehicleType: string
+    year: number
+    make: string
+    model: string
+    trim: string | null
+    vin: string | null
+    mileage: number | null
+    hours: number | null
+    condition: string
+    exteriorColor: string | null
+    rvModelId: string | null
+    estimatedValue: number
+    bookValue: number | null
+    appraisedValue: number | null
+    approvedValue: number | null
+    acv: number | null
+    reconditioningCost: number | null
+    appraisalNotes: string | null
+    appraisedAt: Date | null
+    approvedAt: Date | null
+    hasLien: boolean
+    lienHolder: string | null
+    lienPayoff: number | null
+    lienPayoffGoodThrough: Date | null
+    lienVerifiedAt: Date | null
+    photos: string[]
+    rvUnitVin: string | null
+  }
+  inspection: InspectionResult[]
+  summary: InspectionSummary
+  lienWarnings: LienWarning[]
+  valuations: TradeInValuationEntry[]
+}
+
+async function getOrderTradeIn(dealerId: string, orderNumber: string) {
+  const order = await prisma.vehicleOrder.findUnique({
+    where: { orderNumber },
+    include: {
+      tradeIn: {
+        include: {
+          valuations: { orderBy: { createdAt: 'desc' } },
+          rvUnit: { select: { vin: true } },
+        },
+      },
+    },
+  })
+  if (!order || order.dealerId !== dealerId) throw new Error('Order not found')
+  if (!order.tradeIn) throw new Error('This order has no trade-in')
+  return { ...order, tradeIn: order.tradeIn }
+}
+
+type OrderWithTradeIn = Awaited<ReturnType<typeof getOrderTradeIn>>
+
+function assertOrderOpen(order: OrderWithTradeIn) {
+  if (LOCKED_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`The trade-in cannot be changed on a ${order.status} order`)
+  }
+}
+
+function parsePhotos(json: string | null): string[] {
+  if (!json) return []
+  try {
+    const photos = JSON.parse(json)
+    return Array.isArray(photos) ? photos.filter((photo) => typeof photo === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Keep the order's trade figures and total in step with the trade-in
+async function updateOrderTrade(order: OrderWithTradeIn, allowance: number, payoff: number) {
+  const oldEquity = order.tradeInAllowance - order.tradeInPayoff
+  const newEquity = allowance - payoff
+  await prisma.vehicleOrder.update({
+    where: { id: order.id },
+    data: {
+      tradeInAllowance: allowance,
+      tradeInPayoff: payoff,
+      totalPrice: { increment: oldEquity - newEquity },
+    },
+  })
+}
+
+export async function getTradeInAppraisal(
+  dealerId: string,
+  orderNumber: string,
+  asOf: Date = new Date()
+): Promise<TradeInAppraisalData> {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  const tradeIn = order.tradeIn
+  const inspection = parseInspection(tradeIn.inspection)
+
+  return {
+    orderNumber: order.orderNumber,
+    orderStatus: order.status,
+    isLocked: LOCKED_ORDER_STATUSES.includes(order.status),
+    tradeIn: {
+      id: tradeIn.id,
+      status: tradeIn.status,
+      vehicleType: tradeIn.vehicleType,
+      year: tradeIn.year,
+      make: tradeIn.make,
+      model: tradeIn.model,
+      trim: tradeIn.trim,
+      vin: tradeIn.vin,
+      mileage: tradeIn.mileage,
+      hours: tradeIn.hours,
+      condition: tradeIn.condition,
+      exteriorColor: tradeIn.exteriorColor,
+      rvModelId: tradeIn.rvModelId,
+      estimatedValue: tradeIn.estimatedValue,
+      bookValue: tradeIn.nada_value,
+      appraisedValue: tradeIn.appraisedValue,
+      approvedValue: tradeIn.approvedValue,
+      acv: tradeIn.acv,
+      reconditioningCost: tradeIn.reconditioningCost,
+      appraisalNotes: tradeIn.appraisalNotes,
+      appraisedAt: tradeIn.appraisedAt,
+      approvedAt: tradeIn.approvedAt,
+      hasLien: tradeIn.hasLien,
+      lienHolder: tradeIn.lienHolder,
+      lienPayoff: tradeIn.lienPayoff,
+      lienPayoffGoodThrough: tradeIn.lienPayoffGoodThrough,
+      lienVerifiedAt: tradeIn.lienVerifiedAt,
+      photos: parsePhotos(tradeIn.photos),
+      rvUnitVin: tradeIn.rvUnit?.vin ?? null,
+    },
+    inspection,
+    summary: summarizeInspection(tradeIn.vehicleType, inspection),
+    lienWarnings: checkLienPayoff(tradeIn, asOf),
+    valuations: tradeIn.valuations.map((valuation) => ({
+      id: valuation.id,
+      type: valuation.type,
+      value: valuation.value,
+      note: valuation.note,
+      createdAt: valuation.createdAt,
+    })),
+  }
+}
+
+// Record the inspection and the appraiser's value; the trade then waits for a manager
+export async function saveTradeInAppraisal(
+  dealerId: string,
+  orderNumber: string,
+  input: TradeInAppraisalInput,
+  userId: string
+) {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  assertOrderOpen(order)
+  const tradeIn = order.tradeIn
+  if (!APPRAISABLE_STATUSES.includes(tradeIn.status)) {
+    throw new Error(`The trade-in is already ${tradeIn.status}`)
+  }
+
+  const summary = summarizeInspection(tradeIn.vehicleType, input.inspection)
+  if (!summary.complete) {
+    throw new Error(`Rate every checklist item before appraising (${summary.missing.length} left)`)
+  }
+
+  const bookValue = input.bookValue ?? null
+  const valuations = [
+    ...(bookValue !== null && bookValue !== tradeIn.nada_value
+      ? [{ type: 'book', value: bookValue, recordedById: userId }]
+      : []),
+    {
+      type: 'appraisal',
+      value: input.appraisedValue,
+      note: `Market ${input.marketValue.toFixed(2)} less reconditioning ${summary.reconditioningCost.toFixed(2)}`,
+      recordedById: userId,
+    },
+  ]
+
+  await prisma.tradeIn.update({
+    where: { id: tradeIn.id },
+    data: {
+      exteriorColor: input.exteriorColor || null,
+      ...(input.rvModelId !== undefined && { rvModelId: input.rvModelId || null }),
+      inspection: JSON.stringify(input.inspection),
+      reconditioningCost: summary.reconditioningCost,
+      condition: summary.condition,
+      nada_value: bookValue,
+      appraisedValue: input.appraisedValue,
+      appraisalNotes: input.notes || null,
+      appraisedById: userId,
+      appraisedAt: new Date(),
+      status: 'appraised',
+      valuations: { create: valuations },
+    },
+  })
+}
+
+// Manager sign-off: approve the final ACV and allowance, or turn the trade down
+export async function decideTradeInAppraisal(
+  dealerId: string,
+  orderNumber: string,
+  input: TradeInDecisionInput,
+  userId: string
+) {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  assertOrderOpen(order)
+  const tradeIn = order.tradeIn
+  if (tradeIn.status !== 'appraised') {
+    throw new Error('Only an appraised trade-in can be approved or rejected')
+  }
+
+  if (input.decision === 'reject') {
+    await prisma.tradeIn.update({
+      where: { id: tradeIn.id },
+      data: {
+        status: 'rejected',
+        approvedById: userId,
+        approvedAt: new Date(),
+        valuations: {
+          create: { type: 'rejection', value: tradeIn.appraisedValue ?? 0, note: input.note, recordedById: userId },
+        },
+      },
+    })
+    await updateOrderTrade(order, 0, 0)
+    return
+  }
+
+  const lienErrors = checkLienPayoff(tradeIn, new Date()).filter((warning) => warning.level === 'error')
+  if (lienErrors.length > 0) throw new Error(lienErrors[0].message)
+
+  const acv = input.acv ?? 0
+  const allowance = input.allowance ?? 0
+  await prisma.tradeIn.update({
+    where: { id: tradeIn.id },
+    data: {
+      status: 'approved',
+      acv,
+      approvedValue: allowance,
+      approvedById: userId,
+      approvedAt: new Date(),
+      valuations: {
+        create: {
+          type: 'approval',
+          value: acv,
+          note: [`Allowance ${allowance.toFixed(2)}`, input.note].filter(Boolean).join(' - '),
+          recordedById: userId,
+        },
+      },
+    },
+  })
+  await updateOrderTrade(order, allowance, tradeIn.lienPayoff ?? 0)
+}
+
+// Update the lien payoff. Changing the amount or date clears an earlier verification.
+export async function updateTradeInLien(
+  dealerId: string,
+  orderNumber: string,
+  input: TradeInLienInput,
+  userId: string
+) {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  assertOrderOpen(order)
+  const tradeIn = order.tradeIn
+
+  const lienPayoff = input.hasLien ? input.lienPayoff ?? null : null
+  const goodThrough = input.hasLien ? input.lienPayoffGoodThrough ?? null : null
+  const changed =
+    lienPayoff !== tradeIn.lienPayoff ||
+    goodThrough?.getTime() !== tradeIn.lienPayoffGoodThrough?.getTime()
+  const verified = input.hasLien && (input.verified || (!changed && !!tradeIn.lienVerifiedAt))
+
+  await prisma.tradeIn.update({
+    where: { id: tradeIn.id },
+    data: {
+      hasLien: input.hasLien,
+      lienHolder: input.hasLien ? input.lienHolder?.trim() || null : null,
+      lienPayoff,
+      lienPayoffGoodThrough: goodThrough,
+      lienVerifiedAt: verified ? (input.verified ? new Date() : tradeIn.lienVerifiedAt) : null,
+      lienVerifiedById: verified ? (input.verified ? userId : tradeIn.lienVerifiedById) : null,
+    },
+  })
+
+  if ((lienPayoff ?? 0) !== order.tradeInPayoff) {
+    await updateOrderTrade(order, order.tradeInAllowance, lienPayoff ?? 0)
+  }
+}
+
+export async function addTradeInPhotos(dealerId: string, orderNumber: string, urls: string[]) {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  assertOrderOpen(order)
+  const photos = parsePhotos(order.tradeIn.photos)
+  await prisma.tradeIn.update({
+    where: { id: order.tradeIn.id },
+    data: { photos: JSON.stringify([...photos, ...urls.filter((url) => !photos.includes(url))]) },
+  })
+}
+
+export async function removeTradeInPhoto(dealerId: string, orderNumber: string, url: string) {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  assertOrderOpen(order)
+  const photos = parsePhotos(order.tradeIn.photos).filter((photo) => photo !== url)
+  await prisma.tradeIn.update({
+    where: { id: order.tradeIn.id },
+    data: { photos: photos.length > 0 ? JSON.stringify(photos) : null },
+  })
+}
+
+// When the deal completes, an approved RV trade goes into the dealer's
+// inventory as a used unit. Other vehicles are wholesaled outside the portal,
+// so they are only marked completed. Returns the unit id when one was created.
+export async function convertTradeInToUnit(orderId: string): Promise<string | null> {
+  const order = await prisma.vehicleOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { tradeIn: { include: { rvModel: true } } },
+  })
+  const tradeIn = order.tradeIn
+  if (!tradeIn || tradeIn.status !== 'approved') return null
+
+  if (tradeIn.vehicleType !== 'rv' || !tradeIn.rvModel || !tradeIn.vin) {
+    await prisma.tradeIn.update({ where: { id: tradeIn.id }, data: { status: 'completed' } })
+    return null
+  }
+
+  const unitData = {
+    dealerId: order.dealerId,
+    modelId: tradeIn.rvModel.id,
+    modelYear: tradeIn.year,
+    exteriorColor: tradeIn.exteriorColor || 'Unknown',
+    condition: 'used',
+    mileage: tradeIn.mileage,
+    hours: tradeIn.hours,
+    conditionNotes: tradeIn.appraisalNotes ?? tradeIn.conditionNotes,
+    status: 'in_stock',
+    msrp: tradeIn.rvModel.baseMSRP,
+    invoiceCost: tradeIn.acv ?? tradeIn.approvedValue ?? 0,
+    receivedDate: new Date(),
+    soldDate: null,
+    photos: tradeIn.photos,
+  }
+
+  // A unit we sold before may come back on trade under the same VIN
+  const vin = tradeIn.vin
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.rVUnit.findUnique({ where: { vin }, select: { status: true } })
+    const conflict = checkTradeInUnitVin(vin, existing)
+    if (conflict) throw new Error(conflict)
+
+    const unit = await tx.rVUnit.upsert({
+      where: { vin },
+      create: { vin, ...unitData },
+      update: { ...unitData, locationId: null, lotLocation: null, internetPrice: null, minimumPrice: null },
+    })
+
+    await tx.tradeIn.update({
+      where: { id: tradeIn.id },
+      data: { status: 'completed', rvUnitId: unit.id },
+    })
+    return unit.id
+  })
+}
+
+// Retry the conversion for a completed deal whose trade-in is still approved,
+// e.g. when it failed as the order completed
+export async function completeOrderTradeIn(dealerId: string, orderNumber: string): Promise<string | null> {
+  const order = await getOrderTradeIn(dealerId, orderNumber)
+  if (order.status !== 'completed') {
+    throw new Error('The trade-in goes into inventory when the deal is completed')
+  }
+  if (order.tradeIn.status !== 'approved') {
+    throw new Error('Only an approved trade-in can be added to inventory')
+  }
+  return convertTradeInToUnit(order.id)
+}
@@ -0,0 +1,454 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseBuildSheet } from '@/lib/build-configurator'
+import { escapeHtml, formatPrintCurrency } from '@/lib/print-html'
+import {
+  applyVehicleInvoicePayment,
+  calculateVehicleInvoiceTotals,
+  nextVehicleInvoiceNumber,
+} from '@/lib/vehicle-invoice'
+import type { VehicleInvoicePaymentInput } from '@/lib/validations/vehicle-invoice'
+import type { VehicleInvoice, VehicleInvoiceStatus } from '@/types/rv'
+
+// A deal is invoiced once the unit has been delivered
+const INVOICEABLE_ORDER_STATUSES = ['delivered', 'completed']
+
+// Deals completing together can race for the same invoice number
+const INVOICE_NUMBER_ATTEMPTS = 3
+
+const vehicleInvoiceInclude = {
+  vehicleOrder: { select: { orderNumber: true } },
+  rvUnit: { select: { vin: true } },
+  payments: { orderBy: { receivedAt: 'asc' as const } },
+}
+
+type VehicleInvoiceRecord = {
+  id: string
+  invoiceNumber: string
+  vehicleOrderId: string
+  rvUnitId: string
+  dealerId: string
+  status: string
+  unitDescription: string
+  unitPrice: number
+  optionsDetail: string | null
+  optionsTotal: number
+  freightCharge: number
+  prepCharge: number
+  docFee: number
+  additionalCharges: string | null
+  tradeDescription: string | null
+  tradeAllowance: number
+  tradePayoff: number
+  subtotal: number
+  rebatesApplied: number
+  taxAmount: number
+  totalAmount: number
+  depositApplied: number
+  amountPaid: number
+  balanceDue: number
+  paymentMethod: string | null
+  paymentReference: string | null
+  paidDate: Date | null
+  createdAt: Date
+  vehicleOrder: { orderNumber: string }
+  rvUnit: { vin: string }
+  payments: {
+    id: string
+    amount: number
+    method: string
+    reference: string | null
+    receivedAt: Date
+    note: string | null
+  }[]
+}
+
+function mapVehicleInvoice(invoice: VehicleInvoiceRecord): VehicleInvoice {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    vehicleOrderId: invoice.vehicleOrderId,
+    orderNumber: invoice.vehicleOrder.orderNumber,
+    rvUnitId: invoice.rvUnitId,
+    vin: invoice.rvUnit.vin,
+    dealerId: invoice.dealerId,
+    status: invoice.status as VehicleInvoiceStatus,
+    unitDescription: invoice.unitDescription,
+    unitPrice: invoice.unitPrice,
+    optionsDetail: invoice.optionsDetail ? JSON.parse(invoice.optionsDetail) : [],
+    optionsTotal: invoice.optionsTotal,
+    freightCharge: invoice.freightCharge,
+    prepCharge: invoice.prepCharge,
+    docFee: invoice.docFee,
+    additionalCharges: invoice.additionalCharges ? JSON.parse(invoice.additionalCharges) : [],
+    tradeDescription: invoice.tradeDescription ?? undefined,
+    tradeAllowance: invoice.tradeAllowance,
+    tradePayoff: invoice.tradePayoff,
+    subtotal: invoice.subtotal,
+    rebatesApplied: invoice.rebatesApplied,
+    taxAmount: invoice.taxAmount,
+    totalAmount: invoice.totalAmount,
+    depositApplied: invoice.depositApplied,
+    amountPaid: invoice.amountPaid,
+    balanceDue: invoice.balanceDue,
+    paymentMethod: invoice.paymentMethod ?? undefined,
+    paymentReference: invoice.paymentReference ?? undefined,
+    paidDate: invoice.paidDate ?? undefined,
+    payments: invoice.payments.map((payment) => ({
+      id: payment.id,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference ?? undefined,
+      receivedAt: payment.receivedAt,
+      note: payment.note ?? undefined,
+    })),
+    createdAt: invoice.createdAt,
+  }
+}
+
+async function generateVehicleInvoiceNumber(tx: Prisma.TransactionClient): Promise<string> {
+  const year = new Date().getFullYear()
+  const lastInvoice = await tx.vehicleInvoice.findFirst({
+    where: { invoiceNumber: { startsWith: `VI-${year}-` } },
+    orderBy: { invoiceNumber: 'desc' },
+    select: { invoiceNumber: true },
+  })
+  return nextVehicleInvoiceNumber(year, lastInvoice?.invoiceNumber ?? null)
+}
+
+// Build the invoice from the order and its trade-in. Returns the existing
+// invoice if the order was already invoiced.
+export async function createVehicleInvoice(orderId: string): Promise<VehicleInvoice> {
+  const existing = await prisma.vehicleInvoice.findUnique({
+    where: { vehicleOrderId: orderId },
+    include: vehicleInvoiceInclude,
+  })
+  if (existing) return mapVehicleInvoice(existing)
+
+  const order = await prisma.vehicleOrder.findUnique({
+    where: { id: orderId },
+    include: { rvUnit: { include: { model: true } }, tradeIn: true },
+  })
+  if (!order) throw new Error('Order not found')
+  if (!INVOICEABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new Error('Only delivered or completed orders can be invoiced')
+  }
+  if (!order.rvUnit) throw new Error('Assign a unit to the order before invoicing')
+
+  const unit = order.rvUnit
+  const buildSheet = parseBuildSheet(order.buildSheet)
+  const optionsDetail = buildSheet
+    ? buildSheet.lines
+        .filter((line) => !line.includedBy)
+        .map((line) => ({ code: line.code, name: line.name, price: line.msrp }))
+    : []
+  const additionalCharges: { name: string; amount: number }[] = order.additionalFees
+    ? JSON.parse(order.additionalFees).map((fee: { name: string; amount: number }) => ({
+        name: fee.name,
+        amount: fee.amount,
+      }))
+    : []
+
+  const tradeIn = order.tradeIn
+  const charges = {
+    unitPrice: order.unitPrice,
+    optionsTotal: order.optionsPrice,
+    freightCharge: order.freightPrice,
+    prepCharge: order.prepFee,
+    docFee: order.docFee,
+    additionalCharges,
+    tradeAllowance: order.tradeInAllowance,
+    tradePayoff: tradeIn?.lienPayoff ?? order.tradeInPayoff,
+    rebatesApplied: order.rebatesApplied,
+    taxAmount: order.taxAmount,
+    depositApplied: order.depositAmount,
+  }
+  const totals = calculateVehicleInvoiceTotals(charges)
+
+  const data = {
+    rvUnitId: unit.id,
+    dealerId: order.dealerId,
+    status: totals.balanceDue <= 0 ? 'paid' : 'sent',
+    unitDescription: `${unit.modelYear} ${unit.model.series} ${unit.model.name} - VIN: ${unit.vin}`,
+    unitPrice: charges.unitPrice,
+    optionsDetail: optionsDetail.length > 0 ? JSON.stringify(optionsDetail) : null,
+    optionsTotal: charges.optionsTotal,
+    freightCharge: charges.freightCharge,
+    prepCharge: charges.prepCharge,
+    docFee: charges.docFee,
+    additionalCharges: additionalCharges.length > 0 ? JSON.stringify(additionalCharges) : null,
+    tradeDescription: tradeIn
+      ? [tradeIn.year, tradeIn.make, tradeIn.model, tradeIn.trim].filter(Boolean).join(' ') +
+        (tradeIn.vin ? ` - VIN: ${tradeIn.vin}` : '')
+      : null,
+    tradeAllowance: charges.tradeAllowance,
+    tradePayoff: charges.tradePayoff,
+    subtotal: totals.subtotal,
+    rebatesApplied: charges.rebatesApplied,
+    taxAmount: charges.taxAmount,
+    totalAmount: totals.totalAmount,
+    depositApplied: charges.depositApplied,
+    balanceDue: Math.max(totals.balanceDue, 0),
+    paymentMethod: order.paymentMethod,
+    ...(totals.balanceDue <= 0 && { paidDate: new Date() }),
+  }
+
+  // Number and create the invoice together; on a clash with a concurrent
+  // invoice, take the next number, or that invoice if it was for this order
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const invoice = await prisma.$transaction(async (tx) =>
+        tx.vehicleInvoice.create({
+          data: { ...data, invoiceNumber: await generateVehicleInvoiceNumber(tx), vehicleOrderId: order.id },
+          include: vehicleInvoiceInclude,
+        })
+      )
+      return mapVehicleInvoice(invoice)
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error
+
+      const concurrent = await prisma.vehicleInvoice.findUnique({
+        where: { vehicleOrderId: orderId },
+        include: vehicleInvoiceInclude,
+      })
+      if (concurrent) return mapVehicleInvoice(concurrent)
+      if (attempt >= INVOICE_NUMBER_ATTEMPTS) throw error
+    }
+  }
+}
+
+// Invoice a dealer's order on request, e.g. when it was delivered before completion
+export async function createVehicleInvoiceForOrder(dealerId: string, orderNumber: string): Promise<VehicleInvoice> {
+  const order = await prisma.vehicleOrder.findUnique({ where: { orderNumber }, select: { id: true, dealerId: true } })
+  if (!order || order.dealerId !== dealerId) throw new Error('Order not found')
+  return createVehicleInvoice(order.id)
+}
+
+export async function getOrderVehicleInvoice(dealerId: string, orderNumber: string): Promise<VehicleInvoice | null> {
+  const invoice = await prisma.vehicleInvoice.findFirst({
+    where: { dealerId, vehicleOrder: { orderNumber } },
+    include: vehicleInvoiceInclude,
+  })
+  return invoice ? mapVehicleInvoice(invoice) : null
+}
+
+export async function getUnitVehicleInvoices(dealerId: string, vin: string): Promise<VehicleInvoice[]> {
+  const invoices = await prisma.vehicleInvoice.findMany({
+    where: { dealerId, rvUnit: { vin } },
+    include: vehicleInvoiceInclude,
+    orderBy: { createdAt: 'desc' },
+  })
+  return invoices.map(mapVehicleInvoice)
+}
+
+// Record a payment (cash, check, lender funding) against the balance due
+export async function recordVehicleInvoicePayment(
+  dealerId: string,
+  invoiceId: string,
+  payment: VehicleInvoicePaymentInput,
+  userId: string
+): Promise<VehicleInvoice> {
+  const invoice = await prisma.vehicleInvoice.findUnique({ where: { id: invoiceId } })
+  if (!invoice || invoice.dealerId !== dealerId) throw new Error('Invoice not found')
+
+  const applied = applyVehicleInvoicePayment(invoice, payment.amount)
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Apply against the balance read above; a payment recorded in between fails
+    // here instead of overpaying the invoice
+    const changed = await tx.vehicleInvoice.updateMany({
+      where: { id: invoice.id, status: invoice.status, balanceDue: invoice.balanceDue },
+      data: {
+        amountPaid: applied.amountPaid,
+        balanceDue: applied.balanceDue,
+        paymentMethod: payment.method,
+        paymentReference: payment.reference || null,
+        ...(applied.paidInFull && { status: 'paid', paidDate: payment.receivedAt }),
+      },
+    })
+    if (changed.count === 0) {
+      throw new Error('The invoice balance changed while recording this payment; refresh and try again')
+    }
+
+    await tx.vehicleInvoicePayment.create({
+      data: {
+        invoiceId: invoice.id,
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference || null,
+        receivedAt: payment.receivedAt,
+        note: payment.note || null,
+        recordedById: userId,
+      },
+    })
+
+    return tx.vehicleInvoice.findUniqueOrThrow({ where: { id: invoice.id }, include: vehicleInvoiceInclude })
+  })
+
+  return mapVehicleInvoice(updated)
+}
+
+// Generate vehicle invoice HTML for printing/PDF
+export async function generateVehicleInvoiceHtml(dealerId: string, invoiceId: string): Promise<string | null> {
+  const record = await prisma.vehicleInvoice.findUnique({
+    where: { id: invoiceId },
+    include: { ...vehicleInvoiceInclude, dealer: { select: { name: true, code: true } } },
+  })
+  if (!record || record.dealerId !== dealerId) return null
+
+  const invoice = mapVehicleInvoice(record)
+  const buyer = await prisma.vehicleOrder.findUnique({
+    where: { id: invoice.vehicleOrderId },
+    select: { customerName: true, customerEmail: true, customerPhone: true, customerAddress: true },
+  })
+  const buyerAddress: { street?: string; city?: string; state?: string; zipCode?: string } | null =
+    buyer?.customerAddress ? JSON.parse(buyer.customerAddress) : null
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+  const row = (label: string, amount: number, className = '') =>
+    `<div class="totals-row ${className}"><span>${escapeHtml(label)}</span><span>${formatPrintCurrency(amount)}</span></div>`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Vehicle Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; line-height: 1.5; color: #333; }
+    .invoice { max-width: 800px; margin: 0 auto; padding: 40px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 40px; }
+    .logo { font-size: 24px; font-weight: bold; color: #556B2F; }
+    .invoice-title { text-align: right; }
+    .invoice-title h1 { font-size: 32px; color: #556B2F; margin-bottom: 5px; }
+    .invoice-number { font-size: 16px; color: #666; }
+    .status { display: inline-block; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: 600; text-transform: uppercase; }
+    .status-sent { background: #e3f2fd; color: #1976d2; }
+    .status-paid { background: #e8f5e9; color: #388e3c; }
+    .status-cancelled { background: #ffebee; color: #d32f2f; }
+    .addresses { display: flex; gap: 40px; margin-bottom: 30px; }
+    .address { flex: 1; }
+    .address h3 { font-size: 12px; text-transform: uppercase; color: #666; margin-bottom: 10px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+    th { text-align: left; padding: 12px; background: #556B2F; color: white; font-size: 12px; text-transform: uppercase; }
+    th:last-child { text-align: right; }
+    td { padding: 12px; border-bottom: 1px solid #eee; }
+    td:last-child { text-align: right; }
+    .totals { margin-left: auto; width: 340px; }
+    .totals-row { display: flex; justify-content: space-between; padding: 8px 0; }
+    .totals-row.sub { border-top: 1px solid #ddd; font-weight: 600; }
+    .totals-row.total { border-top: 2px solid #333; font-size: 18px; font-weight: bold; margin-top: 10px; padding-top: 15px; }
+    .totals-row.total span:last-child { color: #556B2F; }
+    .payments { margin-top: 30px; }
+    .payments h4 { margin-bottom: 10px; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 12px; }
+    @media print {
+      .invoice { padding: 20px; }
+      .status { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+      th { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    }
+  </style>
+</head>
+<body>
+  <div class="invoice">
+    <div class="header">
+      <div>
+        <div class="logo">${escapeHtml(record.dealer.name)}</div>
+        <div class="invoice-number">Dealer Code: ${escapeHtml(record.dealer.code)}</div>
+      </div>
+      <div class="invoice-title">
+        <h1>VEHICLE INVOICE</h1>
+        <div class="invoice-number">${escapeHtml(invoice.invoiceNumber)}</div>
+        <div class="invoice-number">${formatDate(invoice.createdAt)} &middot; Order ${escapeHtml(invoice.orderNumber)}</div>
+        <div style="margin-top: 10px;">
+          <span class="status status-${invoice.status}">${invoice.status}</span>
+        </div>
+      </div>
+    </div>
+
+    <div class="addresses">
+      <div class="address">
+        <h3>Sold To</h3>
+        <p><strong>${escapeHtml(buyer?.customerName ?? '')}</strong></p>
+        ${buyerAddress?.street ? `<p>${escapeHtml(buyerAddress.street)}</p>` : ''}
+        ${buyerAddress?.state ? `<p>${escapeHtml(buyerAddress.city)}${buyerAddress.city ? ', ' : ''}${escapeHtml(buyerAddress.state)} ${escapeHtml(buyerAddress.zipCode)}</p>` : ''}
+        ${buyer?.customerPhone ? `<p>${escapeHtml(buyer.customerPhone)}</p>` : ''}
+        ${buyer?.customerEmail ? `<p>${escapeHtml(buyer.customerEmail)}</p>` : ''}
+      </div>
+      ${invoice.tradeDescription ? `
+        <div class="address">
+          <h3>Trade-In</h3>
+          <p>${escapeHtml(invoice.tradeDescription)}</p>
+        </div>
+      ` : ''}
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th>Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td><strong>${escapeHtml(invoice.unitDescription)}</strong></td>
+          <td>${formatPrintCurrency(invoice.unitPrice)}</td>
+        </tr>
+        ${invoice.optionsDetail.map((option) => `
+          <tr>
+            <td style="padding-left: 24px;">${escapeHtml(option.name)}${option.code ? ` (${escapeHtml(option.code)})` : ''}</td>
+            <td>${formatPrintCurrency(option.price)}</td>
+          </tr>
+        `).join('')}
+        ${invoice.optionsTotal > 0 && invoice.optionsDetail.length === 0 ? `
+          <tr><td>Options</td><td>${formatPrintCurrency(invoice.optionsTotal)}</td></tr>
+        ` : ''}
+        ${invoice.freightCharge > 0 ? `<tr><td>Freight</td><td>${formatPrintCurrency(invoice.freightCharge)}</td></tr>` : ''}
+        ${invoice.prepCharge > 0 ? `<tr><td>Dealer Prep</td><td>${formatPrintCurrency(invoice.prepCharge)}</td></tr>` : ''}
+        ${invoice.docFee > 0 ? `<tr><td>Documentation Fee</td><td>${formatPrintCurrency(invoice.docFee)}</td></tr>` : ''}
+        ${invoice.additionalCharges.map((charge) => `
+          <tr><td>${escapeHtml(charge.name)}</td><td>${formatPrintCurrency(charge.amount)}</td></tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="totals">
+      ${row('Subtotal', invoice.subtotal)}
+      ${row('Sales Tax', invoice.taxAmount)}
+      ${invoice.tradeAllowance > 0 ? row('Trade-In Allowance', -invoice.tradeAllowance) : ''}
+      ${invoice.tradePayoff > 0 ? row('Trade-In Lien Payoff', invoice.tradePayoff) : ''}
+      ${invoice.rebatesApplied > 0 ? row('Rebates', -invoice.rebatesApplied) : ''}
+      ${row('Total', invoice.totalAmount, 'sub')}
+      ${invoice.depositApplied > 0 ? row('Deposit Applied', -invoice.depositApplied) : ''}
+      ${invoice.amountPaid > 0 ? row('Payments Received', -invoice.amountPaid) : ''}
+      ${row('Balance Due', invoice.balanceDue, 'total')}
+    </div>
+
+    ${invoice.payments.length > 0 ? `
+      <div class="payments">
+        <h4>Payments</h4>
+        <table>
+          <tbody>
+            ${invoice.payments.map((payment) => `
+              <tr>
+                <td>${formatDate(payment.receivedAt)} &middot; ${escapeHtml(payment.method)}${payment.reference ? ` #${escapeHtml(payment.reference)}` : ''}</td>
+                <td>${formatPrintCurrency(payment.amount)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    ` : ''}
+
+    <div class="footer">
+      <p>Thank you for your business!</p>
+      <p>THOR Industries Dealer Portal</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
@@ -0,0 +1,290 @@
+import { prisma } from '@/lib/prisma'
+import { createClaim, markClaimAsSubmitted } from '@/lib/services/incentives'
+import { evaluateModelIncentive, parseIncentiveConditions } from '@/lib/model-incentives'
+import type { VehicleOrderIncentive } from '@/types/rv'
+
+// Incentives are fixed once an order is closed
+const LOCKED_ORDER_STATUSES = ['completed', 'cancelled']
+
+export type AvailableOrderIncentive = {
+  modelIncentiveId: string
+  programId: string
+  programName: string
+  programCode: string
+  incentiveType: string
+  rate: number
+  validTo: Date | null
+  eligible: boolean
+  amount: number
+  reason: string | null
+}
+
+async function getDealerOrder(dealerId: string, orderNumber: string) {
+  const order = await prisma.vehicleOrder.findUnique({
+    where: { orderNumber },
+    include: { rvUnit: { select: { modelId: true, condition: true, vin: true } }, rvModel: { select: { code: true } } },
+  })
+  if (!order || order.dealerId !== dealerId) throw new Error('Order not found')
+  return order
+}
+
+type DealerOrder = Awaited<ReturnType<typeof getDealerOrder>>
+
+function getOrderModelId(order: DealerOrder): string | null {
+  return order.rvUnit?.modelId ?? order.rvModelId
+}
+
+// Units of the model the dealer completed in a window, not counting this order
+async function countPriorUnits(order: DealerOrder, modelId: string, from: Date, to: Date | null): Promise<number> {
+  return prisma.vehicleOrder.count({
+    where: {
+      dealerId: order.dealerId,
+      id: { not: order.id },
+      status: 'completed',
+      completedAt: { gte: from, ...(to && { lte: to }) },
+      OR: [{ rvModelId: modelId }, { rvUnit: { modelId } }],
+    },
+  })
+}
+
+async function evaluateOrderIncentives(order: DealerOrder, asOf: Date): Promise<AvailableOrderIncentive[]> {
+  const modelId = getOrderModelId(order)
+  if (!modelId) return []
+
+  const [incentives, enrollments] = await Promise.all([
+    prisma.rVModelIncentive.findMany({
+      where: { rvModelId: modelId },
+      include: { program: true },
+      orderBy: { validFrom: 'desc' },
+    }),
+    prisma.dealerProgramEnrollment.findMany({
+      where: { dealerId: order.dealerId, status: 'active' },
+      select: { programId: true },
+    }),
+  ])
+  const enrolledProgramIds = new Set(enrollments.map((enrollment) => enrollment.programId))
+
+  const results: AvailableOrderIncentive[] = []
+  for (const incentive of incentives) {
+    const conditions = parseIncentiveConditions(incentive.conditions)
+    const needsVolume = !!conditions.minUnits || incentive.incentiveType === 'tiered'
+    const priorUnits = needsVolume
+      ? await countPriorUnits(order, modelId, incentive.validFrom, incentive.validTo)
+      : 0
+
+    const eligibility = evaluateModelIncentive(
+      {
+        incentiveType: incentive.incentiveType,
+        amount: incentive.amount,
+        conditions,
+        validFrom: incentive.validFrom,
+        validTo: incentive.validTo,
+        program: incentive.program,
+        dealerEnrolled: incentive.program.autoEnroll || enrolledProgramIds.has(incentive.programId),
+      },
+      {
+        asOf,
+        unitPrice: order.unitPrice,
+        orderType: order.orderType,
+        customerType: order.customerType,
+        unitCondition: order.rvUnit?.condition ?? null,
+        priorUnits,
+      }
+    )
+
+    results.push({
+      modelIncentiveId: incentive.id,
+      programId: incentive.programId,
+      programName: incentive.program.name,
+      programCode: incentive.program.code,
+      incentiveType: incentive.incentiveType,
+      rate: incentive.amount,
+      validTo: incentive.validTo,
+      ...eligibility,
+    })
+  }
+
+  return results
+}
+
+export const orderIncentiveInclude = {
+  modelIncentive: { include: { program: { select: { name: true } } } },
+  claim: { select: { claimNumber: true, status: true } },
+}
+
+type OrderIncentiveRecord = {
+  id: string
+  modelIncentiveId: string
+  programId: string
+  incentiveType: string
+  rate: number
+  amount: number
+  appliedAt: Date
+  claimId: string | null
+  modelIncentive: { program: { name: string } }
+  claim: { claimNumber: string; status: string } | null
+}
+
+export function mapOrderIncentive(incentive: OrderIncentiveRecord): VehicleOrderIncentive {
+  return {
+    id: incentive.id,
+    modelIncentiveId: incentive.modelIncentiveId,
+    programId: incentive.programId,
+    programName: incentive.modelIncentive.program.name,
+    incentiveType: incentive.incentiveType,
+    rate: incentive.rate,
+    amount: incentive.amount,
+    appliedAt: incentive.appliedAt,
+    claimId: incentive.claimId ?? undefined,
+    claimNumber: incentive.claim?.claimNumber,
+    claimStatus: incentive.claim?.status,
+  }
+}
+
+// Applied incentives plus every incentive on the order's model, with eligibility
+export async function getOrderIncentives(
+  dealerId: string,
+  orderNumber: string,
+  asOf: Date = new Date()
+): Promise<{ applied: VehicleOrderIncentive[]; available: AvailableOrderIncentive[] }> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  const [applied, available] = await Promise.all([
+    prisma.vehicleOrderIncentive.findMany({
+      where: { orderId: order.id },
+      include: orderIncentiveInclude,
+      orderBy: { appliedAt: 'asc' },
+    }),
+    evaluateOrderIncentives(order, asOf),
+  ])
+
+  const appliedIds = new Set(applied.map((incentive) => incentive.modelIncentiveId))
+  return {
+    applied: applied.map(mapOrderIncentive),
+    available: available.filter((incentive) => !appliedIds.has(incentive.modelIncentiveId)),
+  }
+}
+
+// Apply an eligible incentive at its current amount and take it off the order total
+export async function applyOrderIncentive(
+  dealerId: string,
+  orderNumber: string,
+  modelIncentiveId: string,
+  userId: string
+): Promise<VehicleOrderIncentive> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  if (LOCKED_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`Incentives cannot be changed on a ${order.status} order`)
+  }
+
+  const existing = await prisma.vehicleOrderIncentive.findUnique({
+    where: { orderId_modelIncentiveId: { orderId: order.id, modelIncentiveId } },
+  })
+  if (existing) throw new Error('Incentive is already applied to this order')
+
+  const incentive = (await evaluateOrderIncentives(order, new Date())).find(
+    (candidate) => candidate.modelIncentiveId === modelIncentiveId
+  )
+  if (!incentive) throw new Error('Incentive does not apply to this model')
+  if (!incentive.eligible) throw new Error(incentive.reason ?? 'Order is not eligible for this incentive')
+
+  const [created] = await prisma.$transaction([
+    prisma.vehicleOrderIncentive.create({
+      data: {
+        orderId: order.id,
+        modelIncentiveId,
+        programId: incentive.programId,
+        incentiveType: incentive.incentiveType,
+        rate: incentive.rate,
+        amount: incentive.amount,
+        appliedById: userId,
+      },
+      include: orderIncentiveInclude,
+    }),
+    prisma.vehicleOrder.update({
+      where: { id: order.id },
+      data: {
+        rebatesApplied: { increment: incentive.amount },
+        totalPrice: { decrement: incentive.amount },
+      },
+    }),
+  ])
+
+  return mapOrderIncentive(created)
+}
+
+export async function removeOrderIncentive(dealerId: string, orderNumber: string, orderIncentiveId: string) {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  if (LOCKED_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`Incentives cannot be changed on a ${order.status} order`)
+  }
+
+  const incentive = await prisma.vehicleOrderIncentive.findUnique({ where: { id: orderIncentiveId } })
+  if (!incentive || incentive.orderId !== order.id) throw new Error('Incentive not found')
+
+  await prisma.$transaction([
+    prisma.vehicleOrderIncentive.delete({ where: { id: incentive.id } }),
+    prisma.vehicleOrder.update({
+      where: { id: order.id },
+      data: {
+        rebatesApplied: { decrement: incentive.amount },
+        totalPrice: { increment: incentive.amount },
+      },
+    }),
+  ])
+}
+
+// File a claim for each applied incentive on a completed order. Incentives
+// that already have a claim are skipped, so this is safe to call again.
+export async function createOrderIncentiveClaims(orderId: string, userId?: string): Promise<number> {
+  const order = await prisma.vehicleOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      rvUnit: { select: { vin: true, model: { select: { code: true } } } },
+      rvModel: { select: { code: true } },
+      incentives: { where: { claimId: null }, include: { modelIncentive: { include: { program: true } } } },
+    },
+  })
+
+  const modelCode = order.rvUnit?.model.code ?? order.rvModel?.code
+  let created = 0
+  for (const incentive of order.incentives) {
+    const submittedById = userId ?? incentive.appliedById ?? order.salesPersonId
+    if (!submittedById) {
+      console.error(`No user to file the incentive claim for order ${order.orderNumber}`)
+      continue
+    }
+
+    const claim = await createClaim({
+      programId: incentive.programId,
+      dealerId: order.dealerId,
+      submittedById,
+      claimType: 'model_incentive',
+      requestedAmount: incentive.amount,
+      description: `${incentive.modelIncentive.program.name}: ${modelCode ?? 'unit'} on order ${order.orderNumber}`,
+      supportingInfo: {
+        orderNumber: order.orderNumber,
+        vin: order.rvUnit?.vin,
+        modelCode,
+        modelIncentiveId: incentive.modelIncentiveId,
+        incentiveType: incentive.incentiveType,
+        rate: incentive.rate,
+        completedAt: order.completedAt,
+      },
+    })
+    await markClaimAsSubmitted(claim.id)
+    await prisma.vehicleOrderIncentive.update({ where: { id: incentive.id }, data: { claimId: claim.id } })
+    created++
+  }
+
+  return created
+}
+
+// File claims still missing on a completed order, e.g. when filing failed as
+// the order completed
+export async function fileOrderIncentiveClaims(dealerId: string, orderNumber: string, userId: string): Promise<number> {
+  const order = await getDealerOrder(dealerId, orderNumber)
+  if (order.status !== 'completed') {
+    throw new Error('Incentive claims are filed when the order is completed')
+  }
+  return createOrderIncentiveClaims(order.id, userId)
+}
@@ -1,5 +1,20 @@
 import { prisma } from '@/lib/prisma'
-import type { VehicleOrder, VehicleOrderStatus } from '@/types/rv'
+import { payOffUnitFloorPlan } from '@/lib/services/floor-plan'
+import { priceFactoryBuild } from '@/lib/services/build-configurator'
+import { createVehicleInvoice } from '@/lib/services/vehicle-invoice'
+import { convertTradeInToUnit } from '@/lib/services/trade-in-appraisal'
+import {
+  createOrderIncentiveClaims,
+  mapOrderIncentive,
+  orderIncentiveInclude,
+} from '@/lib/services/vehicle-order-incentives'
+import { parseBuildSheet, type BuildSheet } from '@/lib/build-configurator'
+import { getDeliveryBlockers, getPdiTemplateKey, getWalkthroughTopics } from '@/lib/pdi-checklist'
+import type { DeliveryWalkthroughInput } from '@/lib/validations/pdi'
+import type { VehicleOrder, VehicleOrderDeliveryReadiness, VehicleOrderStatus } from '@/types/rv'
+
+// Statuses after the unit has been handed to the customer
+const DELIVERED_ORDER_STATUSES = ['delivered', 'completed']
 
 // Generate order number
 async function generateOrderNumber(): Promise<string> {
@@ -84,6 +99,7 @@ export async function getVehicleOrder(orderNumber: string): Promise<VehicleOrder
       },
       rvModel: true,
       tradeIn: true,
+      incentives: { include: orderIncentiveInclude, orderBy: { appliedAt: 'asc' } },
       statusHistory: {
         orderBy: { createdAt: 'desc' },
       },
@@ -115,6 +131,26 @@ export async function createVehicleOrder(
     docFee?: number
   }
 ): Promise<VehicleOrder> {
+  // Factory builds are checked against the model's option catalog and priced
+  // from it; a caller-supplied options price is ignored
+  let buildSheet: BuildSheet | null = null
+  if (data.orderType === 'factory') {
+    if (!data.rvModelId) throw new Error('Factory orders require a model')
+    const build = await priceFactoryBuild(data.rvModelId, {
+      optionCodes: data.requestedOptions ?? [],
+      exteriorColor: data.requestedExteriorColor,
+      interiorColor: data.requestedInteriorColor,
+    })
+    buildSheet = build.sheet
+    data = {
+      ...data,
+      requestedOptions: buildSheet.lines.map((line) => line.code),
+      requestedExteriorColor: buildSheet.exteriorColor ?? undefined,
+      requestedInteriorColor: buildSheet.interiorColor ?? undefined,
+      optionsPrice: buildSheet.optionsMSRP,
+    }
+  }
+
   const orderNumber = await generateOrderNumber()
 
   const totalPrice =
@@ -134,6 +170,7 @@ export async function createVehicleOrder(
       requestedExteriorColor: data.requestedExteriorColor,
       requestedInteriorColor: data.requestedInteriorColor,
       requestedOptions: data.requestedOptions ? JSON.stringify(data.requestedOptions) : null,
+      buildSheet: buildSheet ? JSON.stringify(buildSheet) : null,
       customerType: data.customerType || 'retail',
       customerName: data.customerName,
       customerEmail: data.customerEmail,
@@ -188,10 +225,23 @@ export async function updateVehicleOrderStatus(
     throw new Error('Order not found')
   }
 
+  // The unit can't be handed over until its PDI is signed off and the customer has had the walkthrough
+  if (DELIVERED_ORDER_STATUSES.includes(newStatus) && !DELIVERED_ORDER_STATUSES.includes(order.status)) {
+    const blockers = getDeliveryBlockers({
+      hasUnit: !!order.rvUnitId,
+      pdiStatus: await getUnitPdiStatus(order.rvUnitId),
+      walkthroughAcknowledged: !!order.walkthroughAcknowledgedAt,
+    })
+    if (blockers.length > 0) {
+      throw new Error(blockers.join('; '))
+    }
+  }
+
   const updated = await prisma.vehicleOrder.update({
     where: { orderNumber },
     data: {
       status: newStatus,
+      ...(newStatus === 'delivered' && { actualDeliveryDate: new Date() }),
       ...(newStatus === 'submitted' && { submittedAt: new Date() }),
       ...(newStatus === 'approved' && { approvedAt: new Date() }),
       ...(newStatus === 'confirmed' && { confirmedAt: new Date() }),
@@ -215,6 +265,30 @@ export async function updateVehicleOrderStatus(
     },
   })
 
+  // Applied model incentives are claimed once the sale is complete. Any left
+  // unclaimed on failure can be filed from the order page.
+  if (newStatus === 'completed') {
+    try {
+      await createOrderIncentiveClaims(order.id, userId)
+    } catch (error) {
+      console.error('Failed to create incentive claims for completed order:', error)
+    }
+
+    try {
+      await createVehicleInvoice(order.id)
+    } catch (error) {
+      console.error('Failed to create vehicle invoice for completed order:', error)
+    }
+
+    // An approved RV trade goes into inventory as a used unit. On failure it
+    // stays approved and can be added from the trade-in page.
+    try {
+      await convertTradeInToUnit(order.id)
+    } catch (error) {
+      console.error('Failed to add trade-in to inventory for completed order:', error)
+    }
+  }
+
   // Update unit status if completed or cancelled
   if (updated.rvUnitId) {
     if (newStatus === 'completed') {
@@ -225,6 +299,13 @@ export async function updateVehicleOrderStatus(
           soldDate: new Date(),
         },
       })
+
+      // A sold unit comes off the floor plan
+      try {
+        await payOffUnitFloorPlan(updated.rvUnitId, userId, `Paid off on sale (order ${orderNumber})`)
+      } catch (error) {
+        console.error('Failed to pay off floor plan for sold unit:', error)
+      }
     } else if (newStatus === 'cancelled') {
       await prisma.rVUnit.update({
         where: { id: updated.rvUnitId },
@@ -236,6 +317,69 @@ export async function updateVehicleOrderStatus(
   return mapVehicleOrder(updated)
 }
 
+// Status of the unit's latest PDI
+async function getUnitPdiStatus(rvUnitId: string | null): Promise<string | null> {
+  if (!rvUnitId) return null
+  const pdi = await prisma.pdiInspection.findFirst({
+    where: { rvUnitId },
+    orderBy: { createdAt: 'desc' },
+    select: { status: true },
+  })
+  return pdi?.status ?? null
+}
+
+// What still stands between the order and delivery, and the walkthrough to go over
+export async function getVehicleOrderDeliveryReadiness(orderNumber: string): Promise<VehicleOrderDeliveryReadiness> {
+  const order = await prisma.vehicleOrder.findUnique({
+    where: { orderNumber },
+    include: { rvUnit: { select: { vin: true, model: { select: { classType: true } } } } },
+  })
+  if (!order) {
+    throw new Error('Order not found')
+  }
+
+  const pdiStatus = await getUnitPdiStatus(order.rvUnitId)
+  return {
+    vin: order.rvUnit?.vin,
+    pdiStatus: (pdiStatus ?? undefined) as VehicleOrderDeliveryReadiness['pdiStatus'],
+    walkthroughTopics: getWalkthroughTopics(getPdiTemplateKey(order.rvUnit?.model.classType)),
+    blockers: getDeliveryBlockers({ hasUnit: !!order.rvUnitId, pdiStatus, walkthroughAcknowledged: true }),
+  }
+}
+
+// Record the customer's walkthrough acknowledgment and mark the order delivered
+export async function deliverVehicleOrder(
+  orderNumber: string,
+  walkthrough: DeliveryWalkthroughInput,
+  userId?: string
+): Promise<VehicleOrder> {
+  const readiness = await getVehicleOrderDeliveryReadiness(orderNumber)
+  if (readiness.blockers.length > 0) {
+    throw new Error(readiness.blockers.join('; '))
+  }
+
+  const missed = readiness.walkthroughTopics.filter((topic) => !walkthrough.topics.includes(topic))
+  if (missed.length > 0) {
+    throw new Error(`Walkthrough not finished: ${missed.join(', ')}`)
+  }
+
+  const order = await prisma.vehicleOrder.findUniqueOrThrow({ where: { orderNumber } })
+  if (DELIVERED_ORDER_STATUSES.includes(order.status) || order.status === 'cancelled') {
+    throw new Error(`This order is already ${order.status}`)
+  }
+
+  await prisma.vehicleOrder.update({
+    where: { orderNumber },
+    data: {
+      walkthroughAcknowledgedAt: new Date(),
+      walkthroughAcknowledgedBy: walkthrough.customerName,
+      walkthroughTopics: JSON.stringify(readiness.walkthroughTopics),
+    },
+  })
+
+  return updateVehicleOrderStatus(orderNumber, 'delivered', userId, walkthrough.note)
+}
+
 // Add trade-in to order
 export async function addTradeInToOrder(
   orderNumber: string,
@@ -260,6 +404,7 @@ export async function addTradeInToOrder(
       ...tradeInData,
       hasLien: tradeInData.hasLien || false,
       status: 'pending',
+      valuations: { create: { type: 'estimate', value: tradeInData.estimatedValue } },
     },
   })
 
@@ -318,6 +463,7 @@ function mapVehicleOrder(order: any): VehicleOrder {
     requestedExteriorColor: order.requestedExteriorColor,
     requestedInteriorColor: order.requestedInteriorColor,
     requestedOptions: order.requestedOptions ? JSON.parse(order.requestedOptions) : undefined,
+    buildSheet: parseBuildSheet(order.buildSheet) ?? undefined,
     customerType: order.customerType,
     customerName: order.customerName,
     customerEmail: order.customerEmail,
@@ -334,6 +480,7 @@ function mapVehicleOrder(order: any): VehicleOrder {
     tradeInAllowance: order.tradeInAllowance,
     tradeInPayoff: order.tradeInPayoff,
     rebatesApplied: order.rebatesApplied,
+    incentives: order.incentives?.map(mapOrderIncentive),
     taxAmount: order.taxAmount,
     totalPrice: order.totalPrice,
     depositAmount: order.depositAmount,
@@ -346,6 +493,9 @@ function mapVehicleOrder(order: any): VehicleOrder {
     estimatedDeliveryDate: order.estimatedDeliveryDate,
     actualDeliveryDate: order.actualDeliveryDate,
     deliveryNotes: order.deliveryNotes,
+    walkthroughAcknowledgedAt: order.walkthroughAcknowledgedAt,
+    walkthroughAcknowledgedBy: order.walkthroughAcknowledgedBy,
+    walkthroughTopics: order.walkthroughTopics ? JSON.parse(order.walkthroughTopics) : undefined,
     documentsComplete: order.documentsComplete,
     titleReceived: order.titleReceived,
     titleSent: order.titleSent,
@@ -0,0 +1,158 @@
+import { prisma } from '@/lib/prisma'
+import {
+  WARRANTY_COMPONENTS,
+  determineCoverage,
+  type CoverageDecision,
+  type UnitWarranty,
+} from '@/lib/warranty-coverage'
+import { extendedWarrantySchema, type ExtendedWarrantyInput } from '@/lib/validations/warranty'
+import type { ExtendedWarrantyContract, UnitWarrantyCoverage } from '@/types/rv'
+
+const unitWarrantyInclude = {
+  model: { include: { coveragePlan: { include: { terms: true } } } },
+  extendedWarranty: true,
+} as const
+
+function parseComponents(json: string | null): string[] {
+  if (!json) return []
+  try {
+    const components = JSON.parse(json)
+    return Array.isArray(components) ? components.filter((component) => typeof component === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+type ContractRow = {
+  id: string
+  contractNumber: string
+  provider: string
+  components: string | null
+  startDate: Date
+  endDate: Date
+  mileageCap: number | null
+  deductible: number
+  status: string
+}
+
+function mapContract(contract: ContractRow): ExtendedWarrantyContract {
+  return {
+    id: contract.id,
+    contractNumber: contract.contractNumber,
+    provider: contract.provider,
+    components: parseComponents(contract.components),
+    startDate: contract.startDate,
+    endDate: contract.endDate,
+    mileageCap: contract.mileageCap ?? undefined,
+    deductible: contract.deductible,
+    status: contract.status as ExtendedWarrantyContract['status'],
+  }
+}
+
+function toUnitWarranty(unit: {
+  warrantyStartDate: Date | null
+  warrantyEndDate: Date | null
+  model: { coveragePlan: { terms: UnitWarranty['terms'] } | null }
+  extendedWarranty: ContractRow | null
+}): UnitWarranty {
+  return {
+    warrantyStartDate: unit.warrantyStartDate,
+    warrantyEndDate: unit.warrantyEndDate,
+    terms: unit.model.coveragePlan?.terms ?? null,
+    extendedWarranty: unit.extendedWarranty
+      ? { ...unit.extendedWarranty, components: parseComponents(unit.extendedWarranty.components) }
+      : null,
+  }
+}
+
+async function getDealerUnit(dealerId: string, vin: string) {
+  const unit = await prisma.rVUnit.findUnique({ where: { vin }, include: unitWarrantyInclude })
+  if (!unit || unit.dealerId !== dealerId) throw new Error('Unit not found')
+  return unit
+}
+
+/**
+ * Coverage for each claimed component on the unit as of the failure date.
+ * Returns null for claims without a unit, which keep the dealer's own
+ * warranty answer.
+ */
+export async function determineClaimCoverage(
+  rvUnitId: string | null | undefined,
+  components: string[],
+  failureDate: Date,
+  mileage: number | null
+): Promise<CoverageDecision[] | null> {
+  if (!rvUnitId) return null
+  const unit = await prisma.rVUnit.findUnique({ where: { id: rvUnitId }, include: unitWarrantyInclude })
+  if (!unit) return null
+
+  const warranty = toUnitWarranty(unit)
+  return components.map((component) => determineCoverage(warranty, component, failureDate, mileage))
+}
+
+export async function getUnitWarrantyCoverage(dealerId: string, vin: string): Promise<UnitWarrantyCoverage> {
+  const unit = await getDealerUnit(dealerId, vin)
+  const warranty = toUnitWarranty(unit)
+  const asOf = new Date()
+
+  // Components without their own term fall back to the basic term, so only list covered ones
+  const components: string[] = unit.model.coveragePlan
+    ? WARRANTY_COMPONENTS.filter((component) =>
+        unit.model.coveragePlan?.terms.some((term) => term.component === component)
+      )
+    : ['general']
+
+  return {
+    vin: unit.vin,
+    planName: unit.model.coveragePlan?.name,
+    asOf,
+    components: components.map((component) => determineCoverage(warranty, component, asOf, unit.mileage)),
+    extendedWarranty: unit.extendedWarranty ? mapContract(unit.extendedWarranty) : undefined,
+  }
+}
+
+// Register an extended warranty on the unit, replacing a cancelled one
+export async function registerExtendedWarranty(
+  dealerId: string,
+  vin: string,
+  input: ExtendedWarrantyInput,
+  userId: string
+) {
+  const data = extendedWarrantySchema.parse(input)
+  const unit = await getDealerUnit(dealerId, vin)
+  if (unit.extendedWarranty?.status === 'active') {
+    throw new Error(`Contract ${unit.extendedWarranty.contractNumber} is already active on this unit`)
+  }
+
+  const existing = await prisma.extendedWarrantyContract.findUnique({ where: { contractNumber: data.contractNumber } })
+  if (existing) throw new Error(`Contract ${data.contractNumber} is already registered`)
+
+  await prisma.$transaction(async (tx) => {
+    const contract = await tx.extendedWarrantyContract.create({
+      data: {
+        contractNumber: data.contractNumber,
+        provider: data.provider,
+        components: data.components.length > 0 ? JSON.stringify(data.components) : null,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        mileageCap: data.mileageCap ?? null,
+        deductible: data.deductible,
+        dealerId,
+        createdById: userId,
+      },
+    })
+    await tx.rVUnit.update({ where: { id: unit.id }, data: { extendedWarrantyId: contract.id } })
+  })
+}
+
+export async function cancelExtendedWarranty(dealerId: string, vin: string) {
+  const unit = await getDealerUnit(dealerId, vin)
+  if (!unit.extendedWarranty || unit.extendedWarranty.status !== 'active') {
+    throw new Error('This unit has no active extended warranty')
+  }
+
+  await prisma.extendedWarrantyContract.update({
+    where: { id: unit.extendedWarranty.id },
+    data: { status: 'cancelled', cancelledAt: new Date() },
+  })
+}
@@ -0,0 +1,306 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createAndEmitNotification } from '@/lib/notifications'
+import { escapeHtml, formatPrintCurrency } from '@/lib/print-html'
+import {
+  getPartReturnTransition,
+  isPartReturnOverdue,
+  nextReturnTagNumber,
+  type PartReturnAction,
+} from '@/lib/warranty-returns'
+import type { InspectPartReturnInput, ShipPartReturnsInput } from '@/lib/validations/warranty'
+
+async function getPartReturn(returnId: string) {
+  const partReturn = await prisma.warrantyPartReturn.findUnique({
+    where: { id: returnId },
+    include: { claimItem: true, claim: { select: { claimNumber: true, submittedById: true } } },
+  })
+  if (!partReturn) throw new Error('Part return not found')
+  return partReturn
+}
+
+const ACTION_PAST_TENSE: Record<PartReturnAction, string> = {
+  ship: 'shipped',
+  receive: 'received',
+  accept: 'accepted',
+  reject: 'rejected',
+  charge_back: 'charged back',
+}
+
+function assertTransition(status: string, action: PartReturnAction, tagNumber: string) {
+  if (!getPartReturnTransition(status, action)) {
+    throw new Error(`Return ${tagNumber} is ${status.replace('_', ' ')} and cannot be ${ACTION_PAST_TENSE[action]}`)
+  }
+}
+
+// Reverse the item credit on the claim and tell the dealer who filed it. The
+// return only moves if it is still in the status it was read in, so a manual
+// rejection and the overdue job cannot both charge it back; returns false when
+// another update got there first.
+async function chargeBack(
+  partReturn: Awaited<ReturnType<typeof getPartReturn>>,
+  status: 'rejected' | 'charged_back',
+  reason: string,
+  userId: string,
+  now: Date,
+  data: Prisma.WarrantyPartReturnUncheckedUpdateManyInput = {}
+): Promise<boolean> {
+  const applied = await prisma.$transaction(async (tx) => {
+    const moved = await tx.warrantyPartReturn.updateMany({
+      where: { id: partReturn.id, status: partReturn.status },
+      data: {
+        ...data,
+        status,
+        chargebackAmount: partReturn.creditAmount,
+        chargebackReason: reason,
+        chargedBackAt: now,
+      },
+    })
+    if (moved.count !== 1) return false
+
+    await tx.warrantyClaim.update({
+      where: { id: partReturn.claimId },
+      data: { chargebackAmount: { increment: partReturn.creditAmount } },
+    })
+    await tx.warrantyClaimNote.create({
+      data: {
+        claimId: partReturn.claimId,
+        userId,
+        content: `${formatPrintCurrency(partReturn.creditAmount)} charged back for ${partReturn.claimItem.partName} (return ${partReturn.tagNumber}): ${reason}`,
+        isInternal: false,
+        isSystemNote: true,
+      },
+    })
+    return true
+  })
+  if (!applied) return false
+
+  await createAndEmitNotification({
+    userId: partReturn.claim.submittedById,
+    type: 'return_update',
+    title: `Warranty chargeback on ${partReturn.claim.claimNumber}`,
+    body: `${formatPrintCurrency(partReturn.creditAmount)} for ${partReturn.claimItem.partName}: ${reason}`,
+    data: { claimId: partReturn.claimId, returnId: partReturn.id },
+    priority: 'high',
+  })
+  return true
+}
+
+/**
+ * Open return tags for approved items the manufacturer wants back. Items that
+ * already have a return keep it.
+ */
+export async function requirePartReturns(
+  claimId: string,
+  items: Array<{ itemId: string; creditAmount: number }>,
+  dueDate: Date
+): Promise<number> {
+  const existing = await prisma.warrantyPartReturn.findMany({
+    where: { claimItemId: { in: items.map((item) => item.itemId) } },
+    select: { claimItemId: true },
+  })
+  const pending = items.filter((item) => !existing.some((r) => r.claimItemId === item.itemId))
+  if (pending.length === 0) return 0
+
+  const year = new Date().getFullYear()
+  const last = await prisma.warrantyPartReturn.findFirst({
+    where: { tagNumber: { startsWith: `RT-${year}-` } },
+    orderBy: { tagNumber: 'desc' },
+    select: { tagNumber: true },
+  })
+
+  let tagNumber = last?.tagNumber ?? null
+  for (const item of pending) {
+    tagNumber = nextReturnTagNumber(year, tagNumber)
+    await prisma.warrantyPartReturn.create({
+      data: { claimId, claimItemId: item.itemId, tagNumber, dueDate, creditAmount: item.creditAmount },
+    })
+  }
+  return pending.length
+}
+
+export async function shipPartReturns(dealerId: string, input: ShipPartReturnsInput, userId: string) {
+  const claim = await prisma.warrantyClaim.findUnique({
+    where: { id: input.claimId },
+    include: { partReturns: { where: { id: { in: input.returnIds } }, include: { claimItem: true } } },
+  })
+  if (!claim || claim.dealerId !== dealerId) throw new Error('Warranty claim not found')
+  if (claim.partReturns.length !== input.returnIds.length) throw new Error('Part return not found')
+
+  for (const partReturn of claim.partReturns) {
+    assertTransition(partReturn.status, 'ship', partReturn.tagNumber)
+  }
+
+  const shippedAt = new Date()
+  await prisma.$transaction([
+    prisma.warrantyPartReturn.updateMany({
+      where: { id: { in: input.returnIds } },
+      data: { status: 'shipped', carrier: input.carrier, trackingNumber: input.trackingNumber, shippedAt },
+    }),
+    prisma.warrantyClaimNote.create({
+      data: {
+        claimId: claim.id,
+        userId,
+        content: `Shipped ${claim.partReturns.map((r) => r.tagNumber).join(', ')} via ${input.carrier} (tracking ${input.trackingNumber})`,
+        isInternal: false,
+        isSystemNote: true,
+      },
+    }),
+  ])
+}
+
+export async function receivePartReturn(returnId: string, userId: string) {
+  const partReturn = await getPartReturn(returnId)
+  assertTransition(partReturn.status, 'receive', partReturn.tagNumber)
+
+  await prisma.warrantyPartReturn.update({
+    where: { id: returnId },
+    data: { status: 'received', receivedAt: new Date(), receivedById: userId },
+  })
+}
+
+// Accept the part, or reject it and charge back the credit
+export async function inspectPartReturn(input: InspectPartReturnInput, userId: string) {
+  const partReturn = await getPartReturn(input.returnId)
+  assertTransition(partReturn.status, input.result, partReturn.tagNumber)
+
+  const now = new Date()
+  const inspection = { inspectedAt: now, inspectedById: userId, inspectionNotes: input.notes || null }
+  const changed = `Return ${partReturn.tagNumber} was updated by someone else; refresh and try again`
+
+  if (input.result === 'reject') {
+    const applied = await chargeBack(partReturn, 'rejected', `Failed inspection: ${input.notes}`, userId, now, inspection)
+    if (!applied) throw new Error(changed)
+    return
+  }
+
+  const accepted = await prisma.warrantyPartReturn.updateMany({
+    where: { id: partReturn.id, status: partReturn.status },
+    data: { ...inspection, status: 'accepted' },
+  })
+  if (accepted.count === 0) throw new Error(changed)
+}
+
+// Returns still unshipped past their due date
+export async function getOverduePartReturns(now: Date) {
+  return prisma.warrantyPartReturn.findMany({
+    where: { status: 'required', dueDate: { lt: now } },
+    select: { id: true, tagNumber: true },
+    orderBy: { dueDate: 'asc' },
+  })
+}
+
+// Charge back an overdue return; `actorId` is the user the claim note is recorded against
+export async function chargeBackOverduePartReturn(returnId: string, actorId: string, now: Date): Promise<number> {
+  const partReturn = await getPartReturn(returnId)
+  assertTransition(partReturn.status, 'charge_back', partReturn.tagNumber)
+  if (!isPartReturnOverdue(partReturn, now)) throw new Error(`Return ${partReturn.tagNumber} is not overdue`)
+
+  const applied = await chargeBack(
+    partReturn,
+    'charged_back',
+    `Part not returned by ${partReturn.dueDate.toISOString().slice(0, 10)}`,
+    actorId,
+    now
+  )
+  // Rejected or shipped since it was read; nothing was charged back here
+  return applied ? partReturn.creditAmount : 0
+}
+
+// Printable return tags, one per part, followed by the packing list for the box
+export async function generatePartReturnTagsHtml(claimId: string): Promise<string | null> {
+  const claim = await prisma.warrantyClaim.findUnique({
+    where: { id: claimId },
+    include: {
+      dealer: { select: { name: true, code: true } },
+      partReturns: {
+        where: { status: { in: ['required', 'shipped'] } },
+        include: { claimItem: true },
+        orderBy: { tagNumber: 'asc' },
+      },
+    },
+  })
+  if (!claim || claim.partReturns.length === 0) return null
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Return Tags ${escapeHtml(claim.claimNumber)}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; line-height: 1.5; color: #333; }
+    .page { max-width: 800px; margin: 0 auto; padding: 40px; }
+    .tag { border: 2px dashed #333; padding: 24px; margin-bottom: 24px; page-break-inside: avoid; }
+    .tag h1 { font-size: 28px; color: #556B2F; }
+    .tag-number { font-size: 36px; font-weight: bold; letter-spacing: 2px; margin: 8px 0 16px; }
+    .fields { display: grid; grid-template-columns: 1fr 1fr; gap: 8px 24px; }
+    .label { font-size: 11px; text-transform: uppercase; color: #666; }
+    h2 { font-size: 20px; color: #556B2F; margin-bottom: 12px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+    th { text-align: left; padding: 12px; background: #556B2F; color: white; font-size: 12px; text-transform: uppercase; }
+    td { padding: 12px; border-bottom: 1px solid #eee; }
+    .packing-list { page-break-before: always; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 12px; }
+    @media print {
+      .page { padding: 20px; }
+      th { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    }
+  </style>
+</head>
+<body>
+  <div class="page">
+    ${claim.partReturns.map((partReturn) => `
+      <div class="tag">
+        <h1>WARRANTY PART RETURN</h1>
+        <div class="tag-number">${escapeHtml(partReturn.tagNumber)}</div>
+        <div class="fields">
+          <div><div class="label">Claim</div>${escapeHtml(claim.claimNumber)}</div>
+          <div><div class="label">Dealer</div>${escapeHtml(claim.dealer.name)} (${escapeHtml(claim.dealer.code)})</div>
+          <div><div class="label">Part</div>${escapeHtml(partReturn.claimItem.partName)}${partReturn.claimItem.partNumber ? ` (${escapeHtml(partReturn.claimItem.partNumber)})` : ''}</div>
+          <div><div class="label">Quantity</div>${partReturn.claimItem.approvedQty ?? partReturn.claimItem.quantity}</div>
+          <div><div class="label">VIN / Serial</div>${escapeHtml(claim.vin ?? claim.serialNumber ?? '-')}</div>
+          <div><div class="label">Return By</div>${formatDate(partReturn.dueDate)}</div>
+        </div>
+        ${partReturn.claimItem.issueDescription ? `<p style="margin-top: 12px;"><span class="label">Failure</span><br>${escapeHtml(partReturn.claimItem.issueDescription)}</p>` : ''}
+      </div>
+    `).join('')}
+
+    <div class="packing-list">
+      <h2>Packing List &middot; ${escapeHtml(claim.claimNumber)}</h2>
+      <p style="margin-bottom: 16px;">${escapeHtml(claim.dealer.name)} &middot; ${escapeHtml(claim.productName)}</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Tag</th>
+            <th>Part</th>
+            <th>Qty</th>
+            <th>Return By</th>
+            <th>Credit</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${claim.partReturns.map((partReturn) => `
+            <tr>
+              <td>${escapeHtml(partReturn.tagNumber)}</td>
+              <td>${escapeHtml(partReturn.claimItem.partName)}${partReturn.claimItem.partNumber ? ` (${escapeHtml(partReturn.claimItem.partNumber)})` : ''}</td>
+              <td>${partReturn.claimItem.approvedQty ?? partReturn.claimItem.quantity}</td>
+              <td>${formatDate(partReturn.dueDate)}</td>
+              <td>${formatPrintCurrency(partReturn.creditAmount)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      <div class="footer">
+        Attach each tag to its part. Parts not shipped by the return date are charged back.
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`
+}
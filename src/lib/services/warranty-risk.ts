@@ -0,0 +1,132 @@
+import { prisma } from '@/lib/prisma'
+import { getPartKey, scoreClaimRisk, type ClaimRiskContext } from '@/lib/warranty-risk'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Network comparisons look back a year from the filing date
+const LOOKBACK_DAYS = 365
+
+// Labor hours on other filed claims for the same parts, one sample per claim
+async function getPartLaborHours(
+  claimId: string,
+  parts: Array<{ partNumber: string | null; partName: string }>
+): Promise<Record<string, number[]>> {
+  const partNumbers = parts.map((part) => part.partNumber).filter((n): n is string => !!n)
+  const partNames = parts.filter((part) => !part.partNumber).map((part) => part.partName)
+
+  const items = await prisma.warrantyClaimItem.findMany({
+    where: {
+      claimId: { not: claimId },
+      claim: { status: { not: 'draft' }, laborHours: { gt: 0 } },
+      OR: [{ partNumber: { in: partNumbers } }, { partName: { in: partNames } }],
+    },
+    select: { partNumber: true, partName: true, claim: { select: { id: true, laborHours: true } } },
+  })
+
+  const samples: Record<string, Array<{ claimId: string; hours: number }>> = {}
+  for (const item of items) {
+    const key = getPartKey(item)
+    samples[key] = samples[key] ?? []
+    if (!samples[key].some((sample) => sample.claimId === item.claim.id)) {
+      samples[key].push({ claimId: item.claim.id, hours: item.claim.laborHours ?? 0 })
+    }
+  }
+  return Object.fromEntries(Object.entries(samples).map(([key, list]) => [key, list.map((s) => s.hours)]))
+}
+
+// Claims filed and units sold per dealer over the lookback window
+async function getDealerRates(since: Date): Promise<ClaimRiskContext['dealerRates']> {
+  const [claims, units] = await Promise.all([
+    prisma.warrantyClaim.groupBy({
+      by: ['dealerId'],
+      where: { submittedAt: { gte: since } },
+      _count: { id: true },
+    }),
+    prisma.rVUnit.groupBy({
+      by: ['dealerId'],
+      where: { soldDate: { gte: since } },
+      _count: { id: true },
+    }),
+  ])
+
+  return units.map((unit) => ({
+    dealerId: unit.dealerId,
+    unitsSold: unit._count.id,
+    claims: claims.find((claim) => claim.dealerId === unit.dealerId)?._count.id ?? 0,
+  }))
+}
+
+/**
+ * Run the anomaly checks on a filed claim and store its risk score and
+ * flags for reviewers. Re-running replaces the previous result.
+ */
+export async function scoreWarrantyClaimRisk(claimId: string) {
+  const claim = await prisma.warrantyClaim.findUnique({
+    where: { id: claimId },
+    include: {
+      items: { select: { partNumber: true, partName: true } },
+      rvUnit: { select: { warrantyEndDate: true } },
+    },
+  })
+  if (!claim) throw new Error('Warranty claim not found')
+
+  const filedAt = claim.submittedAt ?? new Date()
+  const since = new Date(filedAt.getTime() - LOOKBACK_DAYS * DAY_MS)
+  const filed = { id: { not: claimId }, status: { not: 'draft' } }
+
+  const [vinClaims, partLaborHours, dealerRates, dealerClaims] = await Promise.all([
+    claim.vin
+      ? prisma.warrantyClaim.findMany({
+          where: { ...filed, vin: claim.vin },
+          select: {
+            claimNumber: true,
+            submittedAt: true,
+            createdAt: true,
+            items: { select: { partNumber: true, partName: true } },
+          },
+        })
+      : [],
+    claim.items.length > 0 ? getPartLaborHours(claimId, claim.items) : {},
+    getDealerRates(since),
+    prisma.warrantyClaim.findMany({
+      where: { ...filed, dealerId: claim.dealerId, submittedAt: { gte: since } },
+      select: { claimNumber: true, issueDescription: true },
+    }),
+  ])
+
+  const result = scoreClaimRisk(
+    {
+      vin: claim.vin,
+      description: claim.issueDescription,
+      laborHours: claim.laborHours,
+      parts: claim.items,
+      filedAt,
+      warrantyEndDate: claim.rvUnit?.warrantyEndDate ?? claim.warrantyExpires,
+    },
+    {
+      vinClaims: vinClaims.map((other) => ({
+        claimNumber: other.claimNumber,
+        filedAt: other.submittedAt ?? other.createdAt,
+        parts: other.items,
+      })),
+      partLaborHours,
+      dealerRates,
+      dealerId: claim.dealerId,
+      dealerDescriptions: dealerClaims.map((other) => ({
+        claimNumber: other.claimNumber,
+        description: other.issueDescription,
+      })),
+    }
+  )
+
+  await prisma.warrantyClaim.update({
+    where: { id: claimId },
+    data: {
+      riskScore: result.score,
+      riskFlags: result.flags.length > 0 ? JSON.stringify(result.flags) : null,
+      riskScoredAt: new Date(),
+    },
+  })
+
+  return result
+}
@@ -0,0 +1,428 @@
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/services/email'
+import { escapeHtml, formatPrintCurrency } from '@/lib/print-html'
+import { planCreditApplication } from '@/lib/order-returns'
+import { withCreditMemoNumbers } from '@/lib/services/credit-memos'
+import {
+  SETTLEABLE_CLAIM_STATUSES,
+  SETTLEMENT_METHOD_LABELS,
+  getClaimSettlementAmount,
+  getSettlementHold,
+  nextSettlementBatchNumber,
+  planSettlement,
+  type SettlementMethod,
+} from '@/lib/warranty-settlement'
+import type { RecordSettlementPayoutInput } from '@/lib/validations/warranty'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Unpaid approved claims resolved by the end of the period. Claims resolved
+ * earlier that were held or missed by a previous run are carried into it.
+ */
+async function getUnsettledClaims(periodEnd: Date, dealerId?: string) {
+  return prisma.warrantyClaim.findMany({
+    where: {
+      status: { in: SETTLEABLE_CLAIM_STATUSES },
+      settlementId: null,
+      resolvedAt: { lt: new Date(periodEnd.getTime() + DAY_MS) },
+      ...(dealerId && { dealerId }),
+    },
+    include: {
+      dealer: { select: { name: true, code: true } },
+      partReturns: { select: { status: true } },
+    },
+    orderBy: { resolvedAt: 'asc' },
+  })
+}
+
+export async function previewWarrantySettlement(periodEnd: Date) {
+  const claims = await getUnsettledClaims(periodEnd)
+  const plan = planSettlement(claims)
+
+  return {
+    dealers: plan.dealers.map((dealer) => {
+      const first = claims.find((claim) => claim.dealerId === dealer.dealerId)!
+      return { ...dealer, dealerName: first.dealer.name, dealerCode: first.dealer.code }
+    }),
+    held: plan.held.map((hold) => {
+      const claim = claims.find((c) => c.id === hold.claimId)!
+      return { ...hold, claimNumber: claim.claimNumber, dealerName: claim.dealer.name }
+    }),
+  }
+}
+
+/**
+ * Pay every settleable claim in the period: one statement per dealer, the
+ * claims marked paid, and either credit memos against the dealer's open
+ * invoices or a pending check/ACH payout. Statements are emailed afterwards.
+ */
+export async function runWarrantySettlement(
+  input: { periodStart: Date; periodEnd: Date; method: SettlementMethod },
+  userId: string
+) {
+  const claims = await getUnsettledClaims(input.periodEnd)
+  const plan = planSettlement(claims)
+  if (plan.dealers.length === 0) throw new Error('No approved claims are ready to settle for this period')
+
+  // Work out every credit application up front so memo numbers can be reserved in one run
+  const applications = new Map<string, Array<{ invoiceId: string | null; amount: number }>>()
+  if (input.method === 'credit_memo') {
+    for (const dealer of plan.dealers) {
+      const invoices = await prisma.invoice.findMany({
+        where: { dealerId: dealer.dealerId, status: { notIn: ['draft', 'paid', 'cancelled'] } },
+        select: { id: true, status: true, totalAmount: true, creditedAmount: true },
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      })
+      applications.set(dealer.dealerId, dealer.netAmount > 0 ? planCreditApplication(invoices, dealer.netAmount) : [])
+    }
+  }
+  const memoCount = Array.from(applications.values()).reduce((sum, list) => sum + list.length, 0)
+
+  const paidAt = new Date()
+  const totalAmount = Math.round(plan.dealers.reduce((sum, d) => sum + d.netAmount, 0) * 100) / 100
+  const claimCount = plan.dealers.reduce((sum, d) => sum + d.claimIds.length, 0)
+
+  // Batch and memo numbers are taken inside the transaction, so a clash with a
+  // concurrent run retries with fresh numbers
+  const batch = await withCreditMemoNumbers(memoCount, async (tx, memoNumbers) => {
+    const year = new Date().getFullYear()
+    const lastBatch = await tx.warrantySettlementBatch.findFirst({
+      where: { batchNumber: { startsWith: `WS-${year}-` } },
+      orderBy: { batchNumber: 'desc' },
+      select: { batchNumber: true },
+    })
+    const batchNumber = nextSettlementBatchNumber(year, lastBatch?.batchNumber ?? null)
+
+    const created = await tx.warrantySettlementBatch.create({
+      data: {
+        batchNumber,
+        periodStart: input.periodStart,
+        periodEnd: input.periodEnd,
+        method: input.method,
+        claimCount,
+        totalAmount,
+        createdById: userId,
+      },
+    })
+
+    for (const dealer of plan.dealers) {
+      const statement = await tx.warrantySettlementStatement.create({
+        data: {
+          batchId: created.id,
+          dealerId: dealer.dealerId,
+          claimCount: dealer.claimIds.length,
+          approvedAmount: dealer.approvedAmount,
+          chargebackAmount: dealer.chargebackAmount,
+          netAmount: dealer.netAmount,
+          payoutStatus: input.method !== 'credit_memo' && dealer.netAmount > 0 ? 'pending' : null,
+        },
+      })
+
+      for (const claimId of dealer.claimIds) {
+        const claim = claims.find((c) => c.id === claimId)!
+        const paidAmount = getClaimSettlementAmount(claim)
+        await tx.warrantyClaim.update({
+          where: { id: claimId },
+          data: { status: 'paid', settlementId: statement.id, paidAmount, paidAt },
+        })
+        await tx.warrantyClaimStatusHistory.create({
+          data: {
+            claimId,
+            fromStatus: claim.status,
+            toStatus: 'paid',
+            changedById: userId,
+            note: `${formatPrintCurrency(paidAmount)} paid on settlement ${batchNumber}`,
+          },
+        })
+      }
+
+      for (const application of applications.get(dealer.dealerId) ?? []) {
+        await tx.creditMemo.create({
+          data: {
+            memoNumber: memoNumbers.shift()!,
+            dealerId: dealer.dealerId,
+            invoiceId: application.invoiceId,
+            warrantySettlementId: statement.id,
+            amount: application.amount,
+            reason: `Warranty settlement ${batchNumber}`,
+            createdBy: userId,
+          },
+        })
+
+        if (application.invoiceId) {
+          await tx.invoice.update({
+            where: { id: application.invoiceId },
+            data: { creditedAmount: { increment: application.amount } },
+          })
+        }
+      }
+    }
+
+    return tx.warrantySettlementBatch.findUniqueOrThrow({
+      where: { id: created.id },
+      include: { statements: { select: { id: true } } },
+    })
+  })
+
+  // Statement emails are best effort; a failed send can be retried from the batch
+  for (const statement of batch.statements) {
+    await emailSettlementStatement(statement.id).catch((error) =>
+      console.error(`Failed to email warranty statement ${statement.id}:`, error)
+    )
+  }
+
+  return batch
+}
+
+export async function recordSettlementPayout(input: RecordSettlementPayoutInput) {
+  const statement = await prisma.warrantySettlementStatement.findUnique({ where: { id: input.statementId } })
+  if (!statement) throw new Error('Settlement statement not found')
+  if (statement.payoutStatus !== 'pending') throw new Error('This statement has no pending payout')
+
+  await prisma.warrantySettlementStatement.update({
+    where: { id: statement.id },
+    data: { payoutStatus: 'paid', payoutReference: input.reference, payoutPaidAt: new Date() },
+  })
+}
+
+export async function listWarrantySettlementBatches(take = 20) {
+  return prisma.warrantySettlementBatch.findMany({
+    include: {
+      statements: {
+        include: { dealer: { select: { name: true, code: true } } },
+        orderBy: { netAmount: 'desc' },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take,
+  })
+}
+
+// A dealer's approved claims still waiting on settlement, and the statements already paid
+export async function getDealerWarrantyCredits(dealerId: string) {
+  const [pending, statements] = await Promise.all([
+    prisma.warrantyClaim.findMany({
+      where: { dealerId, status: { in: SETTLEABLE_CLAIM_STATUSES }, settlementId: null },
+      include: { partReturns: { select: { status: true } } },
+      orderBy: { resolvedAt: 'asc' },
+    }),
+    prisma.warrantySettlementStatement.findMany({
+      where: { dealerId },
+      include: {
+        batch: true,
+        claims: { select: { id: true, claimNumber: true, productName: true, paidAmount: true } },
+        creditMemos: {
+          include: { invoice: { select: { invoiceNumber: true } } },
+          orderBy: { memoNumber: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ])
+
+  return {
+    pending: pending.map((claim) => ({
+      id: claim.id,
+      claimNumber: claim.claimNumber,
+      productName: claim.productName,
+      status: claim.status,
+      resolvedAt: claim.resolvedAt,
+      totalApproved: claim.totalApproved ?? 0,
+      chargebackAmount: claim.chargebackAmount,
+      amount: getClaimSettlementAmount(claim),
+      hold: getSettlementHold(claim),
+    })),
+    statements,
+  }
+}
+
+async function getStatement(statementId: string) {
+  const statement = await prisma.warrantySettlementStatement.findUnique({
+    where: { id: statementId },
+    include: {
+      batch: true,
+      dealer: { select: { name: true, code: true } },
+      claims: { orderBy: { claimNumber: 'asc' } },
+      creditMemos: {
+        include: { invoice: { select: { invoiceNumber: true } } },
+        orderBy: { memoNumber: 'asc' },
+      },
+    },
+  })
+  if (!statement) throw new Error('Settlement statement not found')
+  return statement
+}
+
+// Printable settlement statement; also the body of the statement email
+export async function generateSettlementStatementHtml(statementId: string): Promise<string> {
+  const statement = await getStatement(statementId)
+  const { batch } = statement
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const method = SETTLEMENT_METHOD_LABELS[batch.method as SettlementMethod] ?? batch.method
+  const payment =
+    batch.method === 'credit_memo'
+      ? statement.creditMemos.length > 0
+        ? `
+      <table>
+        <thead>
+          <tr>
+            <th>Credit Memo</th>
+            <th>Applied To</th>
+            <th class="amount">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${statement.creditMemos.map((memo) => `
+            <tr>
+              <td>${escapeHtml(memo.memoNumber)}</td>
+              <td>${memo.invoice ? `Invoice ${escapeHtml(memo.invoice.invoiceNumber)}` : 'Credit on account'}</td>
+              <td class="amount">${formatPrintCurrency(memo.amount)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>`
+        : '<p>No credit due.</p>'
+      : `<p>${formatPrintCurrency(statement.netAmount)} by ${escapeHtml(method)}${
+          statement.payoutStatus === 'paid'
+            ? `, paid ${formatDate(statement.payoutPaidAt!)} (reference ${escapeHtml(statement.payoutReference)})`
+            : ', to follow'
+        }.</p>`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Warranty Settlement ${escapeHtml(batch.batchNumber)} &middot; ${escapeHtml(statement.dealer.code)}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; line-height: 1.5; color: #333; }
+    .page { max-width: 800px; margin: 0 auto; padding: 40px; }
+    h1 { font-size: 28px; color: #556B2F; }
+    h2 { font-size: 18px; color: #556B2F; margin: 24px 0 12px; }
+    .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 8px 24px; margin-top: 16px; }
+    .label { font-size: 11px; text-transform: uppercase; color: #666; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th { text-align: left; padding: 12px; background: #556B2F; color: white; font-size: 12px; text-transform: uppercase; }
+    td { padding: 12px; border-bottom: 1px solid #eee; }
+    .amount { text-align: right; }
+    .totals td { border-bottom: none; padding: 6px 12px; }
+    .totals .net td { font-weight: bold; font-size: 16px; border-top: 2px solid #556B2F; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 12px; }
+    @media print {
+      .page { padding: 20px; }
+      th { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <h1>WARRANTY SETTLEMENT STATEMENT</h1>
+    <div class="meta">
+      <div><div class="label">Dealer</div>${escapeHtml(statement.dealer.name)} (${escapeHtml(statement.dealer.code)})</div>
+      <div><div class="label">Settlement</div>${escapeHtml(batch.batchNumber)}</div>
+      <div><div class="label">Period</div>${formatDate(batch.periodStart)} &ndash; ${formatDate(batch.periodEnd)}</div>
+      <div><div class="label">Payment Method</div>${escapeHtml(method)}</div>
+    </div>
+
+    <h2>Claims Paid</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Claim</th>
+          <th>Product</th>
+          <th class="amount">Approved</th>
+          <th class="amount">Charged Back</th>
+          <th class="amount">Paid</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${statement.claims.map((claim) => `
+          <tr>
+            <td>${escapeHtml(claim.claimNumber)}</td>
+            <td>${escapeHtml(claim.productName)}</td>
+            <td class="amount">${formatPrintCurrency(claim.totalApproved ?? 0)}</td>
+            <td class="amount">${claim.chargebackAmount > 0 ? `(${formatPrintCurrency(claim.chargebackAmount)})` : '-'}</td>
+            <td class="amount">${formatPrintCurrency(claim.paidAmount ?? 0)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    <table class="totals">
+      <tr><td class="amount">Approved</td><td class="amount">${formatPrintCurrency(statement.approvedAmount)}</td></tr>
+      <tr><td class="amount">Chargebacks</td><td class="amount">(${formatPrintCurrency(statement.chargebackAmount)})</td></tr>
+      <tr class="net"><td class="amount">Net Credit</td><td class="amount">${formatPrintCurrency(statement.netAmount)}</td></tr>
+    </table>
+
+    <h2>Payment</h2>
+    ${payment}
+
+    <div class="footer">
+      Statement ${escapeHtml(batch.batchNumber)} &middot; ${statement.claimCount} claims &middot; issued ${formatDate(statement.createdAt)}
+    </div>
+  </div>
+</body>
+</html>
+`
+}
+
+// Send the statement to the dealer's billing contact, or its first dealer admin
+export async function emailSettlementStatement(statementId: string): Promise<string> {
+  const statement = await getStatement(statementId)
+  const dealer = await prisma.dealer.findUniqueOrThrow({
+    where: { id: statement.dealerId },
+    include: {
+      contacts: { where: { type: 'billing' }, orderBy: { isPrimary: 'desc' }, take: 1 },
+      users: {
+        where: { role: { in: ['dealer_admin', 'dealer_user'] }, status: 'active' },
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+        take: 1,
+      },
+    },
+  })
+  const to = dealer.contacts[0]?.email ?? dealer.users[0]?.email
+  if (!to) throw new Error(`No billing contact or user to email for ${dealer.name}`)
+
+  const { batch } = statement
+  const text = `
+Warranty Settlement ${batch.batchNumber}
+
+${dealer.name} (${dealer.code})
+${statement.claimCount} claims paid
+
+Approved: ${formatPrintCurrency(statement.approvedAmount)}
+Chargebacks: ${formatPrintCurrency(statement.chargebackAmount)}
+Net credit: ${formatPrintCurrency(statement.netAmount)}
+
+${
+  batch.method === 'credit_memo'
+    ? statement.creditMemos
+        .map((memo) => `${memo.memoNumber}: ${formatPrintCurrency(memo.amount)} ${memo.invoice ? `applied to invoice ${memo.invoice.invoiceNumber}` : 'on account'}`)
+        .join('\n')
+    : `Payment by ${SETTLEMENT_METHOD_LABELS[batch.method as SettlementMethod] ?? batch.method} to follow.`
+}
+
+The full statement is available under Warranty Credits in the THOR Dealer Portal.
+
+---
+THOR Dealer Portal
+`.trim()
+
+  const result = await sendEmail({
+    to,
+    subject: `Warranty Settlement ${batch.batchNumber} - THOR Dealer Portal`,
+    text,
+    html: await generateSettlementStatementHtml(statementId),
+  })
+  if (!result.success) throw new Error(result.error || 'Failed to send statement')
+
+  await prisma.warrantySettlementStatement.update({
+    where: { id: statementId },
+    data: { emailedTo: to, emailedAt: new Date() },
+  })
+  return to
+}
@@ -9,8 +9,23 @@ import type {
   AddWarrantyNoteInput,
   RespondToInfoRequestInput,
   WarrantyFilterInput,
+  WarrantyLaborLineInput,
   WarrantyStatus,
 } from '@/lib/validations/warranty'
+import {
+  describeLaborFlag,
+  findLaborOperation,
+  getApplicableLaborOperations,
+  normalizeOpCode,
+  validateLaborLine,
+  type LaborUnitScope,
+} from '@/lib/warranty-labor'
+import { getClaimCoverageBlockers, summarizeCoverage } from '@/lib/warranty-coverage'
+import { determineClaimCoverage } from '@/lib/services/warranty-coverage'
+import { getPartReturnCredit, getPartReturnDueDate } from '@/lib/warranty-returns'
+import { requirePartReturns } from '@/lib/services/warranty-returns'
+import { scoreWarrantyClaimRisk } from '@/lib/services/warranty-risk'
+import { RISK_LEVELS } from '@/lib/warranty-risk'
 
 // Result types
 export type WarrantyResult = {
@@ -38,9 +53,15 @@ export type WarrantyClaimWithRelations = {
   customerPhone: string | null
   customerEmail: string | null
   customerAddress: string | null
+  rvUnitId: string | null
+  vin: string | null
   issueDescription: string
   failureDate: Date | null
+  failureMileage: number | null
   isUnderWarranty: boolean
+  goodwillRequested: boolean
+  warrantyStatus: string | null
+  warrantyExpires: Date | null
   resolutionType: string | null
   resolutionNotes: string | null
   laborHours: number | null
@@ -50,6 +71,12 @@ export type WarrantyClaimWithRelations = {
   shippingAmount: number
   totalRequested: number
   totalApproved: number | null
+  chargebackAmount: number
+  paidAmount: number | null
+  paidAt: Date | null
+  riskScore: number | null
+  riskFlags: string | null
+  riskScoredAt: Date | null
   priority: string
   submittedAt: Date | null
   reviewedAt: Date | null
@@ -87,11 +114,45 @@ export type WarrantyClaimWithRelations = {
     totalCost: number
     issueType: string
     issueDescription: string | null
+    component: string
+    coverageStatus: string | null
+    coverageNote: string | null
     approved: boolean | null
     approvedQty: number | null
     approvedAmount: number | null
     denialReason: string | null
+    partReturn: {
+      id: string
+      tagNumber: string
+      status: string
+      dueDate: Date
+      creditAmount: number
+      carrier: string | null
+      trackingNumber: string | null
+      shippedAt: Date | null
+      receivedAt: Date | null
+      inspectedAt: Date | null
+      inspectionNotes: string | null
+      chargebackAmount: number | null
+      chargebackReason: string | null
+    } | null
   }>
+  laborLines: Array<{
+    id: string
+    opCode: string
+    description: string
+    hours: number
+    rate: number
+    amount: number
+    standardHours: number | null
+    approvedRate: number | null
+    flags: string | null
+    suggestedAmount: number | null
+    approved: boolean | null
+    approvedAmount: number | null
+    denialReason: string | null
+  }>
+  laborValidatedAt: Date | null
   attachments: Array<{
     id: string
     filename: string
@@ -157,8 +218,14 @@ function calculateTotals(input: {
   partsAmount?: number
   shippingAmount?: number
   items?: Array<{ quantity: number; unitCost: number }>
+  laborLines?: Array<{ hours: number; rate: number }>
 }) {
-  const laborAmount = (input.laborHours || 0) * (input.laborRate || 0)
+  let laborAmount = (input.laborHours || 0) * (input.laborRate || 0)
+
+  // Op-coded labor lines replace the single hours/rate entry
+  if (input.laborLines && input.laborLines.length > 0) {
+    laborAmount = input.laborLines.reduce((sum, line) => sum + line.hours * line.rate, 0)
+  }
 
   // Calculate parts total from items if provided
   let partsAmount = input.partsAmount || 0
@@ -177,6 +244,179 @@ function calculateTotals(input: {
   }
 }
 
+// Model and class the labor guide is looked up by: the claim's unit, or the
+// model code entered on claims without a unit
+async function getLaborScope(
+  rvUnitId: string | null | undefined,
+  modelNumber: string | null | undefined
+): Promise<LaborUnitScope> {
+  if (rvUnitId) {
+    const unit = await prisma.rVUnit.findUnique({
+      where: { id: rvUnitId },
+      select: { modelId: true, model: { select: { classType: true } } },
+    })
+    if (unit) return { rvModelId: unit.modelId, classType: unit.model.classType }
+  }
+  if (modelNumber) {
+    const model = await prisma.rVModel.findUnique({
+      where: { code: modelNumber },
+      select: { id: true, classType: true },
+    })
+    if (model) return { rvModelId: model.id, classType: model.classType }
+  }
+  return {}
+}
+
+async function getActiveLaborOperations() {
+  return prisma.warrantyLaborOperation.findMany({ where: { isActive: true } })
+}
+
+// Labor line rows with op codes normalized and descriptions taken from the
+// guide when the dealer left them blank
+async function buildLaborLines(lines: WarrantyLaborLineInput[], scope: LaborUnitScope) {
+  const operations = await getActiveLaborOperations()
+  return lines.map((line) => {
+    const opCode = normalizeOpCode(line.opCode)
+    const operation = findLaborOperation(operations, opCode, scope)
+    return {
+      opCode,
+      description: line.description?.trim() || operation?.description || opCode,
+      hours: line.hours,
+      rate: line.rate,
+      amount: Math.round(line.hours * line.rate * 100) / 100,
+    }
+  })
+}
+
+// Claim-level hours and blended rate for op-coded labor lines
+function summarizeLaborLines(lines: Array<{ hours: number; rate: number }>) {
+  const hours = lines.reduce((sum, line) => sum + line.hours, 0)
+  const amount = lines.reduce((sum, line) => sum + line.hours * line.rate, 0)
+  return {
+    laborHours: Math.round(hours * 100) / 100,
+    laborRate: hours > 0 ? Math.round((amount / hours) * 100) / 100 : null,
+  }
+}
+
+/**
+ * Check the claim's labor lines against the flat-rate guide and the dealer's
+ * approved rate, storing standard hours, flags and the suggested amount on
+ * each line and leaving an internal note listing what was flagged. Runs on
+ * every submission so lines edited after an info request are re-checked.
+ */
+async function applyLaborStandards(claimId: string, userId: string) {
+  const claim = await prisma.warrantyClaim.findUnique({
+    where: { id: claimId },
+    include: {
+      laborLines: { orderBy: { createdAt: 'asc' } },
+      dealer: { select: { warrantyLaborRate: { select: { approvedRate: true } } } },
+    },
+  })
+  if (!claim) return
+
+  const approvedRate = claim.dealer.warrantyLaborRate?.approvedRate ?? null
+  const scope = await getLaborScope(claim.rvUnitId, claim.modelNumber)
+  const operations = claim.laborLines.length > 0 ? await getActiveLaborOperations() : []
+  const findings: string[] = []
+
+  const lineUpdates = claim.laborLines.map((line) => {
+    const result = validateLaborLine(line, findLaborOperation(operations, line.opCode, scope), approvedRate)
+    for (const flag of result.flags) {
+      findings.push(describeLaborFlag(flag, { ...line, standardHours: result.standardHours, approvedRate }))
+    }
+    return prisma.warrantyClaimLaborLine.update({
+      where: { id: line.id },
+      data: {
+        standardHours: result.standardHours,
+        approvedRate: result.approvedRate,
+        flags: result.flags.length > 0 ? JSON.stringify(result.flags) : null,
+        suggestedAmount: result.suggestedAmount,
+      },
+    })
+  })
+
+  // Labor entered without op codes (e.g. converted from a repair order) can only be rate-checked
+  if (claim.laborLines.length === 0 && approvedRate !== null && (claim.laborRate ?? 0) > approvedRate) {
+    findings.push(
+      `$${(claim.laborRate ?? 0).toFixed(2)}/hr claimed vs $${approvedRate.toFixed(2)}/hr approved`
+    )
+  }
+
+  await prisma.$transaction([
+    ...lineUpdates,
+    prisma.warrantyClaim.update({
+      where: { id: claimId },
+      data: { laborValidatedAt: new Date() },
+    }),
+    ...(findings.length > 0
+      ? [
+          prisma.warrantyClaimNote.create({
+            data: {
+              claimId,
+              userId,
+              content: `Labor guide check flagged:\n${findings.map((finding) => `- ${finding}`).join('\n')}`,
+              isInternal: true,
+              isSystemNote: true,
+            },
+          }),
+        ]
+      : []),
+  ])
+}
+
+// Risk scoring is advisory; a failure must not block the submission
+async function recordClaimRisk(claimId: string) {
+  await scoreWarrantyClaimRisk(claimId).catch((error) =>
+    console.error('Failed to score warranty claim risk:', error)
+  )
+}
+
+// Item coverage from the unit's warranty terms on the failure date, and the
+// claim-level warranty fields that follow from it. Claims without a unit
+// return null and keep what the dealer entered.
+async function getClaimCoverage(input: {
+  rvUnitId?: string | null
+  failureDate?: Date | null
+  failureMileage?: number | null
+  items?: Array<{ component: string }>
+}) {
+  const components = input.items && input.items.length > 0 ? input.items.map((item) => item.component) : ['general']
+  const decisions = await determineClaimCoverage(
+    input.rvUnitId,
+    components,
+    input.failureDate ?? new Date(),
+    input.failureMileage ?? null
+  )
+  if (!decisions) return null
+
+  return { decisions, ...summarizeCoverage(decisions) }
+}
+
+// Op codes a dealer can claim on a unit, with their approved labor rate
+export async function getWarrantyLaborGuide(
+  dealerId: string,
+  rvUnitId?: string | null,
+  modelNumber?: string | null
+): Promise<{
+  operations: Array<{ opCode: string; description: string; standardHours: number }>
+  approvedRate: number | null
+}> {
+  const [scope, operations, rate] = await Promise.all([
+    getLaborScope(rvUnitId, modelNumber),
+    getActiveLaborOperations(),
+    prisma.dealerWarrantyLaborRate.findUnique({ where: { dealerId } }),
+  ])
+
+  return {
+    operations: getApplicableLaborOperations(operations, scope).map((operation) => ({
+      opCode: normalizeOpCode(operation.opCode),
+      description: operation.description,
+      standardHours: operation.standardHours,
+    })),
+    approvedRate: rate?.approvedRate ?? null,
+  }
+}
+
 // Create a new warranty claim
 export async function createWarrantyClaim(
   input: CreateWarrantyClaimInput,
@@ -190,8 +430,33 @@ export async function createWarrantyClaim(
       partsAmount: input.partsAmount,
       shippingAmount: input.shippingAmount,
       items: input.items,
+      laborLines: input.laborLines,
     })
 
+    const laborLines =
+      input.laborLines && input.laborLines.length > 0
+        ? await buildLaborLines(input.laborLines, await getLaborScope(input.rvUnitId, input.modelNumber))
+        : null
+
+    const coverage = await getClaimCoverage(input)
+    const itemCoverage = (index: number) =>
+      coverage && input.items && input.items.length > 0
+        ? { coverageStatus: coverage.decisions[index].status, coverageNote: coverage.decisions[index].reason }
+        : { coverageStatus: null, coverageNote: null }
+
+    if (input.submitNow && coverage) {
+      const blockers = getClaimCoverageBlockers({
+        productName: input.productName,
+        rvUnitId: input.rvUnitId || null,
+        isUnderWarranty: coverage.isUnderWarranty,
+        goodwillRequested: input.goodwillRequested,
+        items: (input.items ?? []).map((item, index) => ({ partName: item.partName, ...itemCoverage(index) })),
+      })
+      if (blockers.length > 0) {
+        return { success: false, error: blockers.join('; ') }
+      }
+    }
+
     const claimNumber = await generateClaimNumber()
     const status = input.submitNow ? 'submitted' : 'draft'
 
@@ -214,9 +479,13 @@ export async function createWarrantyClaim(
         customerAddress: input.customerAddress || null,
         issueDescription: input.issueDescription,
         failureDate: input.failureDate || null,
-        isUnderWarranty: input.isUnderWarranty,
+        failureMileage: input.failureMileage ?? null,
+        isUnderWarranty: coverage ? coverage.isUnderWarranty : input.isUnderWarranty,
+        goodwillRequested: input.goodwillRequested,
+        ...(coverage && { warrantyStatus: coverage.warrantyStatus, warrantyExpires: coverage.warrantyExpires }),
         laborHours: input.laborHours || null,
         laborRate: input.laborRate || null,
+        ...(laborLines && summarizeLaborLines(laborLines)),
         ...totals,
         priority: input.priority,
         submittedAt: input.submitNow ? new Date() : null,
@@ -225,7 +494,7 @@ export async function createWarrantyClaim(
         vin: input.vin || null,
         items: input.items
           ? {
-              create: input.items.map((item) => ({
+              create: input.items.map((item, index) => ({
                 partNumber: item.partNumber || null,
                 partName: item.partName,
                 quantity: item.quantity,
@@ -233,9 +502,12 @@ export async function createWarrantyClaim(
                 totalCost: item.quantity * item.unitCost,
                 issueType: item.issueType,
                 issueDescription: item.issueDescription || null,
+                component: item.component,
+                ...itemCoverage(index),
               })),
             }
           : undefined,
+        laborLines: laborLines ? { create: laborLines } : undefined,
         statusHistory: {
           create: {
             fromStatus: null,
@@ -247,6 +519,11 @@ export async function createWarrantyClaim(
       },
     })
 
+    if (input.submitNow) {
+      await applyLaborStandards(claim.id, userId)
+      await recordClaimRisk(claim.id)
+    }
+
     return {
       success: true,
       claimId: claim.id,
@@ -269,7 +546,7 @@ export async function updateWarrantyClaim(
   try {
     const claim = await prisma.warrantyClaim.findUnique({
       where: { id: input.id },
-      include: { items: true },
+      include: { items: true, laborLines: true },
     })
 
     if (!claim) {
@@ -290,14 +567,42 @@ export async function updateWarrantyClaim(
       partsAmount: input.partsAmount ?? claim.partsAmount,
       shippingAmount: input.shippingAmount ?? claim.shippingAmount,
       items: input.items,
+      laborLines: input.laborLines ?? claim.laborLines,
     })
 
+    // Re-check coverage against the items, failure date and mileage as edited
+    const coverage = await getClaimCoverage({
+      rvUnitId: claim.rvUnitId,
+      failureDate: input.failureDate ?? claim.failureDate,
+      failureMileage: input.failureMileage ?? claim.failureMileage,
+      items: input.items ?? claim.items,
+    })
+    if (coverage && !input.items) {
+      await Promise.all(
+        claim.items.map((item, index) =>
+          prisma.warrantyClaimItem.update({
+            where: { id: item.id },
+            data: { coverageStatus: coverage.decisions[index].status, coverageNote: coverage.decisions[index].reason },
+          })
+        )
+      )
+    }
+
+    const laborLines = input.laborLines
+      ? await buildLaborLines(input.laborLines, await getLaborScope(claim.rvUnitId, input.modelNumber ?? claim.modelNumber))
+      : null
+
     // Delete existing items if new ones are provided
     if (input.items) {
       await prisma.warrantyClaimItem.deleteMany({
         where: { claimId: input.id },
       })
     }
+    if (laborLines) {
+      await prisma.warrantyClaimLaborLine.deleteMany({
+        where: { claimId: input.id },
+      })
+    }
 
     await prisma.warrantyClaim.update({
       where: { id: input.id },
@@ -315,14 +620,18 @@ export async function updateWarrantyClaim(
         customerAddress: input.customerAddress,
         issueDescription: input.issueDescription,
         failureDate: input.failureDate,
-        isUnderWarranty: input.isUnderWarranty,
+        failureMileage: input.failureMileage,
+        isUnderWarranty: coverage ? coverage.isUnderWarranty : input.isUnderWarranty,
+        goodwillRequested: input.goodwillRequested,
+        ...(coverage && { warrantyStatus: coverage.warrantyStatus, warrantyExpires: coverage.warrantyExpires }),
         laborHours: input.laborHours,
         laborRate: input.laborRate,
+        ...(laborLines && laborLines.length > 0 && summarizeLaborLines(laborLines)),
         ...totals,
         priority: input.priority,
         items: input.items
           ? {
-              create: input.items.map((item) => ({
+              create: input.items.map((item, index) => ({
                 partNumber: item.partNumber || null,
                 partName: item.partName,
                 quantity: item.quantity,
@@ -330,9 +639,13 @@ export async function updateWarrantyClaim(
                 totalCost: item.quantity * item.unitCost,
                 issueType: item.issueType,
                 issueDescription: item.issueDescription || null,
+                component: item.component,
+                coverageStatus: coverage?.decisions[index].status ?? null,
+                coverageNote: coverage?.decisions[index].reason ?? null,
               })),
             }
           : undefined,
+        laborLines: laborLines ? { create: laborLines } : undefined,
       },
     })
 
@@ -354,6 +667,7 @@ export async function submitWarrantyClaim(
   try {
     const claim = await prisma.warrantyClaim.findUnique({
       where: { id: claimId },
+      include: { items: true },
     })
 
     if (!claim) {
@@ -364,6 +678,13 @@ export async function submitWarrantyClaim(
       return { success: false, error: 'Only draft claims can be submitted' }
     }
 
+    const blockers = getClaimCoverageBlockers(claim)
+    if (blockers.length > 0) {
+      return { success: false, error: blockers.join('; ') }
+    }
+
+    await applyLaborStandards(claimId, userId)
+
     await prisma.$transaction([
       prisma.warrantyClaim.update({
         where: { id: claimId },
@@ -383,6 +704,8 @@ export async function submitWarrantyClaim(
       }),
     ])
 
+    await recordClaimRisk(claimId)
+
     return { success: true, claimId, claimNumber: claim.claimNumber }
   } catch (error) {
     console.error('Failed to submit warranty claim:', error)
@@ -393,6 +716,55 @@ export async function submitWarrantyClaim(
   }
 }
 
+// Flag an open claim as a goodwill request so out-of-coverage items can be submitted
+export async function requestWarrantyGoodwill(
+  claimId: string,
+  userId: string,
+  reason?: string
+): Promise<WarrantyResult> {
+  try {
+    const claim = await prisma.warrantyClaim.findUnique({
+      where: { id: claimId },
+    })
+
+    if (!claim) {
+      return { success: false, error: 'Warranty claim not found' }
+    }
+
+    if (!['draft', 'info_requested'].includes(claim.status)) {
+      return { success: false, error: 'Goodwill can only be requested before submission' }
+    }
+
+    if (claim.goodwillRequested) {
+      return { success: false, error: 'Goodwill has already been requested on this claim' }
+    }
+
+    await prisma.$transaction([
+      prisma.warrantyClaim.update({
+        where: { id: claimId },
+        data: { goodwillRequested: true },
+      }),
+      prisma.warrantyClaimNote.create({
+        data: {
+          claimId,
+          userId,
+          content: `Goodwill requested for items outside warranty coverage${reason ? `: ${reason}` : ''}`,
+          isInternal: false,
+          isSystemNote: true,
+        },
+      }),
+    ])
+
+    return { success: true, claimId, claimNumber: claim.claimNumber }
+  } catch (error) {
+    console.error('Failed to request goodwill:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to request goodwill',
+    }
+  }
+}
+
 // Review a warranty claim (manufacturer side)
 export async function reviewWarrantyClaim(
   input: ReviewWarrantyClaimInput,
@@ -401,7 +773,7 @@ export async function reviewWarrantyClaim(
   try {
     const claim = await prisma.warrantyClaim.findUnique({
       where: { id: input.claimId },
-      include: { items: true },
+      include: { items: true, laborLines: true },
     })
 
     if (!claim) {
@@ -447,12 +819,42 @@ export async function reviewWarrantyClaim(
       }
     }
 
+    // Approved parts the manufacturer wants back get a return tag and due date
+    const returnItems =
+      input.action === 'approve' || input.action === 'partial'
+        ? (input.itemDecisions ?? []).flatMap((decision) => {
+            const item = claim.items.find((i) => i.id === decision.itemId)
+            if (!item || !decision.approved || !decision.returnRequired) return []
+            const creditAmount = getPartReturnCredit({
+              totalCost: item.totalCost,
+              approvedAmount: decision.approvedAmount ?? null,
+            })
+            return [{ itemId: item.id, creditAmount }]
+          })
+        : []
+    if (returnItems.length > 0) {
+      await requirePartReturns(input.claimId, returnItems, getPartReturnDueDate(new Date(), input.returnDays))
+    }
+
+    if (input.laborDecisions && input.laborDecisions.length > 0) {
+      for (const decision of input.laborDecisions) {
+        await prisma.warrantyClaimLaborLine.update({
+          where: { id: decision.lineId },
+          data: {
+            approved: decision.approved,
+            approvedAmount: decision.approvedAmount,
+            denialReason: decision.denialReason,
+          },
+        })
+      }
+    }
+
     // Calculate total approved if approving/partial
     let totalApproved = input.totalApproved
     if ((input.action === 'approve' || input.action === 'partial') && !totalApproved) {
-      // Auto-calculate from item decisions if not provided
-      if (input.itemDecisions) {
-        totalApproved = input.itemDecisions.reduce(
+      // Auto-calculate from item and labor decisions if not provided
+      if (input.itemDecisions || input.laborDecisions) {
+        totalApproved = [...(input.itemDecisions ?? []), ...(input.laborDecisions ?? [])].reduce(
           (sum, d) => sum + (d.approvedAmount || 0),
           0
         )
@@ -556,6 +958,7 @@ export async function respondToInfoRequest(
   try {
     const claim = await prisma.warrantyClaim.findUnique({
       where: { id: input.claimId },
+      include: { items: true },
     })
 
     if (!claim) {
@@ -571,6 +974,14 @@ export async function respondToInfoRequest(
 
     const newStatus = input.resubmit ? 'submitted' : 'info_requested'
 
+    if (input.resubmit) {
+      const blockers = getClaimCoverageBlockers(claim)
+      if (blockers.length > 0) {
+        return { success: false, error: blockers.join('; ') }
+      }
+      await applyLaborStandards(input.claimId, userId)
+    }
+
     await prisma.$transaction([
       // Add the response as a note
       prisma.warrantyClaimNote.create({
@@ -602,6 +1013,10 @@ export async function respondToInfoRequest(
         : []),
     ])
 
+    if (input.resubmit) {
+      await recordClaimRisk(input.claimId)
+    }
+
     return { success: true, claimId: input.claimId, claimNumber: claim.claimNumber }
   } catch (error) {
     console.error('Failed to respond to info request:', error)
@@ -634,7 +1049,8 @@ export async function getWarrantyClaimById(
       product: {
         select: { id: true, name: true, sku: true },
       },
-      items: true,
+      items: { include: { partReturn: true } },
+      laborLines: { orderBy: { createdAt: 'asc' } },
       attachments: true,
       notes: {
         include: {
@@ -658,9 +1074,11 @@ export async function getWarrantyClaimById(
     return null
   }
 
-  // Filter internal notes for dealers
+  // Filter internal notes and risk review for dealers
   if (!isAdmin) {
     claim.notes = claim.notes.filter((note: { isInternal: boolean }) => !note.isInternal)
+    claim.riskScore = null
+    claim.riskFlags = null
   }
 
   return claim as WarrantyClaimWithRelations
@@ -682,6 +1100,8 @@ export async function listWarrantyClaims(
     totalRequested: number
     totalApproved: number | null
     priority: string
+    riskScore: number | null
+    riskFlags: string | null
     createdAt: Date
     updatedAt: Date
     dealer: { id: string; name: string; code: string }
@@ -722,6 +1142,12 @@ export async function listWarrantyClaims(
     where.assignedToId = filters.assignedToId
   }
 
+  // Reviewers can narrow the queue to claims at or above a risk level
+  if (isAdmin && filters.risk && filters.risk !== 'all') {
+    const level = RISK_LEVELS.find((entry) => entry.level === filters.risk)
+    where.riskScore = { gte: level?.minScore ?? 1 }
+  }
+
   if (filters.search) {
     where.OR = [
       { claimNumber: { contains: filters.search } },
@@ -767,6 +1193,8 @@ export async function listWarrantyClaims(
       totalRequested: number
       totalApproved: number | null
       priority: string
+      riskScore: number | null
+      riskFlags: string | null
       createdAt: Date
       updatedAt: Date
       dealer: { id: string; name: string; code: string }
@@ -780,6 +1208,8 @@ export async function listWarrantyClaims(
       totalRequested: claim.totalRequested,
       totalApproved: claim.totalApproved,
       priority: claim.priority,
+      riskScore: isAdmin ? claim.riskScore : null,
+      riskFlags: isAdmin ? claim.riskFlags : null,
       createdAt: claim.createdAt,
       updatedAt: claim.updatedAt,
       dealer: claim.dealer,
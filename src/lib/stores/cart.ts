@@ -9,7 +9,8 @@ export type CartItem = {
   productId: string
   sku: string
   name: string
-  price: number
+  price: number // Dealer price the item was added at
+  listPrice?: number // Base price, shown struck through when the dealer price is lower
   quantity: number
   maxQuantity?: number // Available stock
   imageUrl?: string
@@ -36,6 +37,7 @@ export type CartActions = {
   updateQuantity: (productId: string, quantity: number) => void
   removeItem: (productId: string) => void
   clearCart: () => void
+  applyPricing: (prices: Record<string, { price: number; listPrice: number }>) => void
 
   // Cart management
   setCart: (cart: Cart) => void
@@ -184,6 +186,20 @@ export const useCartStore = create<CartStore>()(
         })
       },
 
+      applyPricing: (prices) => {
+        set((state) => ({
+          cart: {
+            ...state.cart,
+            items: state.cart.items.map((item) =>
+              prices[item.productId]
+                ? { ...item, price: prices[item.productId].price, listPrice: prices[item.productId].listPrice }
+                : item
+            ),
+            updatedAt: new Date(),
+          },
+        }))
+      },
+
       // Cart management
       setCart: (cart) => {
         set({ cart, error: null })
@@ -0,0 +1,206 @@
+// Sales tax engine (non-server)
+// Resolves jurisdiction rates for a destination address and applies exemptions.
+
+export type TaxJurisdictionType = 'state' | 'county' | 'city' | 'special'
+
+export type LocalTaxRate = {
+  name: string
+  type: Exclude<TaxJurisdictionType, 'state'>
+  rate: number
+  zipPrefixes: string[] // Matches any ZIP starting with one of these prefixes
+}
+
+export type StateTaxRate = {
+  name: string
+  rate: number
+  taxShipping?: boolean
+  // Vehicle sales: the trade-in allowance reduces the taxable amount (default true)
+  tradeInCredit?: boolean
+  local?: LocalTaxRate[]
+}
+
+export type TaxRateTable = {
+  version: string
+  states: Record<string, StateTaxRate>
+}
+
+export type TaxAddress = {
+  state: string
+  zipCode: string
+}
+
+export type TaxJurisdictionRate = {
+  jurisdiction: string
+  type: TaxJurisdictionType
+  rate: number
+  taxShipping: boolean
+}
+
+export type TaxExemption = {
+  certificateId: string
+  certificateNumber: string
+  type: 'resale' | 'exempt'
+}
+
+export type TaxBreakdownLine = {
+  jurisdiction: string
+  type: TaxJurisdictionType
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+export type TaxQuote = {
+  provider: string
+  rateTableVersion: string | null
+  state: string | null
+  zipCode: string | null
+  lines: TaxBreakdownLine[]
+  exemption: TaxExemption | null
+  totalRate: number
+  taxAmount: number
+}
+
+export type OrderTotals = {
+  subtotal: number
+  taxAmount: number
+  shippingAmount: number
+  totalAmount: number
+  tax: TaxQuote
+}
+
+// A tax provider resolves the jurisdictions that apply to an address.
+// The bundled provider reads a local rate table; others (e.g. a hosted
+// tax API) can be plugged in by implementing the same shape.
+export type TaxProvider = {
+  name: string
+  version: string | null
+  getRates: (address: TaxAddress) => TaxJurisdictionRate[]
+  allowsTradeInCredit?: (state: string) => boolean
+}
+
+export const FREE_SHIPPING_THRESHOLD = 500
+export const FLAT_SHIPPING_AMOUNT = 25
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function normalizeState(state: string | null | undefined): string {
+  return (state || '').trim().toUpperCase()
+}
+
+export function normalizeZip(zipCode: string | null | undefined): string {
+  return (zipCode || '').replace(/[^0-9]/g, '').slice(0, 5)
+}
+
+// Provider backed by a rate table (see prisma/tax-rates.json)
+export function createRateTableProvider(table: TaxRateTable): TaxProvider {
+  return {
+    name: 'rate_table',
+    version: table.version,
+    getRates(address) {
+      const state = normalizeState(address.state)
+      const stateRate = table.states[state]
+      if (!stateRate) return []
+
+      const taxShipping = stateRate.taxShipping ?? false
+      const rates: TaxJurisdictionRate[] = []
+
+      if (stateRate.rate > 0) {
+        rates.push({ jurisdiction: stateRate.name, type: 'state', rate: stateRate.rate, taxShipping })
+      }
+
+      const zip = normalizeZip(address.zipCode)
+      for (const local of stateRate.local || []) {
+        if (local.zipPrefixes.some((prefix) => zip.startsWith(prefix))) {
+          rates.push({ jurisdiction: local.name, type: local.type, rate: local.rate, taxShipping })
+        }
+      }
+
+      return rates
+    },
+    allowsTradeInCredit(state) {
+      return table.states[normalizeState(state)]?.tradeInCredit ?? true
+    },
+  }
+}
+
+export function calculateShipping(subtotal: number): number {
+  return subtotal > FREE_SHIPPING_THRESHOLD ? 0 : FLAT_SHIPPING_AMOUNT
+}
+
+// Apply jurisdiction rates to an order, honoring an exemption certificate
+export function calculateTax(input: {
+  provider: TaxProvider
+  address: TaxAddress | null
+  subtotal: number
+  shippingAmount: number
+  exemption?: TaxExemption | null
+}): TaxQuote {
+  const { provider, address, subtotal, shippingAmount } = input
+  const exemption = input.exemption ?? null
+  const rates = address ? provider.getRates(address) : []
+
+  const lines: TaxBreakdownLine[] = rates.map((rate) => {
+    const taxableAmount = exemption ? 0 : subtotal + (rate.taxShipping ? shippingAmount : 0)
+    return {
+      jurisdiction: rate.jurisdiction,
+      type: rate.type,
+      rate: rate.rate,
+      taxableAmount: round(taxableAmount),
+      taxAmount: round(taxableAmount * rate.rate),
+    }
+  })
+
+  return {
+    provider: provider.name,
+    rateTableVersion: provider.version,
+    state: address ? normalizeState(address.state) : null,
+    zipCode: address ? normalizeZip(address.zipCode) : null,
+    lines,
+    exemption,
+    totalRate: Math.round(rates.reduce((sum, rate) => sum + rate.rate, 0) * 100000) / 100000,
+    taxAmount: round(lines.reduce((sum, line) => sum + line.taxAmount, 0)),
+  }
+}
+
+// Calculate subtotal, shipping, destination tax and total for a set of items
+export function calculateOrderTotals(input: {
+  items: Array<{ quantity: number; unitPrice: number }>
+  provider: TaxProvider
+  address: TaxAddress | null
+  exemption?: TaxExemption | null
+}): OrderTotals {
+  const subtotal = round(input.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0))
+  const shippingAmount = calculateShipping(subtotal)
+  const tax = calculateTax({
+    provider: input.provider,
+    address: input.address,
+    subtotal,
+    shippingAmount,
+    exemption: input.exemption,
+  })
+
+  return {
+    subtotal,
+    taxAmount: tax.taxAmount,
+    shippingAmount: round(shippingAmount),
+    totalAmount: round(subtotal + tax.taxAmount + shippingAmount),
+    tax,
+  }
+}
+
+// Parse a stored tax breakdown (Order.taxBreakdown / Invoice.taxBreakdown)
+export function parseTaxBreakdown(value: string | null | undefined): TaxQuote | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as TaxQuote
+  } catch {
+    return null
+  }
+}
+
+export function formatTaxRate(rate: number): string {
+  return `${(rate * 100).toFixed(3).replace(/\.?0+$/, '')}%`
+}
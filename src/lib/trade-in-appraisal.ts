@@ -0,0 +1,254 @@
+// Trade-in appraisal: inspection checklists by vehicle type, reconditioning
+// totals, suggested ACV and lien payoff checks. Non-server so the appraisal
+// page can total the checklist as it is filled in.
+
+export type TradeInVehicleType = 'rv' | 'auto' | 'truck' | 'motorcycle' | 'boat'
+
+export type ChecklistItem = {
+  code: string
+  label: string
+}
+
+export type ChecklistSection = {
+  name: string
+  items: ChecklistItem[]
+}
+
+export const INSPECTION_RATINGS = ['good', 'repair', 'replace', 'na'] as const
+
+export type InspectionRating = (typeof INSPECTION_RATINGS)[number]
+
+export type InspectionResult = {
+  code: string
+  rating: InspectionRating
+  reconCost: number
+  note?: string
+}
+
+const DRIVETRAIN: ChecklistItem[] = [
+  { code: 'engine', label: 'Engine runs, no leaks or codes' },
+  { code: 'transmission', label: 'Transmission shifts cleanly' },
+  { code: 'brakes', label: 'Brakes' },
+  { code: 'tires', label: 'Tires (tread, date codes)' },
+]
+
+const RV_CHECKLIST: ChecklistSection[] = [
+  {
+    name: 'Exterior',
+    items: [
+      { code: 'roof', label: 'Roof membrane and sealants' },
+      { code: 'sidewalls', label: 'Sidewalls (delamination)' },
+      { code: 'slideouts', label: 'Slide-outs and seals' },
+      { code: 'awning', label: 'Awning' },
+      { code: 'windows_doors', label: 'Windows, doors and compartments' },
+    ],
+  },
+  {
+    name: 'Interior',
+    items: [
+      { code: 'water_damage', label: 'Water damage / soft floors' },
+      { code: 'upholstery', label: 'Upholstery, flooring and cabinetry' },
+      { code: 'appliances', label: 'Refrigerator, range and microwave' },
+    ],
+  },
+  {
+    name: 'Systems',
+    items: [
+      { code: 'lp_system', label: 'LP leak test' },
+      { code: 'plumbing', label: 'Fresh water, tanks and plumbing' },
+      { code: 'water_heater', label: 'Water heater' },
+      { code: 'hvac', label: 'Furnace and air conditioning' },
+      { code: 'electrical', label: '12V / 120V electrical and batteries' },
+      { code: 'generator', label: 'Generator' },
+    ],
+  },
+  { name: 'Chassis', items: DRIVETRAIN },
+]
+
+export const INSPECTION_CHECKLISTS: Record<TradeInVehicleType, ChecklistSection[]> = {
+  rv: RV_CHECKLIST,
+  auto: [
+    {
+      name: 'Body & Interior',
+      items: [
+        { code: 'body', label: 'Body panels and paint' },
+        { code: 'glass', label: 'Glass and lights' },
+        { code: 'interior', label: 'Interior and electronics' },
+      ],
+    },
+    { name: 'Mechanical', items: DRIVETRAIN },
+  ],
+  truck: [
+    {
+      name: 'Body & Interior',
+      items: [
+        { code: 'body', label: 'Body, bed and paint' },
+        { code: 'glass', label: 'Glass and lights' },
+        { code: 'interior', label: 'Interior and electronics' },
+        { code: 'hitch', label: 'Hitch and tow wiring' },
+      ],
+    },
+    { name: 'Mechanical', items: DRIVETRAIN },
+  ],
+  motorcycle: [
+    {
+      name: 'Mechanical',
+      items: [
+        { code: 'engine', label: 'Engine runs, no leaks' },
+        { code: 'drive', label: 'Chain / belt / shaft drive' },
+        { code: 'brakes', label: 'Brakes' },
+        { code: 'tires', label: 'Tires' },
+      ],
+    },
+    {
+      name: 'Cosmetic',
+      items: [
+        { code: 'body', label: 'Tank, fairings and paint' },
+        { code: 'seat_controls', label: 'Seat, controls and lights' },
+      ],
+    },
+  ],
+  boat: [
+    {
+      name: 'Hull & Deck',
+      items: [
+        { code: 'hull', label: 'Hull and gelcoat' },
+        { code: 'deck', label: 'Deck and transom (soft spots)' },
+        { code: 'upholstery', label: 'Upholstery and canvas' },
+      ],
+    },
+    {
+      name: 'Propulsion',
+      items: [
+        { code: 'engine', label: 'Engine / outboard compression' },
+        { code: 'lower_unit', label: 'Lower unit and prop' },
+        { code: 'electronics', label: 'Electronics and bilge pumps' },
+      ],
+    },
+    {
+      name: 'Trailer',
+      items: [
+        { code: 'trailer', label: 'Trailer frame, bearings and lights' },
+        { code: 'tires', label: 'Trailer tires' },
+      ],
+    },
+  ],
+}
+
+export function getInspectionChecklist(vehicleType: string): ChecklistSection[] {
+  return INSPECTION_CHECKLISTS[vehicleType as TradeInVehicleType] ?? INSPECTION_CHECKLISTS.auto
+}
+
+export type InspectionSummary = {
+  complete: boolean
+  missing: string[] // Codes of checklist items not yet rated
+  reconditioningCost: number
+  repairCount: number
+  condition: 'excellent' | 'good' | 'fair' | 'poor'
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Total the inspection against the checklist for the vehicle type. Only items
+ * rated repair or replace carry a reconditioning cost. The condition grade
+ * follows the share of items needing work.
+ */
+export function summarizeInspection(vehicleType: string, results: InspectionResult[]): InspectionSummary {
+  const codes = getInspectionChecklist(vehicleType).flatMap((section) => section.items.map((item) => item.code))
+  const byCode = new Map(results.map((result) => [result.code, result]))
+  const rated = codes.map((code) => byCode.get(code)).filter((result): result is InspectionResult => !!result)
+
+  const needsWork = rated.filter((result) => result.rating === 'repair' || result.rating === 'replace')
+  const reconditioningCost = roundCents(needsWork.reduce((sum, result) => sum + Math.max(result.reconCost, 0), 0))
+
+  const applicable = rated.filter((result) => result.rating !== 'na').length
+  const share = applicable > 0 ? needsWork.length / applicable : 0
+  const replacements = needsWork.filter((result) => result.rating === 'replace').length
+
+  return {
+    complete: rated.length === codes.length,
+    missing: codes.filter((code) => !byCode.has(code)),
+    reconditioningCost,
+    repairCount: needsWork.length,
+    condition: share === 0 ? 'excellent' : share <= 0.2 && replacements === 0 ? 'good' : share <= 0.4 ? 'fair' : 'poor',
+  }
+}
+
+// What the trade is worth to the dealer: market value less reconditioning
+export function suggestActualCashValue(marketValue: number, reconditioningCost: number): number {
+  return roundCents(Math.max(marketValue - reconditioningCost, 0))
+}
+
+export function parseInspection(json: string | null): InspectionResult[] {
+  if (!json) return []
+  try {
+    const parsed = JSON.parse(json)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (result): result is InspectionResult =>
+        typeof result?.code === 'string' &&
+        INSPECTION_RATINGS.includes(result.rating) &&
+        typeof result.reconCost === 'number'
+    )
+  } catch {
+    return []
+  }
+}
+
+export type LienWarning = {
+  level: 'warning' | 'error'
+  message: string
+}
+
+// Payoff quotes this close to expiring should be refreshed before funding
+export const LIEN_PAYOFF_WARNING_DAYS = 10
+
+/**
+ * Problems with the lien payoff that would hold up the deal: no payoff
+ * amount, no good-through date, an expired quote or one about to expire.
+ */
+export function checkLienPayoff(
+  lien: {
+    hasLien: boolean
+    lienHolder: string | null
+    lienPayoff: number | null
+    lienPayoffGoodThrough: Date | null
+    lienVerifiedAt: Date | null
+  },
+  asOf: Date
+): LienWarning[] {
+  if (!lien.hasLien) return []
+
+  const warnings: LienWarning[] = []
+  if (!lien.lienHolder) warnings.push({ level: 'error', message: 'Lienholder is missing' })
+  if (lien.lienPayoff === null) warnings.push({ level: 'error', message: 'Payoff amount is missing' })
+
+  if (!lien.lienPayoffGoodThrough) {
+    warnings.push({ level: 'error', message: 'Payoff good-through date is missing' })
+  } else {
+    const daysLeft = Math.floor((lien.lienPayoffGoodThrough.getTime() - asOf.getTime()) / (24 * 60 * 60 * 1000))
+    if (daysLeft < 0) {
+      warnings.push({ level: 'error', message: 'Payoff quote has expired; request a new one' })
+    } else if (daysLeft <= LIEN_PAYOFF_WARNING_DAYS) {
+      warnings.push({
+        level: 'warning',
+        message: `Payoff quote expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+      })
+    }
+  }
+
+  if (!lien.lienVerifiedAt) warnings.push({ level: 'warning', message: 'Payoff not yet verified with the lienholder' })
+  return warnings
+}
+
+// A unit already on file under the trade's VIN is only taken back into stock
+// once it has left a dealer's hands; anything else points to a mistyped VIN
+export const REACQUIRABLE_UNIT_STATUSES = ['sold', 'delivered']
+
+export function checkTradeInUnitVin(vin: string, existing: { status: string } | null): string | null {
+  if (!existing || REACQUIRABLE_UNIT_STATUSES.includes(existing.status)) return null
+  return `VIN ${vin} belongs to a unit that is currently ${existing.status.replace(/_/g, ' ')}; check the trade-in VIN`
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+
+export const dealPaymentMethods = ['cash', 'financing'] as const
+
+export const dealFeeSchema = z.object({
+  name: z.string().min(1, 'Fee name is required').max(100),
+  amount: z.coerce.number().min(0, 'Fee cannot be negative'),
+  taxable: z.boolean().default(false),
+})
+
+export const financeScenarioSchema = z.object({
+  termMonths: z.coerce.number().int().min(12, 'Term must be at least 12 months').max(300, 'Term cannot exceed 300 months'),
+  apr: z.coerce.number().min(0, 'APR cannot be negative').max(36, 'APR looks too high'),
+  downPayment: z.coerce.number().min(0, 'Down payment cannot be negative'),
+})
+
+export const buyerAddressSchema = z.object({
+  street: z.string().max(200).default(''),
+  city: z.string().max(100).default(''),
+  state: z.string().trim().length(2, 'Use the two-letter state code').toUpperCase(),
+  zipCode: z.string().trim().regex(/^\d{5}(-\d{4})?$/, 'Enter a 5-digit ZIP code'),
+})
+
+// Schema for saving a vehicle deal worksheet
+export const dealWorksheetSchema = z
+  .object({
+    unitPrice: z.coerce.number().positive('Selling price must be greater than 0'),
+    freightPrice: z.coerce.number().min(0),
+    prepFee: z.coerce.number().min(0),
+    docFee: z.coerce.number().min(0),
+    additionalFees: z.array(dealFeeSchema).max(20),
+    tradeInAllowance: z.coerce.number().min(0),
+    depositAmount: z.coerce.number().min(0),
+    buyerAddress: buyerAddressSchema.nullable(),
+    paymentMethod: z.enum(dealPaymentMethods),
+    financing: financeScenarioSchema
+      .extend({ lender: z.string().max(100).optional() })
+      .nullable(),
+  })
+  .refine((deal) => deal.paymentMethod !== 'financing' || deal.financing !== null, {
+    message: 'Choose a financing scenario',
+    path: ['financing'],
+  })
+
+export type DealWorksheetInput = z.infer<typeof dealWorksheetSchema>
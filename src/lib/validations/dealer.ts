@@ -26,6 +26,7 @@ export const createDealerSchema = z.object({
   licenseNumber: z.string().optional().nullable(),
   insurancePolicy: z.string().optional().nullable(),
   parentDealerId: z.string().optional().nullable(),
+  billPerShipment: z.boolean().default(false),
 })
 
 export type CreateDealerInput = z.infer<typeof createDealerSchema>
@@ -44,10 +45,20 @@ export const updateDealerSchema = z.object({
   licenseNumber: z.string().optional().nullable(),
   insurancePolicy: z.string().optional().nullable(),
   parentDealerId: z.string().optional().nullable(),
+  billPerShipment: z.boolean().optional(),
 })
 
 export type UpdateDealerInput = z.infer<typeof updateDealerSchema>
 
+export const dealerCreditSettingsSchema = z.object({
+  dealerId: z.string().min(1),
+  creditLimit: z.number().min(0, 'Credit limit cannot be negative').nullable(),
+  paymentTermsDays: z.number().int().min(0).max(180, 'Payment terms cannot exceed 180 days'),
+  creditHoldAction: z.enum(['review', 'block']),
+})
+
+export type DealerCreditSettingsInput = z.infer<typeof dealerCreditSettingsSchema>
+
 export const bulkDealerActionSchema = z.object({
   dealerIds: z.array(z.string()).min(1, 'Select at least one dealer'),
   action: z.enum(['activate', 'suspend', 'deactivate']),
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+
+export const curtailmentRuleSchema = z.object({
+  day: z.coerce.number().int().min(1, 'Curtailment day must be at least 1'),
+  percent: z.coerce.number().gt(0, 'Percent must be above 0').max(100, 'Percent cannot exceed 100'),
+  repeatEveryDays: z.coerce.number().int().min(1).nullable().optional(),
+})
+
+// Schema for a lender floor-plan program
+export const floorPlanProgramSchema = z.object({
+  id: z.string().optional(),
+  lender: z.string().min(1, 'Lender is required').max(100),
+  name: z.string().min(1, 'Program name is required').max(100),
+  interestRate: z.coerce.number().min(0, 'Rate cannot be negative').max(50, 'Rate looks too high'),
+  curtailmentRules: z.array(curtailmentRuleSchema).max(10),
+  isActive: z.boolean().default(true),
+})
+
+export type FloorPlanProgramInput = z.infer<typeof floorPlanProgramSchema>
+
+// Schema for putting a unit on a floor-plan program
+export const floorPlanAccountSchema = z.object({
+  rvUnitId: z.string().min(1),
+  programId: z.string().min(1, 'Choose a program'),
+  accountNumber: z.string().max(50).optional(),
+  principal: z.coerce.number().positive('Amount financed must be greater than 0'),
+  interestRate: z.coerce.number().min(0).max(50).nullable().optional(),
+  fundedDate: z.coerce.date(),
+})
+
+export type FloorPlanAccountInput = z.infer<typeof floorPlanAccountSchema>
+
+export const floorPlanPaymentTypes = ['curtailment', 'interest', 'payoff'] as const
+
+// Schema for recording a payment to the lender
+export const floorPlanPaymentSchema = z
+  .object({
+    accountId: z.string().min(1),
+    type: z.enum(floorPlanPaymentTypes),
+    principalAmount: z.coerce.number().min(0).optional(),
+    interestAmount: z.coerce.number().min(0).optional(),
+    paidAt: z.coerce.date().optional(),
+    reference: z.string().max(100).optional(),
+    note: z.string().max(500).optional(),
+  })
+  .refine(
+    (payment) => payment.type === 'payoff' || (payment.principalAmount ?? 0) > 0 || (payment.interestAmount ?? 0) > 0,
+    { message: 'Enter a principal or interest amount', path: ['principalAmount'] }
+  )
+
+export type FloorPlanPaymentInput = z.infer<typeof floorPlanPaymentSchema>
+
+// Schema for a lender's statement column mapping
+export const floorPlanStatementMappingSchema = z
+  .object({
+    lender: z.string().min(1, 'Lender is required').max(100),
+    vinColumn: z.string().max(100).optional(),
+    floorPlanNumberColumn: z.string().max(100).optional(),
+    payoffColumn: z.string().min(1, 'Payoff column is required').max(100),
+    rateColumn: z.string().max(100).optional(),
+  })
+  .refine((mapping) => !!mapping.vinColumn || !!mapping.floorPlanNumberColumn, {
+    message: 'Map the VIN or floor-plan number column',
+    path: ['vinColumn'],
+  })
+
+export type FloorPlanStatementMappingInput = z.infer<typeof floorPlanStatementMappingSchema>
+
+// Schema for importing a lender statement file
+export const floorPlanStatementImportSchema = z.object({
+  lender: z.string().min(1, 'Choose a lender'),
+  statementDate: z.coerce.date(),
+  fileName: z.string().max(255).optional(),
+  content: z.string().min(1, 'The file is empty').max(2_000_000, 'File is too large'),
+})
+
+export type FloorPlanStatementImportInput = z.infer<typeof floorPlanStatementImportSchema>
+
+export const floorPlanDiscrepancyActions = ['apply', 'dismiss'] as const
@@ -0,0 +1,38 @@
+import { z } from 'zod'
+
+// Conditions a dealer can attach to an approval rule
+export const approvalConditions = ['amount_over', 'missing_po'] as const
+
+// Roles that can be named as the approver
+export const approverRoles = ['dealer_admin', 'admin'] as const
+
+// Schema for creating or editing an approval rule
+export const approvalRuleSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Rule name is required').max(100),
+    condition: z.enum(approvalConditions),
+    threshold: z.coerce.number().min(0, 'Threshold cannot be negative').nullable().optional(),
+    approverRole: z.enum(approverRoles).default('dealer_admin'),
+    isActive: z.boolean().default(true),
+  })
+  .refine((rule) => rule.condition !== 'amount_over' || (rule.threshold ?? null) !== null, {
+    message: 'Enter the order total that needs approval',
+    path: ['threshold'],
+  })
+
+export type ApprovalRuleFormInput = z.infer<typeof approvalRuleSchema>
+
+// Schema for approving or rejecting a pending order
+export const approvalDecisionSchema = z
+  .object({
+    orderId: z.string().min(1),
+    action: z.enum(['approve', 'reject']),
+    reason: z.string().max(2000).optional(),
+  })
+  .refine((decision) => decision.action === 'approve' || !!decision.reason?.trim(), {
+    message: 'A reason is required to reject an order',
+    path: ['reason'],
+  })
+
+export type ApprovalDecisionInput = z.infer<typeof approvalDecisionSchema>
@@ -0,0 +1,31 @@
+import { z } from 'zod'
+import { isValidCron } from '@/lib/order-schedules'
+
+export const scheduleFrequencies = ['weekly', 'monthly', 'custom'] as const
+
+// submit places the order straight away; draft holds it for the owner to review
+export const scheduleModes = ['submit', 'draft'] as const
+
+export const schedulePaymentMethods = ['credit_terms', 'credit_card', 'ach'] as const
+
+// Schema for creating or editing a recurring order schedule
+export const orderScheduleSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Schedule name is required').max(100),
+    savedCartId: z.string().min(1, 'Choose a saved cart'),
+    frequency: z.enum(scheduleFrequencies),
+    dayOfWeek: z.coerce.number().int().min(0).max(6).nullable().optional(),
+    dayOfMonth: z.coerce.number().int().min(1).max(28, 'Pick a day between 1 and 28').nullable().optional(),
+    cronExpression: z.string().max(100).nullable().optional(),
+    mode: z.enum(scheduleModes).default('draft'),
+    paymentMethod: z.enum(schedulePaymentMethods).default('credit_terms'),
+    poPrefix: z.string().max(20).nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((schedule) => schedule.frequency !== 'custom' || isValidCron(schedule.cronExpression ?? ''), {
+    message: 'Enter a five-field cron expression, e.g. 0 6 * * 1,4',
+    path: ['cronExpression'],
+  })
+
+export type OrderScheduleInput = z.infer<typeof orderScheduleSchema>
@@ -0,0 +1,30 @@
+import { z } from 'zod'
+import { PDI_RESULTS } from '@/lib/pdi-checklist'
+
+export const pdiItemResultSchema = z
+  .object({
+    code: z.string().min(1),
+    result: z.enum(PDI_RESULTS),
+    note: z.string().max(500).optional(),
+  })
+  .refine((item) => item.result !== 'fail' || !!item.note?.trim(), {
+    message: 'Describe what failed on each failed item',
+    path: ['note'],
+  })
+
+// Schema for saving the technician's checklist progress
+export const pdiResultsSchema = z.object({
+  results: z.array(pdiItemResultSchema).max(100),
+  notes: z.string().max(2000).optional(),
+})
+
+export type PdiResultsInput = z.infer<typeof pdiResultsSchema>
+
+// Schema for the customer walkthrough acknowledged at delivery
+export const deliveryWalkthroughSchema = z.object({
+  customerName: z.string().trim().min(2, 'Enter the customer name as signed'),
+  topics: z.array(z.string()).min(1, 'Go over the walkthrough topics with the customer'),
+  note: z.string().max(500).optional(),
+})
+
+export type DeliveryWalkthroughInput = z.infer<typeof deliveryWalkthroughSchema>
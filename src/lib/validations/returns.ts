@@ -0,0 +1,88 @@
+import { z } from 'zod'
+
+// Return (RMA) statuses
+export const returnStatusOptions = [
+  'requested',
+  'approved',
+  'rejected',
+  'received',
+  'credited',
+  'cancelled',
+] as const
+
+export type ReturnStatus = (typeof returnStatusOptions)[number]
+
+// Why the dealer is sending the goods back
+export const returnReasonCodes = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'ordered_in_error',
+  'overstock',
+  'other',
+] as const
+
+export type ReturnReasonCode = (typeof returnReasonCodes)[number]
+
+// What happens to received units
+export const returnDispositions = ['restock', 'scrap'] as const
+
+export type ReturnDisposition = (typeof returnDispositions)[number]
+
+// Filter schema for listing returns
+export const returnFilterSchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(['all', ...returnStatusOptions]).optional().default('all'),
+  dealerId: z.string().optional(),
+  page: z.coerce.number().min(1).default(1),
+  pageSize: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(['createdAt', 'updatedAt', 'rmaNumber', 'creditAmount', 'status']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+})
+
+export type ReturnFilterInput = z.infer<typeof returnFilterSchema>
+
+// Schema for requesting a return (dealer side)
+export const createReturnSchema = z.object({
+  orderId: z.string().min(1, 'Order is required'),
+  notes: z.string().max(2000).optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1),
+        quantity: z.coerce.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+        reasonCode: z.enum(returnReasonCodes, { required_error: 'Reason is required' }),
+      })
+    )
+    .min(1, 'Select at least one item to return'),
+})
+
+export type CreateReturnInput = z.infer<typeof createReturnSchema>
+
+// Schema for approving or rejecting a return (manufacturer side)
+export const reviewReturnSchema = z.object({
+  returnId: z.string().min(1),
+  action: z.enum(['approve', 'reject']),
+  restockingFeePercent: z.coerce.number().min(0).max(100).default(0),
+  note: z.string().max(2000).optional(),
+})
+
+export type ReviewReturnInput = z.infer<typeof reviewReturnSchema>
+
+// Schema for receiving returned goods into a warehouse
+export const receiveReturnSchema = z.object({
+  returnId: z.string().min(1),
+  locationId: z.string().min(1, 'Receiving location is required'),
+  items: z
+    .array(
+      z.object({
+        itemId: z.string().min(1),
+        receivedQuantity: z.coerce.number().int().min(0),
+        disposition: z.enum(returnDispositions),
+      })
+    )
+    .min(1),
+  note: z.string().max(2000).optional(),
+})
+
+export type ReceiveReturnInput = z.infer<typeof receiveReturnSchema>
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+import { SERVICE_PAY_TYPES } from '@/lib/service-repair-order'
+
+// Schema for a new line (complaint) on a repair order
+export const repairOrderLineSchema = z.object({
+  payType: z.enum(SERVICE_PAY_TYPES).default('customer_pay'),
+  complaint: z.string().trim().min(3, 'Describe the customer complaint').max(1000),
+})
+
+export type RepairOrderLineInput = z.infer<typeof repairOrderLineSchema>
+
+// Schema for opening a repair order against a VIN
+export const openRepairOrderSchema = z.object({
+  vin: z.string().trim().min(1, 'VIN is required').max(20),
+  description: z.string().trim().min(1, 'Description is required').max(200),
+  customerName: z.string().max(200).optional(),
+  customerPhone: z.string().max(50).optional(),
+  mileageIn: z.coerce.number().int().min(0).optional(),
+  hoursIn: z.coerce.number().int().min(0).optional(),
+  promisedDate: z.coerce.date().optional(),
+  laborRate: z.coerce.number().min(0, 'Labor rate cannot be negative'),
+  lines: z.array(repairOrderLineSchema).min(1, 'Add at least one complaint').max(50),
+})
+
+export type OpenRepairOrderInput = z.infer<typeof openRepairOrderSchema>
+
+// Schema for the technician's findings on a line
+export const updateRepairOrderLineSchema = z.object({
+  payType: z.enum(SERVICE_PAY_TYPES).optional(),
+  cause: z.string().max(2000).optional(),
+  correction: z.string().max(2000).optional(),
+  subletCost: z.coerce.number().min(0, 'Sublet cost cannot be negative').optional(),
+  subletVendor: z.string().max(200).optional(),
+})
+
+export type UpdateRepairOrderLineInput = z.infer<typeof updateRepairOrderLineSchema>
+
+// Schema for consuming a catalog part on a line
+export const repairOrderPartSchema = z.object({
+  partNumber: z.string().trim().min(1, 'Part number is required'),
+  quantity: z.coerce.number().int().min(1, 'Quantity must be at least 1'),
+})
+
+export type RepairOrderPartInput = z.infer<typeof repairOrderPartSchema>
@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import { INSPECTION_RATINGS } from '@/lib/trade-in-appraisal'
+
+export const tradeInVehicleTypes = ['rv', 'auto', 'truck', 'motorcycle', 'boat'] as const
+export const tradeInConditions = ['excellent', 'good', 'fair', 'poor'] as const
+
+export const inspectionResultSchema = z.object({
+  code: z.string().min(1),
+  rating: z.enum(INSPECTION_RATINGS),
+  reconCost: z.coerce.number().min(0, 'Reconditioning cost cannot be negative'),
+  note: z.string().max(500).optional(),
+})
+
+// Schema for the appraiser's inspection and valuation
+export const tradeInAppraisalSchema = z.object({
+  exteriorColor: z.string().max(50).optional(),
+  rvModelId: z.string().nullable().optional(),
+  inspection: z.array(inspectionResultSchema).max(100),
+  bookValue: z.coerce.number().min(0).nullable().optional(),
+  marketValue: z.coerce.number().positive('Market value must be greater than 0'),
+  appraisedValue: z.coerce.number().min(0, 'Appraised value cannot be negative'),
+  notes: z.string().max(2000).optional(),
+})
+
+export type TradeInAppraisalInput = z.infer<typeof tradeInAppraisalSchema>
+
+// Schema for the manager's decision on an appraised trade
+export const tradeInDecisionSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject']),
+    acv: z.coerce.number().min(0).optional(),
+    allowance: z.coerce.number().min(0).optional(),
+    note: z.string().max(500).optional(),
+  })
+  .refine((input) => input.decision === 'reject' || (input.acv !== undefined && input.allowance !== undefined), {
+    message: 'Enter the approved ACV and trade allowance',
+    path: ['acv'],
+  })
+  .refine((input) => input.decision === 'approve' || !!input.note?.trim(), {
+    message: 'Give a reason for rejecting the trade',
+    path: ['note'],
+  })
+
+export type TradeInDecisionInput = z.infer<typeof tradeInDecisionSchema>
+
+// Schema for lien payoff details
+export const tradeInLienSchema = z
+  .object({
+    hasLien: z.boolean(),
+    lienHolder: z.string().max(100).optional(),
+    lienPayoff: z.coerce.number().min(0).nullable().optional(),
+    lienPayoffGoodThrough: z.coerce.date().nullable().optional(),
+    verified: z.boolean().default(false),
+  })
+  .refine((input) => !input.hasLien || !!input.lienHolder?.trim(), {
+    message: 'Lienholder is required',
+    path: ['lienHolder'],
+  })
+
+export type TradeInLienInput = z.infer<typeof tradeInLienSchema>
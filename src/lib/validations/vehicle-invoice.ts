@@ -0,0 +1,13 @@
+import { z } from 'zod'
+import { VEHICLE_INVOICE_PAYMENT_METHODS } from '@/lib/vehicle-invoice'
+
+// Schema for recording a payment against a vehicle invoice
+export const vehicleInvoicePaymentSchema = z.object({
+  amount: z.coerce.number().positive('Payment amount must be greater than 0'),
+  method: z.enum(VEHICLE_INVOICE_PAYMENT_METHODS),
+  reference: z.string().max(100).optional(),
+  receivedAt: z.coerce.date(),
+  note: z.string().max(500).optional(),
+})
+
+export type VehicleInvoicePaymentInput = z.infer<typeof vehicleInvoicePaymentSchema>
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { WARRANTY_COMPONENTS } from '@/lib/warranty-coverage'
+import { SETTLEMENT_METHODS } from '@/lib/warranty-settlement'
 
 // Warranty claim statuses
 export const warrantyStatusOptions = [
@@ -8,6 +10,7 @@ export const warrantyStatusOptions = [
   'info_requested',
   'approved',
   'partial',
+  'paid',
   'denied',
   'closed',
 ] as const
@@ -61,13 +64,15 @@ export const warrantyFilterSchema = z.object({
   status: z.enum(['all', ...warrantyStatusOptions]).optional().default('all'),
   claimType: z.enum(['all', ...warrantyClaimTypes]).optional().default('all'),
   priority: z.enum(['all', ...warrantyPriorityLevels]).optional().default('all'),
+  // Risk review: 'low' is any flagged claim
+  risk: z.enum(['all', 'low', 'medium', 'high']).optional().default('all'),
   dealerId: z.string().optional(),
   assignedToId: z.string().optional(),
   dateFrom: z.coerce.date().optional(),
   dateTo: z.coerce.date().optional(),
   page: z.coerce.number().min(1).default(1),
   pageSize: z.coerce.number().min(1).max(100).default(20),
-  sortBy: z.enum(['createdAt', 'updatedAt', 'claimNumber', 'totalRequested', 'status']).default('createdAt'),
+  sortBy: z.enum(['createdAt', 'updatedAt', 'claimNumber', 'totalRequested', 'status', 'riskScore']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 })
 
@@ -82,10 +87,21 @@ export const warrantyClaimItemSchema = z.object({
   unitCost: z.coerce.number().min(0, 'Unit cost must be positive').default(0),
   issueType: z.enum(warrantyItemIssueTypes),
   issueDescription: z.string().max(1000).optional(),
+  component: z.enum(WARRANTY_COMPONENTS).default('general'),
 })
 
 export type WarrantyClaimItemInput = z.infer<typeof warrantyClaimItemSchema>
 
+// Schema for labor claimed against a flat-rate operation
+export const warrantyLaborLineSchema = z.object({
+  opCode: z.string().trim().min(1, 'Op code is required').max(20),
+  description: z.string().max(200).optional(),
+  hours: z.coerce.number().positive('Labor hours must be greater than 0').max(200),
+  rate: z.coerce.number().min(0, 'Labor rate must be positive'),
+})
+
+export type WarrantyLaborLineInput = z.infer<typeof warrantyLaborLineSchema>
+
 // Schema for creating a new warranty claim
 export const createWarrantyClaimSchema = z.object({
   // Claim type
@@ -114,7 +130,9 @@ export const createWarrantyClaimSchema = z.object({
   // Issue details
   issueDescription: z.string().min(10, 'Please provide a detailed description of the issue').max(5000),
   failureDate: z.coerce.date().optional(),
+  failureMileage: z.coerce.number().int().min(0).optional(),
   isUnderWarranty: z.boolean().default(true),
+  goodwillRequested: z.boolean().default(false),
 
   // Amounts
   laborHours: z.coerce.number().min(0).optional(),
@@ -127,6 +145,7 @@ export const createWarrantyClaimSchema = z.object({
 
   // Items
   items: z.array(warrantyClaimItemSchema).optional(),
+  laborLines: z.array(warrantyLaborLineSchema).max(50).optional(),
 
   // Submit immediately or save as draft
   submitNow: z.boolean().default(false),
@@ -150,13 +169,16 @@ export const updateWarrantyClaimSchema = z.object({
   customerAddress: z.string().max(500).optional(),
   issueDescription: z.string().min(10).max(5000).optional(),
   failureDate: z.coerce.date().optional(),
+  failureMileage: z.coerce.number().int().min(0).optional(),
   isUnderWarranty: z.boolean().optional(),
+  goodwillRequested: z.boolean().optional(),
   laborHours: z.coerce.number().min(0).optional(),
   laborRate: z.coerce.number().min(0).optional(),
   partsAmount: z.coerce.number().min(0).optional(),
   shippingAmount: z.coerce.number().min(0).optional(),
   priority: z.enum(warrantyPriorityLevels).optional(),
   items: z.array(warrantyClaimItemSchema).optional(),
+  laborLines: z.array(warrantyLaborLineSchema).max(50).optional(),
 })
 
 export type UpdateWarrantyClaimInput = z.infer<typeof updateWarrantyClaimSchema>
@@ -177,11 +199,137 @@ export const reviewWarrantyClaimSchema = z.object({
     approvedQty: z.coerce.number().min(0).optional(),
     approvedAmount: z.coerce.number().min(0).optional(),
     denialReason: z.string().max(500).optional(),
+    // Approved parts the manufacturer wants shipped back
+    returnRequired: z.boolean().optional(),
+  })).optional(),
+  returnDays: z.coerce.number().int().min(1).max(180).optional(),
+  laborDecisions: z.array(z.object({
+    lineId: z.string(),
+    approved: z.boolean(),
+    approvedAmount: z.coerce.number().min(0).optional(),
+    denialReason: z.string().max(500).optional(),
   })).optional(),
 })
 
 export type ReviewWarrantyClaimInput = z.infer<typeof reviewWarrantyClaimSchema>
 
+// Schema for the dealer shipping defective parts back
+export const shipPartReturnsSchema = z.object({
+  claimId: z.string().min(1),
+  returnIds: z.array(z.string().min(1)).min(1, 'Select at least one part to ship'),
+  carrier: z.string().trim().min(1, 'Carrier is required').max(100),
+  trackingNumber: z.string().trim().min(1, 'Tracking number is required').max(100),
+})
+
+export type ShipPartReturnsInput = z.infer<typeof shipPartReturnsSchema>
+
+// Schema for the manufacturer inspecting a returned part
+export const inspectPartReturnSchema = z
+  .object({
+    returnId: z.string().min(1),
+    result: z.enum(['accept', 'reject']),
+    notes: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.result === 'accept' || !!data.notes, {
+    message: 'Explain why the part failed inspection',
+    path: ['notes'],
+  })
+
+export type InspectPartReturnInput = z.infer<typeof inspectPartReturnSchema>
+
+// Schema for a flat-rate labor guide entry (admin)
+export const warrantyLaborOperationSchema = z
+  .object({
+    opCode: z.string().trim().min(1, 'Op code is required').max(20),
+    description: z.string().trim().min(1, 'Description is required').max(200),
+    standardHours: z.coerce.number().positive('Standard hours must be greater than 0').max(200),
+    rvModelId: z.string().optional().nullable(),
+    classType: z.string().optional().nullable(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => !(data.rvModelId && data.classType), {
+    message: 'Scope the operation to a model or a class, not both',
+    path: ['classType'],
+  })
+
+export type WarrantyLaborOperationInput = z.input<typeof warrantyLaborOperationSchema>
+
+// Schema for a dealer's approved warranty labor rate (admin)
+export const dealerWarrantyLaborRateSchema = z.object({
+  dealerId: z.string().min(1, 'Dealer is required'),
+  approvedRate: z.coerce.number().positive('Approved rate must be greater than 0').max(1000),
+  notes: z.string().max(500).optional(),
+})
+
+export type DealerWarrantyLaborRateInput = z.infer<typeof dealerWarrantyLaborRateSchema>
+
+// Schema for a model's coverage plan (admin)
+export const warrantyCoveragePlanSchema = z.object({
+  rvModelId: z.string().min(1, 'Model is required'),
+  name: z.string().trim().min(1, 'Plan name is required').max(100),
+  notes: z.string().max(1000).optional(),
+  terms: z
+    .array(
+      z
+        .object({
+          component: z.enum(WARRANTY_COMPONENTS),
+          months: z.coerce.number().int().positive().max(240).optional().nullable(),
+          mileageCap: z.coerce.number().int().positive().optional().nullable(),
+          oemProvider: z.string().trim().max(100).optional().nullable(),
+        })
+        .refine((term) => !!term.oemProvider || !!term.months, {
+          message: 'Each term needs a length in months or an OEM provider',
+          path: ['months'],
+        })
+    )
+    .min(1, 'Add at least one coverage term')
+    .refine((terms) => new Set(terms.map((term) => term.component)).size === terms.length, {
+      message: 'Each component can only have one term',
+    }),
+})
+
+export type WarrantyCoveragePlanInput = z.infer<typeof warrantyCoveragePlanSchema>
+
+// Schema for registering an extended warranty contract on a unit
+export const extendedWarrantySchema = z
+  .object({
+    contractNumber: z.string().trim().min(1, 'Contract number is required').max(50),
+    provider: z.string().trim().min(1, 'Provider is required').max(100),
+    components: z.array(z.enum(WARRANTY_COMPONENTS)).default([]),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    mileageCap: z.coerce.number().int().positive().optional(),
+    deductible: z.coerce.number().min(0).default(0),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: 'End date must be after the start date',
+    path: ['endDate'],
+  })
+
+export type ExtendedWarrantyInput = z.input<typeof extendedWarrantySchema>
+
+// Schema for running a warranty settlement batch (admin)
+export const warrantySettlementSchema = z
+  .object({
+    periodStart: z.coerce.date(),
+    periodEnd: z.coerce.date(),
+    method: z.enum(SETTLEMENT_METHODS),
+  })
+  .refine((data) => data.periodEnd >= data.periodStart, {
+    message: 'Period end must be on or after the start',
+    path: ['periodEnd'],
+  })
+
+export type WarrantySettlementInput = z.input<typeof warrantySettlementSchema>
+
+// Schema for recording a check or ACH payment on a settlement statement
+export const recordSettlementPayoutSchema = z.object({
+  statementId: z.string().min(1),
+  reference: z.string().trim().min(1, 'Check or trace number is required').max(100),
+})
+
+export type RecordSettlementPayoutInput = z.infer<typeof recordSettlementPayoutSchema>
+
 // Schema for adding notes to a claim
 export const addWarrantyNoteSchema = z.object({
   claimId: z.string().min(1),
@@ -213,6 +361,7 @@ export const warrantyStatusLabels: Record<WarrantyStatus, string> = {
   info_requested: 'Info Requested',
   approved: 'Approved',
   partial: 'Partially Approved',
+  paid: 'Paid',
   denied: 'Denied',
   closed: 'Closed',
 }
@@ -225,6 +374,7 @@ export const warrantyStatusColors: Record<WarrantyStatus, { bg: string; text: st
   info_requested: { bg: 'bg-orange-100', text: 'text-orange-700' },
   approved: { bg: 'bg-green-100', text: 'text-green-700' },
   partial: { bg: 'bg-lime-100', text: 'text-lime-700' },
+  paid: { bg: 'bg-emerald-100', text: 'text-emerald-700' },
   denied: { bg: 'bg-red-100', text: 'text-red-700' },
   closed: { bg: 'bg-gray-200', text: 'text-gray-600' },
 }
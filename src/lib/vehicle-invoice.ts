@@ -0,0 +1,94 @@
+// Vehicle invoice numbering, totals and payment application. Kept free of
+// database access so the invoice math can be tested on its own.
+
+export const VEHICLE_INVOICE_PAYMENT_METHODS = ['cash', 'check', 'ach', 'wire', 'card', 'financing'] as const
+
+export type VehicleInvoicePaymentMethod = (typeof VEHICLE_INVOICE_PAYMENT_METHODS)[number]
+
+export type VehicleInvoiceCharges = {
+  unitPrice: number
+  optionsTotal: number
+  freightCharge: number
+  prepCharge: number
+  docFee: number
+  additionalCharges: { amount: number }[]
+  tradeAllowance: number
+  tradePayoff: number
+  rebatesApplied: number
+  taxAmount: number
+  depositApplied: number
+}
+
+export type VehicleInvoiceTotals = {
+  subtotal: number
+  totalAmount: number
+  balanceDue: number
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// VI-2026-00042
+export function formatVehicleInvoiceNumber(year: number, sequence: number): string {
+  return `VI-${year}-${sequence.toString().padStart(5, '0')}`
+}
+
+/**
+ * Next invoice number for the year, given the highest number issued so far
+ * (or null for the first invoice of the year).
+ */
+export function nextVehicleInvoiceNumber(year: number, lastInvoiceNumber: string | null): string {
+  const match = lastInvoiceNumber?.match(/^VI-(\d{4})-(\d{5})$/)
+  const sequence = match && parseInt(match[1]) === year ? parseInt(match[2]) + 1 : 1
+  return formatVehicleInvoiceNumber(year, sequence)
+}
+
+/**
+ * Invoice totals using the same structure as the deal worksheet: charges plus
+ * tax, less trade equity and rebates. The deposit taken on the order is
+ * applied against the balance.
+ */
+export function calculateVehicleInvoiceTotals(charges: VehicleInvoiceCharges): VehicleInvoiceTotals {
+  const subtotal = roundCents(
+    charges.unitPrice +
+      charges.optionsTotal +
+      charges.freightCharge +
+      charges.prepCharge +
+      charges.docFee +
+      charges.additionalCharges.reduce((sum, charge) => sum + charge.amount, 0)
+  )
+  const tradeEquity = charges.tradeAllowance - charges.tradePayoff
+  const totalAmount = roundCents(subtotal + charges.taxAmount - tradeEquity - charges.rebatesApplied)
+
+  return {
+    subtotal,
+    totalAmount,
+    balanceDue: roundCents(totalAmount - charges.depositApplied),
+  }
+}
+
+/**
+ * Apply a payment to an open invoice. Payments must be positive and cannot
+ * exceed the balance; the invoice is paid once the balance reaches zero.
+ */
+export function applyVehicleInvoicePayment(
+  invoice: { status: string; amountPaid: number; balanceDue: number },
+  amount: number
+): { amountPaid: number; balanceDue: number; paidInFull: boolean } {
+  if (invoice.status === 'paid') throw new Error('Invoice is already paid')
+  if (invoice.status === 'cancelled') throw new Error('Invoice is cancelled')
+  if (!(amount > 0)) throw new Error('Payment amount must be greater than 0')
+
+  const payment = roundCents(amount)
+  if (payment > roundCents(invoice.balanceDue)) {
+    throw new Error(`Payment exceeds the balance due of ${roundCents(invoice.balanceDue).toFixed(2)}`)
+  }
+
+  const balanceDue = roundCents(invoice.balanceDue - payment)
+  return {
+    amountPaid: roundCents(invoice.amountPaid + payment),
+    balanceDue,
+    paidInFull: balanceDue <= 0,
+  }
+}
@@ -0,0 +1,107 @@
+// Vehicle order labels
+// Separated from server actions to avoid "use server" export restrictions
+
+export const vehicleOrderStatusLabels = {
+  quote: 'Quote',
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  confirmed: 'Confirmed',
+  in_production: 'In Production',
+  ready: 'Ready',
+  in_transit: 'In Transit',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+} as const
+
+export type VehicleOrderStatusKey = keyof typeof vehicleOrderStatusLabels
+
+export const vehicleOrderStatusColors: Record<VehicleOrderStatusKey, string> = {
+  quote: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-indigo-100 text-indigo-800',
+  in_production: 'bg-purple-100 text-purple-800',
+  ready: 'bg-teal-100 text-teal-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+// Statuses in workflow order; an order can move forward or be cancelled
+export const vehicleOrderStatusFlow: VehicleOrderStatusKey[] = [
+  'quote',
+  'pending_approval',
+  'approved',
+  'confirmed',
+  'in_production',
+  'ready',
+  'in_transit',
+  'delivered',
+  'completed',
+]
+
+export const modelIncentiveTypeLabels = {
+  per_unit: 'Per unit',
+  percentage: 'Percentage',
+  tiered: 'Tiered',
+} as const
+
+export type ModelIncentiveTypeKey = keyof typeof modelIncentiveTypeLabels
+
+export const vehicleInvoiceStatusLabels = {
+  draft: 'Draft',
+  sent: 'Open',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+} as const
+
+export const vehicleInvoiceStatusColors: Record<keyof typeof vehicleInvoiceStatusLabels, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export const vehicleInvoicePaymentMethodLabels = {
+  cash: 'Cash',
+  check: 'Check',
+  ach: 'ACH',
+  wire: 'Wire',
+  card: 'Card',
+  financing: 'Lender Funding',
+} as const
+
+export const tradeInStatusLabels = {
+  pending: 'Pending Appraisal',
+  appraised: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  completed: 'Completed',
+} as const
+
+export type TradeInStatusKey = keyof typeof tradeInStatusLabels
+
+export const tradeInStatusColors: Record<TradeInStatusKey, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  appraised: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  completed: 'bg-blue-100 text-blue-800',
+}
+
+export const tradeInValuationTypeLabels = {
+  estimate: 'Initial estimate',
+  book: 'Book value',
+  appraisal: 'Appraisal',
+  approval: 'Approved ACV',
+  rejection: 'Rejected',
+} as const
+
+export const inspectionRatingLabels = {
+  good: 'Good',
+  repair: 'Repair',
+  replace: 'Replace',
+  na: 'N/A',
+} as const
@@ -7,6 +7,7 @@ export const warrantyStatusLabels = {
   in_review: 'In Review',
   approved: 'Approved',
   partially_approved: 'Partially Approved',
+  paid: 'Paid',
   denied: 'Denied',
   closed: 'Closed',
 } as const
@@ -17,6 +18,7 @@ export const warrantyStatusColors = {
   in_review: { bg: 'bg-blue-100', text: 'text-blue-800' },
   approved: { bg: 'bg-green-100', text: 'text-green-800' },
   partially_approved: { bg: 'bg-orange-100', text: 'text-orange-800' },
+  paid: { bg: 'bg-emerald-100', text: 'text-emerald-800' },
   denied: { bg: 'bg-red-100', text: 'text-red-800' },
   closed: { bg: 'bg-gray-100', text: 'text-gray-600' },
 } as const
@@ -46,3 +48,35 @@ export const warrantyPriorityColors = {
 export type WarrantyStatus = keyof typeof warrantyStatusLabels
 export type WarrantyClaimType = keyof typeof warrantyClaimTypeLabels
 export type WarrantyPriority = keyof typeof warrantyPriorityLabels
+
+export const partReturnStatusLabels = {
+  required: 'Return Required',
+  shipped: 'Shipped',
+  received: 'Received',
+  accepted: 'Accepted',
+  rejected: 'Failed Inspection',
+  charged_back: 'Charged Back',
+} as const
+
+export const partReturnStatusColors = {
+  required: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  shipped: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  received: { bg: 'bg-purple-100', text: 'text-purple-800' },
+  accepted: { bg: 'bg-green-100', text: 'text-green-800' },
+  rejected: { bg: 'bg-red-100', text: 'text-red-800' },
+  charged_back: { bg: 'bg-red-100', text: 'text-red-800' },
+} as const
+
+export const riskLevelLabels = {
+  none: 'No Flags',
+  low: 'Low Risk',
+  medium: 'Medium Risk',
+  high: 'High Risk',
+} as const
+
+export const riskLevelColors = {
+  none: { bg: 'bg-gray-100', text: 'text-gray-600' },
+  low: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  medium: { bg: 'bg-orange-100', text: 'text-orange-800' },
+  high: { bg: 'bg-red-100', text: 'text-red-800' },
+} as const
@@ -0,0 +1,251 @@
+// Warranty coverage engine: whether a failed component on a unit is covered on
+// the failure date, from the model's coverage plan terms, the unit's warranty
+// dates and any extended-warranty contract. Non-server so the claim form, the
+// unit page and the tests share one set of rules.
+
+export const WARRANTY_COMPONENTS = [
+  'structural',
+  'appliances',
+  'electrical',
+  'plumbing',
+  'chassis',
+  'general',
+] as const
+
+export type WarrantyComponent = (typeof WARRANTY_COMPONENTS)[number]
+
+export const WARRANTY_COMPONENT_LABELS: Record<WarrantyComponent, string> = {
+  structural: 'Structural',
+  appliances: 'Appliances',
+  electrical: 'Electrical',
+  plumbing: 'Plumbing',
+  chassis: 'Chassis & Powertrain',
+  general: 'Basic (all other components)',
+}
+
+export type CoverageStatus = 'covered' | 'extended' | 'expired' | 'mileage_exceeded' | 'not_covered' | 'oem'
+
+export const COVERAGE_STATUS_LABELS: Record<CoverageStatus, string> = {
+  covered: 'Covered',
+  extended: 'Extended Contract',
+  expired: 'Expired',
+  mileage_exceeded: 'Over Mileage',
+  not_covered: 'Not Covered',
+  oem: 'OEM Warranty',
+}
+
+export type CoverageTerm = {
+  component: string
+  months: number | null
+  mileageCap: number | null
+  oemProvider: string | null // Warranted by the chassis or appliance OEM instead
+}
+
+export type ExtendedWarrantyTerms = {
+  contractNumber: string
+  components: string[] // Empty covers every component
+  startDate: Date
+  endDate: Date
+  mileageCap: number | null
+  status: string
+}
+
+export type UnitWarranty = {
+  warrantyStartDate: Date | null
+  warrantyEndDate: Date | null
+  terms: CoverageTerm[] | null // Null when the model has no coverage plan
+  extendedWarranty: ExtendedWarrantyTerms | null
+}
+
+export type CoverageDecision = {
+  component: string
+  status: CoverageStatus
+  covered: boolean
+  expiresOn: Date | null
+  reason: string
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  return result
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function getComponentLabel(component: string): string {
+  return WARRANTY_COMPONENT_LABELS[component as WarrantyComponent] ?? component
+}
+
+// The plan term for the component, falling back to the basic term. Units on
+// models without a plan get a single term ending on the unit's warranty end date.
+function findTerm(unit: UnitWarranty, component: string): CoverageTerm | null {
+  if (!unit.terms) return { component, months: null, mileageCap: null, oemProvider: null }
+  return (
+    unit.terms.find((term) => term.component === component) ??
+    unit.terms.find((term) => term.component === 'general') ??
+    null
+  )
+}
+
+function checkExtendedWarranty(
+  unit: UnitWarranty,
+  component: string,
+  failureDate: Date,
+  mileage: number | null
+): CoverageDecision | null {
+  const contract = unit.extendedWarranty
+  if (!contract || contract.status !== 'active') return null
+  if (contract.components.length > 0 && !contract.components.includes(component)) return null
+  if (failureDate < contract.startDate || failureDate > contract.endDate) return null
+  if (contract.mileageCap !== null && mileage !== null && mileage > contract.mileageCap) return null
+
+  return {
+    component,
+    status: 'extended',
+    covered: true,
+    expiresOn: contract.endDate,
+    reason: `Covered by extended contract ${contract.contractNumber} through ${formatDay(contract.endDate)}`,
+  }
+}
+
+/**
+ * Coverage for one component on the failure date. Base terms run from the
+ * unit's warranty start (units still in dealer stock are covered); once a term
+ * lapses on time or mileage, an active extended contract can pick it up.
+ * Components warranted by an OEM are never covered here.
+ */
+export function determineCoverage(
+  unit: UnitWarranty,
+  component: string,
+  failureDate: Date,
+  mileage: number | null = null
+): CoverageDecision {
+  const label = getComponentLabel(component)
+  const term = findTerm(unit, component)
+
+  if (term?.oemProvider) {
+    return {
+      component,
+      status: 'oem',
+      covered: false,
+      expiresOn: null,
+      reason: `${label} is warranted by ${term.oemProvider}; file the claim with them`,
+    }
+  }
+
+  let baseEnd: Date | null = null
+  let overMileage = false
+  if (term) {
+    if (!unit.warrantyStartDate) {
+      return {
+        component,
+        status: 'covered',
+        covered: true,
+        expiresOn: null,
+        reason: 'Unit is in dealer stock; warranty terms start at retail delivery',
+      }
+    }
+
+    baseEnd = term.months !== null ? addMonths(unit.warrantyStartDate, term.months) : unit.warrantyEndDate
+    overMileage = term.mileageCap !== null && mileage !== null && mileage > term.mileageCap
+    if (baseEnd && failureDate <= baseEnd && !overMileage) {
+      return {
+        component,
+        status: 'covered',
+        covered: true,
+        expiresOn: baseEnd,
+        reason: `${label} covered through ${formatDay(baseEnd)}${
+          term.mileageCap !== null ? ` or ${term.mileageCap.toLocaleString('en-US')} miles` : ''
+        }`,
+      }
+    }
+  }
+
+  const extended = checkExtendedWarranty(unit, component, failureDate, mileage)
+  if (extended) return extended
+
+  if (term && overMileage) {
+    return {
+      component,
+      status: 'mileage_exceeded',
+      covered: false,
+      expiresOn: baseEnd,
+      reason: `${(mileage ?? 0).toLocaleString('en-US')} miles exceeds the ${(term.mileageCap ?? 0).toLocaleString('en-US')}-mile ${label} limit`,
+    }
+  }
+  if (baseEnd) {
+    return {
+      component,
+      status: 'expired',
+      covered: false,
+      expiresOn: baseEnd,
+      reason: `${label} coverage ended ${formatDay(baseEnd)}`,
+    }
+  }
+  return {
+    component,
+    status: 'not_covered',
+    covered: false,
+    expiresOn: null,
+    reason: `${label} is not covered by this unit's warranty`,
+  }
+}
+
+/**
+ * Claim-level warranty fields from the per-item decisions: under warranty only
+ * when every item is covered, "extended" when an extended contract is needed,
+ * and the soonest coverage end among the items.
+ */
+export function summarizeCoverage(decisions: CoverageDecision[]): {
+  isUnderWarranty: boolean
+  warrantyStatus: 'in_warranty' | 'extended' | 'expired'
+  warrantyExpires: Date | null
+} {
+  const isUnderWarranty = decisions.every((decision) => decision.covered)
+  const expiries = decisions
+    .map((decision) => decision.expiresOn)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime())
+
+  return {
+    isUnderWarranty,
+    warrantyStatus: !isUnderWarranty
+      ? 'expired'
+      : decisions.some((decision) => decision.status === 'extended')
+        ? 'extended'
+        : 'in_warranty',
+    warrantyExpires: expiries[0] ?? null,
+  }
+}
+
+/**
+ * Reasons a claim cannot be submitted. OEM-warranted items always block;
+ * other uncovered items block unless the claim is a goodwill request. Claims
+ * on a unit without items are judged on the unit's basic coverage.
+ */
+export function getClaimCoverageBlockers(claim: {
+  productName: string
+  rvUnitId: string | null
+  isUnderWarranty: boolean
+  goodwillRequested: boolean
+  items: Array<{ partName: string; coverageStatus: string | null; coverageNote: string | null }>
+}): string[] {
+  const items =
+    claim.items.length === 0 && claim.rvUnitId && !claim.isUnderWarranty
+      ? [{ partName: claim.productName, coverageStatus: 'expired', coverageNote: 'Unit is outside its warranty coverage' }]
+      : claim.items
+
+  const blockers: string[] = []
+  for (const item of items) {
+    if (!item.coverageStatus || item.coverageStatus === 'covered' || item.coverageStatus === 'extended') continue
+    if (item.coverageStatus === 'oem') {
+      blockers.push(`${item.partName}: ${item.coverageNote}`)
+    } else if (!claim.goodwillRequested) {
+      blockers.push(`${item.partName}: ${item.coverageNote}. Request goodwill to submit it anyway`)
+    }
+  }
+  return blockers
+}
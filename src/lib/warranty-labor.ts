@@ -0,0 +1,139 @@
+// Flat-rate warranty labor: resolving an op code against the labor guide for
+// a unit's model and class, and checking claimed labor lines against standard
+// hours and the dealer's approved rate. Non-server so the claim form and the
+// review screen can show the same checks.
+
+export const LABOR_LINE_FLAGS = ['unknown_op', 'hours_over_standard', 'rate_over_approved'] as const
+
+export type LaborLineFlag = (typeof LABOR_LINE_FLAGS)[number]
+
+export type LaborOperationForLookup = {
+  opCode: string
+  description: string
+  standardHours: number
+  rvModelId: string | null
+  classType: string | null
+}
+
+export type LaborUnitScope = {
+  rvModelId?: string | null
+  classType?: string | null
+}
+
+export type LaborLineValidation = {
+  standardHours: number | null
+  approvedRate: number | null
+  flags: LaborLineFlag[]
+  suggestedAmount: number
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function normalizeOpCode(opCode: string): string {
+  return opCode.trim().toUpperCase()
+}
+
+// Model-specific entries beat class entries, which beat guide-wide entries.
+// Entries scoped to another model or class never apply.
+function getScopeRank(operation: LaborOperationForLookup, unit: LaborUnitScope): number {
+  if (operation.rvModelId) return operation.rvModelId === unit.rvModelId ? 3 : 0
+  if (operation.classType) return operation.classType === unit.classType ? 2 : 0
+  return 1
+}
+
+/** The guide entry for an op code on this unit, or null when the guide has none. */
+export function findLaborOperation<T extends LaborOperationForLookup>(
+  operations: T[],
+  opCode: string,
+  unit: LaborUnitScope
+): T | null {
+  const code = normalizeOpCode(opCode)
+  let best: T | null = null
+  let bestRank = 0
+  for (const operation of operations) {
+    if (normalizeOpCode(operation.opCode) !== code) continue
+    const rank = getScopeRank(operation, unit)
+    if (rank > bestRank) {
+      best = operation
+      bestRank = rank
+    }
+  }
+  return best
+}
+
+/** One entry per op code that applies to the unit, sorted by op code. */
+export function getApplicableLaborOperations<T extends LaborOperationForLookup>(
+  operations: T[],
+  unit: LaborUnitScope
+): T[] {
+  const codes = operations
+    .filter((operation) => getScopeRank(operation, unit) > 0)
+    .map((operation) => normalizeOpCode(operation.opCode))
+  return codes
+    .filter((code, index) => codes.indexOf(code) === index)
+    .sort()
+    .map((code) => findLaborOperation(operations, code, unit) as T)
+}
+
+/**
+ * Check a claimed labor line against the guide. The suggested amount pays no
+ * more than standard hours at no more than the approved rate; op codes missing
+ * from the guide keep their claimed hours but are flagged for the reviewer.
+ */
+export function validateLaborLine(
+  line: { hours: number; rate: number },
+  operation: { standardHours: number } | null,
+  approvedRate: number | null
+): LaborLineValidation {
+  const flags: LaborLineFlag[] = []
+  let hours = line.hours
+  let rate = line.rate
+
+  if (!operation) {
+    flags.push('unknown_op')
+  } else if (line.hours > operation.standardHours) {
+    flags.push('hours_over_standard')
+    hours = operation.standardHours
+  }
+
+  if (approvedRate !== null && line.rate > approvedRate) {
+    flags.push('rate_over_approved')
+    rate = approvedRate
+  }
+
+  return {
+    standardHours: operation ? operation.standardHours : null,
+    approvedRate,
+    flags,
+    suggestedAmount: roundCurrency(hours * rate),
+  }
+}
+
+export function parseLaborFlags(json: string | null): LaborLineFlag[] {
+  if (!json) return []
+  try {
+    const flags = JSON.parse(json)
+    return Array.isArray(flags)
+      ? flags.filter((flag): flag is LaborLineFlag => LABOR_LINE_FLAGS.includes(flag))
+      : []
+  } catch {
+    return []
+  }
+}
+
+/** Reviewer-facing explanation of a flag on a validated line. */
+export function describeLaborFlag(
+  flag: LaborLineFlag,
+  line: { opCode: string; hours: number; rate: number; standardHours: number | null; approvedRate: number | null }
+): string {
+  switch (flag) {
+    case 'unknown_op':
+      return `${line.opCode} is not in the labor guide for this unit`
+    case 'hours_over_standard':
+      return `${line.hours}h claimed vs ${line.standardHours}h standard`
+    case 'rate_over_approved':
+      return `$${line.rate.toFixed(2)}/hr claimed vs $${(line.approvedRate ?? 0).toFixed(2)}/hr approved`
+  }
+}
@@ -0,0 +1,84 @@
+// Warranty part return rules: return tag numbering, due dates, which actions a
+// return can take in its current status, and when the credit is charged back.
+// Non-server so the claim page and the tests share them with the service.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_PART_RETURN_DAYS = 30
+
+export const PART_RETURN_STATUSES = [
+  'required',
+  'shipped',
+  'received',
+  'accepted',
+  'rejected',
+  'charged_back',
+] as const
+
+export type PartReturnStatus = (typeof PART_RETURN_STATUSES)[number]
+
+export type PartReturnAction = 'ship' | 'receive' | 'accept' | 'reject' | 'charge_back'
+
+const ACTION_FROM: Record<PartReturnAction, PartReturnStatus[]> = {
+  ship: ['required'],
+  receive: ['required', 'shipped'],
+  accept: ['received'],
+  reject: ['received'],
+  charge_back: ['required'],
+}
+
+const ACTION_TO: Record<PartReturnAction, PartReturnStatus> = {
+  ship: 'shipped',
+  receive: 'received',
+  accept: 'accepted',
+  reject: 'rejected',
+  charge_back: 'charged_back',
+}
+
+// RT-2026-00042
+export function formatReturnTagNumber(year: number, sequence: number): string {
+  return `RT-${year}-${sequence.toString().padStart(5, '0')}`
+}
+
+/**
+ * Next return tag number for the year, given the highest tag issued so far
+ * (or null for the first return of the year).
+ */
+export function nextReturnTagNumber(year: number, lastTagNumber: string | null): string {
+  const match = lastTagNumber?.match(/^RT-(\d{4})-(\d{5})$/)
+  const sequence = match && parseInt(match[1]) === year ? parseInt(match[2]) + 1 : 1
+  return formatReturnTagNumber(year, sequence)
+}
+
+export function getPartReturnDueDate(approvedAt: Date, days: number = DEFAULT_PART_RETURN_DAYS): Date {
+  return new Date(approvedAt.getTime() + days * DAY_MS)
+}
+
+// The status a return moves to, or null when the action does not apply to its current status
+export function getPartReturnTransition(status: string, action: PartReturnAction): PartReturnStatus | null {
+  return (ACTION_FROM[action] as string[]).includes(status) ? ACTION_TO[action] : null
+}
+
+/**
+ * Only parts the dealer never shipped are charged back on the due date. Once
+ * the part is in transit the deadline is met; inspection decides the rest.
+ */
+export function isPartReturnOverdue(partReturn: { status: string; dueDate: Date }, now: Date): boolean {
+  return partReturn.status === 'required' && partReturn.dueDate.getTime() < now.getTime()
+}
+
+// The credit at stake: the approved amount for the item, else what was requested
+export function getPartReturnCredit(item: { totalCost: number; approvedAmount: number | null }): number {
+  return Math.round((item.approvedAmount ?? item.totalCost) * 100) / 100
+}
+
+export function summarizePartReturns(
+  returns: Array<{ status: string; dueDate: Date; chargebackAmount: number | null }>,
+  now: Date
+): { open: number; overdue: number; chargedBack: number } {
+  return {
+    open: returns.filter((r) => ['required', 'shipped', 'received'].includes(r.status)).length,
+    overdue: returns.filter((r) => isPartReturnOverdue(r, now)).length,
+    chargedBack: Math.round(returns.reduce((sum, r) => sum + (r.chargebackAmount ?? 0), 0) * 100) / 100,
+  }
+}
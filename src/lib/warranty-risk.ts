@@ -0,0 +1,214 @@
+// Warranty claim risk scoring: the anomaly checks run when a claim is
+// submitted, the points each one adds, and the reviewer-facing reason for it.
+// The service gathers the comparison data; these checks stay pure so the
+// review queue and the tests share them.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const RISK_FLAGS = [
+  'duplicate_claim',
+  'labor_outlier',
+  'near_warranty_end',
+  'dealer_claim_rate',
+  'repeated_description',
+] as const
+
+export type RiskFlagCode = (typeof RISK_FLAGS)[number]
+
+export type RiskFlag = { flag: RiskFlagCode; reason: string }
+
+export const RISK_FLAG_LABELS: Record<RiskFlagCode, string> = {
+  duplicate_claim: 'Duplicate claim',
+  labor_outlier: 'Labor outlier',
+  near_warranty_end: 'Filed near warranty end',
+  dealer_claim_rate: 'High dealer claim rate',
+  repeated_description: 'Repeated description',
+}
+
+// Points per flag; the score is their sum, capped at 100
+export const RISK_FLAG_POINTS: Record<RiskFlagCode, number> = {
+  duplicate_claim: 40,
+  repeated_description: 30,
+  labor_outlier: 25,
+  dealer_claim_rate: 20,
+  near_warranty_end: 15,
+}
+
+export const RISK_RULES = {
+  duplicateWindowDays: 60,
+  // Labor hours above this multiple of the network median for the part
+  laborMedianMultiple: 2,
+  laborMinSample: 5,
+  nearWarrantyEndDays: 30,
+  // Claims per unit sold above this multiple of the median dealer rate
+  dealerRateMultiple: 2,
+  dealerMinUnitsSold: 5,
+  dealerMinSample: 3,
+}
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high'
+
+export const RISK_LEVELS: Array<{ level: RiskLevel; minScore: number }> = [
+  { level: 'high', minScore: 50 },
+  { level: 'medium', minScore: 25 },
+  { level: 'low', minScore: 1 },
+]
+
+export type ClaimRiskInput = {
+  vin: string | null
+  description: string
+  laborHours: number | null
+  parts: Array<{ partNumber: string | null; partName: string }>
+  filedAt: Date
+  warrantyEndDate: Date | null
+}
+
+export type ClaimRiskContext = {
+  // Other claims on the same VIN
+  vinClaims: Array<{ claimNumber: string; filedAt: Date; parts: Array<{ partNumber: string | null; partName: string }> }>
+  // Labor hours on other submitted claims, keyed by part (see getPartKey)
+  partLaborHours: Record<string, number[]>
+  // Claims and units sold over the trailing year, per dealer
+  dealerRates: Array<{ dealerId: string; claims: number; unitsSold: number }>
+  dealerId: string
+  // The dealer's other claims, to compare descriptions
+  dealerDescriptions: Array<{ claimNumber: string; description: string }>
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+// Part number when there is one, else the part name, case- and space-insensitive
+export function getPartKey(part: { partNumber: string | null; partName: string }): string {
+  return (part.partNumber || part.partName).trim().toUpperCase().replace(/\s+/g, ' ')
+}
+
+// Descriptions match when they differ only in case, spacing or punctuation
+export function normalizeDescription(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+export function getRiskLevel(score: number | null): RiskLevel {
+  if (score === null) return 'none'
+  return RISK_LEVELS.find((entry) => score >= entry.minScore)?.level ?? 'none'
+}
+
+export function getRiskScore(flags: RiskFlag[]): number {
+  return Math.min(100, flags.reduce((sum, flag) => sum + RISK_FLAG_POINTS[flag.flag], 0))
+}
+
+function findDuplicateClaims(claim: ClaimRiskInput, context: ClaimRiskContext): RiskFlag | null {
+  if (!claim.vin || claim.parts.length === 0) return null
+  const keys = claim.parts.map(getPartKey)
+  const windowMs = RISK_RULES.duplicateWindowDays * DAY_MS
+
+  const matches = context.vinClaims.filter(
+    (other) =>
+      Math.abs(claim.filedAt.getTime() - other.filedAt.getTime()) <= windowMs &&
+      other.parts.some((part) => keys.includes(getPartKey(part)))
+  )
+  if (matches.length === 0) return null
+
+  const part = claim.parts.find((p) => matches.some((m) => m.parts.some((o) => getPartKey(o) === getPartKey(p))))!
+  return {
+    flag: 'duplicate_claim',
+    reason: `${part.partName} on this VIN was also claimed on ${matches.map((m) => m.claimNumber).join(', ')} within ${RISK_RULES.duplicateWindowDays} days`,
+  }
+}
+
+function findLaborOutlier(claim: ClaimRiskInput, context: ClaimRiskContext): RiskFlag | null {
+  if (!claim.laborHours) return null
+
+  for (const part of claim.parts) {
+    const sample = context.partLaborHours[getPartKey(part)] ?? []
+    if (sample.length < RISK_RULES.laborMinSample) continue
+    const networkMedian = median(sample)!
+    if (networkMedian > 0 && claim.laborHours > networkMedian * RISK_RULES.laborMedianMultiple) {
+      return {
+        flag: 'labor_outlier',
+        reason: `${claim.laborHours}h claimed vs network median ${round(networkMedian, 1)}h for ${part.partName} (${sample.length} claims)`,
+      }
+    }
+  }
+  return null
+}
+
+function findNearWarrantyEnd(claim: ClaimRiskInput): RiskFlag | null {
+  if (!claim.warrantyEndDate) return null
+  const daysLeft = Math.floor((claim.warrantyEndDate.getTime() - claim.filedAt.getTime()) / DAY_MS)
+  if (daysLeft < 0 || daysLeft > RISK_RULES.nearWarrantyEndDays) return null
+  return {
+    flag: 'near_warranty_end',
+    reason: `Filed ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} before the warranty ends ${claim.warrantyEndDate.toISOString().slice(0, 10)}`,
+  }
+}
+
+/**
+ * Compare the dealer's claims per unit sold with the median across dealers.
+ * Dealers with too few sales to give a meaningful rate are left out.
+ */
+function findDealerClaimRate(context: ClaimRiskContext): RiskFlag | null {
+  const rates = context.dealerRates
+    .filter((d) => d.unitsSold >= RISK_RULES.dealerMinUnitsSold)
+    .map((d) => ({ dealerId: d.dealerId, rate: d.claims / d.unitsSold }))
+  if (rates.length < RISK_RULES.dealerMinSample) return null
+
+  const dealer = rates.find((d) => d.dealerId === context.dealerId)
+  const networkMedian = median(rates.map((d) => d.rate))!
+  if (!dealer || networkMedian <= 0 || dealer.rate <= networkMedian * RISK_RULES.dealerRateMultiple) return null
+
+  return {
+    flag: 'dealer_claim_rate',
+    reason: `Dealer files ${round(dealer.rate)} claims per unit sold vs network median ${round(networkMedian)}`,
+  }
+}
+
+function findRepeatedDescription(claim: ClaimRiskInput, context: ClaimRiskContext): RiskFlag | null {
+  const text = normalizeDescription(claim.description)
+  if (!text) return null
+  const matches = context.dealerDescriptions.filter((other) => normalizeDescription(other.description) === text)
+  if (matches.length === 0) return null
+  return {
+    flag: 'repeated_description',
+    reason: `Description is identical to ${matches.map((m) => m.claimNumber).join(', ')}`,
+  }
+}
+
+export function scoreClaimRisk(
+  claim: ClaimRiskInput,
+  context: ClaimRiskContext
+): { score: number; flags: RiskFlag[] } {
+  const flags = [
+    findDuplicateClaims(claim, context),
+    findLaborOutlier(claim, context),
+    findNearWarrantyEnd(claim),
+    findDealerClaimRate(context),
+    findRepeatedDescription(claim, context),
+  ].filter((flag): flag is RiskFlag => flag !== null)
+
+  return { score: getRiskScore(flags), flags }
+}
+
+export function parseRiskFlags(json: string | null): RiskFlag[] {
+  if (!json) return []
+  try {
+    const flags = JSON.parse(json)
+    return Array.isArray(flags)
+      ? flags.filter(
+          (flag): flag is RiskFlag =>
+            !!flag && RISK_FLAGS.includes(flag.flag) && typeof flag.reason === 'string'
+        )
+      : []
+  } catch {
+    return []
+  }
+}
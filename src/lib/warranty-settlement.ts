@@ -0,0 +1,97 @@
+// Warranty settlement rules: which approved claims can be paid, what each one
+// is worth after chargebacks, and how a period's claims roll up into one
+// statement per dealer. Non-server so the pages and the tests share them.
+
+export const SETTLEMENT_METHODS = ['credit_memo', 'check', 'ach'] as const
+
+export type SettlementMethod = (typeof SETTLEMENT_METHODS)[number]
+
+export const SETTLEMENT_METHOD_LABELS: Record<SettlementMethod, string> = {
+  credit_memo: 'Credit Memo',
+  check: 'Check',
+  ach: 'ACH',
+}
+
+// Claim statuses that end with money owed to the dealer
+export const SETTLEABLE_CLAIM_STATUSES = ['approved', 'partial']
+
+// Returns that can still be charged back hold the claim until they close
+const OPEN_PART_RETURN_STATUSES = ['required', 'shipped', 'received']
+
+export type SettlementClaim = {
+  id: string
+  dealerId: string
+  totalApproved: number | null
+  chargebackAmount: number
+  partReturns: Array<{ status: string }>
+}
+
+export type DealerSettlement = {
+  dealerId: string
+  claimIds: string[]
+  approvedAmount: number
+  chargebackAmount: number
+  netAmount: number
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// WS-2026-00007
+export function formatSettlementBatchNumber(year: number, sequence: number): string {
+  return `WS-${year}-${sequence.toString().padStart(5, '0')}`
+}
+
+export function nextSettlementBatchNumber(year: number, lastBatchNumber: string | null): string {
+  const match = lastBatchNumber?.match(/^WS-(\d{4})-(\d{5})$/)
+  const sequence = match && parseInt(match[1]) === year ? parseInt(match[2]) + 1 : 1
+  return formatSettlementBatchNumber(year, sequence)
+}
+
+// What the dealer is paid for a claim: the approved total less anything charged back
+export function getClaimSettlementAmount(claim: { totalApproved: number | null; chargebackAmount: number }): number {
+  return Math.max(0, round((claim.totalApproved ?? 0) - claim.chargebackAmount))
+}
+
+/**
+ * Why a claim cannot be paid yet, or null when it can. Parts still owed or
+ * awaiting inspection may be charged back, so the claim waits for them.
+ */
+export function getSettlementHold(claim: { partReturns: Array<{ status: string }> }): string | null {
+  const open = claim.partReturns.filter((r) => OPEN_PART_RETURN_STATUSES.includes(r.status)).length
+  if (open === 0) return null
+  return open === 1 ? '1 part return still open' : `${open} part returns still open`
+}
+
+/**
+ * Group payable claims into one settlement per dealer. Held claims are left
+ * out and reported separately with their reason.
+ */
+export function planSettlement(claims: SettlementClaim[]): {
+  dealers: DealerSettlement[]
+  held: Array<{ claimId: string; reason: string }>
+} {
+  const dealers: DealerSettlement[] = []
+  const held: Array<{ claimId: string; reason: string }> = []
+
+  for (const claim of claims) {
+    const reason = getSettlementHold(claim)
+    if (reason) {
+      held.push({ claimId: claim.id, reason })
+      continue
+    }
+
+    let dealer = dealers.find((d) => d.dealerId === claim.dealerId)
+    if (!dealer) {
+      dealer = { dealerId: claim.dealerId, claimIds: [], approvedAmount: 0, chargebackAmount: 0, netAmount: 0 }
+      dealers.push(dealer)
+    }
+    dealer.claimIds.push(claim.id)
+    dealer.approvedAmount = round(dealer.approvedAmount + (claim.totalApproved ?? 0))
+    dealer.chargebackAmount = round(dealer.chargebackAmount + claim.chargebackAmount)
+    dealer.netAmount = round(dealer.netAmount + getClaimSettlementAmount(claim))
+  }
+
+  return { dealers, held }
+}
@@ -1,5 +1,9 @@
 // RV Inventory Types
 
+import type { BuildSheet } from '@/lib/build-configurator'
+import type { PdiItemResult, PdiTemplateKey } from '@/lib/pdi-checklist'
+import type { CoverageDecision } from '@/lib/warranty-coverage'
+
 export type RVClassType =
   | 'Class A'
   | 'Class B'
@@ -191,6 +195,7 @@ export interface VehicleOrder {
   requestedExteriorColor?: string
   requestedInteriorColor?: string
   requestedOptions?: string[]
+  buildSheet?: BuildSheet
 
   // Customer
   customerType: 'retail' | 'wholesale' | 'internal'
@@ -214,10 +219,11 @@ export interface VehicleOrder {
   freightPrice: number
   prepFee: number
   docFee: number
-  additionalFees?: { name: string; amount: number }[]
+  additionalFees?: { name: string; amount: number; taxable?: boolean }[]
   tradeInAllowance: number
   tradeInPayoff: number
   rebatesApplied: number
+  incentives?: VehicleOrderIncentive[]
   taxAmount: number
   totalPrice: number
 
@@ -230,6 +236,8 @@ export interface VehicleOrder {
     term: number
     rate: number
     monthlyPayment: number
+    downPayment?: number
+    amountFinanced?: number
   }
 
   // Delivery
@@ -244,6 +252,9 @@ export interface VehicleOrder {
   estimatedDeliveryDate?: Date
   actualDeliveryDate?: Date
   deliveryNotes?: string
+  walkthroughAcknowledgedAt?: Date
+  walkthroughAcknowledgedBy?: string
+  walkthroughTopics?: string[]
 
   // Documentation
   documentsComplete: boolean
@@ -271,6 +282,75 @@ export interface VehicleOrder {
   updatedAt: Date
 }
 
+// Model incentive applied to a vehicle order
+export interface VehicleOrderIncentive {
+  id: string
+  modelIncentiveId: string
+  programId: string
+  programName: string
+  incentiveType: string
+  rate: number
+  amount: number
+  appliedAt: Date
+  claimId?: string
+  claimNumber?: string
+  claimStatus?: string
+}
+
+export type VehicleInvoiceStatus = 'draft' | 'sent' | 'paid' | 'cancelled'
+
+// Invoice for a completed vehicle sale
+export interface VehicleInvoice {
+  id: string
+  invoiceNumber: string
+  vehicleOrderId: string
+  orderNumber: string
+  rvUnitId: string
+  vin: string
+  dealerId: string
+  status: VehicleInvoiceStatus
+
+  // Line items
+  unitDescription: string
+  unitPrice: number
+  optionsDetail: { code?: string; name: string; price: number }[]
+  optionsTotal: number
+  freightCharge: number
+  prepCharge: number
+  docFee: number
+  additionalCharges: { name: string; amount: number }[]
+
+  // Trade
+  tradeDescription?: string
+  tradeAllowance: number
+  tradePayoff: number
+
+  // Totals
+  subtotal: number
+  rebatesApplied: number
+  taxAmount: number
+  totalAmount: number
+  depositApplied: number
+  amountPaid: number
+  balanceDue: number
+
+  paymentMethod?: string
+  paymentReference?: string
+  paidDate?: Date
+  payments: VehicleInvoicePayment[]
+
+  createdAt: Date
+}
+
+export interface VehicleInvoicePayment {
+  id: string
+  amount: number
+  method: string
+  reference?: string
+  receivedAt: Date
+  note?: string
+}
+
 // Trade-In
 export interface TradeIn {
   id: string
@@ -356,6 +436,140 @@ export interface ServiceRecord {
   updatedAt: Date
 }
 
+// Repair order (a ServiceRecord opened by the service department)
+export interface RepairOrder {
+  id: string
+  roNumber: string
+
+  rvUnitId: string
+  vin: string
+  unitDescription: string
+  warrantyEndDate?: Date
+
+  serviceType: ServiceRecord['serviceType']
+  description: string
+  customerName?: string
+  customerPhone?: string
+  mileageIn?: number
+  hoursIn?: number
+
+  laborRate: number
+  laborHours: number
+  laborCost: number
+  partsCost: number
+  subletCost: number
+  totalCost: number
+  customerPayTotal: number
+
+  status: ServiceRecord['status']
+  cancelReason?: string
+
+  lines: RepairOrderLine[]
+
+  dateIn: Date
+  dateOut?: Date
+  promisedDate?: Date
+}
+
+export interface RepairOrderLine {
+  id: string
+  lineNumber: number
+  payType: 'customer_pay' | 'warranty' | 'internal' | 'recall'
+  complaint: string
+  cause?: string
+  correction?: string
+  subletCost: number
+  subletVendor?: string
+  warrantyClaimId?: string
+  warrantyClaimNumber?: string
+  parts: RepairOrderPart[]
+  laborEntries: RepairOrderLaborEntry[]
+}
+
+export interface RepairOrderPart {
+  id: string
+  partId?: string
+  partNumber: string
+  name: string
+  quantity: number
+  unitCost: number
+  unitPrice: number
+}
+
+export interface RepairOrderLaborEntry {
+  id: string
+  technicianId?: string
+  technicianName: string
+  clockIn: Date
+  clockOut?: Date
+  hours?: number
+}
+
+// Row in the service department's RO list
+export interface RepairOrderSummary {
+  id: string
+  roNumber: string
+  vin: string
+  unitDescription: string
+  customerName?: string
+  description: string
+  status: ServiceRecord['status']
+  lineCount: number
+  totalCost: number
+  dateIn: Date
+  promisedDate?: Date
+}
+
+// Pre-delivery inspection
+export type PdiStatus = 'in_progress' | 'repairs_pending' | 'completed'
+
+export interface PdiInspection {
+  id: string
+  rvUnitId: string
+  vin: string
+  unitDescription: string
+  templateKey: PdiTemplateKey
+  templateLabel: string
+  status: PdiStatus
+  results: PdiItemResult[]
+  photos: string[]
+  notes?: string
+  openRepairOrders: string[] // ROs holding failed items that are not closed yet
+  signedOffByName?: string
+  signedOffAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface VehicleOrderDeliveryReadiness {
+  vin?: string
+  pdiStatus?: PdiStatus
+  walkthroughTopics: string[]
+  blockers: string[] // Checks other than the walkthrough, which is captured as the order is delivered
+}
+
+// Extended warranty contract sold on a unit
+export interface ExtendedWarrantyContract {
+  id: string
+  contractNumber: string
+  provider: string
+  components: string[] // Empty covers every component
+  startDate: Date
+  endDate: Date
+  mileageCap?: number
+  deductible: number
+  status: 'active' | 'cancelled'
+}
+
+// Component-by-component coverage on a unit as of a date
+export interface UnitWarrantyCoverage {
+  vin: string
+  planName?: string // Missing when the model has no coverage plan
+  asOf: Date
+  components: CoverageDecision[]
+  extendedWarranty?: ExtendedWarrantyContract
+}
+
 // Dashboard Metrics
 export interface RVInventoryMetrics {
   unitsInStock: number
@@ -0,0 +1,126 @@
+/**
+ * Tests for the inventory movement ledger
+ */
+import { describe, it, expect } from '@jest/globals'
+import type { Prisma } from '@prisma/client'
+import { applyInventoryChange } from '@/lib/inventory-ledger'
+import { getMovementTypeForReason, reconstructStockLevel } from '@/lib/inventory-utils'
+
+type Row = { id: string; productId: string; locationId: string; quantity: number; reserved: number }
+
+// Minimal in-memory stand-in for the inventory and inventoryMovement delegates
+function createLedgerClient(rows: Row[] = []) {
+  const movements: Array<Record<string, unknown>> = []
+  const client = {
+    inventory: {
+      findUnique: async ({ where }: { where: { productId_locationId: { productId: string; locationId: string } } }) =>
+        rows.find(
+          (r) =>
+            r.productId === where.productId_locationId.productId &&
+            r.locationId === where.productId_locationId.locationId
+        ) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) => {
+        const row = rows.find((r) => r.id === where.id)!
+        Object.assign(row, data)
+        return row
+      },
+      create: async ({ data }: { data: Omit<Row, 'id'> }) => {
+        const row = { id: `inv-${rows.length + 1}`, ...data }
+        rows.push(row)
+        return row
+      },
+    },
+    inventoryMovement: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const movement = { id: `mov-${movements.length + 1}`, ...data }
+        movements.push(movement)
+        return movement
+      },
+    },
+  }
+  return { db: client as unknown as Prisma.TransactionClient, rows, movements }
+}
+
+describe('Inventory Movement Ledger', () => {
+  describe('Movement Types', () => {
+    it('maps adjustment reasons onto ledger movement types', () => {
+      expect(getMovementTypeForReason('received')).toBe('receipt')
+      expect(getMovementTypeForReason('returned')).toBe('return')
+      expect(getMovementTypeForReason('transfer_in')).toBe('transfer_in')
+      expect(getMovementTypeForReason('transfer_out')).toBe('transfer_out')
+      expect(getMovementTypeForReason('damaged')).toBe('adjustment')
+      expect(getMovementTypeForReason('cycle_count')).toBe('adjustment')
+    })
+  })
+
+  describe('Applying Changes', () => {
+    it('records before and after quantities', async () => {
+      const { db, rows, movements } = createLedgerClient([
+        { id: 'inv-1', productId: 'p1', locationId: 'l1', quantity: 100, reserved: 10 },
+      ])
+
+      await applyInventoryChange(db, {
+        productId: 'p1',
+        locationId: 'l1',
+        type: 'reservation',
+        quantityChange: -5,
+        reservedChange: 5,
+        referenceType: 'order',
+        userId: 'user-1',
+      })
+
+      expect(rows[0]).toMatchObject({ quantity: 95, reserved: 15 })
+      expect(movements[0]).toMatchObject({
+        type: 'reservation',
+        quantityBefore: 100,
+        quantityAfter: 95,
+        reservedBefore: 10,
+        reservedAfter: 15,
+        userId: 'user-1',
+      })
+    })
+
+    it('creates the inventory row on first receipt', async () => {
+      const { db, rows, movements } = createLedgerClient()
+
+      await applyInventoryChange(db, {
+        productId: 'p1',
+        locationId: 'l1',
+        type: 'receipt',
+        quantityChange: 25,
+        reason: 'received',
+      })
+
+      expect(rows).toHaveLength(1)
+      expect(rows[0]).toMatchObject({ quantity: 25, reserved: 0 })
+      expect(movements[0]).toMatchObject({ quantityBefore: 0, quantityAfter: 25 })
+    })
+
+    it('rejects changes that would drive stock negative', async () => {
+      const { db, movements } = createLedgerClient([
+        { id: 'inv-1', productId: 'p1', locationId: 'l1', quantity: 3, reserved: 0 },
+      ])
+
+      await expect(
+        applyInventoryChange(db, { productId: 'p1', locationId: 'l1', type: 'shipment', reservedChange: -1 })
+      ).rejects.toThrow('Insufficient stock')
+      expect(movements).toHaveLength(0)
+    })
+  })
+
+  describe('Stock Reconstruction', () => {
+    it('unwinds movements recorded after the snapshot date', () => {
+      const level = reconstructStockLevel({ quantity: 80, reserved: 5 }, [
+        { quantityChange: 30, reservedChange: 0 },
+        { quantityChange: -10, reservedChange: 10 },
+        { quantityChange: 0, reservedChange: -5 },
+      ])
+
+      expect(level).toEqual({ quantity: 60, reserved: 0 })
+    })
+
+    it('returns current stock when nothing has moved since', () => {
+      expect(reconstructStockLevel({ quantity: 12, reserved: 2 }, [])).toEqual({ quantity: 12, reserved: 2 })
+    })
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * Tests for inter-location transfer receipt logic
+ */
+import { describe, it, expect } from '@jest/globals'
+import { getOutstandingTransferQuantity, getTransferReceiptStatus } from '@/lib/inventory-utils'
+
+describe('Inventory Transfers', () => {
+  describe('Outstanding Quantity', () => {
+    it('counts shipped units not yet received', () => {
+      expect(getOutstandingTransferQuantity({ quantity: 10, quantityReceived: 4, discrepancyReason: null })).toBe(6)
+    })
+
+    it('closes the line once a discrepancy is recorded', () => {
+      expect(getOutstandingTransferQuantity({ quantity: 10, quantityReceived: 8, discrepancyReason: 'damaged' })).toBe(0)
+    })
+  })
+
+  describe('Receipt Status', () => {
+    it('stays partially received while any line is outstanding', () => {
+      const status = getTransferReceiptStatus([
+        { quantity: 10, quantityReceived: 10, discrepancyReason: null },
+        { quantity: 5, quantityReceived: 2, discrepancyReason: null },
+      ])
+      expect(status).toBe('partially_received')
+    })
+
+    it('is received when every line is received or written off', () => {
+      const status = getTransferReceiptStatus([
+        { quantity: 10, quantityReceived: 10, discrepancyReason: null },
+        { quantity: 5, quantityReceived: 3, discrepancyReason: 'lost' },
+      ])
+      expect(status).toBe('received')
+    })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Tests for scheduled job timing, retry backoff and handler helpers
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getDaysOnLot,
+  getPreviousMonthPeriod,
+  getRetryDelayMs,
+  isJobLocked,
+  planNextJobRun,
+  shouldAutoEscalate,
+  formatJobDuration,
+} from '@/lib/jobs'
+
+const now = new Date('2026-10-19T10:07:00Z')
+
+describe('retry backoff', () => {
+  it('doubles the delay per attempt up to an hour', () => {
+    expect(getRetryDelayMs(1)).toBe(60 * 1000)
+    expect(getRetryDelayMs(2)).toBe(2 * 60 * 1000)
+    expect(getRetryDelayMs(3)).toBe(4 * 60 * 1000)
+    expect(getRetryDelayMs(10)).toBe(60 * 60 * 1000)
+  })
+})
+
+describe('planNextJobRun', () => {
+  const cronExpression = '0 3 * * *'
+
+  it('goes to the next cron time after a success and clears attempts', () => {
+    expect(planNextJobRun({ cronExpression, now, succeeded: true, attempts: 2, maxAttempts: 3 })).toEqual({
+      nextRunAt: new Date('2026-10-20T03:00:00Z'),
+      attempts: 0,
+      retrying: false,
+    })
+  })
+
+  it('retries a failure with backoff while attempts remain', () => {
+    expect(planNextJobRun({ cronExpression, now, succeeded: false, attempts: 0, maxAttempts: 3 })).toEqual({
+      nextRunAt: new Date('2026-10-19T10:08:00Z'),
+      attempts: 1,
+      retrying: true,
+    })
+    expect(planNextJobRun({ cronExpression, now, succeeded: false, attempts: 1, maxAttempts: 3 }).nextRunAt).toEqual(
+      new Date('2026-10-19T10:09:00Z')
+    )
+  })
+
+  it('gives up after the last attempt and waits for the schedule', () => {
+    expect(planNextJobRun({ cronExpression, now, succeeded: false, attempts: 2, maxAttempts: 3 })).toEqual({
+      nextRunAt: new Date('2026-10-20T03:00:00Z'),
+      attempts: 0,
+      retrying: false,
+    })
+  })
+
+  it('never retries jobs with a single attempt', () => {
+    const next = planNextJobRun({ cronExpression: '*/15 * * * *', now, succeeded: false, attempts: 0, maxAttempts: 1 })
+    expect(next.retrying).toBe(false)
+    expect(next.nextRunAt).toEqual(new Date('2026-10-19T10:15:00Z'))
+  })
+})
+
+describe('job lock and display', () => {
+  it('treats an expired lock as free', () => {
+    expect(isJobLocked(null, now)).toBe(false)
+    expect(isJobLocked(new Date('2026-10-19T10:00:00Z'), now)).toBe(false)
+    expect(isJobLocked(new Date('2026-10-19T10:20:00Z'), now)).toBe(true)
+  })
+
+  it('formats durations', () => {
+    expect(formatJobDuration(null)).toBe('—')
+    expect(formatJobDuration(250)).toBe('250ms')
+    expect(formatJobDuration(4200)).toBe('4.2s')
+    expect(formatJobDuration(125000)).toBe('2m 5s')
+  })
+})
+
+describe('job helpers', () => {
+  it('counts days on lot and freezes them at the sale date', () => {
+    const received = new Date('2026-08-01T12:00:00Z')
+    expect(getDaysOnLot(received, null, now)).toBe(78)
+    expect(getDaysOnLot(received, new Date('2026-08-31T15:00:00Z'), now)).toBe(30)
+    expect(getDaysOnLot(null, null, now)).toBeNull()
+  })
+
+  it('escalates overdue tickets once a day up to the cap', () => {
+    expect(shouldAutoEscalate({ escalationLevel: 0, escalatedAt: null }, now)).toBe(true)
+    expect(shouldAutoEscalate({ escalationLevel: 1, escalatedAt: new Date('2026-10-19T01:00:00Z') }, now)).toBe(false)
+    expect(shouldAutoEscalate({ escalationLevel: 1, escalatedAt: new Date('2026-10-18T09:00:00Z') }, now)).toBe(true)
+    expect(shouldAutoEscalate({ escalationLevel: 2, escalatedAt: null }, now)).toBe(false)
+  })
+
+  it('finds the previous calendar month, across a year boundary', () => {
+    const october = getPreviousMonthPeriod(new Date(2026, 9, 1, 4))
+    expect(october.key).toBe('2026-09')
+    expect(october.periodStart).toEqual(new Date(2026, 8, 1))
+    expect(october.periodEnd).toEqual(new Date(2026, 8, 30, 23, 59, 59))
+
+    expect(getPreviousMonthPeriod(new Date(2027, 0, 1, 4)).key).toBe('2026-12')
+  })
+})
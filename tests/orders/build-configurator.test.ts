@@ -0,0 +1,144 @@
+/**
+ * Tests for factory build validation and pricing
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  configureBuild,
+  parseBuildSheet,
+  parseStringList,
+  type BuildCatalog,
+  type CatalogOption,
+} from '@/lib/build-configurator'
+
+function option(code: string, overrides: Partial<CatalogOption> = {}): CatalogOption {
+  return {
+    code,
+    name: code,
+    description: null,
+    groupCode: 'POWER',
+    dealerCost: 100,
+    msrp: 150,
+    requires: [],
+    excludes: [],
+    includes: [],
+    exteriorColors: null,
+    interiorColors: null,
+    isActive: true,
+    ...overrides,
+  }
+}
+
+const catalog: BuildCatalog = {
+  rvModelId: 'model-1',
+  modelCode: 'ARIA-4000',
+  modelName: 'Aria 4000',
+  modelYear: 2026,
+  baseMSRP: 425000,
+  dealerInvoice: 380000,
+  exteriorColors: ['Slate Gray', 'Modern White'],
+  interiorColors: ['Coastal'],
+  groups: [
+    { code: 'PAINT', name: 'Paint', selection: 'single', isRequired: true },
+    { code: 'POWER', name: 'Power', selection: 'multiple', isRequired: false },
+    { code: 'SEATING', name: 'Seating', selection: 'multiple', isRequired: false },
+  ],
+  options: [
+    option('PNT-PARTIAL', { groupCode: 'PAINT', dealerCost: 0, msrp: 0 }),
+    option('PNT-FULL', { groupCode: 'PAINT', dealerCost: 9800, msrp: 12500, exteriorColors: ['Slate Gray'] }),
+    option('LITHIUM', { dealerCost: 6200, msrp: 8400 }),
+    option('SOLAR', { dealerCost: 3100, msrp: 4200, requires: ['LITHIUM'] }),
+    option('OFFGRID', { dealerCost: 8600, msrp: 11500, includes: ['LITHIUM', 'SOLAR'] }),
+    option('THEATER', { groupCode: 'SEATING', excludes: ['DINETTE'] }),
+    option('DINETTE', { groupCode: 'SEATING', excludes: ['THEATER'] }),
+    option('OLD', { isActive: false }),
+  ],
+}
+
+const colors = { exteriorColor: 'Slate Gray', interiorColor: 'Coastal' }
+const pricedAt = new Date('2026-10-19T12:00:00Z')
+
+function issueTypes(codes: string[], selection: Partial<typeof colors> = colors) {
+  return configureBuild(catalog, { optionCodes: codes, ...selection }, pricedAt).issues.map((issue) => issue.type)
+}
+
+describe('configureBuild pricing', () => {
+  it('prices a valid build from the catalog', () => {
+    const result = configureBuild(catalog, { optionCodes: ['PNT-FULL', 'LITHIUM'], ...colors }, pricedAt)
+
+    expect(result.valid).toBe(true)
+    expect(result.sheet.lines.map((line) => line.code)).toEqual(['PNT-FULL', 'LITHIUM'])
+    expect(result.sheet.optionsMSRP).toBe(20900)
+    expect(result.sheet.optionsDealerCost).toBe(16000)
+    expect(result.sheet.totalMSRP).toBe(445900)
+    expect(result.sheet.totalDealerCost).toBe(396000)
+    expect(result.sheet.lines[0].groupName).toBe('Paint')
+    expect(result.sheet.pricedAt).toBe('2026-10-19T12:00:00.000Z')
+  })
+
+  it('adds included options at no charge, even when chosen directly', () => {
+    const result = configureBuild(catalog, { optionCodes: ['PNT-PARTIAL', 'LITHIUM', 'OFFGRID'], ...colors }, pricedAt)
+
+    expect(result.valid).toBe(true)
+    expect(result.sheet.lines.map((line) => [line.code, line.includedBy])).toEqual([
+      ['PNT-PARTIAL', null],
+      ['LITHIUM', 'OFFGRID'],
+      ['SOLAR', 'OFFGRID'],
+      ['OFFGRID', null],
+    ])
+    expect(result.sheet.optionsMSRP).toBe(11500)
+  })
+
+  it('ignores duplicate and blank codes', () => {
+    const result = configureBuild(catalog, { optionCodes: ['PNT-PARTIAL', ' LITHIUM', 'LITHIUM', ''], ...colors }, pricedAt)
+    expect(result.valid).toBe(true)
+    expect(result.sheet.lines).toHaveLength(2)
+  })
+})
+
+describe('configureBuild rules', () => {
+  it('rejects unknown and inactive options', () => {
+    expect(issueTypes(['PNT-PARTIAL', 'NOPE', 'OLD'])).toEqual(['unknown_option', 'inactive_option'])
+  })
+
+  it('enforces requires and excludes', () => {
+    expect(issueTypes(['PNT-PARTIAL', 'SOLAR'])).toEqual(['missing_requirement'])
+    // A conflict is reported once even though both options list it
+    expect(issueTypes(['PNT-PARTIAL', 'THEATER', 'DINETTE'])).toEqual(['excluded_option'])
+  })
+
+  it('enforces single-choice and required groups', () => {
+    expect(issueTypes(['PNT-PARTIAL', 'PNT-FULL'])).toEqual(['group_limit'])
+    expect(issueTypes(['LITHIUM'])).toEqual(['group_required'])
+  })
+
+  it('checks colors against the model and the chosen options', () => {
+    expect(issueTypes(['PNT-PARTIAL'], {})).toEqual(['color_required', 'color_required'])
+    expect(issueTypes(['PNT-PARTIAL'], { exteriorColor: 'Purple', interiorColor: 'Coastal' })).toEqual([
+      'color_unavailable',
+    ])
+    expect(issueTypes(['PNT-FULL'], { exteriorColor: 'modern white', interiorColor: 'Coastal' })).toEqual([
+      'color_incompatible',
+    ])
+  })
+
+  it('still returns a priced sheet for an invalid build', () => {
+    const result = configureBuild(catalog, { optionCodes: ['SOLAR'], ...colors }, pricedAt)
+    expect(result.valid).toBe(false)
+    expect(result.sheet.optionsMSRP).toBe(4200)
+  })
+})
+
+describe('stored values', () => {
+  it('parses code lists, keeping null as no restriction', () => {
+    expect(parseStringList(null)).toBeNull()
+    expect(parseStringList('["A", 3, "", "B"]')).toEqual(['A', 'B'])
+    expect(parseStringList('not json')).toBeNull()
+  })
+
+  it('round-trips a build sheet', () => {
+    const { sheet } = configureBuild(catalog, { optionCodes: ['PNT-PARTIAL'], ...colors }, pricedAt)
+    expect(parseBuildSheet(JSON.stringify(sheet))).toEqual(sheet)
+    expect(parseBuildSheet('{}')).toBeNull()
+    expect(parseBuildSheet(null)).toBeNull()
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Tests for the vehicle deal worksheet and loan payment scenarios
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateDealWorksheet,
+  calculateMonthlyPayment,
+  quoteFinanceScenario,
+  type DealInput,
+  type DealTaxContext,
+} from '@/lib/deal-worksheet'
+
+const input: DealInput = {
+  sellingPrice: 100000,
+  optionsPrice: 5000,
+  freightPrice: 2500,
+  prepFee: 1000,
+  docFee: 500,
+  additionalFees: [
+    { name: 'Title', amount: 150, taxable: false },
+    { name: 'Service contract', amount: 2000, taxable: true },
+  ],
+  tradeInAllowance: 30000,
+  tradeInPayoff: 12000,
+  rebates: 3000,
+  depositAmount: 5000,
+}
+
+const tax: DealTaxContext = {
+  state: 'IN',
+  rates: [
+    { jurisdiction: 'Indiana', type: 'state', rate: 0.07, taxShipping: true },
+    { jurisdiction: 'Elkhart County', type: 'county', rate: 0.01, taxShipping: true },
+  ],
+  tradeInCredit: true,
+  exempt: false,
+}
+
+describe('calculateDealWorksheet', () => {
+  it('builds the deal from selling price to balance due', () => {
+    const worksheet = calculateDealWorksheet(input, tax)
+
+    expect(worksheet.subtotal).toBe(111150)
+    // Taxable fees count, the title fee and the trade allowance do not
+    expect(worksheet.taxableAmount).toBe(81000)
+    expect(worksheet.taxLines.map((line) => line.taxAmount)).toEqual([5670, 810])
+    expect(worksheet.taxAmount).toBe(6480)
+    expect(worksheet.tradeEquity).toBe(18000)
+    expect(worksheet.totalPrice).toBe(96630)
+    expect(worksheet.balanceDue).toBe(91630)
+  })
+
+  it('taxes the full price where the state gives no trade-in credit', () => {
+    const worksheet = calculateDealWorksheet(input, { ...tax, tradeInCredit: false })
+    expect(worksheet.taxableAmount).toBe(111000)
+    expect(worksheet.taxAmount).toBe(8880)
+  })
+
+  it('charges no tax on exempt deals', () => {
+    const worksheet = calculateDealWorksheet(input, { ...tax, rates: [], exempt: true })
+    expect(worksheet.taxableAmount).toBe(0)
+    expect(worksheet.taxAmount).toBe(0)
+    expect(worksheet.totalPrice).toBe(111150 - 18000 - 3000)
+  })
+
+  it('adds negative trade equity to the balance', () => {
+    const worksheet = calculateDealWorksheet({ ...input, tradeInAllowance: 10000, tradeInPayoff: 15000 }, tax)
+    expect(worksheet.tradeEquity).toBe(-5000)
+    expect(worksheet.totalPrice).toBe(111150 + worksheet.taxAmount + 5000 - 3000)
+  })
+
+  it('never taxes below zero when the trade exceeds the price', () => {
+    const worksheet = calculateDealWorksheet({ ...input, tradeInAllowance: 200000, tradeInPayoff: 0 }, tax)
+    expect(worksheet.taxableAmount).toBe(0)
+  })
+})
+
+describe('calculateMonthlyPayment', () => {
+  it('amortizes the principal over the term', () => {
+    expect(calculateMonthlyPayment(100000, 7.99, 180)).toBe(955.07)
+    expect(calculateMonthlyPayment(50000, 6, 120)).toBe(555.1)
+  })
+
+  it('divides the principal evenly at 0% APR', () => {
+    expect(calculateMonthlyPayment(12000, 0, 120)).toBe(100)
+  })
+
+  it('has no payment when nothing is financed', () => {
+    expect(calculateMonthlyPayment(0, 7.99, 120)).toBe(0)
+  })
+})
+
+describe('quoteFinanceScenario', () => {
+  it('finances the balance after the down payment', () => {
+    const quote = quoteFinanceScenario(91630, { termMonths: 240, apr: 0, downPayment: 10000 })
+    expect(quote.amountFinanced).toBe(81630)
+    expect(quote.monthlyPayment).toBe(340.13)
+    expect(quote.totalOfPayments).toBe(81631.2)
+    expect(quote.financeCharge).toBe(1.2)
+  })
+
+  it('does not finance a down payment larger than the balance', () => {
+    expect(quoteFinanceScenario(5000, { termMonths: 120, apr: 7.99, downPayment: 8000 }).amountFinanced).toBe(0)
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Tests for dealer credit: AR aging, exposure and the checkout credit check
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildArAging,
+  evaluateCreditCheck,
+  formatPaymentTerms,
+  getAgingBucket,
+  getDaysPastDue,
+  getUninvoicedAmount,
+  OPEN_ORDER_STATUSES,
+  type ArAging,
+} from '@/lib/credit'
+
+const asOf = new Date('2026-06-30T12:00:00Z')
+
+function daysAgo(days: number): Date {
+  return new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000)
+}
+
+function invoice(totalAmount: number, dueDaysAgo: number, overrides: Partial<{ status: string; creditedAmount: number; paidDate: Date | null }> = {}) {
+  return {
+    status: 'sent',
+    totalAmount,
+    creditedAmount: 0,
+    dueDate: daysAgo(dueDaysAgo),
+    paidDate: null,
+    ...overrides,
+  }
+}
+
+const emptyAging: ArAging = buildArAging([], asOf)
+
+describe('Dealer Credit', () => {
+  describe('Payment Terms', () => {
+    it('formats terms from the dealer setting', () => {
+      expect(formatPaymentTerms(30)).toBe('Net 30')
+      expect(formatPaymentTerms(45)).toBe('Net 45')
+      expect(formatPaymentTerms(0)).toBe('Due on Receipt')
+    })
+  })
+
+  describe('AR Aging', () => {
+    it('counts whole days past due and nothing before the due date', () => {
+      expect(getDaysPastDue(daysAgo(10), asOf)).toBe(10)
+      expect(getDaysPastDue(daysAgo(-5), asOf)).toBe(0)
+      expect(getDaysPastDue(null, asOf)).toBe(0)
+    })
+
+    it('places days past due into buckets', () => {
+      expect(getAgingBucket(0)).toBe('current')
+      expect(getAgingBucket(30)).toBe('days1to30')
+      expect(getAgingBucket(31)).toBe('days31to60')
+      expect(getAgingBucket(90)).toBe('days61to90')
+      expect(getAgingBucket(91)).toBe('over90')
+    })
+
+    it('ages open balances net of credits and skips paid and cancelled invoices', () => {
+      const aging = buildArAging(
+        [
+          invoice(1000, -10),
+          invoice(500, 15, { creditedAmount: 100 }),
+          invoice(250, 45),
+          invoice(300, 75),
+          invoice(200, 120),
+          invoice(999, 200, { status: 'paid', paidDate: daysAgo(190) }),
+          invoice(999, 200, { status: 'cancelled' }),
+          invoice(999, 200, { paidDate: daysAgo(150) }),
+        ],
+        asOf
+      )
+
+      expect(aging).toEqual({
+        current: 1000,
+        days1to30: 400,
+        days31to60: 250,
+        days61to90: 300,
+        over90: 200,
+        totalOutstanding: 2150,
+        pastDue: 1150,
+        oldestDaysPastDue: 120,
+      })
+    })
+  })
+
+  describe('Exposure', () => {
+    it('counts only the part of an order not yet invoiced', () => {
+      expect(getUninvoicedAmount({ totalAmount: 1000 }, [])).toBe(1000)
+      expect(
+        getUninvoicedAmount({ totalAmount: 1000 }, [
+          { status: 'sent', totalAmount: 400 },
+          { status: 'cancelled', totalAmount: 600 },
+        ])
+      ).toBe(600)
+      expect(getUninvoicedAmount({ totalAmount: 1000 }, [{ status: 'paid', totalAmount: 1000 }])).toBe(0)
+    })
+
+    it('counts orders waiting on dealer approval', () => {
+      expect(OPEN_ORDER_STATUSES).toContain('pending_approval')
+    })
+
+    it('keeps delivered orders in exposure until they are invoiced', () => {
+      expect(OPEN_ORDER_STATUSES).toContain('delivered')
+      expect(OPEN_ORDER_STATUSES).not.toContain('cancelled')
+    })
+  })
+
+  describe('Credit Check', () => {
+    it('approves terms orders within the available credit', () => {
+      const check = evaluateCreditCheck({
+        paymentMethod: 'credit_terms',
+        orderTotal: 2000,
+        creditLimit: 10000,
+        creditHoldAction: 'review',
+        aging: buildArAging([invoice(3000, 5)], asOf),
+        openOrderExposure: 1000,
+      })
+
+      expect(check).toEqual({ decision: 'approved', reasons: [], exposure: 4000, availableCredit: 6000 })
+    })
+
+    it('holds orders that would exceed the limit for review', () => {
+      const check = evaluateCreditCheck({
+        paymentMethod: 'credit_terms',
+        orderTotal: 2500,
+        creditLimit: 5000,
+        creditHoldAction: 'review',
+        aging: buildArAging([invoice(3000, -10)], asOf),
+        openOrderExposure: 0,
+      })
+
+      expect(check.decision).toBe('review')
+      expect(check.availableCredit).toBe(2000)
+      expect(check.reasons).toEqual(['Order total of $2500.00 exceeds available credit of $2000.00'])
+    })
+
+    it('blocks accounts 60 or more days past due when set to block', () => {
+      const check = evaluateCreditCheck({
+        paymentMethod: 'credit_terms',
+        orderTotal: 100,
+        creditLimit: null,
+        creditHoldAction: 'block',
+        aging: buildArAging([invoice(400, 60)], asOf),
+        openOrderExposure: 0,
+      })
+
+      expect(check.decision).toBe('blocked')
+      expect(check.availableCredit).toBeNull()
+      expect(check.reasons).toEqual(['Account has invoices 60 days past due'])
+    })
+
+    it('does not limit dealers without a credit limit or orders paid up front', () => {
+      expect(
+        evaluateCreditCheck({
+          paymentMethod: 'credit_terms',
+          orderTotal: 1000000,
+          creditLimit: null,
+          creditHoldAction: 'block',
+          aging: emptyAging,
+          openOrderExposure: 50000,
+        }).decision
+      ).toBe('approved')
+
+      expect(
+        evaluateCreditCheck({
+          paymentMethod: 'credit_card',
+          orderTotal: 1000,
+          creditLimit: 0,
+          creditHoldAction: 'block',
+          aging: buildArAging([invoice(400, 120)], asOf),
+          openOrderExposure: 0,
+        }).decision
+      ).toBe('approved')
+    })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Tests for dealer price list resolution
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  resolvePrice,
+  hasPriceChanged,
+  getPriceListStatus,
+  type PriceListRule,
+} from '@/lib/pricing'
+
+const at = new Date('2026-06-01T00:00:00Z')
+const dealer = { id: 'dealer-1', tier: 'gold' }
+
+function priceList(overrides: Partial<PriceListRule>): PriceListRule {
+  return {
+    id: 'list',
+    name: 'List',
+    dealerTier: null,
+    dealerId: null,
+    effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+    effectiveTo: null,
+    isActive: true,
+    items: [],
+    ...overrides,
+  }
+}
+
+const goldList = priceList({
+  id: 'gold',
+  name: 'Gold 2026',
+  dealerTier: 'gold',
+  items: [
+    { productId: 'p1', minQuantity: 1, price: 90 },
+    { productId: 'p1', minQuantity: 10, price: 85 },
+    { productId: 'p1', minQuantity: 50, price: 80 },
+  ],
+})
+
+const contractList = priceList({
+  id: 'contract',
+  name: 'Dealer 1 contract',
+  dealerId: 'dealer-1',
+  items: [{ productId: 'p1', minQuantity: 1, price: 75 }],
+})
+
+describe('Dealer Pricing', () => {
+  describe('Price Resolution', () => {
+    it('uses the base price when no list applies', () => {
+      const price = resolvePrice({ productId: 'p1', basePrice: 100, quantity: 1, dealer, priceLists: [], at })
+      expect(price.unitPrice).toBe(100)
+      expect(price.source).toBe('base')
+    })
+
+    it('applies the tier list for the dealer tier only', () => {
+      const price = resolvePrice({ productId: 'p1', basePrice: 100, quantity: 1, dealer, priceLists: [goldList], at })
+      expect(price.unitPrice).toBe(90)
+      expect(price.source).toBe('tier')
+      expect(price.listPrice).toBe(100)
+
+      const silver = resolvePrice({
+        productId: 'p1',
+        basePrice: 100,
+        quantity: 1,
+        dealer: { id: 'dealer-2', tier: 'silver' },
+        priceLists: [goldList],
+        at,
+      })
+      expect(silver.source).toBe('base')
+    })
+
+    it('picks the highest quantity break the quantity qualifies for', () => {
+      const resolve = (quantity: number) =>
+        resolvePrice({ productId: 'p1', basePrice: 100, quantity, dealer, priceLists: [goldList], at }).unitPrice
+
+      expect(resolve(9)).toBe(90)
+      expect(resolve(10)).toBe(85)
+      expect(resolve(49)).toBe(85)
+      expect(resolve(120)).toBe(80)
+    })
+
+    it('prefers contract pricing over tier pricing', () => {
+      const price = resolvePrice({
+        productId: 'p1',
+        basePrice: 100,
+        quantity: 20,
+        dealer,
+        priceLists: [goldList, contractList],
+        at,
+      })
+      expect(price.unitPrice).toBe(75)
+      expect(price.source).toBe('contract')
+      expect(price.priceListId).toBe('contract')
+    })
+
+    it('falls through to the tier list when the contract does not price the product', () => {
+      const price = resolvePrice({
+        productId: 'p1',
+        basePrice: 100,
+        quantity: 1,
+        dealer,
+        priceLists: [priceList({ ...contractList, items: [{ productId: 'p2', minQuantity: 1, price: 10 }] }), goldList],
+        at,
+      })
+      expect(price.source).toBe('tier')
+    })
+
+    it('ignores lists outside their effective dates or switched off', () => {
+      const lists = [
+        priceList({ ...contractList, effectiveFrom: new Date('2026-07-01T00:00:00Z') }),
+        priceList({ ...goldList, effectiveTo: new Date('2026-05-01T00:00:00Z') }),
+        priceList({ ...goldList, id: 'inactive', isActive: false }),
+      ]
+      const price = resolvePrice({ productId: 'p1', basePrice: 100, quantity: 1, dealer, priceLists: lists, at })
+      expect(price.source).toBe('base')
+    })
+
+    it('uses the most recently effective list at the same level', () => {
+      const newer = priceList({
+        ...goldList,
+        id: 'gold-new',
+        effectiveFrom: new Date('2026-04-01T00:00:00Z'),
+        items: [{ productId: 'p1', minQuantity: 1, price: 88 }],
+      })
+      const price = resolvePrice({ productId: 'p1', basePrice: 100, quantity: 1, dealer, priceLists: [goldList, newer], at })
+      expect(price.priceListId).toBe('gold-new')
+      expect(price.unitPrice).toBe(88)
+    })
+  })
+
+  describe('Price Change Detection', () => {
+    it('compares prices to the cent', () => {
+      expect(hasPriceChanged(90, 90.001)).toBe(false)
+      expect(hasPriceChanged(90, 89.99)).toBe(true)
+    })
+  })
+
+  describe('Price List Status', () => {
+    it('reports scheduled, active, expired and inactive lists', () => {
+      expect(getPriceListStatus(goldList, at)).toBe('active')
+      expect(getPriceListStatus({ ...goldList, effectiveFrom: new Date('2026-07-01T00:00:00Z') }, at)).toBe('scheduled')
+      expect(getPriceListStatus({ ...goldList, effectiveTo: new Date('2026-06-01T00:00:00Z') }, at)).toBe('expired')
+      expect(getPriceListStatus({ ...goldList, isActive: false }, at)).toBe('inactive')
+    })
+  })
+})
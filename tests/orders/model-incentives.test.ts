@@ -0,0 +1,112 @@
+/**
+ * Tests for model incentive eligibility and amounts on vehicle orders
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateIncentiveAmount,
+  evaluateModelIncentive,
+  parseIncentiveConditions,
+  type IncentiveOrderContext,
+  type ModelIncentiveCandidate,
+} from '@/lib/model-incentives'
+
+const candidate: ModelIncentiveCandidate = {
+  incentiveType: 'per_unit',
+  amount: 5000,
+  conditions: {},
+  validFrom: new Date('2026-01-01T00:00:00Z'),
+  validTo: new Date('2026-12-31T23:59:59Z'),
+  program: {
+    status: 'active',
+    startDate: new Date('2026-01-01T00:00:00Z'),
+    endDate: null,
+  },
+  dealerEnrolled: true,
+}
+
+const context: IncentiveOrderContext = {
+  asOf: new Date('2026-10-19T12:00:00Z'),
+  unitPrice: 189000,
+  orderType: 'stock',
+  customerType: 'retail',
+  unitCondition: 'new',
+  priorUnits: 0,
+}
+
+describe('calculateIncentiveAmount', () => {
+  it('pays a flat amount per unit', () => {
+    expect(calculateIncentiveAmount('per_unit', 5000, 189000)).toBe(5000)
+  })
+
+  it('pays a percentage of the unit price', () => {
+    expect(calculateIncentiveAmount('percentage', 2.5, 189999)).toBe(4749.98)
+  })
+
+  it('pays the highest tier reached, or the base amount below the first tier', () => {
+    const conditions = {
+      tiers: [
+        { minUnits: 5, amount: 1500 },
+        { minUnits: 10, amount: 2500 },
+      ],
+    }
+    expect(calculateIncentiveAmount('tiered', 1000, 0, conditions, 1)).toBe(1000)
+    expect(calculateIncentiveAmount('tiered', 1000, 0, conditions, 5)).toBe(1500)
+    expect(calculateIncentiveAmount('tiered', 1000, 0, conditions, 12)).toBe(2500)
+  })
+})
+
+describe('evaluateModelIncentive', () => {
+  it('applies an active incentive to an enrolled dealer', () => {
+    expect(evaluateModelIncentive(candidate, context)).toEqual({ eligible: true, amount: 5000, reason: null })
+  })
+
+  it('checks program status, dates and enrollment', () => {
+    expect(evaluateModelIncentive({ ...candidate, program: { ...candidate.program, status: 'paused' } }, context).reason).toBe(
+      'Program is not active'
+    )
+    expect(evaluateModelIncentive({ ...candidate, validTo: new Date('2026-09-30T00:00:00Z') }, context).reason).toBe(
+      'Outside the incentive dates'
+    )
+    expect(
+      evaluateModelIncentive(
+        { ...candidate, program: { ...candidate.program, endDate: new Date('2026-06-30T00:00:00Z') } },
+        context
+      ).reason
+    ).toBe('Outside the program dates')
+    expect(evaluateModelIncentive({ ...candidate, dealerEnrolled: false }, context).eligible).toBe(false)
+  })
+
+  it('applies order conditions', () => {
+    const retailOnly = { ...candidate, conditions: { customerTypes: ['retail'] } }
+    expect(evaluateModelIncentive(retailOnly, context).eligible).toBe(true)
+    expect(evaluateModelIncentive(retailOnly, { ...context, customerType: 'wholesale' }).eligible).toBe(false)
+
+    const demoOnly = { ...candidate, conditions: { requireDemo: true } }
+    expect(evaluateModelIncentive(demoOnly, context).reason).toBe('Only for demo units')
+    expect(evaluateModelIncentive(demoOnly, { ...context, unitCondition: 'demo' }).eligible).toBe(true)
+  })
+
+  it('counts this unit toward the minimum volume', () => {
+    const volume = { ...candidate, conditions: { minUnits: 3 } }
+    expect(evaluateModelIncentive(volume, { ...context, priorUnits: 1 }).eligible).toBe(false)
+    expect(evaluateModelIncentive(volume, { ...context, priorUnits: 2 }).eligible).toBe(true)
+  })
+})
+
+describe('parseIncentiveConditions', () => {
+  it('keeps well-formed fields and sorts tiers', () => {
+    expect(
+      parseIncentiveConditions(
+        '{"minUnits": 2, "requireDemo": "yes", "tiers": [{"minUnits": 10, "amount": 2}, {"minUnits": 5, "amount": 1}, {"amount": 3}]}'
+      )
+    ).toEqual({
+      minUnits: 2,
+      tiers: [
+        { minUnits: 5, amount: 1 },
+        { minUnits: 10, amount: 2 },
+      ],
+    })
+    expect(parseIncentiveConditions(null)).toEqual({})
+    expect(parseIncentiveConditions('oops')).toEqual({})
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Tests for order item stock allocation planning
+ */
+import { describe, it, expect } from '@jest/globals'
+import { planAllocation, planDrawdown } from '@/lib/order-allocation'
+
+describe('Order Allocation', () => {
+  describe('Allocation Planning', () => {
+    it('draws from the largest stock first', () => {
+      const plan = planAllocation(
+        [
+          { locationId: 'small', quantity: 5 },
+          { locationId: 'large', quantity: 20 },
+        ],
+        8
+      )
+
+      expect(plan.lines).toEqual([{ locationId: 'large', quantity: 8 }])
+      expect(plan.shortfall).toBe(0)
+    })
+
+    it('splits across locations when one cannot cover the request', () => {
+      const plan = planAllocation(
+        [
+          { locationId: 'a', quantity: 6 },
+          { locationId: 'b', quantity: 4 },
+          { locationId: 'c', quantity: 0 },
+        ],
+        9
+      )
+
+      expect(plan.lines).toEqual([
+        { locationId: 'a', quantity: 6 },
+        { locationId: 'b', quantity: 3 },
+      ])
+    })
+
+    it('reports a shortfall when total stock is insufficient', () => {
+      const plan = planAllocation([{ locationId: 'a', quantity: 3 }], 5)
+      expect(plan.shortfall).toBe(2)
+    })
+  })
+
+  describe('Drawdown Planning', () => {
+    const allocations = [
+      { id: 'first', quantity: 6 },
+      { id: 'second', quantity: 3 },
+    ]
+
+    it('draws down the most recent allocation first', () => {
+      const picks = planDrawdown(allocations, 4)
+      expect(picks.map((p) => [p.allocation.id, p.quantity])).toEqual([
+        ['second', 3],
+        ['first', 1],
+      ])
+    })
+
+    it('covers every allocation for a full release', () => {
+      const picks = planDrawdown(allocations, 9)
+      expect(picks.reduce((sum, p) => sum + p.quantity, 0)).toBe(9)
+    })
+
+    it('skips exhausted allocations', () => {
+      const picks = planDrawdown([{ id: 'empty', quantity: 0 }, { id: 'full', quantity: 2 }], 2)
+      expect(picks).toEqual([{ allocation: { id: 'full', quantity: 2 }, quantity: 2 }])
+    })
+  })
+})
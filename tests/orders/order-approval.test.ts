@@ -0,0 +1,91 @@
+/**
+ * Tests for order approval rules and who may act on the approval queue
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  canApproveOrder,
+  getApprovalRequirement,
+  getRuleTrigger,
+  type ApprovalRuleInput,
+} from '@/lib/order-approval'
+
+function rule(overrides: Partial<ApprovalRuleInput> = {}): ApprovalRuleInput {
+  return {
+    id: 'rule-1',
+    name: 'Large orders',
+    condition: 'amount_over',
+    threshold: 10000,
+    approverRole: 'dealer_admin',
+    isActive: true,
+    ...overrides,
+  }
+}
+
+describe('getRuleTrigger', () => {
+  it('trips an amount rule only when the total is over the threshold', () => {
+    expect(getRuleTrigger(rule(), { totalAmount: 10000 })).toBeNull()
+    expect(getRuleTrigger(rule(), { totalAmount: 12500 })).toBe(
+      'Large orders: order total $12,500.00 is over $10,000.00'
+    )
+  })
+
+  it('trips a PO rule when the PO number is missing or blank', () => {
+    const poRule = rule({ name: 'PO required', condition: 'missing_po', threshold: null })
+    expect(getRuleTrigger(poRule, { totalAmount: 50, poNumber: 'PO-1' })).toBeNull()
+    expect(getRuleTrigger(poRule, { totalAmount: 50, poNumber: '  ' })).toBe('PO required: no PO number')
+    expect(getRuleTrigger(poRule, { totalAmount: 50 })).toBe('PO required: no PO number')
+  })
+
+  it('ignores inactive rules', () => {
+    expect(getRuleTrigger(rule({ isActive: false }), { totalAmount: 50000 })).toBeNull()
+  })
+})
+
+describe('getApprovalRequirement', () => {
+  const rules = [
+    rule(),
+    rule({ id: 'rule-2', name: 'Very large orders', threshold: 50000, approverRole: 'admin' }),
+    rule({ id: 'rule-3', name: 'PO required', condition: 'missing_po', threshold: null }),
+  ]
+
+  it('does not require approval when no rule trips', () => {
+    expect(getApprovalRequirement(rules, { totalAmount: 500, poNumber: 'PO-1' }, 'dealer_user')).toEqual({
+      required: false,
+      approverRole: null,
+      reasons: [],
+    })
+  })
+
+  it('collects every reason and requires the most senior approver', () => {
+    const result = getApprovalRequirement(rules, { totalAmount: 60000 }, 'dealer_user')
+    expect(result.required).toBe(true)
+    expect(result.approverRole).toBe('admin')
+    expect(result.reasons).toHaveLength(3)
+  })
+
+  it('skips approval when the submitter already holds the approver role', () => {
+    const order = { totalAmount: 20000, poNumber: 'PO-1' }
+    expect(getApprovalRequirement(rules, order, 'dealer_user').required).toBe(true)
+    expect(getApprovalRequirement(rules, order, 'dealer_admin').required).toBe(false)
+    expect(getApprovalRequirement(rules, { totalAmount: 60000 }, 'dealer_admin').approverRole).toBe('admin')
+  })
+})
+
+describe('canApproveOrder', () => {
+  const order = { dealerId: 'dealer-1', approvalRole: 'dealer_admin' }
+
+  it('lets admins approve any dealer order', () => {
+    expect(canApproveOrder({ role: 'admin', dealerId: null }, order)).toBe(true)
+    expect(canApproveOrder({ role: 'super_admin', dealerId: null }, { ...order, approvalRole: 'admin' })).toBe(true)
+  })
+
+  it('limits dealer admins to their own dealer and role', () => {
+    expect(canApproveOrder({ role: 'dealer_admin', dealerId: 'dealer-1' }, order)).toBe(true)
+    expect(canApproveOrder({ role: 'dealer_admin', dealerId: 'dealer-2' }, order)).toBe(false)
+    expect(canApproveOrder({ role: 'dealer_admin', dealerId: 'dealer-1' }, { ...order, approvalRole: 'admin' })).toBe(false)
+  })
+
+  it('never lets dealer users approve', () => {
+    expect(canApproveOrder({ role: 'dealer_user', dealerId: 'dealer-1' }, order)).toBe(false)
+  })
+})
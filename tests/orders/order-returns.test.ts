@@ -0,0 +1,124 @@
+/**
+ * Tests for return authorizations: returnable quantities, credit and invoice application
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getReturnableQuantities,
+  validateReturnLines,
+  calculateReturnCredit,
+  getInvoiceBalance,
+  planCreditApplication,
+} from '@/lib/order-returns'
+
+const items = [
+  { id: 'item-1', sku: 'PART-1', shippedQuantity: 10 },
+  { id: 'item-2', sku: 'PART-2', shippedQuantity: 4 },
+]
+
+describe('Order Returns', () => {
+  describe('Returnable Quantities', () => {
+    it('allows everything that shipped when nothing is on a return', () => {
+      const returnable = getReturnableQuantities(items, [])
+      expect(returnable.get('item-1')).toBe(10)
+      expect(returnable.get('item-2')).toBe(4)
+    })
+
+    it('holds units on open returns and counts only received units once goods arrive', () => {
+      const returnable = getReturnableQuantities(items, [
+        { orderItemId: 'item-1', quantity: 3, receivedQuantity: 0, status: 'requested' },
+        { orderItemId: 'item-1', quantity: 4, receivedQuantity: 2, status: 'credited' },
+        { orderItemId: 'item-2', quantity: 4, receivedQuantity: 0, status: 'rejected' },
+      ])
+      expect(returnable.get('item-1')).toBe(5)
+      expect(returnable.get('item-2')).toBe(4)
+    })
+  })
+
+  describe('Return Line Validation', () => {
+    const returnable = new Map([
+      ['item-1', 5],
+      ['item-2', 0],
+    ])
+
+    it('accepts quantities up to what is returnable', () => {
+      expect(validateReturnLines(items, returnable, [{ orderItemId: 'item-1', quantity: 5 }])).toBeNull()
+    })
+
+    it('rejects returning more than is returnable', () => {
+      expect(validateReturnLines(items, returnable, [{ orderItemId: 'item-1', quantity: 6 }])).toBe(
+        'Only 5 units of PART-1 can be returned'
+      )
+      expect(validateReturnLines(items, returnable, [{ orderItemId: 'item-2', quantity: 1 }])).toBe(
+        'PART-2 has nothing left to return'
+      )
+    })
+
+    it('rejects empty requests, unknown items, repeated lines and bad quantities', () => {
+      expect(validateReturnLines(items, returnable, [])).toBe('Select at least one item to return')
+      expect(validateReturnLines(items, returnable, [{ orderItemId: 'other', quantity: 1 }])).toBe(
+        'Item not found on this order'
+      )
+      expect(
+        validateReturnLines(items, returnable, [
+          { orderItemId: 'item-1', quantity: 1 },
+          { orderItemId: 'item-1', quantity: 1 },
+        ])
+      ).toBe('PART-1 is listed more than once')
+      expect(validateReturnLines(items, returnable, [{ orderItemId: 'item-1', quantity: 0 }])).toBe(
+        'Invalid quantity for PART-1'
+      )
+    })
+  })
+
+  describe('Return Credit', () => {
+    it('deducts the restocking fee from the value received', () => {
+      expect(
+        calculateReturnCredit(
+          [
+            { unitPrice: 49.99, receivedQuantity: 3 },
+            { unitPrice: 20, receivedQuantity: 0 },
+          ],
+          15
+        )
+      ).toEqual({ returnValue: 149.97, restockingFee: 22.5, creditAmount: 127.47 })
+    })
+
+    it('credits the full value when there is no fee', () => {
+      expect(calculateReturnCredit([{ unitPrice: 10, receivedQuantity: 2 }], 0)).toEqual({
+        returnValue: 20,
+        restockingFee: 0,
+        creditAmount: 20,
+      })
+    })
+  })
+
+  describe('Credit Application', () => {
+    it('reduces the invoice balance by credits applied', () => {
+      expect(getInvoiceBalance({ totalAmount: 100, creditedAmount: 30 })).toBe(70)
+      expect(getInvoiceBalance({ totalAmount: 100, creditedAmount: 120 })).toBe(0)
+    })
+
+    it('applies credit to open invoices in order and skips paid and cancelled ones', () => {
+      const invoices = [
+        { id: 'inv-paid', status: 'paid', totalAmount: 500, creditedAmount: 0 },
+        { id: 'inv-1', status: 'sent', totalAmount: 100, creditedAmount: 40 },
+        { id: 'inv-void', status: 'cancelled', totalAmount: 500, creditedAmount: 0 },
+        { id: 'inv-2', status: 'overdue', totalAmount: 200, creditedAmount: 0 },
+      ]
+      expect(planCreditApplication(invoices, 150)).toEqual([
+        { invoiceId: 'inv-1', amount: 60 },
+        { invoiceId: 'inv-2', amount: 90 },
+      ])
+    })
+
+    it('leaves credit beyond the open balances on account', () => {
+      expect(
+        planCreditApplication([{ id: 'inv-1', status: 'sent', totalAmount: 50, creditedAmount: 0 }], 80)
+      ).toEqual([
+        { invoiceId: 'inv-1', amount: 50 },
+        { invoiceId: null, amount: 30 },
+      ])
+      expect(planCreditApplication([], 0)).toEqual([])
+    })
+  })
+})
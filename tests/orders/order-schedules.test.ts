@@ -0,0 +1,175 @@
+/**
+ * Tests for recurring order schedules: cron cadence and run planning
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildScheduleCron,
+  describeSchedule,
+  getAvailableByProduct,
+  getNextCronRun,
+  isValidCron,
+  parseCron,
+  planScheduledRun,
+  repriceRunPlan,
+  summarizeRunPlan,
+  type ScheduledLine,
+} from '@/lib/order-schedules'
+
+describe('parseCron', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 6 1,15 * 1-5')
+    expect(schedule.minutes).toEqual([0, 15, 30, 45])
+    expect(schedule.hours).toEqual([6])
+    expect(schedule.daysOfMonth).toEqual([1, 15])
+    expect(schedule.months).toHaveLength(12)
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('treats 7 as Sunday', () => {
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual([0])
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCron('0 6 * *')).toBe(false)
+    expect(isValidCron('60 6 * * *')).toBe(false)
+    expect(isValidCron('0 6 5-1 * *')).toBe(false)
+    expect(isValidCron('0 6 * * mon')).toBe(false)
+    expect(isValidCron('0 6 * * 1')).toBe(true)
+  })
+})
+
+describe('getNextCronRun', () => {
+  // Wednesday
+  const after = new Date('2026-07-15T10:30:00Z')
+
+  it('finds the next weekly run', () => {
+    expect(getNextCronRun('0 6 * * 1', after)?.toISOString()).toBe('2026-07-20T06:00:00.000Z')
+  })
+
+  it('runs later the same day when the time has not passed', () => {
+    expect(getNextCronRun('0 12 * * *', after)?.toISOString()).toBe('2026-07-15T12:00:00.000Z')
+  })
+
+  it('is strictly after the given time', () => {
+    const onTheDot = new Date('2026-07-20T06:00:00Z')
+    expect(getNextCronRun('0 6 * * 1', onTheDot)?.toISOString()).toBe('2026-07-27T06:00:00.000Z')
+  })
+
+  it('rolls monthly runs into the next month and year', () => {
+    expect(getNextCronRun('0 6 1 * *', new Date('2026-12-20T00:00:00Z'))?.toISOString()).toBe(
+      '2027-01-01T06:00:00.000Z'
+    )
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 20th or any Friday, whichever comes first
+    expect(getNextCronRun('0 6 20 * 5', after)?.toISOString()).toBe('2026-07-17T06:00:00.000Z')
+  })
+
+  it('returns null for dates that never occur', () => {
+    expect(getNextCronRun('0 0 31 2 *', after)).toBeNull()
+  })
+})
+
+describe('buildScheduleCron', () => {
+  it('builds weekly and monthly expressions at the default hour', () => {
+    expect(buildScheduleCron({ frequency: 'weekly', dayOfWeek: 4 })).toBe('0 6 * * 4')
+    expect(buildScheduleCron({ frequency: 'monthly', dayOfMonth: 15 })).toBe('0 6 15 * *')
+  })
+
+  it('requires a valid expression for custom schedules', () => {
+    expect(buildScheduleCron({ frequency: 'custom', cronExpression: ' 30 5 * * 1,4 ' })).toBe('30 5 * * 1,4')
+    expect(() => buildScheduleCron({ frequency: 'custom', cronExpression: 'weekly' })).toThrow()
+  })
+
+  it('describes schedules for display', () => {
+    expect(describeSchedule({ frequency: 'weekly', dayOfWeek: 1, cronExpression: '0 6 * * 1' })).toBe('Every Monday')
+    expect(describeSchedule({ frequency: 'monthly', dayOfMonth: 22, cronExpression: '0 6 22 * *' })).toBe(
+      'Monthly on the 22nd'
+    )
+  })
+})
+
+describe('planScheduledRun', () => {
+  const lines: ScheduledLine[] = [
+    { productId: 'p1', productName: 'Filter', quantity: 10, unitPrice: 5 },
+    { productId: 'p2', productName: 'Hose', quantity: 4, unitPrice: 20 },
+    { productId: 'p3', productName: 'Lamp', quantity: 2, unitPrice: 15 },
+    { productId: 'p4', productName: 'Seal', quantity: 6, unitPrice: 3 },
+  ]
+
+  it('orders everything when there are no issues', () => {
+    const plan = planScheduledRun(lines, [], {}, {})
+    expect(plan.items).toHaveLength(4)
+    expect(plan.skipped).toHaveLength(0)
+    expect(summarizeRunPlan(plan)).toBeNull()
+  })
+
+  it('skips, shortens and reprices lines from the validation issues', () => {
+    const plan = planScheduledRun(
+      lines,
+      [
+        { productId: 'p2', issue: 'Product is out of stock', type: 'out_of_stock' },
+        { productId: 'p1', issue: 'Only 6 available (requested 10)', type: 'insufficient_stock' },
+        { productId: 'p3', issue: 'Price has changed', type: 'price_changed' },
+        { productId: 'p4', issue: 'Only 2 available (requested 6)', type: 'insufficient_stock' },
+      ],
+      { p1: 6, p4: 0 },
+      { p1: 5, p3: 17.5 }
+    )
+
+    expect(plan.items).toEqual([
+      { productId: 'p1', quantity: 6, unitPrice: 5 },
+      { productId: 'p3', quantity: 2, unitPrice: 17.5 },
+    ])
+    expect(plan.skipped.map((line) => line.productId)).toEqual(['p2', 'p4'])
+    expect(plan.shortened).toEqual([{ productId: 'p1', productName: 'Filter', requested: 10, ordered: 6 }])
+    expect(summarizeRunPlan(plan)).toBe(
+      'Hose skipped (Product is out of stock); Seal skipped (No stock available); Filter short: 6 of 10; Lamp repriced $15.00 to $17.50'
+    )
+  })
+
+  it('reprices a shortened line that drops below its quantity break', () => {
+    // 10 filters earned the $4 break price; the 6 in stock pay the $5 base price
+    const breakLines: ScheduledLine[] = [
+      { productId: 'p1', productName: 'Filter', quantity: 10, unitPrice: 4 },
+      { productId: 'p2', productName: 'Hose', quantity: 4, unitPrice: 20 },
+    ]
+    const planned = planScheduledRun(
+      breakLines,
+      [{ productId: 'p1', issue: 'Only 6 available (requested 10)', type: 'insufficient_stock' }],
+      { p1: 6 },
+      { p1: 4 }
+    )
+    expect(planned.items[0]).toEqual({ productId: 'p1', quantity: 6, unitPrice: 4 })
+
+    const plan = repriceRunPlan(planned, breakLines, { p1: 5, p2: 20 })
+    expect(plan.items).toEqual([
+      { productId: 'p1', quantity: 6, unitPrice: 5 },
+      { productId: 'p2', quantity: 4, unitPrice: 20 },
+    ])
+    expect(plan.repriced).toEqual([{ productId: 'p1', productName: 'Filter', from: 4, to: 5 }])
+  })
+
+  it('counts stock held by other orders as already taken out of on-hand', () => {
+    // Reserving moves units out of quantity, so quantity is what is left to sell
+    const available = getAvailableByProduct([
+      { productId: 'p1', quantity: 4 },
+      { productId: 'p1', quantity: 2 },
+      { productId: 'p4', quantity: 0 },
+    ])
+    expect(available).toEqual({ p1: 6, p4: 0 })
+
+    const plan = planScheduledRun(
+      lines,
+      [
+        { productId: 'p1', issue: 'Only 6 available (requested 10)', type: 'insufficient_stock' },
+        { productId: 'p4', issue: 'Only 0 available (requested 6)', type: 'insufficient_stock' },
+      ],
+      available,
+      {}
+    )
+    expect(plan.shortened).toEqual([{ productId: 'p1', productName: 'Filter', requested: 10, ordered: 6 }])
+    expect(plan.skipped.map((line) => line.productId)).toEqual(['p4'])
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Tests for partial shipments, backorders and per-shipment invoice charges
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getLineFulfillment,
+  validateShipmentLines,
+  getShipmentOrderStatus,
+  splitShipmentCharges,
+  prorateTaxQuote,
+} from '@/lib/order-shipments'
+import type { TaxQuote } from '@/lib/tax'
+
+const items = [
+  { id: 'item-1', sku: 'PART-1', quantity: 10, shippedQuantity: 4 },
+  { id: 'item-2', sku: 'PART-2', quantity: 5, shippedQuantity: 0 },
+]
+
+describe('Order Shipments', () => {
+  describe('Line Fulfillment', () => {
+    it('splits outstanding quantity into reserved and backordered units', () => {
+      expect(getLineFulfillment({ quantity: 10, shippedQuantity: 4, allocatedQuantity: 2 })).toEqual({
+        outstanding: 6,
+        allocated: 2,
+        backordered: 4,
+      })
+    })
+
+    it('has nothing backordered once the line has shipped', () => {
+      expect(getLineFulfillment({ quantity: 10, shippedQuantity: 10, allocatedQuantity: 0 })).toEqual({
+        outstanding: 0,
+        allocated: 0,
+        backordered: 0,
+      })
+    })
+  })
+
+  describe('Shipment Line Validation', () => {
+    it('accepts quantities up to what is left to ship', () => {
+      expect(
+        validateShipmentLines(items, [
+          { orderItemId: 'item-1', quantity: 6 },
+          { orderItemId: 'item-2', quantity: 0 },
+        ])
+      ).toBeNull()
+    })
+
+    it('rejects shipping more than is left on a line', () => {
+      expect(validateShipmentLines(items, [{ orderItemId: 'item-1', quantity: 7 }])).toBe(
+        'Only 6 units of PART-1 are left to ship'
+      )
+    })
+
+    it('rejects empty shipments, unknown items and repeated lines', () => {
+      expect(validateShipmentLines(items, [{ orderItemId: 'item-1', quantity: 0 }])).toBe(
+        'Select at least one item to ship'
+      )
+      expect(validateShipmentLines(items, [{ orderItemId: 'other', quantity: 1 }])).toBe(
+        'Item not found on this order'
+      )
+      expect(
+        validateShipmentLines(items, [
+          { orderItemId: 'item-2', quantity: 1 },
+          { orderItemId: 'item-2', quantity: 1 },
+        ])
+      ).toBe('PART-2 is listed more than once')
+    })
+
+    it('rejects negative and fractional quantities', () => {
+      expect(validateShipmentLines(items, [{ orderItemId: 'item-2', quantity: -1 }])).toBe(
+        'Invalid quantity for PART-2'
+      )
+      expect(validateShipmentLines(items, [{ orderItemId: 'item-2', quantity: 1.5 }])).toBe(
+        'Invalid quantity for PART-2'
+      )
+    })
+  })
+
+  describe('Order Status', () => {
+    it('stays partially shipped until every line ships in full', () => {
+      expect(getShipmentOrderStatus(items)).toBe('partially_shipped')
+      expect(
+        getShipmentOrderStatus([
+          { quantity: 10, shippedQuantity: 10 },
+          { quantity: 5, shippedQuantity: 5 },
+        ])
+      ).toBe('shipped')
+    })
+  })
+
+  describe('Shipment Invoice Charges', () => {
+    const order = { subtotal: 1000, taxAmount: 70, shippingAmount: 25 }
+    const nothingBilled = { subtotal: 0, taxAmount: 0, shippingAmount: 0 }
+
+    it('prorates tax and bills shipping on the first shipment', () => {
+      expect(splitShipmentCharges({ order, shipmentSubtotal: 333.33, billed: nothingBilled })).toEqual({
+        subtotal: 333.33,
+        taxAmount: 23.33,
+        shippingAmount: 25,
+        totalAmount: 381.66,
+      })
+    })
+
+    it('gives the final shipment the remainder so invoices add up to the order', () => {
+      const first = splitShipmentCharges({ order, shipmentSubtotal: 333.33, billed: nothingBilled })
+      const second = splitShipmentCharges({ order, shipmentSubtotal: 333.33, billed: first })
+      const billed = {
+        subtotal: first.subtotal + second.subtotal,
+        taxAmount: first.taxAmount + second.taxAmount,
+        shippingAmount: first.shippingAmount + second.shippingAmount,
+      }
+      const last = splitShipmentCharges({ order, shipmentSubtotal: 333.34, billed })
+
+      expect(second.shippingAmount).toBe(0)
+      expect(last.taxAmount).toBe(23.34)
+      expect(first.totalAmount + second.totalAmount + last.totalAmount).toBeCloseTo(1095, 2)
+    })
+
+    it('bills a single full shipment at the order totals', () => {
+      expect(splitShipmentCharges({ order, shipmentSubtotal: 1000, billed: nothingBilled })).toEqual({
+        subtotal: 1000,
+        taxAmount: 70,
+        shippingAmount: 25,
+        totalAmount: 1095,
+      })
+    })
+  })
+
+  describe('Tax Breakdown Proration', () => {
+    it('scales each jurisdiction line to the invoiced tax', () => {
+      const quote: TaxQuote = {
+        provider: 'rate-table',
+        rateTableVersion: null,
+        state: 'IN',
+        zipCode: '46514',
+        lines: [
+          { jurisdiction: 'Indiana', type: 'state', rate: 0.07, taxableAmount: 1000, taxAmount: 70 },
+        ],
+        exemption: null,
+        totalRate: 0.07,
+        taxAmount: 70,
+      }
+
+      const prorated = prorateTaxQuote(quote, 35)
+      expect(prorated.taxAmount).toBe(35)
+      expect(prorated.lines[0].taxableAmount).toBe(500)
+      expect(prorated.lines[0].taxAmount).toBe(35)
+    })
+  })
+})
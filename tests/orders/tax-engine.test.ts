@@ -0,0 +1,156 @@
+/**
+ * Tests for the destination-based tax engine
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateOrderTotals,
+  calculateShipping,
+  calculateTax,
+  createRateTableProvider,
+  formatTaxRate,
+  parseTaxBreakdown,
+  type TaxRateTable,
+} from '@/lib/tax'
+
+const table: TaxRateTable = {
+  version: 'test',
+  states: {
+    IN: { name: 'Indiana', rate: 0.07, taxShipping: true },
+    OR: { name: 'Oregon', rate: 0 },
+    CA: {
+      name: 'California',
+      rate: 0.0725,
+      local: [
+        { name: 'Los Angeles County', type: 'county', rate: 0.0225, zipPrefixes: ['900', '901'] },
+      ],
+    },
+  },
+}
+
+const provider = createRateTableProvider(table)
+
+describe('Tax Engine', () => {
+  describe('Rate Table Provider', () => {
+    it('resolves the state rate for a destination', () => {
+      const rates = provider.getRates({ state: 'in', zipCode: '46201' })
+      expect(rates).toEqual([
+        { jurisdiction: 'Indiana', type: 'state', rate: 0.07, taxShipping: true },
+      ])
+    })
+
+    it('adds local jurisdictions matched by ZIP prefix', () => {
+      const rates = provider.getRates({ state: 'CA', zipCode: '90012-1234' })
+      expect(rates.map((r) => r.jurisdiction)).toEqual(['California', 'Los Angeles County'])
+    })
+
+    it('skips local jurisdictions outside the ZIP prefixes', () => {
+      const rates = provider.getRates({ state: 'CA', zipCode: '94105' })
+      expect(rates).toHaveLength(1)
+    })
+
+    it('returns no rates for zero-rate or unknown states', () => {
+      expect(provider.getRates({ state: 'OR', zipCode: '97201' })).toEqual([])
+      expect(provider.getRates({ state: 'ZZ', zipCode: '00000' })).toEqual([])
+    })
+  })
+
+  describe('Tax Calculation', () => {
+    it('produces a per-jurisdiction breakdown', () => {
+      const quote = calculateTax({
+        provider,
+        address: { state: 'CA', zipCode: '90012' },
+        subtotal: 1000,
+        shippingAmount: 0,
+      })
+
+      expect(quote.lines).toEqual([
+        { jurisdiction: 'California', type: 'state', rate: 0.0725, taxableAmount: 1000, taxAmount: 72.5 },
+        { jurisdiction: 'Los Angeles County', type: 'county', rate: 0.0225, taxableAmount: 1000, taxAmount: 22.5 },
+      ])
+      expect(quote.taxAmount).toBe(95)
+      expect(quote.totalRate).toBe(0.095)
+      expect(quote.rateTableVersion).toBe('test')
+    })
+
+    it('taxes shipping only where the state requires it', () => {
+      const indiana = calculateTax({
+        provider,
+        address: { state: 'IN', zipCode: '46201' },
+        subtotal: 100,
+        shippingAmount: 25,
+      })
+      const california = calculateTax({
+        provider,
+        address: { state: 'CA', zipCode: '94105' },
+        subtotal: 100,
+        shippingAmount: 25,
+      })
+
+      expect(indiana.taxAmount).toBe(8.75)
+      expect(california.taxAmount).toBe(7.25)
+    })
+
+    it('zeroes tax when an exemption certificate applies', () => {
+      const quote = calculateTax({
+        provider,
+        address: { state: 'IN', zipCode: '46201' },
+        subtotal: 1000,
+        shippingAmount: 0,
+        exemption: { certificateId: 'cert-1', certificateNumber: 'RS-123', type: 'resale' },
+      })
+
+      expect(quote.taxAmount).toBe(0)
+      expect(quote.lines[0].taxableAmount).toBe(0)
+      expect(quote.exemption?.certificateNumber).toBe('RS-123')
+    })
+
+    it('returns no tax without an address', () => {
+      const quote = calculateTax({ provider, address: null, subtotal: 500, shippingAmount: 25 })
+      expect(quote.taxAmount).toBe(0)
+      expect(quote.state).toBeNull()
+    })
+  })
+
+  describe('Order Totals', () => {
+    it('applies free shipping over $500', () => {
+      expect(calculateShipping(600)).toBe(0)
+      expect(calculateShipping(400)).toBe(25)
+    })
+
+    it('combines subtotal, destination tax and shipping', () => {
+      const totals = calculateOrderTotals({
+        items: [
+          { quantity: 2, unitPrice: 100 },
+          { quantity: 3, unitPrice: 50 },
+        ],
+        provider,
+        address: { state: 'IN', zipCode: '46201' },
+      })
+
+      expect(totals.subtotal).toBe(350)
+      expect(totals.shippingAmount).toBe(25)
+      expect(totals.taxAmount).toBe(26.25)
+      expect(totals.totalAmount).toBe(401.25)
+    })
+  })
+
+  describe('Formatting', () => {
+    it('round-trips a stored breakdown', () => {
+      const quote = calculateTax({
+        provider,
+        address: { state: 'IN', zipCode: '46201' },
+        subtotal: 100,
+        shippingAmount: 0,
+      })
+      expect(parseTaxBreakdown(JSON.stringify(quote))).toEqual(quote)
+      expect(parseTaxBreakdown('not json')).toBeNull()
+      expect(parseTaxBreakdown(null)).toBeNull()
+    })
+
+    it('formats rates as percentages', () => {
+      expect(formatTaxRate(0.07)).toBe('7%')
+      expect(formatTaxRate(0.0725)).toBe('7.25%')
+      expect(formatTaxRate(0.06875)).toBe('6.875%')
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Tests for trade-in inspection totals, suggested ACV and lien payoff checks
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  checkLienPayoff,
+  checkTradeInUnitVin,
+  getInspectionChecklist,
+  parseInspection,
+  suggestActualCashValue,
+  summarizeInspection,
+  type InspectionResult,
+} from '@/lib/trade-in-appraisal'
+
+function rateAll(vehicleType: string, overrides: Record<string, Partial<InspectionResult>> = {}): InspectionResult[] {
+  return getInspectionChecklist(vehicleType)
+    .flatMap((section) => section.items)
+    .map((item) => ({ code: item.code, rating: 'good' as const, reconCost: 0, ...overrides[item.code] }))
+}
+
+describe('summarizeInspection', () => {
+  it('lists unrated items until the checklist is complete', () => {
+    const partial = rateAll('boat').slice(1)
+    const summary = summarizeInspection('boat', partial)
+    expect(summary.complete).toBe(false)
+    expect(summary.missing).toEqual(['hull'])
+
+    expect(summarizeInspection('boat', rateAll('boat')).complete).toBe(true)
+  })
+
+  it('only counts reconditioning on items needing work', () => {
+    const results = rateAll('auto', {
+      brakes: { rating: 'repair', reconCost: 450 },
+      tires: { rating: 'replace', reconCost: 900.5 },
+      glass: { rating: 'good', reconCost: 200 },
+    })
+    const summary = summarizeInspection('auto', results)
+    expect(summary.reconditioningCost).toBe(1350.5)
+    expect(summary.repairCount).toBe(2)
+  })
+
+  it('grades condition by the share of items needing work', () => {
+    expect(summarizeInspection('motorcycle', rateAll('motorcycle')).condition).toBe('excellent')
+    expect(
+      summarizeInspection('rv', rateAll('rv', { awning: { rating: 'repair', reconCost: 300 } })).condition
+    ).toBe('good')
+    expect(
+      summarizeInspection('rv', rateAll('rv', { awning: { rating: 'replace', reconCost: 1200 } })).condition
+    ).toBe('fair')
+    expect(
+      summarizeInspection(
+        'motorcycle',
+        rateAll('motorcycle', {
+          engine: { rating: 'repair', reconCost: 800 },
+          drive: { rating: 'replace', reconCost: 300 },
+          brakes: { rating: 'repair', reconCost: 200 },
+        })
+      ).condition
+    ).toBe('poor')
+  })
+})
+
+describe('suggestActualCashValue', () => {
+  it('takes reconditioning off the market value without going negative', () => {
+    expect(suggestActualCashValue(42000, 3150.25)).toBe(38849.75)
+    expect(suggestActualCashValue(1000, 2500)).toBe(0)
+  })
+})
+
+describe('parseInspection', () => {
+  it('drops malformed entries and bad JSON', () => {
+    const json = JSON.stringify([
+      { code: 'roof', rating: 'repair', reconCost: 500 },
+      { code: 'awning', rating: 'broken', reconCost: 0 },
+      { rating: 'good', reconCost: 0 },
+    ])
+    expect(parseInspection(json)).toEqual([{ code: 'roof', rating: 'repair', reconCost: 500 }])
+    expect(parseInspection('not json')).toEqual([])
+    expect(parseInspection(null)).toEqual([])
+  })
+})
+
+describe('checkLienPayoff', () => {
+  const asOf = new Date('2026-03-01T12:00:00Z')
+  const lien = {
+    hasLien: true,
+    lienHolder: 'Good Sam Finance',
+    lienPayoff: 18500,
+    lienPayoffGoodThrough: new Date('2026-03-31T12:00:00Z'),
+    lienVerifiedAt: new Date('2026-02-27T12:00:00Z'),
+  }
+
+  it('passes a verified lien with a current payoff quote', () => {
+    expect(checkLienPayoff(lien, asOf)).toEqual([])
+    expect(checkLienPayoff({ ...lien, hasLien: false, lienHolder: null }, asOf)).toEqual([])
+  })
+
+  it('warns when the quote is about to expire or unverified', () => {
+    const warnings = checkLienPayoff(
+      { ...lien, lienPayoffGoodThrough: new Date('2026-03-04T12:00:00Z'), lienVerifiedAt: null },
+      asOf
+    )
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Payoff quote expires in 3 days',
+      'Payoff not yet verified with the lienholder',
+    ])
+    expect(warnings.every((warning) => warning.level === 'warning')).toBe(true)
+  })
+
+  it('errors on expired quotes and missing payoff details', () => {
+    expect(checkLienPayoff({ ...lien, lienPayoffGoodThrough: new Date('2026-02-20T12:00:00Z') }, asOf)).toEqual([
+      { level: 'error', message: 'Payoff quote has expired; request a new one' },
+    ])
+    expect(
+      checkLienPayoff({ ...lien, lienPayoff: null, lienPayoffGoodThrough: null }, asOf).map((warning) => warning.level)
+    ).toEqual(['error', 'error'])
+  })
+})
+
+describe('checkTradeInUnitVin', () => {
+  it('takes back a unit that was sold or delivered', () => {
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', null)).toBeNull()
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', { status: 'sold' })).toBeNull()
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', { status: 'delivered' })).toBeNull()
+  })
+
+  it('refuses a VIN that matches a unit still in a dealer inventory', () => {
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', { status: 'in_stock' })).toBe(
+      'VIN 1TC2B9700R3001234 belongs to a unit that is currently in stock; check the trade-in VIN'
+    )
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', { status: 'in_transit' })).not.toBeNull()
+    expect(checkTradeInUnitVin('1TC2B9700R3001234', { status: 'reserved' })).not.toBeNull()
+  })
+})
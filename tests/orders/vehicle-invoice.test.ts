@@ -0,0 +1,58 @@
+/**
+ * Tests for vehicle invoice numbering, totals and payments
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  applyVehicleInvoicePayment,
+  calculateVehicleInvoiceTotals,
+  nextVehicleInvoiceNumber,
+} from '@/lib/vehicle-invoice'
+
+describe('nextVehicleInvoiceNumber', () => {
+  it('starts each year at 00001', () => {
+    expect(nextVehicleInvoiceNumber(2026, null)).toBe('VI-2026-00001')
+    expect(nextVehicleInvoiceNumber(2026, 'VI-2025-00417')).toBe('VI-2026-00001')
+  })
+
+  it('continues from the last number issued', () => {
+    expect(nextVehicleInvoiceNumber(2026, 'VI-2026-00041')).toBe('VI-2026-00042')
+  })
+})
+
+describe('calculateVehicleInvoiceTotals', () => {
+  it('nets trade equity, rebates and the deposit', () => {
+    expect(
+      calculateVehicleInvoiceTotals({
+        unitPrice: 100000,
+        optionsTotal: 5000,
+        freightCharge: 2500,
+        prepCharge: 1000,
+        docFee: 500,
+        additionalCharges: [{ amount: 150 }],
+        tradeAllowance: 30000,
+        tradePayoff: 12000,
+        rebatesApplied: 3000,
+        taxAmount: 6480,
+        depositApplied: 5000,
+      })
+    ).toEqual({ subtotal: 109150, totalAmount: 94630, balanceDue: 89630 })
+  })
+})
+
+describe('applyVehicleInvoicePayment', () => {
+  const invoice = { status: 'sent', amountPaid: 0, balanceDue: 89630 }
+
+  it('reduces the balance and marks the invoice paid at zero', () => {
+    const partial = applyVehicleInvoicePayment(invoice, 9630)
+    expect(partial).toEqual({ amountPaid: 9630, balanceDue: 80000, paidInFull: false })
+
+    const rest = applyVehicleInvoicePayment({ ...invoice, ...partial }, 80000)
+    expect(rest).toEqual({ amountPaid: 89630, balanceDue: 0, paidInFull: true })
+  })
+
+  it('rejects overpayments, empty payments and closed invoices', () => {
+    expect(() => applyVehicleInvoicePayment(invoice, 90000)).toThrow('Payment exceeds the balance due')
+    expect(() => applyVehicleInvoicePayment(invoice, 0)).toThrow('greater than 0')
+    expect(() => applyVehicleInvoicePayment({ ...invoice, status: 'paid' }, 100)).toThrow('already paid')
+  })
+})
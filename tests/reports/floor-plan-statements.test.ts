@@ -0,0 +1,166 @@
+/**
+ * Tests for lender floor-plan statement parsing and reconciliation
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  mapStatementRows,
+  parseAmount,
+  parseCsv,
+  parseRate,
+  reconcileStatement,
+  type ReconcileUnit,
+  type StatementLine,
+} from '@/lib/floor-plan-statements'
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and a BOM', () => {
+    const rows = parseCsv('\uFEFFVIN,Payoff,Note\r\n1ABC,"$12,500.00","said ""hi"""\r\n\r\n2DEF,100,\n')
+    expect(rows).toEqual([
+      ['VIN', 'Payoff', 'Note'],
+      ['1ABC', '$12,500.00', 'said "hi"'],
+      ['2DEF', '100', ''],
+    ])
+  })
+
+  it('keeps a final row without a trailing newline', () => {
+    expect(parseCsv('a,b\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('amount and rate parsing', () => {
+  it('reads currency formats', () => {
+    expect(parseAmount('$12,345.67')).toBe(12345.67)
+    expect(parseAmount('(50.00)')).toBe(-50)
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('n/a')).toBeNull()
+  })
+
+  it('reads rates as percent or fraction', () => {
+    expect(parseRate('6.5')).toBe(6.5)
+    expect(parseRate('6.5%')).toBe(6.5)
+    expect(parseRate('0.065')).toBe(6.5)
+    expect(parseRate('0.5%')).toBe(0.5)
+  })
+})
+
+describe('mapStatementRows', () => {
+  const mapping = {
+    vinColumn: 'Serial Number',
+    floorPlanNumberColumn: 'Loan #',
+    payoffColumn: 'Payoff',
+    rateColumn: 'APR',
+  }
+
+  it('maps columns by header name regardless of case and order', () => {
+    const { lines, errors } = mapStatementRows(
+      [
+        ['apr', 'PAYOFF', 'loan #', 'serial number'],
+        ['7.25%', '$40,000.00', 'fp-100', ' 1abc 123 '],
+        ['7.25', '12000', '', '2DEF456'],
+      ],
+      mapping
+    )
+
+    expect(errors).toEqual([])
+    expect(lines).toEqual([
+      { rowNumber: 2, vin: '1ABC123', floorPlanNumber: 'FP-100', payoff: 40000, interestRate: 7.25 },
+      { rowNumber: 3, vin: '2DEF456', floorPlanNumber: null, payoff: 12000, interestRate: 7.25 },
+    ])
+  })
+
+  it('skips rows without an identifier or payoff', () => {
+    const { lines, errors } = mapStatementRows(
+      [
+        ['Serial Number', 'Loan #', 'Payoff', 'APR'],
+        ['', '', '100', '7'],
+        ['1ABC', '', 'TBD', '7'],
+        ['2DEF', '', '500', '7'],
+      ],
+      mapping
+    )
+
+    expect(lines.map((l) => l.vin)).toEqual(['2DEF'])
+    expect(errors).toEqual(['Row 2: no VIN or floor-plan number', 'Row 3: payoff "TBD" is not a number'])
+  })
+
+  it('rejects files missing the mapped columns', () => {
+    const { lines, errors } = mapStatementRows([['Stock', 'Amount']], mapping)
+    expect(lines).toEqual([])
+    expect(errors).toContain('Payoff column "Payoff" not found')
+    expect(errors).toContain('Neither the VIN nor the floor-plan number column was found')
+  })
+})
+
+describe('reconcileStatement', () => {
+  const unit = (overrides: Partial<ReconcileUnit>): ReconcileUnit => ({
+    id: 'u1',
+    vin: '1ABC',
+    status: 'in_stock',
+    floorPlanLender: 'Northpoint',
+    floorPlanNumber: null,
+    floorPlanPayoff: 40000,
+    floorPlanInterestRate: 7,
+    ...overrides,
+  })
+
+  const line = (overrides: Partial<StatementLine>): StatementLine => ({
+    rowNumber: 2,
+    vin: '1ABC',
+    floorPlanNumber: null,
+    payoff: 40000,
+    interestRate: 7,
+    ...overrides,
+  })
+
+  it('matches by VIN and reports nothing when figures agree', () => {
+    const result = reconcileStatement('Northpoint', [line({ payoff: 40000.5 })], [unit({})])
+    expect(result.matches).toEqual([{ rowNumber: 2, rvUnitId: 'u1' }])
+    expect(result.discrepancies).toEqual([])
+  })
+
+  it('falls back to the floor-plan number when the VIN is unknown', () => {
+    const result = reconcileStatement(
+      'Northpoint',
+      [line({ vin: 'TYPO', floorPlanNumber: 'FP-9' })],
+      [unit({ floorPlanNumber: 'fp-9' })]
+    )
+    expect(result.matches).toEqual([{ rowNumber: 2, rvUnitId: 'u1' }])
+  })
+
+  it('flags payoff and rate mismatches on the same line', () => {
+    const result = reconcileStatement('Northpoint', [line({ payoff: 38000, interestRate: 7.5 })], [unit({})])
+    expect(result.discrepancies).toEqual([
+      { type: 'payoff_mismatch', rowNumber: 2, rvUnitId: 'u1', ourValue: 40000, lenderValue: 38000 },
+      { type: 'rate_mismatch', rowNumber: 2, rvUnitId: 'u1', ourValue: 7, lenderValue: 7.5 },
+    ])
+  })
+
+  it('flags sold units still on the statement and lines we cannot match', () => {
+    const result = reconcileStatement(
+      'Northpoint',
+      [line({}), line({ rowNumber: 3, vin: '9ZZZ', payoff: 5000 })],
+      [unit({ status: 'sold', floorPlanPayoff: 0 })]
+    )
+    expect(result.discrepancies.map((d) => d.type)).toEqual(['sold_on_statement', 'unknown_unit'])
+    expect(result.discrepancies[1].lenderValue).toBe(5000)
+  })
+
+  it('flags units floored with this lender that are missing from the statement', () => {
+    const result = reconcileStatement(
+      'northpoint',
+      [line({})],
+      [
+        unit({}),
+        unit({ id: 'u2', vin: '2DEF' }),
+        unit({ id: 'u3', vin: '3GHI', floorPlanLender: 'Other Bank' }),
+        unit({ id: 'u4', vin: '4JKL', floorPlanPayoff: 0 }),
+      ]
+    )
+    expect(result.discrepancies).toEqual([
+      { type: 'missing_from_statement', rowNumber: null, rvUnitId: 'u2', ourValue: 40000, lenderValue: null },
+    ])
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Tests for floor-plan curtailment schedules and interest accrual
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildCurtailmentSchedule,
+  describeCurtailmentRules,
+  getAccrualDays,
+  getDailyInterest,
+  getNextCurtailment,
+  getOutstandingCurtailments,
+  getWeekStart,
+  groupCurtailmentsByWeek,
+  parseCurtailmentRules,
+} from '@/lib/floor-plan'
+
+const funded = new Date('2026-01-01T00:00:00Z')
+
+describe('parseCurtailmentRules', () => {
+  it('reads valid rules and drops malformed ones', () => {
+    const rules = parseCurtailmentRules(
+      JSON.stringify([
+        { day: 90, percent: 10, repeatEveryDays: 30 },
+        { day: 0, percent: 10 },
+        { day: 360, percent: 100 },
+        { day: 30, percent: 'ten' },
+      ])
+    )
+    expect(rules).toEqual([
+      { day: 90, percent: 10, repeatEveryDays: 30 },
+      { day: 360, percent: 100, repeatEveryDays: null },
+    ])
+    expect(parseCurtailmentRules('not json')).toEqual([])
+    expect(parseCurtailmentRules(null)).toEqual([])
+  })
+
+  it('describes rules for display', () => {
+    expect(describeCurtailmentRules([{ day: 90, percent: 10, repeatEveryDays: 30 }])).toBe(
+      '10% at day 90, then every 30 days'
+    )
+    expect(describeCurtailmentRules([])).toBe('No curtailments')
+  })
+})
+
+describe('buildCurtailmentSchedule', () => {
+  it('repeats a rule until the principal is fully curtailed', () => {
+    const schedule = buildCurtailmentSchedule(50000, funded, [{ day: 90, percent: 10, repeatEveryDays: 30 }])
+    expect(schedule).toHaveLength(10)
+    expect(schedule[0]).toEqual({
+      day: 90,
+      dueDate: new Date('2026-04-01T00:00:00Z'),
+      amount: 5000,
+      cumulativeAmount: 5000,
+    })
+    expect(schedule[1].day).toBe(120)
+    expect(schedule[9].cumulativeAmount).toBe(50000)
+  })
+
+  it('caps overlapping rules at the principal', () => {
+    const schedule = buildCurtailmentSchedule(40000, funded, [
+      { day: 90, percent: 10, repeatEveryDays: 30 },
+      { day: 180, percent: 100 },
+    ])
+    // 10% at 90, 120, 150, then everything left at 180
+    expect(schedule.map((i) => i.day)).toEqual([90, 120, 150, 180])
+    expect(schedule[3].amount).toBe(28000)
+    expect(schedule[3].cumulativeAmount).toBe(40000)
+  })
+
+  it('has no installments without rules', () => {
+    expect(buildCurtailmentSchedule(40000, funded, [])).toEqual([])
+  })
+})
+
+describe('getOutstandingCurtailments', () => {
+  const schedule = buildCurtailmentSchedule(10000, funded, [{ day: 90, percent: 25, repeatEveryDays: 30 }])
+
+  it('applies principal paid to the earliest installments first', () => {
+    const outstanding = getOutstandingCurtailments(schedule, 3000)
+    expect(outstanding.map((c) => c.amount)).toEqual([2000, 2500, 2500])
+    expect(getNextCurtailment(schedule, 3000)).toEqual({ dueDate: schedule[1].dueDate, amount: 2000 })
+  })
+
+  it('has nothing outstanding once the principal is paid', () => {
+    expect(getOutstandingCurtailments(schedule, 10000)).toEqual([])
+    expect(getNextCurtailment(schedule, 10000)).toBeNull()
+  })
+})
+
+describe('interest accrual', () => {
+  it('accrues on an actual/365 basis rounded to cents', () => {
+    expect(getDailyInterest(36500, 7.3)).toBe(7.3)
+    expect(getDailyInterest(50000, 6.5)).toBe(8.9)
+    expect(getDailyInterest(0, 6.5)).toBe(0)
+  })
+
+  it('lists the days not yet accrued, excluding today', () => {
+    const days = getAccrualDays(funded, null, new Date('2026-01-04T15:00:00Z'))
+    expect(days.map((d) => d.toISOString().slice(0, 10))).toEqual(['2026-01-01', '2026-01-02', '2026-01-03'])
+
+    const more = getAccrualDays(funded, new Date('2026-01-03T00:00:00Z'), new Date('2026-01-05T08:00:00Z'))
+    expect(more.map((d) => d.toISOString().slice(0, 10))).toEqual(['2026-01-04'])
+
+    expect(getAccrualDays(funded, new Date('2026-01-04T00:00:00Z'), new Date('2026-01-05T08:00:00Z'))).toEqual([])
+  })
+})
+
+describe('groupCurtailmentsByWeek', () => {
+  // Wednesday
+  const asOf = new Date('2026-07-15T12:00:00Z')
+
+  it('starts weeks on Monday', () => {
+    expect(getWeekStart(asOf).toISOString()).toBe('2026-07-13T00:00:00.000Z')
+  })
+
+  it('buckets curtailments by due week and separates past due', () => {
+    const grouped = groupCurtailmentsByWeek(
+      [
+        { dueDate: new Date('2026-07-10T00:00:00Z'), amount: 1000 },
+        { dueDate: new Date('2026-07-16T00:00:00Z'), amount: 500 },
+        { dueDate: new Date('2026-07-19T00:00:00Z'), amount: 250 },
+        { dueDate: new Date('2026-07-20T00:00:00Z'), amount: 750 },
+        { dueDate: new Date('2026-09-30T00:00:00Z'), amount: 9999 },
+      ],
+      asOf,
+      4
+    )
+
+    expect(grouped.pastDue?.total).toBe(1000)
+    expect(grouped.weeks.map((week) => week.total)).toEqual([750, 750, 0, 0])
+    expect(grouped.weeks[1].weekStart.toISOString()).toBe('2026-07-20T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Tests for PDI checklist templates, sign-off checks and delivery gating
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getDeliveryBlockers,
+  getPdiChecklist,
+  getPdiSignOffBlockers,
+  getPdiTemplateKey,
+  getUnsentPdiFailures,
+  getWalkthroughTopics,
+  summarizePdi,
+  type PdiItemResult,
+  type PdiTemplateKey,
+} from '@/lib/pdi-checklist'
+
+function passAll(templateKey: PdiTemplateKey, overrides: Record<string, Partial<PdiItemResult>> = {}): PdiItemResult[] {
+  return getPdiChecklist(templateKey)
+    .flatMap((section) => section.items)
+    .map((item) => ({ code: item.code, result: 'pass' as const, ...overrides[item.code] }))
+}
+
+describe('getPdiTemplateKey', () => {
+  it('picks the checklist for the model class', () => {
+    expect(getPdiTemplateKey('Class A')).toBe('class_a')
+    expect(getPdiTemplateKey('Class C')).toBe('class_b_c')
+    expect(getPdiTemplateKey('Fifth Wheel')).toBe('fifth_wheel')
+    expect(getPdiTemplateKey('Travel Trailer')).toBe('travel_trailer')
+    expect(getPdiTemplateKey(null)).toBe('travel_trailer')
+  })
+
+  it('gives motorhomes chassis checks and towables running gear', () => {
+    const codes = (key: PdiTemplateKey) => getPdiChecklist(key).flatMap((section) => section.items.map((item) => item.code))
+    expect(codes('class_a')).toContain('leveling_jacks')
+    expect(codes('class_a')).not.toContain('coupler')
+    expect(codes('travel_trailer')).toContain('coupler')
+    expect(codes('fifth_wheel')).toContain('kingpin')
+  })
+})
+
+describe('summarizePdi', () => {
+  it('counts results and lists items not yet inspected', () => {
+    const results = passAll('travel_trailer', { roof: { result: 'fail', note: 'Seam open' }, awning: { result: 'na' } })
+    const summary = summarizePdi('travel_trailer', results.slice(1))
+    expect(summary.missing).toEqual(['roof'])
+    expect(summary.complete).toBe(false)
+
+    const full = summarizePdi('travel_trailer', results)
+    expect(full.complete).toBe(true)
+    expect(full.failed).toBe(1)
+    expect(full.notApplicable).toBe(1)
+    expect(full.passed).toBe(full.total - 2)
+  })
+})
+
+describe('getUnsentPdiFailures', () => {
+  it('skips failures already sent to a repair order', () => {
+    const results = passAll('class_a', {
+      roof: { result: 'fail', note: 'Seam open', roNumber: 'RO-2025-00003' },
+      generator: { result: 'fail', note: 'Will not start' },
+    })
+    expect(getUnsentPdiFailures('class_a', results).map((result) => result.code)).toEqual(['generator'])
+  })
+})
+
+describe('getPdiSignOffBlockers', () => {
+  it('is clear once every item passes or is N/A and a photo is attached', () => {
+    expect(getPdiSignOffBlockers('fifth_wheel', passAll('fifth_wheel', { awning: { result: 'na' } }), 2)).toEqual([])
+  })
+
+  it('blocks on uninspected items, failures and missing photos', () => {
+    const results = passAll('fifth_wheel', { kingpin: { result: 'fail', note: 'Bent' } }).slice(1)
+    expect(getPdiSignOffBlockers('fifth_wheel', results, 0)).toEqual([
+      '1 item not yet inspected',
+      'Kingpin box and pin failed; repair and re-inspect before sign-off',
+      'Attach at least one photo',
+    ])
+  })
+})
+
+describe('getDeliveryBlockers', () => {
+  it('requires a unit, a signed-off PDI and the walkthrough', () => {
+    expect(getDeliveryBlockers({ hasUnit: false, pdiStatus: null, walkthroughAcknowledged: false })).toEqual([
+      'Assign a unit to the order before delivery',
+    ])
+    expect(getDeliveryBlockers({ hasUnit: true, pdiStatus: 'repairs_pending', walkthroughAcknowledged: false })).toEqual([
+      'The unit PDI has not been signed off',
+      'Capture the customer walkthrough acknowledgment',
+    ])
+    expect(getDeliveryBlockers({ hasUnit: true, pdiStatus: 'completed', walkthroughAcknowledged: true })).toEqual([])
+  })
+
+  it('covers towing in the walkthrough for towables only', () => {
+    expect(getWalkthroughTopics('travel_trailer')).toContain('Hitching, brake controller and breakaway')
+    expect(getWalkthroughTopics('class_a')).not.toContain('Hitching, brake controller and breakaway')
+  })
+})
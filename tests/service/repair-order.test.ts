@@ -0,0 +1,84 @@
+/**
+ * Tests for repair order numbering, technician clock hours, RO totals and close checks
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateClockedHours,
+  calculateRepairOrderTotals,
+  getRepairOrderCloseBlockers,
+  nextRepairOrderNumber,
+} from '@/lib/service-repair-order'
+
+describe('nextRepairOrderNumber', () => {
+  it('starts each year at 00001', () => {
+    expect(nextRepairOrderNumber(2025, null)).toBe('RO-2025-00001')
+    expect(nextRepairOrderNumber(2026, 'RO-2025-00412')).toBe('RO-2026-00001')
+  })
+
+  it('increments the last number issued this year', () => {
+    expect(nextRepairOrderNumber(2025, 'RO-2025-00041')).toBe('RO-2025-00042')
+  })
+})
+
+describe('calculateClockedHours', () => {
+  const clockIn = new Date('2025-03-10T08:00:00Z')
+
+  it('rounds to the nearest tenth of an hour', () => {
+    expect(calculateClockedHours(clockIn, new Date('2025-03-10T09:20:00Z'))).toBe(1.3)
+    expect(calculateClockedHours(clockIn, new Date('2025-03-10T10:30:00Z'))).toBe(2.5)
+  })
+
+  it('bills at least 0.1 hours for any clocked time', () => {
+    expect(calculateClockedHours(clockIn, new Date('2025-03-10T08:01:00Z'))).toBe(0.1)
+    expect(calculateClockedHours(clockIn, clockIn)).toBe(0)
+  })
+})
+
+describe('calculateRepairOrderTotals', () => {
+  it('rolls up labor, parts at retail and sublet, leaving out open clock entries', () => {
+    const totals = calculateRepairOrderTotals(
+      [
+        {
+          payType: 'customer_pay',
+          subletCost: 0,
+          parts: [{ quantity: 2, unitCost: 10, unitPrice: 15 }],
+          laborEntries: [{ hours: 1.5 }, { hours: null }],
+        },
+        {
+          payType: 'warranty',
+          subletCost: 200,
+          parts: [{ quantity: 1, unitCost: 80, unitPrice: 120 }],
+          laborEntries: [{ hours: 2 }],
+        },
+      ],
+      150
+    )
+
+    expect(totals.laborHours).toBe(3.5)
+    expect(totals.laborCost).toBe(525)
+    expect(totals.partsCost).toBe(150)
+    expect(totals.subletCost).toBe(200)
+    expect(totals.totalCost).toBe(875)
+    expect(totals.customerPayTotal).toBe(255)
+  })
+})
+
+describe('getRepairOrderCloseBlockers', () => {
+  it('requires at least one line', () => {
+    expect(getRepairOrderCloseBlockers([])).toEqual(['Add at least one line before closing the repair order'])
+  })
+
+  it('flags missing findings and technicians still on the clock', () => {
+    const blockers = getRepairOrderCloseBlockers([
+      { lineNumber: 1, cause: 'Worn seal', correction: 'Replaced seal', laborEntries: [] },
+      {
+        lineNumber: 2,
+        cause: 'Loose wire',
+        correction: '',
+        laborEntries: [{ technicianName: 'Sam Ortiz', clockOut: null }],
+      },
+    ])
+
+    expect(blockers).toEqual(['Line 2 needs a cause and correction', 'Sam Ortiz is still clocked in on line 2'])
+  })
+})
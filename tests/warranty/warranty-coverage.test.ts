@@ -0,0 +1,126 @@
+/**
+ * Tests for component coverage decisions and claim coverage blockers
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  determineCoverage,
+  getClaimCoverageBlockers,
+  summarizeCoverage,
+  type UnitWarranty,
+} from '@/lib/warranty-coverage'
+
+const retailed = new Date('2024-01-01T00:00:00Z')
+
+const unit: UnitWarranty = {
+  warrantyStartDate: retailed,
+  warrantyEndDate: new Date('2025-01-01T00:00:00Z'),
+  terms: [
+    { component: 'general', months: 12, mileageCap: null, oemProvider: null },
+    { component: 'structural', months: 36, mileageCap: null, oemProvider: null },
+    { component: 'electrical', months: 24, mileageCap: 20000, oemProvider: null },
+    { component: 'chassis', months: null, mileageCap: null, oemProvider: 'Freightliner' },
+  ],
+  extendedWarranty: null,
+}
+
+describe('determineCoverage', () => {
+  it('covers components within their own term and falls back to the basic term', () => {
+    const structural = determineCoverage(unit, 'structural', new Date('2026-06-01T00:00:00Z'))
+    expect(structural.status).toBe('covered')
+    expect(structural.expiresOn?.toISOString().slice(0, 10)).toBe('2027-01-01')
+
+    const plumbing = determineCoverage(unit, 'plumbing', new Date('2025-03-01T00:00:00Z'))
+    expect(plumbing.status).toBe('expired')
+    expect(plumbing.reason).toBe('Plumbing coverage ended 2025-01-01')
+  })
+
+  it('expires components over their mileage cap', () => {
+    const decision = determineCoverage(unit, 'electrical', new Date('2024-06-01T00:00:00Z'), 25000)
+    expect(decision.status).toBe('mileage_exceeded')
+    expect(decision.covered).toBe(false)
+    expect(determineCoverage(unit, 'electrical', new Date('2024-06-01T00:00:00Z'), 15000).covered).toBe(true)
+  })
+
+  it('never covers OEM-warranted components', () => {
+    const decision = determineCoverage(unit, 'chassis', new Date('2024-02-01T00:00:00Z'))
+    expect(decision.status).toBe('oem')
+    expect(decision.reason).toContain('Freightliner')
+  })
+
+  it('picks up lapsed components under an active extended contract', () => {
+    const extended: UnitWarranty = {
+      ...unit,
+      extendedWarranty: {
+        contractNumber: 'EW-100',
+        components: ['plumbing'],
+        startDate: new Date('2025-01-01T00:00:00Z'),
+        endDate: new Date('2028-01-01T00:00:00Z'),
+        mileageCap: null,
+        status: 'active',
+      },
+    }
+    const failure = new Date('2026-01-15T00:00:00Z')
+    expect(determineCoverage(extended, 'plumbing', failure).status).toBe('extended')
+    expect(determineCoverage(extended, 'appliances', failure).status).toBe('expired')
+
+    const cancelled = { ...extended, extendedWarranty: { ...extended.extendedWarranty!, status: 'cancelled' } }
+    expect(determineCoverage(cancelled, 'plumbing', failure).status).toBe('expired')
+  })
+
+  it('covers units still in stock and uses the warranty end date for models without a plan', () => {
+    expect(determineCoverage({ ...unit, warrantyStartDate: null }, 'general', new Date()).status).toBe('covered')
+
+    const noPlan: UnitWarranty = { ...unit, terms: null }
+    expect(determineCoverage(noPlan, 'structural', new Date('2024-12-01T00:00:00Z')).status).toBe('covered')
+    expect(determineCoverage(noPlan, 'structural', new Date('2025-02-01T00:00:00Z')).status).toBe('expired')
+  })
+})
+
+describe('summarizeCoverage', () => {
+  it('is under warranty only when every item is covered', () => {
+    const failure = new Date('2024-06-01T00:00:00Z')
+    const covered = summarizeCoverage([
+      determineCoverage(unit, 'general', failure),
+      determineCoverage(unit, 'structural', failure),
+    ])
+    expect(covered.isUnderWarranty).toBe(true)
+    expect(covered.warrantyStatus).toBe('in_warranty')
+    expect(covered.warrantyExpires?.toISOString().slice(0, 10)).toBe('2025-01-01')
+
+    const mixed = summarizeCoverage([
+      determineCoverage(unit, 'general', failure),
+      determineCoverage(unit, 'chassis', failure),
+    ])
+    expect(mixed).toMatchObject({ isUnderWarranty: false, warrantyStatus: 'expired' })
+  })
+})
+
+describe('getClaimCoverageBlockers', () => {
+  const claim = {
+    productName: '2024 Venetian',
+    rvUnitId: 'unit-1',
+    isUnderWarranty: false,
+    goodwillRequested: false,
+    items: [
+      { partName: 'Awning arm', coverageStatus: 'covered', coverageNote: null },
+      { partName: 'Water pump', coverageStatus: 'expired', coverageNote: 'Plumbing coverage ended 2025-01-01' },
+      { partName: 'Axle', coverageStatus: 'oem', coverageNote: 'Chassis is warranted by Freightliner' },
+    ],
+  }
+
+  it('blocks uncovered items unless goodwill is requested, and OEM items always', () => {
+    expect(getClaimCoverageBlockers(claim)).toEqual([
+      'Water pump: Plumbing coverage ended 2025-01-01. Request goodwill to submit it anyway',
+      'Axle: Chassis is warranted by Freightliner',
+    ])
+    expect(getClaimCoverageBlockers({ ...claim, goodwillRequested: true })).toEqual([
+      'Axle: Chassis is warranted by Freightliner',
+    ])
+  })
+
+  it('judges unit claims without items on the unit coverage', () => {
+    expect(getClaimCoverageBlockers({ ...claim, items: [] })).toHaveLength(1)
+    expect(getClaimCoverageBlockers({ ...claim, items: [], isUnderWarranty: true })).toEqual([])
+    expect(getClaimCoverageBlockers({ ...claim, items: [], rvUnitId: null })).toEqual([])
+  })
+})
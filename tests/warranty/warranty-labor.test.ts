@@ -0,0 +1,83 @@
+/**
+ * Tests for flat-rate labor guide lookups and claim labor line validation
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  describeLaborFlag,
+  findLaborOperation,
+  getApplicableLaborOperations,
+  parseLaborFlags,
+  validateLaborLine,
+  type LaborOperationForLookup,
+} from '@/lib/warranty-labor'
+
+const operations: LaborOperationForLookup[] = [
+  { opCode: 'SLD-01', description: 'Adjust slide-out', standardHours: 1.5, rvModelId: null, classType: null },
+  { opCode: 'SLD-01', description: 'Adjust slide-out (fifth wheel)', standardHours: 2, rvModelId: null, classType: 'Fifth Wheel' },
+  { opCode: 'SLD-01', description: 'Adjust slide-out (Venetian)', standardHours: 3, rvModelId: 'venetian', classType: null },
+  { opCode: 'GEN-02', description: 'Replace generator starter', standardHours: 2.5, rvModelId: null, classType: 'Class A' },
+  { opCode: 'HTC-01', description: 'Replace hitch coupler', standardHours: 1, rvModelId: 'aria', classType: null },
+]
+
+describe('findLaborOperation', () => {
+  it('prefers the model entry, then the class entry, then the guide-wide entry', () => {
+    expect(findLaborOperation(operations, 'sld-01', { rvModelId: 'venetian', classType: 'Fifth Wheel' })?.standardHours).toBe(3)
+    expect(findLaborOperation(operations, 'SLD-01', { rvModelId: 'other', classType: 'Fifth Wheel' })?.standardHours).toBe(2)
+    expect(findLaborOperation(operations, 'SLD-01', { rvModelId: 'other', classType: 'Travel Trailer' })?.standardHours).toBe(1.5)
+    expect(findLaborOperation(operations, 'SLD-01', {})?.standardHours).toBe(1.5)
+  })
+
+  it('never applies entries scoped to another model or class', () => {
+    expect(findLaborOperation(operations, 'GEN-02', { rvModelId: 'other', classType: 'Travel Trailer' })).toBeNull()
+    expect(findLaborOperation(operations, 'HTC-01', { rvModelId: 'venetian', classType: 'Class A' })).toBeNull()
+  })
+})
+
+describe('getApplicableLaborOperations', () => {
+  it('lists one entry per op code for the unit', () => {
+    const applicable = getApplicableLaborOperations(operations, { rvModelId: 'venetian', classType: 'Class A' })
+    expect(applicable.map((op) => [op.opCode, op.standardHours])).toEqual([
+      ['GEN-02', 2.5],
+      ['SLD-01', 3],
+    ])
+  })
+})
+
+describe('validateLaborLine', () => {
+  const operation = { standardHours: 1.5 }
+
+  it('passes labor within standard hours and the approved rate', () => {
+    expect(validateLaborLine({ hours: 1.5, rate: 120 }, operation, 125)).toEqual({
+      standardHours: 1.5,
+      approvedRate: 125,
+      flags: [],
+      suggestedAmount: 180,
+    })
+  })
+
+  it('flags excess hours and rate and suggests standard hours at the approved rate', () => {
+    const result = validateLaborLine({ hours: 3, rate: 150 }, operation, 125)
+    expect(result.flags).toEqual(['hours_over_standard', 'rate_over_approved'])
+    expect(result.suggestedAmount).toBe(187.5)
+  })
+
+  it('flags op codes missing from the guide and skips the rate check without an approved rate', () => {
+    const result = validateLaborLine({ hours: 2, rate: 175 }, null, null)
+    expect(result.flags).toEqual(['unknown_op'])
+    expect(result.standardHours).toBeNull()
+    expect(result.suggestedAmount).toBe(350)
+  })
+})
+
+describe('parseLaborFlags and describeLaborFlag', () => {
+  it('reads stored flags and explains them to the reviewer', () => {
+    expect(parseLaborFlags('["hours_over_standard","bogus"]')).toEqual(['hours_over_standard'])
+    expect(parseLaborFlags('not json')).toEqual([])
+    expect(parseLaborFlags(null)).toEqual([])
+
+    const line = { opCode: 'SLD-01', hours: 3, rate: 150, standardHours: 1.5, approvedRate: 125 }
+    expect(describeLaborFlag('hours_over_standard', line)).toBe('3h claimed vs 1.5h standard')
+    expect(describeLaborFlag('rate_over_approved', line)).toBe('$150.00/hr claimed vs $125.00/hr approved')
+    expect(describeLaborFlag('unknown_op', line)).toBe('SLD-01 is not in the labor guide for this unit')
+  })
+})
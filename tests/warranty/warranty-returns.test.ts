@@ -0,0 +1,81 @@
+/**
+ * Tests for warranty part return tags, status transitions and chargeback timing
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getPartReturnCredit,
+  getPartReturnDueDate,
+  getPartReturnTransition,
+  isPartReturnOverdue,
+  nextReturnTagNumber,
+  summarizePartReturns,
+} from '@/lib/warranty-returns'
+
+describe('nextReturnTagNumber', () => {
+  it('continues the year sequence and restarts each year', () => {
+    expect(nextReturnTagNumber(2026, null)).toBe('RT-2026-00001')
+    expect(nextReturnTagNumber(2026, 'RT-2026-00041')).toBe('RT-2026-00042')
+    expect(nextReturnTagNumber(2027, 'RT-2026-00041')).toBe('RT-2027-00001')
+  })
+})
+
+describe('getPartReturnDueDate', () => {
+  it('defaults to 30 days after approval', () => {
+    const approvedAt = new Date('2026-03-01T12:00:00Z')
+    expect(getPartReturnDueDate(approvedAt).toISOString()).toBe('2026-03-31T12:00:00.000Z')
+    expect(getPartReturnDueDate(approvedAt, 10).toISOString()).toBe('2026-03-11T12:00:00.000Z')
+  })
+})
+
+describe('getPartReturnTransition', () => {
+  it('follows ship, receive and inspect in order', () => {
+    expect(getPartReturnTransition('required', 'ship')).toBe('shipped')
+    expect(getPartReturnTransition('shipped', 'receive')).toBe('received')
+    expect(getPartReturnTransition('received', 'accept')).toBe('accepted')
+    expect(getPartReturnTransition('received', 'reject')).toBe('rejected')
+  })
+
+  it('lets the manufacturer receive a part that was never marked shipped', () => {
+    expect(getPartReturnTransition('required', 'receive')).toBe('received')
+  })
+
+  it('refuses out-of-order actions', () => {
+    expect(getPartReturnTransition('shipped', 'ship')).toBeNull()
+    expect(getPartReturnTransition('shipped', 'accept')).toBeNull()
+    expect(getPartReturnTransition('shipped', 'charge_back')).toBeNull()
+    expect(getPartReturnTransition('charged_back', 'receive')).toBeNull()
+  })
+})
+
+describe('isPartReturnOverdue', () => {
+  const now = new Date('2026-04-01T00:00:00Z')
+
+  it('only charges back parts never shipped by the due date', () => {
+    expect(isPartReturnOverdue({ status: 'required', dueDate: new Date('2026-03-31T00:00:00Z') }, now)).toBe(true)
+    expect(isPartReturnOverdue({ status: 'required', dueDate: new Date('2026-04-02T00:00:00Z') }, now)).toBe(false)
+    expect(isPartReturnOverdue({ status: 'shipped', dueDate: new Date('2026-03-31T00:00:00Z') }, now)).toBe(false)
+  })
+})
+
+describe('getPartReturnCredit and summarizePartReturns', () => {
+  it('uses the approved amount when one was set', () => {
+    expect(getPartReturnCredit({ totalCost: 250, approvedAmount: 180.555 })).toBe(180.56)
+    expect(getPartReturnCredit({ totalCost: 250, approvedAmount: null })).toBe(250)
+  })
+
+  it('counts open and overdue returns and totals chargebacks', () => {
+    const now = new Date('2026-04-01T00:00:00Z')
+    const past = new Date('2026-03-01T00:00:00Z')
+    expect(
+      summarizePartReturns(
+        [
+          { status: 'required', dueDate: past, chargebackAmount: null },
+          { status: 'shipped', dueDate: past, chargebackAmount: null },
+          { status: 'charged_back', dueDate: past, chargebackAmount: 120 },
+          { status: 'rejected', dueDate: past, chargebackAmount: 80.5 },
+        ],
+        now
+      )
+    ).toEqual({ open: 2, overdue: 1, chargedBack: 200.5 })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Tests for warranty claim anomaly flags, risk scores and levels
+ */
+import { describe, it, expect } from '@jest/globals'
+import {
+  getRiskLevel,
+  median,
+  normalizeDescription,
+  parseRiskFlags,
+  scoreClaimRisk,
+  type ClaimRiskContext,
+  type ClaimRiskInput,
+} from '@/lib/warranty-risk'
+
+const filedAt = new Date('2026-06-15T00:00:00Z')
+
+const claim: ClaimRiskInput = {
+  vin: '1TC2B9700R3001234',
+  description: 'Water pump leaking at inlet fitting.',
+  laborHours: 2,
+  parts: [{ partNumber: 'wp-100', partName: 'Water pump' }],
+  filedAt,
+  warrantyEndDate: new Date('2027-01-01T00:00:00Z'),
+}
+
+const context: ClaimRiskContext = {
+  vinClaims: [],
+  partLaborHours: {},
+  dealerRates: [],
+  dealerId: 'd1',
+  dealerDescriptions: [],
+}
+
+describe('median and normalizeDescription', () => {
+  it('takes the middle value, averaging the two middles of an even sample', () => {
+    expect(median([5, 1, 3])).toBe(3)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+    expect(median([])).toBeNull()
+  })
+
+  it('ignores case, spacing and punctuation', () => {
+    expect(normalizeDescription('  Water pump LEAKING -- at inlet fitting!')).toBe('water pump leaking at inlet fitting')
+  })
+})
+
+describe('scoreClaimRisk', () => {
+  it('scores a clean claim zero', () => {
+    expect(scoreClaimRisk(claim, context)).toEqual({ score: 0, flags: [] })
+  })
+
+  it('flags the same part on the same VIN within the window', () => {
+    const result = scoreClaimRisk(claim, {
+      ...context,
+      vinClaims: [
+        { claimNumber: 'WC-2026-00010', filedAt: new Date('2026-05-20T00:00:00Z'), parts: [{ partNumber: 'WP-100', partName: 'Pump' }] },
+        { claimNumber: 'WC-2026-00002', filedAt: new Date('2026-01-05T00:00:00Z'), parts: [{ partNumber: 'WP-100', partName: 'Pump' }] },
+        { claimNumber: 'WC-2026-00011', filedAt: new Date('2026-06-01T00:00:00Z'), parts: [{ partNumber: 'AW-1', partName: 'Awning' }] },
+      ],
+    })
+    expect(result.flags).toEqual([
+      { flag: 'duplicate_claim', reason: 'Water pump on this VIN was also claimed on WC-2026-00010 within 60 days' },
+    ])
+    expect(result.score).toBe(40)
+  })
+
+  it('flags labor far above the network median once the sample is large enough', () => {
+    const input = { ...claim, laborHours: 6.5 }
+    expect(scoreClaimRisk(input, { ...context, partLaborHours: { 'WP-100': [2, 3, 2.5, 3] } }).flags).toEqual([])
+
+    const result = scoreClaimRisk(input, { ...context, partLaborHours: { 'WP-100': [2, 3, 2.5, 3, 2] } })
+    expect(result.flags[0]).toEqual({
+      flag: 'labor_outlier',
+      reason: '6.5h claimed vs network median 2.5h for Water pump (5 claims)',
+    })
+  })
+
+  it('flags claims filed in the last days of the warranty', () => {
+    const result = scoreClaimRisk({ ...claim, warrantyEndDate: new Date('2026-06-21T00:00:00Z') }, context)
+    expect(result.flags).toEqual([
+      { flag: 'near_warranty_end', reason: 'Filed 6 days before the warranty ends 2026-06-21' },
+    ])
+    expect(scoreClaimRisk({ ...claim, warrantyEndDate: new Date('2026-06-01T00:00:00Z') }, context).flags).toEqual([])
+  })
+
+  it('flags dealers filing far more claims per unit sold than the network', () => {
+    const dealerRates = [
+      { dealerId: 'd1', claims: 12, unitsSold: 20 },
+      { dealerId: 'd2', claims: 2, unitsSold: 20 },
+      { dealerId: 'd3', claims: 3, unitsSold: 15 },
+      { dealerId: 'd4', claims: 9, unitsSold: 2 },
+    ]
+    expect(scoreClaimRisk(claim, { ...context, dealerRates }).flags).toEqual([
+      { flag: 'dealer_claim_rate', reason: 'Dealer files 0.6 claims per unit sold vs network median 0.2' },
+    ])
+    expect(scoreClaimRisk(claim, { ...context, dealerRates, dealerId: 'd2' }).flags).toEqual([])
+  })
+
+  it('flags descriptions copied from other claims by the dealer and caps the score at 100', () => {
+    const result = scoreClaimRisk(
+      { ...claim, laborHours: 10, warrantyEndDate: new Date('2026-06-20T00:00:00Z') },
+      {
+        ...context,
+        vinClaims: [{ claimNumber: 'WC-2026-00010', filedAt, parts: claim.parts }],
+        partLaborHours: { 'WP-100': [1, 1, 1, 1, 1] },
+        dealerDescriptions: [
+          { claimNumber: 'WC-2026-00003', description: 'water pump leaking at inlet fitting' },
+          { claimNumber: 'WC-2026-00004', description: 'Awning will not retract' },
+        ],
+      }
+    )
+    expect(result.flags.map((flag) => flag.flag)).toEqual([
+      'duplicate_claim',
+      'labor_outlier',
+      'near_warranty_end',
+      'repeated_description',
+    ])
+    expect(result.flags[3].reason).toBe('Description is identical to WC-2026-00003')
+    expect(result.score).toBe(100)
+  })
+})
+
+describe('getRiskLevel and parseRiskFlags', () => {
+  it('buckets scores into levels', () => {
+    expect(getRiskLevel(null)).toBe('none')
+    expect(getRiskLevel(0)).toBe('none')
+    expect(getRiskLevel(15)).toBe('low')
+    expect(getRiskLevel(25)).toBe('medium')
+    expect(getRiskLevel(70)).toBe('high')
+  })
+
+  it('drops unknown or malformed flags', () => {
+    expect(parseRiskFlags('[{"flag":"labor_outlier","reason":"x"},{"flag":"bogus","reason":"y"},"z"]')).toEqual([
+      { flag: 'labor_outlier', reason: 'x' },
+    ])
+    expect(parseRiskFlags('not json')).toEqual([])
+    expect(parseRiskFlags(null)).toEqual([])
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Tests for warranty settlement numbering, claim amounts and per-dealer grouping
+ */
+import { describe, it, expect } from '@jest/globals'
+import { nextCreditMemoNumbers } from '@/lib/order-returns'
+import {
+  getClaimSettlementAmount,
+  getSettlementHold,
+  nextSettlementBatchNumber,
+  planSettlement,
+} from '@/lib/warranty-settlement'
+
+describe('nextSettlementBatchNumber', () => {
+  it('continues the year sequence and restarts each year', () => {
+    expect(nextSettlementBatchNumber(2026, null)).toBe('WS-2026-00001')
+    expect(nextSettlementBatchNumber(2026, 'WS-2026-00009')).toBe('WS-2026-00010')
+    expect(nextSettlementBatchNumber(2027, 'WS-2026-00009')).toBe('WS-2027-00001')
+  })
+})
+
+describe('nextCreditMemoNumbers', () => {
+  it('hands out consecutive memo numbers after the last one issued', () => {
+    expect(nextCreditMemoNumbers(2026, 'CM-2026-00012', 2)).toEqual(['CM-2026-00013', 'CM-2026-00014'])
+    expect(nextCreditMemoNumbers(2026, null, 1)).toEqual(['CM-2026-00001'])
+    expect(nextCreditMemoNumbers(2026, 'CM-2026-00012', 0)).toEqual([])
+  })
+})
+
+describe('getClaimSettlementAmount', () => {
+  it('pays the approved total less chargebacks, never below zero', () => {
+    expect(getClaimSettlementAmount({ totalApproved: 1250.5, chargebackAmount: 200.25 })).toBe(1050.25)
+    expect(getClaimSettlementAmount({ totalApproved: null, chargebackAmount: 0 })).toBe(0)
+    expect(getClaimSettlementAmount({ totalApproved: 100, chargebackAmount: 150 })).toBe(0)
+  })
+})
+
+describe('getSettlementHold', () => {
+  it('holds claims until every part return is closed', () => {
+    expect(getSettlementHold({ partReturns: [] })).toBeNull()
+    expect(getSettlementHold({ partReturns: [{ status: 'accepted' }, { status: 'charged_back' }] })).toBeNull()
+    expect(getSettlementHold({ partReturns: [{ status: 'shipped' }, { status: 'rejected' }] })).toBe(
+      '1 part return still open'
+    )
+    expect(getSettlementHold({ partReturns: [{ status: 'required' }, { status: 'received' }] })).toBe(
+      '2 part returns still open'
+    )
+  })
+})
+
+describe('planSettlement', () => {
+  it('totals payable claims per dealer and reports held claims', () => {
+    const plan = planSettlement([
+      { id: 'c1', dealerId: 'd1', totalApproved: 500, chargebackAmount: 0, partReturns: [] },
+      { id: 'c2', dealerId: 'd2', totalApproved: 300, chargebackAmount: 0, partReturns: [{ status: 'required' }] },
+      { id: 'c3', dealerId: 'd1', totalApproved: 420.1, chargebackAmount: 120.05, partReturns: [{ status: 'rejected' }] },
+      { id: 'c4', dealerId: 'd3', totalApproved: 80, chargebackAmount: 0, partReturns: [] },
+    ])
+
+    expect(plan.dealers).toEqual([
+      { dealerId: 'd1', claimIds: ['c1', 'c3'], approvedAmount: 920.1, chargebackAmount: 120.05, netAmount: 800.05 },
+      { dealerId: 'd3', claimIds: ['c4'], approvedAmount: 80, chargebackAmount: 0, netAmount: 80 },
+    ])
+    expect(plan.held).toEqual([{ claimId: 'c2', reason: '1 part return still open' }])
+  })
+})